@@ -2,9 +2,10 @@
  * API Tests
  */
 
-import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import type { Express } from 'express';
+import type { EntityId } from '@contextgraph/core';
 import { ContextGraph } from '@contextgraph/sdk';
 import { createApp } from './server.js';
 
@@ -47,6 +48,25 @@ describe('ContextGraph API', () => {
       expect(res.body.data).toHaveProperty('agents');
     });
 
+    it('GET /api/v1/stats groups claims by the requested period', async () => {
+      const entity = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'person', name: 'Alice' });
+      await request(app)
+        .post(`/api/v1/entities/${entity.body.data.id}/claims`)
+        .send({ predicate: 'role', value: 'engineer' });
+
+      const res = await request(app).get('/api/v1/stats?bucket=year');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.entityTypes).toEqual({ person: 1 });
+      expect(res.body.data.predicates).toEqual({ role: 1 });
+      expect(Object.keys(res.body.data.claimsCreated)).toEqual([String(new Date().getUTCFullYear())]);
+
+      const invalid = await request(app).get('/api/v1/stats?bucket=fortnight');
+      expect(invalid.status).toBe(400);
+    });
+
     it('GET /api/v1/audit returns audit trail', async () => {
       const res = await request(app).get('/api/v1/audit');
 
@@ -70,6 +90,24 @@ describe('ContextGraph API', () => {
       expect(res.body.success).toBe(true);
       expect(res.body.data).toHaveProperty('valid');
     });
+
+    it('GET /api/v1/search ranks matching entities', async () => {
+      await request(app).post('/api/v1/entities').send({ type: 'organization', name: 'ACME Corporation Ltd.' });
+      await request(app).post('/api/v1/entities').send({ type: 'person', name: 'Acme Jones' });
+
+      const res = await request(app).get('/api/v1/search?q=acme%20corp&types=organization');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data).toHaveLength(1);
+      expect(res.body.data[0].text).toBe('ACME Corporation Ltd.');
+    });
+
+    it('GET /api/v1/search requires a query', async () => {
+      const res = await request(app).get('/api/v1/search');
+
+      expect(res.status).toBe(400);
+    });
   });
 
   describe('Entity Endpoints', () => {
@@ -169,6 +207,68 @@ describe('ContextGraph API', () => {
       expect(Array.isArray(res.body.data)).toBe(true);
       expect(res.body.data.length).toBeGreaterThan(0);
     });
+
+    it('PUT /api/v1/entities/:id updates entity', async () => {
+      const createRes = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'test', name: 'Update Test' });
+
+      const id = createRes.body.data.id;
+      const res = await request(app)
+        .put(`/api/v1/entities/${id}`)
+        .send({ name: 'Updated', aliases: ['Renamed'] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.name).toBe('Updated');
+      expect(res.body.data.aliases).toEqual(['Renamed']);
+    });
+
+    it('DELETE /api/v1/entities/:id deletes entity', async () => {
+      const createRes = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'test', name: 'Delete Test' });
+
+      const id = createRes.body.data.id;
+      const res = await request(app).delete(`/api/v1/entities/${id}`);
+      expect(res.status).toBe(200);
+      expect(res.body.data.deleted).toBe(true);
+
+      const getRes = await request(app).get(`/api/v1/entities/${id}`);
+      expect(getRes.status).toBe(404);
+    });
+
+    it('DELETE /api/v1/entities/:id returns 404 for an entity deleted since it was read', async () => {
+      const createRes = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'test', name: 'Concurrent Delete Test' });
+
+      const id = (createRes.body as { data: { id: EntityId } }).data.id;
+      const read = await client.getEntity(id);
+      expect((await client.deleteEntity(id)).ok).toBe(true);
+      const getEntity = vi.spyOn(client, 'getEntity').mockResolvedValueOnce(read);
+
+      const res = await request(app).delete(`/api/v1/entities/${id}`);
+      getEntity.mockRestore();
+      expect(res.status).toBe(404);
+    });
+
+    it('POST /api/v1/entities/:id/merge merges duplicates', async () => {
+      const survivorRes = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'test', name: 'Merge Survivor' });
+      const duplicateRes = await request(app)
+        .post('/api/v1/entities')
+        .send({ type: 'test', name: 'Merge Duplicate' });
+
+      const id = survivorRes.body.data.id;
+      const res = await request(app)
+        .post(`/api/v1/entities/${id}/merge`)
+        .send({ duplicateIds: [duplicateRes.body.data.id] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.survivor.aliases).toEqual(['Merge Duplicate']);
+      expect(res.body.data.merged).toEqual([duplicateRes.body.data.id]);
+    });
   });
 
   describe('Agent Endpoints', () => {
@@ -3,12 +3,14 @@
  */
 
 import { Router } from 'express';
-import type { ContextGraph } from '@contextgraph/sdk';
-import type { EntityId } from '@contextgraph/core';
+import type { ContextGraph, UpdateEntityInput } from '@contextgraph/sdk';
+import { ValidationError, type EntityId } from '@contextgraph/core';
 import { validate, asyncHandler, ApiError } from '../middleware.js';
 import {
   CreateEntitySchema,
   UpdateEntitySchema,
+  DeleteEntitySchema,
+  MergeEntitiesSchema,
   ListEntitiesQuerySchema,
   IdParamSchema,
   CreateClaimSchema,
@@ -102,10 +104,14 @@ export function createEntityRoutes(client: ContextGraph): Router {
         throw ApiError.notFound('Entity');
       }
 
-      // TODO: Implement entity update in SDK
+      const result = await client.updateEntity(id, req.body as UpdateEntityInput);
+      if (!result.ok) {
+        throw ApiError.badRequest(result.error.message);
+      }
+
       const response: ApiResponse<unknown> = {
         success: true,
-        data: existing.value.data,
+        data: result.value.data,
       };
       res.json(response);
     })
@@ -114,7 +120,7 @@ export function createEntityRoutes(client: ContextGraph): Router {
   // Delete entity
   router.delete(
     '/:id',
-    validate({ params: IdParamSchema }),
+    validate({ params: IdParamSchema, query: DeleteEntitySchema }),
     asyncHandler(async (req, res) => {
       const id = req.params['id'] as EntityId;
       const existing = await client.getEntity(id);
@@ -122,7 +128,15 @@ export function createEntityRoutes(client: ContextGraph): Router {
         throw ApiError.notFound('Entity');
       }
 
-      // TODO: Implement entity delete in SDK
+      const result = await client.deleteEntity(id, req.query['reason'] as string | undefined);
+      if (!result.ok) {
+        // The entity may have been deleted or merged since it was read
+        if (result.error instanceof ValidationError) {
+          throw result.error.field === 'id' ? ApiError.notFound('Entity') : ApiError.badRequest(result.error.message);
+        }
+        throw ApiError.internal(result.error.message);
+      }
+
       const response: ApiResponse<{ deleted: boolean }> = {
         success: true,
         data: { deleted: true },
@@ -131,6 +145,35 @@ export function createEntityRoutes(client: ContextGraph): Router {
     })
   );
 
+  // Merge duplicate entities into this one
+  router.post(
+    '/:id/merge',
+    validate({ params: IdParamSchema, body: MergeEntitiesSchema }),
+    asyncHandler(async (req, res) => {
+      const id = req.params['id'] as EntityId;
+      const existing = await client.getEntity(id);
+      if (!existing.ok || !existing.value) {
+        throw ApiError.notFound('Entity');
+      }
+
+      const { duplicateIds } = req.body as { duplicateIds: EntityId[] };
+      const result = await client.mergeEntities(id, duplicateIds);
+      if (!result.ok) {
+        throw ApiError.badRequest(result.error.message);
+      }
+
+      const response: ApiResponse<unknown> = {
+        success: true,
+        data: {
+          survivor: result.value.survivor.data,
+          merged: result.value.merged.map((e) => e.data.id),
+          claimsRepointed: result.value.claimsRepointed,
+        },
+      };
+      res.json(response);
+    })
+  );
+
   // Get claims for entity
   router.get(
     '/:id/claims',
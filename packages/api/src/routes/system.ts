@@ -5,8 +5,8 @@
 import { Router } from 'express';
 import type { ContextGraph } from '@contextgraph/sdk';
 import { validate, asyncHandler, ApiError } from '../middleware.js';
-import { AuditQuerySchema, ProvenanceQuerySchema } from '../types.js';
-import type { ApiResponse } from '../types.js';
+import { AuditQuerySchema, ProvenanceQuerySchema, SearchQuerySchema, StatsQuerySchema } from '../types.js';
+import type { ApiResponse, StatsQuery } from '../types.js';
 
 export function createSystemRoutes(client: ContextGraph): Router {
   const router = Router();
@@ -14,8 +14,10 @@ export function createSystemRoutes(client: ContextGraph): Router {
   // Get system statistics
   router.get(
     '/stats',
-    asyncHandler(async (_req, res) => {
-      const result = await client.getStats();
+    validate({ query: StatsQuerySchema }),
+    asyncHandler(async (req, res) => {
+      const { bucket } = req.query as StatsQuery;
+      const result = await client.getStats(bucket !== undefined ? { bucket } : {});
 
       if (!result.ok) {
         throw ApiError.internal(result.error.message);
@@ -97,6 +99,36 @@ export function createSystemRoutes(client: ContextGraph): Router {
     })
   );
 
+  // Full-text search over entities and claim values
+  router.get(
+    '/search',
+    validate({ query: SearchQuerySchema }),
+    asyncHandler(async (req, res) => {
+      const list = (value: unknown): string[] | undefined =>
+        typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter((item) => item !== '') : undefined;
+      const types = list(req.query['types']);
+      const predicates = list(req.query['predicates']);
+      const limit = Number(req.query['limit']) || 20;
+
+      const result = await client.search(String(req.query['q']), {
+        limit,
+        ...(types !== undefined ? { types } : {}),
+        ...(predicates !== undefined ? { predicates } : {}),
+      });
+
+      if (!result.ok) {
+        throw ApiError.internal(result.error.message);
+      }
+
+      const response: ApiResponse<unknown[]> = {
+        success: true,
+        data: [...result.value],
+        meta: { limit },
+      };
+      res.json(response);
+    })
+  );
+
   // Health check
   router.get(
     '/health',
@@ -38,6 +38,14 @@ export const ListEntitiesQuerySchema = PaginationSchema.extend({
   type: z.string().optional(),
 });
 
+export const DeleteEntitySchema = z.object({
+  reason: z.string().optional(),
+});
+
+export const MergeEntitiesSchema = z.object({
+  duplicateIds: z.array(z.string().min(1)).min(1),
+});
+
 // ============================================================================
 // Claim Schemas
 // ============================================================================
@@ -140,6 +148,11 @@ export const UpdatePolicySchema = z.object({
 // System Schemas
 // ============================================================================
 
+export const StatsQuerySchema = z.object({
+  /** Period grouping the claims created over time */
+  bucket: z.enum(['hour', 'day', 'week', 'month', 'year']).optional(),
+});
+
 export const AuditQuerySchema = PaginationSchema.extend({
   action: z.string().optional(),
   agentId: z.string().optional(),
@@ -152,6 +165,15 @@ export const ProvenanceQuerySchema = PaginationSchema.extend({
   action: z.string().optional(),
 });
 
+export const SearchQuerySchema = z.object({
+  q: z.string().min(1),
+  /** Comma-separated entity types */
+  types: z.string().optional(),
+  /** Comma-separated claim predicates */
+  predicates: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
 // ============================================================================
 // Response Types
 // ============================================================================
@@ -184,6 +206,7 @@ export interface ApiError {
 export type CreateEntityInput = z.infer<typeof CreateEntitySchema>;
 export type UpdateEntityInput = z.infer<typeof UpdateEntitySchema>;
 export type ListEntitiesQuery = z.infer<typeof ListEntitiesQuerySchema>;
+export type MergeEntitiesInput = z.infer<typeof MergeEntitiesSchema>;
 
 export type CreateClaimInput = z.infer<typeof CreateClaimSchema>;
 export type ListClaimsQuery = z.infer<typeof ListClaimsQuerySchema>;
@@ -200,5 +223,7 @@ export type RejectDecisionInput = z.infer<typeof RejectDecisionSchema>;
 export type CreatePolicyInput = z.infer<typeof CreatePolicySchema>;
 export type UpdatePolicyInput = z.infer<typeof UpdatePolicySchema>;
 
+export type StatsQuery = z.infer<typeof StatsQuerySchema>;
 export type AuditQuery = z.infer<typeof AuditQuerySchema>;
 export type ProvenanceQuery = z.infer<typeof ProvenanceQuerySchema>;
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
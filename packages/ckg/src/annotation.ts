@@ -0,0 +1,318 @@
+/**
+ * Claim Annotations
+ *
+ * Statements about claims: the evidence and citations backing a claim,
+ * reviewers endorsing or disputing it, notes, and qualifiers refining it.
+ * Annotations are stored in the `claim_annotations` collection next to
+ * the claims they are about and never change once made. Qualifiers are
+ * validated against the properties the ontology declares for the claim's
+ * relation.
+ */
+
+import {
+  type AnnotationId,
+  type ClaimId,
+  type ProvenanceId,
+  type Timestamp,
+  type Result,
+  createAnnotationId,
+  createTimestamp,
+  ok,
+  err,
+  ValidationError,
+} from '@contextgraph/core';
+import { OntologyValidator, type LoadedOntology } from '@contextgraph/ontology';
+import { type StorageInterface, type StorageError, type QueryCriteria } from '@contextgraph/storage';
+import { type ArtifactRef, validateArtifactRef } from '@contextgraph/provenance';
+import { ckgMigrations } from './migrations.js';
+
+/**
+ * What an annotation says about its claim
+ * - `evidence`: an artifact or document span supporting the claim
+ * - `citation`: a source the claim was taken from
+ * - `endorsement`: a reviewer vouching for the claim
+ * - `dispute`: a reviewer contesting the claim
+ * - `note`: a free-form remark
+ * - `qualifier`: named values refining the claim
+ */
+export type AnnotationKind = 'evidence' | 'citation' | 'endorsement' | 'dispute' | 'note' | 'qualifier';
+
+const ANNOTATION_KINDS: readonly AnnotationKind[] = ['evidence', 'citation', 'endorsement', 'dispute', 'note', 'qualifier'];
+
+/** Creation time of the last annotation created in this process */
+let lastCreatedAt = 0;
+
+/**
+ * Creation time of a new annotation, later than that of every annotation
+ * created before it, so annotations made within one millisecond still list
+ * in the order they were made
+ */
+function nextCreatedAt(): Timestamp {
+  lastCreatedAt = Math.max(createTimestamp(), lastCreatedAt + 1);
+  return createTimestamp(lastCreatedAt);
+}
+
+/**
+ * Input for annotating a claim
+ */
+export interface NewAnnotationInput {
+  readonly id?: AnnotationId;
+  readonly claimId: ClaimId;
+  readonly kind: AnnotationKind;
+  /** Artifact or document span referred to; required for evidence and citations */
+  readonly ref?: ArtifactRef;
+  /** Quote, remark or reasoning; required for notes */
+  readonly text?: string;
+  /** Values refining the claim; required for, and only allowed on, qualifiers */
+  readonly qualifiers?: Readonly<Record<string, unknown>>;
+  /** Who made the annotation */
+  readonly author?: string;
+  readonly provenanceId: ProvenanceId;
+}
+
+/**
+ * Annotation data structure
+ */
+export interface AnnotationData {
+  readonly id: AnnotationId;
+  readonly claimId: ClaimId;
+  readonly kind: AnnotationKind;
+  readonly ref: ArtifactRef | undefined;
+  readonly text: string | undefined;
+  readonly qualifiers: Readonly<Record<string, unknown>>;
+  readonly author: string | undefined;
+  readonly provenanceId: ProvenanceId;
+  readonly createdAt: Timestamp;
+}
+
+/**
+ * Annotation record for storage; the reference is flattened so documents
+ * can be looked up by URI
+ */
+interface AnnotationRecord {
+  readonly id: string;
+  readonly claimId: string;
+  readonly kind: string;
+  readonly refType: string | null;
+  readonly refId: string | null;
+  readonly uri: string | null;
+  readonly spanStart: number | null;
+  readonly spanEnd: number | null;
+  readonly text: string | null;
+  readonly qualifiers: string | Record<string, unknown>;
+  readonly author: string | null;
+  readonly provenanceId: string;
+  readonly createdAt: Timestamp;
+  [key: string]: unknown;
+}
+
+/**
+ * Annotation class (immutable)
+ */
+export class Annotation {
+  private constructor(public readonly data: AnnotationData) {}
+
+  /**
+   * Create a new annotation of a claim with the given predicate
+   */
+  static create(input: NewAnnotationInput, predicate: string, ontology?: LoadedOntology): Result<Annotation, Error> {
+    const valid = Annotation.validate(input, predicate, ontology);
+    if (!valid.ok) {
+      return valid;
+    }
+
+    return ok(new Annotation({
+      id: input.id ?? createAnnotationId(),
+      claimId: input.claimId,
+      kind: input.kind,
+      ref: input.ref,
+      text: input.text,
+      qualifiers: input.qualifiers ?? {},
+      author: input.author,
+      provenanceId: input.provenanceId,
+      createdAt: nextCreatedAt(),
+    }));
+  }
+
+  /**
+   * Check an annotation of a claim with the given predicate without creating it
+   */
+  static validate(
+    input: Omit<NewAnnotationInput, 'provenanceId'>,
+    predicate: string,
+    ontology?: LoadedOntology
+  ): Result<void, Error> {
+    if (!ANNOTATION_KINDS.includes(input.kind)) {
+      return err(new ValidationError(`Unknown annotation kind: ${String(input.kind)}`, 'kind'));
+    }
+    if (input.ref !== undefined) {
+      const ref = validateArtifactRef(input.ref);
+      if (!ref.ok) {
+        return ref;
+      }
+    } else if (input.kind === 'evidence' || input.kind === 'citation') {
+      return err(new ValidationError(`An ${input.kind} annotation needs a reference`, 'ref'));
+    }
+    if (input.kind === 'note' && (input.text === undefined || input.text.trim() === '')) {
+      return err(new ValidationError('A note needs text', 'text'));
+    }
+
+    const qualifiers = input.qualifiers ?? {};
+    if (input.kind === 'qualifier') {
+      if (Object.keys(qualifiers).length === 0) {
+        return err(new ValidationError('A qualifier annotation needs qualifiers', 'qualifiers'));
+      }
+      if (ontology !== undefined) {
+        const result = new OntologyValidator(ontology).validateQualifiers(predicate, { ...qualifiers });
+        if (!result.valid) {
+          const firstError = result.errors[0];
+          return err(
+            new ValidationError(
+              firstError?.message ?? 'Qualifier validation failed',
+              firstError?.path,
+              firstError?.code
+            )
+          );
+        }
+      }
+    } else if (Object.keys(qualifiers).length > 0) {
+      return err(new ValidationError('Only qualifier annotations carry qualifiers', 'qualifiers'));
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Reconstruct annotation from stored record
+   */
+  static fromRecord(record: AnnotationRecord): Annotation {
+    const span = record.spanStart !== null && record.spanEnd !== null
+      ? { start: record.spanStart, end: record.spanEnd }
+      : undefined;
+    const ref = record.refType !== null && record.refId !== null
+      ? {
+        type: record.refType as ArtifactRef['type'],
+        id: record.refId,
+        ...(record.uri !== null ? { uri: record.uri } : {}),
+        ...(span !== undefined ? { span } : {}),
+      }
+      : undefined;
+
+    return new Annotation({
+      id: record.id as AnnotationId,
+      claimId: record.claimId as ClaimId,
+      kind: record.kind as AnnotationKind,
+      ref,
+      text: record.text !== null ? JSON.parse(record.text) as string : undefined,
+      qualifiers: typeof record.qualifiers === 'string'
+        ? JSON.parse(record.qualifiers) as Record<string, unknown>
+        : record.qualifiers,
+      author: record.author ?? undefined,
+      provenanceId: record.provenanceId as ProvenanceId,
+      createdAt: record.createdAt,
+    });
+  }
+
+  /**
+   * Convert to storage record
+   */
+  toRecord(): AnnotationRecord {
+    return {
+      id: this.data.id,
+      claimId: this.data.claimId,
+      kind: this.data.kind,
+      refType: this.data.ref?.type ?? null,
+      refId: this.data.ref?.id ?? null,
+      uri: this.data.ref?.uri ?? null,
+      spanStart: this.data.ref?.span?.start ?? null,
+      spanEnd: this.data.ref?.span?.end ?? null,
+      // Encoded like claim values, so text is never mistaken for JSON
+      text: this.data.text !== undefined ? JSON.stringify(this.data.text) : null,
+      qualifiers: JSON.stringify(this.data.qualifiers),
+      author: this.data.author ?? null,
+      provenanceId: this.data.provenanceId,
+      createdAt: this.data.createdAt,
+    };
+  }
+}
+
+/**
+ * Criteria for finding annotations
+ */
+export interface AnnotationQuery {
+  readonly claimIds?: readonly ClaimId[];
+  readonly kinds?: readonly AnnotationKind[];
+  readonly author?: string;
+  /** Document the annotations refer to */
+  readonly uri?: string;
+}
+
+/**
+ * Annotation Repository
+ *
+ * Manages annotation persistence; annotations are only ever added.
+ */
+export class AnnotationRepository {
+  private readonly collection = 'claim_annotations';
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly ontology?: LoadedOntology
+  ) {}
+
+  /**
+   * Apply the package migrations
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    const migrated = await this.storage.registerMigrations(ckgMigrations);
+    return migrated.ok ? ok(undefined) : err(migrated.error);
+  }
+
+  /**
+   * Check an annotation of a claim with the given predicate without storing it
+   */
+  validate(input: Omit<NewAnnotationInput, 'provenanceId'>, predicate: string): Result<void, Error> {
+    return Annotation.validate(input, predicate, this.ontology);
+  }
+
+  /**
+   * Create and store an annotation of a claim with the given predicate
+   */
+  async create(input: NewAnnotationInput, predicate: string): Promise<Result<Annotation, Error>> {
+    const annotation = Annotation.create(input, predicate, this.ontology);
+    if (!annotation.ok) {
+      return annotation;
+    }
+
+    const insertResult = await this.storage.insert(this.collection, annotation.value.toRecord());
+    if (!insertResult.ok) {
+      return err(insertResult.error);
+    }
+
+    return annotation;
+  }
+
+  /**
+   * Find annotations matching a query, oldest first
+   */
+  async find(query: AnnotationQuery): Promise<Result<readonly Annotation[], Error>> {
+    const criteria: QueryCriteria = {
+      ...(query.claimIds !== undefined ? { claimId: { $in: [...query.claimIds] } } : {}),
+      ...(query.kinds !== undefined ? { kind: { $in: [...query.kinds] } } : {}),
+      ...(query.author !== undefined ? { author: query.author } : {}),
+      ...(query.uri !== undefined ? { uri: query.uri } : {}),
+    };
+
+    const annotations: Annotation[] = [];
+    try {
+      for await (const record of this.storage.stream<AnnotationRecord>(this.collection, criteria, {
+        orderBy: 'createdAt',
+        orderDirection: 'asc',
+      })) {
+        annotations.push(Annotation.fromRecord(record));
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+    return ok(annotations);
+  }
+}
@@ -12,14 +12,46 @@ import {
   type Timestamp,
   type ContextDimensions,
   type Result,
+  createAnnotationId,
+  createClaimId,
   ok,
   err,
+  ValidationError,
 } from '@contextgraph/core';
 import { type LoadedOntology, OntologyLoader } from '@contextgraph/ontology';
-import { type StorageInterface } from '@contextgraph/storage';
-import { Entity, EntityRepository } from './entity.js';
-import { Claim, ClaimRepository } from './claim.js';
+import {
+  StorageError,
+  type StorageInterface,
+  type QueryCriteria,
+  type AggregateGroup,
+  type GroupBy,
+  type TimeBucket,
+} from '@contextgraph/storage';
+import { ProvenanceLedger, type ArtifactRef } from '@contextgraph/provenance';
+import { Entity, EntityRepository, type EntityUpdate } from './entity.js';
+import { Claim, ClaimRepository, type NewClaimInput } from './claim.js';
+import {
+  Annotation,
+  AnnotationRepository,
+  type AnnotationKind,
+  type AnnotationQuery,
+  type NewAnnotationInput,
+} from './annotation.js';
 import { ContextFilter, type ContextFilterOptions, type FilteredClaimSet } from './context-filter.js';
+import { diffClaims, type DiffOptions, type GraphDiff } from './diff.js';
+import { parsePatternQuery, type PatternQuery } from './query-language.js';
+import { PatternQueryEngine, type PatternQueryResult, type QueryPlan } from './query-engine.js';
+import { TextIndex, type SearchHit, type SearchOptions } from './text-index.js';
+import { type Embedder, hashText } from './embedding.js';
+import { VectorIndex, type VectorTargetKind } from './vector-index.js';
+import {
+  TruthDiscovery,
+  type Belief,
+  type ClaimSource,
+  type Evidence,
+  type SourceReliability,
+  type TruthDiscoveryOptions,
+} from './truth-discovery.js';
 
 /**
  * CKG configuration options
@@ -31,6 +63,40 @@ export interface CKGOptions {
   ontologyLoader?: OntologyLoader;
   /** Require provenance for all claims */
   requireProvenance?: boolean;
+  /** Ledger recording retractions and supersessions (default: one over `storage`) */
+  provenance?: ProvenanceLedger;
+  /** Embedding model enabling similarity search */
+  embedder?: Embedder;
+  /** Source reliability priors and refinement parameters */
+  truthDiscovery?: TruthDiscoveryOptions;
+}
+
+/**
+ * Options for retracting or superseding a claim
+ */
+export interface ClaimRevisionOptions {
+  /** Who retracted or corrected the claim */
+  actor?: string;
+}
+
+/**
+ * Options for updating, deleting or merging entities
+ */
+export interface EntityRevisionOptions {
+  /** Who changed the entity */
+  actor?: string;
+}
+
+/**
+ * Outcome of merging duplicate entities
+ */
+export interface EntityMergeResult {
+  /** Surviving entity, with the duplicates' names and aliases */
+  readonly survivor: Entity;
+  /** Tombstones of the duplicates, redirecting to the survivor */
+  readonly merged: readonly Entity[];
+  /** Number of claims re-pointed to the survivor */
+  readonly claimsRepointed: number;
 }
 
 /**
@@ -42,6 +108,140 @@ export interface EntityWithClaims {
   readonly incomingClaims: readonly Claim[];
 }
 
+/**
+ * Direction in which claims are followed from an entity
+ */
+export type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+/**
+ * Options for finding paths between entities
+ */
+export interface PathOptions {
+  /** Only follow claims with these predicates */
+  predicates?: readonly string[];
+  /** Longest path, in claims (default: 4) */
+  maxDepth?: number;
+  /** Direction in which claims are followed (default: 'outgoing') */
+  direction?: TraversalDirection;
+  /** Context filter every claim on the path must pass */
+  filterOptions?: ContextFilterOptions;
+  /** Number of paths to return, shortest first (default: 1) */
+  k?: number;
+}
+
+/**
+ * Path between two entities
+ */
+export interface GraphPath {
+  /** Entities along the path, from the start to the end */
+  readonly entities: readonly EntityId[];
+  /** Claims linking each entity to the next */
+  readonly claims: readonly Claim[];
+}
+
+/**
+ * Options for collecting the neighborhood of an entity
+ */
+export interface NeighborhoodOptions {
+  /** Only follow claims with these predicates */
+  predicates?: readonly string[];
+  /** Direction in which claims are followed (default: 'both') */
+  direction?: TraversalDirection;
+  /** Context filter every followed claim must pass */
+  filterOptions?: ContextFilterOptions;
+}
+
+/**
+ * Entities and the claims between them
+ */
+export interface Subgraph {
+  readonly entities: readonly Entity[];
+  readonly claims: readonly Claim[];
+}
+
+/**
+ * Entity or claim close in meaning to a similarity query
+ */
+export type SimilarityMatch =
+  | { readonly kind: 'entity'; readonly entity: Entity; readonly score: number }
+  | { readonly kind: 'claim'; readonly claim: Claim; readonly score: number };
+
+/**
+ * Entity attributes statistics can be grouped by
+ */
+export type EntityDimension = 'type' | 'createdAt';
+
+/**
+ * Claim attributes statistics can be grouped by; `validFrom` is the start
+ * of the claim's valid time
+ */
+export type ClaimDimension = 'predicate' | 'jurisdiction' | 'scope' | 'status' | 'createdAt' | 'validFrom';
+
+/**
+ * Provenance entry attributes statistics can be grouped by
+ */
+export type ProvenanceDimension = 'sourceType' | 'action' | 'createdAt';
+
+/**
+ * Options for counting by group
+ */
+export interface AggregationOptions {
+  /** Period grouping the time dimensions (default: 'day') */
+  bucket?: TimeBucket;
+  /** Maximum number of groups, largest first */
+  limit?: number;
+}
+
+/**
+ * Graph statistics
+ */
+export interface GraphStats {
+  /** Live entities */
+  readonly entityCount: number;
+  /** Stored claims, whatever their status */
+  readonly claimCount: number;
+  readonly entityTypes: Readonly<Record<string, number>>;
+  readonly predicates: Readonly<Record<string, number>>;
+}
+
+/**
+ * Claim followed from an entity, and the entity it leads to (none for value claims)
+ */
+interface TraversalEdge {
+  readonly claim: Claim;
+  readonly next: EntityId | undefined;
+}
+
+/**
+ * Entity or claim to embed, with the text standing for it
+ */
+interface VectorTarget {
+  readonly kind: VectorTargetKind;
+  readonly targetId: string;
+  readonly text: string;
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** Stored field behind each dimension, and whether it holds a timestamp */
+const ENTITY_FIELDS: Readonly<Record<EntityDimension, readonly [string, boolean]>> = {
+  type: ['type', false],
+  createdAt: ['createdAt', true],
+};
+const CLAIM_FIELDS: Readonly<Record<ClaimDimension, readonly [string, boolean]>> = {
+  predicate: ['predicate', false],
+  jurisdiction: ['context.jurisdiction', false],
+  scope: ['context.scope', false],
+  status: ['status', false],
+  createdAt: ['createdAt', true],
+  validFrom: ['context.temporal.start', true],
+};
+const PROVENANCE_FIELDS: Readonly<Record<ProvenanceDimension, readonly [string, boolean]>> = {
+  sourceType: ['sourceType', false],
+  action: ['action', false],
+  createdAt: ['createdAt', true],
+};
+
 /**
  * CKG - Contextual Knowledge Graph
  *
@@ -50,7 +250,15 @@ export interface EntityWithClaims {
 export class CKG {
   private readonly entities: EntityRepository;
   private readonly claims: ClaimRepository;
+  private readonly annotations: AnnotationRepository;
   private readonly contextFilter: ContextFilter;
+  private readonly provenance: ProvenanceLedger;
+  private readonly queryEngine: PatternQueryEngine;
+  private provenanceReady: Promise<Result<void, Error>> | undefined;
+  private annotationsReady: Promise<Result<void, Error>> | undefined;
+  private textIndex: Promise<Result<TextIndex, Error>> | undefined;
+  private vectors: Promise<Result<VectorIndex, Error>> | undefined;
+  private truth: Promise<Result<TruthDiscovery, Error>> | undefined;
   private ontology: LoadedOntology | undefined;
 
   constructor(private readonly options: CKGOptions) {
@@ -59,7 +267,12 @@ export class CKG {
 
     this.entities = new EntityRepository(options.storage, this.ontology);
     this.claims = new ClaimRepository(options.storage, this.ontology, options.requireProvenance ?? true);
+    this.annotations = new AnnotationRepository(options.storage, this.ontology);
     this.contextFilter = new ContextFilter();
+    this.queryEngine = new PatternQueryEngine(this.claims, this.entities, this.contextFilter);
+    this.provenance = options.provenance ?? new ProvenanceLedger(options.storage);
+    // A shared ledger is initialized by its owner
+    this.provenanceReady = options.provenance !== undefined ? Promise.resolve(ok(undefined)) : undefined;
   }
 
   // ============================================================================
@@ -76,7 +289,11 @@ export class CKG {
     aliases?: readonly string[];
     properties?: Readonly<Record<string, unknown>>;
   }): Promise<Result<Entity, Error>> {
-    return this.entities.create(input);
+    const result = await this.entities.create(input);
+    if (result.ok) {
+      this.indexWrites({ entities: [result.value] });
+    }
+    return result;
   }
 
   /**
@@ -100,6 +317,138 @@ export class CKG {
     return this.entities.findByType(type, options);
   }
 
+  /**
+   * Stream live entities, reading the graph in batches
+   */
+  async *streamEntities(): AsyncIterableIterator<Entity> {
+    yield* this.entities.stream({ deletedAt: { $exists: false } }, { orderBy: 'createdAt', orderDirection: 'asc' });
+  }
+
+  /**
+   * Update an entity's name, aliases or properties
+   *
+   * The prior version is kept in storage and the change is recorded in the
+   * provenance ledger, in the same transaction.
+   */
+  async updateEntity(
+    id: EntityId,
+    changes: EntityUpdate,
+    options: EntityRevisionOptions = {}
+  ): Promise<Result<Entity, Error>> {
+    const result = await this.recordWrite(
+      'update_entity',
+      [{ type: 'entity', id }],
+      [],
+      { fields: Object.keys(changes) },
+      options,
+      async () => {
+        // Checked in the transaction, so a concurrent delete cannot be overwritten
+        const updated = await this.entities.checkUpdate(id, changes);
+        return updated.ok ? this.entities.write(updated.value) : updated;
+      }
+    );
+    if (result.ok) {
+      this.indexWrites({ entities: [result.value] });
+    }
+    return result;
+  }
+
+  /**
+   * Delete an entity
+   *
+   * The entity is replaced by a tombstone, so its history stays readable
+   * through `getEntityVersions`. Its claims are left untouched. The deletion
+   * is recorded in the provenance ledger, in the same transaction.
+   */
+  async deleteEntity(
+    id: EntityId,
+    options: EntityRevisionOptions & { reason?: string } = {}
+  ): Promise<Result<Entity, Error>> {
+    const result = await this.recordWrite(
+      'delete_entity',
+      [{ type: 'entity', id }],
+      [],
+      options.reason !== undefined ? { reason: options.reason } : {},
+      options,
+      async () => {
+        const existing = await this.entities.findLive(id);
+        return existing.ok ? this.entities.write(existing.value.tombstone()) : existing;
+      }
+    );
+    if (result.ok) {
+      this.indexWrites({ entities: [result.value] });
+    }
+    return result;
+  }
+
+  /**
+   * Merge duplicate entities into a surviving one
+   *
+   * Claims about or referring to a duplicate are re-pointed to the survivor,
+   * which gains the duplicates' names and aliases. Each duplicate is
+   * tombstoned with a redirect, so `resolveEntity` still finds the survivor
+   * by a merged ID. The merge is recorded in the provenance ledger and
+   * written in one transaction.
+   */
+  async mergeEntities(
+    survivorId: EntityId,
+    duplicateIds: readonly EntityId[],
+    options: EntityRevisionOptions = {}
+  ): Promise<Result<EntityMergeResult, Error>> {
+    if (duplicateIds.length === 0) {
+      return err(new ValidationError('No duplicate entities to merge', 'duplicateIds'));
+    }
+    if (duplicateIds.includes(survivorId) || new Set(duplicateIds).size !== duplicateIds.length) {
+      return err(new ValidationError('Duplicate entities must be distinct from each other and the survivor', 'duplicateIds'));
+    }
+
+    const result = await this.recordWrite(
+      'merge_entities',
+      duplicateIds.map((id) => ({ type: 'entity' as const, id })),
+      [{ type: 'entity', id: survivorId }],
+      {},
+      options,
+      async () => {
+        const survivor = await this.entities.findLive(survivorId);
+        if (!survivor.ok) {
+          return survivor;
+        }
+        const duplicates: Entity[] = [];
+        for (const id of duplicateIds) {
+          const duplicate = await this.entities.findLive(id);
+          if (!duplicate.ok) {
+            return duplicate;
+          }
+          duplicates.push(duplicate.value);
+        }
+
+        const repointed = await this.claims.repoint(duplicateIds, survivorId);
+        if (!repointed.ok) {
+          return repointed;
+        }
+        const merged = await this.entities.writeMerge(survivor.value, duplicates);
+        if (!merged.ok) {
+          return merged;
+        }
+        return ok({ ...merged.value, claimsRepointed: repointed.value });
+      }
+    );
+    if (!result.ok) {
+      return result;
+    }
+
+    const { survivor: merged, merged: tombstones } = result.value;
+    this.indexWrites({ entities: [merged, ...tombstones], repointed: { from: duplicateIds, to: survivorId } });
+    return ok(result.value);
+  }
+
+  /**
+   * Every stored version of an entity, oldest first, including a tombstone
+   */
+  async getEntityVersions(id: EntityId): Promise<Result<readonly Entity[], Error>> {
+    return this.entities.findVersions(id);
+  }
+
   // ============================================================================
   // Claim Operations
   // ============================================================================
@@ -108,6 +457,7 @@ export class CKG {
    * Create a new claim
    */
   async createClaim(input: {
+    id?: ClaimId;
     subjectId: EntityId;
     subjectType: string;
     predicate: string;
@@ -117,7 +467,50 @@ export class CKG {
     context: ContextDimensions;
     provenanceId: ProvenanceId;
   }): Promise<Result<Claim, Error>> {
-    return this.claims.create(input);
+    const result = await this.claims.create(input);
+    if (result.ok) {
+      this.indexWrites({ claims: [result.value] });
+    }
+    return result;
+  }
+
+  /**
+   * Retract a wrong claim
+   *
+   * The retraction is recorded in the provenance ledger, in the same
+   * transaction. The claim is kept, marked retracted, and left out of
+   * queries and traversals by default.
+   */
+  async retractClaim(id: ClaimId, reason: string, options: ClaimRevisionOptions = {}): Promise<Result<Claim, Error>> {
+    const result = await this.recordRevision('retract_claim', id, undefined, reason, options, (provenanceId) =>
+      this.claims.retract(id, reason, provenanceId)
+    );
+    if (result.ok) {
+      this.indexWrites({ claims: [result.value] });
+    }
+    return result;
+  }
+
+  /**
+   * Replace a claim with a corrected one
+   *
+   * The new claim links back to the one it supersedes, which is kept,
+   * marked superseded, and left out of queries and traversals by default.
+   * Both are tied to one provenance entry, recorded in the same transaction.
+   */
+  async supersedeClaim(
+    id: ClaimId,
+    newInput: Omit<NewClaimInput, 'id' | 'provenanceId' | 'supersedes'>,
+    options: ClaimRevisionOptions & { reason?: string } = {}
+  ): Promise<Result<{ superseded: Claim; replacement: Claim }, Error>> {
+    const replacementId = createClaimId();
+    const result = await this.recordRevision('supersede_claim', id, replacementId, options.reason, options, (provenanceId) =>
+      this.claims.supersede(id, { ...newInput, id: replacementId, provenanceId }, options.reason)
+    );
+    if (result.ok) {
+      this.indexWrites({ claims: [result.value.superseded, result.value.replacement] });
+    }
+    return result;
   }
 
   /**
@@ -148,6 +541,16 @@ export class CKG {
     return this.claims.findByPredicate(predicate);
   }
 
+  /**
+   * Find claims matching storage criteria (evaluated by the storage backend)
+   */
+  async findClaims(
+    criteria: QueryCriteria,
+    options?: { limit?: number; offset?: number; orderBy?: string; orderDirection?: 'asc' | 'desc' }
+  ): Promise<Result<readonly Claim[], Error>> {
+    return this.claims.query(criteria, options);
+  }
+
   /**
    * Get claims by provenance
    */
@@ -155,6 +558,83 @@ export class CKG {
     return this.claims.findByProvenance(provenanceId);
   }
 
+  // ============================================================================
+  // Claim Annotations
+  // ============================================================================
+
+  /**
+   * Attach evidence, a citation, a review, a note or qualifiers to a claim
+   *
+   * The annotation is recorded in the provenance ledger, with the claim and
+   * any artifact or document it refers to as inputs.
+   */
+  async annotateClaim(
+    claimId: ClaimId,
+    input: Omit<NewAnnotationInput, 'id' | 'claimId' | 'provenanceId'>
+  ): Promise<Result<Annotation, Error>> {
+    const ready = await this.ensureAnnotations();
+    if (!ready.ok) {
+      return ready;
+    }
+    const claim = await this.claims.findById(claimId);
+    if (!claim.ok) {
+      return claim;
+    }
+    if (claim.value === null) {
+      return err(new ValidationError(`Claim not found: ${claimId}`, 'claimId'));
+    }
+    const valid = this.annotations.validate({ ...input, claimId }, claim.value.data.predicate);
+    if (!valid.ok) {
+      return valid;
+    }
+
+    const id = createAnnotationId();
+    const provenanceResult = await this.recordChange(
+      'annotate_claim',
+      [{ type: 'claim', id: claimId }, ...(input.ref !== undefined ? [input.ref] : [])],
+      [],
+      { annotationId: id, kind: input.kind },
+      input.author !== undefined ? { actor: input.author } : {}
+    );
+    if (!provenanceResult.ok) {
+      return provenanceResult;
+    }
+    return this.annotations.create(
+      { ...input, id, claimId, provenanceId: provenanceResult.value },
+      claim.value.data.predicate
+    );
+  }
+
+  /**
+   * Annotations of a claim, oldest first
+   */
+  async getAnnotations(
+    claimId: ClaimId,
+    kinds?: readonly AnnotationKind[]
+  ): Promise<Result<readonly Annotation[], Error>> {
+    return this.findAnnotations({ claimIds: [claimId], ...(kinds !== undefined ? { kinds } : {}) });
+  }
+
+  /**
+   * Find annotations by claims, kind, author or referenced document, oldest first
+   */
+  async findAnnotations(query: AnnotationQuery): Promise<Result<readonly Annotation[], Error>> {
+    const ready = await this.ensureAnnotations();
+    if (!ready.ok) {
+      return ready;
+    }
+    return this.annotations.find(query);
+  }
+
+  private async ensureAnnotations(): Promise<Result<void, Error>> {
+    this.annotationsReady ??= this.annotations.initialize();
+    const ready = await this.annotationsReady;
+    if (!ready.ok) {
+      this.annotationsReady = undefined;
+    }
+    return ready;
+  }
+
   // ============================================================================
   // Context-Aware Queries
   // ============================================================================
@@ -201,41 +681,92 @@ export class CKG {
     });
   }
 
+  /**
+   * Stream claims matching context filters, reading the graph in batches
+   */
+  async *streamClaims(filterOptions: ContextFilterOptions = {}): AsyncIterableIterator<Claim> {
+    for await (const claim of this.claims.stream({}, { orderBy: 'createdAt', orderDirection: 'asc' })) {
+      if (this.contextFilter.matches(claim, filterOptions)) {
+        yield claim;
+      }
+    }
+  }
+
   /**
    * Query claims with context filtering
    */
   async queryClaims(filterOptions: ContextFilterOptions): Promise<Result<FilteredClaimSet, Error>> {
-    const allClaimsResult = await this.claims.findAll();
-    if (!allClaimsResult.ok) {
-      return err(allClaimsResult.error);
+    const claims: Claim[] = [];
+    const excluded: Claim[] = [];
+    try {
+      for await (const claim of this.claims.stream({}, { orderBy: 'createdAt', orderDirection: 'asc' })) {
+        (this.contextFilter.matches(claim, filterOptions) ? claims : excluded).push(claim);
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
     }
 
-    return ok(this.contextFilter.filter(allClaimsResult.value, filterOptions));
+    return ok({
+      claims,
+      excluded,
+      appliedFilters: filterOptions,
+      filteredAt: Date.now() as Timestamp,
+    });
   }
 
   /**
-   * Get claims valid at a specific point in time
+   * Get claims valid at a specific point in time, optionally as the graph
+   * believed them at an earlier `knownAt` (e.g. before a correction)
    */
-  async getClaimsAsOf(timestamp: Timestamp): Promise<Result<FilteredClaimSet, Error>> {
-    return this.queryClaims({ asOf: timestamp });
+  async getClaimsAsOf(timestamp: Timestamp, knownAt?: Timestamp): Promise<Result<FilteredClaimSet, Error>> {
+    return this.queryClaims(knownAt !== undefined ? { asOf: timestamp, knownAt } : { asOf: timestamp });
   }
 
   /**
    * Find conflicting claims in the graph
    */
   async findConflicts(filterOptions?: ContextFilterOptions): Promise<Result<ReadonlyMap<string, readonly Claim[]>, Error>> {
-    const claimsResult = filterOptions !== undefined
-      ? await this.queryClaims(filterOptions)
-      : await this.claims.findAll();
-
-    if (!claimsResult.ok) {
-      return err(claimsResult.error);
+    const claims: Claim[] = [];
+    try {
+      for await (const claim of this.streamClaims(filterOptions)) {
+        claims.push(claim);
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
     }
 
-    const claims = 'claims' in claimsResult.value ? claimsResult.value.claims : claimsResult.value;
     return ok(this.contextFilter.findConflicts(claims));
   }
 
+  /**
+   * What changed in the graph between two points in time: the claims that
+   * became valid or were recorded, and those that expired or were retracted
+   * or superseded (see diff.ts)
+   */
+  async diff(from: Timestamp, to: Timestamp, options: DiffOptions = {}): Promise<Result<GraphDiff, Error>> {
+    if (from > to) {
+      return err(new ValidationError('Diff must not start after it ends', 'from'));
+    }
+
+    const criteria: QueryCriteria = options.predicates !== undefined
+      ? { predicate: { $in: [...options.predicates] } }
+      : {};
+    const entityIds = options.entityIds !== undefined ? new Set<string>(options.entityIds) : undefined;
+    const claims: Claim[] = [];
+    try {
+      for await (const claim of this.claims.stream(criteria, { orderBy: 'createdAt', orderDirection: 'asc' })) {
+        const { subjectId, objectId } = claim.data;
+        if (entityIds === undefined || entityIds.has(subjectId) || (objectId !== undefined && entityIds.has(objectId))) {
+          claims.push(claim);
+        }
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    return ok(diffClaims(claims, from, to));
+  }
+
   // ============================================================================
   // Graph Traversal
   // ============================================================================
@@ -246,7 +777,7 @@ export class CKG {
   async traverse(
     startId: EntityId,
     options: {
-      direction: 'outgoing' | 'incoming' | 'both';
+      direction: TraversalDirection;
       predicates?: readonly string[];
       maxDepth?: number;
       filterOptions?: ContextFilterOptions;
@@ -264,37 +795,157 @@ export class CKG {
       if (visited.has(current.entityId)) continue;
       visited.add(current.entityId);
 
-      const claimsResult = await this.getRelatedClaims(current.entityId, options.direction);
-      if (!claimsResult.ok) {
-        return err(claimsResult.error);
+      const edgesResult = await this.getEdges(current.entityId, options.direction, options);
+      if (!edgesResult.ok) {
+        return err(edgesResult.error);
       }
 
-      let claims = claimsResult.value;
-
-      // Filter by predicates
-      if (options.predicates !== undefined) {
-        claims = claims.filter((c) => options.predicates!.includes(c.data.predicate));
+      for (const { claim, next } of edgesResult.value) {
+        result.push(claim);
+        // Queue next level
+        if (next !== undefined && !visited.has(next)) {
+          queue.push({ entityId: next, depth: current.depth + 1 });
+        }
       }
+    }
 
-      // Apply context filter
-      if (options.filterOptions !== undefined) {
-        claims = this.contextFilter.filter(claims, options.filterOptions).claims;
+    return ok(result);
+  }
+
+  /**
+   * Find the k shortest paths from one entity to another. Paths never
+   * visit an entity twice; every claim on them passes the context filter.
+   */
+  async findPaths(fromId: EntityId, toId: EntityId, options: PathOptions = {}): Promise<Result<readonly GraphPath[], Error>> {
+    const maxDepth = options.maxDepth ?? 4;
+    const k = options.k ?? 1;
+    const direction = options.direction ?? 'outgoing';
+    if (fromId === toId) {
+      return ok([{ entities: [fromId], claims: [] }]);
+    }
+
+    const adjacency = new Map<EntityId, readonly TraversalEdge[]>();
+    const paths: GraphPath[] = [];
+
+    // Extend paths one claim at a time, so shorter paths are found first
+    let frontier: GraphPath[] = [{ entities: [fromId], claims: [] }];
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const extended: GraphPath[] = [];
+
+      for (const path of frontier) {
+        const end = path.entities[path.entities.length - 1]!;
+        let edges = adjacency.get(end);
+        if (edges === undefined) {
+          const edgesResult = await this.getEdges(end, direction, options);
+          if (!edgesResult.ok) {
+            return err(edgesResult.error);
+          }
+          edges = edgesResult.value;
+          adjacency.set(end, edges);
+        }
+
+        for (const { claim, next } of edges) {
+          if (next === undefined || path.entities.includes(next)) continue;
+
+          const candidate = { entities: [...path.entities, next], claims: [...path.claims, claim] };
+          if (next !== toId) {
+            extended.push(candidate);
+            continue;
+          }
+          paths.push(candidate);
+          if (paths.length >= k) {
+            return ok(paths);
+          }
+        }
       }
 
-      result.push(...claims);
+      frontier = extended;
+    }
 
-      // Queue next level
-      for (const claim of claims) {
-        const nextId = options.direction === 'incoming'
-          ? claim.data.subjectId
-          : claim.data.objectId;
-        if (nextId !== undefined && !visited.has(nextId)) {
-          queue.push({ entityId: nextId, depth: current.depth + 1 });
+    return ok(paths);
+  }
+
+  /**
+   * Collect the entities within `depth` claims of an entity, with every
+   * claim followed from the entities short of that boundary (value claims
+   * included)
+   */
+  async neighborhood(
+    entityId: EntityId,
+    depth: number = 1,
+    options: NeighborhoodOptions = {}
+  ): Promise<Result<Subgraph, Error>> {
+    const direction = options.direction ?? 'both';
+    const reached = new Set<EntityId>([entityId]);
+    const claims = new Map<string, Claim>();
+
+    let frontier = [entityId];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      const nextFrontier: EntityId[] = [];
+
+      for (const current of frontier) {
+        const edgesResult = await this.getEdges(current, direction, options);
+        if (!edgesResult.ok) {
+          return err(edgesResult.error);
+        }
+        for (const { claim, next } of edgesResult.value) {
+          claims.set(claim.data.id, claim);
+          if (next !== undefined && !reached.has(next)) {
+            reached.add(next);
+            nextFrontier.push(next);
+          }
         }
       }
+
+      frontier = nextFrontier;
+    }
+
+    const entities: Entity[] = [];
+    for (const id of reached) {
+      const entity = await this.entities.findById(id);
+      if (!entity.ok) {
+        return err(entity.error);
+      }
+      // Deleted entities are left out; claims still pointing at them remain
+      if (entity.value !== null) {
+        entities.push(entity.value);
+      }
     }
 
-    return ok(result);
+    return ok({ entities, claims: [...claims.values()] });
+  }
+
+  /**
+   * Claims followed from an entity in a direction, after the predicate and
+   * context filters, with the entity each leads to
+   */
+  private async getEdges(
+    entityId: EntityId,
+    direction: TraversalDirection,
+    options: { predicates?: readonly string[]; filterOptions?: ContextFilterOptions }
+  ): Promise<Result<readonly TraversalEdge[], Error>> {
+    const claimsResult = await this.getRelatedClaims(entityId, direction);
+    if (!claimsResult.ok) {
+      return claimsResult;
+    }
+
+    let claims = claimsResult.value;
+
+    // Filter by predicates
+    if (options.predicates !== undefined) {
+      claims = claims.filter((c) => options.predicates!.includes(c.data.predicate));
+    }
+
+    // Apply context filter (also drops retracted and superseded claims)
+    claims = this.contextFilter.filter(claims, options.filterOptions ?? {}).claims;
+
+    return ok(claims.map((claim) => ({
+      claim,
+      // Claims reached through their object lead back to their subject
+      next: direction === 'incoming' || (direction === 'both' && claim.data.subjectId !== entityId)
+        ? claim.data.subjectId
+        : claim.data.objectId,
+    })));
   }
 
   /**
@@ -302,7 +953,7 @@ export class CKG {
    */
   private async getRelatedClaims(
     entityId: EntityId,
-    direction: 'outgoing' | 'incoming' | 'both'
+    direction: TraversalDirection
   ): Promise<Result<readonly Claim[], Error>> {
     if (direction === 'outgoing') {
       return this.claims.findBySubject(entityId);
@@ -333,36 +984,626 @@ export class CKG {
     return ok(deduped);
   }
 
+  /**
+   * Check that a claim can be revised, then record the provenance of the
+   * retraction or supersession and write it in one transaction
+   */
+  private async recordRevision<T>(
+    operation: 'retract_claim' | 'supersede_claim',
+    claimId: ClaimId,
+    replacementId: ClaimId | undefined,
+    reason: string | undefined,
+    options: ClaimRevisionOptions,
+    write: (provenanceId: ProvenanceId) => Promise<Result<T, Error>>
+  ): Promise<Result<T, Error>> {
+    const existing = await this.claims.findById(claimId);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (existing.value === null) {
+      return err(new ValidationError(`Claim not found: ${claimId}`, 'id'));
+    }
+    if (!existing.value.isActive()) {
+      return err(new ValidationError(`Claim ${claimId} is already ${existing.value.data.status}`, 'status'));
+    }
+
+    return this.recordWrite(
+      operation,
+      [{ type: 'claim', id: claimId }],
+      replacementId !== undefined ? [{ type: 'claim', id: replacementId }] : [],
+      reason !== undefined ? { reason } : {},
+      options,
+      write
+    );
+  }
+
+  /**
+   * Record a change in the provenance ledger and make it in one transaction,
+   * so that neither is kept without the other. The write is given the id
+   * of the provenance entry.
+   */
+  private async recordWrite<T>(
+    operation: Parameters<CKG['recordChange']>[0],
+    inputRefs: readonly ArtifactRef[],
+    outputRefs: readonly ArtifactRef[],
+    details: Readonly<Record<string, unknown>>,
+    options: { actor?: string },
+    write: (provenanceId: ProvenanceId) => Promise<Result<T, Error>>
+  ): Promise<Result<T, Error>> {
+    const ready = await this.ensureProvenance();
+    if (!ready.ok) {
+      return ready;
+    }
+
+    // Errors other than storage errors are carried past the transaction
+    let failure: Error | undefined;
+    const result = await this.options.storage.transaction(async () => {
+      const provenanceResult = await this.recordChange(operation, inputRefs, outputRefs, details, options);
+      const written = provenanceResult.ok ? await write(provenanceResult.value) : provenanceResult;
+      if (written.ok || written.error instanceof StorageError) {
+        return written as Result<T, StorageError>;
+      }
+      failure = written.error;
+      return err(new StorageError(written.error.message, 'CONSTRAINT_VIOLATION', written.error));
+    });
+    if (!result.ok) {
+      // Continue the chain from the entries that were committed
+      await this.provenance.initialize();
+      return err(failure ?? result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Record a change made by the graph in the provenance ledger
+   */
+  private async recordChange(
+    operation:
+      | 'retract_claim'
+      | 'supersede_claim'
+      | 'annotate_claim'
+      | 'update_entity'
+      | 'delete_entity'
+      | 'merge_entities',
+    inputRefs: readonly ArtifactRef[],
+    outputRefs: readonly ArtifactRef[],
+    details: Readonly<Record<string, unknown>>,
+    options: { actor?: string }
+  ): Promise<Result<ProvenanceId, Error>> {
+    const ready = await this.ensureProvenance();
+    if (!ready.ok) {
+      return ready;
+    }
+
+    const entry = await this.provenance.record({
+      sourceType: 'system',
+      sourceId: 'ckg',
+      ...(options.actor !== undefined ? { actor: options.actor } : {}),
+      action: 'update',
+      inputRefs,
+      outputRefs,
+      metadata: { operation, ...details },
+    });
+    if (!entry.ok) {
+      return err(entry.error);
+    }
+    return ok(entry.value.data.id);
+  }
+
+  private async ensureProvenance(): Promise<Result<void, Error>> {
+    this.provenanceReady ??= this.provenance.initialize();
+    const ready = await this.provenanceReady;
+    if (!ready.ok) {
+      this.provenanceReady = undefined;
+    }
+    return ready;
+  }
+
   // ============================================================================
-  // Statistics
+  // Pattern Queries
   // ============================================================================
 
   /**
-   * Get graph statistics
+   * Run a pattern query (see query-language.ts); only claims passing the
+   * context filter are matched
    */
-  async getStats(): Promise<Result<{
-    entityCount: number;
-    claimCount: number;
-    entityTypes: Record<string, number>;
-    predicates: Record<string, number>;
-  }, Error>> {
-    const storageStats = await this.options.storage.stats();
-    if (!storageStats.ok) {
-      return err(storageStats.error);
+  async query(
+    source: string,
+    filterOptions: ContextFilterOptions = {}
+  ): Promise<Result<PatternQueryResult, Error>> {
+    const query = this.parseQuery(source);
+    if (!query.ok) {
+      return query;
     }
+    return this.queryEngine.execute(query.value, filterOptions);
+  }
 
-    const entityCount = storageStats.value.collections['entities'] ?? 0;
-    const claimCount = storageStats.value.collections['claims'] ?? 0;
+  /**
+   * Plan a pattern query without running it
+   */
+  explainQuery(source: string): Result<QueryPlan, Error> {
+    const query = this.parseQuery(source);
+    if (!query.ok) {
+      return query;
+    }
+    return this.queryEngine.plan(query.value);
+  }
 
-    // Get entity type breakdown (simplified - would need aggregation for full stats)
-    const entityTypes: Record<string, number> = {};
-    const predicates: Record<string, number> = {};
+  private parseQuery(source: string): Result<PatternQuery, ValidationError> {
+    try {
+      return ok(parsePatternQuery(source));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return err(error);
+      }
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // Text Search
+  // ============================================================================
+
+  /**
+   * Search entity names, aliases and string properties, and the string
+   * values of active claims (see text-index.ts)
+   *
+   * The index is built from storage on the first search and kept up to
+   * date with the writes made through this graph.
+   */
+  async search(text: string, options: SearchOptions = {}): Promise<Result<readonly SearchHit[], Error>> {
+    this.textIndex ??= this.buildTextIndex();
+    const index = await this.textIndex;
+    if (!index.ok) {
+      this.textIndex = undefined;
+      return index;
+    }
+    return ok(index.value.search(text, options));
+  }
+
+  private async buildTextIndex(): Promise<Result<TextIndex, Error>> {
+    const index = new TextIndex();
+    try {
+      for await (const entity of this.entities.stream({ deletedAt: { $exists: false } })) {
+        index.indexEntity(entity);
+      }
+      for await (const claim of this.claims.stream()) {
+        index.indexClaim(claim);
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+    return ok(index);
+  }
+
+  // ============================================================================
+  // Similarity Search
+  // ============================================================================
+
+  /**
+   * Entities and active claims whose meaning is closest to a text, or to an
+   * entity given by ID (which is left out of the matches), best first
+   *
+   * Requires an embedder. Vectors are kept in storage, in an approximate
+   * nearest-neighbour index (see vector-index.ts); on first use the index is
+   * brought up to date with the graph, re-embedding only what changed, and
+   * then kept up to date with the writes made through this graph. Matched
+   * claims must pass the context filter.
+   */
+  async similar(
+    textOrEntityId: string,
+    k = 10,
+    filterOptions: ContextFilterOptions = {}
+  ): Promise<Result<readonly SimilarityMatch[], Error>> {
+    const embedder = this.options.embedder;
+    if (embedder === undefined) {
+      return err(new ValidationError('Similarity search requires an embedder', 'embedder'));
+    }
+    this.vectors ??= this.buildVectorIndex(embedder);
+    const index = await this.vectors;
+    if (!index.ok) {
+      this.vectors = undefined;
+      return index;
+    }
+
+    let query = index.value.vector(textOrEntityId);
+    const exclude = query !== undefined ? textOrEntityId : undefined;
+    if (query === undefined) {
+      const embedded = await embedder.embed([textOrEntityId]);
+      if (!embedded.ok) {
+        return embedded;
+      }
+      query = embedded.value[0]!;
+    }
+
+    // Ask for more candidates until enough pass the filters
+    for (let count = k * 2 + 1; ; count *= 2) {
+      const candidates = index.value.search(query, count);
+      const matches: SimilarityMatch[] = [];
+      for (const candidate of candidates) {
+        if (matches.length === k) break;
+        if (candidate.targetId === exclude) continue;
+
+        if (candidate.kind === 'entity') {
+          const entity = await this.entities.findById(candidate.targetId as EntityId);
+          if (!entity.ok) {
+            return err(entity.error);
+          }
+          if (entity.value !== null && !entity.value.isDeleted()) {
+            matches.push({ kind: 'entity', entity: entity.value, score: candidate.score });
+          }
+        } else {
+          const claim = await this.claims.findById(candidate.targetId as ClaimId);
+          if (!claim.ok) {
+            return err(claim.error);
+          }
+          if (claim.value !== null && this.contextFilter.matches(claim.value, filterOptions)) {
+            matches.push({ kind: 'claim', claim: claim.value, score: candidate.score });
+          }
+        }
+      }
+      if (matches.length === k || candidates.length < count) {
+        return ok(matches);
+      }
+    }
+  }
+
+  /**
+   * Drop the text and vector indexes, so the next search rebuilds them
+   * from storage. Needed after records reach storage without going
+   * through this graph, such as a merged branch.
+   */
+  refreshIndexes(): void {
+    this.textIndex = undefined;
+    this.vectors = undefined;
+  }
+
+  /**
+   * Load the stored vectors, embed the entities and active claims whose
+   * text changed since, and drop those no longer live
+   */
+  private async buildVectorIndex(embedder: Embedder): Promise<Result<VectorIndex, Error>> {
+    const index = new VectorIndex(this.options.storage, embedder.id);
+    const initialized = await index.initialize();
+    if (!initialized.ok) {
+      return initialized;
+    }
+
+    const live = new Set<string>();
+    const names = new Map<string, string>();
+    const pending: VectorTarget[] = [];
+    try {
+      for await (const entity of this.entities.stream({ deletedAt: { $exists: false } })) {
+        live.add(entity.data.id);
+        if (entity.data.name !== undefined) {
+          names.set(entity.data.id, entity.data.name);
+        }
+        pending.push({ kind: 'entity', targetId: entity.data.id, text: entityText(entity) });
+      }
+      for await (const claim of this.claims.stream()) {
+        if (!claim.isActive()) continue;
+        live.add(claim.data.id);
+        const { objectId } = claim.data;
+        pending.push({
+          kind: 'claim',
+          targetId: claim.data.id,
+          text: claimText(claim, objectId !== undefined ? names.get(objectId) : undefined),
+        });
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    for (const targetId of index.targets()) {
+      if (!live.has(targetId)) {
+        const removed = await index.remove(targetId);
+        if (!removed.ok) {
+          return removed;
+        }
+      }
+    }
+    const embedded = await embedTargets(index, embedder, pending);
+    return embedded.ok ? ok(index) : embedded;
+  }
+
+  /**
+   * Reflect written entities and claims in the search indexes that are built
+   */
+  private indexWrites(writes: {
+    entities?: readonly Entity[];
+    claims?: readonly Claim[];
+    /** Merged entities whose claims now belong to another */
+    repointed?: { from: readonly EntityId[]; to: EntityId };
+  }): void {
+    const { entities = [], claims = [], repointed } = writes;
+
+    void this.textIndex?.then((index) => {
+      if (!index.ok) return;
+      if (repointed !== undefined) {
+        index.value.repoint(repointed.from, repointed.to);
+      }
+      entities.forEach((entity) => index.value.indexEntity(entity));
+      claims.forEach((claim) => index.value.indexClaim(claim));
+    });
+
+    // Updates are chained so they apply in order; a failed one drops the
+    // index, which the next search rebuilds from storage
+    const embedder = this.options.embedder;
+    if (this.vectors === undefined || embedder === undefined) {
+      return;
+    }
+    this.vectors = this.vectors.then(async (index) => {
+      if (!index.ok) {
+        return index;
+      }
+      const pending: VectorTarget[] = [];
+      for (const entity of entities) {
+        if (entity.isDeleted()) {
+          const removed = await index.value.remove(entity.data.id);
+          if (!removed.ok) return removed;
+        } else {
+          pending.push({ kind: 'entity', targetId: entity.data.id, text: entityText(entity) });
+        }
+      }
+      for (const claim of claims) {
+        if (!claim.isActive()) {
+          const removed = await index.value.remove(claim.data.id);
+          if (!removed.ok) return removed;
+          continue;
+        }
+        const object = claim.data.objectId !== undefined
+          ? await this.entities.findById(claim.data.objectId)
+          : undefined;
+        pending.push({
+          kind: 'claim',
+          targetId: claim.data.id,
+          text: claimText(claim, object?.ok === true ? object.value?.data.name : undefined),
+        });
+      }
+      const embedded = await embedTargets(index.value, embedder, pending);
+      return embedded.ok ? index : embedded;
+    });
+  }
+
+  // ============================================================================
+  // Truth Discovery
+  // ============================================================================
+
+  /**
+   * Consensus on the value of each of an entity's predicates, by predicate
+   *
+   * Claims passing the context filter are weighed by the stored reliability
+   * of their provenance sources (see truth-discovery.ts), so that agreeing
+   * sources raise a value's confidence and conflicting ones lower it. Each
+   * value lists the claims and sources behind it.
+   */
+  async getBeliefs(
+    entityId: EntityId,
+    filterOptions: ContextFilterOptions = {}
+  ): Promise<Result<readonly Belief[], Error>> {
+    const truth = await this.truthDiscovery();
+    if (!truth.ok) {
+      return truth;
+    }
+    const claims = await this.claims.findBySubject(entityId);
+    if (!claims.ok) {
+      return claims;
+    }
+    const evidence = await this.gatherEvidence(this.contextFilter.filter(claims.value, filterOptions).claims);
+    if (!evidence.ok) {
+      return evidence;
+    }
+    return ok(truth.value.beliefs(evidence.value).sort((a, b) => a.predicate.localeCompare(b.predicate)));
+  }
+
+  /**
+   * Re-derive and store the reliability of every source from all claims
+   * passing the context filter, most reliable first
+   */
+  async updateSourceReliability(
+    filterOptions: ContextFilterOptions = {}
+  ): Promise<Result<readonly SourceReliability[], Error>> {
+    const truth = await this.truthDiscovery();
+    if (!truth.ok) {
+      return truth;
+    }
+    const claims: Claim[] = [];
+    try {
+      for await (const claim of this.streamClaims(filterOptions)) {
+        claims.push(claim);
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+    const evidence = await this.gatherEvidence(claims);
+    if (!evidence.ok) {
+      return evidence;
+    }
+    return truth.value.update(evidence.value);
+  }
+
+  /**
+   * Stored source reliability scores, most reliable first
+   */
+  async getSourceReliability(): Promise<Result<readonly SourceReliability[], Error>> {
+    const truth = await this.truthDiscovery();
+    return truth.ok ? ok(truth.value.sources()) : truth;
+  }
+
+  private async truthDiscovery(): Promise<Result<TruthDiscovery, Error>> {
+    this.truth ??= this.loadTruthDiscovery();
+    const truth = await this.truth;
+    if (!truth.ok) {
+      this.truth = undefined;
+    }
+    return truth;
+  }
+
+  private async loadTruthDiscovery(): Promise<Result<TruthDiscovery, Error>> {
+    const truth = new TruthDiscovery(this.options.storage, this.options.truthDiscovery);
+    const initialized = await truth.initialize();
+    return initialized.ok ? ok(truth) : initialized;
+  }
+
+  /**
+   * Pair claims with the source of their provenance entry; claims whose
+   * entry is missing cannot be weighed and are left out
+   */
+  private async gatherEvidence(claims: readonly Claim[]): Promise<Result<Evidence[], Error>> {
+    const ready = await this.ensureProvenance();
+    if (!ready.ok) {
+      return ready;
+    }
+
+    const sources = new Map<ProvenanceId, ClaimSource | null>();
+    const evidence: Evidence[] = [];
+    for (const claim of claims) {
+      const provenanceId = claim.data.provenanceId;
+      if (!sources.has(provenanceId)) {
+        const entry = await this.provenance.getById(provenanceId);
+        if (!entry.ok) {
+          return err(entry.error);
+        }
+        sources.set(provenanceId, entry.value !== null
+          ? { sourceType: entry.value.data.sourceType, sourceId: entry.value.data.sourceId }
+          : null);
+      }
+      const source = sources.get(provenanceId);
+      if (source !== null && source !== undefined) {
+        evidence.push({ claim, source });
+      }
+    }
+    return ok(evidence);
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  /**
+   * Count live entities by group, largest group first
+   */
+  async aggregateEntities(
+    groupBy: readonly EntityDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.aggregate('entities', groupBy, ENTITY_FIELDS, { deletedAt: { $exists: false } }, options);
+  }
+
+  /**
+   * Count claims by group, largest group first; claims without a status
+   * predate statuses and are active
+   */
+  async aggregateClaims(
+    groupBy: readonly ClaimDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.aggregate('claims', groupBy, CLAIM_FIELDS, {}, options);
+  }
+
+  /**
+   * Count provenance entries by group, largest group first
+   */
+  async aggregateProvenance(
+    groupBy: readonly ProvenanceDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.aggregate('provenance', groupBy, PROVENANCE_FIELDS, {}, options);
+  }
+
+  /**
+   * Get graph statistics
+   */
+  async getStats(): Promise<Result<GraphStats, Error>> {
+    const [entityTypes, predicates] = await Promise.all([
+      this.aggregateEntities(['type']),
+      this.aggregateClaims(['predicate']),
+    ]);
+    if (!entityTypes.ok) return entityTypes;
+    if (!predicates.ok) return predicates;
+
+    const counts = (groups: readonly AggregateGroup[], dimension: string): Record<string, number> =>
+      Object.fromEntries(groups.map((group) => [String(group.key[dimension]), group.count]));
+    const total = (groups: readonly AggregateGroup[]): number =>
+      groups.reduce((sum, group) => sum + group.count, 0);
 
     return ok({
-      entityCount,
-      claimCount,
-      entityTypes,
-      predicates,
+      entityCount: total(entityTypes.value),
+      claimCount: total(predicates.value),
+      entityTypes: counts(entityTypes.value, 'type'),
+      predicates: counts(predicates.value, 'predicate'),
+    });
+  }
+
+  private async aggregate<D extends string>(
+    collection: string,
+    dimensions: readonly D[],
+    fields: Readonly<Record<D, readonly [string, boolean]>>,
+    criteria: QueryCriteria,
+    options: AggregationOptions
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    const groupBy = dimensions.map((dimension): GroupBy => {
+      const [field, isTime] = fields[dimension];
+      return { field, as: dimension, ...(isTime ? { bucket: options.bucket ?? 'day' } : {}) };
+    });
+    const result = await this.options.storage.aggregate(collection, {
+      groupBy,
+      criteria,
+      ...(options.limit !== undefined ? { limit: options.limit } : {}),
     });
+    return result.ok ? result : err(result.error);
+  }
+}
+
+/**
+ * Text standing for an entity: its type, names and string properties
+ */
+function entityText(entity: Entity): string {
+  const { type, name, aliases, properties } = entity.data;
+  const texts = [type, name, ...(aliases ?? [])];
+  for (const value of Object.values(properties)) {
+    if (typeof value === 'string') {
+      texts.push(value);
+    }
+  }
+  return texts.filter((text) => text !== undefined).join(' ');
+}
+
+/**
+ * Text standing for a claim: its predicate and its value or object
+ */
+function claimText(claim: Claim, objectName: string | undefined): string {
+  const { predicate, objectId, objectValue } = claim.data;
+  const object = objectId !== undefined
+    ? objectName ?? objectId
+    : typeof objectValue === 'string' ? objectValue : JSON.stringify(objectValue);
+  return `${predicate.replace(/[_-]+/g, ' ')} ${object}`;
+}
+
+/**
+ * Embed the targets whose text changed since they were last embedded
+ */
+async function embedTargets(
+  index: VectorIndex,
+  embedder: Embedder,
+  targets: readonly VectorTarget[]
+): Promise<Result<void, Error>> {
+  const changed = targets
+    .map((target) => ({ ...target, textHash: hashText(target.text).toString(16) }))
+    .filter((target) => index.textHash(target.targetId) !== target.textHash);
+
+  for (let start = 0; start < changed.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = changed.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map((target) => target.text));
+    if (!vectors.ok) {
+      return vectors;
+    }
+    for (const [i, target] of batch.entries()) {
+      const stored = await index.upsert(target.kind, target.targetId, vectors.value[i]!, target.textHash);
+      if (!stored.ok) {
+        return stored;
+      }
+    }
   }
+  return ok(undefined);
 }
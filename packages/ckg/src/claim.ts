@@ -3,6 +3,10 @@
  *
  * Claims are immutable statements in the knowledge graph.
  * Each claim has subject, predicate, object, context, and provenance.
+ * A wrong claim is retracted, or superseded by a corrected claim; its
+ * statement is never rewritten, only its status. Merging duplicate
+ * entities re-points claims to the surviving entity, keeping the prior
+ * version.
  */
 
 import {
@@ -20,7 +24,34 @@ import {
   ProvenanceRequiredError,
 } from '@contextgraph/core';
 import { OntologyValidator, type LoadedOntology } from '@contextgraph/ontology';
-import { type StorageInterface } from '@contextgraph/storage';
+import { type StorageInterface, type StorageError, type QueryCriteria, type StreamOptions } from '@contextgraph/storage';
+
+/**
+ * Claim lifecycle status
+ * - `active`: currently asserted
+ * - `retracted`: withdrawn as wrong, with no replacement
+ * - `superseded`: replaced by a corrected claim
+ */
+export type ClaimStatus = 'active' | 'retracted' | 'superseded';
+
+/**
+ * Input for creating a claim
+ */
+export interface NewClaimInput {
+  readonly id?: ClaimId;
+  readonly subjectId: EntityId;
+  /** Needed for ontology validation */
+  readonly subjectType: string;
+  readonly predicate: string;
+  readonly objectId?: EntityId;
+  /** Needed for ontology validation */
+  readonly objectType?: string;
+  readonly objectValue?: unknown;
+  readonly context: ContextDimensions;
+  readonly provenanceId: ProvenanceId;
+  /** Claim this one corrects */
+  readonly supersedes?: ClaimId;
+}
 
 /**
  * Claim data structure
@@ -41,12 +72,23 @@ export interface ClaimData {
   readonly provenanceId: ProvenanceId;
   /** When the claim was recorded */
   readonly createdAt: Timestamp;
+  readonly status: ClaimStatus;
+  /** Claim this one corrects */
+  readonly supersedes: ClaimId | undefined;
+  /** Claim that corrects this one */
+  readonly supersededBy: ClaimId | undefined;
+  /** Why the claim was retracted or superseded */
+  readonly statusReason: string | undefined;
+  /** Provenance of the retraction or supersession */
+  readonly statusProvenanceId: ProvenanceId | undefined;
+  /** When the claim stopped being active */
+  readonly statusChangedAt: Timestamp | undefined;
 }
 
 /**
  * Claim record for storage
  */
-interface ClaimRecord {
+export interface ClaimRecord {
   readonly id: string;
   readonly subjectId: string;
   readonly predicate: string;
@@ -55,6 +97,13 @@ interface ClaimRecord {
   readonly context: string;
   readonly provenanceId: string;
   readonly createdAt: Timestamp;
+  /** Absent on claims stored before statuses existed */
+  readonly status?: string;
+  readonly supersedes?: string | null;
+  readonly supersededBy?: string | null;
+  readonly statusReason?: string | null;
+  readonly statusProvenanceId?: string | null;
+  readonly statusChangedAt?: Timestamp | null;
   [key: string]: unknown;
 }
 
@@ -67,20 +116,7 @@ export class Claim {
   /**
    * Create a new claim with validation
    */
-  static create(
-    input: {
-      id?: ClaimId;
-      subjectId: EntityId;
-      subjectType: string; // Needed for ontology validation
-      predicate: string;
-      objectId?: EntityId;
-      objectType?: string; // Needed for ontology validation
-      objectValue?: unknown;
-      context: ContextDimensions;
-      provenanceId: ProvenanceId;
-    },
-    ontology?: LoadedOntology
-  ): Result<Claim, Error> {
+  static create(input: NewClaimInput, ontology?: LoadedOntology): Result<Claim, Error> {
     // Require either objectId or objectValue
     if (input.objectId === undefined && input.objectValue === undefined) {
       return err(new ValidationError('Claim must have either objectId or objectValue'));
@@ -124,6 +160,12 @@ export class Claim {
       context: input.context,
       provenanceId: input.provenanceId,
       createdAt,
+      status: 'active',
+      supersedes: input.supersedes,
+      supersededBy: undefined,
+      statusReason: undefined,
+      statusProvenanceId: undefined,
+      statusChangedAt: undefined,
     };
 
     return ok(new Claim(claimData));
@@ -149,6 +191,12 @@ export class Claim {
       context,
       provenanceId: record.provenanceId as ProvenanceId,
       createdAt: record.createdAt,
+      status: (record.status ?? 'active') as ClaimStatus,
+      supersedes: (record.supersedes ?? undefined) as ClaimId | undefined,
+      supersededBy: (record.supersededBy ?? undefined) as ClaimId | undefined,
+      statusReason: record.statusReason ?? undefined,
+      statusProvenanceId: (record.statusProvenanceId ?? undefined) as ProvenanceId | undefined,
+      statusChangedAt: record.statusChangedAt ?? undefined,
     });
   }
 
@@ -165,11 +213,79 @@ export class Claim {
       context: JSON.stringify(this.data.context),
       provenanceId: this.data.provenanceId,
       createdAt: this.data.createdAt,
+      status: this.data.status,
+      supersedes: this.data.supersedes ?? null,
+      supersededBy: this.data.supersededBy ?? null,
+      statusReason: this.data.statusReason ?? null,
+      statusProvenanceId: this.data.statusProvenanceId ?? null,
+      statusChangedAt: this.data.statusChangedAt ?? null,
     };
   }
 
   /**
-   * Check if claim is valid at a given timestamp
+   * Whether the claim is currently asserted
+   */
+  isActive(): boolean {
+    return this.data.status === 'active';
+  }
+
+  /**
+   * Whether the claim had been recorded at a given (transaction) time
+   */
+  isKnownAt(timestamp: Timestamp): boolean {
+    return this.data.createdAt <= timestamp;
+  }
+
+  /**
+   * Status the claim had at a given (transaction) time; a retraction or
+   * supersession recorded later had not happened yet
+   */
+  statusAt(timestamp: Timestamp): ClaimStatus {
+    const changedAt = this.data.statusChangedAt;
+    return changedAt !== undefined && changedAt <= timestamp ? this.data.status : 'active';
+  }
+
+  /**
+   * Copy of this claim withdrawn as wrong
+   */
+  retract(reason: string, provenanceId: ProvenanceId): Claim {
+    return new Claim({
+      ...this.data,
+      status: 'retracted',
+      statusReason: reason,
+      statusProvenanceId: provenanceId,
+      statusChangedAt: createTimestamp(),
+    });
+  }
+
+  /**
+   * Copy of this claim replaced by a corrected claim
+   */
+  supersede(replacementId: ClaimId, provenanceId: ProvenanceId, reason?: string): Claim {
+    return new Claim({
+      ...this.data,
+      status: 'superseded',
+      supersededBy: replacementId,
+      statusReason: reason,
+      statusProvenanceId: provenanceId,
+      statusChangedAt: createTimestamp(),
+    });
+  }
+
+  /**
+   * Copy of this claim referring to `target` wherever it referred to one of `sources`
+   */
+  repoint(sources: ReadonlySet<EntityId>, target: EntityId): Claim {
+    const { subjectId, objectId } = this.data;
+    return new Claim({
+      ...this.data,
+      subjectId: sources.has(subjectId) ? target : subjectId,
+      objectId: objectId !== undefined && sources.has(objectId) ? target : objectId,
+    });
+  }
+
+  /**
+   * Check if claim is valid at a given timestamp (valid time)
    */
   isValidAt(timestamp: Timestamp): boolean {
     const { temporal } = this.data.context;
@@ -196,16 +312,7 @@ export class ClaimRepository {
   /**
    * Create and store a new claim
    */
-  async create(input: {
-    subjectId: EntityId;
-    subjectType: string;
-    predicate: string;
-    objectId?: EntityId;
-    objectType?: string;
-    objectValue?: unknown;
-    context: ContextDimensions;
-    provenanceId: ProvenanceId;
-  }): Promise<Result<Claim, Error>> {
+  async create(input: NewClaimInput): Promise<Result<Claim, Error>> {
     // Enforce provenance requirement
     if (this.requireProvenance && !input.provenanceId) {
       return err(new ProvenanceRequiredError());
@@ -225,6 +332,87 @@ export class ClaimRepository {
     return ok(claim);
   }
 
+  /**
+   * Mark an active claim as retracted
+   *
+   * The claims collection keeps prior versions, so the claim as it was
+   * before the retraction stays available.
+   */
+  async retract(id: ClaimId, reason: string, provenanceId: ProvenanceId): Promise<Result<Claim, Error>> {
+    const existing = await this.findActive(id);
+    if (!existing.ok) {
+      return existing;
+    }
+
+    const retracted = existing.value.retract(reason, provenanceId);
+    const upsertResult = await this.storage.upsert(this.collection, retracted.toRecord());
+    if (!upsertResult.ok) {
+      return err(upsertResult.error);
+    }
+
+    return ok(retracted);
+  }
+
+  /**
+   * Store a corrected claim and mark the active claim it replaces as superseded
+   */
+  async supersede(
+    id: ClaimId,
+    input: NewClaimInput,
+    reason?: string
+  ): Promise<Result<{ superseded: Claim; replacement: Claim }, Error>> {
+    const claimResult = Claim.create({ ...input, supersedes: id }, this.ontology);
+    if (!claimResult.ok) {
+      return claimResult;
+    }
+    const replacement = claimResult.value;
+
+    const existing = await this.findActive(id);
+    if (!existing.ok) {
+      return existing;
+    }
+    const superseded = existing.value.supersede(replacement.data.id, input.provenanceId, reason);
+
+    const result = await this.storage.transaction(async () => {
+      const insertResult = await this.storage.insert(this.collection, replacement.toRecord());
+      if (!insertResult.ok) {
+        return insertResult;
+      }
+      return this.storage.upsert(this.collection, superseded.toRecord());
+    });
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    return ok({ superseded, replacement });
+  }
+
+  /**
+   * Re-point every claim about or referring to one of `sources` to `target`,
+   * returning the number of claims changed. Run inside a transaction.
+   */
+  async repoint(sources: readonly EntityId[], target: EntityId): Promise<Result<number, StorageError>> {
+    const criteria = { $or: [{ subjectId: { $in: sources } }, { objectId: { $in: sources } }] };
+    const claims: Claim[] = [];
+    try {
+      for await (const claim of this.stream(criteria)) {
+        claims.push(claim);
+      }
+    } catch (error) {
+      return err(error as StorageError);
+    }
+
+    const sourceIds = new Set(sources);
+    for (const claim of claims) {
+      const upsertResult = await this.storage.upsert(this.collection, claim.repoint(sourceIds, target).toRecord());
+      if (!upsertResult.ok) {
+        return upsertResult;
+      }
+    }
+
+    return ok(claims.length);
+  }
+
   /**
    * Find claim by ID
    */
@@ -289,6 +477,33 @@ export class ClaimRepository {
     return ok(result.value.items.map((record) => Claim.fromRecord(record)));
   }
 
+  /**
+   * Find claims matching storage criteria
+   *
+   * Criteria are evaluated by the storage backend, e.g.
+   * `{ predicate: { $in: ['owns', 'controls'] }, 'context.jurisdiction': 'EU' }`.
+   */
+  async query(
+    criteria: QueryCriteria,
+    options?: { limit?: number; offset?: number; orderBy?: string; orderDirection?: 'asc' | 'desc' }
+  ): Promise<Result<readonly Claim[], Error>> {
+    const result = await this.storage.find<ClaimRecord>(this.collection, criteria, options);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    return ok(result.value.items.map((record) => Claim.fromRecord(record)));
+  }
+
+  /**
+   * Stream claims matching storage criteria without loading them all at once
+   */
+  async *stream(criteria: QueryCriteria = {}, options?: StreamOptions): AsyncIterableIterator<Claim> {
+    for await (const record of this.storage.stream<ClaimRecord>(this.collection, criteria, options)) {
+      yield Claim.fromRecord(record);
+    }
+  }
+
   /**
    * Count claims for a subject
    */
@@ -296,6 +511,23 @@ export class ClaimRepository {
     return this.storage.count(this.collection, { subjectId });
   }
 
+  /**
+   * Find a claim that can still be retracted or superseded
+   */
+  private async findActive(id: ClaimId): Promise<Result<Claim, Error>> {
+    const result = await this.findById(id);
+    if (!result.ok) {
+      return result;
+    }
+    if (result.value === null) {
+      return err(new ValidationError(`Claim not found: ${id}`, 'id'));
+    }
+    if (!result.value.isActive()) {
+      return err(new ValidationError(`Claim ${id} is already ${result.value.data.status}`, 'status'));
+    }
+    return ok(result.value);
+  }
+
   /**
    * Get all claims (with pagination)
    */
@@ -3,6 +3,11 @@
  *
  * Filters claims by contextual dimensions: time, scope, jurisdiction.
  * Provides deterministic filtering for consistent results.
+ *
+ * Time is bitemporal: `asOf` and `timeRange` select by valid time (when a
+ * claim holds in the world, from its context), `knownAt` by transaction
+ * time (what the graph had recorded, from the claim's `createdAt` and the
+ * time of any retraction or supersession).
  */
 
 import {
@@ -16,8 +21,10 @@ import { type Claim } from './claim.js';
  * Filter options for context-based queries
  */
 export interface ContextFilterOptions {
-  /** Point in time for temporal filtering */
+  /** Point in valid time for temporal filtering */
   asOf?: Timestamp;
+  /** Point in transaction time: only what the graph believed then */
+  knownAt?: Timestamp;
   /** Time range for temporal filtering */
   timeRange?: {
     start: Timestamp;
@@ -31,6 +38,10 @@ export interface ContextFilterOptions {
   minConfidence?: number;
   /** Include claims that overlap with the time range */
   includeOverlapping?: boolean;
+  /** Include retracted claims (excluded by default) */
+  includeRetracted?: boolean;
+  /** Include claims replaced by a correction (excluded by default) */
+  includeSuperseded?: boolean;
 }
 
 /**
@@ -62,7 +73,7 @@ export class ContextFilter {
     const excluded: Claim[] = [];
 
     for (const claim of claims) {
-      if (this.matchesCriteria(claim, options)) {
+      if (this.matches(claim, options)) {
         matching.push(claim);
       } else {
         excluded.push(claim);
@@ -84,6 +95,13 @@ export class ContextFilter {
     return this.filter(claims, { asOf: timestamp });
   }
 
+  /**
+   * Filter claims valid at one time as the graph believed them at another
+   */
+  filterKnownAt(claims: readonly Claim[], asOf: Timestamp, knownAt: Timestamp): FilteredClaimSet {
+    return this.filter(claims, { asOf, knownAt });
+  }
+
   /**
    * Filter claims by jurisdiction
    */
@@ -125,9 +143,19 @@ export class ContextFilter {
   /**
    * Check if a claim matches filter criteria
    */
-  private matchesCriteria(claim: Claim, options: ContextFilterOptions): boolean {
+  matches(claim: Claim, options: ContextFilterOptions): boolean {
     const context = claim.data.context;
 
+    // Transaction-time filtering
+    if (options.knownAt !== undefined && !claim.isKnownAt(options.knownAt)) {
+      return false;
+    }
+
+    // Status filtering
+    if (!this.matchesStatus(claim, options)) {
+      return false;
+    }
+
     // Temporal filtering
     if (options.asOf !== undefined) {
       if (!claim.isValidAt(options.asOf)) {
@@ -177,6 +205,22 @@ export class ContextFilter {
     return true;
   }
 
+  /**
+   * Check if a claim's status is included (only active claims by default),
+   * taking the status it had at `knownAt` when given
+   */
+  matchesStatus(claim: Claim, options: ContextFilterOptions): boolean {
+    const status = options.knownAt !== undefined ? claim.statusAt(options.knownAt) : claim.data.status;
+    switch (status) {
+      case 'retracted':
+        return options.includeRetracted === true;
+      case 'superseded':
+        return options.includeSuperseded === true;
+      default:
+        return true;
+    }
+  }
+
   /**
    * Check if a group of claims has conflicting objects
    */
@@ -0,0 +1,120 @@
+/**
+ * Temporal Diff
+ *
+ * Compares the graph at two points in time. The graph at a time holds the
+ * claims it had recorded by then, still active then, and valid then; so
+ * each point is read both as valid time and as transaction time. A claim
+ * is added when it holds at the later point only, and removed when it
+ * holds at the earlier point only, with the reason it changed.
+ */
+
+import { type EntityId, type Timestamp } from '@contextgraph/core';
+import { type Claim } from './claim.js';
+
+/**
+ * Why a claim started or stopped holding
+ * - `recorded`: recorded after the earlier point
+ * - `became_valid`: known before, but only valid from after the earlier point
+ * - `expired`: its validity ended before the later point
+ * - `retracted`: withdrawn as wrong before the later point
+ * - `superseded`: replaced by a correction before the later point
+ */
+export type ClaimChangeReason = 'recorded' | 'became_valid' | 'expired' | 'retracted' | 'superseded';
+
+/**
+ * Claim that started or stopped holding
+ */
+export interface ClaimChange {
+  readonly claim: Claim;
+  readonly reason: ClaimChangeReason;
+  /** When the change happened, in valid time for `became_valid` and `expired`, else in transaction time */
+  readonly at: Timestamp;
+}
+
+/**
+ * Changes to the graph between two points in time
+ */
+export interface GraphDiff {
+  readonly from: Timestamp;
+  readonly to: Timestamp;
+  /** Claims holding at `to` but not at `from`, in order of change */
+  readonly added: readonly ClaimChange[];
+  /** Claims holding at `from` but not at `to`, in order of change */
+  readonly removed: readonly ClaimChange[];
+  /** Claims recorded after `from` up to `to`, whether or not they hold at either point */
+  readonly recorded: readonly Claim[];
+  /** Subjects and objects of the added and removed claims */
+  readonly entityIds: readonly EntityId[];
+}
+
+/**
+ * Restrictions on the claims compared
+ */
+export interface DiffOptions {
+  /** Only claims whose subject or object is one of these entities */
+  entityIds?: readonly EntityId[];
+  /** Only claims with one of these predicates */
+  predicates?: readonly string[];
+}
+
+/**
+ * Whether a claim holds in the graph at a given time
+ */
+export function holdsAt(claim: Claim, timestamp: Timestamp): boolean {
+  return claim.isKnownAt(timestamp) && claim.statusAt(timestamp) === 'active' && claim.isValidAt(timestamp);
+}
+
+/**
+ * Compare claims at two points in time; `from` must not be after `to`
+ */
+export function diffClaims(claims: readonly Claim[], from: Timestamp, to: Timestamp): GraphDiff {
+  const added: ClaimChange[] = [];
+  const removed: ClaimChange[] = [];
+  const recorded: Claim[] = [];
+  const entityIds = new Set<EntityId>();
+
+  for (const claim of claims) {
+    if (claim.data.createdAt > from && claim.data.createdAt <= to) {
+      recorded.push(claim);
+    }
+
+    const before = holdsAt(claim, from);
+    const after = holdsAt(claim, to);
+    if (before === after) {
+      continue;
+    }
+    if (after) {
+      added.push(addition(claim, from));
+    } else {
+      removed.push(removal(claim, to));
+    }
+    entityIds.add(claim.data.subjectId);
+    if (claim.data.objectId !== undefined) {
+      entityIds.add(claim.data.objectId);
+    }
+  }
+
+  const byTime = (a: ClaimChange, b: ClaimChange): number => a.at - b.at;
+  return {
+    from,
+    to,
+    added: added.sort(byTime),
+    removed: removed.sort(byTime),
+    recorded,
+    entityIds: [...entityIds],
+  };
+}
+
+function addition(claim: Claim, from: Timestamp): ClaimChange {
+  return claim.isKnownAt(from)
+    ? { claim, reason: 'became_valid', at: claim.data.context.temporal.start }
+    : { claim, reason: 'recorded', at: claim.data.createdAt };
+}
+
+function removal(claim: Claim, to: Timestamp): ClaimChange {
+  const status = claim.statusAt(to);
+  if (status !== 'active') {
+    return { claim, reason: status, at: claim.data.statusChangedAt! };
+  }
+  return { claim, reason: 'expired', at: claim.data.context.temporal.end! };
+}
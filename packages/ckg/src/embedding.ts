@@ -0,0 +1,104 @@
+/**
+ * Embeddings
+ *
+ * An embedder turns text into vectors whose cosine similarity reflects how
+ * related the texts are. Any model can be plugged in behind `Embedder`;
+ * `HashedNgramEmbedder` is a deterministic local implementation, for tests
+ * and offline use, that hashes words and character trigrams into a fixed
+ * number of dimensions.
+ */
+
+import { type Result, ok } from '@contextgraph/core';
+import { tokenize } from './text-index.js';
+
+/**
+ * Text embedding model
+ */
+export interface Embedder {
+  /** Identifies the model; vectors of different embedders are stored apart */
+  readonly id: string;
+  readonly dimensions: number;
+  /** One vector per text, in order */
+  embed(texts: readonly string[]): Promise<Result<readonly (readonly number[])[], Error>>;
+}
+
+/**
+ * Options for the hashed n-gram embedder
+ */
+export interface HashedNgramEmbedderOptions {
+  /** Vector dimensions (default: 256) */
+  dimensions?: number;
+  /** Character n-gram length (default: 3) */
+  ngram?: number;
+}
+
+/**
+ * Deterministic embedder hashing words and character n-grams into a vector
+ *
+ * Texts sharing words, or parts of words, get similar vectors; it has no
+ * notion of synonyms.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+  private readonly ngram: number;
+
+  constructor(options: HashedNgramEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.ngram = options.ngram ?? 3;
+    this.id = `hashed-ngram-${this.ngram}-${this.dimensions}`;
+  }
+
+  embed(texts: readonly string[]): Promise<Result<readonly (readonly number[])[], Error>> {
+    return Promise.resolve(ok(texts.map((text) => this.embedOne(text))));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number): void => {
+      const hash = hashText(feature);
+      // The top bit picks the sign, so unrelated features tend to cancel out
+      vector[hash % this.dimensions]! += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + this.ngram <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + this.ngram)}`, 0.5);
+      }
+    }
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Scale a vector to unit length (the zero vector is returned as is)
+ */
+export function normalizeVector(vector: readonly number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? [...vector] : vector.map((value) => value / norm);
+}
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+export function dotProduct(a: readonly number[], b: readonly number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * (b[i] ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
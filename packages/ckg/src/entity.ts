@@ -3,6 +3,10 @@
  *
  * Entities are the nodes in the knowledge graph.
  * They support aliasing for entity resolution.
+ *
+ * Updates keep the replaced record as a prior version, and deletes leave a
+ * tombstone rather than removing the record. An entity merged into another
+ * is tombstoned with a redirect to the survivor, which `resolve` follows.
  */
 
 import {
@@ -16,7 +20,7 @@ import {
   ValidationError,
 } from '@contextgraph/core';
 import { OntologyValidator, type LoadedOntology } from '@contextgraph/ontology';
-import { type StorageInterface } from '@contextgraph/storage';
+import { type StorageError, type StorageInterface, type QueryCriteria, type StreamOptions } from '@contextgraph/storage';
 
 /**
  * Entity data structure
@@ -28,21 +32,42 @@ export interface EntityData {
   readonly aliases: readonly string[] | undefined;
   readonly properties: Readonly<Record<string, unknown>>;
   readonly createdAt: Timestamp;
+  /** When the entity was last updated */
+  readonly updatedAt?: Timestamp;
+  /** When the entity was deleted (tombstone) */
+  readonly deletedAt?: Timestamp;
+  /** Entity this one was merged into */
+  readonly mergedInto?: EntityId;
+}
+
+/**
+ * Changes applied by an entity update; omitted fields are left as they are
+ */
+export interface EntityUpdate {
+  readonly name?: string;
+  readonly aliases?: readonly string[];
+  readonly properties?: Readonly<Record<string, unknown>>;
 }
 
 /**
  * Entity record for storage
  */
-interface EntityRecord {
+export interface EntityRecord {
   readonly id: string;
   readonly type: string;
   readonly name: string | null;
   readonly aliases: string | null;
   readonly metadata: string | null;
   readonly createdAt: Timestamp;
+  readonly updatedAt?: Timestamp | null;
+  readonly deletedAt?: Timestamp | null;
+  readonly mergedInto?: string | null;
   [key: string]: unknown;
 }
 
+/** Longest chain of merge redirects followed when resolving */
+const MAX_REDIRECTS = 16;
+
 /**
  * Entity class with validation
  */
@@ -74,13 +99,19 @@ export class Entity {
       createdAt,
     };
 
-    // Validate against ontology if provided
+    return Entity.validated(entityData, ontology);
+  }
+
+  /**
+   * Validate entity data against the ontology, if provided
+   */
+  private static validated(data: EntityData, ontology?: LoadedOntology): Result<Entity, ValidationError> {
     if (ontology !== undefined) {
       const validator = new OntologyValidator(ontology);
       const result = validator.validateEntity({
-        id,
-        type: input.type,
-        properties: input.properties ?? {},
+        id: data.id,
+        type: data.type,
+        properties: data.properties,
       });
 
       if (!result.valid) {
@@ -95,7 +126,7 @@ export class Entity {
       }
     }
 
-    return ok(new Entity(entityData));
+    return ok(new Entity(data));
   }
 
   /**
@@ -116,6 +147,9 @@ export class Entity {
       aliases,
       properties,
       createdAt: record.createdAt,
+      ...(record.updatedAt != null ? { updatedAt: record.updatedAt } : {}),
+      ...(record.deletedAt != null ? { deletedAt: record.deletedAt } : {}),
+      ...(record.mergedInto != null ? { mergedInto: record.mergedInto as EntityId } : {}),
     });
   }
 
@@ -130,6 +164,9 @@ export class Entity {
       aliases: this.data.aliases !== undefined ? JSON.stringify(this.data.aliases) : null,
       metadata: Object.keys(this.data.properties).length > 0 ? JSON.stringify(this.data.properties) : null,
       createdAt: this.data.createdAt,
+      updatedAt: this.data.updatedAt ?? null,
+      deletedAt: this.data.deletedAt ?? null,
+      mergedInto: this.data.mergedInto ?? null,
     };
   }
 
@@ -139,6 +176,56 @@ export class Entity {
   hasAlias(alias: string): boolean {
     return this.data.aliases?.includes(alias) ?? false;
   }
+
+  /**
+   * Whether the entity has been deleted or merged away
+   */
+  isDeleted(): boolean {
+    return this.data.deletedAt !== undefined;
+  }
+
+  /**
+   * Copy of this entity with the given changes, validated against the ontology
+   */
+  update(changes: EntityUpdate, ontology?: LoadedOntology): Result<Entity, ValidationError> {
+    return Entity.validated(
+      {
+        ...this.data,
+        ...(changes.name !== undefined ? { name: changes.name } : {}),
+        ...(changes.aliases !== undefined ? { aliases: changes.aliases } : {}),
+        ...(changes.properties !== undefined ? { properties: changes.properties } : {}),
+        updatedAt: createTimestamp(),
+      },
+      ontology
+    );
+  }
+
+  /**
+   * Copy of this entity with the given aliases added, skipping its own name
+   * and aliases it already has
+   */
+  withAliases(aliases: Iterable<string>): Entity {
+    const merged = new Set(this.data.aliases ?? []);
+    for (const alias of aliases) {
+      if (alias !== this.data.name) {
+        merged.add(alias);
+      }
+    }
+    return new Entity({ ...this.data, aliases: [...merged], updatedAt: createTimestamp() });
+  }
+
+  /**
+   * Tombstone of this entity, optionally redirecting to the entity it was merged into
+   */
+  tombstone(mergedInto?: EntityId): Entity {
+    const now = createTimestamp();
+    return new Entity({
+      ...this.data,
+      updatedAt: now,
+      deletedAt: now,
+      ...(mergedInto !== undefined ? { mergedInto } : {}),
+    });
+  }
 }
 
 /**
@@ -179,26 +266,142 @@ export class EntityRepository {
   }
 
   /**
-   * Find entity by ID
+   * Apply changes to a live entity, keeping the prior version
+   */
+  async update(id: EntityId, changes: EntityUpdate): Promise<Result<Entity, Error>> {
+    const updated = await this.checkUpdate(id, changes);
+    if (!updated.ok) {
+      return updated;
+    }
+    return this.write(updated.value);
+  }
+
+  /**
+   * Apply changes to a live entity and validate the result, without storing it
+   */
+  async checkUpdate(id: EntityId, changes: EntityUpdate): Promise<Result<Entity, Error>> {
+    const existing = await this.findLive(id);
+    if (!existing.ok) {
+      return existing;
+    }
+    return existing.value.update(changes, this.ontology);
+  }
+
+  /**
+   * Replace a live entity with its tombstone
+   */
+  async delete(id: EntityId): Promise<Result<Entity, Error>> {
+    const existing = await this.findLive(id);
+    if (!existing.ok) {
+      return existing;
+    }
+    return this.write(existing.value.tombstone());
+  }
+
+  /**
+   * Store a new version of an entity, keeping the prior version. Callers
+   * check the entity first.
+   */
+  async write(entity: Entity): Promise<Result<Entity, StorageError>> {
+    const upsertResult = await this.storage.upsert(this.collection, entity.toRecord());
+    if (!upsertResult.ok) {
+      return upsertResult;
+    }
+    return ok(entity);
+  }
+
+  /**
+   * Write the outcome of a merge: the survivor with the duplicates' names
+   * and aliases added, and a redirecting tombstone for each duplicate.
+   * Callers check the entities and run this inside a transaction.
+   */
+  async writeMerge(
+    survivor: Entity,
+    duplicates: readonly Entity[]
+  ): Promise<Result<{ survivor: Entity; merged: readonly Entity[] }, StorageError>> {
+    const aliases: string[] = [];
+    for (const duplicate of duplicates) {
+      if (duplicate.data.name !== undefined) {
+        aliases.push(duplicate.data.name);
+      }
+      aliases.push(...(duplicate.data.aliases ?? []));
+    }
+
+    const tombstones = duplicates.map((duplicate) => duplicate.tombstone(survivor.data.id));
+    for (const tombstone of tombstones) {
+      const tombstoneResult = await this.storage.upsert(this.collection, tombstone.toRecord());
+      if (!tombstoneResult.ok) {
+        return tombstoneResult;
+      }
+    }
+
+    const merged = survivor.withAliases(aliases);
+    const upsertResult = await this.storage.upsert(this.collection, merged.toRecord());
+    if (!upsertResult.ok) {
+      return upsertResult;
+    }
+
+    return ok({ survivor: merged, merged: tombstones });
+  }
+
+  /**
+   * Find entity by ID; deleted and merged entities are not returned
    */
   async findById(id: EntityId): Promise<Result<Entity | null, Error>> {
-    const result = await this.storage.findById<EntityRecord>(this.collection, id);
+    const result = await this.findRecord(id);
     if (!result.ok) {
-      return err(result.error);
+      return result;
     }
 
+    return ok(result.value !== null && !result.value.isDeleted() ? result.value : null);
+  }
+
+  /**
+   * Find a live entity, failing when it does not exist or was deleted
+   */
+  async findLive(id: EntityId): Promise<Result<Entity, Error>> {
+    const result = await this.findRecord(id);
+    if (!result.ok) {
+      return result;
+    }
     if (result.value === null) {
-      return ok(null);
+      return err(new ValidationError(`Entity not found: ${id}`, 'id'));
+    }
+    if (result.value.isDeleted()) {
+      return err(
+        new ValidationError(
+          result.value.data.mergedInto !== undefined
+            ? `Entity ${id} was merged into ${result.value.data.mergedInto}`
+            : `Entity ${id} is deleted`,
+          'id'
+        )
+      );
     }
 
-    return ok(Entity.fromRecord(result.value));
+    return ok(result.value);
+  }
+
+  /**
+   * Every stored version of an entity, oldest first, including its tombstone
+   */
+  async findVersions(id: EntityId): Promise<Result<readonly Entity[], Error>> {
+    const result = await this.storage.findVersions<EntityRecord>(this.collection, id);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    return ok(result.value.map((version) => Entity.fromRecord(version.record)));
   }
 
   /**
    * Find entities by type
    */
   async findByType(type: string, options?: { limit?: number; offset?: number }): Promise<Result<readonly Entity[], Error>> {
-    const result = await this.storage.find<EntityRecord>(this.collection, { type }, options);
+    const result = await this.storage.find<EntityRecord>(
+      this.collection,
+      { type, deletedAt: { $exists: false } },
+      options
+    );
     if (!result.ok) {
       return err(result.error);
     }
@@ -211,34 +414,35 @@ export class EntityRepository {
    */
   async findByAlias(alias: string): Promise<Result<Entity | null, Error>> {
     // Search in aliases JSON field
-    const result = await this.storage.query<EntityRecord>(
-      `SELECT * FROM entities WHERE aliases LIKE ? LIMIT 1`,
-      [`%"${alias}"%`]
+    const result = await this.storage.find<EntityRecord>(
+      this.collection,
+      { aliases: { $like: `%${JSON.stringify(alias)}%` }, deletedAt: { $exists: false } },
+      { limit: 1 }
     );
 
     if (!result.ok) {
       return err(result.error);
     }
 
-    if (result.value.length === 0) {
-      return ok(null);
-    }
-
-    return ok(Entity.fromRecord(result.value[0]!));
+    const [record] = result.value.items;
+    return ok(record !== undefined ? Entity.fromRecord(record) : null);
   }
 
   /**
-   * Resolve entity by ID or alias
+   * Resolve entity by ID or alias, following the redirects left by merges
    */
   async resolve(identifier: string): Promise<Result<Entity | null, Error>> {
     // Try by ID first
-    const byId = await this.findById(identifier as EntityId);
+    let byId = await this.findRecord(identifier as EntityId);
+    for (let hops = 0; byId.ok && byId.value?.data.mergedInto !== undefined && hops < MAX_REDIRECTS; hops++) {
+      byId = await this.findRecord(byId.value.data.mergedInto);
+    }
     if (!byId.ok) {
       return byId;
     }
 
     if (byId.value !== null) {
-      return ok(byId.value);
+      return ok(byId.value.isDeleted() ? null : byId.value);
     }
 
     // Try by alias
@@ -249,6 +453,27 @@ export class EntityRepository {
    * Count entities by type
    */
   async countByType(type: string): Promise<Result<number, Error>> {
-    return this.storage.count(this.collection, { type });
+    return this.storage.count(this.collection, { type, deletedAt: { $exists: false } });
+  }
+
+  /**
+   * Stream entities matching storage criteria without loading them all at once
+   */
+  async *stream(criteria: QueryCriteria = {}, options?: StreamOptions): AsyncIterableIterator<Entity> {
+    for await (const record of this.storage.stream<EntityRecord>(this.collection, criteria, options)) {
+      yield Entity.fromRecord(record);
+    }
+  }
+
+  /**
+   * Find an entity by ID, including tombstones
+   */
+  private async findRecord(id: EntityId): Promise<Result<Entity | null, Error>> {
+    const result = await this.storage.findById<EntityRecord>(this.collection, id);
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    return ok(result.value !== null ? Entity.fromRecord(result.value) : null);
   }
 }
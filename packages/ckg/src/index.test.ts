@@ -1,15 +1,30 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
+  createClaimId,
   createEntityId,
+  createOntologyVersion,
   createProvenanceId,
   createTimestamp,
   createTimeInterval,
+  type EntityId,
   type Timestamp,
   type ContextDimensions,
 } from '@contextgraph/core';
-import { OntologyLoader, ontologyV0_1 } from '@contextgraph/ontology';
-import { InMemoryStorage, SQLiteStorage } from '@contextgraph/storage';
-import { CKG, Entity, Claim, ContextFilter } from './index.js';
+import { OntologyLoader, OntologySchemaBuilder, ontologyV0_1 } from '@contextgraph/ontology';
+import { InMemoryStorage, SQLiteStorage, StorageError } from '@contextgraph/storage';
+import { ProvenanceLedger } from '@contextgraph/provenance';
+import {
+  CKG,
+  Entity,
+  Claim,
+  Annotation,
+  ContextFilter,
+  HashedNgramEmbedder,
+  VectorIndex,
+  normalizeVector,
+  parsePatternQuery,
+  type Embedder,
+} from './index.js';
 
 describe('Entity', () => {
   it('should create entity without ontology validation', () => {
@@ -178,6 +193,60 @@ describe('Claim', () => {
   });
 });
 
+describe('Annotation', () => {
+  const base = { claimId: createClaimId('claim-1'), provenanceId: createProvenanceId('prov-1') };
+
+  it('should require a reference on evidence', () => {
+    expect(Annotation.create({ ...base, kind: 'evidence' }, 'worksAt').ok).toBe(false);
+
+    const result = Annotation.create({
+      ...base,
+      kind: 'evidence',
+      ref: { type: 'document', id: 'contract', uri: 'https://example.com/contract.pdf', span: { start: 10, end: 42 } },
+      text: 'employed as of 1 March',
+    }, 'worksAt');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(Annotation.fromRecord(result.value.toRecord()).data).toEqual(result.value.data);
+    }
+  });
+
+  it('should validate qualifiers against the relation in the ontology', () => {
+    const schema = new OntologySchemaBuilder(createOntologyVersion('1.0.0'), 'hr', 'HR relations')
+      .addEntity({ name: 'Person', description: 'A person', properties: [] })
+      .addRelation({
+        name: 'worksAt',
+        description: 'Employment',
+        from: ['Person'],
+        to: ['Person'],
+        cardinality: 'many-to-one',
+        properties: [{ name: 'role', type: 'string', required: false }],
+      })
+      .build();
+    const loader = new OntologyLoader();
+    loader.register(schema);
+    const ontology = loader.load(schema.version);
+    if (!ontology.ok) throw ontology.error;
+
+    expect(Annotation.create({ ...base, kind: 'qualifier', qualifiers: { role: 'CTO' } }, 'worksAt', ontology.value).ok)
+      .toBe(true);
+    const invalid = Annotation.create({ ...base, kind: 'qualifier', qualifiers: { role: 3 } }, 'worksAt', ontology.value);
+    expect(!invalid.ok && invalid.error.message).toContain('Expected string');
+    expect(Annotation.create({ ...base, kind: 'dispute', qualifiers: { role: 'CTO' } }, 'worksAt').ok).toBe(false);
+  });
+
+  it('should give annotations made in one burst increasing creation times', () => {
+    const times = Array.from({ length: 5 }, () => {
+      const result = Annotation.create({ ...base, kind: 'note', text: 'Checked' }, 'worksAt');
+      if (!result.ok) throw result.error;
+      return result.value.data.createdAt;
+    });
+    for (let i = 1; i < times.length; i++) {
+      expect(times[i]).toBeGreaterThan(times[i - 1]!);
+    }
+  });
+});
+
 describe('ContextFilter', () => {
   const filter = new ContextFilter();
 
@@ -356,4 +425,997 @@ describe('CKG Integration', () => {
       expect(result.value.claims[0]?.data.objectValue).toBe('Engineer');
     }
   });
+
+  it('should query and stream every claim, not just the first page', async () => {
+    const person = await ckg.createEntity({ type: 'Person', name: 'Dana', properties: {} });
+    if (!person.ok) throw new Error('Failed to create person');
+
+    for (let i = 0; i < 600; i++) {
+      await ckg.createClaim({
+        subjectId: person.value.data.id,
+        subjectType: 'Person',
+        predicate: 'visited',
+        objectValue: `site-${i}`,
+        context: { temporal: createTimeInterval(createTimestamp()), jurisdiction: i % 2 === 0 ? 'EU' : 'US' },
+        provenanceId: createProvenanceId(`p${i}`),
+      });
+    }
+
+    const result = await ckg.queryClaims({ jurisdiction: 'EU' });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.claims.length).toBe(300);
+      expect(result.value.excluded.length).toBe(300);
+    }
+
+    let streamed = 0;
+    for await (const claim of ckg.streamClaims({ jurisdiction: 'US' })) {
+      expect(claim.data.context.jurisdiction).toBe('US');
+      streamed++;
+    }
+    expect(streamed).toBe(300);
+  });
+
+  describe('claim revisions', () => {
+    let ledger: ProvenanceLedger;
+    let aliceId: EntityId;
+
+    async function addRole(role: string): Promise<Claim> {
+      const result = await ckg.createClaim({
+        subjectId: aliceId,
+        subjectType: 'Person',
+        predicate: 'role',
+        objectValue: role,
+        context: { temporal: createTimeInterval(createTimestamp()) },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!result.ok) throw result.error;
+      return result.value;
+    }
+
+    beforeEach(async () => {
+      ledger = new ProvenanceLedger(storage);
+      await ledger.initialize();
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger });
+      const alice = await ckg.createEntity({ type: 'Person', name: 'Alice', properties: {} });
+      if (!alice.ok) throw alice.error;
+      aliceId = alice.value.data.id;
+    });
+
+    it('should retract a claim with provenance and hide it by default', async () => {
+      const claim = await addRole('Engineer');
+
+      const retracted = await ckg.retractClaim(claim.data.id, 'Recorded for the wrong person', { actor: 'reviewer' });
+      expect(retracted.ok).toBe(true);
+      if (!retracted.ok) return;
+      expect(retracted.value.data.status).toBe('retracted');
+      expect(retracted.value.data.statusReason).toBe('Recorded for the wrong person');
+
+      const entry = await ledger.getById(retracted.value.data.statusProvenanceId!);
+      expect(entry.ok && entry.value?.data.actor).toBe('reviewer');
+      expect(entry.ok && entry.value?.data.inputRefs).toEqual([{ type: 'claim', id: claim.data.id }]);
+
+      const stored = await ckg.getClaim(claim.data.id);
+      expect(stored.ok && stored.value?.data.status).toBe('retracted');
+
+      const hidden = await ckg.queryClaims({});
+      expect(hidden.ok && hidden.value.claims).toHaveLength(0);
+      const included = await ckg.queryClaims({ includeRetracted: true });
+      expect(included.ok && included.value.claims.map((c) => c.data.id)).toEqual([claim.data.id]);
+
+      const traversed = await ckg.traverse(aliceId, { direction: 'outgoing' });
+      expect(traversed.ok && traversed.value).toHaveLength(0);
+    });
+
+    it('should supersede a claim with a linked correction', async () => {
+      const claim = await addRole('Engineer');
+
+      const result = await ckg.supersedeClaim(
+        claim.data.id,
+        {
+          subjectId: aliceId,
+          subjectType: 'Person',
+          predicate: 'role',
+          objectValue: 'Staff Engineer',
+          context: { temporal: createTimeInterval(createTimestamp()) },
+        },
+        { reason: 'Promotion was missed' }
+      );
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      const { superseded, replacement } = result.value;
+      expect(superseded.data.status).toBe('superseded');
+      expect(superseded.data.supersededBy).toBe(replacement.data.id);
+      expect(replacement.data.supersedes).toBe(claim.data.id);
+      expect(replacement.data.provenanceId).toBe(superseded.data.statusProvenanceId);
+
+      const entry = await ledger.getById(replacement.data.provenanceId);
+      expect(entry.ok && entry.value?.data.outputRefs).toEqual([{ type: 'claim', id: replacement.data.id }]);
+
+      const traversed = await ckg.traverse(aliceId, { direction: 'outgoing' });
+      expect(traversed.ok && traversed.value.map((c) => c.data.objectValue)).toEqual(['Staff Engineer']);
+      const withHistory = await ckg.traverse(aliceId, {
+        direction: 'outgoing',
+        filterOptions: { includeSuperseded: true },
+      });
+      expect(withHistory.ok && withHistory.value).toHaveLength(2);
+
+      const conflicts = await ckg.findConflicts();
+      expect(conflicts.ok && conflicts.value.size).toBe(0);
+
+      const chain = await ledger.verifyChain();
+      expect(chain.ok && chain.value.valid).toBe(true);
+    });
+
+    it('should only revise active claims', async () => {
+      const claim = await addRole('Engineer');
+      expect((await ckg.retractClaim(claim.data.id, 'Wrong')).ok).toBe(true);
+
+      const again = await ckg.retractClaim(claim.data.id, 'Still wrong');
+      expect(again.ok).toBe(false);
+      const superseded = await ckg.supersedeClaim(claim.data.id, {
+        subjectId: aliceId,
+        subjectType: 'Person',
+        predicate: 'role',
+        objectValue: 'Manager',
+        context: { temporal: createTimeInterval(createTimestamp()) },
+      });
+      expect(superseded.ok).toBe(false);
+      const missing = await ckg.retractClaim(createClaimId('missing'), 'Unknown');
+      expect(missing.ok).toBe(false);
+
+      const entries = await ledger.query({});
+      expect(entries.ok && entries.value).toHaveLength(1);
+    });
+
+    it('should record no provenance for a revision that is not written', async () => {
+      const claim = await addRole('Engineer');
+
+      const invalid = await ckg.supersedeClaim(claim.data.id, {
+        subjectId: aliceId,
+        subjectType: 'Person',
+        predicate: 'role',
+        context: { temporal: createTimeInterval(createTimestamp()) },
+      });
+      expect(invalid.ok).toBe(false);
+
+      const upsert = vi.spyOn(storage, 'upsert').mockResolvedValueOnce({
+        ok: false,
+        error: new StorageError('Disk full', 'QUERY_FAILED'),
+      });
+      const retracted = await ckg.retractClaim(claim.data.id, 'Wrong');
+      expect(retracted.ok).toBe(false);
+      upsert.mockRestore();
+
+      const entries = await ledger.query({});
+      expect(entries.ok && entries.value).toHaveLength(0);
+      const stored = await ckg.getClaim(claim.data.id);
+      expect(stored.ok && stored.value?.data.status).toBe('active');
+
+      expect((await ckg.retractClaim(claim.data.id, 'Wrong')).ok).toBe(true);
+      const chain = await ledger.verifyChain();
+      expect(chain.ok && chain.value.valid).toBe(true);
+    });
+
+    it('should answer what was believed before a correction', async () => {
+      const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 5));
+      const claim = await addRole('Engineer');
+      await tick();
+      const beforeCorrection = createTimestamp();
+      await tick();
+      const corrected = await ckg.supersedeClaim(claim.data.id, {
+        subjectId: aliceId,
+        subjectType: 'Person',
+        predicate: 'role',
+        objectValue: 'Staff Engineer',
+        context: { temporal: createTimeInterval(claim.data.context.temporal.start) },
+      });
+      expect(corrected.ok).toBe(true);
+      const validAt = claim.data.context.temporal.start;
+
+      const then = await ckg.getClaimsAsOf(validAt, beforeCorrection);
+      expect(then.ok && then.value.claims.map((c) => c.data.objectValue)).toEqual(['Engineer']);
+      const now = await ckg.getClaimsAsOf(validAt);
+      expect(now.ok && now.value.claims.map((c) => c.data.objectValue)).toEqual(['Staff Engineer']);
+
+      const beforeRecorded = await ckg.queryClaims({ knownAt: (claim.data.createdAt - 1) as Timestamp });
+      expect(beforeRecorded.ok && beforeRecorded.value.claims).toHaveLength(0);
+
+      const traversed = await ckg.traverse(aliceId, {
+        direction: 'outgoing',
+        filterOptions: { knownAt: beforeCorrection },
+      });
+      expect(traversed.ok && traversed.value.map((c) => c.data.objectValue)).toEqual(['Engineer']);
+    });
+  });
+
+  describe('entity revisions', () => {
+    let ledger: ProvenanceLedger;
+
+    async function person(name: string, aliases?: string[]): Promise<Entity> {
+      const result = await ckg.createEntity({ type: 'Person', name, ...(aliases !== undefined ? { aliases } : {}), properties: {} });
+      if (!result.ok) throw result.error;
+      return result.value;
+    }
+
+    beforeEach(async () => {
+      ledger = new ProvenanceLedger(storage);
+      await ledger.initialize();
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger });
+    });
+
+    it('should update an entity and keep its prior version', async () => {
+      const alice = await person('Alice');
+
+      const updated = await ckg.updateEntity(alice.data.id, { name: 'Alice Smith', properties: { team: 'Core' } }, { actor: 'admin' });
+      expect(updated.ok).toBe(true);
+      if (!updated.ok) return;
+      expect(updated.value.data.updatedAt).toBeDefined();
+
+      const found = await ckg.getEntity(alice.data.id);
+      expect(found.ok && found.value?.data.name).toBe('Alice Smith');
+      expect(found.ok && found.value?.data.properties).toEqual({ team: 'Core' });
+
+      const versions = await ckg.getEntityVersions(alice.data.id);
+      expect(versions.ok && versions.value.map((v) => v.data.name)).toEqual(['Alice', 'Alice Smith']);
+    });
+
+    it('should tombstone a deleted entity', async () => {
+      const alice = await person('Alice');
+
+      const deleted = await ckg.deleteEntity(alice.data.id, { reason: 'Test record' });
+      expect(deleted.ok).toBe(true);
+
+      const found = await ckg.getEntity(alice.data.id);
+      expect(found.ok && found.value).toBeNull();
+      const listed = await ckg.findEntitiesByType('Person');
+      expect(listed.ok && listed.value).toHaveLength(0);
+      const versions = await ckg.getEntityVersions(alice.data.id);
+      expect(versions.ok && versions.value.map((v) => v.isDeleted())).toEqual([false, true]);
+
+      const again = await ckg.updateEntity(alice.data.id, { name: 'Alice' });
+      expect(again.ok).toBe(false);
+    });
+
+    it('should not revive an entity deleted while it was being updated', async () => {
+      const alice = await person('Alice');
+
+      const [deleted, updated] = await Promise.all([
+        ckg.deleteEntity(alice.data.id),
+        ckg.updateEntity(alice.data.id, { name: 'Alice Smith' }),
+      ]);
+      expect(deleted.ok).toBe(true);
+      expect(updated.ok).toBe(false);
+
+      const found = await ckg.getEntity(alice.data.id);
+      expect(found.ok && found.value).toBeNull();
+      const verified = await ledger.verifyChain();
+      expect(verified.ok && verified.value.valid).toBe(true);
+    });
+
+    it('should merge duplicates into a survivor', async () => {
+      const alice = await person('Alice', ['A. Smith']);
+      const duplicate = await person('Alice Smith', ['asmith']);
+      const acme = await ckg.createEntity({ type: 'Organization', name: 'Acme', properties: { orgType: 'company' } });
+      if (!acme.ok) throw acme.error;
+      const claim = await ckg.createClaim({
+        subjectId: duplicate.data.id,
+        subjectType: 'Person',
+        predicate: 'belongsTo',
+        objectId: acme.value.data.id,
+        objectType: 'Organization',
+        context: { temporal: createTimeInterval(createTimestamp()) },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!claim.ok) throw claim.error;
+
+      const merged = await ckg.mergeEntities(alice.data.id, [duplicate.data.id], { actor: 'steward' });
+      expect(merged.ok).toBe(true);
+      if (!merged.ok) return;
+      expect(merged.value.claimsRepointed).toBe(1);
+      expect(merged.value.survivor.data.aliases).toEqual(['A. Smith', 'Alice Smith', 'asmith']);
+      expect(merged.value.merged[0]?.data.mergedInto).toBe(alice.data.id);
+
+      const claims = await ckg.getClaimsForSubject(alice.data.id);
+      expect(claims.ok && claims.value.map((c) => c.data.id)).toEqual([claim.value.data.id]);
+
+      const resolved = await ckg.resolveEntity(duplicate.data.id);
+      expect(resolved.ok && resolved.value?.data.id).toBe(alice.data.id);
+      const byAlias = await ckg.resolveEntity('asmith');
+      expect(byAlias.ok && byAlias.value?.data.id).toBe(alice.data.id);
+
+      const entries = await ledger.findByAction('update');
+      expect(entries.ok && entries.value.map((e) => e.data.metadata?.['operation'])).toContain('merge_entities');
+    });
+
+    it('should record no provenance for a rejected entity change', async () => {
+      const loader = new OntologyLoader();
+      loader.register(ontologyV0_1);
+      loader.load(ontologyV0_1.version);
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger, ontologyLoader: loader });
+      const alice = await person('Alice');
+
+      const updated = await ckg.updateEntity(alice.data.id, { properties: { email: 'not an email' } });
+      expect(updated.ok).toBe(false);
+
+      const entries = await ledger.findByAction('update');
+      expect(entries.ok && entries.value).toHaveLength(0);
+    });
+
+    it('should roll back the provenance entry of an entity write that fails', async () => {
+      const alice = await person('Alice');
+      const upsert = vi.spyOn(storage, 'upsert').mockResolvedValueOnce({
+        ok: false,
+        error: new StorageError('Disk full', 'QUERY_FAILED'),
+      });
+
+      const deleted = await ckg.deleteEntity(alice.data.id);
+      expect(deleted.ok).toBe(false);
+      upsert.mockRestore();
+
+      const found = await ckg.getEntity(alice.data.id);
+      expect(found.ok && found.value?.data.name).toBe('Alice');
+      const entries = await ledger.findByAction('update');
+      expect(entries.ok && entries.value).toHaveLength(0);
+
+      // The chain continues from the entries that were committed
+      const updated = await ckg.updateEntity(alice.data.id, { name: 'Alice Smith' });
+      expect(updated.ok).toBe(true);
+      const verified = await ledger.verifyChain();
+      expect(verified.ok && verified.value.valid).toBe(true);
+    });
+
+    it('should reject merging an entity into itself', async () => {
+      const alice = await person('Alice');
+      const merged = await ckg.mergeEntities(alice.data.id, [alice.data.id]);
+      expect(merged.ok).toBe(false);
+    });
+  });
+
+  describe('path finding', () => {
+    let a: EntityId;
+    let b: EntityId;
+    let c: EntityId;
+    let d: EntityId;
+
+    async function person(name: string): Promise<EntityId> {
+      const result = await ckg.createEntity({ type: 'Person', name, properties: {} });
+      if (!result.ok) throw result.error;
+      return result.value.data.id;
+    }
+
+    async function link(subjectId: EntityId, predicate: string, objectId: EntityId, until?: Timestamp): Promise<void> {
+      const start = createTimestamp(new Date('2018-01-01'));
+      const result = await ckg.createClaim({
+        subjectId,
+        predicate,
+        objectId,
+        context: { temporal: createTimeInterval(start, until) },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!result.ok) throw result.error;
+    }
+
+    beforeEach(async () => {
+      a = await person('A');
+      b = await person('B');
+      c = await person('C');
+      d = await person('D');
+      await link(a, 'knows', b);
+      await link(b, 'knows', c);
+      await link(a, 'worksWith', c, createTimestamp(new Date('2020-01-01')));
+      await link(d, 'knows', c);
+    });
+
+    it('should return the k shortest paths as claim sequences', async () => {
+      const paths = await ckg.findPaths(a, c, { k: 3 });
+
+      expect(paths.ok).toBe(true);
+      if (!paths.ok) return;
+      expect(paths.value.map((p) => p.entities)).toEqual([[a, c], [a, b, c]]);
+      expect(paths.value[1]?.claims.map((claim) => claim.data.predicate)).toEqual(['knows', 'knows']);
+    });
+
+    it('should apply the context filter at every hop', async () => {
+      const paths = await ckg.findPaths(a, c, { k: 3, filterOptions: { asOf: createTimestamp() } });
+      expect(paths.ok && paths.value.map((p) => p.entities)).toEqual([[a, b, c]]);
+
+      const knowsOnly = await ckg.findPaths(a, d, { direction: 'both', predicates: ['knows'] });
+      expect(knowsOnly.ok && knowsOnly.value.map((p) => p.entities)).toEqual([[a, b, c, d]]);
+    });
+
+    it('should follow incoming claims past the first hop in both directions', async () => {
+      const traversed = await ckg.traverse(d, { direction: 'both', maxDepth: 3 });
+
+      expect(traversed.ok).toBe(true);
+      if (!traversed.ok) return;
+      expect(traversed.value.some((claim) => claim.data.subjectId === a && claim.data.objectId === b)).toBe(true);
+    });
+
+    it('should collect the neighborhood of an entity', async () => {
+      const subgraph = await ckg.neighborhood(b, 1);
+
+      expect(subgraph.ok).toBe(true);
+      if (!subgraph.ok) return;
+      expect(subgraph.value.entities.map((e) => e.data.name).sort()).toEqual(['A', 'B', 'C']);
+      expect(subgraph.value.claims).toHaveLength(2);
+
+      const wider = await ckg.neighborhood(b, 2, { filterOptions: { asOf: createTimestamp() } });
+      expect(wider.ok && wider.value.entities).toHaveLength(4);
+      expect(wider.ok && wider.value.claims).toHaveLength(3);
+    });
+  });
+
+  describe('text search', () => {
+    async function entity(type: string, name: string, aliases: string[] = []): Promise<EntityId> {
+      const result = await ckg.createEntity({ type, name, aliases, properties: {} });
+      if (!result.ok) throw result.error;
+      return result.value.data.id;
+    }
+
+    it('should find entities by normalized, prefix and misspelled terms', async () => {
+      const acme = await entity('Organization', 'ACME Corporation Ltd.');
+      await entity('Organization', 'Globex');
+      const zurich = await entity('Place', 'Zürich', ['ZRH']);
+
+      const byPrefix = await ckg.search('acme corp');
+      expect(byPrefix.ok && byPrefix.value.map((hit) => hit.entityId)).toEqual([acme]);
+
+      const misspelled = await ckg.search('Acmee');
+      expect(misspelled.ok && misspelled.value[0]?.entityId).toBe(acme);
+
+      const accented = await ckg.search('zurich', { types: ['Place'] });
+      expect(accented.ok && accented.value.map((hit) => hit.entityId)).toEqual([zurich]);
+      const wrongType = await ckg.search('zurich', { types: ['Organization'] });
+      expect(wrongType.ok && wrongType.value).toHaveLength(0);
+    });
+
+    it('should rank claim values with BM25 and filter by predicate', async () => {
+      const alice = await entity('Person', 'Alice');
+      const bob = await entity('Person', 'Bob');
+      for (const [subjectId, value] of [[alice, 'Works on the storage engine'], [bob, 'Storage storage storage']] as const) {
+        const result = await ckg.createClaim({
+          subjectId,
+          subjectType: 'Person',
+          predicate: 'bio',
+          objectValue: value,
+          context: { temporal: createTimeInterval(createTimestamp()) },
+          provenanceId: createProvenanceId('test-prov'),
+        });
+        if (!result.ok) throw result.error;
+      }
+
+      const hits = await ckg.search('storage', { predicates: ['bio'] });
+      expect(hits.ok).toBe(true);
+      if (!hits.ok) return;
+      expect(hits.value.map((hit) => hit.entityId)).toEqual([bob, alice]);
+      expect(hits.value[0]?.predicate).toBe('bio');
+      expect(hits.value[0]?.claimId).toBeDefined();
+
+      const otherPredicate = await ckg.search('storage', { predicates: ['title'] });
+      expect(otherPredicate.ok && otherPredicate.value).toHaveLength(0);
+    });
+
+    it('should keep the index up to date with writes', async () => {
+      const first = await ckg.search('initech');
+      expect(first.ok && first.value).toHaveLength(0);
+
+      const initech = await entity('Organization', 'Initech');
+      const created = await ckg.search('initech');
+      expect(created.ok && created.value.map((hit) => hit.entityId)).toEqual([initech]);
+
+      await ckg.updateEntity(initech, { name: 'Initrode' });
+      const renamed = await ckg.search('initech');
+      expect(renamed.ok && renamed.value).toHaveLength(0);
+
+      await ckg.deleteEntity(initech);
+      const deleted = await ckg.search('initrode');
+      expect(deleted.ok && deleted.value).toHaveLength(0);
+    });
+
+    it('should search graphs on in-memory storage', async () => {
+      const memory = new InMemoryStorage();
+      await memory.initialize();
+      const graph = new CKG({ storage: memory, requireProvenance: false });
+      const created = await graph.createEntity({ type: 'Organization', name: 'ACME Corporation', properties: {} });
+      if (!created.ok) throw created.error;
+
+      const hits = await graph.search('acme');
+      expect(hits.ok && hits.value.map((hit) => hit.entityId)).toEqual([created.value.data.id]);
+    });
+  });
+
+  describe('statistics', () => {
+    let ledger: ProvenanceLedger;
+
+    beforeEach(async () => {
+      ledger = new ProvenanceLedger(storage);
+      await ledger.initialize();
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger });
+
+      const alice = await ckg.createEntity({ type: 'Person', name: 'Alice', properties: {} });
+      const bob = await ckg.createEntity({ type: 'Person', name: 'Bob', properties: {} });
+      const acme = await ckg.createEntity({ type: 'Organization', name: 'Acme', properties: {} });
+      if (!alice.ok || !bob.ok || !acme.ok) throw new Error('setup failed');
+      await ckg.deleteEntity(bob.value.data.id);
+
+      const validFrom = createTimestamp(Date.UTC(2023, 4, 10));
+      for (const [predicate, jurisdiction] of [['worksAt', 'EU'], ['worksAt', 'US'], ['foundedIn', 'EU']] as const) {
+        const result = await ckg.createClaim({
+          subjectId: alice.value.data.id,
+          predicate,
+          objectId: acme.value.data.id,
+          context: { temporal: createTimeInterval(validFrom), jurisdiction },
+          provenanceId: createProvenanceId('test-prov'),
+        });
+        if (!result.ok) throw result.error;
+      }
+    });
+
+    it('should fill type and predicate breakdowns', async () => {
+      const stats = await ckg.getStats();
+      expect(stats.ok).toBe(true);
+      if (!stats.ok) return;
+      expect(stats.value.entityCount).toBe(2);
+      expect(stats.value.claimCount).toBe(3);
+      expect(stats.value.entityTypes).toEqual({ Person: 1, Organization: 1 });
+      expect(stats.value.predicates).toEqual({ worksAt: 2, foundedIn: 1 });
+    });
+
+    it('should count claims by several dimensions and valid time buckets', async () => {
+      const byJurisdiction = await ckg.aggregateClaims(['jurisdiction', 'predicate']);
+      expect(byJurisdiction.ok && byJurisdiction.value).toEqual([
+        { key: { jurisdiction: 'EU', predicate: 'foundedIn' }, count: 1 },
+        { key: { jurisdiction: 'EU', predicate: 'worksAt' }, count: 1 },
+        { key: { jurisdiction: 'US', predicate: 'worksAt' }, count: 1 },
+      ]);
+
+      const byMonth = await ckg.aggregateClaims(['validFrom'], { bucket: 'month' });
+      expect(byMonth.ok && byMonth.value).toEqual([{ key: { validFrom: '2023-05' }, count: 3 }]);
+    });
+
+    it('should count provenance entries by source type', async () => {
+      const bySource = await ckg.aggregateProvenance(['sourceType', 'action']);
+      expect(bySource.ok && bySource.value).toEqual([{ key: { sourceType: 'system', action: 'update' }, count: 1 }]);
+    });
+  });
+
+  describe('temporal diff', () => {
+    const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 5));
+
+    it('should report the claims that started and stopped holding', async () => {
+      const alice = await ckg.createEntity({ type: 'Person', name: 'Alice', properties: {} });
+      const acme = await ckg.createEntity({ type: 'Organization', name: 'Acme', properties: {} });
+      if (!alice.ok || !acme.ok) throw new Error('Failed to create entities');
+      const subject = { subjectId: alice.value.data.id, subjectType: 'Person', provenanceId: createProvenanceId('test-prov') };
+
+      const base = createTimestamp();
+      const later = (base + 1000) as Timestamp;
+      const expiring = await ckg.createClaim({
+        ...subject,
+        predicate: 'title',
+        objectValue: 'Engineer',
+        context: { temporal: createTimeInterval((base - 1000) as Timestamp, later) },
+      });
+      const upcoming = await ckg.createClaim({
+        ...subject,
+        predicate: 'title',
+        objectValue: 'Manager',
+        context: { temporal: createTimeInterval(later) },
+      });
+      const wrong = await ckg.createClaim({
+        ...subject,
+        predicate: 'location',
+        objectValue: 'Berlin',
+        context: { temporal: createTimeInterval(base) },
+      });
+      if (!expiring.ok || !upcoming.ok || !wrong.ok) throw new Error('Failed to create claims');
+
+      await tick();
+      const from = createTimestamp();
+      await tick();
+      const employment = await ckg.createClaim({
+        ...subject,
+        predicate: 'worksAt',
+        objectId: acme.value.data.id,
+        context: { temporal: createTimeInterval(base) },
+      });
+      if (!employment.ok) throw employment.error;
+      await tick();
+      await ckg.retractClaim(wrong.value.data.id, 'Never lived there');
+      const to = (base + 2000) as Timestamp;
+
+      const diff = await ckg.diff(from, to);
+      expect(diff.ok).toBe(true);
+      if (!diff.ok) return;
+      expect(diff.value.added.map((change) => [change.claim.data.id, change.reason])).toEqual([
+        [employment.value.data.id, 'recorded'],
+        [upcoming.value.data.id, 'became_valid'],
+      ]);
+      expect(diff.value.removed.map((change) => [change.claim.data.id, change.reason])).toEqual([
+        [wrong.value.data.id, 'retracted'],
+        [expiring.value.data.id, 'expired'],
+      ]);
+      expect(diff.value.removed[1]?.at).toBe(later);
+      expect(diff.value.recorded.map((claim) => claim.data.id)).toEqual([employment.value.data.id]);
+      expect(diff.value.entityIds).toEqual(expect.arrayContaining([alice.value.data.id, acme.value.data.id]));
+
+      const titles = await ckg.diff(from, to, { predicates: ['title'] });
+      expect(titles.ok && [...titles.value.added, ...titles.value.removed].map((change) => change.claim.data.predicate))
+        .toEqual(['title', 'title']);
+      const aboutAcme = await ckg.diff(from, to, { entityIds: [acme.value.data.id] });
+      expect(aboutAcme.ok && aboutAcme.value.added.map((change) => change.claim.data.id)).toEqual([employment.value.data.id]);
+      expect(aboutAcme.ok && aboutAcme.value.removed).toEqual([]);
+
+      const nothing = await ckg.diff(from, from);
+      expect(nothing.ok && nothing.value.added.length + nothing.value.removed.length).toBe(0);
+    });
+
+    it('should reject a diff that ends before it starts', async () => {
+      const now = createTimestamp();
+      const result = await ckg.diff(now, (now - 1) as Timestamp);
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('claim annotations', () => {
+    let ledger: ProvenanceLedger;
+
+    beforeEach(() => {
+      ledger = new ProvenanceLedger(storage);
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger });
+    });
+
+    it('should store annotations and record them in provenance', async () => {
+      const alice = await ckg.createEntity({ type: 'Person', name: 'Alice', properties: {} });
+      if (!alice.ok) throw alice.error;
+      const claim = await ckg.createClaim({
+        subjectId: alice.value.data.id,
+        subjectType: 'Person',
+        predicate: 'title',
+        objectValue: 'CTO',
+        context: { temporal: createTimeInterval(createTimestamp()) },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!claim.ok) throw claim.error;
+      const claimId = claim.value.data.id;
+
+      const ref = { type: 'document' as const, id: 'filing-2024', uri: 'https://example.com/filing.pdf', span: { start: 0, end: 64 } };
+      const evidence = await ckg.annotateClaim(claimId, { kind: 'evidence', ref, text: '[p. 1] Alice, CTO' });
+      expect(evidence.ok).toBe(true);
+      await ckg.annotateClaim(claimId, { kind: 'dispute', text: 'She left in May', author: 'reviewer-1' });
+
+      const all = await ckg.getAnnotations(claimId);
+      expect(all.ok && all.value.map((annotation) => annotation.data.kind)).toEqual(['evidence', 'dispute']);
+      expect(all.ok && all.value[0]?.data.ref).toEqual(ref);
+      expect(all.ok && all.value[0]?.data.text).toBe('[p. 1] Alice, CTO');
+
+      const byDocument = await ckg.findAnnotations({ uri: 'https://example.com/filing.pdf' });
+      expect(byDocument.ok && byDocument.value.map((annotation) => annotation.data.claimId)).toEqual([claimId]);
+
+      const disputes = await ckg.findAnnotations({ kinds: ['dispute'], author: 'reviewer-1' });
+      expect(disputes.ok && disputes.value).toHaveLength(1);
+      if (!disputes.ok) return;
+      const entry = await ledger.getById(disputes.value[0]!.data.provenanceId);
+      expect(entry.ok && entry.value?.data.actor).toBe('reviewer-1');
+      expect(entry.ok && entry.value?.data.inputRefs).toEqual([{ type: 'claim', id: claimId }]);
+    });
+
+    it('should reject annotations of unknown claims', async () => {
+      const result = await ckg.annotateClaim(createClaimId('missing'), { kind: 'note', text: 'Check this' });
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('truth discovery', () => {
+    let ledger: ProvenanceLedger;
+    let acme: EntityId;
+    let beta: EntityId;
+
+    const assert = async (subjectId: EntityId, predicate: string, objectValue: unknown, sourceId: string) => {
+      const entry = await ledger.record({ sourceType: 'document', sourceId, action: 'create' });
+      if (!entry.ok) throw entry.error;
+      const result = await ckg.createClaim({
+        subjectId,
+        subjectType: 'Organization',
+        predicate,
+        objectValue,
+        context: { temporal: createTimeInterval(createTimestamp()) },
+        provenanceId: entry.value.data.id,
+      });
+      if (!result.ok) throw result.error;
+    };
+
+    beforeEach(async () => {
+      ledger = new ProvenanceLedger(storage);
+      await ledger.initialize();
+      ckg = new CKG({ storage, requireProvenance: false, provenance: ledger });
+
+      const first = await ckg.createEntity({ type: 'Organization', name: 'Acme', properties: {} });
+      const second = await ckg.createEntity({ type: 'Organization', name: 'Beta', properties: {} });
+      if (!first.ok || !second.ok) throw new Error('setup failed');
+      acme = first.value.data.id;
+      beta = second.value.data.id;
+
+      await assert(acme, 'foundedIn', 1999, 'registry');
+      await assert(acme, 'foundedIn', 1999, 'wiki');
+      await assert(acme, 'foundedIn', 2005, 'blog');
+      await assert(beta, 'headcount', 50, 'registry');
+      await assert(beta, 'headcount', 80, 'blog');
+    });
+
+    it('should weigh corroborating and conflicting claims', async () => {
+      const beliefs = await ckg.getBeliefs(acme);
+      expect(beliefs.ok).toBe(true);
+      if (!beliefs.ok) return;
+
+      const [belief] = beliefs.value;
+      expect(belief?.predicate).toBe('foundedIn');
+      expect(belief?.value.objectValue).toBe(1999);
+      expect(belief?.value.support.map((support) => support.source.sourceId).sort()).toEqual(['registry', 'wiki']);
+      // Two sources at the 0.5 prior: noisy-or 0.75, times a 2/3 share of the weight
+      expect(belief?.value.confidence).toBeCloseTo(0.5);
+      expect(belief?.alternatives.map((alternative) => alternative.objectValue)).toEqual([2005]);
+      expect(belief?.alternatives[0]?.confidence).toBeCloseTo(0.5 / 3);
+    });
+
+    it('should learn source reliability from agreement with consensus', async () => {
+      const scores = await ckg.updateSourceReliability();
+      expect(scores.ok).toBe(true);
+      if (!scores.ok) return;
+
+      expect(scores.value.map((score) => score.sourceId)).toEqual(['wiki', 'registry', 'blog']);
+      const blog = scores.value.find((score) => score.sourceId === 'blog');
+      expect(blog?.claimCount).toBe(2);
+      expect(blog?.reliability).toBeLessThan(0.5);
+
+      // A tie under the prior is broken by the more reliable source
+      const beliefs = await ckg.getBeliefs(beta);
+      expect(beliefs.ok && beliefs.value[0]?.value.objectValue).toBe(50);
+
+      const reloaded = new CKG({ storage, requireProvenance: false, provenance: ledger });
+      const stored = await reloaded.getSourceReliability();
+      expect(stored.ok && stored.value).toEqual(scores.value);
+    });
+  });
+
+  describe('similarity search', () => {
+    /** Counts the texts embedded, queries included */
+    class CountingEmbedder extends HashedNgramEmbedder {
+      embedded = 0;
+
+      override async embed(texts: readonly string[]): ReturnType<Embedder['embed']> {
+        this.embedded += texts.length;
+        return super.embed(texts);
+      }
+    }
+
+    let embedder: CountingEmbedder;
+    let graph: CKG;
+
+    beforeEach(() => {
+      embedder = new CountingEmbedder();
+      graph = new CKG({ storage, requireProvenance: false, embedder });
+    });
+
+    async function entity(type: string, name: string): Promise<EntityId> {
+      const result = await graph.createEntity({ type, name, properties: {} });
+      if (!result.ok) throw result.error;
+      return result.value.data.id;
+    }
+
+    it('should embed text deterministically', async () => {
+      const vectors = await new HashedNgramEmbedder({ dimensions: 64 }).embed(['solar panels', 'solar panels', 'tax law']);
+      expect(vectors.ok).toBe(true);
+      if (!vectors.ok) return;
+      const [a, b, c] = vectors.value;
+      expect(a).toHaveLength(64);
+      expect(a).toEqual(b);
+      expect(a).not.toEqual(c);
+    });
+
+    it('should find most true nearest neighbours in the HNSW index', async () => {
+      let seed = 42;
+      const random = (): number => {
+        seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+        return seed / 0x100000000 - 0.5;
+      };
+      const vector = (): number[] => normalizeVector(Array.from({ length: 16 }, random));
+
+      const index = new VectorIndex(storage, 'test', { m: 8 });
+      const initialized = await index.initialize();
+      expect(initialized.ok).toBe(true);
+      const vectors = new Map<string, number[]>();
+      for (let i = 0; i < 300; i++) {
+        const v = vector();
+        vectors.set(`v${i}`, v);
+        await index.upsert('entity', `v${i}`, v, String(i));
+      }
+
+      let found = 0;
+      for (let q = 0; q < 20; q++) {
+        const query = vector();
+        const exact = [...vectors]
+          .map(([id, v]) => ({ id, score: v.reduce((sum, x, i) => sum + x * query[i]!, 0) }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, 10)
+          .map(({ id }) => id);
+        const approximate = index.search(query, 10).map((match) => match.targetId);
+        found += approximate.filter((id) => exact.includes(id)).length;
+      }
+      expect(found / 200).toBeGreaterThan(0.9);
+
+      // The graph is reloaded from storage as it was
+      const reloaded = new VectorIndex(storage, 'test', { m: 8 });
+      await reloaded.initialize();
+      const query = vector();
+      expect(reloaded.search(query, 5)).toEqual(index.search(query, 5));
+    });
+
+    it('should find entities and claims similar to a text or an entity', async () => {
+      const solar = await entity('Organization', 'Sunrise Solar Panels');
+      const solarCo = await entity('Organization', 'Solar Panel Installers');
+      await entity('Organization', 'Tax Law Partners');
+      const claim = await graph.createClaim({
+        subjectId: solar,
+        subjectType: 'Organization',
+        predicate: 'product',
+        objectValue: 'photovoltaic solar panels',
+        context: { temporal: createTimeInterval(createTimestamp()), jurisdiction: 'EU' },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!claim.ok) throw claim.error;
+
+      const byText = await graph.similar('solar panels', 3);
+      expect(byText.ok).toBe(true);
+      if (!byText.ok) return;
+      expect(byText.value).toHaveLength(3);
+      expect(byText.value.map((match) => match.kind === 'entity' ? match.entity.data.id : match.claim.data.id))
+        .toEqual(expect.arrayContaining([solar, solarCo, claim.value.data.id]));
+      expect(byText.value[0]!.score).toBeGreaterThanOrEqual(byText.value[2]!.score);
+
+      const byEntity = await graph.similar(solar, 1, { jurisdiction: 'US' });
+      expect(byEntity.ok && byEntity.value.map((match) => match.kind === 'entity' && match.entity.data.id))
+        .toEqual([solarCo]);
+    });
+
+    it('should keep vectors in storage and up to date with writes', async () => {
+      const solar = await entity('Organization', 'Sunrise Solar');
+      await entity('Organization', 'Tax Law Partners');
+      const first = await graph.similar('solar', 1);
+      expect(first.ok && first.value[0]?.kind === 'entity' && first.value[0].entity.data.id).toBe(solar);
+      expect(embedder.embedded).toBe(3);
+
+      await graph.deleteEntity(solar);
+      const afterDelete = await graph.similar('solar', 2);
+      expect(afterDelete.ok && afterDelete.value.map((match) => match.kind === 'entity' && match.entity.data.name))
+        .toEqual(['Tax Law Partners']);
+
+      // Another graph over the same storage only embeds its queries
+      const reopened = new CountingEmbedder();
+      const other = new CKG({ storage, requireProvenance: false, embedder: reopened });
+      const again = await other.similar('tax law', 1);
+      expect(again.ok && again.value).toHaveLength(1);
+      expect(reopened.embedded).toBe(1);
+    });
+
+    it('should require an embedder', async () => {
+      const result = await ckg.similar('anything');
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('pattern queries', () => {
+    async function entity(type: string, name: string, properties: Record<string, unknown> = {}): Promise<EntityId> {
+      const result = await ckg.createEntity({ type, name, properties });
+      if (!result.ok) throw result.error;
+      return result.value.data.id;
+    }
+
+    async function claim(
+      subjectId: EntityId,
+      predicate: string,
+      object: { objectId: EntityId } | { objectValue: unknown },
+      context: Partial<ContextDimensions> = {}
+    ): Promise<void> {
+      const result = await ckg.createClaim({
+        subjectId,
+        predicate,
+        ...object,
+        context: { temporal: createTimeInterval(createTimestamp()), ...context },
+        provenanceId: createProvenanceId('test-prov'),
+      });
+      if (!result.ok) throw result.error;
+    }
+
+    let acme: EntityId;
+    let globex: EntityId;
+
+    beforeEach(async () => {
+      const alice = await entity('Person', 'Alice');
+      const bob = await entity('Person', 'Bob');
+      acme = await entity('Organization', 'Acme', { orgType: 'company' });
+      globex = await entity('Organization', 'Globex', { orgType: 'company' });
+
+      await claim(alice, 'supplies', { objectId: acme });
+      await claim(bob, 'supplies', { objectId: acme });
+      await claim(bob, 'supplies', { objectId: globex });
+      await claim(acme, 'risk_score', { objectValue: 0.9 }, { jurisdiction: 'EU' });
+      await claim(globex, 'risk_score', { objectValue: 0.4 }, { jurisdiction: 'US' });
+      await claim(acme, 'sector', { objectValue: 'energy' });
+    });
+
+    it('should parse queries and report syntax errors with their position', () => {
+      const query = parsePatternQuery('MATCH ?a supplies ?b OPTIONAL ?b sector ?s RETURN ?a, COUNT(*) ORDER BY ?a DESC LIMIT 5');
+      expect(query.patterns.map((p) => p.optional)).toEqual([false, true]);
+      expect(query.returns?.map((r) => r.alias)).toEqual(['a', 'count']);
+      expect(query.orderBy).toEqual([{ column: 'a', direction: 'desc' }]);
+      expect(query.limit).toBe(5);
+
+      expect(() => parsePatternQuery('MATCH ?a supplies')).toThrow(/at position 17/);
+    });
+
+    it('should join patterns on shared variables and filter on values and context', async () => {
+      const result = await ckg.query(`
+        MATCH ?supplier supplies ?vendor, ?vendor risk_score ?risk AS ?c
+        WHERE ?risk > 0.5 AND ?c.jurisdiction = "EU"
+        RETURN ?supplier.name AS supplier, ?vendor.name AS vendor, ?risk
+        ORDER BY supplier
+      `);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.columns).toEqual(['supplier', 'vendor', 'risk']);
+      expect(result.value.rows).toEqual([
+        { supplier: 'Alice', vendor: 'Acme', risk: 0.9 },
+        { supplier: 'Bob', vendor: 'Acme', risk: 0.9 },
+      ]);
+    });
+
+    it('should keep rows without a match for optional patterns', async () => {
+      const result = await ckg.query(`
+        MATCH ?vendor risk_score ?risk
+        OPTIONAL ?vendor sector ?sector
+        RETURN ?vendor.name AS vendor, ?sector
+        ORDER BY vendor
+      `);
+
+      expect(result.ok && result.value.rows).toEqual([
+        { vendor: 'Acme', sector: 'energy' },
+        { vendor: 'Globex', sector: undefined },
+      ]);
+    });
+
+    it('should aggregate, order and limit', async () => {
+      const result = await ckg.query(`
+        MATCH ?supplier supplies ?vendor
+        RETURN ?vendor.name AS vendor, COUNT(?supplier) AS suppliers
+        ORDER BY suppliers DESC
+        LIMIT 1
+      `);
+
+      expect(result.ok && result.value.rows).toEqual([{ vendor: 'Acme', suppliers: 2 }]);
+    });
+
+    it('should apply context filter options', async () => {
+      const result = await ckg.query('MATCH ?vendor risk_score ?risk RETURN ?vendor', { jurisdiction: 'US' });
+      expect(result.ok && result.value.rows).toEqual([{ vendor: globex }]);
+    });
+
+    it('should plan lookups through the most selective index', () => {
+      const plan = ckg.explainQuery(`MATCH ?supplier supplies ?vendor, <${acme}> risk_score ?risk WHERE ?risk > 0.5`);
+
+      expect(plan.ok).toBe(true);
+      if (!plan.ok) return;
+      expect(plan.value.steps.map((s) => s.access)).toEqual(['subject', 'predicate']);
+      expect(plan.value.steps[0]?.filters).toHaveLength(1);
+      expect(plan.value.filters).toHaveLength(0);
+    });
+
+    it('should reject variables no pattern binds', async () => {
+      const result = await ckg.query('MATCH ?a supplies ?b RETURN ?c');
+      expect(result.ok).toBe(false);
+    });
+  });
 });
@@ -5,7 +5,85 @@
  * Provides claims with contextual qualifiers and entity management.
  */
 
-export { Entity, type EntityData, EntityRepository } from './entity.js';
-export { Claim, type ClaimData, ClaimRepository } from './claim.js';
+export { Entity, type EntityData, type EntityRecord, type EntityUpdate, EntityRepository } from './entity.js';
+export { Claim, type ClaimData, type ClaimRecord, type ClaimStatus, type NewClaimInput, ClaimRepository } from './claim.js';
+export {
+  Annotation,
+  AnnotationRepository,
+  type AnnotationData,
+  type AnnotationKind,
+  type AnnotationQuery,
+  type NewAnnotationInput,
+} from './annotation.js';
 export { ContextFilter, type ContextFilterOptions, type FilteredClaimSet } from './context-filter.js';
-export { CKG, type CKGOptions } from './ckg.js';
+export {
+  diffClaims,
+  holdsAt,
+  type DiffOptions,
+  type GraphDiff,
+  type ClaimChange,
+  type ClaimChangeReason,
+} from './diff.js';
+export {
+  parsePatternQuery,
+  type PatternQuery,
+  type TriplePattern,
+  type QueryTerm,
+  type QueryLiteral,
+  type QueryOperand,
+  type QueryExpression,
+  type ComparisonOperator,
+  type AggregateFunction,
+  type ReturnItem,
+  type OrderItem,
+} from './query-language.js';
+export { TextIndex, tokenize, type SearchOptions, type SearchHit } from './text-index.js';
+export {
+  HashedNgramEmbedder,
+  normalizeVector,
+  type Embedder,
+  type HashedNgramEmbedderOptions,
+} from './embedding.js';
+export {
+  VectorIndex,
+  type VectorIndexOptions,
+  type VectorMatch,
+  type VectorTargetKind,
+} from './vector-index.js';
+export {
+  TruthDiscovery,
+  sourceKey,
+  type TruthDiscoveryOptions,
+  type ClaimSource,
+  type Evidence,
+  type SourceReliability,
+  type Belief,
+  type BeliefValue,
+  type BeliefSupport,
+} from './truth-discovery.js';
+export { ckgMigrations } from './migrations.js';
+export {
+  PatternQueryEngine,
+  type PatternAccess,
+  type QueryPlan,
+  type QueryPlanStep,
+  type PatternQueryResult,
+} from './query-engine.js';
+export {
+  CKG,
+  type CKGOptions,
+  type ClaimRevisionOptions,
+  type EntityRevisionOptions,
+  type EntityMergeResult,
+  type TraversalDirection,
+  type PathOptions,
+  type GraphPath,
+  type NeighborhoodOptions,
+  type Subgraph,
+  type SimilarityMatch,
+  type EntityDimension,
+  type ClaimDimension,
+  type ProvenanceDimension,
+  type AggregationOptions,
+  type GraphStats,
+} from './ckg.js';
@@ -0,0 +1,84 @@
+/**
+ * CKG storage migrations
+ *
+ * Entities and claims are part of the core schema; this package owns the
+ * collections of its derived indexes, scores and claim annotations.
+ * Registered with the storage backend by each of them before first use.
+ */
+
+import type { Migration } from '@contextgraph/storage';
+
+export const ckgMigrations: readonly Migration[] = [
+  {
+    module: 'ckg',
+    version: 1,
+    name: 'create_embeddings_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS embeddings (
+        id TEXT PRIMARY KEY,
+        embedder TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        targetId TEXT NOT NULL,
+        vector TEXT NOT NULL,
+        textHash TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        neighbors TEXT NOT NULL,
+        deletedAt INTEGER,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_embeddings_embedder ON embeddings(embedder);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_embeddings_embedder;
+      DROP TABLE IF EXISTS embeddings;
+    `,
+  },
+  {
+    module: 'ckg',
+    version: 2,
+    name: 'create_source_reliability_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS source_reliability (
+        id TEXT PRIMARY KEY,
+        sourceType TEXT NOT NULL,
+        sourceId TEXT,
+        reliability REAL NOT NULL,
+        claimCount INTEGER NOT NULL,
+        updatedAt INTEGER NOT NULL,
+        createdAt INTEGER NOT NULL
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS source_reliability;
+    `,
+  },
+  {
+    module: 'ckg',
+    version: 3,
+    name: 'create_claim_annotations_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS claim_annotations (
+        id TEXT PRIMARY KEY,
+        claimId TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        refType TEXT,
+        refId TEXT,
+        uri TEXT,
+        spanStart INTEGER,
+        spanEnd INTEGER,
+        text TEXT,
+        qualifiers TEXT NOT NULL,
+        author TEXT,
+        provenanceId TEXT NOT NULL,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_claim_annotations_claimId ON claim_annotations(claimId);
+      CREATE INDEX IF NOT EXISTS idx_claim_annotations_uri ON claim_annotations(uri);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_claim_annotations_uri;
+      DROP INDEX IF EXISTS idx_claim_annotations_claimId;
+      DROP TABLE IF EXISTS claim_annotations;
+    `,
+  },
+];
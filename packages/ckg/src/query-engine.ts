@@ -0,0 +1,663 @@
+/**
+ * Pattern Query Planning and Execution
+ *
+ * The planner orders the triple patterns of a query so each is looked up
+ * through the most selective claim index once earlier patterns have bound
+ * its variables: by subject, then by object, then by predicate, and only
+ * otherwise by scanning. Each WHERE condition is checked as soon as the
+ * patterns binding its variables have matched; optional patterns run last,
+ * in the order written. Execution is a nested-loop join over bindings.
+ */
+
+import { type EntityId, type Result, ok, err, ValidationError } from '@contextgraph/core';
+import { type QueryCriteria } from '@contextgraph/storage';
+import { type Claim, type ClaimRepository } from './claim.js';
+import { type Entity, type EntityRepository } from './entity.js';
+import { type ContextFilter, type ContextFilterOptions } from './context-filter.js';
+import {
+  type PatternQuery,
+  type QueryExpression,
+  type QueryOperand,
+  type QueryTerm,
+  type ReturnItem,
+  type TriplePattern,
+} from './query-language.js';
+
+/**
+ * Index used to look up the claims matching a pattern
+ */
+export type PatternAccess = 'subject' | 'object' | 'predicate' | 'scan';
+
+/**
+ * One pattern of a query plan
+ */
+export interface QueryPlanStep {
+  readonly pattern: TriplePattern;
+  readonly access: PatternAccess;
+  /** WHERE conditions checked once this pattern has matched */
+  readonly filters: readonly QueryExpression[];
+}
+
+/**
+ * Order in which a query's patterns are matched
+ */
+export interface QueryPlan {
+  readonly steps: readonly QueryPlanStep[];
+  /** WHERE conditions checked after every pattern, optional ones included */
+  readonly filters: readonly QueryExpression[];
+}
+
+/**
+ * Rows returned by a pattern query
+ */
+export interface PatternQueryResult {
+  readonly columns: readonly string[];
+  readonly rows: readonly Readonly<Record<string, unknown>>[];
+}
+
+/**
+ * Value bound to a query variable
+ */
+type Bound =
+  | { readonly kind: 'entity'; readonly id: EntityId }
+  | { readonly kind: 'value'; readonly value: unknown }
+  | { readonly kind: 'claim'; readonly claim: Claim };
+
+type Binding = ReadonlyMap<string, Bound>;
+
+const ACCESS_RANK: Readonly<Record<PatternAccess, number>> = { subject: 3, object: 2, predicate: 1, scan: 0 };
+
+function invalidQuery(message: string): ValidationError {
+  return new ValidationError(message, 'query', 'QUERY_INVALID');
+}
+
+/**
+ * Plans and runs pattern queries against the claim and entity repositories
+ */
+export class PatternQueryEngine {
+  constructor(
+    private readonly claims: ClaimRepository,
+    private readonly entities: EntityRepository,
+    private readonly contextFilter: ContextFilter
+  ) {}
+
+  /**
+   * Order the patterns of a query and place its WHERE conditions
+   */
+  plan(query: PatternQuery): Result<QueryPlan, ValidationError> {
+    const declared = new Set(query.patterns.flatMap((pattern) => patternVariables(pattern)));
+    const referenced = [
+      ...(query.where !== undefined ? expressionVariables(query.where) : []),
+      ...(query.returns ?? []).flatMap((item) => returnVariables(item)),
+    ];
+    const unknown = referenced.find((name) => !declared.has(name));
+    if (unknown !== undefined) {
+      return err(invalidQuery(`Variable ?${unknown} is not bound by any pattern`));
+    }
+
+    const bound = new Set<string>();
+    const pending = query.patterns.filter((pattern) => !pattern.optional);
+    let conditions = query.where !== undefined ? conjuncts(query.where) : [];
+    const steps: QueryPlanStep[] = [];
+
+    while (pending.length > 0) {
+      let best = 0;
+      for (let i = 1; i < pending.length; i++) {
+        if (ACCESS_RANK[accessFor(pending[i]!, bound)] > ACCESS_RANK[accessFor(pending[best]!, bound)]) {
+          best = i;
+        }
+      }
+      const [pattern] = pending.splice(best, 1);
+      const access = accessFor(pattern!, bound);
+      for (const name of patternVariables(pattern!)) {
+        bound.add(name);
+      }
+
+      const ready = conditions.filter((condition) => expressionVariables(condition).every((name) => bound.has(name)));
+      conditions = conditions.filter((condition) => !ready.includes(condition));
+      steps.push({ pattern: pattern!, access, filters: ready });
+    }
+
+    for (const pattern of query.patterns.filter((p) => p.optional)) {
+      steps.push({ pattern, access: accessFor(pattern, bound), filters: [] });
+      for (const name of patternVariables(pattern)) {
+        bound.add(name);
+      }
+    }
+
+    return ok({ steps, filters: conditions });
+  }
+
+  /**
+   * Run a query; only claims passing the context filter are matched
+   */
+  async execute(
+    query: PatternQuery,
+    filterOptions: ContextFilterOptions = {}
+  ): Promise<Result<PatternQueryResult, Error>> {
+    const planResult = this.plan(query);
+    if (!planResult.ok) {
+      return planResult;
+    }
+    const plan = planResult.value;
+
+    const columns = query.returns?.map((item) => item.alias) ?? [
+      ...new Set(query.patterns.flatMap((pattern) => patternVariables(pattern))),
+    ];
+    const missing = query.orderBy.find((item) => !columns.includes(item.column));
+    if (missing !== undefined) {
+      return err(invalidQuery(`ORDER BY column ${missing.column} is not returned`));
+    }
+
+    const run = new QueryRun(this.claims, this.entities, this.contextFilter, filterOptions);
+    try {
+      let bindings: Binding[] = [new Map()];
+      for (const step of plan.steps) {
+        bindings = await run.match(step, bindings);
+      }
+      bindings = await run.where(bindings, plan.filters);
+
+      let rows = query.returns !== undefined
+        ? await run.project(bindings, query.returns)
+        : await run.project(
+          bindings,
+          columns.map((name) => ({ expression: { kind: 'variable', name, path: [] }, alias: name }))
+        );
+
+      if (query.orderBy.length > 0) {
+        rows = [...rows].sort((a, b) => {
+          for (const item of query.orderBy) {
+            const order = compareForSort(a[item.column], b[item.column]);
+            if (order !== 0) {
+              return item.direction === 'desc' ? -order : order;
+            }
+          }
+          return 0;
+        });
+      }
+
+      const offset = query.offset ?? 0;
+      rows = rows.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+      return ok({ columns, rows });
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
+/**
+ * State of one query execution: lookups and entities are cached for its duration
+ */
+class QueryRun {
+  private readonly lookups = new Map<string, readonly Claim[]>();
+  private readonly loaded = new Map<EntityId, Entity | null>();
+
+  constructor(
+    private readonly claims: ClaimRepository,
+    private readonly entities: EntityRepository,
+    private readonly contextFilter: ContextFilter,
+    private readonly filterOptions: ContextFilterOptions
+  ) {}
+
+  /**
+   * Extend each binding with the claims matching a pattern
+   */
+  async match(step: QueryPlanStep, bindings: readonly Binding[]): Promise<Binding[]> {
+    const result: Binding[] = [];
+    for (const binding of bindings) {
+      const criteria = lookupCriteria(step.pattern, binding);
+      const matches: Binding[] = [];
+      if (criteria !== null) {
+        for (const claim of await this.lookup(criteria)) {
+          const extended = unify(step.pattern, claim, binding);
+          if (extended !== null) {
+            matches.push(extended);
+          }
+        }
+      }
+
+      const kept = await this.where(matches, step.filters);
+      if (kept.length === 0 && step.pattern.optional) {
+        result.push(binding);
+      } else {
+        result.push(...kept);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Keep the bindings satisfying every condition
+   */
+  async where(bindings: readonly Binding[], conditions: readonly QueryExpression[]): Promise<Binding[]> {
+    if (conditions.length === 0) {
+      return [...bindings];
+    }
+    const result: Binding[] = [];
+    for (const binding of bindings) {
+      let passes = true;
+      for (const condition of conditions) {
+        if (!(await this.evaluate(condition, binding))) {
+          passes = false;
+          break;
+        }
+      }
+      if (passes) {
+        result.push(binding);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Turn bindings into rows, grouping them when the items contain aggregates
+   */
+  async project(
+    bindings: readonly Binding[],
+    items: readonly ReturnItem[]
+  ): Promise<Record<string, unknown>[]> {
+    const aggregated = items.some((item) => item.expression.kind === 'aggregate');
+    if (!aggregated) {
+      const rows: Record<string, unknown>[] = [];
+      for (const binding of bindings) {
+        const row: Record<string, unknown> = {};
+        for (const item of items) {
+          row[item.alias] = await this.resolve(item.expression as QueryOperand, binding);
+        }
+        rows.push(row);
+      }
+      return rows;
+    }
+
+    const groups = new Map<string, { keys: Record<string, unknown>; members: Binding[] }>();
+    for (const binding of bindings) {
+      const keys: Record<string, unknown> = {};
+      for (const item of items) {
+        if (item.expression.kind !== 'aggregate') {
+          keys[item.alias] = await this.resolve(item.expression, binding);
+        }
+      }
+      const key = JSON.stringify(Object.values(keys));
+      const group = groups.get(key) ?? { keys, members: [] };
+      group.members.push(binding);
+      groups.set(key, group);
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    for (const group of groups.values()) {
+      const row: Record<string, unknown> = {};
+      for (const item of items) {
+        const expression = item.expression;
+        if (expression.kind !== 'aggregate') {
+          row[item.alias] = group.keys[item.alias];
+          continue;
+        }
+        const values: unknown[] = [];
+        for (const member of group.members) {
+          values.push(expression.argument === null ? true : await this.resolve(expression.argument, member));
+        }
+        row[item.alias] = aggregate(expression.fn, values.filter((value) => value !== undefined && value !== null));
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  private async lookup(criteria: QueryCriteria): Promise<readonly Claim[]> {
+    const key = JSON.stringify(criteria);
+    const cached = this.lookups.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const claims: Claim[] = [];
+    for await (const claim of this.claims.stream(criteria)) {
+      if (this.contextFilter.matches(claim, this.filterOptions)) {
+        claims.push(claim);
+      }
+    }
+    this.lookups.set(key, claims);
+    return claims;
+  }
+
+  private async evaluate(expression: QueryExpression, binding: Binding): Promise<boolean> {
+    switch (expression.kind) {
+      case 'and':
+        return (await this.evaluate(expression.left, binding)) && this.evaluate(expression.right, binding);
+      case 'or':
+        return (await this.evaluate(expression.left, binding)) || this.evaluate(expression.right, binding);
+      case 'not':
+        return !(await this.evaluate(expression.operand, binding));
+      case 'null': {
+        const value = await this.resolve(expression.operand, binding);
+        return (value === undefined || value === null) !== expression.negated;
+      }
+      case 'in': {
+        const value = await this.resolve(expression.operand, binding);
+        for (const candidate of expression.values) {
+          if (valuesEqual(value, await this.resolve(candidate, binding))) {
+            return true;
+          }
+        }
+        return false;
+      }
+      case 'compare': {
+        const left = await this.resolve(expression.left, binding);
+        const right = await this.resolve(expression.right, binding);
+        if (left === undefined || left === null || right === undefined || right === null) {
+          return false;
+        }
+        switch (expression.op) {
+          case '=':
+            return valuesEqual(left, right);
+          case '!=':
+            return !valuesEqual(left, right);
+          case 'contains':
+            if (typeof left === 'string' && typeof right === 'string') {
+              return left.includes(right);
+            }
+            return Array.isArray(left) && left.some((item) => valuesEqual(item, right));
+          default: {
+            const order = compareValues(left, right);
+            if (order === null) return false;
+            return expression.op === '<' ? order < 0
+              : expression.op === '<=' ? order <= 0
+                : expression.op === '>' ? order > 0
+                  : order >= 0;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Value of an operand: a constant, or a bound variable and its property path
+   */
+  private async resolve(operand: QueryOperand, binding: Binding): Promise<unknown> {
+    if (operand.kind === 'literal') return operand.value;
+    if (operand.kind === 'entity') return operand.id;
+
+    const bound = binding.get(operand.name);
+    if (bound === undefined) return undefined;
+    const [head, ...rest] = operand.path;
+
+    switch (bound.kind) {
+      case 'value':
+        return readPath(bound.value, operand.path);
+      case 'claim':
+        return head === undefined ? bound.claim.data.id : readPath(claimProperty(bound.claim, head), rest);
+      case 'entity': {
+        if (head === undefined) return bound.id;
+        if (head === 'id') return readPath(bound.id, rest);
+        const entity = await this.entity(bound.id);
+        return entity === null ? undefined : readPath(entityProperty(entity, head), rest);
+      }
+    }
+  }
+
+  private async entity(id: EntityId): Promise<Entity | null> {
+    if (!this.loaded.has(id)) {
+      const result = await this.entities.findById(id);
+      if (!result.ok) {
+        throw result.error;
+      }
+      this.loaded.set(id, result.value);
+    }
+    return this.loaded.get(id) ?? null;
+  }
+}
+
+// ============================================================================
+// Planning helpers
+// ============================================================================
+
+function termVariable(term: QueryTerm): string | undefined {
+  return term.kind === 'variable' ? term.name : undefined;
+}
+
+function patternVariables(pattern: TriplePattern): string[] {
+  return [
+    termVariable(pattern.subject),
+    termVariable(pattern.predicate),
+    termVariable(pattern.object),
+    pattern.claim,
+  ].filter((name): name is string => name !== undefined);
+}
+
+function isBound(term: QueryTerm, bound: ReadonlySet<string>): boolean {
+  return term.kind !== 'variable' || bound.has(term.name);
+}
+
+function accessFor(pattern: TriplePattern, bound: ReadonlySet<string>): PatternAccess {
+  if (isBound(pattern.subject, bound)) return 'subject';
+  if (isBound(pattern.object, bound)) return pattern.object.kind === 'literal' ? 'predicate' : 'object';
+  if (isBound(pattern.predicate, bound)) return 'predicate';
+  return 'scan';
+}
+
+function conjuncts(expression: QueryExpression): QueryExpression[] {
+  return expression.kind === 'and' ? [...conjuncts(expression.left), ...conjuncts(expression.right)] : [expression];
+}
+
+function operandVariables(operand: QueryOperand): string[] {
+  return operand.kind === 'variable' ? [operand.name] : [];
+}
+
+function expressionVariables(expression: QueryExpression): string[] {
+  switch (expression.kind) {
+    case 'and':
+    case 'or':
+      return [...expressionVariables(expression.left), ...expressionVariables(expression.right)];
+    case 'not':
+      return expressionVariables(expression.operand);
+    case 'null':
+      return operandVariables(expression.operand);
+    case 'in':
+      return [expression.operand, ...expression.values].flatMap(operandVariables);
+    case 'compare':
+      return [...operandVariables(expression.left), ...operandVariables(expression.right)];
+  }
+}
+
+function returnVariables(item: ReturnItem): string[] {
+  const expression = item.expression;
+  if (expression.kind === 'aggregate') {
+    return expression.argument !== null ? operandVariables(expression.argument) : [];
+  }
+  return operandVariables(expression);
+}
+
+// ============================================================================
+// Matching helpers
+// ============================================================================
+
+/**
+ * Storage criteria for the claims that can match a pattern under a binding,
+ * or null when the binding rules every claim out
+ */
+function lookupCriteria(pattern: TriplePattern, binding: Binding): QueryCriteria | null {
+  const criteria: Record<string, unknown> = {};
+
+  const subject = valueOf(pattern.subject, binding);
+  if (subject !== undefined) {
+    if (subject.kind !== 'entity') return null;
+    criteria['subjectId'] = subject.id;
+  }
+
+  const predicate = valueOf(pattern.predicate, binding);
+  if (predicate !== undefined) {
+    if (predicate.kind !== 'value' || typeof predicate.value !== 'string') return null;
+    criteria['predicate'] = predicate.value;
+  }
+
+  const object = valueOf(pattern.object, binding);
+  if (object?.kind === 'entity') {
+    criteria['objectId'] = object.id;
+  } else if (object?.kind === 'value' && object.value !== null && object.value !== undefined) {
+    // Values are stored as JSON text
+    criteria['objectValue'] = JSON.stringify(object.value);
+  } else if (object?.kind === 'claim') {
+    return null;
+  }
+
+  if (pattern.claim !== undefined) {
+    const claim = binding.get(pattern.claim);
+    if (claim !== undefined) {
+      if (claim.kind !== 'claim') return null;
+      criteria['id'] = claim.claim.data.id;
+    }
+  }
+
+  return criteria;
+}
+
+function valueOf(term: QueryTerm, binding: Binding): Bound | undefined {
+  switch (term.kind) {
+    case 'variable':
+      return binding.get(term.name);
+    case 'entity':
+      return { kind: 'entity', id: term.id };
+    case 'literal':
+      return { kind: 'value', value: term.value };
+  }
+}
+
+/**
+ * Extend a binding with a claim matching a pattern, or null when it does not match
+ */
+function unify(pattern: TriplePattern, claim: Claim, binding: Binding): Binding | null {
+  const extended = new Map(binding);
+  const { subjectId, predicate, objectId, objectValue } = claim.data;
+  const pairs: [QueryTerm, Bound][] = [
+    [pattern.subject, { kind: 'entity', id: subjectId }],
+    [pattern.predicate, { kind: 'value', value: predicate }],
+    [pattern.object, objectId !== undefined ? { kind: 'entity', id: objectId } : { kind: 'value', value: objectValue }],
+  ];
+  if (pattern.claim !== undefined) {
+    pairs.push([{ kind: 'variable', name: pattern.claim }, { kind: 'claim', claim }]);
+  }
+
+  for (const [term, actual] of pairs) {
+    const expected = valueOf(term, extended);
+    if (expected === undefined) {
+      extended.set((term as { name: string }).name, actual);
+    } else if (!sameBound(expected, actual)) {
+      return null;
+    }
+  }
+  return extended;
+}
+
+function sameBound(a: Bound, b: Bound): boolean {
+  if (a.kind === 'entity' && b.kind === 'entity') return a.id === b.id;
+  if (a.kind === 'value' && b.kind === 'value') return valuesEqual(a.value, b.value);
+  if (a.kind === 'claim' && b.kind === 'claim') return a.claim.data.id === b.claim.data.id;
+  return false;
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function claimProperty(claim: Claim, name: string): unknown {
+  const data = claim.data;
+  const context = data.context as unknown as Record<string, unknown>;
+  switch (name) {
+    case 'id':
+    case 'predicate':
+    case 'subjectId':
+    case 'objectId':
+    case 'objectValue':
+    case 'status':
+    case 'createdAt':
+    case 'provenanceId':
+      return data[name];
+    case 'subject':
+      return data.subjectId;
+    case 'object':
+      return data.objectId ?? data.objectValue;
+    case 'value':
+      return data.objectValue;
+    case 'validFrom':
+      return data.context.temporal.start;
+    case 'validTo':
+      return data.context.temporal.end;
+    default:
+      return context[name];
+  }
+}
+
+function entityProperty(entity: Entity, name: string): unknown {
+  const data = entity.data;
+  switch (name) {
+    case 'type':
+    case 'name':
+    case 'aliases':
+    case 'createdAt':
+    case 'updatedAt':
+    case 'properties':
+      return data[name];
+    default:
+      return data.properties[name];
+  }
+}
+
+function readPath(value: unknown, path: readonly string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Order two values of the same primitive type, or null when they are not comparable
+ */
+function compareValues(a: unknown, b: unknown): number | null {
+  if ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string')) {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Order values for ORDER BY: comparable values by value, missing values last
+ */
+function compareForSort(a: unknown, b: unknown): number {
+  const missingA = a === undefined || a === null;
+  const missingB = b === undefined || b === null;
+  if (missingA || missingB) {
+    return missingA === missingB ? 0 : missingA ? 1 : -1;
+  }
+  return compareValues(a, b) ?? String(a).localeCompare(String(b));
+}
+
+function aggregate(fn: 'count' | 'sum' | 'avg' | 'min' | 'max', values: readonly unknown[]): unknown {
+  if (fn === 'count') {
+    return values.length;
+  }
+  if (fn === 'sum' || fn === 'avg') {
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    return fn === 'sum' ? sum : numbers.length > 0 ? sum / numbers.length : null;
+  }
+
+  let best: unknown = null;
+  for (const value of values) {
+    const order = best === null ? null : compareValues(value, best);
+    if (best === null || (order !== null && (fn === 'min' ? order < 0 : order > 0))) {
+      best = value;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,567 @@
+/**
+ * Graph Pattern Query Language
+ *
+ * A small declarative language for multi-hop questions over claims.
+ * Each triple pattern matches claims by subject, predicate and object;
+ * variables (`?name`) shared between patterns join them.
+ *
+ * ```
+ * MATCH ?supplier supplies ?vendor,
+ *       ?vendor risk_score ?risk AS ?claim
+ * OPTIONAL ?vendor name ?name
+ * WHERE ?risk > 0.7 AND ?claim.jurisdiction = "EU"
+ * RETURN ?vendor, ?name, COUNT(?supplier) AS suppliers, MAX(?risk) AS risk
+ * ORDER BY risk DESC
+ * LIMIT 10
+ * ```
+ *
+ * - Subjects are variables or entity IDs in angle brackets (`<ent_123>`)
+ * - Predicates are names (quoted if they contain spaces) or variables
+ * - Objects are variables, entity IDs or literal values
+ * - `AS ?var` binds the matched claim, exposing its context dimensions
+ * - `OPTIONAL` patterns leave their variables unbound when nothing matches
+ * - `RETURN` groups by its plain items when it contains aggregates
+ *   (`COUNT`, `SUM`, `AVG`, `MIN`, `MAX`); without `RETURN` every variable
+ *   is returned
+ */
+
+import { type EntityId, ValidationError } from '@contextgraph/core';
+
+/**
+ * A subject, predicate or object position in a triple pattern
+ */
+export type QueryTerm =
+  | { readonly kind: 'variable'; readonly name: string }
+  | { readonly kind: 'entity'; readonly id: EntityId }
+  | { readonly kind: 'literal'; readonly value: QueryLiteral };
+
+export type QueryLiteral = string | number | boolean | null;
+
+/**
+ * Triple pattern matching claims
+ */
+export interface TriplePattern {
+  readonly subject: QueryTerm;
+  readonly predicate: QueryTerm;
+  readonly object: QueryTerm;
+  /** Variable bound to the matched claim */
+  readonly claim?: string;
+  readonly optional: boolean;
+}
+
+/**
+ * Value read in an expression: a variable with an optional property path, or a constant
+ */
+export type QueryOperand =
+  | { readonly kind: 'variable'; readonly name: string; readonly path: readonly string[] }
+  | { readonly kind: 'entity'; readonly id: EntityId }
+  | { readonly kind: 'literal'; readonly value: QueryLiteral };
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+
+/**
+ * Boolean expression of a WHERE clause
+ */
+export type QueryExpression =
+  | { readonly kind: 'and' | 'or'; readonly left: QueryExpression; readonly right: QueryExpression }
+  | { readonly kind: 'not'; readonly operand: QueryExpression }
+  | { readonly kind: 'compare'; readonly op: ComparisonOperator; readonly left: QueryOperand; readonly right: QueryOperand }
+  | { readonly kind: 'in'; readonly operand: QueryOperand; readonly values: readonly QueryOperand[] }
+  | { readonly kind: 'null'; readonly operand: QueryOperand; readonly negated: boolean };
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/**
+ * One column of a RETURN clause
+ */
+export interface ReturnItem {
+  readonly expression:
+    | QueryOperand
+    | { readonly kind: 'aggregate'; readonly fn: AggregateFunction; readonly argument: QueryOperand | null };
+  /** Column name in the result */
+  readonly alias: string;
+}
+
+export interface OrderItem {
+  /** Result column to sort by */
+  readonly column: string;
+  readonly direction: 'asc' | 'desc';
+}
+
+/**
+ * Parsed pattern query
+ */
+export interface PatternQuery {
+  readonly patterns: readonly TriplePattern[];
+  readonly where?: QueryExpression;
+  /** Absent when every variable is returned */
+  readonly returns?: readonly ReturnItem[];
+  readonly orderBy: readonly OrderItem[];
+  readonly limit?: number;
+  readonly offset?: number;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenKind = 'keyword' | 'identifier' | 'variable' | 'entity' | 'string' | 'number' | 'symbol' | 'end';
+
+interface Token {
+  readonly kind: TokenKind;
+  readonly text: string;
+  readonly position: number;
+}
+
+const KEYWORDS: ReadonlySet<string> = new Set([
+  'MATCH',
+  'OPTIONAL',
+  'WHERE',
+  'RETURN',
+  'ORDER',
+  'BY',
+  'ASC',
+  'DESC',
+  'LIMIT',
+  'OFFSET',
+  'AS',
+  'AND',
+  'OR',
+  'NOT',
+  'IS',
+  'NULL',
+  'IN',
+  'CONTAINS',
+  'TRUE',
+  'FALSE',
+]);
+
+const AGGREGATES: ReadonlySet<string> = new Set<AggregateFunction>(['count', 'sum', 'avg', 'min', 'max']);
+
+const SYMBOLS = ['!=', '<>', '<=', '>=', '=', '<', '>', ',', '(', ')', '[', ']', '.', '*'];
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_:-]*/y;
+const VARIABLE = /\?([A-Za-z_][A-Za-z0-9_]*)/y;
+const NUMBER = /-?\d+(?:\.\d+)?/y;
+const ENTITY = /<([^\s<>]+)>/y;
+const WHITESPACE = /(?:\s+|#[^\n]*)+/y;
+
+function syntaxError(message: string, position: number): ValidationError {
+  return new ValidationError(`${message} at position ${position}`, 'query', 'QUERY_SYNTAX');
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  const match = (pattern: RegExp): RegExpExecArray | null => {
+    pattern.lastIndex = position;
+    return pattern.exec(source);
+  };
+
+  while (position < source.length) {
+    const space = match(WHITESPACE);
+    if (space !== null) {
+      position += space[0].length;
+      continue;
+    }
+
+    const char = source[position]!;
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = position + 1;
+      for (; end < source.length && source[end] !== char; end++) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end++;
+          value += source[end] === 'n' ? '\n' : source[end];
+        } else {
+          value += source[end];
+        }
+      }
+      if (end >= source.length) {
+        throw syntaxError('Unterminated string', position);
+      }
+      tokens.push({ kind: 'string', text: value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const variable = match(VARIABLE);
+    if (variable !== null) {
+      tokens.push({ kind: 'variable', text: variable[1]!, position });
+      position += variable[0].length;
+      continue;
+    }
+
+    const entity = match(ENTITY);
+    if (entity !== null) {
+      tokens.push({ kind: 'entity', text: entity[1]!, position });
+      position += entity[0].length;
+      continue;
+    }
+
+    const number = match(NUMBER);
+    if (number !== null) {
+      tokens.push({ kind: 'number', text: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = match(IDENTIFIER);
+    if (identifier !== null) {
+      const upper = identifier[0].toUpperCase();
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { kind: 'keyword', text: upper, position }
+          : { kind: 'identifier', text: identifier[0], position }
+      );
+      position += identifier[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((s) => source.startsWith(s, position));
+    if (symbol === undefined) {
+      throw syntaxError(`Unexpected character "${char}"`, position);
+    }
+    tokens.push({ kind: 'symbol', text: symbol === '<>' ? '!=' : symbol, position });
+    position += symbol.length;
+  }
+
+  tokens.push({ kind: 'end', text: '', position });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a pattern query, failing with a `ValidationError` (code `QUERY_SYNTAX`)
+ */
+export function parsePatternQuery(source: string): PatternQuery {
+  return new Parser(tokenize(source)).parseQuery();
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: readonly Token[]) {}
+
+  parseQuery(): PatternQuery {
+    const patterns: TriplePattern[] = [];
+    this.expectKeyword('MATCH');
+    patterns.push(...this.parsePatterns(false));
+    while (this.acceptKeyword('MATCH') || this.peekKeyword('OPTIONAL')) {
+      const optional = this.acceptKeyword('OPTIONAL');
+      patterns.push(...this.parsePatterns(optional));
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    const returns = this.acceptKeyword('RETURN') ? this.parseReturns() : undefined;
+
+    const orderBy: OrderItem[] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const column = this.parseColumnName();
+        const descending = this.acceptKeyword('DESC');
+        if (!descending) {
+          this.acceptKeyword('ASC');
+        }
+        orderBy.push({ column, direction: descending ? 'desc' : 'asc' });
+      } while (this.acceptSymbol(','));
+    }
+
+    const limit = this.acceptKeyword('LIMIT') ? this.parseCount() : undefined;
+    const offset = this.acceptKeyword('OFFSET') ? this.parseCount() : undefined;
+
+    const end = this.peek();
+    if (end.kind !== 'end') {
+      throw syntaxError(`Unexpected "${end.text}"`, end.position);
+    }
+
+    return {
+      patterns,
+      ...(where !== undefined ? { where } : {}),
+      ...(returns !== undefined ? { returns } : {}),
+      orderBy,
+      ...(limit !== undefined ? { limit } : {}),
+      ...(offset !== undefined ? { offset } : {}),
+    };
+  }
+
+  private parsePatterns(optional: boolean): TriplePattern[] {
+    const patterns: TriplePattern[] = [];
+    do {
+      const subject = this.parseTerm('subject');
+      const predicate = this.parsePredicate();
+      const object = this.parseTerm('object');
+      let claim: string | undefined;
+      if (this.acceptKeyword('AS')) {
+        claim = this.expect('variable', 'a claim variable').text;
+      }
+      patterns.push({ subject, predicate, object, ...(claim !== undefined ? { claim } : {}), optional });
+    } while (this.acceptSymbol(','));
+    return patterns;
+  }
+
+  private parseTerm(position: 'subject' | 'object'): QueryTerm {
+    const token = this.next();
+    switch (token.kind) {
+      case 'variable':
+        return { kind: 'variable', name: token.text };
+      case 'entity':
+        return { kind: 'entity', id: token.text as EntityId };
+      case 'string':
+      case 'number':
+      case 'keyword':
+        if (position === 'object') {
+          const value = this.literalValue(token);
+          if (value !== undefined) {
+            return { kind: 'literal', value };
+          }
+        }
+        break;
+      default:
+        break;
+    }
+    throw syntaxError(`Expected ${position === 'subject' ? 'a variable or <entity>' : 'a variable, <entity> or value'} but found "${token.text}"`, token.position);
+  }
+
+  private parsePredicate(): QueryTerm {
+    const token = this.next();
+    if (token.kind === 'variable') {
+      return { kind: 'variable', name: token.text };
+    }
+    if (token.kind === 'identifier' || token.kind === 'string') {
+      return { kind: 'literal', value: token.text };
+    }
+    throw syntaxError(`Expected a predicate but found "${token.text}"`, token.position);
+  }
+
+  private parseExpression(): QueryExpression {
+    let left = this.parseConjunction();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseConjunction() };
+    }
+    return left;
+  }
+
+  private parseConjunction(): QueryExpression {
+    let left = this.parseNegation();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseNegation() };
+    }
+    return left;
+  }
+
+  private parseNegation(): QueryExpression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNegation() };
+    }
+    if (this.acceptSymbol('(')) {
+      const expression = this.parseExpression();
+      this.expectSymbol(')');
+      return expression;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): QueryExpression {
+    const operand = this.parseOperand();
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'null', operand, negated };
+    }
+
+    const negatedIn = this.peekKeyword('NOT') && this.peekKeyword('IN', 1);
+    if (negatedIn) {
+      this.next();
+    }
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('[');
+      const values: QueryOperand[] = [];
+      if (!this.acceptSymbol(']')) {
+        do {
+          values.push(this.parseOperand());
+        } while (this.acceptSymbol(','));
+        this.expectSymbol(']');
+      }
+      const condition: QueryExpression = { kind: 'in', operand, values };
+      return negatedIn ? { kind: 'not', operand: condition } : condition;
+    }
+
+    if (this.acceptKeyword('CONTAINS')) {
+      return { kind: 'compare', op: 'contains', left: operand, right: this.parseOperand() };
+    }
+
+    const token = this.next();
+    if (token.kind === 'symbol' && ['=', '!=', '<', '<=', '>', '>='].includes(token.text)) {
+      return { kind: 'compare', op: token.text as ComparisonOperator, left: operand, right: this.parseOperand() };
+    }
+    throw syntaxError(`Expected a comparison but found "${token.text}"`, token.position);
+  }
+
+  private parseOperand(): QueryOperand {
+    const token = this.next();
+    if (token.kind === 'variable') {
+      return { kind: 'variable', name: token.text, path: this.parsePath() };
+    }
+    if (token.kind === 'entity') {
+      return { kind: 'entity', id: token.text as EntityId };
+    }
+    const value = this.literalValue(token);
+    if (value !== undefined) {
+      return { kind: 'literal', value };
+    }
+    throw syntaxError(`Expected a value but found "${token.text}"`, token.position);
+  }
+
+  private parsePath(): string[] {
+    const path: string[] = [];
+    while (this.acceptSymbol('.')) {
+      const token = this.next();
+      if (token.kind !== 'identifier' && token.kind !== 'keyword') {
+        throw syntaxError(`Expected a property name but found "${token.text}"`, token.position);
+      }
+      path.push(token.kind === 'keyword' ? token.text.toLowerCase() : token.text);
+    }
+    return path;
+  }
+
+  private parseReturns(): ReturnItem[] {
+    const items: ReturnItem[] = [];
+    do {
+      const token = this.peek();
+      let item: ReturnItem;
+      if (token.kind === 'identifier' && AGGREGATES.has(token.text.toLowerCase()) && this.peekSymbol('(', 1)) {
+        this.next();
+        this.next();
+        const fn = token.text.toLowerCase() as AggregateFunction;
+        const argument = fn === 'count' && this.acceptSymbol('*') ? null : this.parseOperand();
+        this.expectSymbol(')');
+        item = {
+          expression: { kind: 'aggregate', fn, argument },
+          alias: argument === null ? fn : `${fn}(${operandName(argument)})`,
+        };
+      } else {
+        const operand = this.parseOperand();
+        item = { expression: operand, alias: operandName(operand) };
+      }
+      if (this.acceptKeyword('AS')) {
+        item = { ...item, alias: this.parseColumnName() };
+      }
+      items.push(item);
+    } while (this.acceptSymbol(','));
+    return items;
+  }
+
+  private parseColumnName(): string {
+    const token = this.next();
+    if (token.kind === 'identifier') {
+      return token.text;
+    }
+    if (token.kind === 'variable') {
+      return [token.text, ...this.parsePath()].join('.');
+    }
+    throw syntaxError(`Expected a column name but found "${token.text}"`, token.position);
+  }
+
+  private parseCount(): number {
+    const token = this.expect('number', 'a number');
+    const value = Number(token.text);
+    if (!Number.isInteger(value) || value < 0) {
+      throw syntaxError(`Expected a non-negative integer but found "${token.text}"`, token.position);
+    }
+    return value;
+  }
+
+  private literalValue(token: Token): QueryLiteral | undefined {
+    switch (token.kind) {
+      case 'string':
+        return token.text;
+      case 'number':
+        return Number(token.text);
+      case 'keyword':
+        return token.text === 'TRUE' ? true : token.text === 'FALSE' ? false : token.text === 'NULL' ? null : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private peekKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'keyword' && token.text === keyword;
+  }
+
+  private peekSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'symbol' && token.text === symbol;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.peekKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.peekSymbol(symbol)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      const token = this.peek();
+      throw syntaxError(`Expected ${keyword} but found "${token.text}"`, token.position);
+    }
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      const token = this.peek();
+      throw syntaxError(`Expected "${symbol}" but found "${token.text}"`, token.position);
+    }
+  }
+
+  private expect(kind: TokenKind, description: string): Token {
+    const token = this.next();
+    if (token.kind !== kind) {
+      throw syntaxError(`Expected ${description} but found "${token.text}"`, token.position);
+    }
+    return token;
+  }
+}
+
+/**
+ * Column name of an operand in a result
+ */
+function operandName(operand: QueryOperand): string {
+  switch (operand.kind) {
+    case 'variable':
+      return [operand.name, ...operand.path].join('.');
+    case 'entity':
+      return operand.id;
+    case 'literal':
+      return String(operand.value);
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Full-Text Search Index
+ *
+ * An in-memory inverted index over entity names, aliases and string
+ * properties, and over the string values of active claims. Text is
+ * normalized (case, accents, punctuation) and split into terms. A query
+ * term also matches the indexed terms it is a prefix of, and those within
+ * a small edit distance, at a lower weight. Matches are ranked with BM25.
+ */
+
+import { type ClaimId, type EntityId } from '@contextgraph/core';
+import { type Entity } from './entity.js';
+import { type Claim } from './claim.js';
+
+/**
+ * Options for a text search
+ */
+export interface SearchOptions {
+  /** Only return entities of these types (for claim values: their subject's type) */
+  types?: readonly string[];
+  /** Only search the values of claims with these predicates, not entity names */
+  predicates?: readonly string[];
+  /** Maximum number of hits (default: 20) */
+  limit?: number;
+}
+
+/**
+ * Entity or claim value matching a search
+ */
+export interface SearchHit {
+  /** Entity matched, or the subject of the claim whose value matched */
+  readonly entityId: EntityId;
+  /** Claim whose value matched */
+  readonly claimId?: ClaimId;
+  readonly predicate?: string;
+  /** Entity name, or the claim value */
+  readonly text: string;
+  readonly score: number;
+}
+
+interface IndexedDocument {
+  readonly entityId: EntityId;
+  readonly claimId: ClaimId | undefined;
+  readonly predicate: string | undefined;
+  readonly text: string;
+  readonly terms: ReadonlyMap<string, number>;
+  readonly length: number;
+}
+
+const DEFAULT_LIMIT = 20;
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+
+const PREFIX_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+
+/**
+ * Lowercase text, strip accents and split it on anything but letters and digits
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Inverted index with BM25 ranking
+ */
+export class TextIndex {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Set<string>>();
+  private readonly entityTypes = new Map<EntityId, string>();
+  private totalLength = 0;
+
+  /**
+   * Index an entity's name, aliases and string properties, replacing what
+   * was indexed for it; deleted entities are removed
+   */
+  indexEntity(entity: Entity): void {
+    const { id, type, name, aliases, properties } = entity.data;
+    const key = `entity:${id}`;
+    this.remove(key);
+    if (entity.isDeleted()) {
+      this.entityTypes.delete(id);
+      return;
+    }
+
+    this.entityTypes.set(id, type);
+    const texts = [name, ...(aliases ?? [])];
+    for (const value of Object.values(properties)) {
+      if (typeof value === 'string') {
+        texts.push(value);
+      } else if (Array.isArray(value)) {
+        texts.push(...value.filter((item): item is string => typeof item === 'string'));
+      }
+    }
+    this.add(key, {
+      entityId: id,
+      claimId: undefined,
+      predicate: undefined,
+      text: name ?? aliases?.[0] ?? id,
+    }, texts);
+  }
+
+  /**
+   * Index the value of an active claim with a string value; other claims are removed
+   */
+  indexClaim(claim: Claim): void {
+    const { id, subjectId, predicate, objectValue } = claim.data;
+    const key = `claim:${id}`;
+    this.remove(key);
+    if (!claim.isActive() || typeof objectValue !== 'string') {
+      return;
+    }
+
+    this.add(key, { entityId: subjectId, claimId: id, predicate, text: objectValue }, [objectValue]);
+  }
+
+  /**
+   * Move claim values indexed under merged entities to the surviving one
+   */
+  repoint(sources: readonly EntityId[], target: EntityId): void {
+    for (const [key, document] of this.documents) {
+      if (document.claimId !== undefined && sources.includes(document.entityId)) {
+        this.documents.set(key, { ...document, entityId: target });
+      }
+    }
+  }
+
+  /**
+   * Rank the entities and claim values matching a text
+   */
+  search(text: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(text))];
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+
+    for (const queryTerm of queryTerms) {
+      // A document scores by its best match for each query term
+      const best = new Map<string, number>();
+      for (const [term, weight] of this.expand(queryTerm)) {
+        const keys = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - keys.size + 0.5) / (keys.size + 0.5));
+
+        for (const key of keys) {
+          const document = this.documents.get(key)!;
+          const frequency = document.terms.get(term) ?? 0;
+          const score = weight * idf * (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * document.length / averageLength));
+          best.set(key, Math.max(best.get(key) ?? 0, score));
+        }
+      }
+
+      for (const [key, score] of best) {
+        scores.set(key, (scores.get(key) ?? 0) + score);
+      }
+    }
+
+    const hits: SearchHit[] = [];
+    for (const [key, score] of scores) {
+      const document = this.documents.get(key)!;
+      if (!this.accepts(document, options)) continue;
+      hits.push({
+        entityId: document.entityId,
+        ...(document.claimId !== undefined ? { claimId: document.claimId } : {}),
+        ...(document.predicate !== undefined ? { predicate: document.predicate } : {}),
+        text: document.text,
+        score,
+      });
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  private accepts(document: IndexedDocument, options: SearchOptions): boolean {
+    if (options.predicates !== undefined &&
+        (document.predicate === undefined || !options.predicates.includes(document.predicate))) {
+      return false;
+    }
+    if (options.types !== undefined) {
+      const type = this.entityTypes.get(document.entityId);
+      return type !== undefined && options.types.includes(type);
+    }
+    return true;
+  }
+
+  /**
+   * Indexed terms a query term matches, with the weight of the match
+   */
+  private expand(queryTerm: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(queryTerm)) {
+      matches.set(queryTerm, 1);
+    }
+
+    const maxEdits = queryTerm.length < 4 ? 0 : queryTerm.length < 8 ? 1 : 2;
+    for (const term of this.postings.keys()) {
+      if (term === queryTerm) continue;
+      if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+        matches.set(term, PREFIX_WEIGHT);
+      } else if (maxEdits > 0 && withinEditDistance(queryTerm, term, maxEdits)) {
+        matches.set(term, FUZZY_WEIGHT);
+      }
+    }
+    return matches;
+  }
+
+  private add(
+    key: string,
+    document: Omit<IndexedDocument, 'terms' | 'length'>,
+    texts: readonly (string | undefined)[]
+  ): void {
+    const terms = new Map<string, number>();
+    let length = 0;
+    for (const text of texts) {
+      if (text === undefined) continue;
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+        length++;
+      }
+    }
+    if (length === 0) {
+      return;
+    }
+
+    this.documents.set(key, { ...document, terms, length });
+    this.totalLength += length;
+    for (const term of terms.keys()) {
+      let keys = this.postings.get(term);
+      if (keys === undefined) {
+        keys = new Set();
+        this.postings.set(term, keys);
+      }
+      keys.add(key);
+    }
+  }
+
+  private remove(key: string): void {
+    const document = this.documents.get(key);
+    if (document === undefined) {
+      return;
+    }
+
+    this.documents.delete(key);
+    this.totalLength -= document.length;
+    for (const term of document.terms.keys()) {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+}
+
+/**
+ * Whether two terms are at most `maxEdits` insertions, deletions or substitutions apart
+ */
+function withinEditDistance(a: string, b: string, maxEdits: number): boolean {
+  if (Math.abs(a.length - b.length) > maxEdits) {
+    return false;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxEdits) {
+      return false;
+    }
+    previous = current;
+  }
+  return previous[b.length]! <= maxEdits;
+}
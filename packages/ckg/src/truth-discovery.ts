@@ -0,0 +1,371 @@
+/**
+ * Truth Discovery
+ *
+ * Weighs the claims that agree or disagree on the value of a subject's
+ * predicate by the reliability of their provenance sources. A value's
+ * confidence grows with independent corroboration and shrinks with the
+ * weight of conflicting values. A source's reliability is the smoothed
+ * share of consensus its checked claims receive; since consensus depends
+ * on reliability, both are refined in turns until they settle. Scores are
+ * stored in the `source_reliability` collection.
+ */
+
+import { type Result, type Timestamp, ok, err, createTimestamp } from '@contextgraph/core';
+import { type StorageError, type StorageInterface } from '@contextgraph/storage';
+import { type SourceType } from '@contextgraph/provenance';
+import { type Claim } from './claim.js';
+import { ckgMigrations } from './migrations.js';
+
+/**
+ * Provenance source a claim comes from
+ */
+export interface ClaimSource {
+  readonly sourceType: SourceType;
+  readonly sourceId: string | undefined;
+}
+
+/**
+ * Claim with the source asserting it
+ */
+export interface Evidence {
+  readonly claim: Claim;
+  readonly source: ClaimSource;
+}
+
+/**
+ * Reliability score of a source
+ */
+export interface SourceReliability extends ClaimSource {
+  /** Probability (0-1) that a claim of the source agrees with consensus */
+  readonly reliability: number;
+  /** Claims checked against other sources to derive the score */
+  readonly claimCount: number;
+  readonly updatedAt: Timestamp;
+}
+
+/**
+ * Truth discovery parameters
+ */
+export interface TruthDiscoveryOptions {
+  /** Reliability of sources before any claim is checked, by type (default: 0.5) */
+  priors?: Partial<Record<SourceType, number>>;
+  /** Number of claims the prior counts as when scoring a source (default: 2) */
+  priorWeight?: number;
+  /** Most rounds of refinement (default: 20) */
+  maxIterations?: number;
+  /** Largest change in any reliability at which refinement stops (default: 0.0001) */
+  tolerance?: number;
+}
+
+/**
+ * Claim backing a value, and how much it counted
+ */
+export interface BeliefSupport {
+  readonly claimId: Claim['data']['id'];
+  readonly source: ClaimSource;
+  readonly reliability: number;
+  /** Confidence stated by the claim (1 when unstated) */
+  readonly claimConfidence: number;
+  /** Reliability times claim confidence */
+  readonly weight: number;
+}
+
+/**
+ * Candidate value of a subject's predicate
+ */
+export interface BeliefValue {
+  readonly objectId: Claim['data']['objectId'];
+  readonly objectValue: unknown;
+  /** Derived confidence (0-1) */
+  readonly confidence: number;
+  /** Claims asserting the value, heaviest first */
+  readonly support: readonly BeliefSupport[];
+}
+
+/**
+ * Consensus on the value of a subject's predicate
+ */
+export interface Belief {
+  readonly subjectId: Claim['data']['subjectId'];
+  readonly predicate: string;
+  /** Most confident value */
+  readonly value: BeliefValue;
+  /** Conflicting values, most confident first */
+  readonly alternatives: readonly BeliefValue[];
+}
+
+interface ReliabilityRecord {
+  readonly id: string;
+  readonly sourceType: string;
+  readonly sourceId: string | null;
+  readonly reliability: number;
+  readonly claimCount: number;
+  readonly updatedAt: Timestamp;
+  /** When the source was first scored */
+  readonly createdAt: Timestamp;
+  [key: string]: unknown;
+}
+
+interface StoredScore {
+  readonly score: SourceReliability;
+  readonly createdAt: Timestamp;
+}
+
+/**
+ * Source reliability scores and the beliefs they yield
+ */
+export class TruthDiscovery {
+  private readonly collection = 'source_reliability';
+  private readonly scores = new Map<string, StoredScore>();
+  private readonly priors: Partial<Record<SourceType, number>>;
+  private readonly priorWeight: number;
+  private readonly maxIterations: number;
+  private readonly tolerance: number;
+
+  constructor(
+    private readonly storage: StorageInterface,
+    options: TruthDiscoveryOptions = {}
+  ) {
+    this.priors = options.priors ?? {};
+    this.priorWeight = options.priorWeight ?? 2;
+    this.maxIterations = options.maxIterations ?? 20;
+    this.tolerance = options.tolerance ?? 0.0001;
+  }
+
+  /**
+   * Apply the package migrations and load the stored scores
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    const migrated = await this.storage.registerMigrations(ckgMigrations);
+    if (!migrated.ok) {
+      return err(migrated.error);
+    }
+
+    try {
+      for await (const record of this.storage.stream<ReliabilityRecord>(this.collection)) {
+        this.scores.set(record.id, {
+          score: {
+            sourceType: record.sourceType as SourceType,
+            sourceId: record.sourceId ?? undefined,
+            reliability: record.reliability,
+            claimCount: record.claimCount,
+            updatedAt: record.updatedAt,
+          },
+          createdAt: record.createdAt,
+        });
+      }
+    } catch (error) {
+      return err(error as StorageError);
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Current reliability of a source: its stored score, else the prior of its type
+   */
+  reliability(source: ClaimSource): number {
+    return this.scores.get(sourceKey(source))?.score.reliability ?? this.prior(source);
+  }
+
+  /**
+   * Stored scores, most reliable first
+   */
+  sources(): SourceReliability[] {
+    return [...this.scores.values()].map(({ score }) => score).sort((a, b) => b.reliability - a.reliability);
+  }
+
+  /**
+   * Consensus on each subject and predicate the evidence speaks to, using
+   * the current reliability scores
+   */
+  beliefs(evidence: readonly Evidence[]): Belief[] {
+    const reliabilities = new Map<string, number>();
+    for (const { source } of evidence) {
+      reliabilities.set(sourceKey(source), this.reliability(source));
+    }
+    return groupByStatement(evidence).map((group) => believe(group, reliabilities));
+  }
+
+  /**
+   * Re-derive the reliability of every source from the evidence and store
+   * the scores
+   *
+   * Only claims sharing their subject and predicate with a claim of another
+   * source are checked; sources with none keep their prior.
+   */
+  async update(evidence: readonly Evidence[]): Promise<Result<readonly SourceReliability[], StorageError>> {
+    const groups = groupByStatement(evidence)
+      .filter((group) => new Set(group.map(({ source }) => sourceKey(source))).size > 1);
+
+    const sources = new Map<string, ClaimSource>();
+    for (const { source } of evidence) {
+      sources.set(sourceKey(source), source);
+    }
+    let reliabilities = new Map([...sources].map(([key, source]) => [key, this.prior(source)]));
+    const checked = new Map<string, number>();
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      const agreement = new Map<string, number>();
+      checked.clear();
+      for (const group of groups) {
+        const shares = consensusShares(group, reliabilities);
+        for (const { claim, source } of group) {
+          const key = sourceKey(source);
+          agreement.set(key, (agreement.get(key) ?? 0) + shares.get(valueKey(claim))!);
+          checked.set(key, (checked.get(key) ?? 0) + 1);
+        }
+      }
+
+      const next = new Map<string, number>();
+      let change = 0;
+      for (const [key, source] of sources) {
+        const reliability = (this.priorWeight * this.prior(source) + (agreement.get(key) ?? 0)) /
+          (this.priorWeight + (checked.get(key) ?? 0));
+        change = Math.max(change, Math.abs(reliability - reliabilities.get(key)!));
+        next.set(key, reliability);
+      }
+      reliabilities = next;
+      if (change < this.tolerance) {
+        break;
+      }
+    }
+
+    const updatedAt = createTimestamp();
+    const scores = [...sources].map(([key, source]) => [key, {
+      score: {
+        ...source,
+        reliability: reliabilities.get(key)!,
+        claimCount: checked.get(key) ?? 0,
+        updatedAt,
+      },
+      createdAt: this.scores.get(key)?.createdAt ?? updatedAt,
+    }] as const);
+
+    const stored = await this.storage.transaction(async () => {
+      for (const [key, stored] of scores) {
+        const result = await this.storage.upsert(this.collection, toRecord(key, stored));
+        if (!result.ok) {
+          return err(result.error);
+        }
+      }
+      return ok(undefined);
+    });
+    if (!stored.ok) {
+      return stored;
+    }
+
+    for (const [key, stored] of scores) {
+      this.scores.set(key, stored);
+    }
+    return ok(scores.map(([, { score }]) => score).sort((a, b) => b.reliability - a.reliability));
+  }
+
+  private prior(source: ClaimSource): number {
+    return this.priors[source.sourceType] ?? 0.5;
+  }
+}
+
+/**
+ * Identity of a source: its type, and its ID when it has one
+ */
+export function sourceKey(source: ClaimSource): string {
+  return source.sourceId === undefined ? source.sourceType : `${source.sourceType}:${source.sourceId}`;
+}
+
+/**
+ * Identity of a claimed value, as compared by `ContextFilter.findConflicts`
+ */
+function valueKey(claim: Claim): string {
+  return claim.data.objectId ?? JSON.stringify(claim.data.objectValue);
+}
+
+function groupByStatement(evidence: readonly Evidence[]): Evidence[][] {
+  const groups = new Map<string, Evidence[]>();
+  for (const item of evidence) {
+    const key = `${item.claim.data.subjectId}:${item.claim.data.predicate}`;
+    const group = groups.get(key) ?? [];
+    group.push(item);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Weight each source lends a value: its heaviest claim of it, so a source
+ * repeating itself does not corroborate itself
+ */
+function valueWeights(group: readonly Evidence[], reliabilities: ReadonlyMap<string, number>): Map<string, Map<string, number>> {
+  const values = new Map<string, Map<string, number>>();
+  for (const { claim, source } of group) {
+    const key = sourceKey(source);
+    const weight = reliabilities.get(key)! * claimConfidence(claim);
+    const weights = values.get(valueKey(claim)) ?? new Map<string, number>();
+    weights.set(key, Math.max(weights.get(key) ?? 0, weight));
+    values.set(valueKey(claim), weights);
+  }
+  return values;
+}
+
+/**
+ * Share of the group's total weight behind each value
+ */
+function consensusShares(group: readonly Evidence[], reliabilities: ReadonlyMap<string, number>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const [value, weights] of valueWeights(group, reliabilities)) {
+    totals.set(value, [...weights.values()].reduce((sum, weight) => sum + weight, 0));
+  }
+  const total = [...totals.values()].reduce((sum, weight) => sum + weight, 0);
+  return new Map([...totals].map(([value, weight]) => [value, total > 0 ? weight / total : 1 / totals.size]));
+}
+
+/**
+ * Confidence of each value: the chance at least one of its sources is right
+ * (noisy-or of their weights), scaled by its share of the group's weight
+ */
+function believe(group: readonly Evidence[], reliabilities: ReadonlyMap<string, number>): Belief {
+  const shares = consensusShares(group, reliabilities);
+  const weights = valueWeights(group, reliabilities);
+
+  const values = [...weights].map(([value, sourceWeights]) => {
+    const doubt = [...sourceWeights.values()].reduce((product, weight) => product * (1 - weight), 1);
+    const support = group
+      .filter(({ claim }) => valueKey(claim) === value)
+      .map(({ claim, source }) => {
+        const reliability = reliabilities.get(sourceKey(source))!;
+        const confidence = claimConfidence(claim);
+        return { claimId: claim.data.id, source, reliability, claimConfidence: confidence, weight: reliability * confidence };
+      })
+      .sort((a, b) => b.weight - a.weight);
+    const claim = group.find((item) => valueKey(item.claim) === value)!.claim;
+    return {
+      objectId: claim.data.objectId,
+      objectValue: claim.data.objectValue,
+      confidence: (1 - doubt) * shares.get(value)!,
+      support,
+    };
+  }).sort((a, b) => b.confidence - a.confidence);
+
+  const [value, ...alternatives] = values;
+  return {
+    subjectId: group[0]!.claim.data.subjectId,
+    predicate: group[0]!.claim.data.predicate,
+    value: value!,
+    alternatives,
+  };
+}
+
+function claimConfidence(claim: Claim): number {
+  return claim.data.context.confidence ?? 1;
+}
+
+function toRecord(id: string, { score, createdAt }: StoredScore): ReliabilityRecord {
+  return {
+    id,
+    sourceType: score.sourceType,
+    sourceId: score.sourceId ?? null,
+    reliability: score.reliability,
+    claimCount: score.claimCount,
+    updatedAt: score.updatedAt,
+    createdAt,
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * Vector Index
+ *
+ * Approximate nearest-neighbour search over the embeddings of entities and
+ * claims, using a hierarchical navigable small world (HNSW) graph. Each
+ * node is stored as one record of the `embeddings` collection holding its
+ * vector and its links on every layer, so the graph is persisted through
+ * any storage backend and reloaded as is. Removed targets stay in the
+ * graph, so searches can still pass through them, but are never returned.
+ */
+
+import { type Result, type Timestamp, ok, err, createTimestamp } from '@contextgraph/core';
+import { type StorageError, type StorageInterface } from '@contextgraph/storage';
+import { dotProduct, hashText, normalizeVector } from './embedding.js';
+import { ckgMigrations } from './migrations.js';
+
+/**
+ * Kind of graph element a vector embeds
+ */
+export type VectorTargetKind = 'entity' | 'claim';
+
+/**
+ * HNSW parameters
+ */
+export interface VectorIndexOptions {
+  /** Links per node on the upper layers, twice that on the bottom one (default: 16) */
+  m?: number;
+  /** Candidates considered when linking a new node (default: 100) */
+  efConstruction?: number;
+  /** Candidates considered when searching (default: 64) */
+  efSearch?: number;
+}
+
+/**
+ * Stored target close to a query vector
+ */
+export interface VectorMatch {
+  readonly kind: VectorTargetKind;
+  readonly targetId: string;
+  /** Cosine similarity to the query */
+  readonly score: number;
+}
+
+interface VectorNode {
+  readonly id: string;
+  readonly kind: VectorTargetKind;
+  readonly targetId: string;
+  vector: readonly number[];
+  textHash: string;
+  readonly level: number;
+  /** Linked node IDs, by layer */
+  readonly neighbors: string[][];
+  deletedAt: Timestamp | undefined;
+  readonly createdAt: Timestamp;
+}
+
+interface EmbeddingRecord {
+  readonly id: string;
+  readonly embedder: string;
+  readonly kind: string;
+  readonly targetId: string;
+  readonly vector: string | number[];
+  readonly textHash: string;
+  readonly level: number;
+  readonly neighbors: string | string[][];
+  readonly deletedAt: Timestamp | null;
+  readonly createdAt: Timestamp;
+  [key: string]: unknown;
+}
+
+interface Candidate {
+  readonly node: VectorNode;
+  readonly distance: number;
+}
+
+/**
+ * Persisted HNSW index of the vectors of one embedder
+ */
+export class VectorIndex {
+  private readonly collection = 'embeddings';
+  private readonly nodes = new Map<string, VectorNode>();
+  private entryPoint: VectorNode | undefined;
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly embedderId: string,
+    options: VectorIndexOptions = {}
+  ) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+  }
+
+  /**
+   * Apply the package migrations and load the stored graph
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    const migrated = await this.storage.registerMigrations(ckgMigrations);
+    if (!migrated.ok) {
+      return err(migrated.error);
+    }
+
+    try {
+      for await (const record of this.storage.stream<EmbeddingRecord>(this.collection, { embedder: this.embedderId })) {
+        const node = fromRecord(record);
+        this.nodes.set(node.id, node);
+        if (this.entryPoint === undefined || node.level > this.entryPoint.level) {
+          this.entryPoint = node;
+        }
+      }
+    } catch (error) {
+      return err(error as StorageError);
+    }
+    return ok(undefined);
+  }
+
+  /**
+   * Hash of the text last embedded for a target, if it has a live vector
+   */
+  textHash(targetId: string): string | undefined {
+    const node = this.nodes.get(this.nodeId(targetId));
+    return node !== undefined && node.deletedAt === undefined ? node.textHash : undefined;
+  }
+
+  /**
+   * Vector of a target, if it has a live one
+   */
+  vector(targetId: string): readonly number[] | undefined {
+    const node = this.nodes.get(this.nodeId(targetId));
+    return node !== undefined && node.deletedAt === undefined ? node.vector : undefined;
+  }
+
+  /**
+   * Targets with a live vector
+   */
+  targets(): string[] {
+    return [...this.nodes.values()].filter((node) => node.deletedAt === undefined).map((node) => node.targetId);
+  }
+
+  /**
+   * Store the vector of a target, linking it into the graph
+   */
+  async upsert(
+    kind: VectorTargetKind,
+    targetId: string,
+    vector: readonly number[],
+    textHash: string
+  ): Promise<Result<void, StorageError>> {
+    const id = this.nodeId(targetId);
+    const existing = this.nodes.get(id);
+    let node: VectorNode;
+    if (existing !== undefined) {
+      node = existing;
+      node.vector = normalizeVector(vector);
+      node.textHash = textHash;
+      node.deletedAt = undefined;
+    } else {
+      const level = this.levelFor(id);
+      node = {
+        id,
+        kind,
+        targetId,
+        vector: normalizeVector(vector),
+        textHash,
+        level,
+        neighbors: Array.from({ length: level + 1 }, () => []),
+        deletedAt: undefined,
+        createdAt: createTimestamp(),
+      };
+      this.nodes.set(id, node);
+    }
+
+    return this.persist(this.link(node));
+  }
+
+  /**
+   * Stop returning a target; its node stays in the graph
+   */
+  async remove(targetId: string): Promise<Result<void, StorageError>> {
+    const node = this.nodes.get(this.nodeId(targetId));
+    if (node === undefined || node.deletedAt !== undefined) {
+      return ok(undefined);
+    }
+    node.deletedAt = createTimestamp();
+    return this.persist([node]);
+  }
+
+  /**
+   * Up to `count` live targets closest to a vector, closest first
+   */
+  search(query: readonly number[], count: number): VectorMatch[] {
+    if (this.entryPoint === undefined || count <= 0) {
+      return [];
+    }
+
+    const vector = normalizeVector(query);
+    let entry = this.entryPoint;
+    for (let layer = entry.level; layer > 0; layer--) {
+      entry = this.searchLayer(vector, entry, 1, layer)[0]!.node;
+    }
+
+    return this.searchLayer(vector, entry, Math.max(this.efSearch, count), 0)
+      .filter(({ node }) => node.deletedAt === undefined)
+      .slice(0, count)
+      .map(({ node, distance }) => ({ kind: node.kind, targetId: node.targetId, score: 1 - distance }));
+  }
+
+  /**
+   * Link a node to its nearest neighbours on each of its layers; returns the
+   * nodes whose links changed
+   */
+  private link(node: VectorNode): VectorNode[] {
+    const changed = new Map<string, VectorNode>([[node.id, node]]);
+    const entryPoint = this.entryPoint;
+    if (entryPoint === undefined || entryPoint === node) {
+      this.entryPoint = node;
+      return [...changed.values()];
+    }
+
+    let entry = entryPoint;
+    for (let layer = entryPoint.level; layer > node.level; layer--) {
+      entry = this.searchLayer(node.vector, entry, 1, layer)[0]!.node;
+    }
+
+    for (let layer = Math.min(node.level, entryPoint.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entry, this.efConstruction, layer)
+        .filter((candidate) => candidate.node !== node);
+      const limit = layer === 0 ? this.m * 2 : this.m;
+
+      for (const { node: neighbor } of candidates.slice(0, limit)) {
+        if (!node.neighbors[layer]!.includes(neighbor.id)) {
+          node.neighbors[layer]!.push(neighbor.id);
+        }
+        const links = neighbor.neighbors[layer]!;
+        if (!links.includes(node.id)) {
+          links.push(node.id);
+          if (links.length > limit) {
+            this.prune(neighbor, layer, limit);
+          }
+          changed.set(neighbor.id, neighbor);
+        }
+      }
+
+      // A re-embedded node keeps its old links until closer ones crowd them out
+      if (node.neighbors[layer]!.length > limit) {
+        this.prune(node, layer, limit);
+      }
+      if (candidates[0] !== undefined) {
+        entry = candidates[0].node;
+      }
+    }
+
+    if (node.level > entryPoint.level) {
+      this.entryPoint = node;
+    }
+    return [...changed.values()];
+  }
+
+  /**
+   * Keep a node's closest links on a layer
+   */
+  private prune(node: VectorNode, layer: number, limit: number): void {
+    const links = node.neighbors[layer]!;
+    const kept = links
+      .map((id) => this.nodes.get(id))
+      .filter((neighbor): neighbor is VectorNode => neighbor !== undefined)
+      .sort((a, b) => distance(node.vector, a.vector) - distance(node.vector, b.vector))
+      .slice(0, limit)
+      .map((neighbor) => neighbor.id);
+    links.splice(0, links.length, ...kept);
+  }
+
+  /**
+   * Best-first search of one layer from an entry node, returning up to `ef`
+   * nodes closest first
+   */
+  private searchLayer(query: readonly number[], entry: VectorNode, ef: number, layer: number): Candidate[] {
+    const start = { node: entry, distance: distance(query, entry.vector) };
+    const visited = new Set([entry.id]);
+    const candidates: Candidate[] = [start];
+    const results: Candidate[] = [start];
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const farthest = results[results.length - 1]!;
+      if (current.distance > farthest.distance && results.length >= ef) {
+        break;
+      }
+
+      for (const id of current.node.neighbors[layer] ?? []) {
+        if (visited.has(id)) continue;
+        visited.add(id);
+        const neighbor = this.nodes.get(id);
+        if (neighbor === undefined) continue;
+
+        const candidate = { node: neighbor, distance: distance(query, neighbor.vector) };
+        if (results.length < ef || candidate.distance < results[results.length - 1]!.distance) {
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async persist(nodes: readonly VectorNode[]): Promise<Result<void, StorageError>> {
+    return this.storage.transaction(async () => {
+      for (const node of nodes) {
+        const result = await this.storage.upsert(this.collection, toRecord(node, this.embedderId));
+        if (!result.ok) {
+          return err(result.error);
+        }
+      }
+      return ok(undefined);
+    });
+  }
+
+  private nodeId(targetId: string): string {
+    return `${this.embedderId}:${targetId}`;
+  }
+
+  /**
+   * Random layer with exponentially decaying probability, derived from the
+   * node ID so rebuilding an index gives the same graph
+   */
+  private levelFor(id: string): number {
+    const uniform = (hashText(id) + 1) / 0x100000001;
+    return Math.floor(-Math.log(uniform) / Math.log(this.m));
+  }
+}
+
+function distance(a: readonly number[], b: readonly number[]): number {
+  return 1 - dotProduct(a, b);
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (list[middle]!.distance <= candidate.distance) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
+
+function toRecord(node: VectorNode, embedder: string): EmbeddingRecord {
+  return {
+    id: node.id,
+    embedder,
+    kind: node.kind,
+    targetId: node.targetId,
+    vector: JSON.stringify(node.vector),
+    textHash: node.textHash,
+    level: node.level,
+    neighbors: JSON.stringify(node.neighbors),
+    deletedAt: node.deletedAt ?? null,
+    createdAt: node.createdAt,
+  };
+}
+
+function fromRecord(record: EmbeddingRecord): VectorNode {
+  return {
+    id: record.id,
+    kind: record.kind as VectorTargetKind,
+    targetId: record.targetId,
+    vector: typeof record.vector === 'string' ? JSON.parse(record.vector) as number[] : record.vector,
+    textHash: record.textHash,
+    level: record.level,
+    neighbors: typeof record.neighbors === 'string' ? JSON.parse(record.neighbors) as string[][] : record.neighbors,
+    deletedAt: record.deletedAt ?? undefined,
+    createdAt: record.createdAt,
+  };
+}
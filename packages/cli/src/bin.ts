@@ -6,7 +6,7 @@
  */
 
 import * as fs from 'node:fs/promises';
-import { ContextGraph } from '@contextgraph/sdk';
+import { ContextGraph, RDF_FORMATS, createTimestamp, type RdfFormat, type StorageSnapshot } from '@contextgraph/sdk';
 import { ContextGraphRepl, GraphInspector } from './index.js';
 
 const VERSION = '0.1.0';
@@ -50,6 +50,25 @@ function parseArgs(args: string[]): ParsedArgs {
   return { command, options, positional };
 }
 
+/**
+ * Whether a format is one of the RDF syntaxes
+ */
+function isRdfFormat(format: string): format is RdfFormat {
+  return (RDF_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * IRIs of the graph in RDF, from --base-iri and --vocabulary
+ */
+function rdfOptions(options: Map<string, string | boolean>): { baseIri?: string; vocabulary?: string } {
+  const baseIri = options.get('base-iri');
+  const vocabulary = options.get('vocabulary');
+  return {
+    ...(typeof baseIri === 'string' ? { baseIri } : {}),
+    ...(typeof vocabulary === 'string' ? { vocabulary } : {}),
+  };
+}
+
 /**
  * Print usage information
  */
@@ -70,9 +89,13 @@ Commands:
   audit              Show audit trail
   provenance         Query provenance entries
   verify             Verify provenance chain
+  migrate-hashes     Re-anchor legacy provenance hashes with a cut-over entry
   context <id>       Assemble context for an entity
+  diff <from> [to]   Show claims that started or stopped holding between two times
   export             Export graph data
   import <file>      Import graph data
+  backup             Write a consistent storage snapshot
+  restore <file>     Restore a storage snapshot
   repl               Start interactive REPL
 
 Options:
@@ -81,29 +104,61 @@ Options:
   --json             Output as JSON
   --no-color         Disable colored output
   --limit N          Limit number of results
+  --db <file>        Use a SQLite database file (default: in-memory)
+  --data-dir <dir>   Use an append-only log directory (default: in-memory)
+
+Stats Options:
+  --bucket <period>  Count claims created per hour, day, week, month or year (default: day)
+
+Diff Options:
+  --entities <a,b>   Only claims about these entities
+  --predicates <a,b> Only claims with these predicates
+
+Migrate Hashes Options:
+  --algorithm <name> Digest of the anchor: sha256, sha512, blake2b512, blake2s256 (default: sha256)
+  --actor <name>     Actor recorded on the cut-over entry
 
 Export Options:
-  --format <type>    Export format: json, csv (default: json)
+  --format <type>    Export format: json, csv, ttl, jsonld, nt (default: json)
   --output <file>    Output file (default: stdout)
   --type <resource>  Resource type for CSV: entities, claims (default: entities)
-  --pretty           Pretty print JSON output
+  --pretty           Pretty print JSON and JSON-LD output
+  --base-iri <iri>   Base of entity, claim and provenance IRIs in RDF (default: urn:contextgraph:)
+  --vocabulary <iri> Namespace of predicate IRIs in RDF (default: <base-iri>ontology/)
 
 Import Options:
-  --format <type>    Import format: json, csv (default: json)
+  --format <type>    Import format: json, csv, ttl, jsonld, nt (default: json)
   --type <resource>  Resource type for CSV: entities, claims (default: entities)
   --dry-run          Validate without importing
   --merge            Merge with existing data
   --on-conflict      Conflict handling: skip, overwrite, error (default: skip)
+  --base-iri <iri>   Base of entity and claim IRIs in RDF (default: urn:contextgraph:)
+  --vocabulary <iri> Namespace of predicate IRIs in RDF (default: <base-iri>ontology/)
+
+Backup Options:
+  --output <file>          Output file (default: stdout)
+  --since-sequence N       Only changes after the sequence of an earlier backup
+  --since <time>           Only records created since a timestamp or ISO date
+  --collections <a,b>      Only these collections
+  --pretty                 Pretty print JSON output
 
 Examples:
   contextgraph stats
+  contextgraph stats --bucket month
   contextgraph entities person --limit 10
   contextgraph entity ent_123456
   contextgraph audit --json
+  contextgraph migrate-hashes --db graph.db --algorithm sha512
+  contextgraph diff 2024-01-01 2024-07-01 --entities ent_123456 --json
   contextgraph export --format json --output backup.json
   contextgraph export --format csv --type entities --output entities.csv
   contextgraph import backup.json
   contextgraph import data.csv --format csv --type entities
+  contextgraph export --format ttl --output graph.ttl
+  contextgraph import partner.jsonld --format jsonld --vocabulary https://example.org/hr#
+  contextgraph backup --db graph.db --output full.json
+  contextgraph backup --db graph.db --since-sequence 42 --output incremental.json
+  contextgraph restore full.json --db restored.db
   contextgraph repl
 `);
 }
@@ -127,9 +182,13 @@ async function main(): Promise<void> {
   }
 
   // Create client
+  const dbPath = options.get('db');
+  const dataDir = options.get('data-dir');
   const clientResult = await ContextGraph.create({
     enablePolicies: false,
     enableCapabilities: false,
+    ...(typeof dbPath === 'string' ? { storage: { type: 'sqlite' as const, path: dbPath } } : {}),
+    ...(typeof dataDir === 'string' ? { storage: { type: 'append-log' as const, directory: dataDir } } : {}),
   });
 
   if (!clientResult.ok) {
@@ -175,9 +234,11 @@ async function main(): Promise<void> {
   const limit = options.has('limit') ? parseInt(options.get('limit') as string, 10) : undefined;
 
   switch (command) {
-    case 'stats':
-      result = await inspector.getStats();
+    case 'stats': {
+      const bucket = options.get('bucket');
+      result = await inspector.getStats(typeof bucket === 'string' ? bucket : undefined);
       break;
+    }
 
     case 'entities':
     case 'ls':
@@ -233,6 +294,16 @@ async function main(): Promise<void> {
       result = await inspector.verifyProvenance();
       break;
 
+    case 'migrate-hashes': {
+      const algorithm = options.get('algorithm');
+      const actor = options.get('actor');
+      result = await inspector.migrateHashes(
+        typeof algorithm === 'string' ? algorithm : undefined,
+        typeof actor === 'string' ? actor : undefined
+      );
+      break;
+    }
+
     case 'context':
     case 'ctx':
       if (positional.length === 0) {
@@ -242,6 +313,20 @@ async function main(): Promise<void> {
       result = await inspector.inspectContext(positional[0]!);
       break;
 
+    case 'diff': {
+      if (positional.length === 0) {
+        console.error('Start time required');
+        process.exit(1);
+      }
+      const entities = options.get('entities');
+      const predicates = options.get('predicates');
+      result = await inspector.diff(positional[0], positional[1], {
+        ...(typeof entities === 'string' ? { entityIds: entities.split(',') } : {}),
+        ...(typeof predicates === 'string' ? { predicates: predicates.split(',') } : {}),
+      });
+      break;
+    }
+
     case 'export': {
       const format = (options.get('format') as string) ?? 'json';
       const outputFile = options.get('output') as string | undefined;
@@ -276,8 +361,15 @@ async function main(): Promise<void> {
           console.error(`Unknown resource type: ${resourceType}. Use 'entities' or 'claims'.`);
           process.exit(1);
         }
+      } else if (isRdfFormat(format)) {
+        const exportResult = await client.exportToRDF(format, { prettyPrint, ...rdfOptions(options) });
+        if (!exportResult.ok) {
+          console.error(`Export failed: ${exportResult.error.message}`);
+          process.exit(1);
+        }
+        output = exportResult.value;
       } else {
-        console.error(`Unknown format: ${format}. Use 'json' or 'csv'.`);
+        console.error(`Unknown format: ${format}. Use 'json', 'csv', 'ttl', 'jsonld' or 'nt'.`);
         process.exit(1);
       }
 
@@ -359,10 +451,88 @@ async function main(): Promise<void> {
           console.error(`Unknown resource type: ${resourceType}. Use 'entities' or 'claims'.`);
           process.exit(1);
         }
+      } else if (isRdfFormat(format)) {
+        const importResult = await client.importFromRDF(content, format, { dryRun, merge, onConflict, ...rdfOptions(options) });
+        if (!importResult.ok) {
+          console.error(`Import failed: ${importResult.error.message}`);
+          process.exit(1);
+        }
+        const r = importResult.value;
+        result = {
+          success: r.success,
+          output: dryRun
+            ? `Dry run: Would import ${r.entitiesImported} entities, ${r.claimsImported} claims`
+            : `Imported ${r.entitiesImported} entities, ${r.claimsImported} claims (${r.skipped} skipped)`,
+          data: r,
+        };
       } else {
-        console.error(`Unknown format: ${format}. Use 'json' or 'csv'.`);
+        console.error(`Unknown format: ${format}. Use 'json', 'csv', 'ttl', 'jsonld' or 'nt'.`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    case 'backup': {
+      const outputFile = options.get('output') as string | undefined;
+      const sinceSequence = options.get('since-sequence');
+      const since = options.get('since');
+      const collections = options.get('collections');
+
+      const backupResult = await client.backup({
+        ...(typeof sinceSequence === 'string' ? { sinceSequence: parseInt(sinceSequence, 10) } : {}),
+        ...(typeof since === 'string'
+          ? { since: createTimestamp(/^\d+$/.test(since) ? Number(since) : new Date(since)) }
+          : {}),
+        ...(typeof collections === 'string' ? { collections: collections.split(',') } : {}),
+      });
+      if (!backupResult.ok) {
+        console.error(`Backup failed: ${backupResult.error.message}`);
+        process.exit(1);
+      }
+
+      const snapshot = backupResult.value;
+      const output = JSON.stringify(snapshot, null, options.has('pretty') ? 2 : undefined);
+      const records = Object.values(snapshot.collections).reduce((total, items) => total + items.length, 0);
+      if (outputFile !== undefined) {
+        await fs.writeFile(outputFile, output, 'utf-8');
+        result = {
+          success: true,
+          output: `Backed up ${records} records up to sequence ${snapshot.sequence} to ${outputFile}`,
+          data: { records, sequence: snapshot.sequence, incremental: snapshot.incremental },
+        };
+      } else {
+        console.log(output);
+        result = { success: true, output: '' };
+      }
+      break;
+    }
+
+    case 'restore': {
+      const inputFile = positional[0];
+      if (inputFile === undefined) {
+        console.error('Input file required');
+        process.exit(1);
+      }
+
+      let snapshot: StorageSnapshot;
+      try {
+        snapshot = JSON.parse(await fs.readFile(inputFile, 'utf-8')) as StorageSnapshot;
+      } catch (error) {
+        console.error(`Failed to read file: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+
+      const restoreResult = await client.restore(snapshot);
+      if (!restoreResult.ok) {
+        console.error(`Restore failed: ${restoreResult.error.message}`);
         process.exit(1);
       }
+      const r = restoreResult.value;
+      result = {
+        success: true,
+        output: `Restored ${r.restored} records in ${r.collections} collections (${r.skipped} unchanged)`,
+        data: r,
+      };
       break;
     }
 
@@ -379,6 +549,7 @@ async function main(): Promise<void> {
     console.log(result.output);
   }
 
+  await client.getStorage().close();
   process.exit(result.success ? 0 : 1);
 }
 
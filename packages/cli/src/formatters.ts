@@ -10,6 +10,9 @@ import type { Policy } from '@contextgraph/sdk';
 import type { Agent } from '@contextgraph/sdk';
 import type { ProvenanceEntry } from '@contextgraph/sdk';
 import type { AuditEntry } from '@contextgraph/sdk';
+import type { PatternQueryResult } from '@contextgraph/sdk';
+import type { SystemStats } from '@contextgraph/sdk';
+import type { GraphDiff, ClaimChange } from '@contextgraph/sdk';
 
 /**
  * Format options
@@ -323,15 +326,12 @@ function formatRiskLevel(level: string, options?: FormatOptions): string {
 }
 
 /**
- * Format statistics
+ * Format statistics, with whichever breakdowns are present
  */
-export function formatStats(stats: {
-  entities: number;
-  claims: number;
-  agents: number;
-  decisions: number;
-  policies: number;
-}, options?: FormatOptions): string {
+export function formatStats(
+  stats: Pick<SystemStats, 'entities' | 'claims' | 'agents' | 'decisions' | 'policies'> & Partial<SystemStats>,
+  options?: FormatOptions
+): string {
   const lines: string[] = [];
 
   lines.push(color('System Statistics:', colors.bold, options));
@@ -342,9 +342,105 @@ export function formatStats(stats: {
   lines.push(`  Decisions: ${String(stats.decisions).padStart(6)}`);
   lines.push(`  Policies:  ${String(stats.policies).padStart(6)}`);
 
+  const breakdowns: [string, Readonly<Record<string, number>> | undefined][] = [
+    ['Entity types', stats.entityTypes],
+    ['Predicates', stats.predicates],
+    ['Jurisdictions', stats.jurisdictions],
+    ['Scopes', stats.scopes],
+    ['Provenance sources', stats.sourceTypes],
+  ];
+  for (const [title, counts] of breakdowns) {
+    if (counts === undefined || Object.keys(counts).length === 0) continue;
+    // Largest first, as aggregated
+    lines.push(...formatCounts(title, Object.entries(counts).slice(0, 10), options));
+  }
+  if (stats.claimsCreated !== undefined && Object.keys(stats.claimsCreated).length > 0) {
+    // Latest periods, oldest first
+    lines.push(...formatCounts('Claims created', Object.entries(stats.claimsCreated).slice(-10), options));
+  }
+
   return lines.join('\n');
 }
 
+/**
+ * Format labelled counts under a title
+ */
+function formatCounts(title: string, entries: readonly [string, number][], options?: FormatOptions): string[] {
+  const width = Math.max(...entries.map(([label]) => label.length));
+  return [
+    '',
+    color(`${title}:`, colors.bold, options),
+    ...entries.map(([label, count]) => `  ${label.padEnd(width)}  ${String(count).padStart(6)}`),
+  ];
+}
+
+/**
+ * Format the rows of a pattern query as a table
+ */
+export function formatQueryResult(result: PatternQueryResult, options?: FormatOptions): string {
+  if (result.rows.length === 0) {
+    return color('No matches.', colors.dim, options);
+  }
+
+  const cell = (value: unknown): string =>
+    (value === undefined || value === null ? '-' : typeof value === 'string' ? value : JSON.stringify(value)).slice(0, 38);
+  const widths = result.columns.map((column) =>
+    Math.max(column.length, ...result.rows.map((row) => cell(row[column]).length)) + 2
+  );
+
+  const lines: string[] = [];
+  const header = result.columns.map((column, i) => column.padEnd(widths[i])).join(' ');
+  lines.push(color(header, colors.bold, options));
+  lines.push('-'.repeat(header.length));
+
+  for (const row of result.rows) {
+    lines.push(result.columns.map((column, i) => cell(row[column]).padEnd(widths[i])).join(' '));
+  }
+
+  lines.push('');
+  lines.push(color(`Total: ${result.rows.length} rows`, colors.dim, options));
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the changes to the graph between two points in time
+ */
+export function formatDiff(diff: GraphDiff, options?: FormatOptions): string {
+  const lines: string[] = [];
+
+  lines.push(color(`Changes from ${formatTimestamp(diff.from)} to ${formatTimestamp(diff.to)}:`, colors.bold, options));
+
+  if (diff.added.length === 0 && diff.removed.length === 0) {
+    lines.push(color('  No claims started or stopped holding.', colors.dim, options));
+  }
+  if (diff.added.length > 0) {
+    lines.push('');
+    lines.push(color(`Added (${diff.added.length}):`, colors.bold, options));
+    lines.push(...diff.added.map((change) => formatChange('+', change, colors.green, options)));
+  }
+  if (diff.removed.length > 0) {
+    lines.push('');
+    lines.push(color(`Removed (${diff.removed.length}):`, colors.bold, options));
+    lines.push(...diff.removed.map((change) => formatChange('-', change, colors.red, options)));
+  }
+
+  lines.push('');
+  lines.push(color(`Recorded in between: ${diff.recorded.length} claims`, colors.dim, options));
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a claim that started or stopped holding as one line
+ */
+function formatChange(sign: string, change: ClaimChange, colorCode: string, options?: FormatOptions): string {
+  const { subjectId, predicate, objectId, objectValue } = change.claim.data;
+  const object = objectId ?? JSON.stringify(objectValue);
+  const reason = `${change.reason.replace('_', ' ')} ${formatTimestamp(change.at)}`;
+  return `  ${color(sign, colorCode, options)} ${subjectId} ${color(predicate, colors.yellow, options)} ${object} ${color(`(${reason})`, colors.dim, options)}`;
+}
+
 /**
  * Format JSON with optional pretty printing
  */
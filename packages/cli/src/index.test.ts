@@ -58,6 +58,22 @@ describe('CLI Formatters', () => {
       expect(formatted).toContain('Claims:');
       expect(formatted).toContain('500');
     });
+
+    it('lists breakdowns that are present', () => {
+      const formatted = formatStats({
+        entities: 3,
+        claims: 2,
+        agents: 0,
+        decisions: 0,
+        policies: 0,
+        predicates: { worksAt: 2 },
+        claimsCreated: { '2024-05': 1, '2024-06': 1 },
+      }, { colors: false });
+      expect(formatted).toContain('Predicates:');
+      expect(formatted).toMatch(/worksAt\s+2/);
+      expect(formatted).toMatch(/2024-06\s+1/);
+      expect(formatted).not.toContain('Entity types:');
+    });
   });
 });
 
@@ -83,6 +99,18 @@ describe('GraphInspector', () => {
       expect(result.success).toBe(true);
       expect(result.output).toContain('Statistics');
     });
+
+    it('breaks statistics down by type and creation period', async () => {
+      await client.createEntity({ type: 'person', name: 'Alice' });
+
+      const result = await inspector.getStats('month');
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('Entity types:');
+      expect(result.output).toMatch(/person\s+1/);
+
+      const invalid = await inspector.getStats('fortnight');
+      expect(invalid.success).toBe(false);
+    });
   });
 
   describe('listEntities', () => {
@@ -205,6 +233,20 @@ describe('GraphInspector', () => {
     });
   });
 
+  describe('migrateHashes', () => {
+    it('records nothing without legacy entries', async () => {
+      const result = await inspector.migrateHashes('sha512', 'ops');
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('No legacy');
+    });
+
+    it('rejects unknown algorithms', async () => {
+      const result = await inspector.migrateHashes('md5');
+      expect(result.success).toBe(false);
+      expect(result.output).toContain('Invalid hash algorithm');
+    });
+  });
+
   describe('getAuditTrail', () => {
     it('returns audit trail', async () => {
       const agent = await client.createAgent({ name: 'audit-agent' });
@@ -223,6 +265,44 @@ describe('GraphInspector', () => {
     });
   });
 
+  describe('runQuery', () => {
+    it('formats query rows as a table', async () => {
+      const entity = await client.createEntity({ type: 'service', name: 'API' });
+      if (!entity.ok) return;
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'owner', value: 'platform' });
+
+      const result = await inspector.runQuery('MATCH ?s owner ?team RETURN ?s.name AS service, ?team');
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([{ service: 'API', team: 'platform' }]);
+      expect(result.output).toContain('Total: 1 rows');
+    });
+
+    it('reports syntax errors', async () => {
+      const result = await inspector.runQuery('MATCH ?s owner');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('diff', () => {
+    it('lists claims added since a time', async () => {
+      const entity = await client.createEntity({ type: 'service', name: 'API' });
+      if (!entity.ok) return;
+      const since = new Date(Date.now() - 1000).toISOString();
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'owner', value: 'platform' });
+
+      const result = await inspector.diff(since, undefined, { predicates: ['owner'] });
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('Added (1):');
+      expect(result.output).toMatch(/\+ \S+ owner "platform" \(recorded/);
+    });
+
+    it('rejects invalid times', async () => {
+      const result = await inspector.diff('yesterday');
+      expect(result.success).toBe(false);
+      expect(result.output).toContain('Invalid time');
+    });
+  });
+
   describe('inspectContext', () => {
     it('assembles context for entity', async () => {
       const entity = await client.createEntity({ type: 'service', name: 'API' });
@@ -287,6 +367,27 @@ describe('ContextGraphRepl', () => {
       expect(output.some(o => o.includes('entities') || o.includes('No entities'))).toBe(true);
     });
 
+    it('executes query command with quoted literals', async () => {
+      const entity = await client.createEntity({ type: 'service', name: 'API' });
+      if (!entity.ok) return;
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'owner', value: 'platform team' });
+
+      await repl.execute('query MATCH ?s owner "platform team" RETURN ?s.name AS service');
+      expect(output.some(o => o.includes('API'))).toBe(true);
+    });
+
+    it('executes diff command with JSON output', async () => {
+      const entity = await client.createEntity({ type: 'service', name: 'API' });
+      if (!entity.ok) return;
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'owner', value: 'platform' });
+
+      await repl.execute('json on');
+      output = [];
+      await repl.execute(`diff 0 --entities ${entity.value.data.id}`);
+      const diff = JSON.parse(output[0]) as { added: { reason: string }[] };
+      expect(diff.added.map((change) => change.reason)).toEqual(['recorded']);
+    });
+
     it('toggles JSON output', async () => {
       await repl.execute('json on');
       expect(output.some(o => o.includes('enabled'))).toBe(true);
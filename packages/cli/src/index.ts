@@ -18,6 +18,8 @@ export {
   formatAuditEntry,
   formatAuditTrail,
   formatStats,
+  formatQueryResult,
+  formatDiff,
   formatJSON,
   formatTimestamp,
   formatResult,
@@ -4,8 +4,9 @@
  * Tools for inspecting and querying the ContextGraph.
  */
 
-import type { EntityId, Result } from '@contextgraph/core';
-import type { ContextGraph, Entity, Claim, Agent, Decision, Policy, AuditEntry } from '@contextgraph/sdk';
+import type { EntityId, Result, Timestamp } from '@contextgraph/core';
+import { createTimestamp } from '@contextgraph/sdk';
+import type { ContextGraph, Entity, Claim, Agent, Decision, Policy, AuditEntry, TimeBucket, HashAlgorithm } from '@contextgraph/sdk';
 import {
   formatEntity,
   formatEntityTable,
@@ -17,9 +18,13 @@ import {
   formatProvenance,
   formatAuditTrail,
   formatStats,
+  formatQueryResult,
+  formatDiff,
   type FormatOptions,
 } from './formatters.js';
 
+const TIME_BUCKETS: readonly TimeBucket[] = ['hour', 'day', 'week', 'month', 'year'];
+
 /**
  * Inspector configuration
  */
@@ -286,9 +291,15 @@ export class GraphInspector {
       if (result.value.invalidHashes.length > 0) {
         lines.push(`  Invalid hashes: ${result.value.invalidHashes.length}`);
       }
+      if (result.value.invalidSignatures.length > 0) {
+        lines.push(`  Invalid signatures: ${result.value.invalidSignatures.length}`);
+      }
     }
 
     lines.push(`  Entries verified: ${result.value.entriesVerified}`);
+    if (result.value.unsignedEntries.length > 0) {
+      lines.push(`  Unsigned entries: ${result.value.unsignedEntries.length}`);
+    }
 
     return {
       success: true,
@@ -298,10 +309,43 @@ export class GraphInspector {
   }
 
   /**
-   * Get system statistics
+   * Re-anchor provenance entries hashed under the legacy scheme with a
+   * cut-over entry
+   */
+  async migrateHashes(algorithm?: string, actor?: string): Promise<InspectorResult> {
+    const result = await this.client.migrateProvenanceHashes({
+      ...(algorithm !== undefined ? { algorithm: algorithm as HashAlgorithm } : {}),
+      ...(actor !== undefined ? { actor } : {}),
+    });
+    if (!result.ok) {
+      return { success: false, output: `Error: ${result.error.message}` };
+    }
+
+    const { anchoredEntries, cutover, recorded } = result.value;
+    let output: string;
+    if (cutover === undefined) {
+      output = 'No legacy provenance entries to re-anchor';
+    } else if (recorded) {
+      output = `Re-anchored ${anchoredEntries} legacy entries with cut-over entry ${cutover.data.id} (${cutover.data.hashAlgorithm})`;
+    } else {
+      output = `Already re-anchored: ${anchoredEntries} legacy entries at cut-over entry ${cutover.data.id}`;
+    }
+
+    return {
+      success: true,
+      output,
+      data: { anchoredEntries, recorded, cutoverId: cutover?.data.id ?? null },
+    };
+  }
+
+  /**
+   * Get system statistics, counting claims created per `bucket` period
    */
-  async getStats(): Promise<InspectorResult> {
-    const result = await this.client.getStats();
+  async getStats(bucket?: string): Promise<InspectorResult> {
+    if (bucket !== undefined && !TIME_BUCKETS.includes(bucket as TimeBucket)) {
+      return { success: false, output: `Error: Bucket must be one of ${TIME_BUCKETS.join(', ')}` };
+    }
+    const result = await this.client.getStats(bucket !== undefined ? { bucket: bucket as TimeBucket } : {});
     if (!result.ok) {
       return { success: false, output: `Error: ${result.error.message}` };
     }
@@ -356,6 +400,52 @@ export class GraphInspector {
     };
   }
 
+  /**
+   * Run a graph pattern query
+   */
+  async runQuery(text: string): Promise<InspectorResult> {
+    const result = await this.client.query(text);
+    if (!result.ok) {
+      return { success: false, output: `Error: ${result.error.message}` };
+    }
+
+    return {
+      success: true,
+      output: formatQueryResult(result.value, this.formatOptions),
+      data: result.value.rows,
+    };
+  }
+
+  /**
+   * Show what changed between two times, each an ISO date or milliseconds
+   * since the epoch (`to` defaults to now)
+   */
+  async diff(
+    from: string,
+    to?: string,
+    options: { entityIds?: readonly string[]; predicates?: readonly string[] } = {}
+  ): Promise<InspectorResult> {
+    const start = parseTime(from);
+    const end = to !== undefined ? parseTime(to) : createTimestamp();
+    if (start === undefined || end === undefined) {
+      return { success: false, output: `Error: Invalid time: ${start === undefined ? from : to}` };
+    }
+
+    const result = await this.client.diff(start, end, {
+      ...(options.entityIds !== undefined ? { entityIds: options.entityIds as EntityId[] } : {}),
+      ...(options.predicates !== undefined ? { predicates: options.predicates } : {}),
+    });
+    if (!result.ok) {
+      return { success: false, output: `Error: ${result.error.message}` };
+    }
+
+    return {
+      success: true,
+      output: formatDiff(result.value, this.formatOptions),
+      data: result.value,
+    };
+  }
+
   /**
    * Query provenance entries
    */
@@ -382,3 +472,11 @@ export class GraphInspector {
     };
   }
 }
+
+/**
+ * Parse an ISO date or milliseconds since the epoch
+ */
+function parseTime(text: string): Timestamp | undefined {
+  const time = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  return Number.isNaN(time) ? undefined : createTimestamp(time);
+}
@@ -16,6 +16,8 @@ export interface ReplCommand {
   readonly aliases?: readonly string[];
   readonly description: string;
   readonly usage: string;
+  /** Receive everything after the command name, unparsed, as the only argument */
+  readonly rawArgs?: boolean;
   readonly execute: (args: string[], repl: ContextGraphRepl) => Promise<void>;
 }
 
@@ -103,7 +105,7 @@ export class ContextGraphRepl {
     }
 
     try {
-      await command.execute(args, this);
+      await command.execute(command.rawArgs === true ? [trimmed.replace(/^\S+\s*/, '')] : args, this);
     } catch (error) {
       this.printError(error instanceof Error ? error.message : String(error));
     }
@@ -220,9 +222,9 @@ export class ContextGraphRepl {
     this.registerCommand({
       name: 'stats',
       description: 'Show system statistics',
-      usage: 'stats',
-      execute: async (_args, repl) => {
-        const result = await repl.getInspector().getStats();
+      usage: 'stats [hour|day|week|month|year]',
+      execute: async (args, repl) => {
+        const result = await repl.getInspector().getStats(args[0]);
         repl.handleResult(result);
       },
     });
@@ -388,6 +390,56 @@ export class ContextGraphRepl {
       },
     });
 
+    // Query command
+    this.registerCommand({
+      name: 'query',
+      description: 'Run a graph pattern query',
+      usage: 'query MATCH <subject> <predicate> <object>, ... [WHERE ...] [RETURN ...] [ORDER BY ...] [LIMIT N]',
+      rawArgs: true,
+      execute: async (args, repl) => {
+        if (args[0] === undefined || args[0] === '') {
+          repl.printError('Query required');
+          return;
+        }
+        const result = await repl.getInspector().runQuery(args[0]);
+        repl.handleResult(result);
+      },
+    });
+
+    // Diff command
+    this.registerCommand({
+      name: 'diff',
+      description: 'Show claims that started or stopped holding between two times',
+      usage: 'diff <from> [to] [--entities id,...] [--predicates name,...]',
+      execute: async (args, repl) => {
+        const times: string[] = [];
+        let entityIds: string[] | undefined;
+        let predicates: string[] | undefined;
+        for (let i = 0; i < args.length; i++) {
+          const arg = args[i];
+          const value = args[i + 1];
+          if (arg === '--entities' && value !== undefined) {
+            entityIds = value.split(',');
+            i++;
+          } else if (arg === '--predicates' && value !== undefined) {
+            predicates = value.split(',');
+            i++;
+          } else if (arg !== undefined) {
+            times.push(arg);
+          }
+        }
+        if (times[0] === undefined) {
+          repl.printError('Start time required');
+          return;
+        }
+        const result = await repl.getInspector().diff(times[0], times[1], {
+          ...(entityIds !== undefined ? { entityIds } : {}),
+          ...(predicates !== undefined ? { predicates } : {}),
+        });
+        repl.handleResult(result);
+      },
+    });
+
     // JSON command
     this.registerCommand({
       name: 'json',
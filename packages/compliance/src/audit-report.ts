@@ -7,6 +7,7 @@
 import { ok, err, createTimestamp } from '@contextgraph/core';
 import type { Result, Timestamp } from '@contextgraph/core';
 import type { StorageInterface } from '@contextgraph/storage';
+import { readReportRecords, withTimeRange } from './query.js';
 import type {
   AuditReportOptions,
   AuditReport,
@@ -81,31 +82,18 @@ export class AuditReportGenerator {
     }
 
     // Query audit records
-    const queryOptions: { limit: number; offset?: number } = {
-      limit: options.limit ?? 1000,
-    };
-    if (options.offset !== undefined) {
-      queryOptions.offset = options.offset;
-    }
-
-    const result = await this.storage.find<AuditRecord>(
+    const result = await readReportRecords<AuditRecord>(
+      this.storage,
       this.auditCollection,
-      criteria,
-      queryOptions
+      withTimeRange(criteria, 'timestamp', options),
+      options
     );
 
     if (!result.ok) {
       return err(result.error);
     }
 
-    // Filter by time range if specified
-    let records = result.value.items;
-    if (options.startTime !== undefined) {
-      records = records.filter((r) => r.timestamp >= options.startTime!);
-    }
-    if (options.endTime !== undefined) {
-      records = records.filter((r) => r.timestamp <= options.endTime!);
-    }
+    const records = result.value;
 
     // Get agent names for enrichment
     const agentNames = await this.getAgentNames(records.map((r) => r.agentId));
@@ -7,6 +7,7 @@
 import { ok, err, createTimestamp } from '@contextgraph/core';
 import type { Result, Timestamp } from '@contextgraph/core';
 import type { StorageInterface } from '@contextgraph/storage';
+import { readReportRecords, withTimeRange } from './query.js';
 import type {
   DecisionReportOptions,
   DecisionReport,
@@ -74,31 +75,18 @@ export class DecisionReportGenerator {
     }
 
     // Query decision records
-    const queryOptions: { limit: number; offset?: number } = {
-      limit: options.limit ?? 1000,
-    };
-    if (options.offset !== undefined) {
-      queryOptions.offset = options.offset;
-    }
-
-    const result = await this.storage.find<DecisionRecord>(
+    const result = await readReportRecords<DecisionRecord>(
+      this.storage,
       this.decisionCollection,
-      criteria,
-      queryOptions
+      withTimeRange(criteria, 'proposedAt', options),
+      options
     );
 
     if (!result.ok) {
       return err(result.error);
     }
 
-    // Filter by time range if specified
-    let records = result.value.items;
-    if (options.startTime !== undefined) {
-      records = records.filter((r) => r.proposedAt >= options.startTime!);
-    }
-    if (options.endTime !== undefined) {
-      records = records.filter((r) => r.proposedAt <= options.endTime!);
-    }
+    const records = result.value;
 
     // Convert to decision entries
     const entries: DecisionEntry[] = records.map((record) => {
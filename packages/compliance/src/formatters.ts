@@ -126,6 +126,8 @@ export function formatProvenanceReportAsCSV(report: ProvenanceReport): string {
     'claimId',
     'previousHash',
     'hash',
+    'signatureKeyId',
+    'signatureStatus',
   ];
 
   return formatAsCSV(report.entries as unknown as Record<string, unknown>[], columns);
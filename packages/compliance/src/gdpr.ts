@@ -6,7 +6,7 @@
 
 import { ok, err, createTimestamp } from '@contextgraph/core';
 import type { Result, Timestamp } from '@contextgraph/core';
-import type { StorageInterface } from '@contextgraph/storage';
+import type { StorageError, StorageInterface, StorageRecord } from '@contextgraph/storage';
 import type {
   GDPROptions,
   PersonalDataReport,
@@ -29,6 +29,9 @@ interface EntityRecord {
   readonly name: string;
   readonly properties?: string;
   readonly createdAt: Timestamp;
+  /** Set on tombstones of deleted and merged entities */
+  readonly deletedAt?: Timestamp | null;
+  readonly mergedInto?: string | null;
   readonly [key: string]: unknown;
 }
 
@@ -200,7 +203,8 @@ export class GDPRComplianceManager {
 
   /**
    * Delete personal data (Right to Erasure / Right to be Forgotten)
-   * Note: This anonymizes data rather than fully deleting to preserve audit integrity
+   * Note: This anonymizes data rather than fully deleting to preserve audit integrity.
+   * Prior versions of each anonymized record are erased, as they still hold the data.
    */
   async deletePersonalData(options: GDPROptions): Promise<Result<DeletionResult, Error>> {
     const now = createTimestamp();
@@ -223,15 +227,22 @@ export class GDPRComplianceManager {
     // Anonymize or delete entities
     for (const entity of data.entities) {
       if (anonymize) {
+        // A deleted or merged entity stays a tombstone
+        const stored = await this.storage.findById<EntityRecord>('entities', entity.id);
+        const tombstone = stored.ok ? stored.value : null;
         const anonymizedRecord: EntityRecord = {
           id: entity.id,
           type: entity.type,
           name: '[REDACTED]',
+          aliases: null,
+          metadata: null,
           properties: JSON.stringify({ anonymized: true, originalId: subjectId }),
           createdAt: entity.createdAt,
+          ...(typeof tombstone?.deletedAt === 'number' ? { deletedAt: tombstone.deletedAt } : {}),
+          ...(typeof tombstone?.mergedInto === 'string' ? { mergedInto: tombstone.mergedInto } : {}),
         };
 
-        const result = await this.storage.upsert('entities', anonymizedRecord);
+        const result = await this.anonymizeRecord('entities', anonymizedRecord);
         if (result.ok) {
           entitiesDeleted++;
         } else {
@@ -252,7 +263,7 @@ export class GDPRComplianceManager {
           revokedAt: now,
         };
 
-        const result = await this.storage.upsert('claims', anonymizedRecord);
+        const result = await this.anonymizeRecord('claims', anonymizedRecord);
         if (result.ok) {
           claimsDeleted++;
         } else {
@@ -274,7 +285,7 @@ export class GDPRComplianceManager {
           createdAt: decision.proposedAt,
         };
 
-        const result = await this.storage.upsert('decisions', anonymizedRecord);
+        const result = await this.anonymizeRecord('decisions', anonymizedRecord);
         if (result.ok) {
           decisionsAnonymized++;
         } else {
@@ -296,7 +307,7 @@ export class GDPRComplianceManager {
           createdAt: entry.timestamp,
         };
 
-        const result = await this.storage.upsert('audit_trail', anonymizedRecord);
+        const result = await this.anonymizeRecord('audit_trail', anonymizedRecord);
         if (result.ok) {
           auditEntriesAnonymized++;
         } else {
@@ -316,6 +327,23 @@ export class GDPRComplianceManager {
     });
   }
 
+  /**
+   * Replace a record with its anonymized form and erase its prior versions
+   */
+  private async anonymizeRecord(collection: string, record: StorageRecord): Promise<Result<void, StorageError>> {
+    return this.storage.transaction(async () => {
+      const written = await this.storage.upsert(collection, record);
+      if (!written.ok) {
+        return written;
+      }
+      const erased = await this.storage.eraseHistory(collection, record.id);
+      if (!erased.ok) {
+        return erased;
+      }
+      return ok(undefined);
+    });
+  }
+
   /**
    * Find entities for a subject
    */
@@ -338,16 +366,10 @@ export class GDPRComplianceManager {
       });
     }
 
-    // If including related, search for entities by name pattern
+    // If including related, scan all entities for references to the subject
     if (includeRelated) {
-      const relatedResult = await this.storage.find<EntityRecord>(
-        'entities',
-        {},
-        { limit: 100 }
-      );
-
-      if (relatedResult.ok) {
-        for (const record of relatedResult.value.items) {
+      try {
+        for await (const record of this.storage.stream<EntityRecord>('entities')) {
           // Check if entity references the subject in properties
           if (record.properties !== undefined) {
             const props = JSON.parse(record.properties);
@@ -364,6 +386,8 @@ export class GDPRComplianceManager {
             }
           }
         }
+      } catch (error) {
+        return err(error instanceof Error ? error : new Error(String(error)));
       }
     }
 
@@ -374,29 +398,25 @@ export class GDPRComplianceManager {
    * Find claims for a subject
    */
   private async findClaims(subjectId: string): Promise<Result<PersonalDataClaim[], Error>> {
-    const result = await this.storage.find<ClaimRecord>(
-      'claims',
-      { subjectId },
-      { limit: 1000 }
-    );
-
-    if (!result.ok) {
-      return err(result.error);
-    }
+    const claims: PersonalDataClaim[] = [];
 
-    const claims: PersonalDataClaim[] = result.value.items.map((record) => {
-      const claim: PersonalDataClaim = {
-        id: record.id,
-        subjectId: record.subjectId,
-        predicate: record.predicate,
-        value: this.parseValue(record.value),
-        createdAt: record.createdAt,
-      };
-      if (record.revokedAt !== undefined) {
-        (claim as { revokedAt?: Timestamp }).revokedAt = record.revokedAt;
+    try {
+      for await (const record of this.storage.stream<ClaimRecord>('claims', { subjectId })) {
+        const claim: PersonalDataClaim = {
+          id: record.id,
+          subjectId: record.subjectId,
+          predicate: record.predicate,
+          value: this.parseValue(record.value),
+          createdAt: record.createdAt,
+        };
+        if (record.revokedAt !== undefined) {
+          (claim as { revokedAt?: Timestamp }).revokedAt = record.revokedAt;
+        }
+        claims.push(claim);
       }
-      return claim;
-    });
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
 
     return ok(claims);
   }
@@ -405,24 +425,22 @@ export class GDPRComplianceManager {
    * Find decisions for a subject
    */
   private async findDecisions(subjectId: string): Promise<Result<PersonalDataDecision[], Error>> {
-    const result = await this.storage.find<DecisionRecord>(
-      'decisions',
-      { proposedBy: subjectId },
-      { limit: 1000 }
-    );
-
-    if (!result.ok) {
-      return err(result.error);
-    }
+    const decisions: PersonalDataDecision[] = [];
 
-    const decisions: PersonalDataDecision[] = result.value.items.map((record) => ({
-      id: record.id,
-      type: record.type,
-      title: record.title,
-      status: record.status,
-      proposedBy: record.proposedBy,
-      proposedAt: record.proposedAt,
-    }));
+    try {
+      for await (const record of this.storage.stream<DecisionRecord>('decisions', { proposedBy: subjectId })) {
+        decisions.push({
+          id: record.id,
+          type: record.type,
+          title: record.title,
+          status: record.status,
+          proposedBy: record.proposedBy,
+          proposedAt: record.proposedAt,
+        });
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
 
     return ok(decisions);
   }
@@ -431,33 +449,29 @@ export class GDPRComplianceManager {
    * Find audit entries for a subject
    */
   private async findAuditEntries(subjectId: string): Promise<Result<AuditEntry[], Error>> {
-    const result = await this.storage.find<AuditRecord>(
-      'audit_trail',
-      { agentId: subjectId },
-      { limit: 1000 }
-    );
-
-    if (!result.ok) {
-      return err(result.error);
-    }
+    const entries: AuditEntry[] = [];
 
-    const entries: AuditEntry[] = result.value.items.map((record) => {
-      const entry: AuditEntry = {
-        id: record.id,
-        timestamp: record.timestamp,
-        agentId: record.agentId,
-        action: record.action,
-        resourceType: record.resourceType,
-        outcome: record.outcome,
-      };
-      if (record.resourceId !== undefined) {
-        (entry as { resourceId?: string }).resourceId = record.resourceId;
-      }
-      if (record.reason !== undefined) {
-        (entry as { reason?: string }).reason = record.reason;
+    try {
+      for await (const record of this.storage.stream<AuditRecord>('audit_trail', { agentId: subjectId })) {
+        const entry: AuditEntry = {
+          id: record.id,
+          timestamp: record.timestamp,
+          agentId: record.agentId,
+          action: record.action,
+          resourceType: record.resourceType,
+          outcome: record.outcome,
+        };
+        if (record.resourceId !== undefined) {
+          (entry as { resourceId?: string }).resourceId = record.resourceId;
+        }
+        if (record.reason !== undefined) {
+          (entry as { reason?: string }).reason = record.reason;
+        }
+        entries.push(entry);
       }
-      return entry;
-    });
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
 
     return ok(entries);
   }
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryStorage } from '@contextgraph/storage';
 import { createTimestamp } from '@contextgraph/core';
 import type { Timestamp } from '@contextgraph/core';
+import { ActorKeyRegistry, Ed25519Signer, ProvenanceLedger, generateActorKeyPair } from '@contextgraph/provenance';
 import {
   AuditReportGenerator,
   AccessReportGenerator,
@@ -114,6 +115,21 @@ describe('AuditReportGenerator', () => {
     }
   });
 
+  it('should apply the time range before paging', async () => {
+    const all = await generator.generate();
+    if (!all.ok) throw new Error('Failed to generate report');
+    const newest = Math.max(...all.value.entries.map((e) => e.timestamp));
+
+    const result = await generator.generate({ endTime: (newest - 500) as Timestamp, limit: 1 });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.entries.map((e) => e.id)).toEqual(['audit_2']);
+    }
+
+    const offset = await generator.generate({ endTime: (newest - 500) as Timestamp, limit: 1, offset: 1 });
+    expect(offset.ok && offset.value.entries.map((e) => e.id)).toEqual(['audit_1']);
+  });
+
   it('should calculate summary correctly', async () => {
     const result = await generator.generate();
     expect(result.ok).toBe(true);
@@ -386,6 +402,45 @@ describe('ProvenanceReportGenerator', () => {
       expect(result.value.summary.byAction['add_claim']).toBe(1);
     }
   });
+
+  it('should report unsigned and invalidly signed entries', async () => {
+    const signedStorage = new InMemoryStorage();
+    await signedStorage.initialize();
+    const keys = new ActorKeyRegistry(signedStorage);
+    const signer = new Ed25519Signer();
+    const ledger = new ProvenanceLedger(signedStorage, { signer });
+    await ledger.initialize();
+
+    const alice = generateActorKeyPair();
+    await keys.register({ id: 'alice-1', actor: 'alice', actorType: 'human', publicKey: alice.publicKey });
+    signer.addKey('alice', 'alice-1', alice.privateKey);
+    const mallory = generateActorKeyPair();
+    const forger = new Ed25519Signer();
+    forger.addKey('alice', 'alice-1', mallory.privateKey);
+
+    await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' });
+    await ledger.record({ sourceType: 'agent', actor: 'bot', action: 'derive' });
+    const forged = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' }, { signer: forger });
+    if (!forged.ok) throw forged.error;
+    const unsigned = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' }, { signer: new Ed25519Signer() });
+    if (!unsigned.ok) throw unsigned.error;
+
+    const checked = await new ProvenanceReportGenerator(signedStorage, { keys }).generate();
+    if (!checked.ok) throw checked.error;
+    expect(checked.value.entries.map((entry) => entry.signatureStatus).sort()).toEqual(['invalid', 'invalid', 'unsigned', 'valid']);
+    expect(checked.value.chainIntegrity.valid).toBe(false);
+    expect(checked.value.chainIntegrity.unsignedEntries).toBe(1);
+    expect(checked.value.chainIntegrity.invalidSignatures).toBe(2);
+    expect([...checked.value.chainIntegrity.errors].sort()).toEqual([
+      `Invalid signature at entry ${forged.value.data.id}: bad_signature`,
+      `Invalid signature at entry ${unsigned.value.data.id}: missing_signature`,
+    ].sort());
+
+    const unchecked = await new ProvenanceReportGenerator(signedStorage).generate();
+    if (!unchecked.ok) throw unchecked.error;
+    expect(unchecked.value.entries.map((entry) => entry.signatureStatus).sort()).toEqual(['unsigned', 'unsigned', 'unverified', 'unverified']);
+    expect(unchecked.value.chainIntegrity.valid).toBe(true);
+  });
 });
 
 describe('GDPRComplianceManager', () => {
@@ -506,6 +561,50 @@ describe('GDPRComplianceManager', () => {
         expect((entityResult.value as { name: string }).name).toBe('[REDACTED]');
       }
     });
+
+    it('should erase prior versions of anonymized claims and decisions', async () => {
+      const claim = await storage.findById('claims', 'claim_1');
+      expect(claim.ok && claim.value !== null).toBe(true);
+      if (claim.ok && claim.value !== null) {
+        await storage.upsert('claims', { ...claim.value, value: JSON.stringify('john@x.com') });
+      }
+      const decision = await storage.findById('decisions', 'dec_1');
+      if (decision.ok && decision.value !== null) {
+        await storage.upsert('decisions', { ...decision.value, title: 'Grant john@x.com access' });
+      }
+
+      const result = await manager.deletePersonalData({ subjectId: 'user_john', anonymize: true });
+      expect(result.ok && result.value.claimsDeleted).toBe(2);
+      expect(result.ok && result.value.decisionsAnonymized).toBe(1);
+
+      for (const [collection, id] of [['claims', 'claim_1'], ['claims', 'claim_2'], ['decisions', 'dec_1']] as const) {
+        const versions = await storage.findVersions(collection, id);
+        expect(versions.ok && versions.value.length).toBe(1);
+        expect(JSON.stringify(versions.ok && versions.value)).not.toMatch(/john@x\.com|user_john|developer|Acme Corp/);
+      }
+      const changes = await storage.changesSince(0, { collections: ['claims', 'decisions'] });
+      expect(changes.ok && changes.value.length).toBeGreaterThan(0);
+      expect(JSON.stringify(changes.ok && changes.value)).not.toMatch(/john@x\.com|user_john|developer|Acme Corp/);
+    });
+
+    it('should erase entity versions and keep tombstones deleted', async () => {
+      const entity = await storage.findById('entities', 'user_john');
+      const deletedAt = createTimestamp();
+      if (entity.ok && entity.value !== null) {
+        await storage.upsert('entities', { ...entity.value, name: 'John Smith', aliases: JSON.stringify(['Johnny']) });
+        await storage.upsert('entities', { ...entity.value, name: 'John Smith', deletedAt });
+      }
+
+      const result = await manager.deletePersonalData({ subjectId: 'user_john', anonymize: true });
+      expect(result.ok && result.value.entitiesDeleted).toBe(1);
+
+      const versions = await storage.findVersions('entities', 'user_john');
+      expect(versions.ok && versions.value.length).toBe(1);
+      expect(JSON.stringify(versions.ok && versions.value)).not.toMatch(/John|john@example\.com|555-1234/);
+      const erased = await storage.findById('entities', 'user_john');
+      expect(erased.ok && erased.value?.['name']).toBe('[REDACTED]');
+      expect(erased.ok && erased.value?.['deletedAt']).toBe(deletedAt);
+    });
   });
 });
 
@@ -18,6 +18,7 @@ export type {
   AccessEntry,
   DecisionEntry,
   ProvenanceEntry,
+  ProvenanceSignatureStatus,
   AuditReport,
   AuditSummary,
   AccessReport,
@@ -39,7 +40,7 @@ export type {
 export { AuditReportGenerator } from './audit-report.js';
 export { AccessReportGenerator } from './access-report.js';
 export { DecisionReportGenerator } from './decision-report.js';
-export { ProvenanceReportGenerator } from './provenance-report.js';
+export { ProvenanceReportGenerator, type ProvenanceReportGeneratorOptions } from './provenance-report.js';
 
 // GDPR Compliance
 export { GDPRComplianceManager } from './gdpr.js';
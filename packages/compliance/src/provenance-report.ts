@@ -1,16 +1,31 @@
 /**
  * Provenance Report Generator
  *
- * Generates data lineage and provenance chain reports.
+ * Generates data lineage and provenance chain reports. With a key
+ * registry, entry signatures are checked as well, and unsigned entries of
+ * actors that held a valid key are reported as invalid; otherwise signed
+ * entries are reported as unverified.
  */
 
 import { ok, err, createTimestamp } from '@contextgraph/core';
 import type { Result, Timestamp } from '@contextgraph/core';
 import type { StorageInterface } from '@contextgraph/storage';
+import {
+  ProvenanceEntry as LedgerEntry,
+  checkEntrySignature,
+  checkUnsignedEntry,
+  type ActorKey,
+  type ActorKeyRegistry,
+  type ProvenanceRecord as LedgerRecord,
+  type SignatureCheck,
+  type SignatureFailure,
+} from '@contextgraph/provenance';
+import { readReportRecords, withTimeRange } from './query.js';
 import type {
   ProvenanceReportOptions,
   ProvenanceReport,
   ProvenanceEntry,
+  ProvenanceSignatureStatus,
   ProvenanceSummary,
   ChainIntegrity,
   ReportMetadata,
@@ -25,24 +40,37 @@ interface ProvenanceRecord {
   readonly sourceType: string;
   readonly sourceId: string;
   readonly action: string;
+  readonly actor?: string | null;
   readonly entityId?: string;
   readonly claimId?: string;
-  readonly previousHash?: string;
+  readonly previousHash?: string | null;
   readonly hash: string;
-  readonly metadata?: string;
+  readonly metadata?: string | null;
+  readonly signature?: string | null;
+  readonly signatureKeyId?: string | null;
   readonly createdAt: Timestamp;
   readonly [key: string]: unknown;
 }
 
+/**
+ * Provenance report generator options
+ */
+export interface ProvenanceReportGeneratorOptions {
+  /** Registry to check entry signatures against */
+  readonly keys?: ActorKeyRegistry;
+}
+
 /**
  * Provenance Report Generator class
  */
 export class ProvenanceReportGenerator {
   private readonly storage: StorageInterface;
+  private readonly keys: ActorKeyRegistry | undefined;
   private readonly provenanceCollection = 'provenance';
 
-  constructor(storage: StorageInterface) {
+  constructor(storage: StorageInterface, options: ProvenanceReportGeneratorOptions = {}) {
     this.storage = storage;
+    this.keys = options.keys;
   }
 
   /**
@@ -65,33 +93,25 @@ export class ProvenanceReportGenerator {
     }
 
     // Query provenance records
-    const queryOptions: { limit: number; offset?: number; orderBy?: string; orderDirection?: 'asc' | 'desc' } = {
-      limit: options.limit ?? 1000,
-      orderBy: 'timestamp',
-      orderDirection: 'asc',
-    };
-    if (options.offset !== undefined) {
-      queryOptions.offset = options.offset;
-    }
-
-    const result = await this.storage.find<ProvenanceRecord>(
+    const result = await readReportRecords<ProvenanceRecord>(
+      this.storage,
       this.provenanceCollection,
-      criteria,
-      queryOptions
+      withTimeRange(criteria, 'timestamp', options),
+      { ...options, orderBy: 'timestamp', orderDirection: 'asc' }
     );
 
     if (!result.ok) {
       return err(result.error);
     }
 
-    // Filter by time range if specified
-    let records = result.value.items;
-    if (options.startTime !== undefined) {
-      records = records.filter((r) => r.timestamp >= options.startTime!);
-    }
-    if (options.endTime !== undefined) {
-      records = records.filter((r) => r.timestamp <= options.endTime!);
+    const records = result.value;
+
+    // Check signatures
+    const signatures = await this.checkSignatures(records);
+    if (!signatures.ok) {
+      return err(signatures.error);
     }
+    const { statuses, failures } = signatures.value;
 
     // Convert to provenance entries
     const entries: ProvenanceEntry[] = records.map((record) => {
@@ -102,17 +122,21 @@ export class ProvenanceReportGenerator {
         sourceId: record.sourceId,
         action: record.action,
         hash: record.hash,
+        signatureStatus: statuses.get(record.id) ?? 'unsigned',
       };
+      if (record.signatureKeyId !== undefined && record.signatureKeyId !== null) {
+        (entry as { signatureKeyId?: string }).signatureKeyId = record.signatureKeyId;
+      }
       if (record.entityId !== undefined) {
         (entry as { entityId?: string }).entityId = record.entityId;
       }
       if (record.claimId !== undefined) {
         (entry as { claimId?: string }).claimId = record.claimId;
       }
-      if (record.previousHash !== undefined) {
+      if (record.previousHash !== undefined && record.previousHash !== null) {
         (entry as { previousHash?: string }).previousHash = record.previousHash;
       }
-      if (record.metadata !== undefined) {
+      if (record.metadata !== undefined && record.metadata !== null) {
         (entry as { metadata?: Record<string, unknown> }).metadata = JSON.parse(record.metadata);
       }
       return entry;
@@ -122,7 +146,7 @@ export class ProvenanceReportGenerator {
     const summary = this.generateSummary(entries);
 
     // Verify chain integrity
-    const chainIntegrity = this.verifyChainIntegrity(entries);
+    const chainIntegrity = this.verifyChainIntegrity(entries, failures);
 
     // Build metadata
     const metadata: ReportMetadata = {
@@ -184,16 +208,74 @@ export class ProvenanceReportGenerator {
     return summary;
   }
 
+  /**
+   * Signature status of each record, and why invalid signatures failed
+   */
+  private async checkSignatures(records: readonly ProvenanceRecord[]): Promise<Result<{
+    statuses: Map<string, ProvenanceSignatureStatus>;
+    failures: Map<string, SignatureFailure>;
+  }, Error>> {
+    const statuses = new Map<string, ProvenanceSignatureStatus>();
+    const failures = new Map<string, SignatureFailure>();
+    const keys = new Map<string, ActorKey | null>();
+    const actorKeys = new Map<string, readonly ActorKey[]>();
+
+    for (const record of records) {
+      const keyId = record.signatureKeyId ?? undefined;
+      const unsigned = record.signature === undefined || record.signature === null || keyId === undefined;
+      if (this.keys === undefined) {
+        statuses.set(record.id, unsigned ? 'unsigned' : 'unverified');
+        continue;
+      }
+
+      let check: SignatureCheck;
+      if (unsigned) {
+        const actor = record.actor ?? undefined;
+        if (actor !== undefined && !actorKeys.has(actor)) {
+          const listed = await this.keys.listForActor(actor);
+          if (!listed.ok) {
+            return err(listed.error);
+          }
+          actorKeys.set(actor, listed.value);
+        }
+        check = checkUnsignedEntry(
+          LedgerEntry.fromRecord(record as unknown as LedgerRecord),
+          actor !== undefined ? (actorKeys.get(actor) ?? []) : []
+        );
+      } else {
+        if (!keys.has(keyId)) {
+          const key = await this.keys.get(keyId);
+          if (!key.ok) {
+            return err(key.error);
+          }
+          keys.set(keyId, key.value);
+        }
+        check = checkEntrySignature(LedgerEntry.fromRecord(record as unknown as LedgerRecord), keys.get(keyId) ?? null);
+      }
+      statuses.set(record.id, check.status);
+      if (check.reason !== undefined) {
+        failures.set(record.id, check.reason);
+      }
+    }
+
+    return ok({ statuses, failures });
+  }
+
   /**
    * Verify chain integrity
    */
-  private verifyChainIntegrity(entries: readonly ProvenanceEntry[]): ChainIntegrity {
+  private verifyChainIntegrity(
+    entries: readonly ProvenanceEntry[],
+    signatureFailures: ReadonlyMap<string, SignatureFailure>
+  ): ChainIntegrity {
     if (entries.length === 0) {
       return {
         valid: true,
         entriesVerified: 0,
         brokenLinks: 0,
         invalidHashes: 0,
+        unsignedEntries: 0,
+        invalidSignatures: 0,
         errors: [],
       };
     }
@@ -201,6 +283,8 @@ export class ProvenanceReportGenerator {
     const errors: string[] = [];
     let brokenLinks = 0;
     let invalidHashes = 0;
+    let unsignedEntries = 0;
+    let invalidSignatures = 0;
 
     // Sort by timestamp
     const sortedEntries = [...entries].sort((a, b) => a.timestamp - b.timestamp);
@@ -223,16 +307,28 @@ export class ProvenanceReportGenerator {
       }
     }
 
+    // Verify authorship
+    for (const entry of sortedEntries) {
+      if (entry.signatureStatus === 'unsigned') {
+        unsignedEntries++;
+      } else if (entry.signatureStatus === 'invalid') {
+        invalidSignatures++;
+        errors.push(`Invalid signature at entry ${entry.id}: ${signatureFailures.get(entry.id) ?? 'bad_signature'}`);
+      }
+    }
+
     // Note: Full hash verification would require re-computing hashes
     // For now, we only check structural integrity
 
-    const valid = brokenLinks === 0 && invalidHashes === 0;
+    const valid = brokenLinks === 0 && invalidHashes === 0 && invalidSignatures === 0;
 
     return {
       valid,
       entriesVerified: sortedEntries.length,
       brokenLinks,
       invalidHashes,
+      unsignedEntries,
+      invalidSignatures,
       errors,
     };
   }
@@ -0,0 +1,77 @@
+/**
+ * Report Queries
+ *
+ * Shared helpers for reading report records from storage. Records are
+ * streamed in batches, and only the requested page is kept in memory.
+ */
+
+import { ok, err } from '@contextgraph/core';
+import type { Result } from '@contextgraph/core';
+import { DEFAULT_STREAM_BATCH_SIZE } from '@contextgraph/storage';
+import type { StorageInterface, StorageRecord, QueryCriteria } from '@contextgraph/storage';
+import type { ReportOptions } from './types.js';
+
+/**
+ * Default number of records included in a report
+ */
+export const DEFAULT_REPORT_LIMIT = 1000;
+
+/**
+ * Add the report time range as a storage criterion on `field`
+ */
+export function withTimeRange(
+  criteria: Record<string, unknown>,
+  field: string,
+  options: ReportOptions
+): QueryCriteria {
+  if (options.startTime === undefined && options.endTime === undefined) {
+    return criteria;
+  }
+
+  return {
+    ...criteria,
+    [field]: {
+      ...(options.startTime !== undefined ? { $gte: options.startTime } : {}),
+      ...(options.endTime !== undefined ? { $lte: options.endTime } : {}),
+    },
+  };
+}
+
+/**
+ * Read one page of report records, applying offset and limit while streaming
+ */
+export async function readReportRecords<T extends StorageRecord>(
+  storage: StorageInterface,
+  collection: string,
+  criteria: QueryCriteria,
+  options: ReportOptions & { orderBy?: string; orderDirection?: 'asc' | 'desc' }
+): Promise<Result<T[], Error>> {
+  const limit = options.limit ?? DEFAULT_REPORT_LIMIT;
+  let skip = options.offset ?? 0;
+  const records: T[] = [];
+  if (limit <= 0) {
+    return ok(records);
+  }
+
+  try {
+    const stream = storage.stream<T>(collection, criteria, {
+      ...(options.orderBy !== undefined ? { orderBy: options.orderBy } : {}),
+      ...(options.orderDirection !== undefined ? { orderDirection: options.orderDirection } : {}),
+      batchSize: Math.min(limit + skip, DEFAULT_STREAM_BATCH_SIZE),
+    });
+    for await (const record of stream) {
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      records.push(record);
+      if (records.length >= limit) {
+        break;
+      }
+    }
+  } catch (error) {
+    return err(error instanceof Error ? error : new Error(String(error)));
+  }
+
+  return ok(records);
+}
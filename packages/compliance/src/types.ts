@@ -144,8 +144,17 @@ export interface ProvenanceEntry {
   readonly previousHash?: string;
   readonly hash: string;
   readonly metadata?: Readonly<Record<string, unknown>>;
+  /** Key the entry was signed with */
+  readonly signatureKeyId?: string;
+  readonly signatureStatus: ProvenanceSignatureStatus;
 }
 
+/**
+ * Signature status of a provenance entry; `unverified` when signed but
+ * the report was generated without a key registry
+ */
+export type ProvenanceSignatureStatus = 'valid' | 'invalid' | 'unsigned' | 'unverified';
+
 /**
  * Audit report
  */
@@ -238,6 +247,8 @@ export interface ChainIntegrity {
   readonly entriesVerified: number;
   readonly brokenLinks: number;
   readonly invalidHashes: number;
+  readonly unsignedEntries: number;
+  readonly invalidSignatures: number;
   readonly errors: readonly string[];
 }
 
@@ -30,6 +30,9 @@ export type PolicyId = Brand<string, 'PolicyId'>;
 /** Unique identifier for exceptions */
 export type ExceptionId = Brand<string, 'ExceptionId'>;
 
+/** Unique identifier for claim annotations */
+export type AnnotationId = Brand<string, 'AnnotationId'>;
+
 /** Version identifier for ontology */
 export type OntologyVersion = Brand<string, 'OntologyVersion'>;
 
@@ -79,6 +82,13 @@ export function createExceptionId(value?: string): ExceptionId {
   return (value ?? generateUUID()) as ExceptionId;
 }
 
+/**
+ * Creates a new AnnotationId
+ */
+export function createAnnotationId(value?: string): AnnotationId {
+  return (value ?? generateUUID()) as AnnotationId;
+}
+
 /**
  * Creates a new OntologyVersion
  */
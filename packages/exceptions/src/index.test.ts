@@ -225,6 +225,14 @@ describe('ExceptionManager', () => {
     manager = new ExceptionManager(storage, provenance);
   });
 
+  it('registers its migrations on initialize', async () => {
+    const result = await manager.initialize();
+    expect(result.ok).toBe(true);
+
+    const status = await storage.migrationStatus();
+    expect(status.ok && status.value.find((m) => m.module === 'exceptions')?.state).toBe('applied');
+  });
+
   it('requests and retrieves exception', async () => {
     const requestResult = await manager.requestException({
       decisionId: 'dec-1' as DecisionId,
@@ -25,3 +25,7 @@ export {
 export {
   ExceptionManager,
 } from './manager.js';
+
+export {
+  exceptionMigrations,
+} from './migrations.js';
@@ -24,6 +24,7 @@ import type {
   PolicyReference,
 } from './types.js';
 import { Exception } from './exception.js';
+import { exceptionMigrations } from './migrations.js';
 
 /**
  * Exception Manager
@@ -38,6 +39,14 @@ export class ExceptionManager {
     private readonly provenance: ProvenanceLedger
   ) {}
 
+  /**
+   * Apply the package migrations to the (already initialized) storage
+   */
+  async initialize(): Promise<Result<void, Error>> {
+    const result = await this.storage.registerMigrations(exceptionMigrations);
+    return result.ok ? ok(undefined) : err(result.error);
+  }
+
   /**
    * Request a new exception
    */
@@ -0,0 +1,25 @@
+/**
+ * Exception storage migrations
+ *
+ * The exceptions table itself is part of the core schema; this package
+ * owns the indexes its queries rely on. Registered with the storage
+ * backend by ExceptionManager.initialize().
+ */
+
+import type { Migration } from '@contextgraph/storage';
+
+export const exceptionMigrations: readonly Migration[] = [
+  {
+    module: 'exceptions',
+    version: 1,
+    name: 'add_exception_lookup_indexes',
+    up: `
+      CREATE INDEX IF NOT EXISTS idx_exceptions_requestedBy ON exceptions(requestedBy);
+      CREATE INDEX IF NOT EXISTS idx_exceptions_status_expiresAt ON exceptions(status, expiresAt);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_exceptions_requestedBy;
+      DROP INDEX IF EXISTS idx_exceptions_status_expiresAt;
+    `,
+  },
+];
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { createOntologyVersion, createEntityId, createClaimId } from '@contextgraph/core';
-import { OntologyLoader, OntologyValidator, ontologyV0_1 } from './index.js';
+import { OntologyLoader, OntologySchemaBuilder, OntologyValidator, ontologyV0_1 } from './index.js';
 import type { EntityInput, ClaimInput } from './validator.js';
 
 describe('OntologyLoader', () => {
@@ -280,4 +280,44 @@ describe('OntologyValidator', () => {
       expect(names).toContain('worksOn');
     });
   });
+
+  describe('Qualifier Validation', () => {
+    let qualified: OntologyValidator;
+
+    beforeEach(() => {
+      const schema = new OntologySchemaBuilder(createOntologyVersion('1.0.0'), 'hr', 'HR relations')
+        .addEntity({ name: 'Person', description: 'A person', properties: [] })
+        .addRelation({
+          name: 'employedBy',
+          description: 'Person employed by another',
+          from: ['Person'],
+          to: ['Person'],
+          cardinality: 'many-to-one',
+          properties: [
+            { name: 'role', type: 'string', required: true },
+            { name: 'hoursPerWeek', type: 'number', required: false, min: 0, max: 80 },
+          ],
+        })
+        .build();
+      const loader = new OntologyLoader();
+      loader.register(schema);
+      const loadResult = loader.load(schema.version);
+      if (!loadResult.ok) throw new Error('Failed to load ontology');
+      qualified = new OntologyValidator(loadResult.value);
+    });
+
+    it('should check qualifiers against relation properties', () => {
+      expect(qualified.validateQualifiers('employedBy', { hoursPerWeek: 40 }).valid).toBe(true);
+
+      const invalid = qualified.validateQualifiers('employedBy', { hoursPerWeek: 120, role: 7 });
+      expect(invalid.errors.map((e) => e.code)).toEqual(['ABOVE_MAXIMUM', 'INVALID_TYPE']);
+    });
+
+    it('should warn about undeclared qualifiers', () => {
+      const result = qualified.validateQualifiers('employedBy', { shift: 'night' });
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map((w) => w.code)).toEqual(['UNKNOWN_QUALIFIER']);
+      expect(qualified.validateQualifiers('unknownRelation', {}).valid).toBe(false);
+    });
+  });
 });
@@ -184,6 +184,41 @@ export class OntologyValidator {
     return { valid: errors.length === 0, errors, warnings };
   }
 
+  /**
+   * Validate qualifiers attached to a claim against the properties its
+   * relation declares; qualifiers are added piecemeal, so none is required
+   */
+  validateQualifiers(predicate: string, qualifiers: Record<string, unknown>): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    const relationDef = this.ontology.relationIndex.get(predicate);
+    if (relationDef === undefined) {
+      errors.push({
+        path: 'predicate',
+        message: `Unknown predicate: ${predicate}`,
+        code: 'UNKNOWN_PREDICATE',
+      });
+      return { valid: false, errors, warnings };
+    }
+
+    for (const [name, value] of Object.entries(qualifiers)) {
+      const propDef = relationDef.properties?.find((p) => p.name === name);
+      if (propDef === undefined) {
+        warnings.push({
+          path: `qualifiers.${name}`,
+          message: `Unknown qualifier for ${predicate}: ${name}`,
+          code: 'UNKNOWN_QUALIFIER',
+        });
+        continue;
+      }
+
+      errors.push(...this.validatePropertyValue({ ...propDef, required: false }, value, `qualifiers.${name}`));
+    }
+
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
   /**
    * Check if a relation is valid between two entity types
    */
@@ -21,8 +21,18 @@ import type {
   ArtifactRef,
   SourceType,
   ActionType,
+  HashAlgorithm,
+  HashVersion,
+  EntrySignature,
 } from './types.js';
-import { computeProvenanceHash, verifyProvenanceHash } from './hash.js';
+import {
+  type HashOptions,
+  CURRENT_HASH_VERSION,
+  LEGACY_HASH_VERSION,
+  computeProvenanceHash,
+  isHashAlgorithm,
+  verifyProvenanceHash,
+} from './hash.js';
 
 /**
  * Valid source types
@@ -61,11 +71,13 @@ export class ProvenanceEntry {
   private constructor(public readonly data: ProvenanceData) {}
 
   /**
-   * Create a new provenance entry
+   * Create a new provenance entry, hashed under the current version
+   * unless another is given
    */
   static create(
     input: CreateProvenanceInput,
-    previousHash?: string
+    previousHash?: string,
+    options: HashOptions = {}
   ): Result<ProvenanceEntry, ValidationError> {
     // Validate source type
     if (!VALID_SOURCE_TYPES.includes(input.sourceType)) {
@@ -80,16 +92,18 @@ export class ProvenanceEntry {
     // Validate input refs
     const inputRefs = input.inputRefs ?? [];
     for (const ref of inputRefs) {
-      if (!ref.type || !ref.id) {
-        return err(new ValidationError('Invalid input reference: missing type or id', 'inputRefs'));
+      const valid = validateArtifactRef(ref, 'inputRefs');
+      if (!valid.ok) {
+        return valid;
       }
     }
 
     // Validate output refs
     const outputRefs = input.outputRefs ?? [];
     for (const ref of outputRefs) {
-      if (!ref.type || !ref.id) {
-        return err(new ValidationError('Invalid output reference: missing type or id', 'outputRefs'));
+      const valid = validateArtifactRef(ref, 'outputRefs');
+      if (!valid.ok) {
+        return valid;
       }
     }
 
@@ -98,19 +112,33 @@ export class ProvenanceEntry {
     const createdAt = createTimestamp();
     const metadata = input.metadata ?? {};
 
+    const hashVersion = options.version ?? CURRENT_HASH_VERSION;
+    const hashAlgorithm = hashVersion === LEGACY_HASH_VERSION ? 'sha256' : options.algorithm ?? 'sha256';
+    if (!isHashAlgorithm(hashAlgorithm)) {
+      return err(new ValidationError(`Invalid hash algorithm: ${String(hashAlgorithm)}`, 'hashAlgorithm'));
+    }
+
     // Compute hash
-    const hash = computeProvenanceHash({
-      sourceType: input.sourceType,
-      sourceId: input.sourceId,
-      sourceUri: input.sourceUri,
-      actor: input.actor,
-      action: input.action,
-      inputRefs,
-      outputRefs,
-      timestamp,
-      metadata,
-      previousHash,
-    });
+    let hash: string;
+    try {
+      hash = computeProvenanceHash(
+        {
+          sourceType: input.sourceType,
+          sourceId: input.sourceId,
+          sourceUri: input.sourceUri,
+          actor: input.actor,
+          action: input.action,
+          inputRefs,
+          outputRefs,
+          timestamp,
+          metadata,
+          previousHash,
+        },
+        { version: hashVersion, algorithm: hashAlgorithm }
+      );
+    } catch (error) {
+      return err(new ValidationError(error instanceof Error ? error.message : String(error), 'metadata'));
+    }
 
     const data: ProvenanceData = {
       id,
@@ -125,6 +153,10 @@ export class ProvenanceEntry {
       metadata,
       hash,
       previousHash,
+      hashVersion,
+      hashAlgorithm,
+      signature: undefined,
+      signatureKeyId: undefined,
       createdAt,
     };
 
@@ -166,6 +198,10 @@ export class ProvenanceEntry {
       metadata,
       hash: record.hash,
       previousHash: record.previousHash ?? undefined,
+      hashVersion: (record.hashVersion ?? LEGACY_HASH_VERSION) as HashVersion,
+      hashAlgorithm: (record.hashAlgorithm ?? 'sha256') as HashAlgorithm,
+      signature: record.signature ?? undefined,
+      signatureKeyId: record.signatureKeyId ?? undefined,
       createdAt: record.createdAt,
     });
   }
@@ -187,12 +223,27 @@ export class ProvenanceEntry {
       metadata: Object.keys(this.data.metadata).length > 0 ? JSON.stringify(this.data.metadata) : null,
       hash: this.data.hash,
       previousHash: this.data.previousHash ?? null,
+      hashVersion: this.data.hashVersion,
+      hashAlgorithm: this.data.hashAlgorithm,
+      signature: this.data.signature ?? null,
+      signatureKeyId: this.data.signatureKeyId ?? null,
       createdAt: this.data.createdAt,
     };
   }
 
   /**
-   * Verify this entry's hash
+   * Copy of this entry carrying a signature; the hash does not cover it
+   */
+  withSignature(signature: EntrySignature): ProvenanceEntry {
+    return new ProvenanceEntry({
+      ...this.data,
+      signature: signature.signature,
+      signatureKeyId: signature.keyId,
+    });
+  }
+
+  /**
+   * Verify this entry's hash under the scheme it was recorded with
    */
   verifyHash(): boolean {
     return verifyProvenanceHash(
@@ -208,7 +259,8 @@ export class ProvenanceEntry {
         metadata: this.data.metadata,
         previousHash: this.data.previousHash,
       },
-      this.data.hash
+      this.data.hash,
+      { version: this.data.hashVersion, algorithm: this.data.hashAlgorithm }
     );
   }
 
@@ -219,3 +271,20 @@ export class ProvenanceEntry {
     return this.data.previousHash === previousEntry.data.hash;
   }
 }
+
+/**
+ * Check that a reference names an artifact, and that a document span, if
+ * any, is a range of non-negative offsets
+ */
+export function validateArtifactRef(ref: ArtifactRef, field = 'ref'): Result<ArtifactRef, ValidationError> {
+  if (!ref.type || !ref.id) {
+    return err(new ValidationError('Invalid reference: missing type or id', field));
+  }
+  if (ref.span !== undefined) {
+    const { start, end } = ref.span;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start) {
+      return err(new ValidationError(`Invalid span: ${start}-${end}`, `${field}.span`));
+    }
+  }
+  return ok(ref);
+}
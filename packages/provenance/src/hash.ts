@@ -2,13 +2,36 @@
  * Provenance Hash Utilities
  *
  * Provides cryptographic hashing for provenance entries.
- * Uses SHA-256 for content hashing to ensure integrity.
+ *
+ * Entries are hashed under a versioned scheme:
+ * - version 1 (legacy): SHA-256 of `JSON.stringify` with a sorted key
+ *   array as replacer. The array also filters nested objects, so keys
+ *   inside metadata and references do not reach the hash. Kept only so
+ *   entries recorded before version 2 still verify.
+ * - version 2: canonical JSON (RFC 8785 style) of every field, with the
+ *   version and algorithm themselves hashed, under SHA-256, SHA-512 or
+ *   BLAKE2.
  */
 
 import { createHash } from 'crypto';
-import type { ArtifactRef, SourceType, ActionType } from './types.js';
+import type { ArtifactRef, SourceType, ActionType, HashAlgorithm, HashVersion } from './types.js';
 import type { Timestamp } from '@contextgraph/core';
 
+/**
+ * Supported digest algorithms
+ */
+export const HASH_ALGORITHMS: readonly HashAlgorithm[] = ['sha256', 'sha512', 'blake2b512', 'blake2s256'];
+
+/**
+ * Hash version of entries recorded before versioning
+ */
+export const LEGACY_HASH_VERSION: HashVersion = 1;
+
+/**
+ * Hash version of new entries
+ */
+export const CURRENT_HASH_VERSION: HashVersion = 2;
+
 /**
  * Content to be hashed for provenance entry
  */
@@ -26,45 +49,174 @@ interface HashContent {
 }
 
 /**
- * Compute SHA-256 hash of provenance entry content
+ * Hash scheme to use; defaults to the current version under SHA-256
+ */
+export interface HashOptions {
+  readonly version?: HashVersion;
+  /** Ignored by version 1, which is always SHA-256 */
+  readonly algorithm?: HashAlgorithm;
+}
+
+/**
+ * Whether a value names a supported digest algorithm
+ */
+export function isHashAlgorithm(value: unknown): value is HashAlgorithm {
+  return typeof value === 'string' && (HASH_ALGORITHMS as readonly string[]).includes(value);
+}
+
+/**
+ * Serialize a value as canonical JSON (RFC 8785 style)
+ *
+ * Object keys are sorted by UTF-16 code units at every level, there is no
+ * whitespace, and numbers and strings use the ECMAScript serialization.
+ * Properties whose value is undefined are omitted, as `JSON.stringify`
+ * does, so a value hashes the same before and after a storage round trip.
+ * Throws a TypeError for non-finite numbers and bigints, which JSON cannot
+ * represent.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalJson((value as { toJSON: () => unknown }).toJSON());
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot serialize non-finite number ${value} as JSON`);
+      }
+      return JSON.stringify(value);
+    case 'string':
+      return JSON.stringify(value);
+    case 'bigint':
+      throw new TypeError('Cannot serialize bigint as JSON');
+    case 'object':
+      break;
+    default:
+      // undefined, functions and symbols, which only reach here in arrays
+      return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item: unknown) => canonicalJson(item)).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const members: string[] = [];
+  for (const key of Object.keys(record).sort()) {
+    const member = record[key];
+    if (member === undefined || typeof member === 'function' || typeof member === 'symbol') {
+      continue;
+    }
+    members.push(`${JSON.stringify(key)}:${canonicalJson(member)}`);
+  }
+  return `{${members.join(',')}}`;
+}
+
+/**
+ * Compute hash of provenance entry content
  *
  * The hash includes all relevant fields to ensure any modification
- * would be detectable.
+ * would be detectable. Throws a TypeError when the metadata cannot be
+ * represented as JSON.
  */
-export function computeProvenanceHash(content: HashContent): string {
+export function computeProvenanceHash(content: HashContent, options: HashOptions = {}): string {
+  const version = options.version ?? CURRENT_HASH_VERSION;
   const normalized = {
     sourceType: content.sourceType,
     sourceId: content.sourceId ?? null,
     sourceUri: content.sourceUri ?? null,
     actor: content.actor ?? null,
     action: content.action,
-    inputRefs: content.inputRefs.map((ref) => ({ type: ref.type, id: ref.id })),
-    outputRefs: content.outputRefs.map((ref) => ({ type: ref.type, id: ref.id })),
+    inputRefs: content.inputRefs.map(normalizeRef),
+    outputRefs: content.outputRefs.map(normalizeRef),
     timestamp: content.timestamp,
     metadata: content.metadata,
     previousHash: content.previousHash ?? null,
   };
 
-  const json = JSON.stringify(normalized, Object.keys(normalized).sort());
-  const hash = createHash('sha256');
-  hash.update(json);
-  return hash.digest('hex');
+  if (version === LEGACY_HASH_VERSION) {
+    const json = JSON.stringify(normalized, Object.keys(normalized).sort());
+    return createHash('sha256').update(json).digest('hex');
+  }
+
+  const algorithm = options.algorithm ?? 'sha256';
+  const json = canonicalJson({ ...normalized, hashVersion: version, hashAlgorithm: algorithm });
+  return createHash(algorithm).update(json).digest('hex');
+}
+
+/**
+ * Hashed fields of a reference; document locations only when present, so
+ * hashes of plain references are unchanged
+ */
+function normalizeRef(ref: ArtifactRef): Record<string, unknown> {
+  return {
+    type: ref.type,
+    id: ref.id,
+    ...(ref.uri !== undefined ? { uri: ref.uri } : {}),
+    ...(ref.span !== undefined ? { span: { start: ref.span.start, end: ref.span.end } } : {}),
+  };
+}
+
+/**
+ * Verify that a hash matches the content under the given scheme
+ */
+export function verifyProvenanceHash(content: HashContent, expectedHash: string, options: HashOptions = {}): boolean {
+  try {
+    return computeProvenanceHash(content, options) === expectedHash;
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Verify that a hash matches the content
+ * Compute hash of arbitrary data (for metadata hashing), over its
+ * canonical JSON
  */
-export function verifyProvenanceHash(content: HashContent, expectedHash: string): boolean {
-  const computedHash = computeProvenanceHash(content);
-  return computedHash === expectedHash;
+export function computeDataHash(data: unknown, algorithm: HashAlgorithm = 'sha256'): string {
+  return createHash(algorithm).update(canonicalJson(data)).digest('hex');
 }
 
 /**
- * Compute hash of arbitrary data (for metadata hashing)
+ * Running digest over a sequence of entry hashes
+ *
+ * Used to anchor legacy entries when a chain cuts over to a new hash
+ * version: each legacy entry is rehashed under the new scheme and the
+ * results are digested in chain order, so the cut-over entry commits to
+ * their full content, nested metadata included.
  */
-export function computeDataHash(data: unknown): string {
-  const json = JSON.stringify(data);
-  const hash = createHash('sha256');
-  hash.update(json);
-  return hash.digest('hex');
+export class ChainAnchor {
+  private readonly digest;
+  private count = 0;
+
+  constructor(readonly algorithm: HashAlgorithm) {
+    this.digest = createHash(algorithm);
+  }
+
+  /**
+   * Add the next entry in chain order
+   */
+  add(content: HashContent): void {
+    this.digest.update(computeProvenanceHash(content, { version: CURRENT_HASH_VERSION, algorithm: this.algorithm }));
+    this.digest.update('\n');
+    this.count++;
+  }
+
+  /**
+   * Number of entries added
+   */
+  get entries(): number {
+    return this.count;
+  }
+
+  /**
+   * Digest of the entries added so far; does not end the anchor
+   */
+  value(): string {
+    return this.digest.copy().digest('hex');
+  }
 }
@@ -3,19 +3,39 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { InMemoryStorage } from '@contextgraph/storage';
-import { createTimestamp, type Timestamp } from '@contextgraph/core';
+import { InMemoryStorage, SQLiteStorage, type StorageRecord } from '@contextgraph/storage';
+import { createTimestamp, ValidationError, type Timestamp } from '@contextgraph/core';
 import {
+  ActorKeyRegistry,
+  Ed25519Signer,
   ProvenanceEntry,
   ProvenanceLedger,
+  checkEntrySignature,
+  generateActorKeyPair,
   computeProvenanceHash,
   verifyProvenanceHash,
   computeDataHash,
+  canonicalJson,
   type SourceType,
   type ActionType,
   type ArtifactRef,
 } from './index.js';
 
+/**
+ * Rewrite provenance records behind the ledger's back. The collection is
+ * append-only, so the storage is restored from an altered snapshot.
+ */
+async function rewriteProvenance(storage: InMemoryStorage, ...records: StorageRecord[]): Promise<void> {
+  const snapshot = await storage.snapshot();
+  if (!snapshot.ok) throw snapshot.error;
+  const rewritten = new Map(records.map((record) => [record.id, record]));
+  const provenance = (snapshot.value.collections['provenance'] ?? []).map((record) => rewritten.get(record.id) ?? record);
+
+  await storage.clear();
+  const restored = await storage.restore({ ...snapshot.value, collections: { ...snapshot.value.collections, provenance } });
+  if (!restored.ok) throw restored.error;
+}
+
 describe('Hash Utilities', () => {
   it('computes deterministic hash', () => {
     const content = {
@@ -86,6 +106,56 @@ describe('Hash Utilities', () => {
     const data = { foo: 'bar', num: 42 };
     const hash = computeDataHash(data);
     expect(hash).toHaveLength(64);
+    expect(computeDataHash({ num: 42, foo: 'bar' })).toBe(hash);
+  });
+
+  it('serializes canonical JSON', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 'x', null, undefined], c: true }, e: undefined, é: -0 }))
+      .toBe('{"a":{"c":true,"d":[1,"x",null,null]},"b":1,"é":0}');
+    expect(canonicalJson({ at: new Date(0) })).toBe('{"at":"1970-01-01T00:00:00.000Z"}');
+    expect(() => canonicalJson({ n: Number.NaN })).toThrow(TypeError);
+  });
+
+  it('covers nested metadata from hash version 2', () => {
+    const content = {
+      sourceType: 'human' as SourceType,
+      sourceId: undefined,
+      sourceUri: undefined,
+      actor: 'alice',
+      action: 'approve' as ActionType,
+      inputRefs: [] as readonly ArtifactRef[],
+      outputRefs: [] as readonly ArtifactRef[],
+      timestamp: 1000 as Timestamp,
+      metadata: { review: { by: 'alice' } },
+      previousHash: undefined,
+    };
+    const tampered = { ...content, metadata: { review: { by: 'mallory' } } };
+
+    expect(computeProvenanceHash(tampered, { version: 1 })).toBe(computeProvenanceHash(content, { version: 1 }));
+    expect(computeProvenanceHash(tampered)).not.toBe(computeProvenanceHash(content));
+    expect(verifyProvenanceHash(content, computeProvenanceHash(content, { version: 1 }))).toBe(false);
+  });
+
+  it('hashes with the selected algorithm', () => {
+    const content = {
+      sourceType: 'system' as SourceType,
+      sourceId: undefined,
+      sourceUri: undefined,
+      actor: undefined,
+      action: 'create' as ActionType,
+      inputRefs: [] as readonly ArtifactRef[],
+      outputRefs: [] as readonly ArtifactRef[],
+      timestamp: 1000 as Timestamp,
+      metadata: {},
+      previousHash: undefined,
+    };
+
+    expect(computeProvenanceHash(content, { algorithm: 'sha512' })).toHaveLength(128);
+    expect(computeProvenanceHash(content, { algorithm: 'blake2b512' })).toHaveLength(128);
+    expect(computeProvenanceHash(content, { algorithm: 'blake2s256' })).not.toBe(computeProvenanceHash(content));
+    const hash = computeProvenanceHash(content, { algorithm: 'sha512' });
+    expect(verifyProvenanceHash(content, hash, { algorithm: 'sha512' })).toBe(true);
+    expect(verifyProvenanceHash(content, hash)).toBe(false);
   });
 });
 
@@ -157,6 +227,27 @@ describe('ProvenanceEntry', () => {
     }
   });
 
+  it('references spans of documents', () => {
+    const result = ProvenanceEntry.create({
+      sourceType: 'document',
+      action: 'import',
+      inputRefs: [{ type: 'document', id: 'report', uri: 'https://example.com/report.pdf', span: { start: 120, end: 184 } }],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.data.inputRefs[0]?.span).toEqual({ start: 120, end: 184 });
+      expect(result.value.verifyHash()).toBe(true);
+    }
+
+    const invalid = ProvenanceEntry.create({
+      sourceType: 'document',
+      action: 'import',
+      inputRefs: [{ type: 'document', id: 'report', span: { start: 10, end: 5 } }],
+    });
+    expect(invalid.ok).toBe(false);
+  });
+
   it('verifies its own hash', () => {
     const result = ProvenanceEntry.create({
       sourceType: 'system',
@@ -334,6 +425,22 @@ describe('ProvenanceLedger', () => {
     expect(result.value.invalidHashes).toHaveLength(0);
   });
 
+  it('verifies chains longer than one page, including same-millisecond entries', async () => {
+    for (let i = 0; i < 1200; i++) {
+      await ledger.record({ sourceType: 'system', action: 'create' });
+    }
+
+    const result = await ledger.verifyChain();
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.valid).toBe(true);
+    expect(result.value.entriesVerified).toBe(1200);
+
+    const partial = await ledger.verifyChain({ limit: 10 });
+    expect(partial.ok && partial.value.entriesVerified).toBe(10);
+  });
+
   it('counts entries', async () => {
     await ledger.record({ sourceType: 'human', action: 'create' });
     await ledger.record({ sourceType: 'agent', action: 'derive' });
@@ -378,4 +485,292 @@ describe('ProvenanceLedger', () => {
     expect(result.value).toHaveLength(1);
     expect(result.value[0]!.data.action).toBe('derive');
   });
+
+  describe('hash versions', () => {
+    /** Append entries hashed under the legacy scheme, as recorded before versioning */
+    async function recordLegacy(count: number): Promise<ProvenanceEntry[]> {
+      const entries: ProvenanceEntry[] = [];
+      let previousHash: string | undefined;
+      for (let i = 0; i < count; i++) {
+        const created = ProvenanceEntry.create(
+          { sourceType: 'human', actor: 'alice', action: 'approve', metadata: { review: { round: i } } },
+          previousHash,
+          { version: 1 }
+        );
+        if (!created.ok) throw created.error;
+        await storage.insert('provenance', { ...created.value.toRecord(), hashVersion: null, hashAlgorithm: null });
+        entries.push(created.value);
+        previousHash = created.value.data.hash;
+      }
+      await ledger.initialize();
+      return entries;
+    }
+
+    /** Rewrite the metadata of an entry */
+    async function tamper(entry: ProvenanceEntry): Promise<void> {
+      await rewriteProvenance(storage, { ...entry.toRecord(), metadata: JSON.stringify({ review: { round: 99 } }) });
+    }
+
+    it('detects tampering with nested metadata', async () => {
+      const recorded = await ledger.record({ sourceType: 'human', action: 'approve', metadata: { review: { round: 1 } } });
+      if (!recorded.ok) throw recorded.error;
+      expect(recorded.value.data.hashVersion).toBe(2);
+
+      await tamper(recorded.value);
+
+      const result = await ledger.verifyChain();
+      expect(result.ok && result.value.invalidHashes).toEqual([recorded.value.data.id]);
+    });
+
+    it('keeps verifying legacy entries and re-anchors them with a cut-over entry', async () => {
+      const legacy = await recordLegacy(3);
+      const stored = await ledger.getById(legacy[0]!.data.id);
+      expect(stored.ok && stored.value?.data.hashVersion).toBe(1);
+
+      const before = await ledger.verifyChain();
+      expect(before.ok && before.value.valid).toBe(true);
+
+      const migrated = await ledger.migrateHashes({ algorithm: 'sha512', actor: 'ops' });
+      if (!migrated.ok) throw migrated.error;
+      expect(migrated.value.recorded).toBe(true);
+      expect(migrated.value.anchoredEntries).toBe(3);
+      const cutover = migrated.value.cutover!;
+      expect(cutover.data.hashAlgorithm).toBe('sha512');
+      expect(cutover.data.previousHash).toBe(legacy[2]!.data.hash);
+      expect(cutover.data.metadata['operation']).toBe('hash_cutover');
+
+      const again = await ledger.migrateHashes();
+      expect(again.ok && again.value.recorded).toBe(false);
+      expect(again.ok && again.value.cutover?.data.id).toBe(cutover.data.id);
+
+      const after = await ledger.verifyChain();
+      expect(after.ok && after.value.valid).toBe(true);
+      expect(after.ok && after.value.entriesVerified).toBe(4);
+
+      await tamper(legacy[1]!);
+      const tampered = await ledger.verifyChain();
+      expect(tampered.ok && tampered.value.invalidHashes).toEqual([cutover.data.id]);
+    });
+
+    it('rejects legacy entries recorded after current ones', async () => {
+      await ledger.record({ sourceType: 'system', action: 'create' });
+      const last = await ledger.getLastEntry();
+      if (!last.ok || last.value === null) throw new Error('missing entry');
+      const downgraded = ProvenanceEntry.create({ sourceType: 'system', action: 'update' }, last.value.data.hash, { version: 1 });
+      if (!downgraded.ok) throw downgraded.error;
+      await storage.insert('provenance', downgraded.value.toRecord());
+
+      const result = await ledger.verifyChain();
+      expect(result.ok && result.value.invalidHashes).toEqual([downgraded.value.data.id]);
+
+      const migrated = await ledger.migrateHashes();
+      expect(!migrated.ok && (migrated.error as { code?: string }).code).toBe('CHAIN_INVALID');
+    });
+
+    it('records nothing for chains without legacy entries', async () => {
+      await ledger.record({ sourceType: 'system', action: 'create' });
+
+      const migrated = await ledger.migrateHashes();
+      expect(migrated.ok && migrated.value).toEqual({ anchoredEntries: 0, cutover: undefined, recorded: false });
+      const count = await ledger.count();
+      expect(count.ok && count.value).toBe(1);
+    });
+
+    it('stores the hash scheme of entries in SQLite', async () => {
+      const sqlite = new SQLiteStorage({ path: ':memory:' });
+      await sqlite.initialize();
+      const sqliteLedger = new ProvenanceLedger(sqlite, { hashAlgorithm: 'blake2b512' });
+      await sqliteLedger.initialize();
+
+      const recorded = await sqliteLedger.record({ sourceType: 'agent', action: 'derive', metadata: { model: { name: 'm' } } });
+      if (!recorded.ok) throw recorded.error;
+
+      const stored = await sqliteLedger.getById(recorded.value.data.id);
+      expect(stored.ok && stored.value?.data.hashAlgorithm).toBe('blake2b512');
+      expect(stored.ok && stored.value?.verifyHash()).toBe(true);
+      const result = await sqliteLedger.verifyChain();
+      expect(result.ok && result.value.valid).toBe(true);
+      await sqlite.close();
+    });
+  });
+});
+
+describe('Signatures', () => {
+  let storage: InMemoryStorage;
+  let keys: ActorKeyRegistry;
+  let signer: Ed25519Signer;
+  let ledger: ProvenanceLedger;
+
+  const alice = generateActorKeyPair();
+  const mallory = generateActorKeyPair();
+
+  const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 2));
+
+  beforeEach(async () => {
+    storage = new InMemoryStorage();
+    await storage.initialize();
+    keys = new ActorKeyRegistry(storage);
+    signer = new Ed25519Signer();
+    ledger = new ProvenanceLedger(storage, { signer, keys });
+    await ledger.initialize();
+
+    await keys.register({ id: 'alice-1', actor: 'alice', actorType: 'human', publicKey: alice.publicKey });
+    await keys.register({ id: 'mallory-1', actor: 'mallory', actorType: 'agent', publicKey: mallory.publicKey });
+    signer.addKey('alice', 'alice-1', alice.privateKey);
+  });
+
+  it('signs entries of actors with registered keys', async () => {
+    const signed = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' });
+    const unsigned = await ledger.record({ sourceType: 'agent', actor: 'bob', action: 'derive' });
+    if (!signed.ok || !unsigned.ok) throw new Error('record failed');
+
+    expect(signed.value.data.signatureKeyId).toBe('alice-1');
+    const stored = await ledger.getById(signed.value.data.id);
+    if (!stored.ok || stored.value === null) throw new Error('missing entry');
+    const check = await keys.verify(stored.value);
+    expect(check.ok && check.value).toEqual({ status: 'valid' });
+
+    const result = await ledger.verifyChain();
+    expect(result.ok && result.value.valid).toBe(true);
+    expect(result.ok && result.value.unsignedEntries).toEqual([unsigned.value.data.id]);
+    expect(result.ok && result.value.invalidSignatures).toEqual([]);
+  });
+
+  it('rejects entries signed for another actor or with altered signatures', async () => {
+    const forger = new Ed25519Signer();
+    forger.addKey('alice', 'mallory-1', mallory.privateKey);
+    const forged = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' }, { signer: forger });
+    const genuine = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'reject' });
+    if (!forged.ok || !genuine.ok) throw new Error('record failed');
+
+    await rewriteProvenance(storage, { ...genuine.value.toRecord(), actor: 'alice', signature: forged.value.data.signature });
+
+    const result = await ledger.verifyChain();
+    expect(result.ok && result.value.valid).toBe(false);
+    expect(result.ok && result.value.invalidSignatures).toEqual([forged.value.data.id, genuine.value.data.id]);
+    expect(result.ok && result.value.invalidHashes).toEqual([]);
+
+    const mallorysKey = await keys.get('mallory-1');
+    expect(checkEntrySignature(forged.value, mallorysKey.ok ? mallorysKey.value : null).reason).toBe('actor_mismatch');
+    expect(checkEntrySignature(forged.value, null).reason).toBe('unknown_key');
+  });
+
+  it('rejects unsigned entries of actors that held a valid key', async () => {
+    const forged = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' }, { signer: new Ed25519Signer() });
+    const unsigned = await ledger.record({ sourceType: 'agent', actor: 'bob', action: 'derive' });
+    if (!forged.ok || !unsigned.ok) throw new Error('record failed');
+    expect(forged.value.data.signature).toBeUndefined();
+
+    const check = await keys.verify(forged.value);
+    expect(check.ok && check.value).toEqual({ status: 'invalid', reason: 'missing_signature' });
+
+    const result = await ledger.verifyChain();
+    expect(result.ok && result.value.valid).toBe(false);
+    expect(result.ok && result.value.invalidSignatures).toEqual([forged.value.data.id]);
+    expect(result.ok && result.value.unsignedEntries).toEqual([unsigned.value.data.id]);
+
+    const strict = await ledger.verifyChain({ requireSignatures: true });
+    expect(strict.ok && strict.value.invalidSignatures).toEqual([forged.value.data.id, unsigned.value.data.id]);
+    expect(strict.ok && strict.value.unsignedEntries).toEqual([]);
+  });
+
+  it('rejects entries whose signature was stripped', async () => {
+    const stripped = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'approve' });
+    const keyless = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'reject' });
+    if (!stripped.ok || !keyless.ok) throw new Error('record failed');
+
+    await rewriteProvenance(
+      storage,
+      { ...stripped.value.toRecord(), signature: null, signatureKeyId: null },
+      { ...keyless.value.toRecord(), signature: null }
+    );
+
+    const result = await ledger.verifyChain();
+    expect(result.ok && result.value.valid).toBe(false);
+    expect(result.ok && result.value.invalidSignatures).toEqual([stripped.value.data.id, keyless.value.data.id]);
+    expect(result.ok && result.value.unsignedEntries).toEqual([]);
+    expect(result.ok && result.value.invalidHashes).toEqual([]);
+  });
+
+  it('honours key rotation and revocation', async () => {
+    const beforeRotation = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'create' });
+    if (!beforeRotation.ok) throw beforeRotation.error;
+    await tick();
+
+    const next = generateActorKeyPair();
+    const rotated = await keys.rotate('alice-1', next.publicKey, { id: 'alice-2' });
+    if (!rotated.ok) throw rotated.error;
+    await tick();
+
+    const stale = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'update' });
+    signer.addKey('alice', 'alice-2', next.privateKey);
+    const fresh = await ledger.record({ sourceType: 'human', actor: 'alice', action: 'update' });
+    if (!stale.ok || !fresh.ok) throw new Error('record failed');
+
+    const old = await keys.get('alice-1');
+    expect(old.ok && old.value?.status).toBe('rotated');
+    expect(old.ok && old.value?.replacedBy).toBe('alice-2');
+    expect(checkEntrySignature(stale.value, old.ok ? old.value : null).reason).toBe('key_rotated');
+
+    const rotation = await ledger.verifyChain();
+    expect(rotation.ok && rotation.value.invalidSignatures).toEqual([stale.value.data.id]);
+
+    const revoked = await keys.revoke('alice-2', { reason: 'compromised', at: fresh.value.data.createdAt });
+    expect(revoked.ok && revoked.value.status).toBe('revoked');
+    const again = await keys.rotate('alice-2', generateActorKeyPair().publicKey);
+    expect(!again.ok && (again.error as { code?: string }).code).toBe('KEY_NOT_ACTIVE');
+
+    const revocation = await ledger.verifyChain();
+    expect(revocation.ok && revocation.value.invalidSignatures).toEqual([stale.value.data.id, fresh.value.data.id]);
+
+    const history = await keys.listForActor('alice');
+    expect(history.ok && history.value.map((key) => [key.id, key.status])).toEqual([
+      ['alice-1', 'rotated'],
+      ['alice-2', 'revoked'],
+    ]);
+  });
+
+  it('refuses backdated keys and a second active key per actor', async () => {
+    const backdated = await keys.register({
+      actor: 'carol',
+      actorType: 'human',
+      publicKey: generateActorKeyPair().publicKey,
+      validFrom: createTimestamp(Date.now() - 60_000),
+    });
+    expect(!backdated.ok && backdated.error).toBeInstanceOf(ValidationError);
+
+    const second = await keys.register({ actor: 'alice', actorType: 'human', publicKey: mallory.publicKey });
+    expect(!second.ok && (second.error as { code?: string }).code).toBe('ACTIVE_KEY_EXISTS');
+
+    await keys.revoke('alice-1', { reason: 'compromised' });
+    const replacement = await keys.register({ id: 'alice-2', actor: 'alice', actorType: 'human', publicKey: generateActorKeyPair().publicKey });
+    expect(replacement.ok).toBe(true);
+  });
+
+  it('rejects keys that are not Ed25519 public keys', async () => {
+    const result = await keys.register({ actor: 'carol', actorType: 'human', publicKey: alice.privateKey });
+    expect(result.ok).toBe(false);
+    expect(signer.addKey('carol', 'carol-1', alice.publicKey).ok).toBe(false);
+  });
+
+  it('stores keys and signatures in SQLite', async () => {
+    const sqlite = new SQLiteStorage({ path: ':memory:' });
+    await sqlite.initialize();
+    const sqliteKeys = new ActorKeyRegistry(sqlite);
+    const sqliteLedger = new ProvenanceLedger(sqlite, { signer, keys: sqliteKeys });
+    await sqliteLedger.initialize();
+
+    await sqliteKeys.register({ id: 'alice-1', actor: 'alice', actorType: 'human', publicKey: alice.publicKey });
+    const recorded = await sqliteLedger.record({ sourceType: 'human', actor: 'alice', action: 'approve' });
+    if (!recorded.ok) throw recorded.error;
+    const rotated = await sqliteKeys.rotate('alice-1', generateActorKeyPair().publicKey);
+    expect(rotated.ok).toBe(true);
+
+    const stored = await sqliteLedger.getById(recorded.value.data.id);
+    expect(stored.ok && stored.value?.data.signature).toBe(recorded.value.data.signature);
+    const result = await sqliteLedger.verifyChain();
+    expect(result.ok && result.value.valid).toBe(true);
+    expect(result.ok && result.value.unsignedEntries).toEqual([]);
+    await sqlite.close();
+  });
 });
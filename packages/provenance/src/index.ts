@@ -9,6 +9,10 @@ export {
   type SourceType,
   type ActionType,
   type ArtifactRef,
+  type DocumentSpan,
+  type EntrySignature,
+  type HashAlgorithm,
+  type HashVersion,
   type ProvenanceData,
   type ProvenanceRecord,
   type CreateProvenanceInput,
@@ -17,16 +21,51 @@ export {
 
 export {
   ProvenanceEntry,
+  validateArtifactRef,
 } from './entry.js';
 
 export {
   ProvenanceLedger,
   ProvenanceLedgerError,
+  HASH_CUTOVER_OPERATION,
+  type ChainVerificationOptions,
   type ChainVerificationResult,
+  type ProvenanceLedgerOptions,
+  type HashMigrationOptions,
+  type HashMigrationResult,
+  type RecordOptions,
 } from './ledger.js';
 
+export {
+  ActorKeyRegistry,
+  ActorKeyRegistryError,
+  checkEntrySignature,
+  checkUnsignedEntry,
+  type ActorKey,
+  type ActorKeyStatus,
+  type ActorType,
+  type RegisterActorKeyInput,
+  type SignatureCheck,
+  type SignatureFailure,
+} from './keys.js';
+
+export {
+  Ed25519Signer,
+  generateActorKeyPair,
+  signaturePayload,
+  type ProvenanceSigner,
+  type ActorKeyPair,
+} from './signing.js';
+
 export {
   computeProvenanceHash,
   verifyProvenanceHash,
   computeDataHash,
+  canonicalJson,
+  isHashAlgorithm,
+  ChainAnchor,
+  HASH_ALGORITHMS,
+  LEGACY_HASH_VERSION,
+  CURRENT_HASH_VERSION,
+  type HashOptions,
 } from './hash.js';
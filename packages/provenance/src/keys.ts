@@ -0,0 +1,440 @@
+/**
+ * Actor Key Registry
+ *
+ * Public keys of the actors (agents, humans and systems) that sign
+ * provenance entries. A key belongs to one actor and is valid from its
+ * registration until it is rotated or revoked. A signature counts only if
+ * it was made with a key of the entry's actor that was valid when the
+ * entry was recorded, and an entry recorded while its actor held a valid
+ * key must be signed.
+ *
+ * An actor has at most one active key, which cannot be backdated.
+ * Rotation retires it in favour of a new one: entries signed before
+ * the rotation keep verifying. Revocation withdraws trust from a point in
+ * time, which may be backdated to when the key was compromised.
+ */
+
+import { createPublicKey, randomUUID, verify, type KeyObject } from 'crypto';
+import {
+  type Result,
+  type Timestamp,
+  createTimestamp,
+  ok,
+  err,
+  ValidationError,
+} from '@contextgraph/core';
+import type { StorageInterface } from '@contextgraph/storage';
+import type { ProvenanceEntry } from './entry.js';
+import { signaturePayload } from './signing.js';
+
+/**
+ * Kind of actor a key belongs to
+ */
+export type ActorType = 'agent' | 'human' | 'system';
+
+/**
+ * Lifecycle state of a key
+ */
+export type ActorKeyStatus = 'active' | 'rotated' | 'revoked';
+
+/**
+ * Registered public key of an actor
+ */
+export interface ActorKey {
+  readonly id: string;
+  readonly actor: string;
+  readonly actorType: ActorType;
+  readonly algorithm: 'ed25519';
+  /** SPKI PEM */
+  readonly publicKey: string;
+  readonly status: ActorKeyStatus;
+  /** Entries recorded from then on may be signed with the key */
+  readonly validFrom: Timestamp;
+  /** When the key was replaced; entries recorded after it may not be signed with the key */
+  readonly rotatedAt: Timestamp | undefined;
+  /** Key that replaced it */
+  readonly replacedBy: string | undefined;
+  /** When trust in the key was withdrawn */
+  readonly revokedAt: Timestamp | undefined;
+  readonly revocationReason: string | undefined;
+  readonly createdAt: Timestamp;
+}
+
+/**
+ * Input for registering a key
+ */
+export interface RegisterActorKeyInput {
+  readonly actor: string;
+  readonly actorType: ActorType;
+  /** Ed25519 public key, PEM encoded or as a key object */
+  readonly publicKey: string | KeyObject;
+  /** Key ID (default: a random UUID) */
+  readonly id?: string;
+  /** Default: now; may not be earlier, so a key cannot vouch for entries recorded before it */
+  readonly validFrom?: Timestamp;
+}
+
+/**
+ * Outcome of checking an entry's signature
+ * - `unknown_key`: the key is not registered
+ * - `actor_mismatch`: the key belongs to another actor
+ * - `key_not_yet_valid`: the entry was recorded before the key was valid
+ * - `key_rotated`: the entry was recorded after the key was replaced
+ * - `key_revoked`: the entry was recorded after the key was revoked
+ * - `bad_signature`: the signature does not match the entry
+ * - `missing_signature`: the entry is unsigned, though its actor held a key
+ *   that was valid when it was recorded
+ */
+export type SignatureFailure =
+  | 'unknown_key'
+  | 'actor_mismatch'
+  | 'key_not_yet_valid'
+  | 'key_rotated'
+  | 'key_revoked'
+  | 'bad_signature'
+  | 'missing_signature';
+
+/**
+ * Signature status of an entry
+ */
+export interface SignatureCheck {
+  readonly status: 'valid' | 'invalid' | 'unsigned';
+  readonly reason?: SignatureFailure;
+}
+
+/**
+ * Key storage record format
+ */
+interface ActorKeyRecord {
+  readonly id: string;
+  readonly actor: string;
+  readonly actorType: string;
+  readonly algorithm: string;
+  readonly publicKey: string;
+  readonly status: string;
+  readonly validFrom: Timestamp;
+  readonly rotatedAt: Timestamp | null;
+  readonly replacedBy: string | null;
+  readonly revokedAt: Timestamp | null;
+  readonly revocationReason: string | null;
+  readonly createdAt: Timestamp;
+  [key: string]: unknown;
+}
+
+const VALID_ACTOR_TYPES: readonly ActorType[] = ['agent', 'human', 'system'];
+
+/**
+ * Actor Key Registry Error
+ */
+export class ActorKeyRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly keyId?: string
+  ) {
+    super(message);
+    this.name = 'ActorKeyRegistryError';
+  }
+}
+
+/**
+ * Actor Key Registry
+ *
+ * Keeps every version of a key record, so the history of rotations and
+ * revocations stays available.
+ */
+export class ActorKeyRegistry {
+  private readonly collection = 'actor_keys';
+
+  constructor(private readonly storage: StorageInterface) {}
+
+  /**
+   * Register a public key for an actor
+   *
+   * Fails when the actor already has an active key; `rotate` replaces it.
+   */
+  async register(input: RegisterActorKeyInput): Promise<Result<ActorKey, Error>> {
+    if (!input.actor) {
+      return err(new ValidationError('Actor is required', 'actor'));
+    }
+    if (!VALID_ACTOR_TYPES.includes(input.actorType)) {
+      return err(new ValidationError(`Invalid actor type: ${input.actorType}`, 'actorType'));
+    }
+    const publicKey = parsePublicKey(input.publicKey);
+    if (!publicKey.ok) {
+      return publicKey;
+    }
+
+    const now = createTimestamp();
+    if (input.validFrom !== undefined && input.validFrom < now) {
+      return err(new ValidationError('Key cannot be valid before it is registered', 'validFrom'));
+    }
+    const existing = await this.listForActor(input.actor);
+    if (!existing.ok) {
+      return existing;
+    }
+    const active = existing.value.find((key) => key.status === 'active');
+    if (active !== undefined) {
+      return err(
+        new ActorKeyRegistryError(`Actor already has an active key: ${input.actor}`, 'ACTIVE_KEY_EXISTS', active.id)
+      );
+    }
+
+    const record: ActorKeyRecord = {
+      id: input.id ?? randomUUID(),
+      actor: input.actor,
+      actorType: input.actorType,
+      algorithm: 'ed25519',
+      publicKey: publicKey.value,
+      status: 'active',
+      validFrom: input.validFrom ?? now,
+      rotatedAt: null,
+      replacedBy: null,
+      revokedAt: null,
+      revocationReason: null,
+      createdAt: now,
+    };
+
+    const result = await this.storage.insert(this.collection, record);
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(fromRecord(record));
+  }
+
+  /**
+   * Get a key by ID
+   */
+  async get(keyId: string): Promise<Result<ActorKey | null, Error>> {
+    const result = await this.storage.findById<ActorKeyRecord>(this.collection, keyId);
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(result.value !== null ? fromRecord(result.value) : null);
+  }
+
+  /**
+   * Keys of an actor, oldest first
+   */
+  async listForActor(actor: string): Promise<Result<readonly ActorKey[], Error>> {
+    const result = await this.storage.find<ActorKeyRecord>(
+      this.collection,
+      { actor },
+      { orderBy: 'validFrom', orderDirection: 'asc' }
+    );
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(result.value.items.map(fromRecord));
+  }
+
+  /**
+   * Replace an active key with a new one for the same actor
+   *
+   * Returns the new key. The old one stays valid for entries recorded
+   * before the rotation.
+   */
+  async rotate(keyId: string, publicKey: string | KeyObject, options: { id?: string } = {}): Promise<Result<ActorKey, Error>> {
+    const current = await this.requireKey(keyId);
+    if (!current.ok) {
+      return current;
+    }
+    if (current.value.status !== 'active') {
+      return err(new ActorKeyRegistryError(`Key is ${current.value.status}: ${keyId}`, 'KEY_NOT_ACTIVE', keyId));
+    }
+    const parsed = parsePublicKey(publicKey);
+    if (!parsed.ok) {
+      return parsed;
+    }
+
+    const now = createTimestamp();
+    const replacement: ActorKeyRecord = {
+      ...toRecord(current.value),
+      id: options.id ?? randomUUID(),
+      publicKey: parsed.value,
+      validFrom: now,
+      createdAt: now,
+    };
+
+    const result = await this.storage.transaction(async () => {
+      const inserted = await this.storage.insert(this.collection, replacement);
+      if (!inserted.ok) {
+        return inserted;
+      }
+      return this.storage.upsert(this.collection, {
+        ...toRecord(current.value),
+        status: 'rotated',
+        rotatedAt: now,
+        replacedBy: replacement.id,
+      });
+    });
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(fromRecord(replacement));
+  }
+
+  /**
+   * Withdraw trust in a key
+   *
+   * Entries recorded from `at` (default: now) on no longer verify with
+   * it; backdate `at` to when the key was compromised.
+   */
+  async revoke(keyId: string, options: { reason?: string; at?: Timestamp } = {}): Promise<Result<ActorKey, Error>> {
+    const current = await this.requireKey(keyId);
+    if (!current.ok) {
+      return current;
+    }
+    if (current.value.status === 'revoked') {
+      return err(new ActorKeyRegistryError(`Key already revoked: ${keyId}`, 'KEY_REVOKED', keyId));
+    }
+
+    const record: ActorKeyRecord = {
+      ...toRecord(current.value),
+      status: 'revoked',
+      revokedAt: options.at ?? createTimestamp(),
+      revocationReason: options.reason ?? null,
+    };
+    const result = await this.storage.upsert(this.collection, record);
+    if (!result.ok) {
+      return err(result.error);
+    }
+    return ok(fromRecord(record));
+  }
+
+  /**
+   * Check an entry's signature against the registered keys
+   */
+  async verify(entry: ProvenanceEntry): Promise<Result<SignatureCheck, Error>> {
+    if (entry.data.signature === undefined || entry.data.signatureKeyId === undefined) {
+      if (entry.data.actor === undefined) {
+        return ok(checkUnsignedEntry(entry, []));
+      }
+      const actorKeys = await this.listForActor(entry.data.actor);
+      if (!actorKeys.ok) {
+        return actorKeys;
+      }
+      return ok(checkUnsignedEntry(entry, actorKeys.value));
+    }
+    const key = await this.get(entry.data.signatureKeyId);
+    if (!key.ok) {
+      return key;
+    }
+    return ok(checkEntrySignature(entry, key.value));
+  }
+
+  private async requireKey(keyId: string): Promise<Result<ActorKey, Error>> {
+    const result = await this.get(keyId);
+    if (!result.ok) {
+      return result;
+    }
+    if (result.value === null) {
+      return err(new ActorKeyRegistryError(`Key not found: ${keyId}`, 'KEY_NOT_FOUND', keyId));
+    }
+    return ok(result.value);
+  }
+}
+
+/**
+ * Check an entry's signature against the key it names, or null when that
+ * key is not registered
+ */
+export function checkEntrySignature(entry: ProvenanceEntry, key: ActorKey | null): SignatureCheck {
+  const { signature, signatureKeyId, actor, createdAt } = entry.data;
+  if (signature === undefined || signatureKeyId === undefined) {
+    return { status: 'unsigned' };
+  }
+  if (key === null || key.id !== signatureKeyId) {
+    return { status: 'invalid', reason: 'unknown_key' };
+  }
+  if (key.actor !== actor) {
+    return { status: 'invalid', reason: 'actor_mismatch' };
+  }
+  if (createdAt < key.validFrom) {
+    return { status: 'invalid', reason: 'key_not_yet_valid' };
+  }
+  if (key.revokedAt !== undefined && createdAt >= key.revokedAt) {
+    return { status: 'invalid', reason: 'key_revoked' };
+  }
+  if (key.rotatedAt !== undefined && createdAt > key.rotatedAt) {
+    return { status: 'invalid', reason: 'key_rotated' };
+  }
+
+  try {
+    const valid = verify(null, signaturePayload(entry, key.id), key.publicKey, Buffer.from(signature, 'base64'));
+    return valid ? { status: 'valid' } : { status: 'invalid', reason: 'bad_signature' };
+  } catch {
+    return { status: 'invalid', reason: 'bad_signature' };
+  }
+}
+
+/**
+ * Check an entry that carries no signature against the keys of its actor:
+ * it is invalid if one of them was valid when the entry was recorded, as
+ * the actor would have signed it
+ */
+export function checkUnsignedEntry(entry: ProvenanceEntry, actorKeys: readonly ActorKey[]): SignatureCheck {
+  const { actor, createdAt } = entry.data;
+  const signable = actorKeys.some(
+    (key) =>
+      key.actor === actor &&
+      createdAt >= key.validFrom &&
+      (key.revokedAt === undefined || createdAt < key.revokedAt) &&
+      (key.rotatedAt === undefined || createdAt <= key.rotatedAt)
+  );
+  return signable ? { status: 'invalid', reason: 'missing_signature' } : { status: 'unsigned' };
+}
+
+/**
+ * Validate an Ed25519 public key and encode it as SPKI PEM
+ */
+function parsePublicKey(publicKey: string | KeyObject): Result<string, ValidationError> {
+  // createPublicKey derives the public half of a private key; refuse to take one
+  if (typeof publicKey === 'string' && publicKey.includes('PRIVATE KEY')) {
+    return err(new ValidationError('Expected a public key, got a private key', 'publicKey'));
+  }
+  let key: KeyObject;
+  try {
+    key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  } catch (error) {
+    return err(new ValidationError(`Invalid public key: ${error instanceof Error ? error.message : String(error)}`, 'publicKey'));
+  }
+  if (key.type !== 'public' || key.asymmetricKeyType !== 'ed25519') {
+    return err(new ValidationError('Public key must be an Ed25519 public key', 'publicKey'));
+  }
+  return ok(key.export({ type: 'spki', format: 'pem' }).toString());
+}
+
+function fromRecord(record: ActorKeyRecord): ActorKey {
+  return {
+    id: record.id,
+    actor: record.actor,
+    actorType: record.actorType as ActorType,
+    algorithm: 'ed25519',
+    publicKey: record.publicKey,
+    status: record.status as ActorKeyStatus,
+    validFrom: record.validFrom,
+    rotatedAt: record.rotatedAt ?? undefined,
+    replacedBy: record.replacedBy ?? undefined,
+    revokedAt: record.revokedAt ?? undefined,
+    revocationReason: record.revocationReason ?? undefined,
+    createdAt: record.createdAt,
+  };
+}
+
+function toRecord(key: ActorKey): ActorKeyRecord {
+  return {
+    id: key.id,
+    actor: key.actor,
+    actorType: key.actorType,
+    algorithm: key.algorithm,
+    publicKey: key.publicKey,
+    status: key.status,
+    validFrom: key.validFrom,
+    rotatedAt: key.rotatedAt ?? null,
+    replacedBy: key.replacedBy ?? null,
+    revokedAt: key.revokedAt ?? null,
+    revocationReason: key.revocationReason ?? null,
+    createdAt: key.createdAt,
+  };
+}
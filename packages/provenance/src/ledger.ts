@@ -18,8 +18,75 @@ import type {
   ProvenanceQueryOptions,
   SourceType,
   ActionType,
+  HashAlgorithm,
 } from './types.js';
 import { ProvenanceEntry } from './entry.js';
+import { type ActorKey, type ActorKeyRegistry, checkEntrySignature, checkUnsignedEntry } from './keys.js';
+import type { ProvenanceSigner } from './signing.js';
+import {
+  ChainAnchor,
+  CURRENT_HASH_VERSION,
+  HASH_ALGORITHMS,
+  LEGACY_HASH_VERSION,
+  isHashAlgorithm,
+} from './hash.js';
+
+/**
+ * Metadata operation of the entry that re-anchors legacy entries
+ */
+export const HASH_CUTOVER_OPERATION = 'hash_cutover';
+
+/**
+ * Ledger options
+ */
+export interface ProvenanceLedgerOptions {
+  /** Digest algorithm of new entries (default: `sha256`) */
+  readonly hashAlgorithm?: HashAlgorithm;
+  /** Signs new entries on behalf of their actors */
+  readonly signer?: ProvenanceSigner;
+  /** Keys to verify signatures against; without it signatures are not checked */
+  readonly keys?: ActorKeyRegistry;
+}
+
+/**
+ * Options for recording an entry
+ */
+export interface RecordOptions {
+  /** Signer for this entry instead of the ledger's */
+  readonly signer?: ProvenanceSigner;
+}
+
+/**
+ * Options for verifying the chain
+ */
+export interface ChainVerificationOptions {
+  /** Verify only the oldest entries */
+  readonly limit?: number;
+  /** Count every unsigned entry as an invalid signature */
+  readonly requireSignatures?: boolean;
+}
+
+/**
+ * Options for re-anchoring legacy entries
+ */
+export interface HashMigrationOptions {
+  /** Digest algorithm of the anchor and cut-over entry (default: the ledger's) */
+  readonly algorithm?: HashAlgorithm;
+  /** Actor recorded on the cut-over entry */
+  readonly actor?: string;
+}
+
+/**
+ * Outcome of re-anchoring legacy entries
+ */
+export interface HashMigrationResult {
+  /** Legacy entries covered by the cut-over entry */
+  readonly anchoredEntries: number;
+  /** Cut-over entry, absent when the chain has no legacy entries */
+  readonly cutover: ProvenanceEntry | undefined;
+  /** Whether the cut-over entry was recorded now, rather than found */
+  readonly recorded: boolean;
+}
 
 /**
  * Chain verification result
@@ -33,6 +100,13 @@ export interface ChainVerificationResult {
     readonly actualPreviousHash: string | undefined;
   }[];
   readonly invalidHashes: readonly ProvenanceId[];
+  /** Entries without a signature that may be unsigned; these do not make the chain invalid */
+  readonly unsignedEntries: readonly ProvenanceId[];
+  /**
+   * Signed entries whose signature does not verify against the key registry,
+   * and unsigned entries whose actor held a key when they were recorded
+   */
+  readonly invalidSignatures: readonly ProvenanceId[];
 }
 
 /**
@@ -56,9 +130,19 @@ export class ProvenanceLedgerError extends Error {
  */
 export class ProvenanceLedger {
   private readonly collection = 'provenance';
+  private readonly hashAlgorithm: HashAlgorithm;
+  private readonly signer: ProvenanceSigner | undefined;
+  private readonly keys: ActorKeyRegistry | undefined;
   private lastHash: string | undefined;
 
-  constructor(private readonly storage: StorageInterface) {}
+  constructor(
+    private readonly storage: StorageInterface,
+    options: ProvenanceLedgerOptions = {}
+  ) {
+    this.hashAlgorithm = options.hashAlgorithm ?? 'sha256';
+    this.signer = options.signer;
+    this.keys = options.keys;
+  }
 
   /**
    * Initialize the ledger by loading the last hash
@@ -69,23 +153,44 @@ export class ProvenanceLedger {
       return err(lastEntryResult.error);
     }
 
-    if (lastEntryResult.value !== null) {
-      this.lastHash = lastEntryResult.value.data.hash;
-    }
+    // An empty ledger starts a new chain, even after entries were rolled back
+    this.lastHash = lastEntryResult.value?.data.hash;
 
     return ok(undefined);
   }
 
   /**
-   * Record a new provenance entry
+   * Record a new provenance entry, signed by the signer if it holds a key
+   * for the actor
    */
-  async record(input: CreateProvenanceInput): Promise<Result<ProvenanceEntry, Error>> {
-    const entryResult = ProvenanceEntry.create(input, this.lastHash);
+  async record(input: CreateProvenanceInput, options: RecordOptions = {}): Promise<Result<ProvenanceEntry, Error>> {
+    return this.append(input, this.hashAlgorithm, options.signer ?? this.signer);
+  }
+
+  /**
+   * Hash an entry under the current version, sign it and link it to the chain
+   */
+  private async append(
+    input: CreateProvenanceInput,
+    algorithm: HashAlgorithm,
+    signer: ProvenanceSigner | undefined
+  ): Promise<Result<ProvenanceEntry, Error>> {
+    const entryResult = ProvenanceEntry.create(input, this.lastHash, { algorithm });
     if (!entryResult.ok) {
       return entryResult;
     }
 
-    const entry = entryResult.value;
+    let entry = entryResult.value;
+    if (signer !== undefined) {
+      const signature = await signer.sign(entry);
+      if (!signature.ok) {
+        return signature;
+      }
+      if (signature.value !== undefined) {
+        entry = entry.withSignature(signature.value);
+      }
+    }
+
     const insertResult = await this.storage.insert(this.collection, entry.toRecord());
     if (!insertResult.ok) {
       return err(insertResult.error);
@@ -152,6 +257,10 @@ export class ProvenanceLedger {
       criteria['action'] = options.action;
     }
 
+    if (options.timeRange !== undefined) {
+      criteria['timestamp'] = { $gte: options.timeRange.start, $lte: options.timeRange.end };
+    }
+
     const queryOptions: { limit?: number; offset?: number; orderBy?: string; orderDirection?: 'asc' | 'desc' } = {
       orderBy: 'createdAt',
       orderDirection: 'asc',
@@ -164,25 +273,12 @@ export class ProvenanceLedger {
       queryOptions.offset = options.offset;
     }
 
-    // Note: time range filtering on 'timestamp' field requires post-filtering
-    // since the storage interface temporal filter uses 'createdAt'
     const result = await this.storage.find<ProvenanceRecord>(this.collection, criteria, queryOptions);
     if (!result.ok) {
       return err(result.error);
     }
 
-    let entries = result.value.items.map((record) => ProvenanceEntry.fromRecord(record));
-
-    // Apply timestamp range filter if specified (post-filter)
-    if (options.timeRange !== undefined) {
-      const { start, end } = options.timeRange;
-      entries = entries.filter((entry) => {
-        const ts = entry.data.timestamp;
-        return ts >= start && ts <= end;
-      });
-    }
-
-    return ok(entries);
+    return ok(result.value.items.map((record) => ProvenanceEntry.fromRecord(record)));
   }
 
   /**
@@ -252,64 +348,209 @@ export class ProvenanceLedger {
 
   /**
    * Verify the integrity of the provenance chain
+   *
+   * Entries are streamed oldest first, so memory use does not grow with the
+   * size of the ledger. Besides hashes and links, legacy entries recorded
+   * after a current-version entry, and hash cut-over entries whose anchor
+   * does not match the legacy entries before them, count as invalid hashes.
+   * With a key registry, signatures are checked against the key of the
+   * entry's actor that was valid when it was recorded, and an entry left
+   * unsigned while its actor held a valid key is invalid, so signatures
+   * cannot be stripped. With `requireSignatures`, no entry may be unsigned.
    */
-  async verifyChain(options?: { limit?: number }): Promise<Result<ChainVerificationResult, Error>> {
-    // Get all entries in order
-    const queryOptions: { orderBy: string; orderDirection: 'asc' | 'desc'; limit?: number } = {
-      orderBy: 'createdAt',
-      orderDirection: 'asc',
-    };
-
-    if (options?.limit !== undefined) {
-      queryOptions.limit = options.limit;
-    }
-
-    const result = await this.storage.find<ProvenanceRecord>(
-      this.collection,
-      {},
-      queryOptions
-    );
-
-    if (!result.ok) {
-      return err(result.error);
-    }
-
-    const entries = result.value.items.map((record) => ProvenanceEntry.fromRecord(record));
+  async verifyChain(options: ChainVerificationOptions = {}): Promise<Result<ChainVerificationResult, Error>> {
     const brokenLinks: {
       entryId: ProvenanceId;
       expectedPreviousHash: string | undefined;
       actualPreviousHash: string | undefined;
     }[] = [];
     const invalidHashes: ProvenanceId[] = [];
+    const unsignedEntries: ProvenanceId[] = [];
+    const invalidSignatures: ProvenanceId[] = [];
+    const keys = new Map<string, ActorKey | null>();
+    const actorKeys = new Map<string, readonly ActorKey[]>();
 
     let previousHash: string | undefined;
+    let entriesVerified = 0;
+    let upgraded = false;
+    // One anchor per algorithm, since the cut-over entry names the one it used
+    let anchors: Map<HashAlgorithm, ChainAnchor> | undefined;
+
+    try {
+      for await (const entry of this.inChainOrder(options.limit)) {
+        const legacy = entry.data.hashVersion === LEGACY_HASH_VERSION;
+
+        // Verify entry's own hash, and that its scheme was not downgraded
+        if (!entry.verifyHash() || (legacy && upgraded) || (isHashCutover(entry) && !matchesAnchor(entry, anchors))) {
+          invalidHashes.push(entry.data.id);
+        }
 
-    for (const entry of entries) {
-      // Verify entry's own hash
-      if (!entry.verifyHash()) {
-        invalidHashes.push(entry.data.id);
-      }
+        // Verify link to previous entry
+        if (entry.data.previousHash !== previousHash) {
+          brokenLinks.push({
+            entryId: entry.data.id,
+            expectedPreviousHash: previousHash,
+            actualPreviousHash: entry.data.previousHash,
+          });
+        }
 
-      // Verify link to previous entry
-      if (entry.data.previousHash !== previousHash) {
-        brokenLinks.push({
-          entryId: entry.data.id,
-          expectedPreviousHash: previousHash,
-          actualPreviousHash: entry.data.previousHash,
-        });
-      }
+        // Verify the actor's signature, or that the entry may be unsigned
+        if (entry.data.signature === undefined || entry.data.signatureKeyId === undefined) {
+          if (options.requireSignatures === true) {
+            invalidSignatures.push(entry.data.id);
+          } else if (
+            this.keys !== undefined &&
+            entry.data.actor !== undefined &&
+            checkUnsignedEntry(entry, await cachedActorKeys(this.keys, entry.data.actor, actorKeys)).status === 'invalid'
+          ) {
+            invalidSignatures.push(entry.data.id);
+          } else {
+            unsignedEntries.push(entry.data.id);
+          }
+        } else if (this.keys !== undefined) {
+          const key = await cachedKey(this.keys, entry.data.signatureKeyId, keys);
+          if (checkEntrySignature(entry, key).status !== 'valid') {
+            invalidSignatures.push(entry.data.id);
+          }
+        }
 
-      previousHash = entry.data.hash;
+        if (legacy && !upgraded) {
+          anchors ??= new Map(HASH_ALGORITHMS.map((algorithm) => [algorithm, new ChainAnchor(algorithm)]));
+          for (const anchor of anchors.values()) {
+            anchor.add(entry.data);
+          }
+        } else {
+          upgraded = true;
+        }
+
+        previousHash = entry.data.hash;
+        entriesVerified++;
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
     }
 
     return ok({
-      valid: brokenLinks.length === 0 && invalidHashes.length === 0,
-      entriesVerified: entries.length,
+      valid: brokenLinks.length === 0 && invalidHashes.length === 0 && invalidSignatures.length === 0,
+      entriesVerified,
       brokenLinks,
       invalidHashes,
+      unsignedEntries,
+      invalidSignatures,
     });
   }
 
+  /**
+   * Re-anchor a chain of legacy entries under the current hash version
+   *
+   * Appends a cut-over entry whose metadata holds a digest of every legacy
+   * entry rehashed under the current version, so tampering with their
+   * nested content, which legacy hashes miss, is caught by `verifyChain`
+   * from then on. Existing entries are left as recorded. Refuses a chain
+   * that fails verification, and records nothing when the chain has no
+   * legacy entries or was already re-anchored.
+   */
+  async migrateHashes(options: HashMigrationOptions = {}): Promise<Result<HashMigrationResult, Error>> {
+    const algorithm = options.algorithm ?? this.hashAlgorithm;
+    if (!isHashAlgorithm(algorithm)) {
+      return err(new ProvenanceLedgerError(`Invalid hash algorithm: ${String(algorithm)}`, 'INVALID_HASH_ALGORITHM'));
+    }
+
+    const verification = await this.verifyChain();
+    if (!verification.ok) {
+      return err(verification.error);
+    }
+    if (!verification.value.valid) {
+      const [entryId] = [...verification.value.invalidHashes, ...verification.value.brokenLinks.map((link) => link.entryId)];
+      return err(new ProvenanceLedgerError('Cannot re-anchor a chain that fails verification', 'CHAIN_INVALID', entryId));
+    }
+
+    const anchor = new ChainAnchor(algorithm);
+    let lastLegacy: ProvenanceEntry | undefined;
+    let tip: string | undefined;
+    try {
+      for await (const entry of this.inChainOrder()) {
+        tip = entry.data.hash;
+        if (isHashCutover(entry)) {
+          return ok({ anchoredEntries: Number(entry.data.metadata['anchoredEntries']), cutover: entry, recorded: false });
+        }
+        if (entry.data.hashVersion === LEGACY_HASH_VERSION) {
+          anchor.add(entry.data);
+          lastLegacy = entry;
+        }
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (lastLegacy === undefined) {
+      return ok({ anchoredEntries: 0, cutover: undefined, recorded: false });
+    }
+
+    // The last entry by time may not be the tip when several share a millisecond
+    this.lastHash = tip;
+    const cutover = await this.append(
+      {
+        sourceType: 'system',
+        sourceId: 'provenance-ledger',
+        ...(options.actor !== undefined ? { actor: options.actor } : {}),
+        action: 'transform',
+        inputRefs: [{ type: 'provenance', id: lastLegacy.data.id }],
+        metadata: {
+          operation: HASH_CUTOVER_OPERATION,
+          fromHashVersion: LEGACY_HASH_VERSION,
+          toHashVersion: CURRENT_HASH_VERSION,
+          hashAlgorithm: algorithm,
+          anchoredEntries: anchor.entries,
+          anchor: anchor.value(),
+        },
+      },
+      algorithm,
+      this.signer
+    );
+    if (!cutover.ok) {
+      return cutover;
+    }
+
+    return ok({ anchoredEntries: anchor.entries, cutover: cutover.value, recorded: true });
+  }
+
+  /**
+   * Stream entries oldest first in chain order
+   *
+   * Entries recorded in the same millisecond share a timestamp, so each
+   * such group is put back into chain order before it is yielded.
+   */
+  private async *inChainOrder(limit = Number.POSITIVE_INFINITY): AsyncGenerator<ProvenanceEntry> {
+    let tip: string | undefined;
+    let yielded = 0;
+    let group: ProvenanceEntry[] = [];
+
+    const records = this.storage.stream<ProvenanceRecord>(this.collection, {}, {
+      orderBy: 'createdAt',
+      orderDirection: 'asc',
+    });
+    for await (const record of records) {
+      if (yielded + group.length >= limit) {
+        break;
+      }
+      const entry = ProvenanceEntry.fromRecord(record);
+      if (group.length > 0 && group[0]!.data.createdAt !== entry.data.createdAt) {
+        for (const ordered of orderByLinks(group, tip)) {
+          tip = ordered.data.hash;
+          yielded++;
+          yield ordered;
+        }
+        group = [];
+      }
+      group.push(entry);
+    }
+
+    for (const ordered of orderByLinks(group, tip)) {
+      yield ordered;
+    }
+  }
+
   /**
    * Count entries
    */
@@ -317,3 +558,77 @@ export class ProvenanceLedger {
     return this.storage.count(this.collection, {});
   }
 }
+
+/**
+ * Order entries sharing a timestamp by following their hash links from `previousHash`
+ */
+function orderByLinks(entries: readonly ProvenanceEntry[], previousHash: string | undefined): ProvenanceEntry[] {
+  const remaining = [...entries];
+  const ordered: ProvenanceEntry[] = [];
+  let tip = previousHash;
+
+  while (remaining.length > 0) {
+    const index = Math.max(0, remaining.findIndex((entry) => entry.data.previousHash === tip));
+    const [next] = remaining.splice(index, 1);
+    ordered.push(next!);
+    tip = next!.data.hash;
+  }
+
+  return ordered;
+}
+
+/**
+ * Look up a key once per verification; throws on storage errors
+ */
+async function cachedKey(
+  registry: ActorKeyRegistry,
+  keyId: string,
+  cache: Map<string, ActorKey | null>
+): Promise<ActorKey | null> {
+  const cached = cache.get(keyId);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const result = await registry.get(keyId);
+  if (!result.ok) {
+    throw result.error;
+  }
+  cache.set(keyId, result.value);
+  return result.value;
+}
+
+/**
+ * Look up the keys of an actor once per verification; throws on storage errors
+ */
+async function cachedActorKeys(
+  registry: ActorKeyRegistry,
+  actor: string,
+  cache: Map<string, readonly ActorKey[]>
+): Promise<readonly ActorKey[]> {
+  const cached = cache.get(actor);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const result = await registry.listForActor(actor);
+  if (!result.ok) {
+    throw result.error;
+  }
+  cache.set(actor, result.value);
+  return result.value;
+}
+
+/**
+ * Whether an entry is a hash cut-over entry
+ */
+function isHashCutover(entry: ProvenanceEntry): boolean {
+  return entry.data.metadata['operation'] === HASH_CUTOVER_OPERATION;
+}
+
+/**
+ * Whether a cut-over entry's anchor matches the legacy entries before it
+ */
+function matchesAnchor(entry: ProvenanceEntry, anchors: ReadonlyMap<HashAlgorithm, ChainAnchor> | undefined): boolean {
+  const { hashAlgorithm, anchoredEntries, anchor } = entry.data.metadata;
+  const expected = isHashAlgorithm(hashAlgorithm) ? anchors?.get(hashAlgorithm) : undefined;
+  return expected !== undefined && expected.entries === anchoredEntries && expected.value() === anchor;
+}
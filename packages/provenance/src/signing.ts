@@ -0,0 +1,101 @@
+/**
+ * Provenance Signing
+ *
+ * The hash chain proves the order of entries; signatures prove who
+ * recorded them. An entry is signed by its actor with an Ed25519 key
+ * registered in the `ActorKeyRegistry`. The signature covers the entry's
+ * hash, which covers its content, together with the key and the time the
+ * entry was recorded.
+ *
+ * Signers are pluggable: `Ed25519Signer` holds private keys in process,
+ * while keys kept in a KMS or by the agents themselves only need a
+ * `ProvenanceSigner` around them.
+ */
+
+import { createPrivateKey, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { type Result, ok, err, ValidationError } from '@contextgraph/core';
+import type { EntrySignature } from './types.js';
+import type { ProvenanceEntry } from './entry.js';
+import { canonicalJson } from './hash.js';
+
+/**
+ * Signs entries as they are recorded
+ */
+export interface ProvenanceSigner {
+  /**
+   * Sign an entry on behalf of its actor, or return undefined to leave it
+   * unsigned
+   */
+  sign(entry: ProvenanceEntry): Promise<Result<EntrySignature | undefined, Error>>;
+}
+
+/**
+ * Ed25519 key pair, PEM encoded (SPKI public key, PKCS#8 private key)
+ */
+export interface ActorKeyPair {
+  readonly publicKey: string;
+  readonly privateKey: string;
+}
+
+/**
+ * Bytes an entry's signature is made over
+ */
+export function signaturePayload(entry: ProvenanceEntry, keyId: string): Buffer {
+  return Buffer.from(canonicalJson({ hash: entry.data.hash, keyId, createdAt: entry.data.createdAt }));
+}
+
+/**
+ * Generate an Ed25519 key pair for an actor
+ */
+export function generateActorKeyPair(): ActorKeyPair {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+/**
+ * Signer holding Ed25519 private keys in process, one per actor
+ *
+ * Entries by actors it holds no key for are left unsigned.
+ */
+export class Ed25519Signer implements ProvenanceSigner {
+  private readonly keys = new Map<string, { readonly keyId: string; readonly privateKey: KeyObject }>();
+
+  /**
+   * Sign the entries of an actor with a registered key, replacing the key
+   * held for the actor before
+   */
+  addKey(actor: string, keyId: string, privateKey: KeyObject | string): Result<void, ValidationError> {
+    let key: KeyObject;
+    try {
+      key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey;
+    } catch (error) {
+      return err(new ValidationError(`Invalid private key: ${error instanceof Error ? error.message : String(error)}`, 'privateKey'));
+    }
+    if (key.type !== 'private' || key.asymmetricKeyType !== 'ed25519') {
+      return err(new ValidationError('Private key must be an Ed25519 private key', 'privateKey'));
+    }
+
+    this.keys.set(actor, { keyId, privateKey: key });
+    return ok(undefined);
+  }
+
+  /**
+   * Stop signing the entries of an actor
+   */
+  removeKey(actor: string): boolean {
+    return this.keys.delete(actor);
+  }
+
+  sign(entry: ProvenanceEntry): Promise<Result<EntrySignature | undefined, Error>> {
+    const key = entry.data.actor !== undefined ? this.keys.get(entry.data.actor) : undefined;
+    if (key === undefined) {
+      return Promise.resolve(ok(undefined));
+    }
+
+    const signature = sign(null, signaturePayload(entry, key.keyId), key.privateKey);
+    return Promise.resolve(ok({ keyId: key.keyId, signature: signature.toString('base64') }));
+  }
+}
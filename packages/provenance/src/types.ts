@@ -33,11 +33,46 @@ export type ActionType =
   | 'execute';
 
 /**
- * Reference to another artifact (claim, entity, decision, etc.)
+ * Version of the scheme an entry was hashed under
+ * - `1`: legacy, SHA-256 of top-level fields only
+ * - `2`: canonical JSON of all content
+ */
+export type HashVersion = 1 | 2;
+
+/**
+ * Digest algorithm of an entry's hash
+ */
+export type HashAlgorithm = 'sha256' | 'sha512' | 'blake2b512' | 'blake2s256';
+
+/**
+ * Signature of an entry by a registered actor key
+ */
+export interface EntrySignature {
+  /** Registered key the signature was made with */
+  readonly keyId: string;
+  /** Base64 Ed25519 signature */
+  readonly signature: string;
+}
+
+/**
+ * Character range of a document, end exclusive
+ */
+export interface DocumentSpan {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Reference to another artifact (claim, entity, decision, etc.), or to a
+ * document or part of one
  */
 export interface ArtifactRef {
-  readonly type: 'claim' | 'entity' | 'decision' | 'provenance' | 'policy';
+  readonly type: 'claim' | 'entity' | 'decision' | 'provenance' | 'policy' | 'document';
   readonly id: string;
+  /** Where a document can be found */
+  readonly uri?: string;
+  /** Part of a document referred to */
+  readonly span?: DocumentSpan;
 }
 
 /**
@@ -67,6 +102,14 @@ export interface ProvenanceData {
   readonly hash: string;
   /** Hash of the previous entry (for chain integrity) */
   readonly previousHash: string | undefined;
+  /** Scheme the hash was computed under */
+  readonly hashVersion: HashVersion;
+  /** Digest algorithm of the hash */
+  readonly hashAlgorithm: HashAlgorithm;
+  /** Base64 signature by the actor, if signed */
+  readonly signature: string | undefined;
+  /** Registered key the signature was made with */
+  readonly signatureKeyId: string | undefined;
   /** When the record was created */
   readonly createdAt: Timestamp;
 }
@@ -87,6 +130,12 @@ export interface ProvenanceRecord {
   readonly metadata: string | null;
   readonly hash: string;
   readonly previousHash: string | null;
+  /** Null or absent for entries recorded before hash versioning */
+  readonly hashVersion?: number | null;
+  readonly hashAlgorithm?: string | null;
+  /** Null or absent for unsigned entries */
+  readonly signature?: string | null;
+  readonly signatureKeyId?: string | null;
   readonly createdAt: Timestamp;
   [key: string]: unknown;
 }
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { InMemoryStorage } from '@contextgraph/storage';
+import { InMemoryStorage, SQLiteStorage } from '@contextgraph/storage';
 import { createTimestamp } from '@contextgraph/core';
 import type { Timestamp } from '@contextgraph/core';
 import {
@@ -44,6 +44,18 @@ describe('RoleManager', () => {
       }
     });
 
+    it('should create the role tables in SQLite storage', async () => {
+      const sqlite = new SQLiteStorage({ path: ':memory:' });
+      const sqliteRoles = new RoleManager(sqlite);
+      expect((await sqliteRoles.initialize(BUILT_IN_ROLES)).ok).toBe(true);
+
+      const result = await sqliteRoles.list();
+      expect(result.ok && result.value.length).toBe(5);
+      const version = await sqlite.migrationStatus();
+      expect(version.ok && version.value.filter((m) => m.module === 'rbac').map((m) => m.state)).toEqual(['applied', 'applied']);
+      await sqlite.close();
+    });
+
     it('should not duplicate built-in roles on re-initialize', async () => {
       await roleManager.initialize(BUILT_IN_ROLES);
       const result = await roleManager.list();
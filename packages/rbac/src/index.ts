@@ -34,3 +34,6 @@ export { AssignmentManager } from './assignments.js';
 
 // Permission Checking
 export { PermissionChecker } from './permissions.js';
+
+// Storage Migrations
+export { rbacMigrations } from './migrations.js';
@@ -0,0 +1,55 @@
+/**
+ * RBAC storage migrations
+ *
+ * Schema for roles and role assignments, registered with the storage
+ * backend by RoleManager.initialize().
+ */
+
+import type { Migration } from '@contextgraph/storage';
+
+export const rbacMigrations: readonly Migration[] = [
+  {
+    module: 'rbac',
+    version: 1,
+    name: 'create_roles_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS roles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        permissions TEXT NOT NULL,
+        parentRoleId TEXT,
+        isBuiltIn INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        createdAt INTEGER NOT NULL,
+        updatedAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_roles_name ON roles(name);
+    `,
+    down: `
+      DROP TABLE IF EXISTS roles;
+    `,
+  },
+  {
+    module: 'rbac',
+    version: 2,
+    name: 'create_role_assignments_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS role_assignments (
+        id TEXT PRIMARY KEY,
+        subjectId TEXT NOT NULL,
+        subjectType TEXT NOT NULL,
+        roleId TEXT NOT NULL,
+        scope TEXT,
+        expiresAt INTEGER,
+        createdBy TEXT NOT NULL,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_role_assignments_subjectId ON role_assignments(subjectId);
+      CREATE INDEX IF NOT EXISTS idx_role_assignments_roleId ON role_assignments(roleId);
+    `,
+    down: `
+      DROP TABLE IF EXISTS role_assignments;
+    `,
+  },
+];
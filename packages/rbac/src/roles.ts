@@ -15,6 +15,7 @@ import type {
   Permission,
   RoleStatus,
 } from './types.js';
+import { rbacMigrations } from './migrations.js';
 
 /**
  * Role record in storage
@@ -51,6 +52,11 @@ export class RoleManager {
       return initResult;
     }
 
+    const migrationResult = await this.storage.registerMigrations(rbacMigrations);
+    if (!migrationResult.ok) {
+      return err(migrationResult.error);
+    }
+
     // Create built-in roles if they don't exist
     for (const roleDef of builtInRoles) {
       const existing = await this.getByName(roleDef.name);
@@ -296,7 +302,7 @@ export class RoleManager {
     const data: RoleData = {
       id: record.id,
       name: record.name,
-      permissions: JSON.parse(record.permissions) as Permission[],
+      permissions: (typeof record.permissions === 'string' ? JSON.parse(record.permissions) : record.permissions) as Permission[],
       isBuiltIn: record.isBuiltIn,
       status: record.status,
       createdAt: record.createdAt,
@@ -12,7 +12,7 @@ import {
   ok,
   err,
 } from '@contextgraph/core';
-import { CKG, type Entity, type Claim } from '@contextgraph/ckg';
+import { CKG, type Entity, type Claim, type Annotation, type ContextFilterOptions } from '@contextgraph/ckg';
 import { ProvenanceLedger, type ProvenanceEntry } from '@contextgraph/provenance';
 import type {
   ContextQuery,
@@ -25,6 +25,15 @@ import type {
 } from './types.js';
 import { ContextFilterEngine } from './filter.js';
 
+/**
+ * Entities and claims similar to a query, with their similarity scores by ID
+ */
+interface SimilarItems {
+  readonly entities: Entity[];
+  readonly claims: Claim[];
+  readonly scores: Map<string, number>;
+}
+
 /**
  * Generate context ID
  */
@@ -56,11 +65,14 @@ export class ContextAssembler {
     const filter = query.filter ?? {};
 
     try {
+      // Retrieve semantically similar entities and claims
+      const similar = await this.retrieveSimilar(query, filter, options);
+
       // Retrieve entities
-      const entities = await this.retrieveEntities(query, filter, options);
+      const entities = await this.retrieveEntities(query, filter, options, similar);
 
       // Retrieve claims
-      const claims = await this.retrieveClaims(query, filter, entities, options);
+      const claims = await this.retrieveClaims(query, filter, entities, options, similar);
 
       // Retrieve provenance if requested
       const provenanceChain = options.includeProvenance !== false
@@ -93,15 +105,53 @@ export class ContextAssembler {
     }
   }
 
+  /**
+   * Retrieve the entities and claims closest in meaning to `similarTo`
+   */
+  private async retrieveSimilar(
+    query: ContextQuery,
+    filter: ContextFilter,
+    options: ContextAssemblyOptions
+  ): Promise<SimilarItems> {
+    const similar: SimilarItems = { entities: [], claims: [], scores: new Map() };
+    if (query.similarTo === undefined) {
+      return similar;
+    }
+
+    const filterOptions: ContextFilterOptions = {
+      ...(filter.asOf !== undefined ? { asOf: filter.asOf } : {}),
+      ...(filter.knownAt !== undefined ? { knownAt: filter.knownAt } : {}),
+      ...(filter.scope !== undefined ? { scope: filter.scope } : {}),
+      ...(filter.jurisdiction !== undefined ? { jurisdiction: filter.jurisdiction } : {}),
+      ...(filter.minConfidence !== undefined ? { minConfidence: filter.minConfidence } : {}),
+    };
+    const result = await this.ckg.similar(query.similarTo, options.maxSimilar ?? 10, filterOptions);
+    if (!result.ok) {
+      throw result.error;
+    }
+
+    for (const match of result.value) {
+      if (match.kind === 'entity') {
+        similar.entities.push(match.entity);
+        similar.scores.set(match.entity.data.id, match.score);
+      } else {
+        similar.claims.push(match.claim);
+        similar.scores.set(match.claim.data.id, match.score);
+      }
+    }
+    return similar;
+  }
+
   /**
    * Retrieve entities matching the query
    */
   private async retrieveEntities(
     query: ContextQuery,
     filter: ContextFilter,
-    options: ContextAssemblyOptions
+    options: ContextAssemblyOptions,
+    similar: SimilarItems
   ): Promise<readonly RetrievedEntity[]> {
-    const entities: Entity[] = [];
+    const entities: Entity[] = [...similar.entities];
 
     // Retrieve by explicit IDs
     if (query.entityIds !== undefined) {
@@ -142,7 +192,7 @@ export class ContextAssembler {
     const filteredEntities = this.filterEngine.filterEntities(entities, filter);
 
     // Calculate relevance and wrap
-    return filteredEntities.map((entity) => this.wrapEntity(entity, query));
+    return filteredEntities.map((entity) => this.wrapEntity(entity, query, similar.scores));
   }
 
   /**
@@ -152,9 +202,10 @@ export class ContextAssembler {
     query: ContextQuery,
     filter: ContextFilter,
     entities: readonly RetrievedEntity[],
-    options: ContextAssemblyOptions
+    options: ContextAssemblyOptions,
+    similar: SimilarItems
   ): Promise<readonly RetrievedClaim[]> {
-    const claims: Claim[] = [];
+    const claims: Claim[] = [...similar.claims];
     const maxClaims = options.maxClaims ?? 100;
 
     // Retrieve by explicit IDs
@@ -190,8 +241,39 @@ export class ContextAssembler {
     // Remove duplicates by ID
     const uniqueClaims = this.deduplicateClaims(filteredClaims);
 
+    const annotations = options.includeAnnotations !== false
+      ? await this.retrieveAnnotations(uniqueClaims, filter)
+      : undefined;
+
     // Calculate relevance and wrap
-    return uniqueClaims.map((claim) => this.wrapClaim(claim, query));
+    return uniqueClaims.map((claim) => this.wrapClaim(claim, query, similar.scores, annotations));
+  }
+
+  /**
+   * Retrieve the annotations of claims, grouped by claim ID
+   */
+  private async retrieveAnnotations(
+    claims: readonly Claim[],
+    filter: ContextFilter
+  ): Promise<Map<string, Annotation[]>> {
+    const byClaim = new Map<string, Annotation[]>(claims.map((claim) => [claim.data.id, []]));
+    if (claims.length === 0) {
+      return byClaim;
+    }
+
+    const result = await this.ckg.findAnnotations({ claimIds: claims.map((claim) => claim.data.id) });
+    if (!result.ok) {
+      return byClaim;
+    }
+
+    const knownAt = filter.knownAt;
+    for (const annotation of result.value) {
+      // Annotations made after the point in transaction time were not known then
+      if (knownAt === undefined || annotation.data.createdAt <= knownAt) {
+        byClaim.get(annotation.data.claimId)?.push(annotation);
+      }
+    }
+    return byClaim;
   }
 
   /**
@@ -238,10 +320,14 @@ export class ContextAssembler {
   /**
    * Wrap entity with relevance score
    */
-  private wrapEntity(entity: Entity, query: ContextQuery): RetrievedEntity {
+  private wrapEntity(
+    entity: Entity,
+    query: ContextQuery,
+    similarity: ReadonlyMap<string, number> = new Map()
+  ): RetrievedEntity {
     return {
       entity,
-      relevance: this.calculateEntityRelevance(entity, query),
+      relevance: this.calculateEntityRelevance(entity, query, similarity),
       claims: [],
     };
   }
@@ -249,17 +335,28 @@ export class ContextAssembler {
   /**
    * Wrap claim with relevance score
    */
-  private wrapClaim(claim: Claim, query: ContextQuery): RetrievedClaim {
+  private wrapClaim(
+    claim: Claim,
+    query: ContextQuery,
+    similarity: ReadonlyMap<string, number> = new Map(),
+    annotations?: ReadonlyMap<string, readonly Annotation[]>
+  ): RetrievedClaim {
+    const claimAnnotations = annotations?.get(claim.data.id);
     return {
       claim,
-      relevance: this.calculateClaimRelevance(claim, query),
+      relevance: this.calculateClaimRelevance(claim, query, similarity),
+      ...(claimAnnotations !== undefined ? { annotations: claimAnnotations } : {}),
     };
   }
 
   /**
    * Calculate relevance score for an entity
    */
-  private calculateEntityRelevance(entity: Entity, query: ContextQuery): RelevanceScore {
+  private calculateEntityRelevance(
+    entity: Entity,
+    query: ContextQuery,
+    similarity: ReadonlyMap<string, number>
+  ): RelevanceScore {
     const factors: Record<string, number> = {};
     let score = 0.5; // Base score
 
@@ -275,6 +372,13 @@ export class ContextAssembler {
       score += 0.3;
     }
 
+    // Boost by closeness in meaning to `similarTo`
+    const similarityScore = similarity.get(entity.data.id);
+    if (similarityScore !== undefined) {
+      factors['semantic_similarity'] = similarityScore;
+      score += similarityScore * 0.3;
+    }
+
     return {
       score: Math.min(1.0, score),
       factors,
@@ -284,7 +388,11 @@ export class ContextAssembler {
   /**
    * Calculate relevance score for a claim
    */
-  private calculateClaimRelevance(claim: Claim, query: ContextQuery): RelevanceScore {
+  private calculateClaimRelevance(
+    claim: Claim,
+    query: ContextQuery,
+    similarity: ReadonlyMap<string, number>
+  ): RelevanceScore {
     const factors: Record<string, number> = {};
     let score = 0.5; // Base score
 
@@ -294,6 +402,13 @@ export class ContextAssembler {
       score += 0.5;
     }
 
+    // Boost by closeness in meaning to `similarTo`
+    const similarityScore = similarity.get(claim.data.id);
+    if (similarityScore !== undefined) {
+      factors['semantic_similarity'] = similarityScore;
+      score += similarityScore * 0.3;
+    }
+
     // Factor in confidence
     const confidence = claim.data.context.confidence ?? 1.0;
     factors['confidence'] = confidence;
@@ -312,14 +427,19 @@ export class ContextAssembler {
   }
 
   /**
-   * Get point-in-time snapshot
+   * Get point-in-time snapshot, optionally as the graph knew it at `knownAt`
    */
-  async getSnapshot(asOf: number): Promise<Result<AssembledContext, Error>> {
-    const filter: ContextFilter = { asOf: asOf as unknown as import('@contextgraph/core').Timestamp };
+  async getSnapshot(asOf: number, knownAt?: number): Promise<Result<AssembledContext, Error>> {
+    const validAt = asOf as unknown as import('@contextgraph/core').Timestamp;
+    const knownAtTime = knownAt as unknown as import('@contextgraph/core').Timestamp | undefined;
+    const filter: ContextFilter = {
+      asOf: validAt,
+      ...(knownAtTime !== undefined ? { knownAt: knownAtTime } : {}),
+    };
     const query: ContextQuery = { filter };
 
-    // Get all claims valid at timestamp
-    const claimsResult = await this.ckg.getClaimsAsOf(asOf as unknown as import('@contextgraph/core').Timestamp);
+    // Get all claims valid at timestamp (and known at knownAt)
+    const claimsResult = await this.ckg.getClaimsAsOf(validAt, knownAtTime);
     if (!claimsResult.ok) {
       return err(claimsResult.error);
     }
@@ -43,6 +43,9 @@ export class ContextFilterEngine {
     // Filter by temporal constraints
     result = this.applyTemporalFilter(result, filter);
 
+    // Filter by what was known at the transaction time
+    result = this.applyKnownAtFilter(result, filter);
+
     // Filter by scope
     result = this.applyScopeFilter(result, filter);
 
@@ -101,6 +104,18 @@ export class ContextFilterEngine {
     });
   }
 
+  /**
+   * Keep claims recorded by `knownAt` and not yet retracted or superseded then
+   */
+  applyKnownAtFilter(claims: readonly Claim[], filter: TemporalFilter): readonly Claim[] {
+    const knownAt = filter.knownAt;
+    if (knownAt === undefined) {
+      return claims;
+    }
+
+    return claims.filter((claim) => claim.isKnownAt(knownAt) && claim.statusAt(knownAt) === 'active');
+  }
+
   /**
    * Apply scope and jurisdiction filter to claims
    */
@@ -149,11 +164,20 @@ export class ContextFilterEngine {
    * Apply temporal filter to provenance entries
    */
   filterProvenance(entries: readonly ProvenanceEntry[], filter: TemporalFilter): readonly ProvenanceEntry[] {
-    if (filter.asOf === undefined && filter.from === undefined && filter.to === undefined) {
+    if (
+      filter.asOf === undefined &&
+      filter.from === undefined &&
+      filter.to === undefined &&
+      filter.knownAt === undefined
+    ) {
       return entries;
     }
 
     return entries.filter((entry) => {
+      if (filter.knownAt !== undefined && entry.data.timestamp > filter.knownAt) {
+        return false;
+      }
+
       if (filter.asOf !== undefined) {
         if (entry.data.timestamp > filter.asOf) {
           return false;
@@ -228,6 +252,11 @@ export class ContextFilterEngine {
           result = { ...result, to: filter.to };
         }
       }
+      if (filter.knownAt !== undefined) {
+        if (result.knownAt === undefined || filter.knownAt < result.knownAt) {
+          result = { ...result, knownAt: filter.knownAt };
+        }
+      }
 
       // Use the most restrictive scope/jurisdiction
       if (filter.scope !== undefined) {
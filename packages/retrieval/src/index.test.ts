@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryStorage } from '@contextgraph/storage';
-import { CKG, type Claim } from '@contextgraph/ckg';
+import { CKG, HashedNgramEmbedder, type Claim } from '@contextgraph/ckg';
 import { ProvenanceLedger } from '@contextgraph/provenance';
 import {
   createTimestamp,
@@ -384,6 +384,38 @@ describe('ContextAssembler', () => {
     expect(contextResult.value.claims[0]!.relevance.factors['confidence']).toBeGreaterThan(0);
   });
 
+  it('pulls in semantically similar entities and claims', async () => {
+    const graph = new CKG({ storage, requireProvenance: false, embedder: new HashedNgramEmbedder() });
+    const similarAssembler = new ContextAssembler(graph, provenance);
+
+    const solar = await graph.createEntity({ type: 'company', name: 'Sunrise Solar Panels' });
+    await graph.createEntity({ type: 'company', name: 'Tax Law Partners' });
+    expect(solar.ok).toBe(true);
+    if (!solar.ok) return;
+    await graph.createClaim({
+      subjectId: solar.value.data.id,
+      predicate: 'product',
+      objectValue: 'rooftop solar panels',
+      context: { temporal: createTimeInterval(createTimestamp()) },
+      provenanceId: 'prov_test' as ProvenanceId,
+    });
+
+    const contextResult = await similarAssembler.assemble({ similarTo: 'solar panels' }, { maxSimilar: 2 });
+
+    expect(contextResult.ok).toBe(true);
+    if (!contextResult.ok) return;
+
+    expect(contextResult.value.entities.map(({ entity }) => entity.data.name)).toEqual(['Sunrise Solar Panels']);
+    expect(contextResult.value.entities[0]!.relevance.factors['semantic_similarity']).toBeGreaterThan(0);
+    expect(contextResult.value.claims).toHaveLength(1);
+    expect(contextResult.value.claims[0]!.relevance.factors['semantic_similarity']).toBeGreaterThan(0);
+  });
+
+  it('fails similarity queries without an embedder', async () => {
+    const contextResult = await assembler.assemble({ similarTo: 'solar panels' });
+    expect(contextResult.ok).toBe(false);
+  });
+
   it('tracks retrieval statistics', async () => {
     const contextResult = await assembler.assemble({});
 
@@ -395,6 +427,75 @@ describe('ContextAssembler', () => {
     expect(contextResult.value.stats.filterApplied).toBe(false);
   });
 
+  it('returns a snapshot as the graph knew it at knownAt', async () => {
+    const entityResult = await ckg.createEntity({ type: 'person', name: 'Carol' });
+    expect(entityResult.ok).toBe(true);
+    if (!entityResult.ok) return;
+
+    const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 5));
+    const validFrom = createTimestamp();
+    const original = await ckg.createClaim({
+      subjectId: entityResult.value.data.id,
+      predicate: 'has_role',
+      objectValue: 'developer',
+      context: { temporal: createTimeInterval(validFrom) },
+      provenanceId: 'prov_test' as ProvenanceId,
+    });
+    expect(original.ok).toBe(true);
+    if (!original.ok) return;
+
+    await tick();
+    const beforeCorrection = createTimestamp();
+    await tick();
+    const corrected = await ckg.supersedeClaim(original.value.data.id, {
+      subjectId: entityResult.value.data.id,
+      predicate: 'has_role',
+      objectValue: 'manager',
+      context: { temporal: createTimeInterval(validFrom) },
+    });
+    expect(corrected.ok).toBe(true);
+
+    const now = createTimestamp();
+    const believed = await assembler.getSnapshot(now, beforeCorrection);
+    const current = await assembler.getSnapshot(now);
+    expect(believed.ok && believed.value.claims.map((c) => c.claim.data.objectValue)).toEqual(['developer']);
+    expect(current.ok && current.value.claims.map((c) => c.claim.data.objectValue)).toEqual(['manager']);
+  });
+
+  it('attaches the annotations of each claim', async () => {
+    const entityResult = await ckg.createEntity({ type: 'person', name: 'Dana' });
+    if (!entityResult.ok) return;
+    const claimResult = await ckg.createClaim({
+      subjectId: entityResult.value.data.id,
+      predicate: 'has_role',
+      objectValue: 'architect',
+      context: { temporal: createTimeInterval(createTimestamp()) },
+      provenanceId: 'prov_test' as ProvenanceId,
+    });
+    if (!claimResult.ok) return;
+    const claimId = claimResult.value.data.id;
+
+    await ckg.annotateClaim(claimId, {
+      kind: 'citation',
+      ref: { type: 'document', id: 'org-chart', uri: 'https://example.com/org.pdf' },
+    });
+    await ckg.annotateClaim(claimId, { kind: 'endorsement', author: 'reviewer-1' });
+
+    const contextResult = await assembler.assemble({ entityIds: [entityResult.value.data.id] });
+    expect(contextResult.ok).toBe(true);
+    if (!contextResult.ok) return;
+    const [retrieved] = contextResult.value.claims;
+    expect(retrieved?.annotations?.map((annotation) => annotation.data.kind).sort()).toEqual(['citation', 'endorsement']);
+    const citation = retrieved?.annotations?.find((annotation) => annotation.data.kind === 'citation');
+    expect(citation?.data.ref?.uri).toBe('https://example.com/org.pdf');
+
+    const withoutAnnotations = await assembler.assemble(
+      { entityIds: [entityResult.value.data.id] },
+      { includeAnnotations: false }
+    );
+    expect(withoutAnnotations.ok && withoutAnnotations.value.claims[0]?.annotations).toBeUndefined();
+  });
+
   it('limits claims when maxClaims is specified', async () => {
     // Create provenance first
     const provResult = await provenance.record({
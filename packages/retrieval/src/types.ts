@@ -5,7 +5,7 @@
  */
 
 import type { Timestamp, Scope, Jurisdiction, EntityId, ClaimId, ProvenanceId, Confidence } from '@contextgraph/core';
-import type { Entity, Claim } from '@contextgraph/ckg';
+import type { Entity, Claim, Annotation } from '@contextgraph/ckg';
 import type { ProvenanceEntry } from '@contextgraph/provenance';
 
 /**
@@ -15,6 +15,8 @@ export interface TemporalFilter {
   readonly asOf?: Timestamp;
   readonly from?: Timestamp;
   readonly to?: Timestamp;
+  /** Transaction time: only claims and provenance the graph held then */
+  readonly knownAt?: Timestamp;
 }
 
 /**
@@ -65,6 +67,8 @@ export interface RetrievedClaim {
   readonly claim: Claim;
   readonly relevance: RelevanceScore;
   readonly provenance?: ProvenanceEntry;
+  /** Evidence, citations, reviews and qualifiers of the claim, oldest first */
+  readonly annotations?: readonly Annotation[];
 }
 
 /**
@@ -100,6 +104,8 @@ export interface ContextQuery {
   readonly claimIds?: readonly ClaimId[];
   readonly provenanceIds?: readonly ProvenanceId[];
   readonly relatedTo?: EntityId;
+  /** Text, or entity ID, whose semantically similar entities and claims to include (needs an embedder) */
+  readonly similarTo?: string;
   readonly filter?: ContextFilter;
 }
 
@@ -108,9 +114,13 @@ export interface ContextQuery {
  */
 export interface ContextAssemblyOptions {
   readonly includeProvenance?: boolean;
+  /** Attach the annotations of each claim (default: true) */
+  readonly includeAnnotations?: boolean;
   readonly includeRelatedEntities?: boolean;
   readonly maxDepth?: number;
   readonly maxClaims?: number;
+  /** Most entities and claims pulled in by `similarTo` (default: 10) */
+  readonly maxSimilar?: number;
 }
 
 /**
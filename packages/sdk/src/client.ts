@@ -7,10 +7,12 @@
 import {
   type Result,
   type EntityId,
+  type ClaimId,
   type ProvenanceId,
   type Timestamp,
   type Scope,
   type Jurisdiction,
+  type Confidence,
   type ContextDimensions,
   createTimestamp,
   createScope,
@@ -18,12 +20,57 @@ import {
   ok,
   err,
 } from '@contextgraph/core';
-import { InMemoryStorage, type StorageInterface } from '@contextgraph/storage';
-import { CKG, type Entity, type Claim } from '@contextgraph/ckg';
-import { ProvenanceLedger, type ProvenanceEntry, type ChainVerificationResult } from '@contextgraph/provenance';
-import { DecisionTraceGraph, type Decision } from '@contextgraph/dtg';
+import {
+  InMemoryStorage,
+  StorageError,
+  StorageInterface,
+  createStorage,
+  createOverlayStorage,
+  type OverlayStorage,
+  type OverlayChange,
+  type StorageRecord,
+  type RestoreResult,
+  type SnapshotOptions,
+  type StorageSnapshot,
+  type AggregateGroup,
+} from '@contextgraph/storage';
+import {
+  CKG,
+  Entity,
+  Claim,
+  type EntityRecord,
+  type ClaimRecord,
+  type EntityMergeResult,
+  type PatternQueryResult,
+  type SearchHit,
+  type SearchOptions,
+  type SimilarityMatch,
+  type EntityDimension,
+  type ClaimDimension,
+  type ProvenanceDimension,
+  type AggregationOptions,
+  type Belief,
+  type SourceReliability,
+  type Annotation,
+  type AnnotationQuery,
+  type AnnotationKind,
+  type DiffOptions,
+  type GraphDiff,
+} from '@contextgraph/ckg';
+import {
+  ActorKeyRegistry,
+  ProvenanceLedger,
+  ProvenanceEntry,
+  type ProvenanceRecord,
+  type ChainVerificationResult,
+  type HashMigrationOptions,
+  type HashMigrationResult,
+  type SourceType,
+  type ArtifactRef,
+} from '@contextgraph/provenance';
+import { DecisionTraceGraph, Decision, type DecisionRecord } from '@contextgraph/dtg';
 import { PolicyLedger, type Policy, type PolicyRule, type RuleCondition } from '@contextgraph/policy';
-import { AgentRegistry, CapabilityRegistry, type Agent, type AgentId, type CreateAgentInput as AgentCreateInput, initializeBuiltinCapabilities } from '@contextgraph/agent';
+import { AgentRegistry, CapabilityRegistry, Agent, type AgentRecord, type AgentId, type CreateAgentInput as AgentCreateInput, initializeBuiltinCapabilities } from '@contextgraph/agent';
 import { ContextAssembler, type AssembledContext, type ContextQuery, type ContextFilter } from '@contextgraph/retrieval';
 import { Executor, type ExecutionResult, type ActionHandler } from '@contextgraph/execution';
 import type {
@@ -31,7 +78,9 @@ import type {
   ContextOptions,
   QueryOptions,
   CreateEntityInput,
+  UpdateEntityInput,
   CreateClaimInput,
+  AnnotateClaimInput,
   CreateAgentInput,
   ExecuteActionInput,
   CreatePolicyInput,
@@ -39,8 +88,11 @@ import type {
   SDKEvent,
   EventHandler,
   AuditEntry,
+  StatsOptions,
+  SystemStats,
   ExportOptions,
   GraphExport,
+  ExportRecord,
   EntityExport,
   ClaimExport,
   AgentExport,
@@ -49,7 +101,35 @@ import type {
   ProvenanceExport,
   ImportOptions,
   ImportResult,
+  RdfExportOptions,
+  RdfImportOptions,
+  BranchChanges,
+  BranchConflict,
+  BranchDiff,
+  BranchMergeOptions,
+  BranchMergeResult,
 } from './types.js';
+import { type Quad, type RdfFormat, parseRdf, serializeRdf } from './rdf.js';
+import { RdfMapping, type RdfActivity, type RdfDataset } from './rdf-mapping.js';
+
+/**
+ * Where a branch was forked from
+ */
+interface BranchState {
+  readonly name: string;
+  readonly parent: ContextGraph;
+  readonly storage: OverlayStorage;
+}
+
+/** Record fields holding the id of a provenance entry */
+const PROVENANCE_ID_FIELDS = ['provenanceId', 'statusProvenanceId'] as const;
+
+/** Collections whose merged records the merge provenance refers to */
+const MERGED_REF_TYPES: Readonly<Record<string, ArtifactRef['type']>> = {
+  entities: 'entity',
+  claims: 'claim',
+  decisions: 'decision',
+};
 
 /**
  * ContextGraph Client
@@ -60,6 +140,7 @@ export class ContextGraph {
   private readonly storage: StorageInterface;
   private readonly ckg: CKG;
   private readonly provenance: ProvenanceLedger;
+  private readonly actorKeys: ActorKeyRegistry;
   private readonly dtg: DecisionTraceGraph;
   private readonly policyLedger: PolicyLedger;
   private readonly agentRegistry: AgentRegistry;
@@ -67,12 +148,22 @@ export class ContextGraph {
   private readonly contextAssembler: ContextAssembler;
   private readonly executor: Executor;
 
-  private readonly config: Required<ContextGraphConfig>;
+  private readonly config: Required<Omit<ContextGraphConfig, 'embedder' | 'truthDiscovery' | 'hashAlgorithm' | 'signer'>>;
+  private readonly settings: ContextGraphConfig;
   private readonly eventHandlers = new Map<EventType, Set<EventHandler>>();
+  private readonly branches = new Map<string, ContextGraph>();
+  private branch: BranchState | undefined;
   private initialized = false;
 
   private constructor(config: ContextGraphConfig) {
-    this.storage = config.storage ?? new InMemoryStorage();
+    this.settings = config;
+    if (config.storage === undefined) {
+      this.storage = new InMemoryStorage();
+    } else if (config.storage instanceof StorageInterface) {
+      this.storage = config.storage;
+    } else {
+      this.storage = createStorage(config.storage);
+    }
 
     this.config = {
       storage: this.storage,
@@ -84,8 +175,19 @@ export class ContextGraph {
     };
 
     // Initialize all components
-    this.provenance = new ProvenanceLedger(this.storage);
-    this.ckg = new CKG({ storage: this.storage, requireProvenance: true });
+    this.actorKeys = new ActorKeyRegistry(this.storage);
+    this.provenance = new ProvenanceLedger(this.storage, {
+      keys: this.actorKeys,
+      ...(config.hashAlgorithm !== undefined ? { hashAlgorithm: config.hashAlgorithm } : {}),
+      ...(config.signer !== undefined ? { signer: config.signer } : {}),
+    });
+    this.ckg = new CKG({
+      storage: this.storage,
+      requireProvenance: true,
+      provenance: this.provenance,
+      ...(config.embedder !== undefined ? { embedder: config.embedder } : {}),
+      ...(config.truthDiscovery !== undefined ? { truthDiscovery: config.truthDiscovery } : {}),
+    });
     this.dtg = new DecisionTraceGraph(this.storage, this.provenance);
     this.policyLedger = new PolicyLedger(this.storage);
     this.agentRegistry = new AgentRegistry(this.storage);
@@ -203,6 +305,51 @@ export class ContextGraph {
     return this.ckg.resolveEntity(identifier);
   }
 
+  /**
+   * Update an entity's name, aliases or properties, keeping the prior version
+   */
+  async updateEntity(id: EntityId, input: UpdateEntityInput): Promise<Result<Entity, Error>> {
+    const result = await this.ckg.updateEntity(id, input, { actor: 'sdk-user' });
+
+    if (result.ok) {
+      await this.emit('entity:updated', result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete an entity, leaving a tombstone that keeps its history
+   */
+  async deleteEntity(id: EntityId, reason?: string): Promise<Result<Entity, Error>> {
+    const result = await this.ckg.deleteEntity(id, {
+      actor: 'sdk-user',
+      ...(reason !== undefined ? { reason } : {}),
+    });
+
+    if (result.ok) {
+      await this.emit('entity:deleted', result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge duplicate entities into a survivor, re-pointing their claims
+   */
+  async mergeEntities(
+    survivorId: EntityId,
+    duplicateIds: readonly EntityId[]
+  ): Promise<Result<EntityMergeResult, Error>> {
+    const result = await this.ckg.mergeEntities(survivorId, duplicateIds, { actor: 'sdk-user' });
+
+    if (result.ok) {
+      await this.emit('entity:merged', result.value);
+    }
+
+    return result;
+  }
+
   // ============================================================================
   // Claim Operations
   // ============================================================================
@@ -213,8 +360,13 @@ export class ContextGraph {
   async addClaim(input: CreateClaimInput): Promise<Result<Claim, Error>> {
     // Record provenance for this claim
     const provResult = await this.provenance.record({
-      sourceType: 'system',
-      sourceId: 'contextgraph-sdk',
+      ...(input.source !== undefined
+        ? {
+          sourceType: input.source.type,
+          ...(input.source.id !== undefined ? { sourceId: input.source.id } : {}),
+          ...(input.source.uri !== undefined ? { sourceUri: input.source.uri } : {}),
+        }
+        : { sourceType: 'system', sourceId: 'contextgraph-sdk' }),
       actor: 'sdk-user',
       action: 'create',
       metadata: {
@@ -269,6 +421,85 @@ export class ContextGraph {
     return result;
   }
 
+  /**
+   * Retract a wrong claim
+   */
+  async retractClaim(id: ClaimId, reason: string): Promise<Result<Claim, Error>> {
+    const result = await this.ckg.retractClaim(id, reason, { actor: 'sdk-user' });
+
+    if (result.ok) {
+      await this.emit('claim:retracted', result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace a claim with a corrected one
+   */
+  async supersedeClaim(
+    id: ClaimId,
+    input: CreateClaimInput,
+    reason?: string
+  ): Promise<Result<{ superseded: Claim; replacement: Claim }, Error>> {
+    const entityResult = await this.ckg.getEntity(input.subjectId);
+    if (!entityResult.ok) {
+      return err(entityResult.error);
+    }
+    if (entityResult.value === null) {
+      return err(new Error(`Entity not found: ${input.subjectId}`));
+    }
+
+    const result = await this.ckg.supersedeClaim(
+      id,
+      {
+        subjectId: input.subjectId,
+        subjectType: entityResult.value.data.type,
+        predicate: input.predicate,
+        objectValue: input.value,
+        context: this.buildContext(input.context),
+        ...(input.objectId !== undefined ? { objectId: input.objectId } : {}),
+      },
+      { actor: 'sdk-user', ...(reason !== undefined ? { reason } : {}) }
+    );
+
+    if (result.ok) {
+      await this.emit('claim:superseded', result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Attach evidence, a citation, a review, a note or qualifiers to a claim
+   */
+  async annotateClaim(claimId: ClaimId, input: AnnotateClaimInput): Promise<Result<Annotation, Error>> {
+    const result = await this.ckg.annotateClaim(claimId, { ...input, author: input.author ?? 'sdk-user' });
+
+    if (result.ok) {
+      await this.emit('claim:annotated', result.value);
+    }
+
+    return result;
+  }
+
+  /**
+   * Annotations of a claim, oldest first
+   */
+  async getAnnotations(
+    claimId: ClaimId,
+    kinds?: readonly AnnotationKind[]
+  ): Promise<Result<readonly Annotation[], Error>> {
+    return this.ckg.getAnnotations(claimId, kinds);
+  }
+
+  /**
+   * Find annotations by claims, kind, author or referenced document, oldest first
+   */
+  async findAnnotations(query: AnnotationQuery): Promise<Result<readonly Annotation[], Error>> {
+    return this.ckg.findAnnotations(query);
+  }
+
   /**
    * Get claims for an entity
    */
@@ -280,6 +511,20 @@ export class ContextGraph {
 
     let claims = [...result.value];
 
+    // Leave out claims recorded after knownAt
+    const knownAt = options?.knownAt;
+    if (knownAt !== undefined) {
+      claims = claims.filter((c) => c.isKnownAt(knownAt));
+    }
+
+    // Leave out retracted and corrected claims unless asked for
+    claims = claims.filter((c) => {
+      const status = knownAt !== undefined ? c.statusAt(knownAt) : c.data.status;
+      return status === 'retracted' ? options?.includeRetracted === true
+        : status === 'superseded' ? options?.includeSuperseded === true
+          : true;
+    });
+
     // Apply temporal filter if specified
     if (options?.asOf !== undefined) {
       claims = claims.filter((c) => {
@@ -324,6 +569,70 @@ export class ContextGraph {
     return ok(claim.data.objectValue);
   }
 
+  // ============================================================================
+  // Graph Queries
+  // ============================================================================
+
+  /**
+   * Run a graph pattern query, e.g.
+   * `MATCH ?person belongsTo ?org WHERE ?org.name = "Acme" RETURN ?person.name`.
+   * Options filter the claims patterns can match; LIMIT and OFFSET are part
+   * of the query itself.
+   */
+  async query(text: string, options: QueryOptions = {}): Promise<Result<PatternQueryResult, Error>> {
+    return this.ckg.query(text, options);
+  }
+
+  /**
+   * Search entity names, aliases and string properties, and string claim
+   * values, best match first
+   */
+  async search(text: string, options: SearchOptions = {}): Promise<Result<readonly SearchHit[], Error>> {
+    return this.ckg.search(text, options);
+  }
+
+  /**
+   * Entities and claims closest in meaning to a text, or to an entity given
+   * by ID, best first; requires an `embedder` in the configuration
+   */
+  async similar(
+    textOrEntityId: string,
+    k = 10,
+    options: QueryOptions = {}
+  ): Promise<Result<readonly SimilarityMatch[], Error>> {
+    return this.ckg.similar(textOrEntityId, k, options);
+  }
+
+  /**
+   * What changed between two points in time: the claims that became valid
+   * or were recorded, and those that expired or were retracted or superseded
+   */
+  async diff(from: Timestamp, to: Timestamp, options: DiffOptions = {}): Promise<Result<GraphDiff, Error>> {
+    return this.ckg.diff(from, to, options);
+  }
+
+  /**
+   * Consensus on the value of each of an entity's predicates, weighing the
+   * claims by the reliability of their sources
+   */
+  async getBeliefs(entityId: EntityId, options: QueryOptions = {}): Promise<Result<readonly Belief[], Error>> {
+    return this.ckg.getBeliefs(entityId, options);
+  }
+
+  /**
+   * Re-derive source reliability from corroborating and conflicting claims
+   */
+  async updateSourceReliability(options: QueryOptions = {}): Promise<Result<readonly SourceReliability[], Error>> {
+    return this.ckg.updateSourceReliability(options);
+  }
+
+  /**
+   * Stored source reliability scores, most reliable first
+   */
+  async getSourceReliability(): Promise<Result<readonly SourceReliability[], Error>> {
+    return this.ckg.getSourceReliability();
+  }
+
   // ============================================================================
   // Agent Operations
   // ============================================================================
@@ -617,6 +926,24 @@ export class ContextGraph {
     return this.provenance.verifyChain();
   }
 
+  /**
+   * Re-anchor provenance entries hashed under the legacy scheme
+   *
+   * Appends a cut-over entry committing to the full content of every
+   * legacy entry; see `ProvenanceLedger.migrateHashes`.
+   */
+  async migrateProvenanceHashes(options?: HashMigrationOptions): Promise<Result<HashMigrationResult, Error>> {
+    return this.provenance.migrateHashes(options);
+  }
+
+  /**
+   * Registry of the keys actors sign provenance entries with;
+   * `verifyProvenance` checks signatures against it
+   */
+  getActorKeys(): ActorKeyRegistry {
+    return this.actorKeys;
+  }
+
   // ============================================================================
   // Audit Operations
   // ============================================================================
@@ -732,15 +1059,10 @@ export class ContextGraph {
   }
 
   /**
-   * Get statistics
+   * Get statistics, with breakdowns of the graph by entity type, predicate,
+   * jurisdiction, scope, provenance source type and creation period
    */
-  async getStats(): Promise<Result<{
-    entities: number;
-    claims: number;
-    agents: number;
-    decisions: number;
-    policies: number;
-  }, Error>> {
+  async getStats(options: StatsOptions = {}): Promise<Result<SystemStats, Error>> {
     const [agentStats, policyStats, dtgStats] = await Promise.all([
       this.agentRegistry.getStats(),
       this.policyLedger.getStats(),
@@ -751,17 +1073,418 @@ export class ContextGraph {
     if (!policyStats.ok) return err(policyStats.error);
     if (!dtgStats.ok) return err(dtgStats.error);
 
-    // Count entities and claims from CKG (simplified)
-    const entitiesResult = await this.storage.count('entities', {});
-    const claimsResult = await this.storage.count('claims', {});
+    const [graphStats, jurisdictions, scopes, sourceTypes, claimsCreated] = await Promise.all([
+      this.ckg.getStats(),
+      this.ckg.aggregateClaims(['jurisdiction']),
+      this.ckg.aggregateClaims(['scope']),
+      this.ckg.aggregateProvenance(['sourceType']),
+      this.ckg.aggregateClaims(['createdAt'], { bucket: options.bucket ?? 'day' }),
+    ]);
+
+    if (!graphStats.ok) return err(graphStats.error);
+    if (!jurisdictions.ok) return err(jurisdictions.error);
+    if (!scopes.ok) return err(scopes.error);
+    if (!sourceTypes.ok) return err(sourceTypes.error);
+    if (!claimsCreated.ok) return err(claimsCreated.error);
+
+    const byPeriod = [...claimsCreated.value].sort((a, b) =>
+      String(a.key['createdAt']).localeCompare(String(b.key['createdAt'])));
 
     return ok({
-      entities: entitiesResult.ok ? entitiesResult.value : 0,
-      claims: claimsResult.ok ? claimsResult.value : 0,
+      entities: graphStats.value.entityCount,
+      claims: graphStats.value.claimCount,
       agents: agentStats.value.total,
       decisions: dtgStats.value.total,
       policies: policyStats.value.total,
+      entityTypes: graphStats.value.entityTypes,
+      predicates: graphStats.value.predicates,
+      jurisdictions: this.countsBy(jurisdictions.value, 'jurisdiction'),
+      scopes: this.countsBy(scopes.value, 'scope'),
+      sourceTypes: this.countsBy(sourceTypes.value, 'sourceType'),
+      claimsCreated: this.countsBy(byPeriod, 'createdAt'),
+    });
+  }
+
+  /**
+   * Count live entities by type and/or creation period
+   */
+  async aggregateEntities(
+    groupBy: readonly EntityDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.ckg.aggregateEntities(groupBy, options);
+  }
+
+  /**
+   * Count claims by predicate, jurisdiction, scope, status, or creation or
+   * valid-time period
+   */
+  async aggregateClaims(
+    groupBy: readonly ClaimDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.ckg.aggregateClaims(groupBy, options);
+  }
+
+  /**
+   * Count provenance entries by source type, action or creation period
+   */
+  async aggregateProvenance(
+    groupBy: readonly ProvenanceDimension[],
+    options: AggregationOptions = {}
+  ): Promise<Result<readonly AggregateGroup[], Error>> {
+    return this.ckg.aggregateProvenance(groupBy, options);
+  }
+
+  /**
+   * Group counts by the value of one dimension
+   */
+  private countsBy(groups: readonly AggregateGroup[], dimension: string): Record<string, number> {
+    return Object.fromEntries(groups.map((group) => [String(group.key[dimension] ?? 'unspecified'), group.count]));
+  }
+
+  // ============================================================================
+  // Backup Operations
+  // ============================================================================
+
+  /**
+   * Take a consistent snapshot of the storage for backup.
+   * Pass the `sequence` of an earlier backup as `sinceSequence` for an
+   * incremental one.
+   */
+  async backup(options: SnapshotOptions = {}): Promise<Result<StorageSnapshot, Error>> {
+    return this.storage.snapshot(options);
+  }
+
+  /**
+   * Restore a backup taken with `backup()`.
+   *
+   * The provenance hash chain is verified before the restore is committed;
+   * a broken chain rolls the whole restore back.
+   */
+  async restore(snapshot: StorageSnapshot): Promise<Result<RestoreResult, Error>> {
+    const result = await this.storage.restore(snapshot, {
+      verify: async () => {
+        const verification = await this.provenance.verifyChain();
+        if (!verification.ok) {
+          return err(new StorageError(verification.error.message, 'QUERY_FAILED', verification.error));
+        }
+        const { valid, brokenLinks, invalidHashes, invalidSignatures } = verification.value;
+        if (!valid) {
+          return err(
+            new StorageError(
+              `Provenance chain broken: ${brokenLinks.length} broken links, ${invalidHashes.length} invalid hashes, ${invalidSignatures.length} invalid signatures`,
+              'INVALID_DATA'
+            )
+          );
+        }
+        return ok(undefined);
+      },
     });
+    if (!result.ok) {
+      return result;
+    }
+
+    // Continue the chain from the restored entries
+    const reloaded = await this.provenance.initialize();
+    if (!reloaded.ok) {
+      return err(reloaded.error);
+    }
+    return result;
+  }
+
+  // ============================================================================
+  // Branches
+  // ============================================================================
+
+  /**
+   * Fork a named branch: a graph whose writes go to a copy-on-write
+   * overlay on top of this graph's storage, so they can be reviewed
+   * before they land.
+   *
+   * The branch reads this graph as it is now, except for the records it
+   * wrote itself. Compare it with `branchDiff()`, then `merge()` or
+   * `discard()` it.
+   */
+  async fork(name: string): Promise<Result<ContextGraph, Error>> {
+    if (name.trim() === '') {
+      return err(new Error('Branch name is required'));
+    }
+    if (this.branches.has(name)) {
+      return err(new Error(`Branch already exists: ${name}`));
+    }
+
+    const storage = createOverlayStorage(this.storage);
+    const created = await ContextGraph.create({ ...this.settings, storage });
+    if (!created.ok) {
+      return created;
+    }
+    created.value.branch = { name, parent: this, storage };
+    this.branches.set(name, created.value);
+    return created;
+  }
+
+  /**
+   * Name of this graph when it is a branch
+   */
+  get branchName(): string | undefined {
+    return this.branch?.name;
+  }
+
+  /**
+   * Get an open branch forked from this graph
+   */
+  getBranch(name: string): ContextGraph | undefined {
+    return this.branches.get(name);
+  }
+
+  /**
+   * Names of the open branches forked from this graph
+   */
+  listBranches(): readonly string[] {
+    return [...this.branches.keys()];
+  }
+
+  /**
+   * Compare this branch with the graph it was forked from: the entities,
+   * claims and decisions merging would add or change there, the provenance
+   * recorded on the branch, and the records changed on both sides
+   */
+  async branchDiff(): Promise<Result<BranchDiff, Error>> {
+    const branch = this.openBranch();
+    if (!branch.ok) {
+      return branch;
+    }
+    const changes = await branch.value.storage.changes();
+    if (!changes.ok) {
+      return err(changes.error);
+    }
+
+    return ok({
+      branch: branch.value.name,
+      entities: this.branchChanges(changes.value, 'entities', (record) => Entity.fromRecord(record as EntityRecord)),
+      claims: this.branchChanges(changes.value, 'claims', (record) => Claim.fromRecord(record as ClaimRecord)),
+      decisions: this.branchChanges(changes.value, 'decisions', (record) => Decision.fromRecord(record as DecisionRecord)),
+      provenance: changes.value
+        .filter((change) => change.collection === 'provenance')
+        .map((change) => ProvenanceEntry.fromRecord(change.record as ProvenanceRecord)),
+      conflicts: this.branchConflicts(changes.value),
+    });
+  }
+
+  /**
+   * Merge this branch into the graph it was forked from, in one transaction.
+   *
+   * Records changed on both sides since the branch wrote them fail the
+   * merge unless `onConflict` says which side wins. Provenance recorded on
+   * the branch is recorded again on the parent's chain, tagged with the
+   * branch name, and merged records point to the new entries; a final
+   * entry records the merge itself. The branch is closed once merged.
+   */
+  async merge(options: BranchMergeOptions = {}): Promise<Result<BranchMergeResult, Error>> {
+    const branch = this.openBranch();
+    if (!branch.ok) {
+      return branch;
+    }
+    const { name, parent, storage } = branch.value;
+    if (this.branches.size > 0) {
+      return err(new Error(`Branch ${name} has open branches: ${this.listBranches().join(', ')}`));
+    }
+
+    const changes = await storage.changes();
+    if (!changes.ok) {
+      return err(changes.error);
+    }
+    const conflicts = this.branchConflicts(changes.value);
+    if (conflicts.length > 0 && (options.onConflict ?? 'abort') === 'abort') {
+      return ok({
+        success: false,
+        branch: name,
+        entitiesMerged: 0,
+        claimsMerged: 0,
+        decisionsMerged: 0,
+        recordsMerged: 0,
+        conflicts,
+      });
+    }
+
+    const applied = await parent.storage.transaction(async () => {
+      const result = await parent.applyBranch(name, changes.value, options);
+      if (!result.ok) {
+        const error = result.error;
+        return err(error instanceof StorageError ? error : new StorageError(error.message, 'CONSTRAINT_VIOLATION', error));
+      }
+      return result;
+    });
+    if (!applied.ok) {
+      // Continue the chain from the entries that were committed
+      await parent.provenance.initialize();
+      return err(applied.error);
+    }
+
+    parent.branches.delete(name);
+    const closed = await storage.close();
+    if (!closed.ok) {
+      return err(closed.error);
+    }
+    parent.ckg.refreshIndexes();
+
+    const result: BranchMergeResult = { ...applied.value, success: true, branch: name, conflicts };
+    await parent.emit('branch:merged', result);
+    return ok(result);
+  }
+
+  /**
+   * Drop this branch and everything written on it
+   */
+  async discard(): Promise<Result<void, Error>> {
+    const branch = this.openBranch();
+    if (!branch.ok) {
+      return branch;
+    }
+    const { name, parent, storage } = branch.value;
+    if (this.branches.size > 0) {
+      return err(new Error(`Branch ${name} has open branches: ${this.listBranches().join(', ')}`));
+    }
+
+    parent.branches.delete(name);
+    const closed = await storage.close();
+    if (!closed.ok) {
+      return err(closed.error);
+    }
+    await parent.emit('branch:discarded', { branch: name });
+    return ok(undefined);
+  }
+
+  /**
+   * Get the branch state, unless this is not a branch or it was already
+   * merged or discarded
+   */
+  private openBranch(): Result<BranchState, Error> {
+    if (this.branch === undefined) {
+      return err(new Error('Not a branch'));
+    }
+    if (this.branch.parent.branches.get(this.branch.name) !== this) {
+      return err(new Error(`Branch ${this.branch.name} was already merged or discarded`));
+    }
+    return ok(this.branch);
+  }
+
+  /**
+   * Write the changes of a branch to this graph's storage
+   */
+  private async applyBranch(
+    name: string,
+    changes: readonly OverlayChange[],
+    options: BranchMergeOptions
+  ): Promise<Result<Omit<BranchMergeResult, 'success' | 'branch' | 'conflicts'>, Error>> {
+    const remapped = new Map<string, ProvenanceId>();
+    const inputRefs: ArtifactRef[] = [];
+    const outputRefs: ArtifactRef[] = [];
+    const merged: Record<string, number> = {};
+
+    // Re-record the branch's provenance first, so every id can be remapped
+    for (const change of changes) {
+      if (change.collection !== 'provenance') continue;
+      const entry = ProvenanceEntry.fromRecord(change.record as ProvenanceRecord).data;
+      const remapRef = (ref: ArtifactRef): ArtifactRef =>
+        ref.type === 'provenance' ? { ...ref, id: remapped.get(ref.id) ?? ref.id } : ref;
+
+      const recorded = await this.provenance.record({
+        sourceType: entry.sourceType,
+        ...(entry.sourceId !== undefined ? { sourceId: entry.sourceId } : {}),
+        ...(entry.sourceUri !== undefined ? { sourceUri: entry.sourceUri } : {}),
+        ...(entry.actor !== undefined ? { actor: entry.actor } : {}),
+        action: entry.action,
+        inputRefs: entry.inputRefs.map(remapRef),
+        outputRefs: entry.outputRefs.map(remapRef),
+        timestamp: entry.timestamp,
+        metadata: { ...entry.metadata, branch: name, branchProvenanceId: entry.id },
+      });
+      if (!recorded.ok) {
+        return recorded;
+      }
+      remapped.set(entry.id, recorded.value.data.id);
+      inputRefs.push({ type: 'provenance', id: recorded.value.data.id });
+      merged['provenance'] = (merged['provenance'] ?? 0) + 1;
+    }
+
+    for (const change of changes) {
+      if (change.collection === 'provenance') continue;
+      if (change.conflict && options.onConflict === 'keep_main') continue;
+
+      const record: Record<string, unknown> = { ...change.record };
+      for (const field of PROVENANCE_ID_FIELDS) {
+        const id = record[field];
+        if (typeof id === 'string' && remapped.has(id)) {
+          record[field] = remapped.get(id);
+        }
+      }
+      const exists = change.conflict ? change.current !== null : change.origin !== null;
+      const written = exists
+        ? await this.storage.upsert(change.collection, record as StorageRecord)
+        : await this.storage.insert(change.collection, record as StorageRecord);
+      if (!written.ok) {
+        return written;
+      }
+
+      merged[change.collection] = (merged[change.collection] ?? 0) + 1;
+      const type = MERGED_REF_TYPES[change.collection];
+      if (type !== undefined) {
+        outputRefs.push({ type, id: change.id });
+      }
+    }
+
+    const entry = await this.provenance.record({
+      sourceType: 'system',
+      sourceId: name,
+      actor: options.actor ?? 'sdk-user',
+      action: 'approve',
+      inputRefs,
+      outputRefs,
+      metadata: { operation: 'merge_branch', branch: name },
+    });
+    if (!entry.ok) {
+      return entry;
+    }
+
+    return ok({
+      entitiesMerged: merged['entities'] ?? 0,
+      claimsMerged: merged['claims'] ?? 0,
+      decisionsMerged: merged['decisions'] ?? 0,
+      recordsMerged: Object.values(merged).reduce((sum, count) => sum + count, 0),
+      provenanceId: entry.value.data.id,
+    });
+  }
+
+  /**
+   * Records of one collection added or changed on a branch
+   */
+  private branchChanges<T>(
+    changes: readonly OverlayChange[],
+    collection: string,
+    fromRecord: (record: StorageRecord) => T
+  ): BranchChanges<T> {
+    const added: T[] = [];
+    const updated: { before: T; after: T }[] = [];
+    for (const change of changes) {
+      if (change.collection !== collection) continue;
+      if (change.origin === null) {
+        added.push(fromRecord(change.record));
+      } else {
+        updated.push({ before: fromRecord(change.origin), after: fromRecord(change.record) });
+      }
+    }
+    return { added, updated };
+  }
+
+  /**
+   * Records changed on a branch and, since, on the graph it was forked from
+   */
+  private branchConflicts(changes: readonly OverlayChange[]): BranchConflict[] {
+    return changes
+      .filter((change) => change.conflict)
+      .map((change) => ({ collection: change.collection, id: change.id, branch: change.record, main: change.current ?? null }));
   }
 
   // ============================================================================
@@ -772,6 +1495,61 @@ export class ContextGraph {
    * Export the entire graph to JSON format
    */
   async exportToJSON(options: ExportOptions = {}): Promise<Result<GraphExport, Error>> {
+    const entities: EntityExport[] = [];
+    const claims: ClaimExport[] = [];
+    const agents: AgentExport[] = [];
+    const decisions: DecisionExport[] = [];
+    const policies: PolicyExport[] = [];
+    const provenance: ProvenanceExport[] = [];
+
+    try {
+      for await (const record of this.streamExport(options)) {
+        switch (record.kind) {
+          case 'entity':
+            entities.push(record.data);
+            break;
+          case 'claim':
+            claims.push(record.data);
+            break;
+          case 'agent':
+            agents.push(record.data);
+            break;
+          case 'decision':
+            decisions.push(record.data);
+            break;
+          case 'policy':
+            policies.push(record.data);
+            break;
+          case 'provenance':
+            provenance.push(record.data);
+            break;
+        }
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    const exportData: GraphExport = {
+      version: '1.0.0',
+      exportedAt: createTimestamp(),
+      entities,
+      claims,
+      agents,
+      decisions,
+      policies,
+      provenance,
+    };
+
+    return ok(exportData);
+  }
+
+  /**
+   * Stream the graph as export records, one at a time
+   *
+   * Records are read from storage in batches, so large graphs can be
+   * written out without holding them in memory. Storage errors are thrown.
+   */
+  async *streamExport(options: ExportOptions = {}): AsyncIterableIterator<ExportRecord> {
     const includeAll = options.includeEntities === undefined &&
       options.includeClaims === undefined &&
       options.includeAgents === undefined &&
@@ -786,44 +1564,36 @@ export class ContextGraph {
     const includePolicies = options.includePolicies ?? includeAll;
     const includeProvenance = options.includeProvenance ?? includeAll;
 
-    const entities: EntityExport[] = [];
-    const claims: ClaimExport[] = [];
-    const agents: AgentExport[] = [];
-    const decisions: DecisionExport[] = [];
-    const policies: PolicyExport[] = [];
-    const provenance: ProvenanceExport[] = [];
+    const createdSince = options.since !== undefined ? { createdAt: { $gte: options.since } } : {};
+    const ordered = { orderBy: 'createdAt', orderDirection: 'asc' as const };
 
     // Export entities
     if (includeEntities) {
-      const entitiesResult = await this.storage.find<{
+      for await (const entity of this.storage.stream<{
         id: string;
         type: string;
         name?: string;
         properties: Record<string, unknown>;
         aliases?: readonly string[];
         createdAt: Timestamp;
-      }>('entities', {}, { limit: 10000 });
-      if (entitiesResult.ok) {
-        for (const entity of entitiesResult.value.items) {
-          if (options.since !== undefined && entity.createdAt < options.since) continue;
-          const exportEntity: EntityExport = {
-            id: entity.id,
-            type: entity.type,
-            name: entity.name ?? '',
-            properties: entity.properties,
-            createdAt: entity.createdAt,
-          };
-          if (entity.aliases !== undefined) {
-            (exportEntity as { aliases?: readonly string[] }).aliases = entity.aliases;
-          }
-          entities.push(exportEntity);
+      }>('entities', createdSince, ordered)) {
+        const exportEntity: EntityExport = {
+          id: entity.id,
+          type: entity.type,
+          name: entity.name ?? '',
+          properties: entity.properties,
+          createdAt: entity.createdAt,
+        };
+        if (entity.aliases !== undefined) {
+          (exportEntity as { aliases?: readonly string[] }).aliases = entity.aliases;
         }
+        yield { kind: 'entity', data: exportEntity };
       }
     }
 
     // Export claims
     if (includeClaims) {
-      const claimsResult = await this.storage.find<{
+      for await (const claim of this.storage.stream<{
         id: string;
         subjectId: string;
         predicate: string;
@@ -832,77 +1602,67 @@ export class ContextGraph {
         context?: Record<string, unknown>;
         provenanceId: string;
         createdAt: Timestamp;
-      }>('claims', {}, { limit: 10000 });
-      if (claimsResult.ok) {
-        for (const claim of claimsResult.value.items) {
-          if (options.since !== undefined && claim.createdAt < options.since) continue;
-          const exportClaim: ClaimExport = {
-            id: claim.id,
-            subjectId: claim.subjectId,
-            predicate: claim.predicate,
-            value: claim.value,
-            provenanceId: claim.provenanceId,
-            createdAt: claim.createdAt,
-          };
-          if (claim.objectId !== undefined) {
-            (exportClaim as { objectId?: string }).objectId = claim.objectId;
-          }
-          if (claim.context !== undefined) {
-            (exportClaim as { context?: Record<string, unknown> }).context = claim.context;
-          }
-          claims.push(exportClaim);
+      }>('claims', createdSince, ordered)) {
+        const exportClaim: ClaimExport = {
+          id: claim.id,
+          subjectId: claim.subjectId,
+          predicate: claim.predicate,
+          value: claim.value,
+          provenanceId: claim.provenanceId,
+          createdAt: claim.createdAt,
+        };
+        if (claim.objectId !== undefined) {
+          (exportClaim as { objectId?: string }).objectId = claim.objectId;
         }
+        if (claim.context !== undefined) {
+          (exportClaim as { context?: Record<string, unknown> }).context = claim.context;
+        }
+        yield { kind: 'claim', data: exportClaim };
       }
     }
 
     // Export agents
     if (includeAgents) {
-      const agentsResult = await this.agentRegistry.query({ limit: 10000 });
-      if (agentsResult.ok) {
-        for (const agent of agentsResult.value) {
-          if (options.since !== undefined && agent.data.createdAt < options.since) continue;
-          const exportAgent: AgentExport = {
-            id: agent.data.id,
-            name: agent.data.name,
-            status: agent.data.status,
-            createdAt: agent.data.createdAt,
-          };
-          if (agent.data.description !== undefined) {
-            (exportAgent as { description?: string }).description = agent.data.description;
-          }
-          if (agent.data.parentAgentId !== undefined) {
-            (exportAgent as { parentAgentId?: string }).parentAgentId = agent.data.parentAgentId;
-          }
-          if (agent.data.metadata !== undefined) {
-            (exportAgent as { metadata?: Readonly<Record<string, unknown>> }).metadata = agent.data.metadata;
-          }
-          agents.push(exportAgent);
+      for await (const record of this.storage.stream<AgentRecord>('agents', createdSince, ordered)) {
+        const agent = Agent.fromRecord(record);
+        const exportAgent: AgentExport = {
+          id: agent.data.id,
+          name: agent.data.name,
+          status: agent.data.status,
+          createdAt: agent.data.createdAt,
+        };
+        if (agent.data.description !== undefined) {
+          (exportAgent as { description?: string }).description = agent.data.description;
+        }
+        if (agent.data.parentAgentId !== undefined) {
+          (exportAgent as { parentAgentId?: string }).parentAgentId = agent.data.parentAgentId;
+        }
+        if (agent.data.metadata !== undefined) {
+          (exportAgent as { metadata?: Readonly<Record<string, unknown>> }).metadata = agent.data.metadata;
         }
+        yield { kind: 'agent', data: exportAgent };
       }
     }
 
     // Export decisions
     if (includeDecisions) {
-      const decisionsResult = await this.dtg.queryDecisions({ limit: 10000 });
-      if (decisionsResult.ok) {
-        for (const decision of decisionsResult.value) {
-          if (options.since !== undefined && decision.data.createdAt < options.since) continue;
-          const exportDecision: DecisionExport = {
-            id: decision.data.id,
-            type: decision.data.type,
-            title: decision.data.title,
-            status: decision.data.status,
-            proposedBy: decision.data.proposedBy,
-            createdAt: decision.data.createdAt,
-          };
-          if (decision.data.description !== undefined) {
-            (exportDecision as { description?: string }).description = decision.data.description;
-          }
-          if (decision.data.riskLevel !== undefined) {
-            (exportDecision as { riskLevel?: string }).riskLevel = decision.data.riskLevel;
-          }
-          decisions.push(exportDecision);
+      for await (const record of this.storage.stream<DecisionRecord>('decisions', createdSince, ordered)) {
+        const decision = Decision.fromRecord(record);
+        const exportDecision: DecisionExport = {
+          id: decision.data.id,
+          type: decision.data.type,
+          title: decision.data.title,
+          status: decision.data.status,
+          proposedBy: decision.data.proposedBy,
+          createdAt: decision.data.createdAt,
+        };
+        if (decision.data.description !== undefined) {
+          (exportDecision as { description?: string }).description = decision.data.description;
         }
+        if (decision.data.riskLevel !== undefined) {
+          (exportDecision as { riskLevel?: string }).riskLevel = decision.data.riskLevel;
+        }
+        yield { kind: 'decision', data: exportDecision };
       }
     }
 
@@ -937,45 +1697,30 @@ export class ContextGraph {
                 value: c.value,
               }));
           }
-          policies.push(exportPolicy);
+          yield { kind: 'policy', data: exportPolicy };
         }
       }
     }
 
     // Export provenance
     if (includeProvenance) {
-      const provenanceResult = await this.queryProvenance({ limit: 10000 });
-      if (provenanceResult.ok) {
-        for (const entry of provenanceResult.value) {
-          if (options.since !== undefined && entry.data.timestamp < options.since) continue;
-          const exportProvenance: ProvenanceExport = {
-            id: entry.data.id,
-            sourceType: entry.data.sourceType,
-            sourceId: entry.data.sourceId ?? '',
-            action: entry.data.action,
-            timestamp: entry.data.timestamp,
-            hash: entry.data.hash,
-          };
-          if (entry.data.previousHash !== undefined) {
-            (exportProvenance as { previousHash?: string }).previousHash = entry.data.previousHash;
-          }
-          provenance.push(exportProvenance);
+      const provenanceSince = options.since !== undefined ? { timestamp: { $gte: options.since } } : {};
+      for await (const record of this.storage.stream<ProvenanceRecord>('provenance', provenanceSince, ordered)) {
+        const entry = ProvenanceEntry.fromRecord(record);
+        const exportProvenance: ProvenanceExport = {
+          id: entry.data.id,
+          sourceType: entry.data.sourceType,
+          sourceId: entry.data.sourceId ?? '',
+          action: entry.data.action,
+          timestamp: entry.data.timestamp,
+          hash: entry.data.hash,
+        };
+        if (entry.data.previousHash !== undefined) {
+          (exportProvenance as { previousHash?: string }).previousHash = entry.data.previousHash;
         }
+        yield { kind: 'provenance', data: exportProvenance };
       }
     }
-
-    const exportData: GraphExport = {
-      version: '1.0.0',
-      exportedAt: createTimestamp(),
-      entities,
-      claims,
-      agents,
-      decisions,
-      policies,
-      provenance,
-    };
-
-    return ok(exportData);
   }
 
   /**
@@ -994,6 +1739,50 @@ export class ContextGraph {
    * Import from JSON format
    */
   async importFromJSON(data: GraphExport, options: ImportOptions = {}): Promise<Result<ImportResult, Error>> {
+    return this.runImport(options, () => this.importRecords(data, options));
+  }
+
+  /**
+   * Run an import, in a single transaction rolled back on any error when atomic
+   */
+  private async runImport(
+    options: ImportOptions,
+    run: () => Promise<ImportResult>
+  ): Promise<Result<ImportResult, Error>> {
+    if (options.atomic !== true || options.dryRun === true) {
+      return ok(await run());
+    }
+
+    let outcome: ImportResult | undefined;
+    const result = await this.storage.transaction(async () => {
+      outcome = await run();
+      return outcome.success
+        ? ok(outcome)
+        : err(new StorageError(`Import failed with ${outcome.errors.length} error(s)`, 'CONSTRAINT_VIOLATION'));
+    });
+
+    if (result.ok) {
+      return ok(result.value);
+    }
+    if (outcome === undefined) {
+      return err(result.error);
+    }
+    return ok({
+      success: false,
+      entitiesImported: 0,
+      claimsImported: 0,
+      agentsImported: 0,
+      decisionsImported: 0,
+      policiesImported: 0,
+      skipped: 0,
+      errors: [...outcome.errors, 'Import rolled back: no records were written'],
+    });
+  }
+
+  /**
+   * Write the records of an export to storage, collecting per-record errors
+   */
+  private async importRecords(data: GraphExport, options: ImportOptions): Promise<ImportResult> {
     const errors: string[] = [];
     let entitiesImported = 0;
     let claimsImported = 0;
@@ -1194,7 +1983,7 @@ export class ContextGraph {
       }
     }
 
-    return ok({
+    return {
       success: errors.length === 0,
       entitiesImported,
       claimsImported,
@@ -1203,7 +1992,7 @@ export class ContextGraph {
       policiesImported,
       skipped,
       errors,
-    });
+    };
   }
 
   /**
@@ -1218,6 +2007,247 @@ export class ContextGraph {
     }
   }
 
+  /**
+   * Export entities, active claims and their provenance as RDF
+   *
+   * N-Triples and Turtle tie each claim node to its statement with RDF-star;
+   * JSON-LD has no quoted triples, so each statement sits in a named graph
+   * named by its claim node there.
+   */
+  async exportToRDF(format: RdfFormat, options: RdfExportOptions = {}): Promise<Result<string, Error>> {
+    const mapping = new RdfMapping(options);
+    const style = format === 'jsonld' ? 'named-graph' : 'rdf-star';
+    const includeAll = options.includeEntities === undefined &&
+      options.includeClaims === undefined &&
+      options.includeProvenance === undefined;
+    const since = options.since ?? 0;
+
+    const quads: Quad[] = [];
+    const provenanceIds = new Set<string>();
+    try {
+      if (options.includeEntities ?? includeAll) {
+        for await (const entity of this.ckg.streamEntities()) {
+          if (entity.data.createdAt >= since) {
+            quads.push(...mapping.entityQuads(entity));
+          }
+        }
+      }
+      if (options.includeClaims ?? includeAll) {
+        for await (const claim of this.ckg.streamClaims()) {
+          if (claim.data.createdAt >= since) {
+            quads.push(...mapping.claimQuads(claim, style));
+            provenanceIds.add(claim.data.provenanceId);
+          }
+        }
+      }
+      if ((options.includeProvenance ?? includeAll) && provenanceIds.size > 0) {
+        for await (const record of this.storage.stream<ProvenanceRecord>('provenance', {}, { orderBy: 'timestamp', orderDirection: 'asc' })) {
+          if (provenanceIds.has(record.id)) {
+            quads.push(...mapping.provenanceQuads(ProvenanceEntry.fromRecord(record)));
+          }
+        }
+      }
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    return serializeRdf(quads, format, {
+      prefixes: mapping.prefixes(),
+      ...(options.prettyPrint !== undefined ? { prettyPrint: options.prettyPrint } : {}),
+    });
+  }
+
+  /**
+   * Import entities and claims from RDF
+   *
+   * Entity and claim IRIs under the base IRI keep their IDs, other IRIs are
+   * kept whole as IDs, and blank nodes get new ones. The PROV activity
+   * behind the imported claims is recorded once as an import entry in the
+   * ledger, pointing back at the activity IRI. Existing entities follow
+   * `onConflict`; existing claims are never overwritten.
+   */
+  async importFromRDF(text: string, format: RdfFormat, options: RdfImportOptions = {}): Promise<Result<ImportResult, Error>> {
+    const quads = parseRdf(text, format);
+    if (!quads.ok) {
+      return err(quads.error);
+    }
+    const dataset = new RdfMapping(options).read(quads.value);
+    return this.runImport(options, () => this.importDataset(dataset, format, options));
+  }
+
+  /**
+   * Write the entities and claims read from RDF, collecting per-record errors
+   */
+  private async importDataset(dataset: RdfDataset, format: RdfFormat, options: ImportOptions): Promise<ImportResult> {
+    const errors: string[] = [...dataset.errors];
+    let entitiesImported = 0;
+    let claimsImported = 0;
+    let skipped = 0;
+
+    const onConflict = options.onConflict ?? 'skip';
+    const dryRun = options.dryRun ?? false;
+    const entities = new Map<string, Entity>();
+
+    for (const input of dataset.entities) {
+      if (dryRun) {
+        entitiesImported++;
+        continue;
+      }
+
+      if (input.id !== undefined) {
+        const existing = await this.ckg.getEntity(input.id as EntityId);
+        if (existing.ok && existing.value !== null) {
+          entities.set(input.key, existing.value);
+          if (onConflict === 'skip') {
+            skipped++;
+            continue;
+          } else if (onConflict === 'error') {
+            errors.push(`Entity already exists: ${input.id}`);
+            continue;
+          }
+
+          const updated = await this.updateEntity(existing.value.data.id, {
+            ...(input.name !== undefined ? { name: input.name } : {}),
+            ...(input.aliases.length > 0 ? { aliases: input.aliases } : {}),
+            ...(Object.keys(input.properties).length > 0 ? { properties: input.properties } : {}),
+          });
+          if (updated.ok) {
+            entities.set(input.key, updated.value);
+            entitiesImported++;
+          } else {
+            errors.push(`Failed to import entity ${input.id}: ${updated.error.message}`);
+          }
+          continue;
+        }
+      }
+
+      const created = await this.ckg.createEntity({
+        ...(input.id !== undefined ? { id: input.id as EntityId } : {}),
+        type: input.type,
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        aliases: input.aliases,
+        properties: input.properties,
+      });
+      if (created.ok) {
+        entities.set(input.key, created.value);
+        entitiesImported++;
+        await this.emit('entity:created', created.value);
+      } else {
+        errors.push(`Failed to import entity ${input.id ?? input.key}: ${created.error.message}`);
+      }
+    }
+
+    const provenanceIds = new Map<string, ProvenanceId>();
+    for (const claim of dataset.claims) {
+      const label = claim.id ?? `${claim.predicate} of ${claim.subject}`;
+      if (claim.confidence !== undefined && !(claim.confidence >= 0 && claim.confidence <= 1)) {
+        errors.push(`Invalid claim ${label}: confidence must be between 0 and 1`);
+        continue;
+      }
+
+      if (dryRun) {
+        claimsImported++;
+        continue;
+      }
+
+      const subject = entities.get(claim.subject);
+      const object = claim.object !== undefined ? entities.get(claim.object) : undefined;
+      if (subject === undefined || (claim.object !== undefined && object === undefined)) {
+        errors.push(`Failed to import claim ${label}: its entities were not imported`);
+        continue;
+      }
+
+      if (claim.id !== undefined) {
+        const existing = await this.ckg.getClaim(claim.id as ClaimId);
+        if (existing.ok && existing.value !== null) {
+          if (onConflict === 'error') {
+            errors.push(`Claim already exists: ${claim.id}`);
+          } else {
+            skipped++;
+          }
+          continue;
+        }
+      }
+
+      const provenanceId = await this.recordRDFImport(claim.activity, dataset.activities, provenanceIds, format);
+      if (!provenanceId.ok) {
+        errors.push(`Failed to import claim ${label}: ${provenanceId.error.message}`);
+        continue;
+      }
+
+      const result = await this.ckg.createClaim({
+        ...(claim.id !== undefined ? { id: claim.id as ClaimId } : {}),
+        subjectId: subject.data.id,
+        subjectType: subject.data.type,
+        predicate: claim.predicate,
+        ...(object !== undefined ? { objectId: object.data.id } : { objectValue: claim.value }),
+        context: this.buildContext({
+          ...(claim.validFrom !== undefined ? { validFrom: createTimestamp(claim.validFrom) } : {}),
+          ...(claim.validUntil !== undefined ? { validUntil: createTimestamp(claim.validUntil) } : {}),
+          ...(claim.scope !== undefined ? { scope: createScope(claim.scope) } : {}),
+          ...(claim.jurisdiction !== undefined ? { jurisdiction: createJurisdiction(claim.jurisdiction) } : {}),
+          ...(claim.confidence !== undefined ? { confidence: claim.confidence as Confidence } : {}),
+        }),
+        provenanceId: provenanceId.value,
+      });
+      if (result.ok) {
+        claimsImported++;
+        await this.emit('claim:added', result.value);
+      } else {
+        errors.push(`Failed to import claim ${label}: ${result.error.message}`);
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      entitiesImported,
+      claimsImported,
+      agentsImported: 0,
+      decisionsImported: 0,
+      policiesImported: 0,
+      skipped,
+      errors,
+    };
+  }
+
+  /**
+   * Record the import of the claims an RDF activity generated, once per activity
+   */
+  private async recordRDFImport(
+    iri: string | undefined,
+    activities: ReadonlyMap<string, RdfActivity>,
+    recorded: Map<string, ProvenanceId>,
+    format: RdfFormat
+  ): Promise<Result<ProvenanceId, Error>> {
+    const key = iri ?? '';
+    const existing = recorded.get(key);
+    if (existing !== undefined) {
+      return ok(existing);
+    }
+
+    const activity = iri !== undefined ? activities.get(iri) : undefined;
+    const result = await this.provenance.record({
+      sourceType: (activity?.sourceType ?? 'document') as SourceType,
+      ...(activity?.sourceId !== undefined ? { sourceId: activity.sourceId } : {}),
+      ...(iri !== undefined ? { sourceUri: iri } : {}),
+      actor: 'sdk-user',
+      action: 'import',
+      metadata: {
+        operation: 'import_rdf',
+        format,
+        ...(activity?.action !== undefined ? { originalAction: activity.action } : {}),
+        ...(activity?.startedAt !== undefined ? { originalTimestamp: activity.startedAt } : {}),
+        ...(activity?.sourceUri !== undefined ? { originalSourceUri: activity.sourceUri } : {}),
+      },
+    });
+    if (!result.ok) {
+      return err(result.error);
+    }
+
+    recorded.set(key, result.value.data.id);
+    return ok(result.value.data.id);
+  }
+
   /**
    * Export entities to CSV format
    */
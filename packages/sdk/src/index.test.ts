@@ -3,8 +3,13 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ContextGraph, createTimestamp, createScope, createConfidence } from './index.js';
-import type { Entity, Agent, Decision, Policy } from './index.js';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AppendLogStorage } from '@contextgraph/storage';
+import { Ed25519Signer, generateActorKeyPair } from '@contextgraph/provenance';
+import { ContextGraph, HashedNgramEmbedder, createTimestamp, createScope, createConfidence, createJurisdiction } from './index.js';
+import type { Entity, Claim, Agent, Decision, Policy, GraphExport, EntityId } from './index.js';
 
 describe('ContextGraph SDK', () => {
   let client: ContextGraph;
@@ -77,6 +82,42 @@ describe('ContextGraph SDK', () => {
         expect(result.value.length).toBe(2);
       }
     });
+
+    it('updates and deletes an entity', async () => {
+      const events: string[] = [];
+      client.on('entity:updated', (event) => {
+        events.push(event.type);
+      });
+      client.on('entity:deleted', (event) => {
+        events.push(event.type);
+      });
+      const created = await client.createEntity({ type: 'person', name: 'Carol' });
+      if (!created.ok) throw created.error;
+
+      const updated = await client.updateEntity(created.value.data.id, { name: 'Caroline', aliases: ['Caz'] });
+      expect(updated.ok && updated.value.data.name).toBe('Caroline');
+
+      const deleted = await client.deleteEntity(created.value.data.id, 'Duplicate signup');
+      expect(deleted.ok).toBe(true);
+      const found = await client.getEntity(created.value.data.id);
+      expect(found.ok && found.value).toBeNull();
+      expect(events).toEqual(['entity:updated', 'entity:deleted']);
+    });
+
+    it('merges duplicate entities', async () => {
+      const alice = await client.createEntity({ type: 'person', name: 'Alice' });
+      const duplicate = await client.createEntity({ type: 'person', name: 'Alice S.' });
+      if (!alice.ok || !duplicate.ok) throw new Error('Failed to create entities');
+      await client.addClaim({ subjectId: duplicate.value.data.id, predicate: 'email', value: 'alice@example.com' });
+
+      const merged = await client.mergeEntities(alice.value.data.id, [duplicate.value.data.id]);
+      expect(merged.ok && merged.value.claimsRepointed).toBe(1);
+
+      const claims = await client.getClaims(alice.value.data.id);
+      expect(claims.ok && claims.value.map((c) => c.data.objectValue)).toEqual(['alice@example.com']);
+      const resolved = await client.resolveEntity(duplicate.value.data.id);
+      expect(resolved.ok && resolved.value?.data.id).toBe(alice.value.data.id);
+    });
   });
 
   describe('Claim Operations', () => {
@@ -152,6 +193,155 @@ describe('ContextGraph SDK', () => {
 
       expect(result.ok).toBe(true);
     });
+
+    it('retracts a claim and leaves it out of claim queries', async () => {
+      const events: string[] = [];
+      client.on('claim:retracted', (event) => {
+        events.push((event.data as Claim).data.id);
+      });
+      const claim = await client.addClaim({ subjectId: entity.data.id, predicate: 'salary', value: 100000 });
+      expect(claim.ok).toBe(true);
+      if (!claim.ok) return;
+
+      const retracted = await client.retractClaim(claim.value.data.id, 'Entered for the wrong employee');
+      expect(retracted.ok).toBe(true);
+      expect(events).toEqual([claim.value.data.id]);
+
+      const claims = await client.getClaims(entity.data.id);
+      expect(claims.ok && claims.value).toHaveLength(0);
+      const withRetracted = await client.getClaims(entity.data.id, { includeRetracted: true });
+      expect(withRetracted.ok && withRetracted.value).toHaveLength(1);
+
+      const chain = await client.verifyProvenance();
+      expect(chain.ok && chain.value.valid).toBe(true);
+    });
+
+    it('supersedes a claim with a corrected value', async () => {
+      let superseded = 0;
+      client.on('claim:superseded', () => {
+        superseded++;
+      });
+      const claim = await client.addClaim({ subjectId: entity.data.id, predicate: 'salary', value: 100000 });
+      expect(claim.ok).toBe(true);
+      if (!claim.ok) return;
+
+      const result = await client.supersedeClaim(
+        claim.value.data.id,
+        { subjectId: entity.data.id, predicate: 'salary', value: 110000 },
+        'Raise not recorded'
+      );
+      expect(result.ok).toBe(true);
+      expect(superseded).toBe(1);
+
+      const value = await client.getClaimValue(entity.data.id, 'salary');
+      expect(value.ok && value.value).toBe(110000);
+    });
+
+    it('answers with what was known at an earlier transaction time', async () => {
+      const tick = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 5));
+      const claim = await client.addClaim({ subjectId: entity.data.id, predicate: 'salary', value: 100000 });
+      expect(claim.ok).toBe(true);
+      if (!claim.ok) return;
+
+      await tick();
+      const beforeCorrection = createTimestamp();
+      await tick();
+      await client.supersedeClaim(claim.value.data.id, { subjectId: entity.data.id, predicate: 'salary', value: 110000 });
+
+      const believed = await client.getClaims(entity.data.id, { knownAt: beforeCorrection });
+      expect(believed.ok && believed.value.map((c) => c.data.objectValue)).toEqual([100000]);
+      const current = await client.getClaims(entity.data.id);
+      expect(current.ok && current.value.map((c) => c.data.objectValue)).toEqual([110000]);
+    });
+
+    it('runs graph pattern queries', async () => {
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'occupation', value: 'engineer' });
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'salary', value: 100000 });
+
+      const result = await client.query(`
+        MATCH ?person occupation "engineer", ?person salary ?salary
+        RETURN ?person.name AS name, ?salary
+      `);
+      expect(result.ok && result.value.rows).toEqual([{ name: 'Charlie', salary: 100000 }]);
+    });
+
+    it('searches entity names and claim values', async () => {
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'bio', value: 'Maintains the billing service' });
+
+      const byName = await client.search('charlie');
+      expect(byName.ok && byName.value.map((hit) => hit.entityId)).toEqual([entity.data.id]);
+      const byValue = await client.search('billing', { predicates: ['bio'] });
+      expect(byValue.ok && byValue.value.map((hit) => hit.text)).toEqual(['Maintains the billing service']);
+    });
+
+    it('finds similar entities with a configured embedder', async () => {
+      const withEmbedder = await ContextGraph.create({ embedder: new HashedNgramEmbedder() });
+      if (!withEmbedder.ok) throw withEmbedder.error;
+      const billing = await withEmbedder.value.createEntity({ type: 'service', name: 'Billing Service' });
+      await withEmbedder.value.createEntity({ type: 'service', name: 'Search Frontend' });
+      if (!billing.ok) throw billing.error;
+
+      const result = await withEmbedder.value.similar('billing', 1);
+      expect(result.ok && result.value.map((match) => match.kind === 'entity' && match.entity.data.id))
+        .toEqual([billing.value.data.id]);
+
+      const withoutEmbedder = await client.similar('billing');
+      expect(withoutEmbedder.ok).toBe(false);
+    });
+
+    it('weighs conflicting claims by the reliability of their sources', async () => {
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'team', value: 'payments', source: { type: 'human', id: 'hr' } });
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'team', value: 'payments', source: { type: 'document', id: 'wiki' } });
+      await client.addClaim({ subjectId: entity.data.id, predicate: 'team', value: 'search', source: { type: 'agent', id: 'crawler' } });
+
+      const scores = await client.updateSourceReliability();
+      expect(scores.ok && scores.value.at(-1)?.sourceId).toBe('crawler');
+
+      const beliefs = await client.getBeliefs(entity.data.id);
+      expect(beliefs.ok).toBe(true);
+      if (!beliefs.ok) return;
+      const team = beliefs.value.find((belief) => belief.predicate === 'team');
+      expect(team?.value.objectValue).toBe('payments');
+      expect(team?.alternatives.map((alternative) => alternative.objectValue)).toEqual(['search']);
+    });
+
+    it('diffs the graph between two points in time', async () => {
+      const before = createTimestamp();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const claim = await client.addClaim({ subjectId: entity.data.id, predicate: 'team', value: 'payments' });
+      if (!claim.ok) throw claim.error;
+      const after = createTimestamp();
+
+      const diff = await client.diff(before, after, { entityIds: [entity.data.id] });
+      expect(diff.ok && diff.value.added.map((change) => [change.claim.data.id, change.reason]))
+        .toEqual([[claim.value.data.id, 'recorded']]);
+      expect(diff.ok && diff.value.removed).toEqual([]);
+    });
+
+    it('annotates claims with evidence and reviews', async () => {
+      const claim = await client.addClaim({ subjectId: entity.data.id, predicate: 'team', value: 'payments' });
+      if (!claim.ok) throw claim.error;
+      const events: unknown[] = [];
+      client.on('claim:annotated', (event) => {
+        events.push(event.data);
+      });
+
+      const evidence = await client.annotateClaim(claim.value.data.id, {
+        kind: 'evidence',
+        ref: { type: 'document', id: 'roster', uri: 'https://example.com/roster.csv', span: { start: 120, end: 160 } },
+      });
+      expect(evidence.ok && evidence.value.data.author).toBe('sdk-user');
+      await client.annotateClaim(claim.value.data.id, { kind: 'dispute', text: 'Moved to search', author: 'lead' });
+      expect(events).toHaveLength(2);
+
+      const disputes = await client.getAnnotations(claim.value.data.id, ['dispute']);
+      expect(disputes.ok && disputes.value.map((annotation) => annotation.data.text)).toEqual(['Moved to search']);
+      const fromRoster = await client.findAnnotations({ uri: 'https://example.com/roster.csv' });
+      expect(fromRoster.ok && fromRoster.value).toHaveLength(1);
+
+      const invalid = await client.annotateClaim(claim.value.data.id, { kind: 'citation' });
+      expect(invalid.ok).toBe(false);
+    });
   });
 
   describe('Agent Operations', () => {
@@ -437,6 +627,47 @@ describe('ContextGraph SDK', () => {
         expect(result.value.length).toBeGreaterThan(0);
       }
     });
+
+    it('hashes provenance with the configured algorithm', async () => {
+      const created = await ContextGraph.create({ enablePolicies: false, enableCapabilities: false, hashAlgorithm: 'sha512' });
+      if (!created.ok) throw created.error;
+      const entity = await created.value.createEntity({ type: 'test', name: 'Test' });
+      if (!entity.ok) throw entity.error;
+      await created.value.addClaim({ subjectId: entity.value.data.id, predicate: 'test', value: 'value' });
+
+      const entries = await created.value.queryProvenance();
+      expect(entries.ok && entries.value.map((entry) => entry.data.hashAlgorithm)).toEqual(['sha512']);
+      const verified = await created.value.verifyProvenance();
+      expect(verified.ok && verified.value.valid).toBe(true);
+
+      const migrated = await created.value.migrateProvenanceHashes();
+      expect(migrated.ok && migrated.value.recorded).toBe(false);
+    });
+
+    it('signs provenance and verifies signatures against the actor keys', async () => {
+      const signer = new Ed25519Signer();
+      const created = await ContextGraph.create({ enablePolicies: false, enableCapabilities: false, signer });
+      if (!created.ok) throw created.error;
+      const graph = created.value;
+
+      const pair = generateActorKeyPair();
+      const key = await graph.getActorKeys().register({ actor: 'sdk-user', actorType: 'system', publicKey: pair.publicKey });
+      if (!key.ok) throw key.error;
+      signer.addKey('sdk-user', key.value.id, pair.privateKey);
+
+      const entity = await graph.createEntity({ type: 'test', name: 'Test' });
+      if (!entity.ok) throw entity.error;
+      await graph.addClaim({ subjectId: entity.value.data.id, predicate: 'test', value: 'value' });
+
+      const verified = await graph.verifyProvenance();
+      expect(verified.ok && verified.value.valid).toBe(true);
+      expect(verified.ok && verified.value.unsignedEntries).toEqual([]);
+
+      await graph.getActorKeys().revoke(key.value.id, { at: createTimestamp(0) });
+      const revoked = await graph.verifyProvenance();
+      expect(revoked.ok && revoked.value.valid).toBe(false);
+      expect(revoked.ok && revoked.value.invalidSignatures.length).toBeGreaterThan(0);
+    });
   });
 
   describe('Audit Operations', () => {
@@ -521,6 +752,25 @@ describe('ContextGraph SDK', () => {
         expect(result.value.agents).toBeGreaterThanOrEqual(1);
       }
     });
+
+    it('breaks the graph down by type, predicate, jurisdiction and period', async () => {
+      const created = await client.createEntity({ type: 'person', name: 'Dana' });
+      if (!created.ok) throw created.error;
+      await client.addClaim({ subjectId: created.value.data.id, predicate: 'role', value: 'admin', context: { jurisdiction: createJurisdiction('EU') } });
+      await client.addClaim({ subjectId: created.value.data.id, predicate: 'team', value: 'core' });
+
+      const result = await client.getStats({ bucket: 'year' });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.entityTypes['person']).toBe(1);
+      expect(result.value.predicates).toMatchObject({ role: 1, team: 1 });
+      expect(result.value.jurisdictions).toEqual({ EU: 1, unspecified: 1 });
+      expect(Object.values(result.value.sourceTypes).reduce((sum, n) => sum + n, 0)).toBeGreaterThanOrEqual(2);
+      expect(result.value.claimsCreated).toEqual({ [String(new Date().getUTCFullYear())]: 2 });
+
+      const byStatus = await client.aggregateClaims(['status', 'predicate'], { limit: 1 });
+      expect(byStatus.ok && byStatus.value).toHaveLength(1);
+    });
   });
 
   describe('Storage Access', () => {
@@ -528,6 +778,97 @@ describe('ContextGraph SDK', () => {
       const storage = client.getStorage();
       expect(storage).toBeDefined();
     });
+
+    it('creates the storage backend selected in the config', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'cg-sdk-'));
+      try {
+        const result = await ContextGraph.create({
+          storage: { type: 'append-log', directory, fsync: 'never' },
+          enablePolicies: false,
+          enableCapabilities: false,
+        });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.getStorage()).toBeInstanceOf(AppendLogStorage);
+          const entity = await result.value.createEntity({ type: 'person', name: 'Alice' });
+          expect(entity.ok).toBe(true);
+          await result.value.getStorage().close();
+        }
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Backup Operations', () => {
+    async function freshClient(): Promise<ContextGraph> {
+      const result = await ContextGraph.create({ enablePolicies: false, enableCapabilities: false });
+      expect(result.ok).toBe(true);
+      if (!result.ok) throw result.error;
+      return result.value;
+    }
+
+    it('restores a backup and continues the provenance chain', async () => {
+      const entity = await client.createEntity({ type: 'person', name: 'Alice' });
+      expect(entity.ok).toBe(true);
+      if (!entity.ok) return;
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'role', value: 'engineer' });
+
+      const backup = await client.backup();
+      expect(backup.ok).toBe(true);
+      if (!backup.ok) return;
+
+      const restoredClient = await freshClient();
+      const restored = await restoredClient.restore(backup.value);
+      expect(restored.ok).toBe(true);
+
+      const found = await restoredClient.getEntity(entity.value.data.id);
+      expect(found.ok && found.value?.data.name).toBe('Alice');
+
+      await restoredClient.addClaim({ subjectId: entity.value.data.id, predicate: 'team', value: 'platform' });
+      const verification = await restoredClient.verifyProvenance();
+      expect(verification.ok && verification.value.valid).toBe(true);
+    });
+
+    it('applies an incremental backup on top of a full one', async () => {
+      await client.createEntity({ type: 'person', name: 'Alice' });
+      const full = await client.backup();
+      expect(full.ok).toBe(true);
+      if (!full.ok) return;
+
+      await client.createEntity({ type: 'person', name: 'Bob' });
+      const increment = await client.backup({ sinceSequence: full.value.sequence });
+      expect(increment.ok).toBe(true);
+      if (!increment.ok) return;
+      expect(increment.value.collections['entities']).toHaveLength(1);
+
+      const restoredClient = await freshClient();
+      expect((await restoredClient.restore(full.value)).ok).toBe(true);
+      expect((await restoredClient.restore(increment.value)).ok).toBe(true);
+      const count = await restoredClient.getStorage().count('entities');
+      expect(count.ok && count.value).toBe(2);
+    });
+
+    it('rejects a backup with a tampered provenance chain', async () => {
+      const entity = await client.createEntity({ type: 'person', name: 'Alice' });
+      expect(entity.ok).toBe(true);
+      if (!entity.ok) return;
+      await client.addClaim({ subjectId: entity.value.data.id, predicate: 'role', value: 'engineer' });
+
+      const backup = await client.backup();
+      expect(backup.ok).toBe(true);
+      if (!backup.ok) return;
+      const provenance = backup.value.collections['provenance']!.map((record) => ({ ...record, actor: 'mallory' }));
+
+      const restoredClient = await freshClient();
+      const restored = await restoredClient.restore({
+        ...backup.value,
+        collections: { ...backup.value.collections, provenance },
+      });
+      expect(restored.ok).toBe(false);
+      const count = await restoredClient.getStorage().count('entities');
+      expect(count.ok && count.value).toBe(0);
+    });
   });
 
   describe('Import/Export Operations', () => {
@@ -556,6 +897,22 @@ describe('ContextGraph SDK', () => {
       }
     });
 
+    it('streams every entity past the first storage page', async () => {
+      for (let i = 0; i < 1100; i++) {
+        await client.createEntity({ type: 'person', name: `Streamed ${i}` });
+      }
+
+      let entities = 0;
+      for await (const record of client.streamExport({ includeEntities: true })) {
+        expect(record.kind).toBe('entity');
+        entities++;
+      }
+      expect(entities).toBeGreaterThanOrEqual(1100);
+
+      const result = await client.exportToJSON({ includeEntities: true });
+      expect(result.ok && result.value.entities.length).toBe(entities);
+    });
+
     it('exports with filtering options', async () => {
       const result = await client.exportToJSON({
         includeEntities: true,
@@ -728,5 +1085,300 @@ company,CSV Import Company,"{}"`;
         expect(result.value.entitiesImported).toBe(0);
       }
     });
+
+    it('rolls back an atomic import when any record fails', async () => {
+      const exportData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        entities: [{
+          id: 'ent_atomic',
+          type: 'atomic',
+          name: 'Atomic',
+          properties: {},
+          createdAt: Date.now(),
+        }],
+        claims: [{ id: 'clm_broken', subjectId: 'ent_atomic' }],
+        agents: [],
+        decisions: [],
+        policies: [],
+        provenance: [],
+      };
+
+      const result = await client.importFromJSON(exportData as unknown as GraphExport, { atomic: true });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.success).toBe(false);
+        expect(result.value.entitiesImported).toBe(0);
+        expect(result.value.errors).toContain('Import rolled back: no records were written');
+      }
+
+      const entity = await client.getEntity('ent_atomic' as EntityId);
+      expect(entity.ok && entity.value).toBeNull();
+    });
+  });
+
+  describe('RDF Import/Export', () => {
+    async function seedGraph(): Promise<{ alice: Entity; acme: Entity }> {
+      const alice = await client.createEntity({ type: 'person', name: 'Alice', properties: { level: 3 } });
+      const acme = await client.createEntity({ type: 'company', name: 'Acme "Corp"' });
+      if (!alice.ok || !acme.ok) throw new Error('Failed to create entities');
+
+      await client.addClaim({
+        subjectId: alice.value.data.id,
+        predicate: 'works_at',
+        value: null,
+        objectId: acme.value.data.id,
+        context: {
+          scope: createScope('hr'),
+          jurisdiction: createJurisdiction('EU'),
+          confidence: createConfidence(0.9),
+          validFrom: createTimestamp(1_700_000_000_000),
+          validUntil: createTimestamp(4_100_000_000_000),
+        },
+        source: { type: 'document', id: 'contract-7' },
+      });
+      await client.addClaim({ subjectId: alice.value.data.id, predicate: 'salary', value: 100000 });
+      await client.addClaim({ subjectId: alice.value.data.id, predicate: 'skills', value: ['typescript', 'rust'] });
+      await client.addClaim({ subjectId: alice.value.data.id, predicate: 'bio', value: 'Line one\nand "two"' });
+      return { alice: alice.value, acme: acme.value };
+    }
+
+    for (const format of ['nt', 'ttl', 'jsonld'] as const) {
+      it(`round-trips entities and qualified claims through ${format}`, async () => {
+        const { alice, acme } = await seedGraph();
+        const exported = await client.exportToRDF(format);
+        expect(exported.ok).toBe(true);
+        if (!exported.ok) return;
+
+        const target = await ContextGraph.create({ enablePolicies: false, enableCapabilities: false });
+        if (!target.ok) throw new Error('Failed to create client');
+        const imported = await target.value.importFromRDF(exported.value, format);
+        expect(imported.ok).toBe(true);
+        if (!imported.ok) return;
+        expect(imported.value.errors).toEqual([]);
+        expect(imported.value.entitiesImported).toBe(2);
+        expect(imported.value.claimsImported).toBe(4);
+
+        const entity = await target.value.getEntity(acme.data.id);
+        expect(entity.ok && entity.value?.data.name).toBe('Acme "Corp"');
+        const person = await target.value.getEntity(alice.data.id);
+        expect(person.ok && person.value?.data.properties).toEqual({ level: 3 });
+
+        const original = await client.getClaims(alice.data.id);
+        const copied = await target.value.getClaims(alice.data.id);
+        if (!original.ok || !copied.ok) throw new Error('Failed to read claims');
+        const shape = (claims: readonly Claim[]): unknown[] =>
+          claims
+            .map(claim => ({
+              id: claim.data.id,
+              predicate: claim.data.predicate,
+              objectId: claim.data.objectId,
+              value: claim.data.objectId !== undefined ? undefined : claim.data.objectValue,
+              context: claim.data.context,
+            }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+        expect(shape(copied.value)).toEqual(shape(original.value));
+      });
+    }
+
+    it('qualifies statements with RDF-star in Turtle and named graphs in JSON-LD', async () => {
+      const { alice, acme } = await seedGraph();
+
+      const turtle = await client.exportToRDF('ttl');
+      expect(turtle.ok).toBe(true);
+      if (turtle.ok) {
+        expect(turtle.value).toContain('@prefix prov: <http://www.w3.org/ns/prov#> .');
+        expect(turtle.value).toContain(`rdf:reifies << entity:${alice.data.id} rel:works_at`);
+        expect(turtle.value).toContain('cg:jurisdiction "EU"');
+        expect(turtle.value).toContain('a prov:Activity');
+      }
+
+      const jsonld = await client.exportToRDF('jsonld', { includeProvenance: false, includeClaims: true });
+      expect(jsonld.ok).toBe(true);
+      if (jsonld.ok) {
+        const document = JSON.parse(jsonld.value) as { '@graph': Record<string, unknown>[] };
+        const claimNode = document['@graph'].find(node => node['cg:scope'] !== undefined);
+        expect(claimNode?.['@graph']).toEqual([
+          { '@id': `entity:${alice.data.id}`, 'rel:works_at': [{ '@id': `entity:${acme.data.id}` }] },
+        ]);
+        expect(document['@graph'].some(node => node['@type'] !== undefined && String(node['@type']).includes('Activity'))).toBe(false);
+      }
+    });
+
+    it('imports foreign RDF-star Turtle with its PROV activity', async () => {
+      const turtle = `
+        @prefix ex: <https://example.org/> .
+        @prefix cg: <https://contextgraph.dev/ns#> .
+        @prefix prov: <http://www.w3.org/ns/prov#> .
+        @prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+        ex:bob a ex:Person ; <http://www.w3.org/2000/01/rdf-schema#label> "Bob"@en ;
+          ex:knows ex:carol , [ ex:name 'Dana' ] .
+        << ex:bob ex:age 42 >> cg:validFrom "2024-01-01T00:00:00Z"^^xsd:dateTime ;
+          prov:wasGeneratedBy ex:census .
+        ex:census a prov:Activity ; cg:sourceType "database" ; cg:sourceId "census-2024" .
+      `;
+
+      const result = await client.importFromRDF(turtle, 'ttl');
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.errors).toEqual([]);
+      expect(result.value.entitiesImported).toBe(3);
+      expect(result.value.claimsImported).toBe(4);
+
+      const claims = await client.getClaims('https://example.org/bob' as EntityId);
+      if (!claims.ok) throw new Error('Failed to read claims');
+      const age = claims.value.find(claim => claim.data.predicate === 'https://example.org/age');
+      expect(age?.data.objectValue).toBe(42);
+      expect(age?.data.context.temporal.start).toBe(Date.parse('2024-01-01T00:00:00Z'));
+      expect(claims.value.filter(claim => claim.data.predicate === 'https://example.org/knows')).toHaveLength(2);
+
+      const provenance = await client.getProvenance(age!.data.provenanceId);
+      expect(provenance.ok && provenance.value?.data).toMatchObject({
+        sourceType: 'database',
+        sourceId: 'census-2024',
+        sourceUri: 'https://example.org/census',
+        action: 'import',
+      });
+
+      const exported = await client.exportToRDF('nt');
+      expect(exported.ok && exported.value).toContain('<https://example.org/bob> <https://example.org/knows> <https://example.org/carol> .');
+    });
+
+    it('honours conflicts and dry runs, and rejects malformed documents', async () => {
+      await seedGraph();
+      const exported = await client.exportToRDF('nt');
+      if (!exported.ok) throw new Error('Failed to export');
+
+      const dryRun = await client.importFromRDF(exported.value, 'nt', { dryRun: true });
+      expect(dryRun.ok && dryRun.value.claimsImported).toBe(4);
+
+      const skipped = await client.importFromRDF(exported.value, 'nt');
+      expect(skipped.ok && skipped.value).toMatchObject({ entitiesImported: 0, claimsImported: 0, skipped: 6 });
+
+      const conflicting = await client.importFromRDF(exported.value, 'nt', { onConflict: 'error' });
+      expect(conflicting.ok && conflicting.value.success).toBe(false);
+
+      const malformed = await client.importFromRDF('<urn:a> <urn:b> "unterminated .', 'nt');
+      expect(malformed.ok).toBe(false);
+      if (!malformed.ok) {
+        expect(malformed.error.message).toContain('Unterminated string');
+      }
+    });
+  });
+
+  describe('Branches', () => {
+    async function seedGraph(): Promise<{ alice: Entity; salary: Claim }> {
+      const alice = await client.createEntity({ type: 'person', name: 'Alice' });
+      if (!alice.ok) throw new Error('Failed to create entity');
+      const salary = await client.addClaim({ subjectId: alice.value.data.id, predicate: 'salary', value: 100000 });
+      if (!salary.ok) throw new Error('Failed to add claim');
+      return { alice: alice.value, salary: salary.value };
+    }
+
+    async function fork(name: string): Promise<ContextGraph> {
+      const branch = await client.fork(name);
+      if (!branch.ok) throw new Error('Failed to fork');
+      return branch.value;
+    }
+
+    it('keeps branch writes out of main until merged', async () => {
+      const { alice } = await seedGraph();
+      const branch = await fork('agent-batch');
+      expect(branch.branchName).toBe('agent-batch');
+      expect(client.listBranches()).toEqual(['agent-batch']);
+
+      const acme = await branch.createEntity({ type: 'company', name: 'Acme' });
+      if (!acme.ok) throw new Error('Failed to create entity');
+      await branch.addClaim({ subjectId: alice.data.id, predicate: 'works_at', value: null, objectId: acme.value.data.id });
+
+      const onBranch = await branch.getClaims(alice.data.id);
+      expect(onBranch.ok && onBranch.value.map((claim) => claim.data.predicate).sort()).toEqual(['salary', 'works_at']);
+      const onMain = await client.getClaims(alice.data.id);
+      expect(onMain.ok && onMain.value.map((claim) => claim.data.predicate)).toEqual(['salary']);
+      const acmeOnMain = await client.getEntity(acme.value.data.id);
+      expect(acmeOnMain.ok && acmeOnMain.value).toBeNull();
+
+      const diff = await branch.branchDiff();
+      expect(diff.ok).toBe(true);
+      if (!diff.ok) return;
+      expect(diff.value.entities.added.map((entity) => entity.data.name)).toEqual(['Acme']);
+      expect(diff.value.claims.added.map((claim) => claim.data.predicate)).toEqual(['works_at']);
+      expect(diff.value.provenance.length).toBeGreaterThan(0);
+      expect(diff.value.conflicts).toEqual([]);
+
+      const merged = await branch.merge({ actor: 'reviewer' });
+      expect(merged.ok).toBe(true);
+      if (!merged.ok) return;
+      expect(merged.value).toMatchObject({ success: true, branch: 'agent-batch', entitiesMerged: 1, claimsMerged: 1 });
+
+      const afterMerge = await client.getClaims(alice.data.id);
+      const worksAt = afterMerge.ok ? afterMerge.value.find((claim) => claim.data.predicate === 'works_at') : undefined;
+      if (worksAt === undefined) throw new Error('Claim was not merged');
+      const provenance = await client.getProvenance(worksAt.data.provenanceId);
+      expect(provenance.ok && provenance.value?.data.metadata['branch']).toBe('agent-batch');
+
+      if (merged.value.provenanceId === undefined) throw new Error('Merge was not recorded');
+      const mergeEntry = await client.getProvenance(merged.value.provenanceId);
+      expect(mergeEntry.ok && mergeEntry.value?.data).toMatchObject({ action: 'approve', actor: 'reviewer', metadata: { operation: 'merge_branch' } });
+      const verified = await client.verifyProvenance();
+      expect(verified.ok && verified.value.valid).toBe(true);
+
+      expect(client.listBranches()).toEqual([]);
+      expect((await branch.merge()).ok).toBe(false);
+    });
+
+    it('shows changed records against the version on main', async () => {
+      const { salary } = await seedGraph();
+      const branch = await fork('retraction');
+      await branch.retractClaim(salary.data.id, 'Outdated');
+
+      const diff = await branch.branchDiff();
+      expect(diff.ok).toBe(true);
+      if (!diff.ok) return;
+      expect(diff.value.claims.added).toEqual([]);
+      expect(diff.value.claims.updated.map(({ before, after }) => [before.data.status, after.data.status])).toEqual([
+        ['active', 'retracted'],
+      ]);
+
+      const merged = await branch.merge();
+      expect(merged.ok && merged.value.success).toBe(true);
+      const claims = await client.getClaims(salary.data.subjectId);
+      expect(claims.ok && claims.value).toEqual([]);
+    });
+
+    it('detects conflicts with changes made on main since the branch wrote', async () => {
+      const { alice } = await seedGraph();
+      const branch = await fork('rename');
+      await branch.updateEntity(alice.data.id, { name: 'Alicia' });
+      await client.updateEntity(alice.data.id, { name: 'Ali' });
+
+      const aborted = await branch.merge();
+      expect(aborted.ok).toBe(true);
+      if (!aborted.ok) return;
+      expect(aborted.value.success).toBe(false);
+      expect(aborted.value.conflicts.map((conflict) => [conflict.collection, conflict.id])).toEqual([['entities', alice.data.id]]);
+      const unchanged = await client.getEntity(alice.data.id);
+      expect(unchanged.ok && unchanged.value?.data.name).toBe('Ali');
+
+      const forced = await branch.merge({ onConflict: 'keep_branch' });
+      expect(forced.ok && forced.value.success).toBe(true);
+      const renamed = await client.getEntity(alice.data.id);
+      expect(renamed.ok && renamed.value?.data.name).toBe('Alicia');
+    });
+
+    it('discards a branch without touching main', async () => {
+      await seedGraph();
+      const branch = await fork('scratch');
+      await branch.createEntity({ type: 'person', name: 'Bob' });
+
+      const discarded = await branch.discard();
+      expect(discarded.ok).toBe(true);
+      const stats = await client.getStats();
+      expect(stats.ok && stats.value.entities).toBe(1);
+      expect(client.getBranch('scratch')).toBeUndefined();
+      expect((await client.fork('scratch')).ok).toBe(true);
+      expect((await client.fork('scratch')).ok).toBe(false);
+    });
   });
 });
@@ -11,7 +11,10 @@ export type {
   ContextOptions,
   QueryOptions,
   CreateEntityInput,
+  UpdateEntityInput,
   CreateClaimInput,
+  ClaimSourceInput,
+  AnnotateClaimInput,
   CreateAgentInput,
   ExecuteActionInput,
   CreatePolicyInput,
@@ -20,10 +23,13 @@ export type {
   SDKEvent,
   EventHandler,
   AuditEntry,
+  StatsOptions,
+  SystemStats,
   // Import/Export types
   ExportFormat,
   ExportOptions,
   GraphExport,
+  ExportRecord,
   EntityExport,
   ClaimExport,
   AgentExport,
@@ -32,18 +38,84 @@ export type {
   ProvenanceExport,
   ImportOptions,
   ImportResult,
+  RdfExportOptions,
+  RdfImportOptions,
+  // Branch types
+  BranchChanges,
+  BranchConflict,
+  BranchDiff,
+  BranchMergeOptions,
+  BranchMergeResult,
 } from './types.js';
 
+// RDF syntaxes and the mapping of the graph to RDF
+export { parseRdf, serializeRdf, RDF_FORMATS, NAMESPACES } from './rdf.js';
+export type {
+  RdfFormat,
+  RdfWriteOptions,
+  Quad,
+  RdfTerm,
+  RdfSubject,
+  NamedNode,
+  BlankNode,
+  Literal,
+  QuotedTriple,
+} from './rdf.js';
+export { RdfMapping } from './rdf-mapping.js';
+export type { RdfMappingOptions, QualifierStyle } from './rdf-mapping.js';
+
 // Re-export commonly used types from core packages
 export type { Result, EntityId, Timestamp, Scope, Jurisdiction, Confidence } from '@contextgraph/core';
-export type { Entity, Claim } from '@contextgraph/ckg';
+export type {
+  Entity,
+  Claim,
+  EntityMergeResult,
+  PatternQueryResult,
+  SearchHit,
+  SearchOptions,
+  SimilarityMatch,
+  Embedder,
+  EntityDimension,
+  ClaimDimension,
+  ProvenanceDimension,
+  AggregationOptions,
+  Belief,
+  BeliefValue,
+  BeliefSupport,
+  SourceReliability,
+  TruthDiscoveryOptions,
+  Annotation,
+  AnnotationKind,
+  AnnotationQuery,
+  DiffOptions,
+  GraphDiff,
+  ClaimChange,
+  ClaimChangeReason,
+} from '@contextgraph/ckg';
 export type { Agent } from '@contextgraph/agent';
 export type { Decision } from '@contextgraph/dtg';
 export type { Policy } from '@contextgraph/policy';
-export type { ProvenanceEntry, ChainVerificationResult } from '@contextgraph/provenance';
+export type {
+  ProvenanceEntry,
+  ChainVerificationResult,
+  HashAlgorithm,
+  HashMigrationOptions,
+  HashMigrationResult,
+  ActorKey,
+  ActorKeyRegistry,
+  ProvenanceSigner,
+  EntrySignature,
+} from '@contextgraph/provenance';
 export type { ExecutionResult, ActionHandler } from '@contextgraph/execution';
 export type { AssembledContext } from '@contextgraph/retrieval';
-export type { StorageInterface } from '@contextgraph/storage';
+export type {
+  StorageInterface,
+  StorageSnapshot,
+  SnapshotOptions,
+  RestoreResult,
+  AggregateGroup,
+  TimeBucket,
+} from '@contextgraph/storage';
 
 // Re-export useful factories from core
 export {
@@ -54,3 +126,6 @@ export {
   ok,
   err,
 } from '@contextgraph/core';
+
+// Re-export the local embedder for similarity search
+export { HashedNgramEmbedder } from '@contextgraph/ckg';
@@ -0,0 +1,559 @@
+/**
+ * Graph to RDF Mapping
+ *
+ * Maps entities, claims and provenance to RDF and back. Entities, claims
+ * and provenance entries get IRIs under a base IRI, predicates become
+ * relation IRIs in an ontology vocabulary, and provenance entries become
+ * PROV activities. A claim's statement is asserted as a triple and
+ * qualified by a claim node carrying its validity, jurisdiction, scope,
+ * confidence and provenance; the node either reifies the statement as a
+ * quoted triple (RDF-star) or names the graph holding it.
+ */
+
+import type { Entity, Claim } from '@contextgraph/ckg';
+import type { ProvenanceEntry } from '@contextgraph/provenance';
+import {
+  type Quad,
+  type NamedNode,
+  type BlankNode,
+  type Literal,
+  type RdfSubject,
+  type RdfTerm,
+  NAMESPACES,
+  namedNode,
+  literal,
+  quotedTriple,
+  termKey,
+  quadKey,
+} from './rdf.js';
+
+/**
+ * How a claim node is tied to its statement
+ * - `rdf-star`: the node reifies the statement as a quoted triple
+ * - `named-graph`: the node names a graph holding the statement
+ */
+export type QualifierStyle = 'rdf-star' | 'named-graph';
+
+/**
+ * IRIs of the graph in RDF
+ */
+export interface RdfMappingOptions {
+  /** Base of entity, type, claim and provenance IRIs (default: `urn:contextgraph:`) */
+  readonly baseIri?: string;
+  /** Namespace of predicate IRIs (default: `<baseIri>ontology/`) */
+  readonly vocabulary?: string;
+}
+
+/**
+ * Entity read from RDF
+ */
+export interface RdfEntity {
+  /** Key of the node, for claims to refer to */
+  readonly key: string;
+  /** Entity ID, or undefined for a blank node */
+  readonly id: string | undefined;
+  readonly type: string;
+  readonly name: string | undefined;
+  readonly aliases: readonly string[];
+  readonly properties: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Claim read from RDF
+ */
+export interface RdfClaim {
+  /** Claim ID, or undefined when the statement had no claim node of its own */
+  readonly id: string | undefined;
+  /** Key of the subject entity */
+  readonly subject: string;
+  readonly predicate: string;
+  /** Key of the object entity, when the object is not a literal */
+  readonly object: string | undefined;
+  readonly value: unknown;
+  readonly validFrom: number | undefined;
+  readonly validUntil: number | undefined;
+  readonly jurisdiction: string | undefined;
+  readonly scope: string | undefined;
+  readonly confidence: number | undefined;
+  /** IRI of the activity that generated the claim */
+  readonly activity: string | undefined;
+}
+
+/**
+ * PROV activity read from RDF
+ */
+export interface RdfActivity {
+  readonly iri: string;
+  readonly action: string | undefined;
+  readonly sourceType: string | undefined;
+  readonly sourceId: string | undefined;
+  readonly sourceUri: string | undefined;
+  readonly startedAt: number | undefined;
+}
+
+/**
+ * Graph read from RDF, with the problems found reading it
+ */
+export interface RdfDataset {
+  readonly entities: readonly RdfEntity[];
+  readonly claims: readonly RdfClaim[];
+  readonly activities: ReadonlyMap<string, RdfActivity>;
+  readonly errors: readonly string[];
+}
+
+const { rdf, rdfs, xsd, prov, cg } = NAMESPACES;
+
+const TERMS = {
+  type: namedNode(`${rdf}type`),
+  reifies: namedNode(`${rdf}reifies`),
+  label: namedNode(`${rdfs}label`),
+  activity: namedNode(`${prov}Activity`),
+  generatedBy: namedNode(`${prov}wasGeneratedBy`),
+  generatedAt: namedNode(`${prov}generatedAtTime`),
+  startedAt: namedNode(`${prov}startedAtTime`),
+  associatedWith: namedNode(`${prov}wasAssociatedWith`),
+  claim: namedNode(`${cg}Claim`),
+  alias: namedNode(`${cg}alias`),
+  properties: namedNode(`${cg}properties`),
+  validFrom: namedNode(`${cg}validFrom`),
+  validUntil: namedNode(`${cg}validUntil`),
+  jurisdiction: namedNode(`${cg}jurisdiction`),
+  scope: namedNode(`${cg}scope`),
+  confidence: namedNode(`${cg}confidence`),
+  action: namedNode(`${cg}action`),
+  sourceType: namedNode(`${cg}sourceType`),
+  sourceId: namedNode(`${cg}sourceId`),
+  sourceUri: namedNode(`${cg}sourceUri`),
+  hash: namedNode(`${cg}hash`),
+  previousHash: namedNode(`${cg}previousHash`),
+};
+
+/** Predicates describing an entity rather than stating claims about it */
+const ENTITY_PREDICATES = new Set([TERMS.type.value, TERMS.label.value, TERMS.alias.value, TERMS.properties.value]);
+
+const DEFAULT_ENTITY_TYPE = 'resource';
+
+const ABSOLUTE_IRI = /^[A-Za-z][A-Za-z0-9+.-]*:[^\s<>"{}|^`\\]+$/;
+
+/**
+ * Mapping between the graph and RDF under a base IRI and vocabulary
+ */
+export class RdfMapping {
+  readonly baseIri: string;
+  readonly vocabulary: string;
+
+  constructor(options: RdfMappingOptions = {}) {
+    this.baseIri = options.baseIri ?? 'urn:contextgraph:';
+    this.vocabulary = options.vocabulary ?? `${this.baseIri}ontology/`;
+  }
+
+  /**
+   * Prefixes for compact IRIs
+   */
+  prefixes(): Record<string, string> {
+    return {
+      ...NAMESPACES,
+      rel: this.vocabulary,
+      entity: this.namespace('entity'),
+      type: this.namespace('type'),
+      claim: this.namespace('claim'),
+      activity: this.namespace('provenance'),
+      agent: this.namespace('agent'),
+    };
+  }
+
+  entityIri(id: string): NamedNode {
+    return this.iri(id, this.namespace('entity'));
+  }
+
+  claimIri(id: string): NamedNode {
+    return namedNode(`${this.namespace('claim')}${encodeURIComponent(id)}`);
+  }
+
+  provenanceIri(id: string): NamedNode {
+    return namedNode(`${this.namespace('provenance')}${encodeURIComponent(id)}`);
+  }
+
+  predicateIri(predicate: string): NamedNode {
+    return this.iri(predicate, this.vocabulary);
+  }
+
+  typeIri(type: string): NamedNode {
+    return this.iri(type, this.namespace('type'));
+  }
+
+  /**
+   * Type, label, aliases and properties of an entity
+   */
+  entityQuads(entity: Entity): Quad[] {
+    const subject = this.entityIri(entity.data.id);
+    const quads: Quad[] = [
+      { subject, predicate: TERMS.type, object: this.typeIri(entity.data.type) },
+    ];
+    if (entity.data.name !== undefined) {
+      quads.push({ subject, predicate: TERMS.label, object: literal(entity.data.name) });
+    }
+    for (const alias of entity.data.aliases ?? []) {
+      quads.push({ subject, predicate: TERMS.alias, object: literal(alias) });
+    }
+    if (Object.keys(entity.data.properties).length > 0) {
+      quads.push({ subject, predicate: TERMS.properties, object: literal(JSON.stringify(entity.data.properties), `${rdf}JSON`) });
+    }
+    return quads;
+  }
+
+  /**
+   * Statement of a claim and the claim node qualifying it
+   */
+  claimQuads(claim: Claim, style: QualifierStyle): Quad[] {
+    const { data } = claim;
+    const statement = {
+      subject: this.entityIri(data.subjectId),
+      predicate: this.predicateIri(data.predicate),
+      object: data.objectId !== undefined ? this.entityIri(data.objectId) : valueLiteral(data.objectValue),
+    };
+    const node = this.claimIri(data.id);
+    const quads: Quad[] = style === 'rdf-star'
+      ? [statement, { subject: node, predicate: TERMS.reifies, object: quotedTriple(statement.subject, statement.predicate, statement.object) }]
+      : [{ ...statement, graph: node }];
+
+    const { temporal, jurisdiction, scope, confidence } = data.context;
+    quads.push(
+      { subject: node, predicate: TERMS.type, object: TERMS.claim },
+      { subject: node, predicate: TERMS.validFrom, object: dateTime(temporal.start) }
+    );
+    if (temporal.end !== null) {
+      quads.push({ subject: node, predicate: TERMS.validUntil, object: dateTime(temporal.end) });
+    }
+    if (jurisdiction !== undefined) {
+      quads.push({ subject: node, predicate: TERMS.jurisdiction, object: literal(jurisdiction) });
+    }
+    if (scope !== undefined) {
+      quads.push({ subject: node, predicate: TERMS.scope, object: literal(scope) });
+    }
+    if (confidence !== undefined) {
+      quads.push({ subject: node, predicate: TERMS.confidence, object: literal(String(confidence), `${xsd}double`) });
+    }
+    quads.push(
+      { subject: node, predicate: TERMS.generatedBy, object: this.provenanceIri(data.provenanceId) },
+      { subject: node, predicate: TERMS.generatedAt, object: dateTime(data.createdAt) }
+    );
+    return quads;
+  }
+
+  /**
+   * Provenance entry as a PROV activity
+   */
+  provenanceQuads(entry: ProvenanceEntry): Quad[] {
+    const { data } = entry;
+    const subject = this.provenanceIri(data.id);
+    const quads: Quad[] = [
+      { subject, predicate: TERMS.type, object: TERMS.activity },
+      { subject, predicate: TERMS.startedAt, object: dateTime(data.timestamp) },
+      { subject, predicate: TERMS.action, object: literal(data.action) },
+      { subject, predicate: TERMS.sourceType, object: literal(data.sourceType) },
+    ];
+    if (data.sourceId !== undefined) {
+      quads.push({ subject, predicate: TERMS.sourceId, object: literal(data.sourceId) });
+    }
+    if (data.sourceUri !== undefined) {
+      quads.push({ subject, predicate: TERMS.sourceUri, object: literal(data.sourceUri, `${xsd}anyURI`) });
+    }
+    if (data.actor !== undefined) {
+      quads.push({ subject, predicate: TERMS.associatedWith, object: namedNode(`${this.namespace('agent')}${encodeURIComponent(data.actor)}`) });
+    }
+    quads.push({ subject, predicate: TERMS.hash, object: literal(data.hash) });
+    if (data.previousHash !== undefined) {
+      quads.push({ subject, predicate: TERMS.previousHash, object: literal(data.previousHash) });
+    }
+    return quads;
+  }
+
+  /**
+   * Read entities, claims and activities from quads
+   *
+   * A claim node is anything typed `cg:Claim`, reifying a quoted triple,
+   * naming a graph, or a quoted triple that is itself qualified. Triples
+   * in the default graph that no claim node covers become claims of their
+   * own, except those describing entities (type, label, aliases and
+   * properties), claim nodes or activities. IRIs outside the base IRI and
+   * vocabulary are kept whole as entity IDs, types and predicates.
+   */
+  read(quads: readonly Quad[]): RdfDataset {
+    const errors: string[] = [];
+    const bySubject = new Map<string, Quad[]>();
+    const claimNodes = new Map<string, RdfSubject>();
+    const statements = new Map<string, Quad[]>();
+    const activities = new Set<string>();
+
+    const addStatement = (node: RdfSubject, statement: Quad): void => {
+      const key = termKey(node);
+      const existing = statements.get(key) ?? [];
+      claimNodes.set(key, node);
+      if (!existing.some(other => quadKey(other) === quadKey(statement))) {
+        statements.set(key, [...existing, statement]);
+      }
+    };
+
+    for (const quad of quads) {
+      const key = termKey(quad.subject);
+      bySubject.set(key, [...(bySubject.get(key) ?? []), quad]);
+
+      if (quad.graph !== undefined) {
+        addStatement(quad.graph, { subject: quad.subject, predicate: quad.predicate, object: quad.object });
+      } else if (quad.predicate.value === TERMS.reifies.value && quad.object.termType === 'Triple') {
+        addStatement(quad.subject, quad.object);
+      } else if (quad.subject.termType === 'Triple') {
+        addStatement(quad.subject, quad.subject);
+      } else if (quad.predicate.value === TERMS.type.value && quad.object.termType === 'NamedNode') {
+        if (quad.object.value === TERMS.claim.value) {
+          claimNodes.set(key, quad.subject);
+        } else if (quad.object.value === TERMS.activity.value) {
+          activities.add(key);
+        }
+      }
+      if (quad.predicate.value === TERMS.generatedBy.value && quad.object.termType !== 'Literal') {
+        activities.add(termKey(quad.object));
+      }
+    }
+
+    // Statements already qualified by a claim node are not claims again
+    const qualified = new Set([...statements.values()].flat().map(statement => termKey(quotedTriple(statement.subject, statement.predicate, statement.object))));
+
+    const entities = new Map<string, RdfEntity>();
+    const entityOf = (term: RdfTerm): string | undefined => {
+      if (term.termType !== 'NamedNode' && term.termType !== 'BlankNode') {
+        return undefined;
+      }
+      const key = termKey(term);
+      if (!entities.has(key)) {
+        entities.set(key, this.readEntity(term, bySubject.get(key) ?? []));
+      }
+      return key;
+    };
+
+    const claims: RdfClaim[] = [];
+    const addClaim = (statement: Quad, id: string | undefined, qualifiers: readonly Quad[]): void => {
+      const subject = entityOf(statement.subject);
+      if (subject === undefined) {
+        errors.push(`Statement subject must be an IRI or blank node: ${termKey(statement.subject)}`);
+        return;
+      }
+      const object = statement.object.termType === 'Literal' ? undefined : entityOf(statement.object);
+      if (statement.object.termType === 'Triple') {
+        errors.push(`Statement object cannot be a quoted triple: ${termKey(statement.object)}`);
+        return;
+      }
+      claims.push({
+        id,
+        subject,
+        predicate: this.localName(statement.predicate.value, this.vocabulary),
+        object,
+        value: statement.object.termType === 'Literal' ? literalValue(statement.object) : undefined,
+        ...this.readQualifiers(qualifiers, errors),
+      });
+    };
+
+    for (const [key, node] of claimNodes) {
+      const nodeStatements = statements.get(key) ?? [];
+      if (nodeStatements.length === 0) {
+        errors.push(`Claim ${termKey(node)} has no statement`);
+        continue;
+      }
+      const id = nodeStatements.length === 1 && node.termType === 'NamedNode'
+        ? this.localName(node.value, this.namespace('claim'))
+        : undefined;
+      for (const statement of nodeStatements) {
+        addClaim(statement, id, bySubject.get(key) ?? []);
+      }
+    }
+
+    for (const quad of quads) {
+      const subjectKey = termKey(quad.subject);
+      if (
+        quad.graph !== undefined ||
+        quad.subject.termType === 'Triple' ||
+        claimNodes.has(subjectKey) ||
+        activities.has(subjectKey)
+      ) {
+        continue;
+      }
+      if (ENTITY_PREDICATES.has(quad.predicate.value)) {
+        entityOf(quad.subject);
+        continue;
+      }
+      if (!qualified.has(termKey(quotedTriple(quad.subject, quad.predicate, quad.object)))) {
+        addClaim(quad, undefined, []);
+      }
+    }
+
+    const activityMap = new Map<string, RdfActivity>();
+    for (const key of activities) {
+      const activity = this.readActivity(bySubject.get(key) ?? []);
+      if (activity !== undefined) {
+        activityMap.set(activity.iri, activity);
+      }
+    }
+
+    return { entities: [...entities.values()], claims, activities: activityMap, errors };
+  }
+
+  private readEntity(node: NamedNode | BlankNode, quads: readonly Quad[]): RdfEntity {
+    let type: string | undefined;
+    let name: string | undefined;
+    const aliases: string[] = [];
+    let properties: Record<string, unknown> = {};
+
+    for (const { predicate, object } of quads) {
+      if (predicate.value === TERMS.type.value && object.termType === 'NamedNode') {
+        type ??= this.localName(object.value, this.namespace('type'));
+      } else if (object.termType === 'Literal') {
+        if (predicate.value === TERMS.label.value) {
+          name ??= object.value;
+        } else if (predicate.value === TERMS.alias.value) {
+          aliases.push(object.value);
+        } else if (predicate.value === TERMS.properties.value) {
+          const value = literalValue(object);
+          if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+            properties = { ...properties, ...(value as Record<string, unknown>) };
+          }
+        }
+      }
+    }
+
+    return {
+      key: termKey(node),
+      id: node.termType === 'NamedNode' ? this.localName(node.value, this.namespace('entity')) : undefined,
+      type: type ?? DEFAULT_ENTITY_TYPE,
+      name,
+      aliases,
+      properties,
+    };
+  }
+
+  private readQualifiers(quads: readonly Quad[], errors: string[]): Omit<RdfClaim, 'id' | 'subject' | 'predicate' | 'object' | 'value'> {
+    const first = (predicate: NamedNode): RdfTerm | undefined =>
+      quads.find(quad => quad.predicate.value === predicate.value && quad.graph === undefined)?.object;
+    const text = (predicate: NamedNode): string | undefined => {
+      const term = first(predicate);
+      return term?.termType === 'Literal' ? term.value : undefined;
+    };
+    const time = (predicate: NamedNode): number | undefined => {
+      const value = text(predicate);
+      if (value === undefined) {
+        return undefined;
+      }
+      const parsed = Date.parse(value);
+      if (Number.isNaN(parsed)) {
+        errors.push(`Invalid date for ${predicate.value}: ${value}`);
+        return undefined;
+      }
+      return parsed;
+    };
+    const confidence = text(TERMS.confidence);
+    const activity = first(TERMS.generatedBy);
+
+    return {
+      validFrom: time(TERMS.validFrom),
+      validUntil: time(TERMS.validUntil),
+      jurisdiction: text(TERMS.jurisdiction),
+      scope: text(TERMS.scope),
+      confidence: confidence !== undefined ? Number(confidence) : undefined,
+      activity: activity?.termType === 'NamedNode' ? activity.value : undefined,
+    };
+  }
+
+  private readActivity(quads: readonly Quad[]): RdfActivity | undefined {
+    const node = quads[0]?.subject;
+    if (node?.termType !== 'NamedNode') {
+      return undefined;
+    }
+    const text = (predicate: NamedNode): string | undefined => {
+      const term = quads.find(quad => quad.predicate.value === predicate.value)?.object;
+      return term?.termType === 'Literal' ? term.value : undefined;
+    };
+    const startedAt = text(TERMS.startedAt);
+    return {
+      iri: node.value,
+      action: text(TERMS.action),
+      sourceType: text(TERMS.sourceType),
+      sourceId: text(TERMS.sourceId),
+      sourceUri: text(TERMS.sourceUri),
+      startedAt: startedAt !== undefined && !Number.isNaN(Date.parse(startedAt)) ? Date.parse(startedAt) : undefined,
+    };
+  }
+
+  private namespace(kind: string): string {
+    return `${this.baseIri}${kind}/`;
+  }
+
+  /**
+   * IRI for a name in a namespace; names that are IRIs already, such as
+   * those read from foreign RDF, stand for themselves
+   */
+  private iri(name: string, namespace: string): NamedNode {
+    return namedNode(ABSOLUTE_IRI.test(name) ? name : `${namespace}${encodeURIComponent(name)}`);
+  }
+
+  private localName(iri: string, namespace: string): string {
+    if (!iri.startsWith(namespace)) {
+      return iri;
+    }
+    try {
+      return decodeURIComponent(iri.slice(namespace.length));
+    } catch {
+      return iri;
+    }
+  }
+}
+
+/**
+ * Literal for a claim value: strings, integers, numbers and booleans as
+ * XSD literals, anything else as an `rdf:JSON` literal
+ */
+export function valueLiteral(value: unknown): Literal {
+  if (typeof value === 'string') {
+    return literal(value);
+  }
+  if (typeof value === 'boolean') {
+    return literal(String(value), `${xsd}boolean`);
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return literal(String(value), Number.isSafeInteger(value) ? `${xsd}integer` : `${xsd}double`);
+  }
+  return literal(JSON.stringify(value ?? null), `${rdf}JSON`);
+}
+
+/**
+ * Value of a literal, the inverse of `valueLiteral`; other datatypes are
+ * read as their lexical form
+ */
+export function literalValue(term: Literal): unknown {
+  const datatype = term.datatype.startsWith(xsd) ? term.datatype.slice(xsd.length) : term.datatype;
+  switch (datatype) {
+    case 'boolean':
+      return term.value === 'true' || term.value === '1';
+    case 'integer':
+    case 'int':
+    case 'long':
+    case 'short':
+    case 'decimal':
+    case 'double':
+    case 'float': {
+      const value = Number(term.value);
+      return Number.isNaN(value) && term.value !== 'NaN' ? term.value : value;
+    }
+    case `${rdf}JSON`:
+      try {
+        return JSON.parse(term.value) as unknown;
+      } catch {
+        return term.value;
+      }
+    default:
+      return term.value;
+  }
+}
+
+function dateTime(timestamp: number): Literal {
+  return literal(new Date(timestamp).toISOString(), `${xsd}dateTime`);
+}
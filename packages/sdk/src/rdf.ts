@@ -0,0 +1,974 @@
+/**
+ * RDF Syntaxes
+ *
+ * Reads and writes RDF as N-Triples, Turtle and JSON-LD. N-Triples and
+ * Turtle may quote a triple as a term (RDF-star); JSON-LD has no quoted
+ * triples, so it carries named graphs instead, and neither line-based
+ * syntax carries named graphs. Only what graph exchange needs is covered:
+ * Turtle collections, JSON-LD lists, reverse properties and remote
+ * contexts are rejected.
+ */
+
+import { type Result, ok, err, ValidationError } from '@contextgraph/core';
+
+// ============================================================================
+// Terms
+// ============================================================================
+
+export interface NamedNode {
+  readonly termType: 'NamedNode';
+  readonly value: string;
+}
+
+export interface BlankNode {
+  readonly termType: 'BlankNode';
+  readonly value: string;
+}
+
+export interface Literal {
+  readonly termType: 'Literal';
+  /** Lexical form */
+  readonly value: string;
+  /** Datatype IRI, `rdf:langString` when the literal has a language */
+  readonly datatype: string;
+  readonly language?: string;
+}
+
+/**
+ * Triple used as a term (RDF-star)
+ */
+export interface QuotedTriple {
+  readonly termType: 'Triple';
+  readonly subject: RdfSubject;
+  readonly predicate: NamedNode;
+  readonly object: RdfTerm;
+}
+
+export type RdfSubject = NamedNode | BlankNode | QuotedTriple;
+export type RdfTerm = RdfSubject | Literal;
+
+/**
+ * Triple, in the default graph unless `graph` names another
+ */
+export interface Quad {
+  readonly subject: RdfSubject;
+  readonly predicate: NamedNode;
+  readonly object: RdfTerm;
+  readonly graph?: NamedNode | BlankNode;
+}
+
+/**
+ * RDF syntax: N-Triples, Turtle or JSON-LD
+ */
+export type RdfFormat = 'nt' | 'ttl' | 'jsonld';
+
+export const RDF_FORMATS: readonly RdfFormat[] = ['nt', 'ttl', 'jsonld'];
+
+/**
+ * Namespaces of the vocabularies the graph mapping uses
+ */
+export const NAMESPACES = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  prov: 'http://www.w3.org/ns/prov#',
+  cg: 'https://contextgraph.dev/ns#',
+} as const;
+
+const RDF_TYPE = `${NAMESPACES.rdf}type`;
+const RDF_LANG_STRING = `${NAMESPACES.rdf}langString`;
+const RDF_JSON = `${NAMESPACES.rdf}JSON`;
+const XSD_STRING = `${NAMESPACES.xsd}string`;
+const XSD_BOOLEAN = `${NAMESPACES.xsd}boolean`;
+const XSD_INTEGER = `${NAMESPACES.xsd}integer`;
+const XSD_DECIMAL = `${NAMESPACES.xsd}decimal`;
+const XSD_DOUBLE = `${NAMESPACES.xsd}double`;
+
+export function namedNode(value: string): NamedNode {
+  return { termType: 'NamedNode', value };
+}
+
+export function blankNode(value: string): BlankNode {
+  return { termType: 'BlankNode', value };
+}
+
+export function literal(value: string, datatype: string = XSD_STRING, language?: string): Literal {
+  return language !== undefined
+    ? { termType: 'Literal', value, datatype: RDF_LANG_STRING, language: language.toLowerCase() }
+    : { termType: 'Literal', value, datatype };
+}
+
+export function quotedTriple(subject: RdfSubject, predicate: NamedNode, object: RdfTerm): QuotedTriple {
+  return { termType: 'Triple', subject, predicate, object };
+}
+
+/**
+ * Key identifying a term, equal for equal terms
+ */
+export function termKey(term: RdfTerm): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${term.value}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      return `${JSON.stringify(term.value)}${term.language !== undefined ? `@${term.language}` : `^^<${term.datatype}>`}`;
+    case 'Triple':
+      return `<< ${termKey(term.subject)} ${termKey(term.predicate)} ${termKey(term.object)} >>`;
+  }
+}
+
+/**
+ * Key identifying a quad, equal for equal quads
+ */
+export function quadKey(quad: Quad): string {
+  const triple = `${termKey(quad.subject)} ${termKey(quad.predicate)} ${termKey(quad.object)}`;
+  return quad.graph !== undefined ? `${triple} ${termKey(quad.graph)}` : triple;
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Options for writing RDF
+ */
+export interface RdfWriteOptions {
+  /** Prefixes for compact IRIs in Turtle and JSON-LD, by name */
+  readonly prefixes?: Readonly<Record<string, string>>;
+  /** Indent JSON-LD output */
+  readonly prettyPrint?: boolean;
+}
+
+/**
+ * Write quads in an RDF syntax, leaving out duplicates
+ */
+export function serializeRdf(
+  quads: readonly Quad[],
+  format: RdfFormat,
+  options: RdfWriteOptions = {}
+): Result<string, ValidationError> {
+  const unique = dedupe(quads);
+  switch (format) {
+    case 'nt':
+      return writeNTriples(unique);
+    case 'ttl':
+      return writeTurtle(unique, options.prefixes ?? {});
+    case 'jsonld':
+      return writeJsonLd(unique, options.prefixes ?? {}, options.prettyPrint === true);
+  }
+}
+
+function dedupe(quads: readonly Quad[]): Quad[] {
+  const seen = new Set<string>();
+  return quads.filter(quad => {
+    const key = quadKey(quad);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function writeNTriples(quads: readonly Quad[]): Result<string, ValidationError> {
+  const lines: string[] = [];
+  for (const quad of quads) {
+    if (quad.graph !== undefined) {
+      return err(new ValidationError('N-Triples cannot carry named graphs', 'graph', 'NAMED_GRAPH'));
+    }
+    lines.push(`${writeTerm(quad.subject, {})} ${writeTerm(quad.predicate, {})} ${writeTerm(quad.object, {})} .`);
+  }
+  return ok(lines.length > 0 ? `${lines.join('\n')}\n` : '');
+}
+
+function writeTurtle(quads: readonly Quad[], prefixes: Readonly<Record<string, string>>): Result<string, ValidationError> {
+  const bySubject = new Map<string, { subject: RdfSubject; predicates: Map<string, { predicate: NamedNode; objects: RdfTerm[] }> }>();
+  for (const quad of quads) {
+    if (quad.graph !== undefined) {
+      return err(new ValidationError('Turtle cannot carry named graphs', 'graph', 'NAMED_GRAPH'));
+    }
+    const subjectKey = termKey(quad.subject);
+    let group = bySubject.get(subjectKey);
+    if (group === undefined) {
+      group = { subject: quad.subject, predicates: new Map() };
+      bySubject.set(subjectKey, group);
+    }
+    let objects = group.predicates.get(quad.predicate.value);
+    if (objects === undefined) {
+      objects = { predicate: quad.predicate, objects: [] };
+      group.predicates.set(quad.predicate.value, objects);
+    }
+    objects.objects.push(quad.object);
+  }
+
+  const lines = Object.entries(prefixes).map(([name, iri]) => `@prefix ${name}: <${escapeIri(iri)}> .`);
+  for (const { subject, predicates } of bySubject.values()) {
+    lines.push('');
+    const statements = [...predicates.values()].map(({ predicate, objects }) => {
+      const verb = predicate.value === RDF_TYPE ? 'a' : writeTerm(predicate, prefixes);
+      return `${verb} ${objects.map(object => writeTerm(object, prefixes)).join(', ')}`;
+    });
+    lines.push(`${writeTerm(subject, prefixes)} ${statements.join(' ;\n    ')} .`);
+  }
+  return ok(`${lines.join('\n')}\n`);
+}
+
+function writeTerm(term: RdfTerm, prefixes: Readonly<Record<string, string>>): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return compactIri(term.value, prefixes) ?? `<${escapeIri(term.value)}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal': {
+      const lexical = `"${escapeString(term.value)}"`;
+      if (term.language !== undefined) {
+        return `${lexical}@${term.language}`;
+      }
+      if (term.datatype === XSD_STRING) {
+        return lexical;
+      }
+      return `${lexical}^^${writeTerm(namedNode(term.datatype), prefixes)}`;
+    }
+    case 'Triple':
+      return `<< ${writeTerm(term.subject, prefixes)} ${writeTerm(term.predicate, prefixes)} ${writeTerm(term.object, prefixes)} >>`;
+  }
+}
+
+const LOCAL_NAME = /^[A-Za-z0-9_][A-Za-z0-9_-]*$/;
+
+function compactIri(iri: string, prefixes: Readonly<Record<string, string>>): string | undefined {
+  for (const [name, namespace] of Object.entries(prefixes)) {
+    if (iri.startsWith(namespace)) {
+      const local = iri.slice(namespace.length);
+      if (LOCAL_NAME.test(local)) {
+        return `${name}:${local}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+function escapeIri(iri: string): string {
+  return [...iri]
+    .map(char => (char <= ' ' || '<>"{}|^`\\'.includes(char)
+      ? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+      : char))
+    .join('');
+}
+
+function escapeString(value: string): string {
+  return value.replace(/[\\"\n\r\t]/g, char => {
+    switch (char) {
+      case '\n':
+        return '\\n';
+      case '\r':
+        return '\\r';
+      case '\t':
+        return '\\t';
+      default:
+        return `\\${char}`;
+    }
+  });
+}
+
+function writeJsonLd(
+  quads: readonly Quad[],
+  prefixes: Readonly<Record<string, string>>,
+  prettyPrint: boolean
+): Result<string, ValidationError> {
+  type NodeObject = Record<string, unknown[] | string>;
+  const nodes = new Map<string, NodeObject>();
+  const graphs = new Map<string, Map<string, NodeObject>>();
+
+  const compact = (iri: string): string => compactIri(iri, prefixes) ?? iri;
+  const idOf = (term: NamedNode | BlankNode): string =>
+    term.termType === 'BlankNode' ? `_:${term.value}` : compact(term.value);
+  const nodeIn = (map: Map<string, NodeObject>, id: string): NodeObject => {
+    let node = map.get(id);
+    if (node === undefined) {
+      node = { '@id': id };
+      map.set(id, node);
+    }
+    return node;
+  };
+
+  for (const quad of quads) {
+    if (quad.subject.termType === 'Triple' || quad.object.termType === 'Triple') {
+      return err(new ValidationError('JSON-LD cannot carry quoted triples', 'object', 'QUOTED_TRIPLE'));
+    }
+    let target = nodes;
+    if (quad.graph !== undefined) {
+      const graphId = idOf(quad.graph);
+      nodeIn(nodes, graphId);
+      let graph = graphs.get(graphId);
+      if (graph === undefined) {
+        graph = new Map();
+        graphs.set(graphId, graph);
+      }
+      target = graph;
+    }
+
+    const node = nodeIn(target, idOf(quad.subject));
+    if (quad.predicate.value === RDF_TYPE && quad.object.termType === 'NamedNode') {
+      const types = (node['@type'] ?? []) as unknown[];
+      node['@type'] = [...types, compact(quad.object.value)];
+      continue;
+    }
+    const key = compact(quad.predicate.value);
+    const values = (node[key] ?? []) as unknown[];
+    node[key] = [...values, jsonLdValue(quad.object, idOf, compact)];
+  }
+
+  for (const [graphId, graph] of graphs) {
+    nodeIn(nodes, graphId)['@graph'] = [...graph.values()];
+  }
+
+  const document = {
+    ...(Object.keys(prefixes).length > 0 ? { '@context': prefixes } : {}),
+    '@graph': [...nodes.values()],
+  };
+  return ok(JSON.stringify(document, null, prettyPrint ? 2 : undefined));
+}
+
+function jsonLdValue(
+  term: NamedNode | BlankNode | Literal,
+  idOf: (term: NamedNode | BlankNode) => string,
+  compact: (iri: string) => string
+): Record<string, unknown> {
+  if (term.termType !== 'Literal') {
+    return { '@id': idOf(term) };
+  }
+  if (term.language !== undefined) {
+    return { '@value': term.value, '@language': term.language };
+  }
+  if (term.datatype === XSD_STRING) {
+    return { '@value': term.value };
+  }
+  if (term.datatype === RDF_JSON) {
+    try {
+      return { '@value': JSON.parse(term.value) as unknown, '@type': '@json' };
+    } catch {
+      // Not JSON after all: keep it as a typed string
+    }
+  }
+  return { '@value': term.value, '@type': compact(term.datatype) };
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Read quads from a document in an RDF syntax
+ *
+ * N-Triples is read as the subset of Turtle it is.
+ */
+export function parseRdf(text: string, format: RdfFormat): Result<Quad[], ValidationError> {
+  try {
+    return ok(format === 'jsonld' ? new JsonLdReader().read(text) : new TurtleReader(text).read());
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return err(error);
+    }
+    throw error;
+  }
+}
+
+class TurtleReader {
+  private pos = 0;
+  private readonly prefixes = new Map<string, string>();
+  private base = '';
+  private blankCount = 0;
+  private readonly quads: Quad[] = [];
+
+  constructor(private readonly text: string) {}
+
+  read(): Quad[] {
+    this.skipSpace();
+    while (this.pos < this.text.length) {
+      if (!this.readDirective()) {
+        this.readTriples();
+        this.expect('.');
+      }
+      this.skipSpace();
+    }
+    return this.quads;
+  }
+
+  private readDirective(): boolean {
+    if (this.text.startsWith('@prefix', this.pos) || this.matchesKeyword('PREFIX')) {
+      const sparql = this.text[this.pos] !== '@';
+      this.pos += sparql ? 6 : 7;
+      this.skipSpace();
+      const name = this.readUntil(':').trim();
+      this.pos++;
+      this.skipSpace();
+      this.prefixes.set(name, this.readIri());
+      if (!sparql) {
+        this.expect('.');
+      }
+      return true;
+    }
+    if (this.text.startsWith('@base', this.pos) || this.matchesKeyword('BASE')) {
+      const sparql = this.text[this.pos] !== '@';
+      this.pos += sparql ? 4 : 5;
+      this.skipSpace();
+      this.base = this.readIri();
+      if (!sparql) {
+        this.expect('.');
+      }
+      return true;
+    }
+    return false;
+  }
+
+  private matchesKeyword(keyword: string): boolean {
+    return this.text.slice(this.pos, this.pos + keyword.length).toUpperCase() === keyword &&
+      /\s/.test(this.text[this.pos + keyword.length] ?? '');
+  }
+
+  private readTriples(): void {
+    const propertyList = this.text[this.pos] === '[';
+    const subject = this.readSubject();
+    this.skipSpace();
+    if (propertyList && this.text[this.pos] === '.') {
+      return;
+    }
+    this.readPredicateObjectList(subject);
+  }
+
+  private readPredicateObjectList(subject: RdfSubject): void {
+    for (;;) {
+      this.skipSpace();
+      const predicate = this.readPredicate();
+      for (;;) {
+        this.skipSpace();
+        this.quads.push({ subject, predicate, object: this.readObject() });
+        this.skipSpace();
+        if (this.text[this.pos] !== ',') break;
+        this.pos++;
+      }
+      if (this.text[this.pos] !== ';') {
+        return;
+      }
+      while (this.text[this.pos] === ';') {
+        this.pos++;
+        this.skipSpace();
+      }
+      if ('.]'.includes(this.text[this.pos] ?? '.')) {
+        return;
+      }
+    }
+  }
+
+  private readSubject(): RdfSubject {
+    const term = this.readObject();
+    if (term.termType === 'Literal') {
+      this.fail('A literal cannot be a subject');
+    }
+    return term;
+  }
+
+  private readPredicate(): NamedNode {
+    if (this.text[this.pos] === 'a' && /[\s<"'[(_]/.test(this.text[this.pos + 1] ?? '')) {
+      this.pos++;
+      return namedNode(RDF_TYPE);
+    }
+    const term = this.readObject();
+    if (term.termType !== 'NamedNode') {
+      this.fail('A predicate must be an IRI');
+    }
+    return term;
+  }
+
+  private readObject(): RdfTerm {
+    const char = this.text[this.pos];
+    if (char === undefined) {
+      this.fail('Unexpected end of input');
+    }
+    if (this.text.startsWith('<<', this.pos)) {
+      return this.readQuotedTriple();
+    }
+    if (char === '<') {
+      return namedNode(this.readIri());
+    }
+    if (char === '"' || char === "'") {
+      return this.readLiteral();
+    }
+    if (char === '_' && this.text[this.pos + 1] === ':') {
+      this.pos += 2;
+      return blankNode(`b_${this.readName()}`);
+    }
+    if (char === '[') {
+      this.pos++;
+      this.skipSpace();
+      const node = blankNode(`anon${++this.blankCount}`);
+      if (this.text[this.pos] !== ']') {
+        this.readPredicateObjectList(node);
+      }
+      this.expect(']');
+      return node;
+    }
+    if (char === '(') {
+      this.fail('Turtle collections are not supported');
+    }
+    if (/[-+0-9.]/.test(char)) {
+      return this.readNumber();
+    }
+    if (this.matchesBoolean('true') || this.matchesBoolean('false')) {
+      const value = this.text.startsWith('true', this.pos) ? 'true' : 'false';
+      this.pos += value.length;
+      return literal(value, XSD_BOOLEAN);
+    }
+    return namedNode(this.readPrefixedName());
+  }
+
+  private matchesBoolean(word: string): boolean {
+    return this.text.startsWith(word, this.pos) && !/[\w:-]/.test(this.text[this.pos + word.length] ?? '');
+  }
+
+  private readQuotedTriple(): QuotedTriple {
+    this.pos += 2;
+    this.skipSpace();
+    const reifiedForm = this.text[this.pos] === '(';
+    if (reifiedForm) {
+      this.pos++;
+      this.skipSpace();
+    }
+    const subject = this.readSubject();
+    this.skipSpace();
+    const predicate = this.readPredicate();
+    this.skipSpace();
+    const object = this.readObject();
+    this.skipSpace();
+    if (reifiedForm) {
+      this.expect(')');
+    }
+    this.expect('>>');
+    return quotedTriple(subject, predicate, object);
+  }
+
+  private readIri(): string {
+    this.expect('<');
+    const end = this.text.indexOf('>', this.pos);
+    if (end < 0) {
+      this.fail('Unterminated IRI');
+    }
+    const iri = unescapeNumeric(this.text.slice(this.pos, end));
+    this.pos = end + 1;
+    return this.resolve(iri);
+  }
+
+  private resolve(iri: string): string {
+    if (this.base === '' || /^[A-Za-z][A-Za-z0-9+.-]*:/.test(iri)) {
+      return iri;
+    }
+    if (iri.startsWith('#')) {
+      return `${this.base.replace(/#.*$/, '')}${iri}`;
+    }
+    return `${this.base.replace(/[^/#]*([#].*)?$/, '')}${iri}`;
+  }
+
+  private readPrefixedName(): string {
+    const start = this.pos;
+    const prefix = this.readUntil(':');
+    if (!/^[A-Za-z0-9_.-]*$/.test(prefix)) {
+      this.pos = start;
+      this.fail('Expected a term');
+    }
+    this.pos++;
+    const namespace = this.prefixes.get(prefix);
+    if (namespace === undefined) {
+      this.fail(`Undeclared prefix: ${prefix}`);
+    }
+    return `${namespace}${this.readName()}`;
+  }
+
+  private readName(): string {
+    const match = /^(?:[\w:-]|%[0-9A-Fa-f]{2}|\\.|\.(?=[\w%\\-]))*/.exec(this.text.slice(this.pos));
+    const name = match?.[0] ?? '';
+    this.pos += name.length;
+    return name.replace(/\\(.)/g, '$1');
+  }
+
+  private readLiteral(): Literal {
+    const quote = this.text[this.pos] ?? '"';
+    const long = this.text.startsWith(quote.repeat(3), this.pos);
+    const delimiter = long ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+
+    let value = '';
+    for (;;) {
+      const char = this.text[this.pos];
+      if (char === undefined || (!long && (char === '\n' || char === '\r'))) {
+        this.fail('Unterminated string');
+      }
+      if (this.text.startsWith(delimiter, this.pos)) {
+        this.pos += delimiter.length;
+        break;
+      }
+      if (char === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      value += char;
+      this.pos++;
+    }
+
+    if (this.text[this.pos] === '@') {
+      this.pos++;
+      const language = /^[A-Za-z]+(?:-[A-Za-z0-9]+)*/.exec(this.text.slice(this.pos))?.[0];
+      if (language === undefined) {
+        this.fail('Expected a language tag');
+      }
+      this.pos += language.length;
+      return literal(value, RDF_LANG_STRING, language);
+    }
+    if (this.text.startsWith('^^', this.pos)) {
+      this.pos += 2;
+      const datatype = this.text[this.pos] === '<' ? this.readIri() : this.readPrefixedName();
+      return literal(value, datatype);
+    }
+    return literal(value);
+  }
+
+  private readEscape(): string {
+    const code = this.text[this.pos + 1];
+    const simple: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+    if (code !== undefined && simple[code] !== undefined) {
+      this.pos += 2;
+      return simple[code];
+    }
+    const length = code === 'u' ? 4 : code === 'U' ? 8 : 0;
+    const hex = this.text.slice(this.pos + 2, this.pos + 2 + length);
+    if (length === 0 || !/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+      this.fail('Invalid escape sequence');
+    }
+    this.pos += 2 + length;
+    return String.fromCodePoint(parseInt(hex, 16));
+  }
+
+  private readNumber(): Literal {
+    const match = /^[+-]?(?:\d+\.?\d*[eE][+-]?\d+|\.\d+[eE][+-]?\d+|\d*\.\d+|\d+)/.exec(this.text.slice(this.pos));
+    if (match === null) {
+      this.fail('Expected a number');
+    }
+    const lexical = match[0];
+    this.pos += lexical.length;
+    const datatype = /[eE]/.test(lexical) ? XSD_DOUBLE : lexical.includes('.') ? XSD_DECIMAL : XSD_INTEGER;
+    return literal(lexical, datatype);
+  }
+
+  private readUntil(char: string): string {
+    const end = this.text.indexOf(char, this.pos);
+    if (end < 0) {
+      this.fail(`Expected '${char}'`);
+    }
+    const value = this.text.slice(this.pos, end);
+    this.pos = end;
+    return value;
+  }
+
+  private expect(token: string): void {
+    this.skipSpace();
+    if (!this.text.startsWith(token, this.pos)) {
+      this.fail(`Expected '${token}'`);
+    }
+    this.pos += token.length;
+  }
+
+  private skipSpace(): void {
+    for (;;) {
+      const char = this.text[this.pos];
+      if (char === '#') {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end < 0 ? this.text.length : end + 1;
+      } else if (char !== undefined && /\s/.test(char)) {
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private fail(message: string): never {
+    const line = this.text.slice(0, this.pos).split('\n').length;
+    throw new ValidationError(`${message} (line ${line})`, 'document', 'RDF_SYNTAX');
+  }
+}
+
+function unescapeNumeric(value: string): string {
+  return value.replace(/\\u([0-9A-Fa-f]{4})|\\U([0-9A-Fa-f]{8})/g, (_, short?: string, long?: string) =>
+    String.fromCodePoint(parseInt(short ?? long ?? '0', 16))
+  );
+}
+
+/**
+ * Term definition of a JSON-LD context
+ */
+interface TermDefinition {
+  readonly id: string;
+  readonly type?: string;
+  readonly language?: string;
+}
+
+interface JsonLdContext {
+  readonly terms: ReadonlyMap<string, TermDefinition>;
+  readonly vocab?: string;
+  readonly base?: string;
+  readonly language?: string;
+}
+
+class JsonLdReader {
+  private blankCount = 0;
+  private readonly quads: Quad[] = [];
+
+  read(text: string): Quad[] {
+    let document: unknown;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      this.fail(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const context: JsonLdContext = { terms: new Map() };
+    for (const item of Array.isArray(document) ? document : [document]) {
+      const node = this.asObject(item);
+      const local = this.withContext(context, node['@context']);
+      const keys = Object.keys(node).filter(key => key !== '@context');
+      if (keys.length === 1 && keys[0] === '@graph') {
+        this.readGraph(node['@graph'], local, undefined);
+      } else {
+        this.readNode(node, local, undefined);
+      }
+    }
+    return this.quads;
+  }
+
+  private readGraph(value: unknown, context: JsonLdContext, graph: NamedNode | BlankNode | undefined): void {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      this.readNode(this.asObject(item), context, graph);
+    }
+  }
+
+  private readNode(
+    node: Record<string, unknown>,
+    outer: JsonLdContext,
+    graph: NamedNode | BlankNode | undefined
+  ): NamedNode | BlankNode {
+    const context = this.withContext(outer, node['@context']);
+    const id = node['@id'];
+    const subject = typeof id === 'string' ? this.nodeTerm(id, context) : blankNode(`anon${++this.blankCount}`);
+    const at = (quad: Omit<Quad, 'graph'>): Quad => (graph !== undefined ? { ...quad, graph } : quad);
+
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '@context' || key === '@id') {
+        continue;
+      }
+      if (key === '@type') {
+        for (const type of Array.isArray(value) ? value : [value]) {
+          if (typeof type !== 'string') {
+            this.fail('@type must be a string');
+          }
+          this.quads.push(at({ subject, predicate: namedNode(RDF_TYPE), object: namedNode(this.expand(type, context, true)) }));
+        }
+        continue;
+      }
+      if (key === '@graph') {
+        this.readGraph(value, context, subject);
+        continue;
+      }
+      if (key === '@reverse' || key === '@list' || key === '@included' || key === '@nest') {
+        this.fail(`${key} is not supported`);
+      }
+      if (key.startsWith('@')) {
+        continue;
+      }
+
+      const predicate = namedNode(this.expand(key, context, true));
+      const definition = context.terms.get(key);
+      for (const item of this.values(value)) {
+        const object = this.readValue(item, definition, context, graph);
+        if (object !== undefined) {
+          this.quads.push(at({ subject, predicate, object }));
+        }
+      }
+    }
+    return subject;
+  }
+
+  private values(value: unknown): unknown[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (value !== null && typeof value === 'object' && '@set' in value) {
+      return this.values((value as Record<string, unknown>)['@set']);
+    }
+    return [value];
+  }
+
+  private readValue(
+    value: unknown,
+    definition: TermDefinition | undefined,
+    context: JsonLdContext,
+    graph: NamedNode | BlankNode | undefined
+  ): RdfTerm | undefined {
+    if (value === null) {
+      return undefined;
+    }
+    if (definition?.type === '@json') {
+      return literal(JSON.stringify(value), RDF_JSON);
+    }
+    if (typeof value === 'string') {
+      if (definition?.type === '@id' || definition?.type === '@vocab') {
+        return this.nodeTerm(value, context, definition.type === '@vocab');
+      }
+      if (definition?.type !== undefined) {
+        return literal(value, definition.type);
+      }
+      const language = definition?.language ?? context.language;
+      return language !== undefined ? literal(value, RDF_LANG_STRING, language) : literal(value);
+    }
+    if (typeof value === 'boolean') {
+      return literal(String(value), definition?.type ?? XSD_BOOLEAN);
+    }
+    if (typeof value === 'number') {
+      return nativeNumber(value, definition?.type);
+    }
+    const object = this.asObject(value);
+    if ('@list' in object) {
+      this.fail('@list is not supported');
+    }
+    if (!('@value' in object)) {
+      return this.readNode(object, context, graph);
+    }
+
+    const raw = object['@value'];
+    const type = object['@type'];
+    if (type === '@json') {
+      return literal(JSON.stringify(raw), RDF_JSON);
+    }
+    if (raw === null) {
+      return undefined;
+    }
+    const datatype = typeof type === 'string' ? this.expand(type, context, true) : undefined;
+    if (typeof object['@language'] === 'string') {
+      return literal(String(raw), RDF_LANG_STRING, object['@language']);
+    }
+    if (typeof raw === 'number') {
+      return nativeNumber(raw, datatype);
+    }
+    if (typeof raw === 'boolean') {
+      return literal(String(raw), datatype ?? XSD_BOOLEAN);
+    }
+    if (typeof raw !== 'string') {
+      this.fail('@value must be a string, number or boolean');
+    }
+    return literal(raw, datatype ?? XSD_STRING);
+  }
+
+  private nodeTerm(value: string, context: JsonLdContext, vocab = false): NamedNode | BlankNode {
+    return value.startsWith('_:') ? blankNode(`b_${value.slice(2)}`) : namedNode(this.expand(value, context, vocab));
+  }
+
+  /**
+   * Expand a term, compact IRI or relative IRI; `vocab` resolves against
+   * `@vocab` (keys and types) rather than `@base` (node identifiers)
+   */
+  private expand(value: string, context: JsonLdContext, vocab: boolean): string {
+    const term = vocab ? context.terms.get(value) : undefined;
+    if (term !== undefined) {
+      return term.id;
+    }
+    const colon = value.indexOf(':');
+    if (colon > 0) {
+      const prefix = context.terms.get(value.slice(0, colon));
+      if (prefix !== undefined && !value.startsWith('//', colon + 1)) {
+        return `${prefix.id}${value.slice(colon + 1)}`;
+      }
+      return value;
+    }
+    if (vocab && context.vocab !== undefined) {
+      return `${context.vocab}${value}`;
+    }
+    if (context.base !== undefined) {
+      return `${context.base}${value}`;
+    }
+    if (vocab) {
+      this.fail(`Cannot expand term: ${value}`);
+    }
+    return value;
+  }
+
+  private withContext(outer: JsonLdContext, value: unknown): JsonLdContext {
+    if (value === undefined) {
+      return outer;
+    }
+    let context = outer;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === null) {
+        context = { terms: new Map() };
+        continue;
+      }
+      if (typeof item === 'string') {
+        this.fail('Remote contexts are not supported');
+      }
+      const definitions = this.asObject(item);
+      const terms = new Map(context.terms);
+      let next: JsonLdContext = { ...context, terms };
+      for (const [key, definition] of Object.entries(definitions)) {
+        if (key === '@vocab' && typeof definition === 'string') {
+          next = { ...next, vocab: this.expand(definition, next, true) };
+        } else if (key === '@base' && typeof definition === 'string') {
+          next = { ...next, base: definition };
+        } else if (key === '@language' && typeof definition === 'string') {
+          next = { ...next, language: definition };
+        } else if (!key.startsWith('@')) {
+          terms.set(key, this.termDefinition(key, definition, next));
+        }
+      }
+      context = next;
+    }
+    return context;
+  }
+
+  private termDefinition(key: string, definition: unknown, context: JsonLdContext): TermDefinition {
+    if (typeof definition === 'string') {
+      return { id: this.expand(definition, context, true) };
+    }
+    const object = this.asObject(definition);
+    if (object['@reverse'] !== undefined || object['@container'] === '@list') {
+      this.fail(`Term ${key}: reverse properties and lists are not supported`);
+    }
+    const id = typeof object['@id'] === 'string' ? object['@id'] : key;
+    const type = object['@type'];
+    return {
+      id: this.expand(id, context, true),
+      ...(typeof type === 'string'
+        ? { type: type.startsWith('@') ? type : this.expand(type, context, true) }
+        : {}),
+      ...(typeof object['@language'] === 'string' ? { language: object['@language'] } : {}),
+    };
+  }
+
+  private asObject(value: unknown): Record<string, unknown> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      this.fail('Expected a JSON-LD object');
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private fail(message: string): never {
+    throw new ValidationError(message, 'document', 'RDF_SYNTAX');
+  }
+}
+
+function nativeNumber(value: number, datatype: string | undefined): Literal {
+  if (datatype !== undefined && datatype !== XSD_DOUBLE) {
+    return literal(String(value), datatype);
+  }
+  return Number.isInteger(value) && datatype === undefined
+    ? literal(String(value), XSD_INTEGER)
+    : literal(value.toExponential(), XSD_DOUBLE);
+}
@@ -4,15 +4,20 @@
  * Configuration and options for the ContextGraph SDK.
  */
 
-import type { Timestamp, EntityId, Scope, Jurisdiction, Confidence } from '@contextgraph/core';
-import type { StorageInterface } from '@contextgraph/storage';
+import type { Timestamp, EntityId, ProvenanceId, Scope, Jurisdiction, Confidence } from '@contextgraph/core';
+import type { StorageConfig, StorageInterface, StorageRecord, TimeBucket } from '@contextgraph/storage';
+import type { Embedder, TruthDiscoveryOptions, AnnotationKind, Entity, Claim } from '@contextgraph/ckg';
+import type { Decision } from '@contextgraph/dtg';
+import type { SourceType, ArtifactRef, ProvenanceEntry, HashAlgorithm, ProvenanceSigner } from '@contextgraph/provenance';
+import type { RdfFormat } from './rdf.js';
+import type { RdfMappingOptions } from './rdf-mapping.js';
 
 /**
  * SDK Configuration
  */
 export interface ContextGraphConfig {
-  /** Storage backend (defaults to in-memory) */
-  readonly storage?: StorageInterface;
+  /** Storage backend, or the configuration of one to create (defaults to in-memory) */
+  readonly storage?: StorageInterface | StorageConfig;
   /** Default scope for operations */
   readonly defaultScope?: Scope;
   /** Default jurisdiction for operations */
@@ -23,6 +28,14 @@ export interface ContextGraphConfig {
   readonly enablePolicies?: boolean;
   /** Enable capability checking */
   readonly enableCapabilities?: boolean;
+  /** Embedding model enabling similarity search (none by default) */
+  readonly embedder?: Embedder;
+  /** Source reliability priors and refinement parameters */
+  readonly truthDiscovery?: TruthDiscoveryOptions;
+  /** Digest algorithm of new provenance entries (default: `sha256`) */
+  readonly hashAlgorithm?: HashAlgorithm;
+  /** Signs provenance entries on behalf of their actors (entries stay unsigned by default) */
+  readonly signer?: ProvenanceSigner;
 }
 
 /**
@@ -41,11 +54,17 @@ export interface ContextOptions {
  */
 export interface QueryOptions {
   readonly asOf?: Timestamp;
+  /** Answer with what was recorded by this (transaction) time */
+  readonly knownAt?: Timestamp;
   readonly scope?: Scope;
   readonly jurisdiction?: Jurisdiction;
   readonly minConfidence?: number;
   readonly limit?: number;
   readonly offset?: number;
+  /** Include retracted claims */
+  readonly includeRetracted?: boolean;
+  /** Include claims replaced by a correction */
+  readonly includeSuperseded?: boolean;
 }
 
 /**
@@ -59,6 +78,15 @@ export interface CreateEntityInput {
   readonly context?: ContextOptions;
 }
 
+/**
+ * Entity update input; omitted fields are left as they are
+ */
+export interface UpdateEntityInput {
+  readonly name?: string;
+  readonly aliases?: readonly string[];
+  readonly properties?: Readonly<Record<string, unknown>>;
+}
+
 /**
  * Claim creation input
  */
@@ -68,6 +96,34 @@ export interface CreateClaimInput {
   readonly value: unknown;
   readonly objectId?: EntityId;
   readonly context?: ContextOptions;
+  /** Where the claim comes from (default: the SDK itself) */
+  readonly source?: ClaimSourceInput;
+}
+
+/**
+ * Source of a claim, recorded in its provenance entry
+ */
+export interface ClaimSourceInput {
+  readonly type: SourceType;
+  /** Identifier of the source, e.g. a user ID or system name */
+  readonly id?: string;
+  /** Location of the source, e.g. a document URL */
+  readonly uri?: string;
+}
+
+/**
+ * Claim annotation input
+ */
+export interface AnnotateClaimInput {
+  readonly kind: AnnotationKind;
+  /** Artifact or document span referred to; required for evidence and citations */
+  readonly ref?: ArtifactRef;
+  /** Quote, remark or reasoning; required for notes */
+  readonly text?: string;
+  /** Values refining the claim; only allowed on qualifier annotations */
+  readonly qualifiers?: Readonly<Record<string, unknown>>;
+  /** Who made the annotation (default: sdk-user) */
+  readonly author?: string;
 }
 
 /**
@@ -123,8 +179,12 @@ export interface PolicyCondition {
 export type EventType =
   | 'entity:created'
   | 'entity:updated'
+  | 'entity:deleted'
+  | 'entity:merged'
   | 'claim:added'
   | 'claim:superseded'
+  | 'claim:retracted'
+  | 'claim:annotated'
   | 'agent:created'
   | 'agent:suspended'
   | 'decision:proposed'
@@ -135,7 +195,9 @@ export type EventType =
   | 'execution:completed'
   | 'execution:failed'
   | 'policy:created'
-  | 'policy:activated';
+  | 'policy:activated'
+  | 'branch:merged'
+  | 'branch:discarded';
 
 /**
  * Event payload
@@ -164,6 +226,34 @@ export interface AuditEntry {
   readonly details?: Readonly<Record<string, unknown>>;
 }
 
+/**
+ * Statistics options
+ */
+export interface StatsOptions {
+  /** Period of the `claimsCreated` buckets (default: 'day') */
+  readonly bucket?: TimeBucket;
+}
+
+/**
+ * System statistics; breakdowns count missing values as `unspecified`
+ */
+export interface SystemStats {
+  /** Live entities */
+  readonly entities: number;
+  readonly claims: number;
+  readonly agents: number;
+  readonly decisions: number;
+  readonly policies: number;
+  readonly entityTypes: Readonly<Record<string, number>>;
+  readonly predicates: Readonly<Record<string, number>>;
+  readonly jurisdictions: Readonly<Record<string, number>>;
+  readonly scopes: Readonly<Record<string, number>>;
+  /** Provenance entries by source type */
+  readonly sourceTypes: Readonly<Record<string, number>>;
+  /** Claims recorded per period, oldest first */
+  readonly claimsCreated: Readonly<Record<string, number>>;
+}
+
 // ============================================================================
 // Import/Export Types
 // ============================================================================
@@ -171,7 +261,7 @@ export interface AuditEntry {
 /**
  * Export format options
  */
-export type ExportFormat = 'json' | 'csv';
+export type ExportFormat = 'json' | 'csv' | RdfFormat;
 
 /**
  * Export options
@@ -195,6 +285,15 @@ export interface ExportOptions {
   readonly prettyPrint?: boolean;
 }
 
+/**
+ * RDF export options
+ *
+ * Agents, decisions and policies are not part of the RDF mapping, so only
+ * the entity, claim and provenance flags apply; provenance covers the
+ * entries behind the exported claims.
+ */
+export interface RdfExportOptions extends ExportOptions, RdfMappingOptions {}
+
 /**
  * Full JSON export format
  */
@@ -209,6 +308,17 @@ export interface GraphExport {
   readonly provenance: readonly ProvenanceExport[];
 }
 
+/**
+ * Single record of a streamed export, tagged with its section
+ */
+export type ExportRecord =
+  | { readonly kind: 'entity'; readonly data: EntityExport }
+  | { readonly kind: 'claim'; readonly data: ClaimExport }
+  | { readonly kind: 'agent'; readonly data: AgentExport }
+  | { readonly kind: 'decision'; readonly data: DecisionExport }
+  | { readonly kind: 'policy'; readonly data: PolicyExport }
+  | { readonly kind: 'provenance'; readonly data: ProvenanceExport };
+
 /**
  * Entity export format
  */
@@ -305,8 +415,15 @@ export interface ImportOptions {
   readonly dryRun?: boolean;
   /** On conflict: 'skip' | 'overwrite' | 'error' */
   readonly onConflict?: 'skip' | 'overwrite' | 'error';
+  /** Run the import in a single transaction and roll back if any record fails */
+  readonly atomic?: boolean;
 }
 
+/**
+ * RDF import options
+ */
+export interface RdfImportOptions extends ImportOptions, RdfMappingOptions {}
+
 /**
  * Import result
  */
@@ -321,6 +438,68 @@ export interface ImportResult {
   readonly errors: readonly string[];
 }
 
+/**
+ * Records a branch added or changed
+ */
+export interface BranchChanges<T> {
+  /** Created on the branch */
+  readonly added: readonly T[];
+  /** Changed on the branch, with the version on main they replace */
+  readonly updated: readonly { readonly before: T; readonly after: T }[];
+}
+
+/**
+ * Record changed both on a branch and, since the branch wrote it, on main
+ */
+export interface BranchConflict {
+  readonly collection: string;
+  readonly id: string;
+  /** Record on the branch */
+  readonly branch: StorageRecord;
+  /** Record on main (null when main no longer has it) */
+  readonly main: StorageRecord | null;
+}
+
+/**
+ * What merging a branch would change on main
+ */
+export interface BranchDiff {
+  readonly branch: string;
+  readonly entities: BranchChanges<Entity>;
+  readonly claims: BranchChanges<Claim>;
+  readonly decisions: BranchChanges<Decision>;
+  /** Provenance entries recorded on the branch */
+  readonly provenance: readonly ProvenanceEntry[];
+  /** Records of any collection changed on both sides */
+  readonly conflicts: readonly BranchConflict[];
+}
+
+/**
+ * Branch merge options
+ */
+export interface BranchMergeOptions {
+  /** Conflicting records: fail the merge (default), keep main's version, or take the branch's */
+  readonly onConflict?: 'abort' | 'keep_main' | 'keep_branch';
+  /** Who merged the branch, recorded in the merge provenance */
+  readonly actor?: string;
+}
+
+/**
+ * Branch merge result
+ */
+export interface BranchMergeResult {
+  readonly success: boolean;
+  readonly branch: string;
+  readonly entitiesMerged: number;
+  readonly claimsMerged: number;
+  readonly decisionsMerged: number;
+  /** Records merged across every collection, provenance included */
+  readonly recordsMerged: number;
+  readonly conflicts: readonly BranchConflict[];
+  /** Provenance entry recording the merge on main */
+  readonly provenanceId?: ProvenanceId;
+}
+
 /**
  * CSV row for entity export
  */
@@ -0,0 +1,292 @@
+/**
+ * Append Log Storage Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, readdir, appendFile, writeFile, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ok } from '@contextgraph/core';
+import { AppendLogStorage, type AppendLogStorageOptions } from '../applog.js';
+
+function entity(id: string, name: string): { id: string; type: string; name: string; createdAt: number } {
+  return { id, type: 'Person', name, createdAt: Date.now() };
+}
+
+async function open(directory: string, options: Partial<AppendLogStorageOptions> = {}): Promise<AppendLogStorage> {
+  const storage = new AppendLogStorage({ directory, fsync: 'never', ...options });
+  const init = await storage.initialize();
+  expect(init.ok).toBe(true);
+  return storage;
+}
+
+async function segmentFiles(directory: string): Promise<string[]> {
+  return (await readdir(directory)).filter((name) => name.endsWith('.ndjson')).sort();
+}
+
+describe('AppendLogStorage', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cg-applog-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist writes without closing (simulated process kill)', async () => {
+    const writer = await open(dir);
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.upsert('entities', entity('e1', 'Alicia'));
+    await writer.insert('entities', entity('e2', 'Bob'));
+    // No close(): the process is considered killed here
+
+    const reader = await open(dir);
+    const found = await reader.findById('entities', 'e1');
+    expect(found.ok && found.value?.['name']).toBe('Alicia');
+    const count = await reader.count('entities');
+    expect(count.ok && count.value).toBe(2);
+    await reader.close();
+  });
+
+  it('should append a committed transaction as one line and skip rolled back ones', async () => {
+    const storage = await open(dir);
+    const [file] = await segmentFiles(dir);
+    const before = (await readFile(join(dir, file!), 'utf8')).split('\n').length;
+
+    await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e2', 'Bob')]);
+    const failed = await storage.insertMany('entities', [entity('e3', 'Carol'), entity('e3', 'Duplicate')]);
+    expect(failed.ok).toBe(false);
+
+    const lines = (await readFile(join(dir, file!), 'utf8')).split('\n');
+    expect(lines.length - before).toBe(1);
+    // Each insert writes the record and its change
+    expect(JSON.parse(lines[lines.length - 2]!).ops).toHaveLength(4);
+    await storage.close();
+  });
+
+  it('should restore versions, the change log and applied migrations', async () => {
+    const writer = await open(dir);
+    await writer.insert('claims', entity('c1', 'v1'));
+    await writer.upsert('claims', entity('c1', 'v2'));
+    await writer.registerMigrations([{ module: 'plugin', version: 1, name: 'create_plugin', up: 'CREATE TABLE plugin (id TEXT)' }]);
+    await writer.close();
+
+    const reader = await open(dir);
+    const versions = await reader.findVersions('claims', 'c1');
+    expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['v1', 'v2']);
+
+    const changes = await reader.changesSince(0);
+    expect(changes.ok && changes.value.map((c) => [c.sequence, c.operation])).toEqual([
+      [1, 'insert'],
+      [2, 'update'],
+    ]);
+
+    await reader.insert('entities', entity('e1', 'Alice'));
+    const next = await reader.changesSince(2);
+    expect(next.ok && next.value.map((c) => c.sequence)).toEqual([3]);
+
+    const reapplied = await reader.registerMigrations([
+      { module: 'plugin', version: 1, name: 'create_plugin', up: 'CREATE TABLE plugin (id TEXT)' },
+    ]);
+    expect(reapplied.ok && reapplied.value).toBe(0);
+    const status = await reader.migrationStatus();
+    expect(status.ok && status.value.find((m) => m.module === 'plugin')?.state).toBe('applied');
+    const stats = await reader.stats();
+    expect(stats.ok && Object.keys(stats.value.collections).sort()).toEqual(['claims', 'entities']);
+    await reader.close();
+  });
+
+  it('should keep erased versions erased after reopening', async () => {
+    const writer = await open(dir);
+    await writer.insert('claims', entity('c1', 'v1'));
+    await writer.upsert('claims', entity('c1', 'v2'));
+    const erased = await writer.eraseHistory('claims', 'c1');
+    expect(erased.ok && erased.value).toBe(1);
+    await writer.close();
+
+    const reader = await open(dir);
+    const versions = await reader.findVersions('claims', 'c1');
+    expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['v2']);
+    const changes = await reader.changesSince(0);
+    expect(changes.ok && changes.value.map((c) => c.after?.['name'])).toEqual(['v2', 'v2']);
+
+    // Erased data leaves the segment files once they are compacted
+    const compacted = await reader.compact();
+    expect(compacted.ok).toBe(true);
+    for (const file of await segmentFiles(dir)) {
+      expect(await readFile(join(dir, file), 'utf8')).not.toContain('"v1"');
+    }
+    await reader.close();
+  });
+
+  it('should keep erased versions erased when compaction stops before deleting old segments', async () => {
+    const writer = await open(dir, { compactionThreshold: 0 });
+    await writer.insert('claims', entity('c1', 'Alice Secret'));
+    await writer.upsert('claims', entity('c1', 'Alice'));
+    expect((await writer.compact()).ok).toBe(true);
+    const erased = await writer.eraseHistory('claims', 'c1');
+    expect(erased.ok && erased.value).toBe(1);
+
+    const before = new Map<string, string>();
+    for (const file of await segmentFiles(dir)) {
+      before.set(file, await readFile(join(dir, file), 'utf8'));
+    }
+    expect((await writer.compact()).ok).toBe(true);
+    await writer.close();
+
+    // Simulate a crash after the rename but before the older segments were deleted
+    const remaining = await segmentFiles(dir);
+    for (const [file, content] of before) {
+      if (!remaining.includes(file)) {
+        await writeFile(join(dir, file), content);
+      }
+    }
+    expect((await segmentFiles(dir)).length).toBeGreaterThan(remaining.length);
+
+    const reader = await open(dir);
+    const versions = await reader.findVersions('claims', 'c1');
+    expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['Alice']);
+    const changes = await reader.changesSince(0);
+    expect(changes.ok && changes.value.map((c) => c.after?.['name'])).toEqual(['Alice', 'Alice']);
+    await reader.close();
+  });
+
+  it('should keep pruned changes pruned after reopening', async () => {
+    const writer = await open(dir);
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.insert('entities', entity('e2', 'Bob'));
+    const pruned = await writer.pruneChanges(3);
+    expect(pruned.ok && pruned.value).toBe(2);
+    await writer.close();
+
+    const reader = await open(dir);
+    const changes = await reader.changesSince(0);
+    expect(changes.ok && changes.value).toEqual([]);
+    await reader.insert('entities', entity('e3', 'Carol'));
+    const next = await reader.changesSince(0);
+    expect(next.ok && next.value.map((c) => c.sequence)).toEqual([3]);
+
+    const compacted = await reader.compact();
+    expect(compacted.ok).toBe(true);
+    await reader.close();
+    const compactedReader = await open(dir);
+    const latest = await compactedReader.latestSequence();
+    expect(latest.ok && latest.value).toBe(3);
+    await compactedReader.close();
+  });
+
+  it('should truncate a torn tail write on startup', async () => {
+    const writer = await open(dir);
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.close();
+
+    const [file] = await segmentFiles(dir);
+    const path = join(dir, file!);
+    const intact = (await stat(path)).size;
+    await appendFile(path, '{"sum":"0000","ops":[{"collection":"entities","id":"e2"');
+
+    const reader = await open(dir);
+    expect((await stat(path)).size).toBe(intact);
+    const count = await reader.count('entities');
+    expect(count.ok && count.value).toBe(1);
+
+    await reader.insert('entities', entity('e2', 'Bob'));
+    await reader.close();
+
+    const reopened = await open(dir);
+    const after = await reopened.count('entities');
+    expect(after.ok && after.value).toBe(2);
+    await reopened.close();
+  });
+
+  it('should refuse to open a segment corrupted before its tail', async () => {
+    const writer = await open(dir);
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.insert('entities', entity('e2', 'Bob'));
+    await writer.close();
+
+    const [file] = await segmentFiles(dir);
+    const path = join(dir, file!);
+    const lines = (await readFile(path, 'utf8')).split('\n');
+    lines[lines.length - 3] = lines[lines.length - 3]!.replace('Alice', 'Mallory');
+    await writeFile(path, lines.join('\n'));
+
+    const reader = new AppendLogStorage({ directory: dir });
+    const init = await reader.initialize();
+    expect(init.ok).toBe(false);
+    if (!init.ok) {
+      expect(init.error.code).toBe('CONNECTION_FAILED');
+    }
+  });
+
+  it('should compact sealed segments into live records only', async () => {
+    const storage = await open(dir, { maxSegmentSize: 1024, compactionThreshold: 0 });
+    for (let i = 0; i < 20; i++) {
+      await storage.upsert('entities', entity('e1', `Alice ${i}`));
+    }
+    await storage.insert('entities', entity('e2', 'Bob'));
+    expect(storage.getSegmentCount()).toBeGreaterThan(2);
+    const size = storage.getLogSize();
+
+    const compacted = await storage.compact();
+    expect(compacted.ok).toBe(true);
+    if (compacted.ok) {
+      expect(compacted.value.reclaimedBytes).toBeGreaterThan(0);
+    }
+    expect(storage.getLogSize()).toBeLessThan(size);
+    expect(storage.getSegmentCount()).toBe(2);
+    expect(await segmentFiles(dir)).toHaveLength(2);
+
+    await storage.upsert('entities', entity('e2', 'Bobby'));
+    await storage.close();
+
+    const reopened = await open(dir);
+    const e1 = await reopened.findById('entities', 'e1');
+    const e2 = await reopened.findById('entities', 'e2');
+    expect(e1.ok && e1.value?.['name']).toBe('Alice 19');
+    expect(e2.ok && e2.value?.['name']).toBe('Bobby');
+    const changes = await reopened.changesSince(0, { limit: 100 });
+    expect(changes.ok && changes.value).toHaveLength(22);
+    await reopened.close();
+  });
+
+  it('should compact in the background once enough segments are sealed', async () => {
+    const storage = await open(dir, { maxSegmentSize: 512, compactionThreshold: 3 });
+    const result = await storage.transaction(async () => {
+      for (let i = 0; i < 10; i++) {
+        await storage.upsert('entities', entity('e1', `Alice ${i}`));
+      }
+      return ok(undefined);
+    });
+    expect(result.ok).toBe(true);
+    for (let i = 0; i < 30; i++) {
+      await storage.upsert('entities', entity('e1', `Alice ${i}`));
+    }
+    // Let compactions started by the loop finish, then seal one more segment
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await storage.upsert('entities', entity('e1', 'Alice 29'));
+    // close() waits for a running compaction
+    await storage.close();
+    expect(await segmentFiles(dir)).toHaveLength(2);
+
+    const reopened = await open(dir);
+    const found = await reopened.findById('entities', 'e1');
+    expect(found.ok && found.value?.['name']).toBe('Alice 29');
+    await reopened.close();
+  });
+
+  it('should ignore leftovers of an interrupted compaction', async () => {
+    const writer = await open(dir);
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.close();
+    await writeFile(join(dir, 'segment-00000001.ndjson.tmp'), 'partial');
+
+    const reader = await open(dir, { fsync: 'always' });
+    const count = await reader.count('entities');
+    expect(count.ok && count.value).toBe(1);
+    expect((await readdir(dir)).some((name) => name.endsWith('.tmp'))).toBe(false);
+    await reader.close();
+  });
+});
@@ -211,6 +211,24 @@ describe('CachedStorage', () => {
     });
   });
 
+  describe('change feed', () => {
+    it('should invalidate caches on writes made directly to the wrapped storage', async () => {
+      await storage.insert('entities', { id: 'e1', type: 'test', createdAt: Date.now() });
+
+      // Populate caches
+      await cachedStorage.find('entities', { type: 'test' });
+      await cachedStorage.findById('entities', 'e1');
+      await cachedStorage.count('entities', {});
+
+      await storage.upsert('entities', { id: 'e1', type: 'updated', createdAt: Date.now() });
+
+      const found = await cachedStorage.findById('entities', 'e1');
+      expect(found.ok && found.value?.['type']).toBe('updated');
+      const count = await cachedStorage.count('entities', { type: 'test' });
+      expect(count.ok && count.value).toBe(0);
+    });
+  });
+
   describe('transaction', () => {
     it('should invalidate all caches after transaction', async () => {
       await storage.insert('entities', { id: 'e1', type: 'test', createdAt: Date.now() });
@@ -0,0 +1,953 @@
+/**
+ * Storage Conformance Tests
+ *
+ * Behaviour every StorageInterface implementation must share. New backends
+ * are registered in the `backends` list at the bottom of this file.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ok, err } from '@contextgraph/core';
+import { StorageError, type QueryOptions, type StorageInterface } from '../interface.js';
+import type { ChangeEvent } from '../changes.js';
+import { InMemoryStorage } from '../memory.js';
+import { SQLiteStorage } from '../sqlite.js';
+import { CachedStorage } from '../cached.js';
+import { AppendLogStorage } from '../applog.js';
+import { EncryptedStorage } from '../encrypted.js';
+import { LocalKeyring } from '../keyring.js';
+import { OverlayStorage } from '../overlay.js';
+
+interface ConformanceBackend {
+  readonly name: string;
+  create(): StorageInterface | Promise<StorageInterface>;
+  cleanup?(): Promise<void>;
+  /**
+   * Whether the backend writes records of its own next to the ones it is
+   * given, such as encryption keys. Those are logged and snapshotted too,
+   * so the change feed and snapshot tests, which expect exact sequences
+   * and collections, are skipped.
+   */
+  readonly bookkeeping?: boolean;
+}
+
+function entity(id: string, type = 'Person', createdAt = 1000): { id: string; type: string; name: string; createdAt: number } {
+  return { id, type, name: `Entity ${id}`, createdAt };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function describeStorageConformance(backend: ConformanceBackend): void {
+  describe(`${backend.name} conformance`, () => {
+    let storage: StorageInterface;
+
+    async function ids(): Promise<string[]> {
+      const result = await storage.find('entities', {}, { orderBy: 'id', orderDirection: 'asc' });
+      expect(result.ok).toBe(true);
+      return result.ok ? result.value.items.map((item) => item.id) : [];
+    }
+
+    beforeEach(async () => {
+      storage = await backend.create();
+      const init = await storage.initialize();
+      expect(init.ok).toBe(true);
+    });
+
+    afterEach(async () => {
+      await storage.close();
+      await backend.cleanup?.();
+    });
+
+    describe('records', () => {
+      it('should report healthy after initialize', async () => {
+        const health = await storage.healthCheck();
+        expect(health.ok && health.value).toBe(true);
+      });
+
+      it('should insert and find by id', async () => {
+        const inserted = await storage.insert('entities', entity('e1'));
+        expect(inserted.ok).toBe(true);
+
+        const found = await storage.findById('entities', 'e1');
+        expect(found.ok && found.value?.['name']).toBe('Entity e1');
+
+        const missing = await storage.findById('entities', 'nope');
+        expect(missing.ok && missing.value).toBeNull();
+      });
+
+      it('should reject duplicate keys', async () => {
+        await storage.insert('entities', entity('e1'));
+        const duplicate = await storage.insert('entities', entity('e1'));
+        expect(duplicate.ok).toBe(false);
+        if (!duplicate.ok) {
+          expect(duplicate.error.code).toBe('DUPLICATE_KEY');
+        }
+      });
+
+      it('should replace records on upsert', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.upsert('entities', { ...entity('e1'), name: 'Renamed' });
+
+        const found = await storage.findById('entities', 'e1');
+        expect(found.ok && found.value?.['name']).toBe('Renamed');
+        const count = await storage.count('entities');
+        expect(count.ok && count.value).toBe(1);
+      });
+
+      it('should sort and paginate', async () => {
+        await storage.insertMany('entities', [entity('e1', 'Person', 3), entity('e2', 'Person', 1), entity('e3', 'Person', 2)]);
+
+        const page = await storage.find('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc', limit: 2 });
+        expect(page.ok).toBe(true);
+        if (page.ok) {
+          expect(page.value.items.map((item) => item.id)).toEqual(['e2', 'e3']);
+          expect(page.value.total).toBe(3);
+          expect(page.value.hasMore).toBe(true);
+        }
+
+        const rest = await storage.find('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc', limit: 2, offset: 2 });
+        expect(rest.ok && rest.value.items.map((item) => item.id)).toEqual(['e1']);
+        expect(rest.ok && rest.value.hasMore).toBe(false);
+      });
+
+      it('should filter by criteria and creation time', async () => {
+        await storage.insertMany('entities', [entity('e1', 'Person', 100), entity('e2', 'Org', 200), entity('e3', 'Person', 300)]);
+
+        const people = await storage.count('entities', { type: 'Person' });
+        expect(people.ok && people.value).toBe(2);
+
+        const window = await storage.find('entities', {}, { temporal: { start: 150, end: 300 }, orderBy: 'id', orderDirection: 'asc' });
+        expect(window.ok && window.value.items.map((item) => item.id)).toEqual(['e2', 'e3']);
+      });
+
+      it('should treat fields no record has as NULL in criteria', async () => {
+        await storage.insertMany('entities', [entity('e1', 'Person', 100), entity('e2', 'Org', 200)]);
+
+        const matching = await storage.count('entities', { nickname: 'Al' });
+        expect(matching.ok && matching.value).toBe(0);
+        const nested = await storage.count('entities', { 'nickname.first': { $like: 'A%' } });
+        expect(nested.ok && nested.value).toBe(0);
+        const unequal = await storage.find('entities', { nickname: { $ne: 'Al' } }, { orderBy: 'id', orderDirection: 'asc' });
+        expect(unequal.ok && unequal.value.items.map((item) => item.id)).toEqual(['e1', 'e2']);
+        const missing = await storage.count('entities', { $and: [{ type: 'Person' }, { nickname: { $exists: false } }] });
+        expect(missing.ok && missing.value).toBe(1);
+        const grouped = await storage.aggregate('entities', { groupBy: ['type'], criteria: { $not: { nickname: 'Al' } } });
+        expect(grouped.ok && grouped.value).toHaveLength(2);
+      });
+
+      it('should count records per collection in stats', async () => {
+        await storage.insertMany('entities', [entity('e1'), entity('e2')]);
+        const stats = await storage.stats();
+        expect(stats.ok && stats.value.collections['entities']).toBe(2);
+      });
+    });
+
+    describe('aggregation', () => {
+      const DAY = 86_400_000;
+
+      function claim(id: string, predicate: string, jurisdiction: string | undefined, createdAt: number): Record<string, unknown> {
+        return {
+          id,
+          subjectId: 'e1',
+          predicate,
+          objectId: null,
+          objectValue: '1',
+          context: JSON.stringify({ temporal: { start: createdAt, end: null }, ...(jurisdiction !== undefined ? { jurisdiction } : {}) }),
+          provenanceId: 'p1',
+          createdAt,
+        };
+      }
+
+      beforeEach(async () => {
+        // 2024-01-01 is a Monday
+        const monday = Date.UTC(2024, 0, 1);
+        await storage.insertMany('claims', [
+          claim('c1', 'worksAt', 'EU', monday),
+          claim('c2', 'worksAt', 'US', monday + DAY),
+          claim('c3', 'worksAt', 'EU', monday + 7 * DAY),
+          claim('c4', 'livesIn', undefined, monday + 40 * DAY),
+        ]);
+      });
+
+      it('should count by field, largest group first', async () => {
+        const byPredicate = await storage.aggregate('claims', { groupBy: ['predicate'] });
+        expect(byPredicate.ok && byPredicate.value).toEqual([
+          { key: { predicate: 'worksAt' }, count: 3 },
+          { key: { predicate: 'livesIn' }, count: 1 },
+        ]);
+
+        const total = await storage.aggregate('claims', { groupBy: [], criteria: { predicate: 'worksAt' } });
+        expect(total.ok && total.value).toEqual([{ key: {}, count: 3 }]);
+      });
+
+      it('should group by JSON paths with missing values as null', async () => {
+        const result = await storage.aggregate('claims', {
+          groupBy: [{ field: 'context.jurisdiction', as: 'jurisdiction' }, 'predicate'],
+        });
+        expect(result.ok && result.value).toEqual([
+          { key: { jurisdiction: 'EU', predicate: 'worksAt' }, count: 2 },
+          { key: { jurisdiction: null, predicate: 'livesIn' }, count: 1 },
+          { key: { jurisdiction: 'US', predicate: 'worksAt' }, count: 1 },
+        ]);
+      });
+
+      it('should bucket timestamps by UTC period', async () => {
+        const byWeek = await storage.aggregate('claims', { groupBy: [{ field: 'createdAt', bucket: 'week' }] });
+        expect(byWeek.ok && byWeek.value).toEqual([
+          { key: { createdAt: '2024-W01' }, count: 2 },
+          { key: { createdAt: '2024-W02' }, count: 1 },
+          { key: { createdAt: '2024-W06' }, count: 1 },
+        ]);
+
+        const byMonth = await storage.aggregate('claims', {
+          groupBy: [{ field: 'context.temporal.start', bucket: 'month', as: 'month' }],
+          limit: 1,
+        });
+        expect(byMonth.ok && byMonth.value).toEqual([{ key: { month: '2024-01' }, count: 3 }]);
+      });
+
+      it('should reject invalid groupings', async () => {
+        const result = await storage.aggregate('claims', { groupBy: ['predicate', 'predicate'] });
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error.code).toBe('INVALID_DATA');
+        }
+      });
+    });
+
+    describe('pagination', () => {
+      async function collect(options: QueryOptions): Promise<string[]> {
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await storage.find('entities', {}, { ...options, ...(cursor !== undefined ? { cursor } : {}) });
+          expect(page.ok).toBe(true);
+          if (!page.ok) break;
+          seen.push(...page.value.items.map((item) => item.id));
+          cursor = page.value.nextCursor;
+          expect(cursor !== undefined).toBe(page.value.hasMore);
+        } while (cursor !== undefined);
+        return seen;
+      }
+
+      it('should walk every record exactly once with cursors', async () => {
+        await storage.insertMany('entities', [1, 2, 3, 4, 5, 6, 7].map((n) => entity(`e${n}`, 'Person', n % 3)));
+
+        const seen = await collect({ orderBy: 'createdAt', orderDirection: 'asc', limit: 3 });
+        expect(seen).toEqual(['e3', 'e6', 'e1', 'e4', 'e7', 'e2', 'e5']);
+      });
+
+      it('should not skip or repeat records inserted between pages', async () => {
+        await storage.insertMany('entities', [entity('e2'), entity('e4'), entity('e6')]);
+
+        const first = await storage.find('entities', {}, { orderBy: 'id', orderDirection: 'asc', limit: 2 });
+        expect(first.ok && first.value.items.map((item) => item.id)).toEqual(['e2', 'e4']);
+        await storage.insertMany('entities', [entity('e1'), entity('e5')]);
+
+        const cursor = first.ok ? first.value.nextCursor : undefined;
+        expect(cursor).toBeDefined();
+        const second = await storage.find('entities', {}, { orderBy: 'id', orderDirection: 'asc', limit: 2, ...(cursor !== undefined ? { cursor } : {}) });
+        expect(second.ok && second.value.items.map((item) => item.id)).toEqual(['e5', 'e6']);
+        expect(second.ok && second.value.total).toBe(5);
+      });
+
+      it('should order missing values last in both directions', async () => {
+        await storage.insertMany('entities', [
+          { id: 'e1', type: 'Person', name: 'b', createdAt: 1 },
+          { id: 'e2', type: 'Person', createdAt: 2 },
+          { id: 'e3', type: 'Person', name: 'a', createdAt: 3 },
+          { id: 'e4', type: 'Person', createdAt: 4 },
+        ]);
+
+        expect(await collect({ orderBy: 'name', orderDirection: 'asc', limit: 1 })).toEqual(['e3', 'e1', 'e2', 'e4']);
+        expect(await collect({ orderBy: 'name', orderDirection: 'desc', limit: 3 })).toEqual(['e1', 'e3', 'e4', 'e2']);
+      });
+
+      it('should reject cursors issued for a different ordering', async () => {
+        await storage.insertMany('entities', [entity('e1'), entity('e2')]);
+        const page = await storage.find('entities', {}, { orderBy: 'id', orderDirection: 'asc', limit: 1 });
+        const cursor = page.ok ? page.value.nextCursor : undefined;
+        expect(cursor).toBeDefined();
+
+        const mismatched = await storage.find('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc', ...(cursor !== undefined ? { cursor } : {}) });
+        expect(mismatched.ok).toBe(false);
+        if (!mismatched.ok) {
+          expect(mismatched.error.code).toBe('INVALID_DATA');
+        }
+
+        const garbage = await storage.find('entities', {}, { cursor: 'not-a-cursor' });
+        expect(garbage.ok).toBe(false);
+      });
+
+      it('should stream all matching records in order', async () => {
+        await storage.insertMany('entities', [1, 2, 3, 4, 5].map((n) => entity(`e${n}`, n % 2 === 0 ? 'Org' : 'Person', n)));
+
+        const streamed: string[] = [];
+        for await (const record of storage.stream('entities', { type: 'Person' }, { orderBy: 'createdAt', orderDirection: 'asc', batchSize: 2 })) {
+          streamed.push(record.id);
+        }
+        expect(streamed).toEqual(['e1', 'e3', 'e5']);
+      });
+
+      it('should surface stream errors to the consumer', async () => {
+        const consume = async (): Promise<void> => {
+          for await (const _record of storage.stream('entities', {}, { cursor: 'not-a-cursor' })) {
+            // drain
+          }
+        };
+        await expect(consume()).rejects.toBeInstanceOf(StorageError);
+      });
+    });
+
+    describe('write modes', () => {
+      it('should default to the core collection modes', () => {
+        expect(storage.writeMode('provenance')).toBe('append_only');
+        expect(storage.writeMode('claims')).toBe('versioned');
+        expect(storage.writeMode('entities')).toBe('versioned');
+        expect(storage.writeMode('agents')).toBe('mutable');
+      });
+
+      it('should reject replacing records in append-only collections', async () => {
+        await storage.registerCollection('entities', { writeMode: 'append_only' });
+        await storage.insert('entities', entity('e1'));
+
+        const replaced = await storage.upsert('entities', { ...entity('e1'), name: 'Renamed' });
+        expect(replaced.ok).toBe(false);
+        if (!replaced.ok) {
+          expect(replaced.error.code).toBe('CONSTRAINT_VIOLATION');
+        }
+        const found = await storage.findById('entities', 'e1');
+        expect(found.ok && found.value?.['name']).toBe('Entity e1');
+
+        const added = await storage.upsert('entities', entity('e2'));
+        expect(added.ok).toBe(true);
+      });
+
+      it('should keep prior versions in versioned collections', async () => {
+        await storage.registerCollection('entities', { writeMode: 'versioned' });
+        await storage.insert('entities', entity('e1'));
+        await storage.upsert('entities', { ...entity('e1'), name: 'Second' });
+        await storage.upsert('entities', { ...entity('e1'), name: 'Third' });
+
+        const versions = await storage.findVersions('entities', 'e1');
+        expect(versions.ok).toBe(true);
+        if (versions.ok) {
+          expect(versions.value.map((v) => [v.version, v.record['name']])).toEqual([
+            [1, 'Entity e1'],
+            [2, 'Second'],
+            [3, 'Third'],
+          ]);
+          expect(versions.value[0]!.supersededAt).toBeDefined();
+          expect(versions.value[2]!.supersededAt).toBeUndefined();
+        }
+
+        const count = await storage.count('entities');
+        expect(count.ok && count.value).toBe(1);
+        const stats = await storage.stats();
+        expect(stats.ok && Object.keys(stats.value.collections)).not.toContain('_record_versions');
+      });
+
+      it('should discard versions archived by a rolled back transaction', async () => {
+        await storage.registerCollection('entities', { writeMode: 'versioned' });
+        await storage.insert('entities', entity('e1'));
+
+        await storage.transaction(async () => {
+          await storage.upsert('entities', { ...entity('e1'), name: 'Discarded' });
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+
+        const versions = await storage.findVersions('entities', 'e1');
+        expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['Entity e1']);
+      });
+
+      it('should erase the prior versions of a record', async () => {
+        await storage.registerCollection('entities', { writeMode: 'versioned' });
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('entities', entity('e2'));
+        await storage.upsert('entities', { ...entity('e1'), name: 'Second' });
+        await storage.upsert('entities', { ...entity('e1'), name: 'Third' });
+        await storage.upsert('entities', { ...entity('e2'), name: 'Kept' });
+
+        const erased = await storage.eraseHistory('entities', 'e1');
+        expect(erased.ok && erased.value).toBe(2);
+
+        const versions = await storage.findVersions('entities', 'e1');
+        expect(versions.ok && versions.value.map((v) => [v.version, v.record['name']])).toEqual([[1, 'Third']]);
+        const others = await storage.findVersions('entities', 'e2');
+        expect(others.ok && others.value.map((v) => v.record['name'])).toEqual(['Entity e2', 'Kept']);
+        const again = await storage.eraseHistory('entities', 'e1');
+        expect(again.ok && again.value).toBe(0);
+      });
+
+      it('should keep the versions erased by a rolled back transaction', async () => {
+        await storage.registerCollection('entities', { writeMode: 'versioned' });
+        await storage.insert('entities', entity('e1'));
+        await storage.upsert('entities', { ...entity('e1'), name: 'Second' });
+
+        await storage.transaction(async () => {
+          await storage.eraseHistory('entities', 'e1');
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+
+        const versions = await storage.findVersions('entities', 'e1');
+        expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['Entity e1', 'Second']);
+      });
+
+      it('should not change a registered write mode', async () => {
+        expect((await storage.registerCollection('entities', { writeMode: 'versioned' })).ok).toBe(true);
+        expect((await storage.registerCollection('entities', { writeMode: 'versioned' })).ok).toBe(true);
+        const changed = await storage.registerCollection('entities', { writeMode: 'mutable' });
+        expect(changed.ok).toBe(false);
+        expect(storage.writeMode('entities')).toBe('versioned');
+      });
+
+      it('should keep append-only core collections append-only', async () => {
+        const changed = await storage.registerCollection('provenance', { writeMode: 'mutable' });
+        expect(changed.ok).toBe(false);
+        if (!changed.ok) {
+          expect(changed.error).toBeInstanceOf(StorageError);
+        }
+        expect(storage.writeMode('provenance')).toBe('append_only');
+        expect((await storage.registerCollection('provenance', { writeMode: 'append_only' })).ok).toBe(true);
+      });
+    });
+
+    describe.skipIf(backend.bookkeeping === true)('change feed', () => {
+      beforeEach(async () => {
+        const created = await storage.registerMigrations([
+          {
+            module: 'notes',
+            version: 1,
+            name: 'create_notes_table',
+            up: 'CREATE TABLE notes (id TEXT PRIMARY KEY, type TEXT, name TEXT, createdAt INTEGER NOT NULL)',
+            down: 'DROP TABLE notes',
+          },
+        ]);
+        expect(created.ok).toBe(true);
+      });
+
+      it('should log inserts and upserts in sequence order', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insertMany('entities', [entity('e2'), entity('e3')]);
+        await storage.upsert('entities', { ...entity('e1'), name: 'Renamed' });
+
+        const changes = await storage.changesSince(0);
+        expect(changes.ok).toBe(true);
+        if (changes.ok) {
+          expect(changes.value.map((c) => [c.sequence, c.id, c.operation])).toEqual([
+            [1, 'e1', 'insert'],
+            [2, 'e2', 'insert'],
+            [3, 'e3', 'insert'],
+            [4, 'e1', 'update'],
+          ]);
+          const update = changes.value[3]!;
+          expect(update.collection).toBe('entities');
+          expect(update.before?.['name']).toBe('Entity e1');
+          expect(update.after?.['name']).toBe('Renamed');
+          expect(changes.value[0]!.before).toBeNull();
+        }
+
+        const stats = await storage.stats();
+        expect(stats.ok && Object.keys(stats.value.collections)).not.toContain('_changes');
+      });
+
+      it('should resume from a checkpoint and filter by collection', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('notes', entity('n1'));
+        await storage.insert('entities', entity('e2'));
+
+        const resumed = await storage.changesSince(1);
+        expect(resumed.ok && resumed.value.map((c) => c.id)).toEqual(['n1', 'e2']);
+        const limited = await storage.changesSince(0, { limit: 2 });
+        expect(limited.ok && limited.value.map((c) => c.id)).toEqual(['e1', 'n1']);
+        const filtered = await storage.changesSince(0, { collections: ['entities'] });
+        expect(filtered.ok && filtered.value.map((c) => c.sequence)).toEqual([1, 3]);
+      });
+
+      it('should prune changes before a sequence and keep counting after them', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('entities', entity('e2'));
+        await storage.insert('entities', entity('e3'));
+
+        const pruned = await storage.pruneChanges(3);
+        expect(pruned.ok && pruned.value).toBe(2);
+        const remaining = await storage.changesSince(0);
+        expect(remaining.ok && remaining.value.map((c) => [c.sequence, c.id])).toEqual([[3, 'e3']]);
+
+        const all = await storage.pruneChanges(10);
+        expect(all.ok && all.value).toBe(1);
+        const latest = await storage.latestSequence();
+        expect(latest.ok && latest.value).toBe(3);
+        await storage.insert('entities', entity('e4'));
+        const next = await storage.changesSince(0);
+        expect(next.ok && next.value.map((c) => [c.sequence, c.id])).toEqual([[4, 'e4']]);
+      });
+
+      it('should keep the changes pruned by a rolled back transaction', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('entities', entity('e2'));
+
+        await storage.transaction(async () => {
+          await storage.pruneChanges(3);
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+
+        const changes = await storage.changesSince(0);
+        expect(changes.ok && changes.value.map((c) => c.id)).toEqual(['e1', 'e2']);
+      });
+
+      it('should redact the changes of a record whose history is erased', async () => {
+        await storage.registerCollection('entities', { writeMode: 'versioned' });
+        await storage.insert('entities', { ...entity('e1'), name: 'Private' });
+        await storage.insert('entities', entity('e2'));
+
+        await storage.transaction(async () => {
+          const anonymized = await storage.upsert('entities', { ...entity('e1'), name: 'Anonymous' });
+          if (!anonymized.ok) return anonymized;
+          return storage.eraseHistory('entities', 'e1');
+        });
+
+        const changes = await storage.changesSince(0);
+        expect(changes.ok && changes.value.map((c) => [c.sequence, c.id, c.operation])).toEqual([
+          [1, 'e1', 'insert'],
+          [2, 'e2', 'insert'],
+          [3, 'e1', 'update'],
+        ]);
+        expect(JSON.stringify(changes.ok && changes.value)).not.toContain('Private');
+        expect(changes.ok && changes.value[0]!.after?.['name']).toBe('Anonymous');
+        expect(changes.ok && changes.value[2]!.before).toBeNull();
+        expect(changes.ok && changes.value[1]!.after?.['name']).toBe('Entity e2');
+      });
+
+      it('should not log writes of rolled back transactions or savepoints', async () => {
+        await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+        await storage.transaction(async () => {
+          await storage.insert('entities', entity('e2'));
+          await storage.transaction(async () => {
+            await storage.insert('entities', entity('e3'));
+            return err(new StorageError('abort', 'QUERY_FAILED'));
+          });
+          await storage.insert('entities', entity('e4'));
+          return ok(undefined);
+        });
+
+        const changes = await storage.changesSince(0);
+        expect(changes.ok && changes.value.map((c) => [c.sequence, c.id])).toEqual([
+          [1, 'e2'],
+          [2, 'e4'],
+        ]);
+      });
+
+      it('should deliver changes to subscribers only once committed', async () => {
+        const received: ChangeEvent[] = [];
+        const subscription = storage.subscribe((change) => received.push(change));
+
+        await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          expect(received).toEqual([]);
+          return ok(undefined);
+        });
+        await storage.insert('entities', entity('e2'));
+        subscription.unsubscribe();
+        await storage.insert('entities', entity('e3'));
+
+        expect(received.map((c) => c.id)).toEqual(['e1', 'e2']);
+      });
+
+      it('should replay logged changes before live ones when subscribing with since', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('notes', entity('n1'));
+        await storage.insert('entities', entity('e2'));
+
+        const received: number[] = [];
+        const subscription = storage.subscribe((change) => received.push(change.sequence), {
+          since: 1,
+          collections: ['entities'],
+        });
+        await storage.insert('entities', entity('e3'));
+        await delay(10);
+        await storage.insert('entities', entity('e4'));
+        subscription.unsubscribe();
+
+        expect(received).toEqual([3, 4, 5]);
+      });
+
+      it('should report listener failures without affecting the write', async () => {
+        const errors: StorageError[] = [];
+        const subscription = storage.subscribe(
+          () => {
+            throw new Error('listener broke');
+          },
+          { onError: (error) => errors.push(error) }
+        );
+
+        const result = await storage.insert('entities', entity('e1'));
+        subscription.unsubscribe();
+
+        expect(result.ok).toBe(true);
+        expect(errors.map((e) => e.message)).toEqual(['Change listener failed: listener broke']);
+      });
+    });
+
+    describe.skipIf(backend.bookkeeping === true)('snapshots', () => {
+      let target: InMemoryStorage;
+
+      function claim(id: string, value: string): Record<string, unknown> & { id: string } {
+        return { id, subjectId: 'e1', predicate: 'name', objectValue: value, context: 'ctx', provenanceId: 'p1', createdAt: 1000 };
+      }
+
+      beforeEach(async () => {
+        target = new InMemoryStorage();
+        expect((await target.initialize()).ok).toBe(true);
+      });
+
+      afterEach(async () => {
+        await target.close();
+      });
+
+      it('should capture every collection with versions and migration state', async () => {
+        await storage.insertMany('entities', [entity('e1'), entity('e2', 'Person', 2000)]);
+        await storage.insert('claims', claim('c1', 'First'));
+        await storage.upsert('claims', claim('c1', 'Revised'));
+
+        const snapshot = await storage.snapshot();
+        expect(snapshot.ok).toBe(true);
+        if (!snapshot.ok) return;
+        expect(snapshot.value.incremental).toBe(false);
+        expect(snapshot.value.sequence).toBe(4);
+        expect(snapshot.value.migrations['core']).toBeGreaterThan(0);
+        expect(snapshot.value.collections['entities']?.map((r) => r.id)).toEqual(['e1', 'e2']);
+        expect(snapshot.value.collections['claims']?.map((r) => r['objectValue'])).toEqual(['First', 'Revised']);
+
+        const restored = await target.restore(snapshot.value);
+        expect(restored.ok && restored.value).toEqual({ restored: 4, skipped: 0, collections: 2 });
+        const versions = await target.findVersions('claims', 'c1');
+        expect(versions.ok && versions.value.map((v) => v.record['objectValue'])).toEqual(['First', 'Revised']);
+        const count = await target.count('entities');
+        expect(count.ok && count.value).toBe(2);
+      });
+
+      it('should restore a snapshot taken from another backend', async () => {
+        await target.insert('entities', entity('e1'));
+        await target.insert('claims', claim('c1', 'First'));
+        const snapshot = await target.snapshot();
+        expect(snapshot.ok).toBe(true);
+        if (!snapshot.ok) return;
+
+        const restored = await storage.restore(snapshot.value);
+        expect(restored.ok).toBe(true);
+        expect(await ids()).toEqual(['e1']);
+        const restoredClaim = await storage.findById('claims', 'c1');
+        expect(restoredClaim.ok && restoredClaim.value?.['objectValue']).toBe('First');
+      });
+
+      it('should apply incremental snapshots by change sequence on top of a full one', async () => {
+        await storage.insert('entities', entity('e1'));
+        await storage.insert('claims', claim('c1', 'First'));
+        const full = await storage.snapshot();
+        expect(full.ok).toBe(true);
+        if (!full.ok) return;
+
+        await storage.upsert('entities', { ...entity('e1'), name: 'Renamed' });
+        await storage.upsert('claims', claim('c1', 'Second'));
+        await storage.upsert('claims', claim('c1', 'Third'));
+        await storage.insert('entities', entity('e2'));
+        const increment = await storage.snapshot({ sinceSequence: full.value.sequence });
+        expect(increment.ok).toBe(true);
+        if (!increment.ok) return;
+        expect(increment.value.incremental).toBe(true);
+        expect(increment.value.sequence).toBe(6);
+        expect(increment.value.collections['claims']?.map((r) => r['objectValue'])).toEqual(['Second', 'Third']);
+
+        expect((await target.restore(full.value)).ok).toBe(true);
+        const applied = await target.restore(increment.value);
+        expect(applied.ok && applied.value.restored).toBe(4);
+
+        const e1 = await target.findById('entities', 'e1');
+        expect(e1.ok && e1.value?.['name']).toBe('Renamed');
+        const versions = await target.findVersions('claims', 'c1');
+        expect(versions.ok && versions.value.map((v) => v.record['objectValue'])).toEqual(['First', 'Second', 'Third']);
+
+        const again = await target.restore(increment.value);
+        expect(again.ok && again.value.skipped).toBe(2);
+      });
+
+      it('should capture records created since a point in time', async () => {
+        await storage.insert('entities', entity('e1', 'Person', 1000));
+        await storage.insert('entities', entity('e2', 'Person', 3000));
+
+        const snapshot = await storage.snapshot({ since: 2000, collections: ['entities'] });
+        expect(snapshot.ok).toBe(true);
+        if (snapshot.ok) {
+          expect(snapshot.value.incremental).toBe(true);
+          expect(Object.keys(snapshot.value.collections)).toEqual(['entities']);
+          expect(snapshot.value.collections['entities']?.map((r) => r.id)).toEqual(['e2']);
+        }
+      });
+
+      it('should refuse a full snapshot into non-empty collections', async () => {
+        await storage.insert('entities', entity('e1'));
+        const snapshot = await storage.snapshot();
+        expect(snapshot.ok).toBe(true);
+        if (!snapshot.ok) return;
+
+        await target.insert('entities', entity('other'));
+        const restored = await target.restore(snapshot.value);
+        expect(restored.ok).toBe(false);
+        if (!restored.ok) {
+          expect(restored.error.code).toBe('CONSTRAINT_VIOLATION');
+        }
+      });
+
+      it('should refuse a snapshot from a newer schema', async () => {
+        await storage.insert('entities', entity('e1'));
+        const snapshot = await storage.snapshot();
+        expect(snapshot.ok).toBe(true);
+        if (!snapshot.ok) return;
+
+        const restored = await target.restore({ ...snapshot.value, migrations: { ...snapshot.value.migrations, core: 999 } });
+        expect(restored.ok).toBe(false);
+        if (!restored.ok) {
+          expect(restored.error.code).toBe('MIGRATION_FAILED');
+        }
+        const count = await target.count('entities');
+        expect(count.ok && count.value).toBe(0);
+      });
+
+      it('should roll the restore back when verification fails', async () => {
+        await target.insert('entities', entity('e1'));
+        const snapshot = await target.snapshot();
+        expect(snapshot.ok).toBe(true);
+        if (!snapshot.ok) return;
+
+        const restored = await storage.restore(snapshot.value, {
+          verify: async () => err(new StorageError('chain broken', 'INVALID_DATA')),
+        });
+        expect(restored.ok).toBe(false);
+        expect(await ids()).toEqual([]);
+      });
+    });
+
+    describe('transactions', () => {
+      it('should leave no partial data when insertMany fails', async () => {
+        await storage.insert('entities', entity('e0'));
+        const result = await storage.insertMany('entities', [entity('e1'), entity('e2'), entity('e1')]);
+
+        expect(result.ok).toBe(false);
+        expect(await ids()).toEqual(['e0']);
+      });
+
+      it('should commit all writes of a successful transaction', async () => {
+        const result = await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          await storage.upsert('entities', entity('e2'));
+          return ok('done');
+        });
+
+        expect(result.ok && result.value).toBe('done');
+        expect(await ids()).toEqual(['e1', 'e2']);
+      });
+
+      it('should see its own uncommitted writes', async () => {
+        await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          const inside = await storage.findById('entities', 'e1');
+          expect(inside.ok && inside.value?.id).toBe('e1');
+          const count = await storage.count('entities');
+          expect(count.ok && count.value).toBe(1);
+          return ok(undefined);
+        });
+      });
+
+      it('should roll back all writes when the transaction returns an error', async () => {
+        await storage.insert('entities', entity('e0'));
+
+        const result = await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          await storage.upsert('entities', { ...entity('e0'), name: 'Changed' });
+          return err(new StorageError('abort', 'CONSTRAINT_VIOLATION'));
+        });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error.code).toBe('CONSTRAINT_VIOLATION');
+        }
+        expect(await ids()).toEqual(['e0']);
+        const original = await storage.findById('entities', 'e0');
+        expect(original.ok && original.value?.['name']).toBe('Entity e0');
+      });
+
+      it('should roll back and report QUERY_FAILED when the callback throws', async () => {
+        const result = await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          throw new Error('boom');
+        });
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error.code).toBe('QUERY_FAILED');
+          expect(result.error.message).toContain('boom');
+        }
+        expect(await ids()).toEqual([]);
+      });
+
+      it('should roll back a failed nested transaction to its savepoint only', async () => {
+        const result = await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+
+          const inner = await storage.transaction(async () => {
+            await storage.insert('entities', entity('e2'));
+            return err(new StorageError('inner abort', 'QUERY_FAILED'));
+          });
+          expect(inner.ok).toBe(false);
+
+          const innerInsertMany = await storage.insertMany('entities', [entity('e3'), entity('e1')]);
+          expect(innerInsertMany.ok).toBe(false);
+
+          await storage.insert('entities', entity('e4'));
+          return ok(undefined);
+        });
+
+        expect(result.ok).toBe(true);
+        expect(await ids()).toEqual(['e1', 'e4']);
+      });
+
+      it('should discard released savepoints when the outer transaction fails', async () => {
+        const result = await storage.transaction(async () => {
+          const inner = await storage.transaction(async () => {
+            await storage.insert('entities', entity('e1'));
+            return ok(undefined);
+          });
+          expect(inner.ok).toBe(true);
+          return err(new StorageError('outer abort', 'QUERY_FAILED'));
+        });
+
+        expect(result.ok).toBe(false);
+        expect(await ids()).toEqual([]);
+      });
+
+      it('should support several levels of nesting', async () => {
+        await storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          await storage.transaction(async () => {
+            await storage.insert('entities', entity('e2'));
+            await storage.transaction(async () => {
+              await storage.insert('entities', entity('e3'));
+              return err(new StorageError('abort', 'QUERY_FAILED'));
+            });
+            return ok(undefined);
+          });
+          return ok(undefined);
+        });
+
+        expect(await ids()).toEqual(['e1', 'e2']);
+      });
+
+      it('should run concurrent transactions one at a time', async () => {
+        const events: string[] = [];
+
+        const first = storage.transaction(async () => {
+          events.push('first:start');
+          await storage.insert('entities', entity('e1'));
+          await delay(20);
+          events.push('first:end');
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+        const second = storage.transaction(async () => {
+          events.push('second:start');
+          await storage.insert('entities', entity('e2'));
+          events.push('second:end');
+          return ok(undefined);
+        });
+
+        const [firstResult, secondResult] = await Promise.all([first, second]);
+        expect(firstResult.ok).toBe(false);
+        expect(secondResult.ok).toBe(true);
+        expect(events).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+        expect(await ids()).toEqual(['e2']);
+      });
+
+      it('should not let a failing transaction roll back writes made outside it', async () => {
+        const tx = storage.transaction(async () => {
+          await storage.insert('entities', entity('e1'));
+          await delay(20);
+          return err(new StorageError('abort', 'QUERY_FAILED'));
+        });
+        const outside = storage.insert('entities', entity('e2'));
+
+        const [txResult, outsideResult] = await Promise.all([tx, outside]);
+        expect(txResult.ok).toBe(false);
+        expect(outsideResult.ok).toBe(true);
+        expect(await ids()).toEqual(['e2']);
+      });
+    });
+  });
+}
+
+let tempDir: string | null = null;
+
+const backends: ConformanceBackend[] = [
+  { name: 'InMemoryStorage', create: () => new InMemoryStorage() },
+  { name: 'SQLiteStorage (:memory:)', create: () => new SQLiteStorage({ path: ':memory:' }) },
+  {
+    name: 'SQLiteStorage (journaled file)',
+    create: async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'cg-conformance-'));
+      return new SQLiteStorage({ path: join(tempDir, 'graph.db') });
+    },
+    cleanup: async () => {
+      if (tempDir !== null) {
+        await rm(tempDir, { recursive: true, force: true });
+        tempDir = null;
+      }
+    },
+  },
+  {
+    name: 'AppendLogStorage',
+    create: async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'cg-conformance-'));
+      return new AppendLogStorage({ directory: join(tempDir, 'log') });
+    },
+    cleanup: async () => {
+      if (tempDir !== null) {
+        await rm(tempDir, { recursive: true, force: true });
+        tempDir = null;
+      }
+    },
+  },
+  { name: 'CachedStorage(InMemoryStorage)', create: () => new CachedStorage(new InMemoryStorage()) },
+  { name: 'CachedStorage(SQLiteStorage)', create: () => new CachedStorage(new SQLiteStorage({ path: ':memory:' })) },
+  {
+    name: 'EncryptedStorage(InMemoryStorage)',
+    create: () =>
+      new EncryptedStorage(new InMemoryStorage(), {
+        keyring: new LocalKeyring({
+          keys: { k1: LocalKeyring.generateKey() },
+          activeKeyId: 'k1',
+          indexKey: LocalKeyring.generateKey(),
+        }),
+        collections: { entities: { fields: ['type'], blindIndexes: ['type'] } },
+      }),
+    bookkeeping: true,
+  },
+  {
+    name: 'OverlayStorage(InMemoryStorage)',
+    create: async () => {
+      // The overlay expects an initialized base
+      const base = new InMemoryStorage();
+      await base.initialize();
+      return new OverlayStorage(base);
+    },
+  },
+];
+
+for (const backend of backends) {
+  describeStorageConformance(backend);
+}
@@ -0,0 +1,202 @@
+/**
+ * Query Criteria Tests
+ *
+ * Every case runs against both backends to guarantee identical semantics.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InMemoryStorage } from '../memory.js';
+import { SQLiteStorage } from '../sqlite.js';
+import { CachedStorage } from '../cached.js';
+import { createCacheKey } from '../cache.js';
+import { criteriaToSql, type QueryCriteria } from '../criteria.js';
+import type { StorageInterface } from '../interface.js';
+
+const claims = [
+  {
+    id: 'c1',
+    subjectId: 'acme',
+    predicate: 'risk_score',
+    objectId: null,
+    objectValue: '0.9',
+    context: JSON.stringify({ temporal: { start: 100, end: null }, jurisdiction: 'EU', confidence: 0.9 }),
+    provenanceId: 'p1',
+    createdAt: 1000,
+  },
+  {
+    id: 'c2',
+    subjectId: 'acme',
+    predicate: 'supplier_of',
+    objectId: 'globex',
+    objectValue: null,
+    context: JSON.stringify({ temporal: { start: 200, end: 300 }, jurisdiction: 'US' }),
+    provenanceId: 'p1',
+    createdAt: 2000,
+  },
+  {
+    id: 'c3',
+    subjectId: 'Globex',
+    predicate: 'risk_score',
+    objectId: null,
+    objectValue: '0.4',
+    context: JSON.stringify({ temporal: { start: 150, end: null }, jurisdiction: 'EU', confidence: 0.5 }),
+    provenanceId: 'p2',
+    createdAt: 3000,
+  },
+  {
+    id: 'c4',
+    subjectId: 'initech',
+    predicate: 'supplier_of',
+    objectId: 'acme',
+    objectValue: null,
+    context: JSON.stringify({ temporal: { start: 50, end: null } }),
+    provenanceId: 'p3',
+    createdAt: 4000,
+  },
+];
+
+const cases: { name: string; criteria: QueryCriteria; expected: string[] }[] = [
+  { name: 'equality', criteria: { predicate: 'risk_score' }, expected: ['c1', 'c3'] },
+  { name: '$gt', criteria: { createdAt: { $gt: 2000 } }, expected: ['c3', 'c4'] },
+  { name: '$gte and $lt', criteria: { createdAt: { $gte: 2000, $lt: 4000 } }, expected: ['c2', 'c3'] },
+  { name: '$lte', criteria: { createdAt: { $lte: 1000 } }, expected: ['c1'] },
+  { name: '$in', criteria: { subjectId: { $in: ['acme', 'initech'] } }, expected: ['c1', 'c2', 'c4'] },
+  { name: 'empty $in', criteria: { subjectId: { $in: [] } }, expected: [] },
+  { name: '$nin', criteria: { provenanceId: { $nin: ['p1'] } }, expected: ['c3', 'c4'] },
+  { name: '$nin matches null', criteria: { objectId: { $nin: ['globex'] } }, expected: ['c1', 'c3', 'c4'] },
+  { name: '$ne matches null', criteria: { objectId: { $ne: 'acme' } }, expected: ['c1', 'c2', 'c3'] },
+  { name: '$like case-insensitive', criteria: { subjectId: { $like: 'glo%' } }, expected: ['c3'] },
+  { name: '$like single char', criteria: { subjectId: { $like: 'acm_' } }, expected: ['c1', 'c2'] },
+  { name: '$exists true', criteria: { objectId: { $exists: true } }, expected: ['c2', 'c4'] },
+  { name: '$exists false', criteria: { objectId: { $exists: false } }, expected: ['c1', 'c3'] },
+  { name: 'null equality', criteria: { objectId: null }, expected: ['c1', 'c3'] },
+  { name: 'JSON path equality', criteria: { 'context.jurisdiction': 'EU' }, expected: ['c1', 'c3'] },
+  { name: 'nested JSON path', criteria: { 'context.temporal.start': { $lt: 150 } }, expected: ['c1', 'c4'] },
+  { name: 'JSON path null end', criteria: { 'context.temporal.end': null }, expected: ['c1', 'c3', 'c4'] },
+  { name: 'JSON path $gte', criteria: { 'context.confidence': { $gte: 0.7 } }, expected: ['c1'] },
+  { name: 'JSON path $exists', criteria: { 'context.jurisdiction': { $exists: false } }, expected: ['c4'] },
+  {
+    name: '$or',
+    criteria: { $or: [{ subjectId: 'initech' }, { 'context.confidence': { $lt: 0.6 } }] },
+    expected: ['c3', 'c4'],
+  },
+  {
+    name: '$and inside $or',
+    criteria: {
+      $or: [
+        { $and: [{ predicate: 'supplier_of' }, { 'context.jurisdiction': 'US' }] },
+        { predicate: 'risk_score', subjectId: 'acme' },
+      ],
+    },
+    expected: ['c1', 'c2'],
+  },
+  { name: '$not', criteria: { $not: { predicate: 'risk_score' } }, expected: ['c2', 'c4'] },
+  {
+    name: '$not treats NULL comparisons as non-matching',
+    criteria: { $not: { 'context.confidence': { $gt: 0.6 } } },
+    expected: ['c2', 'c3', 'c4'],
+  },
+  { name: 'empty $or matches nothing', criteria: { $or: [] }, expected: [] },
+  { name: 'combined fields', criteria: { predicate: 'risk_score', 'context.jurisdiction': 'EU', createdAt: { $gt: 1000 } }, expected: ['c3'] },
+];
+
+const backends: { name: string; create: () => StorageInterface }[] = [
+  { name: 'InMemoryStorage', create: () => new InMemoryStorage() },
+  { name: 'SQLiteStorage', create: () => new SQLiteStorage({ path: ':memory:' }) },
+  { name: 'CachedStorage', create: () => new CachedStorage(new InMemoryStorage()) },
+];
+
+for (const backend of backends) {
+  describe(`${backend.name} criteria`, () => {
+    let storage: StorageInterface;
+
+    beforeEach(async () => {
+      storage = backend.create();
+      await storage.initialize();
+      for (const claim of claims) {
+        await storage.insert('claims', claim);
+      }
+    });
+
+    afterEach(async () => {
+      await storage.close();
+    });
+
+    for (const testCase of cases) {
+      it(`should support ${testCase.name}`, async () => {
+        const result = await storage.find('claims', testCase.criteria, { orderBy: 'id', orderDirection: 'asc' });
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.value.items.map((item) => item.id)).toEqual(testCase.expected);
+          expect(result.value.total).toBe(testCase.expected.length);
+        }
+
+        const count = await storage.count('claims', testCase.criteria);
+        expect(count.ok && count.value).toBe(testCase.expected.length);
+      });
+    }
+
+    it('should reject unknown operators', async () => {
+      const result = await storage.find('claims', { createdAt: { $between: [1, 2] } });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_DATA');
+      }
+    });
+
+    it('should reject malformed JSON paths', async () => {
+      const result = await storage.find('claims', { "context.juris'diction": 'EU' });
+      expect(result.ok).toBe(false);
+    });
+  });
+}
+
+describe('criteriaToSql', () => {
+  it('should compile JSON paths to json_extract', () => {
+    const { sql, params } = criteriaToSql({ 'context.jurisdiction': 'EU' });
+    expect(sql).toContain(`json_extract("context", '$.jurisdiction')`);
+    expect(params).toEqual(['EU']);
+  });
+
+  it('should keep params in placeholder order', () => {
+    const { sql, params } = criteriaToSql({ objectId: { $nin: ['a', 'b'] }, createdAt: { $gt: 5 } });
+    expect(sql).toBe('(("objectId" IS NULL OR "objectId" NOT IN (?, ?)) AND "createdAt" > ?)');
+    expect(params).toEqual(['a', 'b', 5]);
+  });
+
+  it('should read columns the table lacks as NULL', () => {
+    const { sql, params } = criteriaToSql({ type: 'Person', 'nickname.first': { $ne: 'Al' } }, new Set(['id', 'type']));
+    expect(sql).toBe('("type" = ? AND NULL IS NOT ?)');
+    expect(params).toEqual(['Person', 'Al']);
+  });
+});
+
+describe('CachedStorage criteria keys', () => {
+  it('should distinguish nested operator criteria', () => {
+    const a = createCacheKey('claims', { createdAt: { $gt: 1 } });
+    const b = createCacheKey('claims', { createdAt: { $gt: 2 } });
+    const c = createCacheKey('claims', { $or: [{ subjectId: 'a' }] });
+    const d = createCacheKey('claims', { $or: [{ subjectId: 'b' }] });
+    expect(a).not.toBe(b);
+    expect(c).not.toBe(d);
+  });
+
+  it('should be independent of nested key order', () => {
+    const a = createCacheKey('claims', { createdAt: { $gt: 1, $lt: 5 } });
+    const b = createCacheKey('claims', { createdAt: { $lt: 5, $gt: 1 } });
+    expect(a).toBe(b);
+  });
+
+  it('should not serve stale results for operator queries after a write', async () => {
+    const storage = new CachedStorage(new InMemoryStorage());
+    await storage.initialize();
+    await storage.insert('claims', claims[0]!);
+
+    const before = await storage.count('claims', { createdAt: { $gte: 1000 } });
+    expect(before.ok && before.value).toBe(1);
+
+    await storage.insert('claims', claims[1]!);
+    const after = await storage.count('claims', { createdAt: { $gte: 1000 } });
+    expect(after.ok && after.value).toBe(2);
+  });
+});
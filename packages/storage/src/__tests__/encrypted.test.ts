@@ -0,0 +1,258 @@
+/**
+ * EncryptedStorage Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ok } from '@contextgraph/core';
+import type { StorageInterface } from '../interface.js';
+import { InMemoryStorage } from '../memory.js';
+import { SQLiteStorage } from '../sqlite.js';
+import { LocalKeyring } from '../keyring.js';
+import { EncryptedStorage, DATA_KEYS_TABLE, ENVELOPE_PREFIX } from '../encrypted.js';
+
+function entity(id: string, name: string, metadata: Record<string, unknown> = {}): {
+  id: string;
+  type: string;
+  name: string;
+  metadata: Record<string, unknown>;
+  createdAt: number;
+} {
+  return { id, type: 'Person', name, metadata, createdAt: 1000 };
+}
+
+const inner: Array<{ name: string; create: () => StorageInterface }> = [
+  { name: 'InMemoryStorage', create: () => new InMemoryStorage() },
+  { name: 'SQLiteStorage', create: () => new SQLiteStorage({ path: ':memory:' }) },
+];
+
+for (const backend of inner) {
+  describe(`EncryptedStorage(${backend.name})`, () => {
+    let raw: StorageInterface;
+    let keyring: LocalKeyring;
+    let storage: EncryptedStorage;
+
+    beforeEach(async () => {
+      raw = backend.create();
+      keyring = new LocalKeyring({
+        keys: { k1: LocalKeyring.generateKey() },
+        activeKeyId: 'k1',
+        indexKey: LocalKeyring.generateKey(),
+      });
+      storage = new EncryptedStorage(raw, {
+        keyring,
+        collections: { entities: { fields: ['name', 'metadata'], blindIndexes: ['name'] } },
+      });
+      const init = await storage.initialize();
+      expect(init.ok).toBe(true);
+    });
+
+    afterEach(async () => {
+      await storage.close();
+    });
+
+    it('should store configured fields encrypted and read them back', async () => {
+      const inserted = await storage.insert('entities', entity('e1', 'Alice', { email: 'alice@example.com' }));
+      expect(inserted.ok && inserted.value.name).toBe('Alice');
+
+      const stored = await raw.findById('entities', 'e1');
+      expect(stored.ok).toBe(true);
+      if (stored.ok) {
+        expect(String(stored.value?.['name'])).toMatch(new RegExp(`^${ENVELOPE_PREFIX}`));
+        expect(JSON.stringify(stored.value)).not.toContain('alice@example.com');
+        expect(stored.value?.['type']).toBe('Person');
+      }
+
+      const found = await storage.findById('entities', 'e1');
+      expect(found.ok && found.value).toMatchObject({ name: 'Alice', metadata: { email: 'alice@example.com' } });
+    });
+
+    it('should find and count by blind indexed fields', async () => {
+      await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e2', 'Bob'), entity('e3', 'Alice')]);
+
+      const alices = await storage.find('entities', { name: 'Alice' }, { orderBy: 'id', orderDirection: 'asc' });
+      expect(alices.ok && alices.value.items.map((e) => e.id)).toEqual(['e1', 'e3']);
+
+      const others = await storage.count('entities', { name: { $ne: 'Alice' } });
+      expect(others.ok && others.value).toBe(1);
+
+      const either = await storage.find('entities', { $or: [{ name: 'Bob' }, { id: 'e3' }] }, { orderBy: 'id', orderDirection: 'asc' });
+      expect(either.ok && either.value.items.map((e) => e.id)).toEqual(['e2', 'e3']);
+
+      await storage.upsert('entities', entity('e1', 'Carol'));
+      const renamed = await storage.find('entities', { name: { $in: ['Carol', 'Bob'] } }, { orderBy: 'id', orderDirection: 'asc' });
+      expect(renamed.ok && renamed.value.items.map((e) => e.name)).toEqual(['Carol', 'Bob']);
+    });
+
+    it('should reject queries the blind indexes cannot answer', async () => {
+      const unindexed = await storage.find('entities', { metadata: { email: 'x' } });
+      expect(unindexed.ok).toBe(false);
+      if (!unindexed.ok) {
+        expect(unindexed.error.code).toBe('INVALID_DATA');
+      }
+
+      const range = await storage.find('entities', { name: { $gt: 'A' } });
+      expect(range.ok).toBe(false);
+
+      const ordered = await storage.find('entities', {}, { orderBy: 'name' });
+      expect(ordered.ok).toBe(false);
+    });
+
+    it('should detect tampered ciphertext', async () => {
+      await storage.insert('entities', entity('e1', 'Alice'));
+      await storage.insert('entities', entity('e2', 'Bob'));
+
+      // Move e2's ciphertext onto e1: authenticated data ties it to e2
+      const other = await raw.findById('entities', 'e2');
+      const original = await raw.findById('entities', 'e1');
+      if (!other.ok || !original.ok) throw new Error('lookup failed');
+      await raw.upsert('entities', { ...original.value!, name: other.value!['name'] });
+
+      const found = await storage.findById('entities', 'e1');
+      expect(found.ok).toBe(false);
+      if (!found.ok) {
+        expect(found.error.code).toBe('INVALID_DATA');
+      }
+    });
+
+    it('should rotate keys without rewriting records', async () => {
+      await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e2', 'Bob')]);
+      const before = await raw.findById('entities', 'e1');
+
+      keyring.addKey('k2', LocalKeyring.generateKey(), true);
+      await storage.insert('entities', entity('e3', 'Carol'));
+
+      const rotated = await storage.rotateKeys();
+      expect(rotated.ok && rotated.value).toEqual({ activeKeyId: 'k2', rewrapped: 2 });
+      keyring.removeKey('k1');
+
+      const after = await raw.findById('entities', 'e1');
+      expect(after.ok && before.ok && after.value?.['name']).toBe(before.ok && before.value?.['name']);
+
+      // A fresh wrapper has no cached data keys and must unwrap with k2
+      const reopened = new EncryptedStorage(raw, {
+        keyring,
+        collections: { entities: { fields: ['name', 'metadata'], blindIndexes: ['name'] } },
+      });
+      const found = await reopened.find('entities', { name: { $in: ['Alice', 'Carol'] } }, { orderBy: 'id', orderDirection: 'asc' });
+      expect(found.ok && found.value.items.map((e) => e.name)).toEqual(['Alice', 'Carol']);
+
+      const again = await storage.rotateKeys();
+      expect(again.ok && again.value.rewrapped).toBe(0);
+    });
+
+    it('should leave no data key wrapped with a retired master key after rotation', async () => {
+      await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e2', 'Bob')]);
+      const wrapped = await raw.find(DATA_KEYS_TABLE, {});
+      const retired = wrapped.ok ? wrapped.value.items.map((row) => String(row['wrappedKey'])) : [];
+      expect(retired).toHaveLength(2);
+
+      keyring.addKey('k2', LocalKeyring.generateKey(), true);
+      const rotated = await storage.rotateKeys();
+      expect(rotated.ok && rotated.value.rewrapped).toBe(2);
+
+      const changes = await storage.changesSince(0);
+      expect(changes.ok).toBe(true);
+      const keyChanges = changes.ok ? changes.value.filter((change) => change.collection === DATA_KEYS_TABLE) : [];
+      expect(keyChanges.length).toBeGreaterThan(0);
+      const snapshot = await storage.snapshot();
+      expect(snapshot.ok).toBe(true);
+      for (const leaked of [JSON.stringify(keyChanges), JSON.stringify(snapshot.ok && snapshot.value)]) {
+        for (const key of retired) {
+          expect(leaked).not.toContain(key);
+        }
+      }
+
+      keyring.removeKey('k1');
+      const found = await storage.findById('entities', 'e1');
+      expect(found.ok && found.value?.name).toBe('Alice');
+    });
+
+    it('should keep prior versions readable in versioned collections', async () => {
+      await storage.registerCollection('entities', { writeMode: 'versioned' });
+      await storage.insert('entities', entity('e1', 'Alice'));
+      await storage.upsert('entities', entity('e1', 'Alicia'));
+
+      const versions = await storage.findVersions('entities', 'e1');
+      expect(versions.ok && versions.value.map((v) => v.record['name'])).toEqual(['Alice', 'Alicia']);
+    });
+
+    it('should decrypt change events', async () => {
+      const names: unknown[] = [];
+      const subscription = storage.subscribe(
+        (change) => {
+          if (change.collection === 'entities') names.push(change.after?.['name']);
+        },
+        { collections: ['entities'] }
+      );
+
+      await storage.insert('entities', entity('e1', 'Alice'));
+      await storage.upsert('entities', entity('e1', 'Alicia'));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      subscription.unsubscribe();
+      expect(names).toEqual(['Alice', 'Alicia']);
+
+      const changes = await storage.changesSince(0, { collections: ['entities'] });
+      expect(changes.ok && changes.value.map((c) => c.before?.['name'] ?? null)).toEqual([null, 'Alice']);
+    });
+
+    it('should not leave a data key behind when the write fails', async () => {
+      await storage.insert('entities', entity('e1', 'Alice'));
+      const duplicate = await storage.insert('entities', entity('e1', 'Mallory'));
+      expect(duplicate.ok).toBe(false);
+
+      const result = await storage.transaction(async () => {
+        await storage.insert('entities', entity('e2', 'Bob'));
+        return ok(undefined);
+      });
+      expect(result.ok).toBe(true);
+      const found = await storage.find('entities', { name: 'Bob' });
+      expect(found.ok && found.value.items.map((e) => e.id)).toEqual(['e2']);
+    });
+
+    it('should snapshot ciphertext and restore it with the same keys', async () => {
+      await storage.insert('entities', entity('e1', 'Alice', { email: 'alice@example.com' }));
+      const snapshot = await storage.snapshot();
+      expect(snapshot.ok).toBe(true);
+      if (!snapshot.ok) return;
+      expect(JSON.stringify(snapshot.value.collections)).not.toContain('alice@example.com');
+
+      const copy = new EncryptedStorage(backend.create(), {
+        keyring,
+        collections: { entities: { fields: ['name', 'metadata'], blindIndexes: ['name'] } },
+      });
+      expect((await copy.initialize()).ok).toBe(true);
+      const restored = await copy.restore(snapshot.value);
+      expect(restored.ok).toBe(true);
+
+      const found = await copy.find('entities', { name: 'Alice' });
+      expect(found.ok && found.value.items.map((e) => e.metadata)).toEqual([{ email: 'alice@example.com' }]);
+      await copy.close();
+    });
+
+    it('should reject invalid configuration', async () => {
+      const invalid = new EncryptedStorage(backend.create(), {
+        keyring,
+        collections: { entities: { fields: ['name'], blindIndexes: ['type'] } },
+      });
+      const init = await invalid.initialize();
+      expect(init.ok).toBe(false);
+    });
+  });
+}
+
+describe('LocalKeyring', () => {
+  it('should reject keys of the wrong length', () => {
+    expect(() => new LocalKeyring({ keys: { k1: 'c2hvcnQ=' }, activeKeyId: 'k1', indexKey: LocalKeyring.generateKey() })).toThrow(
+      /expected 32 bytes/
+    );
+  });
+
+  it('should not remove the active key', () => {
+    const keyring = new LocalKeyring({
+      keys: { k1: LocalKeyring.generateKey() },
+      activeKeyId: 'k1',
+      indexKey: LocalKeyring.generateKey(),
+    });
+    expect(() => keyring.removeKey('k1')).toThrow(/active key/);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Write-Ahead Journal Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, appendFile, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ok } from '@contextgraph/core';
+import { SQLiteStorage } from '../sqlite.js';
+
+function entity(id: string, name: string): { id: string; type: string; name: string; createdAt: number } {
+  return { id, type: 'Person', name, createdAt: Date.now() };
+}
+
+describe('SQLiteStorage journal', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cg-journal-'));
+    dbPath = join(dir, 'graph.db');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist writes without closing (simulated process kill)', async () => {
+    const writer = new SQLiteStorage({ path: dbPath });
+    await writer.initialize();
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await writer.insert('entities', entity('e2', 'Bob'));
+    // No close(): the process is considered killed here
+
+    const reader = new SQLiteStorage({ path: dbPath });
+    await reader.initialize();
+    const result = await reader.count('entities');
+    expect(result.ok && result.value).toBe(2);
+    await reader.close();
+  });
+
+  it('should append only the change to the journal', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+    const baseSize = (await stat(dbPath)).size;
+
+    await storage.insert('entities', entity('e1', 'Alice'));
+    const journalSize = storage.getJournalSize();
+
+    expect(journalSize).toBeGreaterThan(0);
+    expect(journalSize).toBeLessThan(baseSize);
+    expect((await stat(dbPath)).size).toBe(baseSize);
+    await storage.close();
+  });
+
+  it('should journal a committed transaction as one entry', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+
+    await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e2', 'Bob')]);
+
+    const lines = (await readFile(`${dbPath}-wal`, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(1);
+    // Each insert writes the record and its change log entry
+    expect(JSON.parse(lines[0]!).statements).toHaveLength(4);
+    await storage.close();
+  });
+
+  it('should not journal rolled back transactions', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+
+    const result = await storage.insertMany('entities', [entity('e1', 'Alice'), entity('e1', 'Duplicate')]);
+    expect(result.ok).toBe(false);
+    expect(storage.getJournalSize()).toBe(0);
+
+    const reopened = new SQLiteStorage({ path: dbPath });
+    await reopened.initialize();
+    const count = await reopened.count('entities');
+    expect(count.ok && count.value).toBe(0);
+    await reopened.close();
+  });
+
+  it('should discard a torn tail write on recovery', async () => {
+    const writer = new SQLiteStorage({ path: dbPath });
+    await writer.initialize();
+    await writer.insert('entities', entity('e1', 'Alice'));
+    await appendFile(`${dbPath}-wal`, '{"seq":2,"statements":[{"sql":"INSERT');
+
+    const reader = new SQLiteStorage({ path: dbPath });
+    const init = await reader.initialize();
+    expect(init.ok).toBe(true);
+    const count = await reader.count('entities');
+    expect(count.ok && count.value).toBe(1);
+
+    // The recovered journal accepts new appends cleanly
+    await reader.insert('entities', entity('e2', 'Bob'));
+    await reader.close();
+
+    const again = new SQLiteStorage({ path: dbPath });
+    await again.initialize();
+    const recount = await again.count('entities');
+    expect(recount.ok && recount.value).toBe(2);
+    await again.close();
+  });
+
+  it('should compact the journal into the base file on save', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+    await storage.insert('entities', entity('e1', 'Alice'));
+
+    const saved = await storage.save();
+    expect(saved.ok).toBe(true);
+    expect(storage.getJournalSize()).toBe(0);
+
+    const reopened = new SQLiteStorage({ path: dbPath });
+    await reopened.initialize();
+    const found = await reopened.findById('entities', 'e1');
+    expect(found.ok && found.value?.['name']).toBe('Alice');
+    await reopened.close();
+  });
+
+  it('should not replay entries already contained in the checkpoint', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+    await storage.insert('entities', entity('e1', 'Alice'));
+    const journal = await readFile(`${dbPath}-wal`, 'utf8');
+
+    await storage.save();
+    // Simulate a crash between the base file rename and the journal truncate
+    await appendFile(`${dbPath}-wal`, journal);
+
+    const reopened = new SQLiteStorage({ path: dbPath });
+    const init = await reopened.initialize();
+    expect(init.ok).toBe(true);
+    const count = await reopened.count('entities');
+    expect(count.ok && count.value).toBe(1);
+    await reopened.close();
+  });
+
+  it('should compact automatically past the threshold', async () => {
+    const storage = new SQLiteStorage({ path: dbPath, compactThreshold: 512 });
+    await storage.initialize();
+
+    for (let i = 0; i < 10; i++) {
+      await storage.insert('entities', entity(`e${i}`, `Entity ${i}`));
+    }
+    expect(storage.getJournalSize()).toBeLessThan(512);
+    await storage.close();
+
+    const reopened = new SQLiteStorage({ path: dbPath });
+    await reopened.initialize();
+    const count = await reopened.count('entities');
+    expect(count.ok && count.value).toBe(10);
+    await reopened.close();
+  });
+
+  it('should journal raw write queries', async () => {
+    const storage = new SQLiteStorage({ path: dbPath });
+    await storage.initialize();
+    await storage.insert('entities', entity('e1', 'Alice'));
+    await storage.query('UPDATE entities SET name = ? WHERE id = ?', ['Alicia', 'e1']);
+    await storage.query('SELECT * FROM entities');
+
+    const lines = (await readFile(`${dbPath}-wal`, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const reopened = new SQLiteStorage({ path: dbPath });
+    await reopened.initialize();
+    const found = await reopened.findById('entities', 'e1');
+    expect(found.ok && found.value?.['name']).toBe('Alicia');
+    await reopened.close();
+  });
+
+  it('should rewrite the whole file when journaling is disabled', async () => {
+    const storage = new SQLiteStorage({ path: dbPath, journal: false });
+    await storage.initialize();
+    await storage.transaction(async () => {
+      await storage.insert('entities', entity('e1', 'Alice'));
+      return ok(undefined);
+    });
+    await storage.close();
+
+    await expect(stat(`${dbPath}-wal`)).rejects.toThrow();
+    const reopened = new SQLiteStorage({ path: dbPath, journal: false });
+    await reopened.initialize();
+    const count = await reopened.count('entities');
+    expect(count.ok && count.value).toBe(1);
+    await reopened.close();
+  });
+});
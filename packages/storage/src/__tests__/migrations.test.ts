@@ -0,0 +1,231 @@
+/**
+ * Migration Tests
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import initSqlJs from 'sql.js';
+import {
+  MigrationRunner,
+  InMemorySchemaRegistry,
+  coreMigrations,
+  type Migration,
+} from '../migrations.js';
+import { SQLiteStorage } from '../sqlite.js';
+import { InMemoryStorage } from '../memory.js';
+
+type SqlJs = Awaited<ReturnType<typeof initSqlJs>>;
+
+const widgets: Migration[] = [
+  {
+    module: 'widgets',
+    version: 1,
+    name: 'create_widgets_table',
+    up: 'CREATE TABLE widgets (id TEXT PRIMARY KEY, createdAt INTEGER NOT NULL);',
+    down: 'DROP TABLE widgets;',
+  },
+  {
+    module: 'widgets',
+    version: 2,
+    name: 'add_widgets_color',
+    up: 'ALTER TABLE widgets ADD COLUMN color TEXT;',
+    down: 'ALTER TABLE widgets DROP COLUMN color;',
+  },
+];
+
+function tableExists(db: InstanceType<SqlJs['Database']>, name: string): boolean {
+  const result = db.exec(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${name}'`);
+  return result.length > 0 && result[0]!.values.length > 0;
+}
+
+describe('MigrationRunner', () => {
+  let SQL: SqlJs;
+
+  beforeAll(async () => {
+    SQL = await initSqlJs();
+  });
+
+  it('should record checksums for applied migrations', () => {
+    const db = new SQL.Database();
+    const runner = new MigrationRunner(db);
+    const applied = runner.run(coreMigrations);
+
+    expect(applied.ok && applied.value).toBe(coreMigrations.length);
+    const status = runner.status();
+    expect(status.ok).toBe(true);
+    if (status.ok) {
+      expect(status.value.every((m) => m.state === 'applied' && m.module === 'core')).toBe(true);
+      expect(status.value.every((m) => m.appliedChecksum === m.checksum)).toBe(true);
+    }
+    expect(runner.getCurrentVersion()).toEqual({ ok: true, value: 14 });
+  });
+
+  it('should plan without applying (dry run)', () => {
+    const db = new SQL.Database();
+    const runner = new MigrationRunner(db);
+    runner.register(coreMigrations);
+
+    const plan = runner.plan();
+    expect(plan.ok && plan.value.map((s) => `${s.direction}:${s.version}`)).toEqual(
+      coreMigrations.map((m) => `up:${m.version}`)
+    );
+    expect(tableExists(db, 'entities')).toBe(false);
+    expect(runner.getCurrentVersion()).toEqual({ ok: true, value: 0 });
+  });
+
+  it('should roll back and re-apply with migrateTo', () => {
+    const db = new SQL.Database();
+    const runner = new MigrationRunner(db);
+    runner.run(coreMigrations);
+
+    const plan = runner.plan(6);
+    expect(plan.ok && plan.value.map((s) => `${s.direction}:${s.version}`)).toEqual(['down:14', 'down:13', 'down:12', 'down:11', 'down:10', 'down:9', 'down:8', 'down:7']);
+
+    const down = runner.migrateTo(6);
+    expect(down.ok && down.value).toBe(8);
+    expect(tableExists(db, 'ontology_versions')).toBe(false);
+    expect(tableExists(db, 'exceptions')).toBe(true);
+
+    const status = runner.status();
+    expect(status.ok && status.value.filter((m) => m.state === 'pending').map((m) => m.version)).toEqual([7, 8, 9, 10, 11, 12, 13, 14]);
+
+    const up = runner.migrateTo(14);
+    expect(up.ok && up.value).toBe(8);
+    expect(tableExists(db, 'ontology_versions')).toBe(true);
+  });
+
+  it('should detect migrations edited after being applied', () => {
+    const db = new SQL.Database();
+    new MigrationRunner(db).run(widgets);
+
+    const edited = widgets.map((m) =>
+      m.version === 1 ? { ...m, up: 'CREATE TABLE widgets (id TEXT PRIMARY KEY, name TEXT, createdAt INTEGER NOT NULL);' } : m
+    );
+    const runner = new MigrationRunner(db);
+    runner.register(edited);
+
+    const status = runner.status();
+    expect(status.ok && status.value.find((m) => m.version === 1)?.state).toBe('modified');
+
+    const result = runner.run();
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('MIGRATION_FAILED');
+      expect(result.error.message).toContain('widgets#1');
+    }
+  });
+
+  it('should refuse to roll back migrations without a down script', () => {
+    const db = new SQL.Database();
+    const runner = new MigrationRunner(db);
+    runner.run([{ module: 'widgets', version: 1, name: 'create_widgets_table', up: widgets[0]!.up }]);
+
+    const result = runner.migrateTo(0, 'widgets');
+    expect(result.ok).toBe(false);
+    expect(tableExists(db, 'widgets')).toBe(true);
+  });
+
+  it('should apply each migration atomically', () => {
+    const db = new SQL.Database();
+    const runner = new MigrationRunner(db);
+    const result = runner.run([
+      { module: 'broken', version: 1, name: 'half_applied', up: 'CREATE TABLE half (id TEXT); INSERT INTO missing VALUES (1);' },
+    ]);
+
+    expect(result.ok).toBe(false);
+    expect(tableExists(db, 'half')).toBe(false);
+    expect(runner.getCurrentVersion('broken')).toEqual({ ok: true, value: 0 });
+  });
+
+  it('should reject conflicting registrations', () => {
+    const runner = new MigrationRunner(new InMemorySchemaRegistry());
+    expect(runner.register(widgets).ok).toBe(true);
+    expect(runner.register(widgets).ok).toBe(true);
+    expect(runner.register([{ ...widgets[0]!, up: 'CREATE TABLE other (id TEXT);' }]).ok).toBe(false);
+  });
+
+  it('should upgrade the legacy migrations table', () => {
+    const db = new SQL.Database();
+    db.run('CREATE TABLE _migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL)');
+    db.run(coreMigrations[0]!.up);
+    db.run('INSERT INTO _migrations (version, name, applied_at) VALUES (1, ?, 1)', [coreMigrations[0]!.name]);
+
+    const runner = new MigrationRunner(db);
+    const result = runner.run(coreMigrations);
+    expect(result.ok && result.value).toBe(coreMigrations.length - 1);
+
+    const applied = runner.getAppliedMigrations();
+    expect(applied.ok).toBe(true);
+    if (applied.ok) {
+      expect(applied.value[0]).toMatchObject({ module: 'core', version: 1, appliedAt: 1 });
+      expect(applied.value[0]!.checksum).toMatch(/^[0-9a-f]{64}$/);
+    }
+  });
+});
+
+describe('Storage migrations', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cg-migrations-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should track the same schema versions in both backends', async () => {
+    const sqlite = new SQLiteStorage({ path: ':memory:' });
+    const memory = new InMemoryStorage();
+    await sqlite.initialize();
+    await memory.initialize();
+
+    for (const storage of [sqlite, memory]) {
+      const applied = await storage.registerMigrations(widgets);
+      expect(applied.ok && applied.value).toBe(2);
+      const rolledBack = await storage.migrateTo(1, 'widgets');
+      expect(rolledBack.ok && rolledBack.value).toBe(1);
+    }
+
+    const summarize = async (storage: SQLiteStorage | InMemoryStorage): Promise<string[]> => {
+      const status = await storage.migrationStatus();
+      return status.ok ? status.value.map((m) => `${m.module}#${m.version}:${m.state}`) : [];
+    };
+    const sqliteStatus = await summarize(sqlite);
+    expect(sqliteStatus).toContain('widgets#2:pending');
+    expect(await summarize(memory)).toEqual(sqliteStatus);
+
+    await sqlite.close();
+    await memory.close();
+  });
+
+  it('should persist package migrations in journaled databases', async () => {
+    const path = join(dir, 'graph.db');
+    const storage = new SQLiteStorage({ path });
+    await storage.initialize();
+    await storage.registerMigrations(widgets);
+    await storage.insert('widgets', { id: 'w1', color: 'red', createdAt: 1 });
+
+    const reopened = new SQLiteStorage({ path });
+    await reopened.initialize();
+    const again = await reopened.registerMigrations(widgets);
+    expect(again.ok && again.value).toBe(0);
+    const found = await reopened.findById('widgets', 'w1');
+    expect(found.ok && found.value?.['color']).toBe('red');
+    await reopened.close();
+  });
+
+  it('should not run migrations inside a transaction', async () => {
+    const storage = new SQLiteStorage({ path: ':memory:' });
+    await storage.initialize();
+
+    const result = await storage.transaction(async () => storage.registerMigrations(widgets));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('MIGRATION_FAILED');
+    }
+    await storage.close();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * OverlayStorage Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { err } from '@contextgraph/core';
+import { InMemoryStorage } from '../memory.js';
+import { SQLiteStorage } from '../sqlite.js';
+import { OverlayStorage, createOverlayStorage } from '../overlay.js';
+import { StorageError, type StorageInterface } from '../interface.js';
+
+function entity(id: string, name: string, createdAt: number): { id: string; type: string; name: string; createdAt: number } {
+  return { id, type: 'Person', name, createdAt };
+}
+
+async function names(storage: StorageInterface): Promise<string[]> {
+  const result = await storage.find('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc' });
+  expect(result.ok).toBe(true);
+  return result.ok ? result.value.items.map((item) => String(item['name'])) : [];
+}
+
+for (const [label, createBase] of [
+  ['InMemoryStorage', (): StorageInterface => new InMemoryStorage()],
+  ['SQLiteStorage', (): StorageInterface => new SQLiteStorage({ path: ':memory:' })],
+] as const) {
+  describe(`OverlayStorage(${label})`, () => {
+    let base: StorageInterface;
+    let overlay: OverlayStorage;
+
+    beforeEach(async () => {
+      base = createBase();
+      await base.initialize();
+      await base.insert('entities', entity('e1', 'Alice', 1));
+      await base.insert('entities', entity('e2', 'Bob', 2));
+      await base.insert('entities', entity('e3', 'Carol', 3));
+      overlay = createOverlayStorage(base);
+      expect((await overlay.initialize()).ok).toBe(true);
+    });
+
+    it('should read through to the base and keep writes out of it', async () => {
+      await overlay.insert('entities', entity('e4', 'Dave', 4));
+      await overlay.upsert('entities', { ...entity('e2', 'Robert', 2) });
+
+      expect(await names(overlay)).toEqual(['Alice', 'Robert', 'Carol', 'Dave']);
+      expect(await names(base)).toEqual(['Alice', 'Bob', 'Carol']);
+
+      const found = await overlay.findById('entities', 'e2');
+      expect(found.ok && found.value?.['name']).toBe('Robert');
+      const count = await overlay.count('entities', { name: { $in: ['Bob', 'Robert', 'Dave'] } });
+      expect(count.ok && count.value).toBe(2);
+    });
+
+    it('should page through both layers with offsets and cursors', async () => {
+      await overlay.insert('entities', entity('e0', 'Zed', 0));
+      await overlay.upsert('entities', entity('e3', 'Caroline', 5));
+
+      const page = await overlay.find('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc', limit: 2, offset: 1 });
+      expect(page.ok && page.value.items.map((item) => item['name'])).toEqual(['Alice', 'Bob']);
+      expect(page.ok && page.value.total).toBe(4);
+      expect(page.ok && page.value.hasMore).toBe(true);
+
+      const streamed: unknown[] = [];
+      for await (const record of overlay.stream('entities', {}, { orderBy: 'createdAt', orderDirection: 'asc', batchSize: 1 })) {
+        streamed.push(record['name']);
+      }
+      expect(streamed).toEqual(['Zed', 'Alice', 'Bob', 'Caroline']);
+    });
+
+    it('should reject duplicates of base records and honour append-only collections', async () => {
+      const duplicate = await overlay.insert('entities', entity('e1', 'Again', 9));
+      expect(!duplicate.ok && duplicate.error.code).toBe('DUPLICATE_KEY');
+
+      await base.registerCollection('entities', { writeMode: 'append_only' });
+      const replaced = await overlay.upsert('entities', entity('e1', 'Renamed', 1));
+      expect(!replaced.ok && replaced.error.code).toBe('CONSTRAINT_VIOLATION');
+    });
+
+    it('should list base versions before the versions written through the overlay', async () => {
+      await base.upsert('entities', entity('e1', 'Alicia', 1));
+      await overlay.upsert('entities', entity('e1', 'Ali', 1));
+      await overlay.upsert('entities', entity('e1', 'Al', 1));
+
+      const versions = await overlay.findVersions('entities', 'e1');
+      expect(versions.ok && versions.value.map((version) => [version.version, version.record['name']])).toEqual([
+        [1, 'Alice'],
+        [2, 'Alicia'],
+        [3, 'Ali'],
+        [4, 'Al'],
+      ]);
+      expect(versions.ok && versions.value[1]?.supersededAt).toBeDefined();
+    });
+
+    it('should report its writes with conflicts against later base changes', async () => {
+      await overlay.upsert('entities', entity('e1', 'Ali', 1));
+      await overlay.upsert('entities', entity('e2', 'Robert', 2));
+      await overlay.insert('entities', entity('e4', 'Dave', 4));
+      await base.upsert('entities', entity('e2', 'Bobby', 2));
+      await base.insert('entities', entity('e4', 'David', 4));
+
+      const changes = await overlay.changes();
+      expect(changes.ok && changes.value.map((change) => [change.id, change.origin?.['name'] ?? null, change.conflict])).toEqual([
+        ['e1', 'Alice', false],
+        ['e2', 'Bob', true],
+        ['e4', null, true],
+      ]);
+      expect(changes.ok && changes.value[1]?.current?.['name']).toBe('Bobby');
+    });
+
+    it('should forget writes rolled back with a transaction', async () => {
+      const rolledBack = await overlay.transaction(async () => {
+        await overlay.upsert('entities', entity('e1', 'Ali', 1));
+        return err(new StorageError('Abort', 'CONSTRAINT_VIOLATION'));
+      });
+      expect(rolledBack.ok).toBe(false);
+
+      expect(await names(overlay)).toEqual(['Alice', 'Bob', 'Carol']);
+      const changes = await overlay.changes();
+      expect(changes.ok && changes.value).toEqual([]);
+    });
+
+    it('should drop its writes on close without closing the base', async () => {
+      await overlay.insert('entities', entity('e4', 'Dave', 4));
+      await overlay.close();
+
+      const health = await base.healthCheck();
+      expect(health.ok && health.value).toBe(true);
+      expect(await names(base)).toEqual(['Alice', 'Bob', 'Carol']);
+    });
+  });
+}
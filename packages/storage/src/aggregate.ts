@@ -0,0 +1,204 @@
+/**
+ * Group-by aggregation
+ *
+ * Counts the records of a collection matching criteria, grouped by the
+ * values of some fields. A millisecond timestamp field can be grouped by
+ * UTC calendar period instead of by value. SQLite compiles groupings to
+ * GROUP BY expressions; other backends count in memory with identical
+ * keys and ordering.
+ */
+
+import { StorageError, type StorageRecord } from './interface.js';
+import {
+  compareValues,
+  fieldToSql,
+  parseFieldRef,
+  resolveField,
+  type FieldRef,
+  type QueryCriteria,
+} from './criteria.js';
+
+/**
+ * Calendar period grouping timestamps
+ */
+export type TimeBucket = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Field to group by
+ */
+export interface GroupBy {
+  /** Field name, optionally with a dotted JSON path (`context.jurisdiction`) */
+  readonly field: string;
+  /** Group a millisecond timestamp by UTC period, e.g. `2024-06` for 'month' */
+  readonly bucket?: TimeBucket;
+  /** Key name in the results (default: the field name) */
+  readonly as?: string;
+}
+
+/**
+ * Group-by aggregation over a collection
+ */
+export interface AggregateQuery {
+  /** Fields to group by (none counts all matching records as one group) */
+  readonly groupBy: readonly (string | GroupBy)[];
+  /** Only count records matching these criteria */
+  readonly criteria?: QueryCriteria;
+  /** Maximum number of groups, largest first */
+  readonly limit?: number;
+}
+
+/**
+ * Values of the grouped fields, by key name
+ */
+export type GroupKey = Readonly<Record<string, string | number | null>>;
+
+/**
+ * Number of records sharing a group key
+ */
+export interface AggregateGroup {
+  readonly key: GroupKey;
+  readonly count: number;
+}
+
+/**
+ * Grouping resolved against field references
+ */
+export interface ParsedGrouping {
+  readonly name: string;
+  readonly field: FieldRef;
+  readonly bucket: TimeBucket | undefined;
+}
+
+/** strftime() format of each bucket; %W counts Monday-based weeks from 00 */
+const BUCKET_FORMATS: Readonly<Record<TimeBucket, string>> = {
+  hour: '%Y-%m-%dT%H',
+  day: '%Y-%m-%d',
+  week: '%Y-W%W',
+  month: '%Y-%m',
+  year: '%Y',
+};
+
+/**
+ * Resolve and validate the groupings of a query
+ */
+export function parseGroupBy(groupBy: AggregateQuery['groupBy']): ParsedGrouping[] {
+  const names = new Set<string>();
+  return groupBy.map((item) => {
+    const { field, bucket, as } = typeof item === 'string' ? { field: item } as GroupBy : item;
+    if (bucket !== undefined && !(bucket in BUCKET_FORMATS)) {
+      throw new StorageError(`Unknown time bucket: ${String(bucket)}`, 'INVALID_DATA');
+    }
+    const name = as ?? field;
+    if (names.has(name)) {
+      throw new StorageError(`Duplicate group key: ${name}`, 'INVALID_DATA');
+    }
+    names.add(name);
+    return { name, field: parseFieldRef(field), bucket };
+  });
+}
+
+/**
+ * SQL expression computing a group key
+ */
+export function groupingToSql(grouping: ParsedGrouping): string {
+  const target = fieldToSql(grouping.field);
+  if (grouping.bucket === undefined) {
+    return target;
+  }
+  const format = BUCKET_FORMATS[grouping.bucket];
+  return `(CASE WHEN typeof(${target}) IN ('integer', 'real') THEN strftime('${format}', ${target} / 1000.0, 'unixepoch') END)`;
+}
+
+/**
+ * Order groups largest first, then by key values with nulls first
+ */
+export function compareGroups(a: AggregateGroup, b: AggregateGroup, names: readonly string[]): number {
+  if (a.count !== b.count) {
+    return b.count - a.count;
+  }
+  for (const name of names) {
+    const x = a.key[name] ?? null;
+    const y = b.key[name] ?? null;
+    if (x === y) continue;
+    if (x === null) return -1;
+    if (y === null) return 1;
+    const order = compareValues(x, y);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+/**
+ * In-memory group counter
+ */
+export class Aggregation {
+  private readonly groupings: readonly ParsedGrouping[];
+  private readonly counts = new Map<string, AggregateGroup>();
+  private total = 0;
+
+  constructor(private readonly query: AggregateQuery) {
+    this.groupings = parseGroupBy(query.groupBy);
+  }
+
+  /**
+   * Count a record (which must already match the query criteria)
+   */
+  add(record: StorageRecord): void {
+    this.total++;
+    const key: Record<string, string | number | null> = {};
+    for (const grouping of this.groupings) {
+      const value = resolveField(record, grouping.field);
+      key[grouping.name] = grouping.bucket === undefined ? value : bucketOf(value, grouping.bucket);
+    }
+
+    const id = JSON.stringify(this.groupings.map((grouping) => key[grouping.name]));
+    const group = this.counts.get(id);
+    this.counts.set(id, { key: group?.key ?? key, count: (group?.count ?? 0) + 1 });
+  }
+
+  /**
+   * Groups counted so far, largest first
+   */
+  groups(): AggregateGroup[] {
+    if (this.groupings.length === 0) {
+      return [{ key: {}, count: this.total }];
+    }
+    const names = this.groupings.map((grouping) => grouping.name);
+    const groups = [...this.counts.values()].sort((a, b) => compareGroups(a, b, names));
+    return this.query.limit !== undefined ? groups.slice(0, this.query.limit) : groups;
+  }
+}
+
+/**
+ * Format a millisecond timestamp as its UTC period, like SQLite's strftime()
+ */
+function bucketOf(value: string | number | null, bucket: TimeBucket): string | null {
+  if (typeof value !== 'number') {
+    return null;
+  }
+  // Whole seconds, as strftime() reads them
+  const date = new Date(Math.floor(value / 1000) * 1000);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  const pad = (n: number, width = 2): string => String(n).padStart(width, '0');
+  const year = pad(date.getUTCFullYear(), 4);
+  const month = pad(date.getUTCMonth() + 1);
+  const day = pad(date.getUTCDate());
+  switch (bucket) {
+    case 'hour':
+      return `${year}-${month}-${day}T${pad(date.getUTCHours())}`;
+    case 'day':
+      return `${year}-${month}-${day}`;
+    case 'week': {
+      const dayOfYear = Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86_400_000);
+      const weekday = (date.getUTCDay() + 6) % 7;
+      return `${year}-W${pad(Math.floor((dayOfYear + 7 - weekday) / 7))}`;
+    }
+    case 'month':
+      return `${year}-${month}`;
+    case 'year':
+      return year;
+  }
+}
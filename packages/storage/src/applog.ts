@@ -0,0 +1,1040 @@
+/**
+ * Log-structured file storage implementation
+ *
+ * Pure Node storage for deployments that cannot ship sql.js:
+ * - Committed writes are appended to segment files as NDJSON
+ * - Records are served from an in-memory index rebuilt from the segments
+ *   on initialize, with a torn tail left by a crash truncated first
+ * - Sealed segments are compacted in the background into one segment
+ *   holding only live records
+ *
+ * Transactions use the same copy-on-write views as InMemoryStorage; a
+ * transaction is appended as a single line when it commits, so it is
+ * recovered entirely or not at all. Prior versions, the change log and
+ * applied migrations are stored in the log like any other record.
+ */
+
+import { ok, err, type Result, type Timestamp, createTimestamp } from '@contextgraph/core';
+import {
+  StorageInterface,
+  StorageError,
+  type QueryOptions,
+  type StreamOptions,
+  type PaginatedResult,
+  type StorageRecord,
+} from './interface.js';
+import { createCriteriaMatcher, type QueryCriteria } from './criteria.js';
+import {
+  createPositionFilter,
+  createRecordComparator,
+  decodeCursor,
+  encodeCursor,
+  positionAfter,
+  type CursorPosition,
+} from './pagination.js';
+import { TransactionScope, type TransactionHooks } from './transaction.js';
+import {
+  CollectionRegistry,
+  RECORD_VERSIONS_TABLE,
+  appendOnlyViolation,
+  type CollectionOptions,
+  type RecordVersion,
+  type WriteMode,
+} from './collections.js';
+import {
+  CHANGES_TABLE,
+  DEFAULT_CHANGE_BATCH_SIZE,
+  ChangeFeed,
+  createChange,
+  isChangeOf,
+  matchesCollections,
+  redactChange,
+  type ChangeEvent,
+  type ChangeListener,
+  type ChangeQueryOptions,
+  type ChangeSubscription,
+  type SubscribeOptions,
+} from './changes.js';
+import {
+  MigrationRunner,
+  coreMigrations,
+  type AppliedMigration,
+  type Migration,
+  type MigrationStatus,
+  type MigrationStep,
+  type SchemaRegistry,
+} from './migrations.js';
+import { SegmentLog, type FsyncPolicy, type LogOperation } from './segments.js';
+
+/** Collection holding applied migrations */
+const MIGRATIONS_TABLE = '_migrations';
+
+/** Id of the change log record holding the sequence of the last pruned change */
+const PRUNED_CHANGES_ID = 'pruned';
+
+export interface AppendLogStorageOptions {
+  /** Directory holding the segment files */
+  directory: string;
+  /** Segment size in bytes after which a new segment is started (default: 8 MiB) */
+  maxSegmentSize?: number;
+  /** When appended writes are flushed to disk (default: 'interval') */
+  fsync?: FsyncPolicy;
+  /** Milliseconds between flushes with the `interval` policy (default: 1000) */
+  fsyncInterval?: number;
+  /** Number of sealed segments that triggers a background compaction (default: 4, 0 to disable) */
+  compactionThreshold?: number;
+  /** Called when a background compaction fails */
+  onCompactionError?: (error: StorageError) => void;
+}
+
+/**
+ * Outcome of a compaction
+ */
+export interface CompactionResult {
+  /** Number of segments merged */
+  readonly segments: number;
+  /** Bytes freed on disk */
+  readonly reclaimedBytes: number;
+}
+
+type Collections = Map<string, Map<string, StorageRecord>>;
+
+function versionKey(collection: string, id: string, version: number): string {
+  return `${collection}\u0000${id}\u0000${version}`;
+}
+
+/**
+ * Segments tracked for the records of a collection, created on first use
+ */
+function locationsOf(tracked: Map<string, Map<string, number>>, collection: string): Map<string, number> {
+  let ids = tracked.get(collection);
+  if (ids === undefined) {
+    ids = new Map();
+    tracked.set(collection, ids);
+  }
+  return ids;
+}
+
+function migrationKey(module: string, version: number): string {
+  return `${module}#${version}`;
+}
+
+/**
+ * Log operation storing a change, keyed by its sequence
+ */
+function changeOperation(change: ChangeEvent): LogOperation {
+  const id = String(change.sequence);
+  return { collection: CHANGES_TABLE, id, record: { id, createdAt: change.timestamp, change } };
+}
+
+/**
+ * Log operation recording that the changes up to a sequence were pruned
+ */
+function prunedOperation(sequence: number): LogOperation {
+  return {
+    collection: CHANGES_TABLE,
+    id: PRUNED_CHANGES_ID,
+    record: { id: PRUNED_CHANGES_ID, createdAt: createTimestamp(), sequence },
+  };
+}
+
+function toStorageError(message: string, error: unknown): StorageError {
+  if (error instanceof StorageError) return error;
+  return new StorageError(
+    `${message}: ${error instanceof Error ? error.message : String(error)}`,
+    'QUERY_FAILED',
+    error instanceof Error ? error : undefined
+  );
+}
+
+/**
+ * Schema registry kept as records of the `_migrations` collection
+ */
+class LogSchemaRegistry implements SchemaRegistry {
+  constructor(
+    private readonly read: () => ReadonlyMap<string, StorageRecord> | undefined,
+    private readonly write: (id: string, record: StorageRecord | null) => void
+  ) {}
+
+  list(): readonly AppliedMigration[] {
+    const applied = [...(this.read()?.values() ?? [])].map((record) => ({
+      module: record['module'] as string,
+      version: record['version'] as number,
+      name: record['name'] as string,
+      checksum: record['checksum'] as string | null,
+      appliedAt: record['appliedAt'] as number,
+    }));
+    return applied.sort((a, b) => (a.module === b.module ? a.version - b.version : a.module < b.module ? -1 : 1));
+  }
+
+  apply(step: MigrationStep, checksum: string): void {
+    const id = migrationKey(step.module, step.version);
+    if (step.direction === 'down') {
+      this.write(id, null);
+      return;
+    }
+    const appliedAt = Date.now();
+    this.write(id, {
+      id,
+      module: step.module,
+      version: step.version,
+      name: step.name,
+      checksum,
+      appliedAt,
+      createdAt: appliedAt as Timestamp,
+    });
+  }
+
+  recordChecksum(module: string, version: number, checksum: string): void {
+    const id = migrationKey(module, version);
+    const existing = this.read()?.get(id);
+    if (existing !== undefined) {
+      this.write(id, { ...existing, checksum });
+    }
+  }
+}
+
+/**
+ * Copy-on-write view of the collections inside a transaction or savepoint
+ */
+interface AppendLogTransactionFrame {
+  readonly parent: AppendLogTransactionFrame | undefined;
+  collections: Collections;
+  /** Collections already copied by this frame and safe to mutate */
+  readonly owned: Set<string>;
+  /** Writes made by this frame, appended to the log when it commits */
+  readonly writes: LogOperation[];
+  /** Changes logged by this frame, not yet visible in the change log */
+  readonly changes: ChangeEvent[];
+  /** Records whose history this frame erased, to be redacted from the change log */
+  readonly erased: ErasedRecord[];
+  /** Changes before this sequence are dropped from the log on commit */
+  pruneBefore: number;
+}
+
+interface ErasedRecord {
+  readonly collection: string;
+  readonly id: string;
+}
+
+export class AppendLogStorage extends StorageInterface {
+  private collections: Collections = new Map();
+  /** Committed changes; the change with sequence n is at index n - prunedChanges - 1 */
+  private changeLog: ChangeEvent[] = [];
+  /** Number of changes dropped from the start of the log */
+  private prunedChanges = 0;
+  /** Segment holding the latest write of each record, by collection and id */
+  private readonly locations = new Map<string, Map<string, number>>();
+  /** Segment holding the removal of each removed record, by collection and id */
+  private readonly removals = new Map<string, Map<string, number>>();
+  private log: SegmentLog | null = null;
+  private compaction: Promise<Result<CompactionResult, StorageError>> | null = null;
+  private readonly options: Required<Omit<AppendLogStorageOptions, 'onCompactionError'>>;
+  private readonly onCompactionError: ((error: StorageError) => void) | undefined;
+  private readonly changeFeed = new ChangeFeed();
+  private initialized = false;
+  private readonly schema = new LogSchemaRegistry(
+    () => this.collections.get(MIGRATIONS_TABLE),
+    (id, record) => this.writeCommitted([{ collection: MIGRATIONS_TABLE, id, record }])
+  );
+  private readonly migrationRunner = new MigrationRunner(this.schema);
+  private readonly collectionRegistry = new CollectionRegistry();
+  private readonly scope = new TransactionScope<AppendLogTransactionFrame>();
+  private readonly transactionHooks: TransactionHooks<AppendLogTransactionFrame> = {
+    begin: (parent) => ({
+      parent,
+      collections: new Map(parent?.collections ?? this.collections),
+      owned: new Set(),
+      writes: [],
+      changes: [],
+      erased: [],
+      pruneBefore: 0,
+    }),
+    commit: (frame) => {
+      if (frame.parent === undefined) {
+        let changes = frame.changes;
+        const redacted: ChangeEvent[] = [];
+        for (const { collection, id } of frame.erased) {
+          const current = frame.collections.get(collection)?.get(id) ?? null;
+          changes = changes.map((change) => (isChangeOf(change, collection, id) ? redactChange(change, current) : change));
+          redacted.push(...this.redactedChanges(collection, id, current));
+        }
+        const pruned = this.prunedOperations(frame.pruneBefore);
+        if (frame.writes.length > 0 || redacted.length > 0 || pruned.length > 0) {
+          this.persist([...frame.writes, ...changes.map(changeOperation), ...redacted.map(changeOperation), ...pruned]);
+        }
+        this.collections = frame.collections;
+        this.replaceChanges(redacted);
+        this.pruneLog(frame.pruneBefore);
+        this.changeLog.push(...changes);
+        this.changeFeed.publish(changes);
+        this.scheduleCompaction();
+        return;
+      }
+      frame.parent.collections = frame.collections;
+      frame.parent.writes.push(...frame.writes);
+      frame.parent.changes.push(...frame.changes);
+      frame.parent.erased.push(...frame.erased);
+      frame.parent.pruneBefore = Math.max(frame.parent.pruneBefore, frame.pruneBefore);
+      for (const name of frame.owned) {
+        frame.parent.owned.add(name);
+      }
+    },
+    rollback: () => {
+      // Nothing to undo: the frame's copies and writes are simply dropped
+    },
+  };
+
+  constructor(options: AppendLogStorageOptions) {
+    super();
+    this.options = {
+      directory: options.directory,
+      maxSegmentSize: options.maxSegmentSize ?? 8 * 1024 * 1024,
+      fsync: options.fsync ?? 'interval',
+      fsyncInterval: options.fsyncInterval ?? 1000,
+      compactionThreshold: options.compactionThreshold ?? 4,
+    };
+    this.onCompactionError = options.onCompactionError;
+  }
+
+  /**
+   * Open the segment directory and rebuild the index from it
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    if (this.log !== null) {
+      const closed = await this.close();
+      if (!closed.ok) {
+        return closed;
+      }
+    }
+
+    const changes = new Map<number, ChangeEvent>();
+    let pruned = 0;
+    try {
+      const log = new SegmentLog({
+        directory: this.options.directory,
+        maxSegmentSize: this.options.maxSegmentSize,
+        fsync: this.options.fsync,
+        fsyncInterval: this.options.fsyncInterval,
+      });
+      log.open((operations, segment) => {
+        for (const operation of operations) {
+          this.track(operation, segment);
+          if (operation.collection === CHANGES_TABLE) {
+            if (operation.id === PRUNED_CHANGES_ID) {
+              pruned = operation.record!['sequence'] as number;
+            } else if (operation.record === null) {
+              changes.delete(Number(operation.id));
+            } else {
+              changes.set(Number(operation.id), operation.record['change'] as ChangeEvent);
+            }
+          } else {
+            this.apply(this.collections, operation);
+          }
+        }
+      });
+      this.log = log;
+    } catch (error) {
+      this.reset();
+      return err(
+        new StorageError(
+          `Failed to open segment log: ${error instanceof Error ? error.message : String(error)}`,
+          'CONNECTION_FAILED',
+          error instanceof Error ? error : undefined
+        )
+      );
+    }
+    this.changeLog = [...changes.values()].sort((a, b) => a.sequence - b.sequence);
+    this.prunedChanges = pruned;
+
+    const migrated = this.migrationRunner.run(coreMigrations);
+    if (!migrated.ok) {
+      return migrated;
+    }
+    this.initialized = true;
+    return ok(undefined);
+  }
+
+  /**
+   * Wait for running transactions and compaction, then flush and close the log
+   */
+  async close(): Promise<Result<void, StorageError>> {
+    await this.scope.idle();
+    await this.compaction;
+    try {
+      this.log?.close();
+      return ok(undefined);
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Failed to close segment log: ${error instanceof Error ? error.message : String(error)}`,
+          'CONNECTION_FAILED',
+          error instanceof Error ? error : undefined
+        )
+      );
+    } finally {
+      this.reset();
+    }
+  }
+
+  async healthCheck(): Promise<Result<boolean, StorageError>> {
+    return ok(this.initialized);
+  }
+
+  async insert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    if (this.visible().get(collection)?.has(record.id) === true) {
+      return err(new StorageError(`Duplicate key: ${record.id}`, 'DUPLICATE_KEY'));
+    }
+
+    const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? createTimestamp() } as T;
+    return this.write(collection, null, recordWithTimestamp, []);
+  }
+
+  async insertMany<T extends StorageRecord>(
+    collection: string,
+    records: readonly T[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    return this.transaction(async () => {
+      const results: T[] = [];
+      for (const record of records) {
+        const result = await this.insert(collection, record);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
+        }
+        results.push(result.value);
+      }
+      return ok(results);
+    });
+  }
+
+  async findById<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<T | null, StorageError>> {
+    this.ensureInitialized();
+    const record = this.visible().get(collection)?.get(id);
+    return ok(record !== undefined ? (record as T) : null);
+  }
+
+  async find<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria,
+    options?: QueryOptions
+  ): Promise<Result<PaginatedResult<T>, StorageError>> {
+    this.ensureInitialized();
+
+    const orderBy = options?.orderBy ?? 'createdAt';
+    const orderDir = options?.orderDirection ?? 'desc';
+    let records: T[];
+    let position: CursorPosition | undefined;
+    try {
+      records = this.select<T>(collection, criteria, options);
+      position = options?.cursor !== undefined ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+    } catch (error) {
+      return err(error instanceof StorageError ? error : new StorageError(String(error), 'INVALID_DATA'));
+    }
+
+    const total = records.length;
+    records.sort(createRecordComparator(orderBy, orderDir));
+
+    const limit = options?.limit ?? 100;
+    const offset = position !== undefined ? 0 : options?.offset ?? 0;
+    if (position !== undefined) {
+      records = records.filter(createPositionFilter(position));
+    }
+    const hasMore = offset + limit < records.length;
+    records = records.slice(offset, offset + limit);
+    const last = records[records.length - 1];
+
+    return ok({
+      items: records,
+      total,
+      limit,
+      offset,
+      hasMore,
+      ...(hasMore && last !== undefined ? { nextCursor: encodeCursor(positionAfter(last, orderBy, orderDir)) } : {}),
+    });
+  }
+
+  /**
+   * Stream matching records from a snapshot of the collection
+   */
+  override async *stream<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria = {},
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    this.ensureInitialized();
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDirection ?? 'desc';
+
+    let records = this.select<T>(collection, criteria, options);
+    records.sort(createRecordComparator(orderBy, orderDir));
+    if (options.cursor !== undefined) {
+      records = records.filter(createPositionFilter(decodeCursor(options.cursor, orderBy, orderDir)));
+    }
+
+    yield* records;
+  }
+
+  async count(
+    collection: string,
+    criteria?: QueryCriteria
+  ): Promise<Result<number, StorageError>> {
+    const result = await this.find(collection, criteria ?? {}, { limit: 0 });
+    if (!result.ok) {
+      return result as Result<never, StorageError>;
+    }
+    return ok(result.value.total);
+  }
+
+  async upsert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    const existing = this.visible().get(collection)?.get(record.id);
+    const archived: LogOperation[] = [];
+    if (existing !== undefined) {
+      const mode = this.collectionRegistry.writeMode(collection);
+      if (mode === 'append_only') {
+        return err(appendOnlyViolation(collection, record.id));
+      }
+      if (mode === 'versioned') {
+        archived.push(this.archiveVersion(collection, existing));
+      }
+    }
+
+    const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? createTimestamp() } as T;
+    return this.write(collection, existing ?? null, recordWithTimestamp, archived);
+  }
+
+  async query<T>(
+    _sql: string,
+    _params?: readonly unknown[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    return err(new StorageError('Raw queries not supported in append log storage', 'QUERY_FAILED'));
+  }
+
+  /**
+   * Run operations in a transaction. Nested calls act as savepoints, and
+   * top-level transactions from concurrent callers run one at a time.
+   */
+  async transaction<T>(
+    fn: () => Promise<Result<T, StorageError>>
+  ): Promise<Result<T, StorageError>> {
+    this.ensureInitialized();
+    return this.scope.run(this.transactionHooks, fn);
+  }
+
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.run(migrations);
+  }
+
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.status();
+  }
+
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.plan(version, module);
+  }
+
+  async migrateTo(version: number, module?: string): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.migrateTo(version, module);
+  }
+
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this.collectionRegistry.register(collection, options);
+  }
+
+  writeMode(collection: string): WriteMode {
+    return this.collectionRegistry.writeMode(collection);
+  }
+
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
+    this.ensureInitialized();
+    const archived = this.visible().get(RECORD_VERSIONS_TABLE);
+    const versions: RecordVersion<T>[] = [];
+
+    for (let version = 1; ; version++) {
+      const row = archived?.get(versionKey(collection, id, version));
+      if (row === undefined) break;
+      versions.push({ version, record: row['data'] as T, supersededAt: row['supersededAt'] as Timestamp });
+    }
+
+    const current = this.visible().get(collection)?.get(id);
+    if (current !== undefined) {
+      versions.push({ version: versions.length + 1, record: current as T });
+    }
+    return ok(versions);
+  }
+
+  /**
+   * Discard the prior versions of a record. They leave the segment files
+   * when the segments holding them are compacted.
+   */
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    const archived = this.visible().get(RECORD_VERSIONS_TABLE);
+    const erased: LogOperation[] = [];
+    for (let version = 1; archived?.has(versionKey(collection, id, version)) === true; version++) {
+      erased.push({ collection: RECORD_VERSIONS_TABLE, id: versionKey(collection, id, version), record: null });
+    }
+
+    const frame = this.scope.current;
+    if (frame !== undefined) {
+      for (const operation of erased) {
+        this.apply(frame.collections, operation);
+      }
+      frame.writes.push(...erased);
+      frame.erased.push({ collection, id });
+      return ok(erased.length);
+    }
+
+    try {
+      const redacted = this.redactedChanges(collection, id, this.collections.get(collection)?.get(id) ?? null);
+      if (erased.length > 0 || redacted.length > 0) {
+        this.persist([...erased, ...redacted.map(changeOperation)]);
+      }
+      for (const operation of erased) {
+        this.apply(this.collections, operation);
+      }
+      this.replaceChanges(redacted);
+    } catch (error) {
+      return err(toStorageError('Erase history failed', error));
+    }
+    return ok(erased.length);
+  }
+
+  async changesSince(
+    sequence: number,
+    options: ChangeQueryOptions = {}
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    this.ensureInitialized();
+    const limit = options.limit ?? DEFAULT_CHANGE_BATCH_SIZE;
+    const changes: ChangeEvent[] = [];
+    for (let i = Math.max(sequence - this.prunedChanges, 0); i < this.changeLog.length && changes.length < limit; i++) {
+      const change = this.changeLog[i]!;
+      if (matchesCollections(change, options.collections)) {
+        changes.push(change);
+      }
+    }
+    return ok(changes);
+  }
+
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return ok(this.prunedChanges + this.changeLog.length);
+  }
+
+  /**
+   * Drop changes before a sequence, when the enclosing transaction commits.
+   * They leave the segment files when the segments holding them are compacted.
+   */
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    const frame = this.scope.current;
+    if (frame !== undefined) {
+      frame.pruneBefore = Math.max(frame.pruneBefore, sequence);
+      return ok(this.prunableChanges(sequence));
+    }
+
+    try {
+      const pruned = this.prunedOperations(sequence);
+      if (pruned.length > 0) {
+        this.persist(pruned);
+      }
+    } catch (error) {
+      return err(toStorageError('Prune changes failed', error));
+    }
+    return ok(this.pruneLog(sequence));
+  }
+
+  subscribe(listener: ChangeListener, options: SubscribeOptions = {}): ChangeSubscription {
+    return this.changeFeed.subscribe(listener, options, (sequence, query) => this.changesSince(sequence, query));
+  }
+
+  /**
+   * Get record counts per collection and the size of the segments in bytes
+   */
+  async stats(): Promise<
+    Result<{ collections: Record<string, number>; totalSize: number }, StorageError>
+  > {
+    const collections: Record<string, number> = {};
+    for (const [name, col] of this.visible()) {
+      if (name === RECORD_VERSIONS_TABLE || name === MIGRATIONS_TABLE) continue;
+      collections[name] = col.size;
+    }
+    return ok({ collections, totalSize: this.log?.size ?? 0 });
+  }
+
+  /**
+   * Seal the active segment and merge every sealed segment into one that
+   * holds only live records. Reads and writes continue meanwhile; a call
+   * made while a compaction runs waits for that compaction.
+   */
+  async compact(): Promise<Result<CompactionResult, StorageError>> {
+    this.ensureInitialized();
+    if (this.compaction === null) {
+      this.compaction = this.runCompaction().finally(() => {
+        this.compaction = null;
+      });
+    }
+    return this.compaction;
+  }
+
+  /**
+   * Get the size of all segments in bytes
+   */
+  getLogSize(): number {
+    return this.log?.size ?? 0;
+  }
+
+  /**
+   * Get the number of segment files, including the active one
+   */
+  getSegmentCount(): number {
+    return this.log !== null ? this.log.sealedSegments.length + 1 : 0;
+  }
+
+  private async runCompaction(): Promise<Result<CompactionResult, StorageError>> {
+    try {
+      const log = this.log!;
+      log.seal();
+      const sealed = log.sealedSegments;
+      const target = sealed[sealed.length - 1];
+      if (target === undefined) {
+        return ok({ segments: 0, reclaimedBytes: 0 });
+      }
+
+      // Snapshot synchronously: later writes only reach the active segment
+      const reclaimedBytes = await log.replace(target, this.liveOperations(sealed[0]!, target));
+      return ok({ segments: sealed.length, reclaimedBytes });
+    } catch (error) {
+      return err(toStorageError('Compaction failed', error));
+    }
+  }
+
+  /**
+   * Current committed state of every record last written to a segment up to
+   * `target`, and a removal for each record removed in those segments.
+   *
+   * Removals keep a crash during the swap from reviving records held by the
+   * older segments it leaves behind. A removal made in the oldest segment
+   * needs no tombstone, since no segment before it can hold the record.
+   */
+  private liveOperations(oldest: number, target: number): LogOperation[] {
+    const operations: LogOperation[] = [];
+    for (const [collection, ids] of this.removals) {
+      for (const [id, segment] of ids) {
+        if (segment <= oldest) {
+          ids.delete(id);
+        } else if (segment <= target) {
+          operations.push({ collection, id, record: null });
+        }
+      }
+    }
+    for (const [collection, ids] of this.locations) {
+      for (const [id, segment] of ids) {
+        if (segment > target) continue;
+        if (collection === CHANGES_TABLE) {
+          operations.push(
+            id === PRUNED_CHANGES_ID
+              ? prunedOperation(this.prunedChanges)
+              : changeOperation(this.changeLog[Number(id) - this.prunedChanges - 1]!)
+          );
+          continue;
+        }
+        const record = this.collections.get(collection)?.get(id);
+        if (record !== undefined) {
+          operations.push({ collection, id, record });
+        }
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * Record a write in the active transaction, or append it to the log and
+   * apply it at once outside a transaction
+   */
+  private write<T extends StorageRecord>(
+    collection: string,
+    before: StorageRecord | null,
+    after: T,
+    archived: readonly LogOperation[]
+  ): Result<T, StorageError> {
+    const writes = [...archived, { collection, id: after.id, record: after }];
+    const change = createChange(this.nextSequence(), collection, before, after, createTimestamp());
+
+    const frame = this.scope.current;
+    if (frame !== undefined) {
+      for (const operation of writes) {
+        this.apply(frame.collections, operation);
+      }
+      frame.writes.push(...writes);
+      frame.changes.push(change);
+      return ok(after);
+    }
+
+    try {
+      this.writeCommitted(writes, [change]);
+    } catch (error) {
+      return err(toStorageError('Write failed', error));
+    }
+    return ok(after);
+  }
+
+  /**
+   * Append writes to the log, then apply them to the committed state
+   */
+  private writeCommitted(writes: readonly LogOperation[], changes: readonly ChangeEvent[] = []): void {
+    this.persist([...writes, ...changes.map(changeOperation)]);
+    for (const operation of writes) {
+      this.apply(this.collections, operation);
+    }
+    if (changes.length > 0) {
+      this.changeLog.push(...changes);
+      this.changeFeed.publish(changes);
+    }
+    this.scheduleCompaction();
+  }
+
+  /**
+   * Append a committed unit of work to the active segment
+   */
+  private persist(operations: readonly LogOperation[]): void {
+    if (this.log === null) {
+      throw new StorageError('Storage not initialized', 'CONNECTION_FAILED');
+    }
+    const segment = this.log.append(operations);
+    for (const operation of operations) {
+      this.track(operation, segment);
+    }
+  }
+
+  /**
+   * Start a background compaction once enough segments have been sealed.
+   * Called after a write has been applied, as compaction snapshots the
+   * committed state.
+   */
+  private scheduleCompaction(): void {
+    const threshold = this.options.compactionThreshold;
+    if (
+      !this.initialized ||
+      threshold === 0 ||
+      this.compaction !== null ||
+      (this.log?.sealedSegments.length ?? 0) < threshold
+    ) {
+      return;
+    }
+    void this.compact().then((result) => {
+      if (!result.ok) {
+        this.onCompactionError?.(result.error);
+      }
+    });
+  }
+
+  /**
+   * Remember which segment holds the latest write or removal of a record
+   */
+  private track(operation: LogOperation, segment: number): void {
+    const written = this.locations.get(operation.collection);
+    const removed = this.removals.get(operation.collection);
+    if (operation.record === null) {
+      written?.delete(operation.id);
+      locationsOf(this.removals, operation.collection).set(operation.id, segment);
+    } else {
+      removed?.delete(operation.id);
+      locationsOf(this.locations, operation.collection).set(operation.id, segment);
+    }
+  }
+
+  /**
+   * Apply a write to a set of collections, copying a collection first when
+   * it belongs to the committed state of an enclosing scope
+   */
+  private apply(collections: Collections, operation: LogOperation): void {
+    const col = this.writable(collections, operation.collection);
+    if (operation.record === null) {
+      col.delete(operation.id);
+    } else {
+      col.set(operation.id, operation.record);
+    }
+  }
+
+  /**
+   * Build the write keeping a record about to be replaced as the next prior version
+   */
+  private archiveVersion(collection: string, record: StorageRecord): LogOperation {
+    const archived = this.visible().get(RECORD_VERSIONS_TABLE);
+    let version = 1;
+    while (archived?.has(versionKey(collection, record.id, version)) === true) {
+      version++;
+    }
+
+    const now = createTimestamp();
+    const key = versionKey(collection, record.id, version);
+    return {
+      collection: RECORD_VERSIONS_TABLE,
+      id: key,
+      record: { id: key, collection, recordId: record.id, version, data: record, supersededAt: now, createdAt: now },
+    };
+  }
+
+  /**
+   * Sequence of the next change logged in the current context
+   */
+  private nextSequence(): number {
+    let sequence = this.prunedChanges + this.changeLog.length + 1;
+    for (let frame = this.scope.current; frame !== undefined; frame = frame.parent) {
+      sequence += frame.changes.length;
+    }
+    return sequence;
+  }
+
+  /**
+   * Committed changes to a record, redacted to its given state
+   */
+  private redactedChanges(collection: string, id: string, current: StorageRecord | null): ChangeEvent[] {
+    return this.changeLog
+      .filter((change) => isChangeOf(change, collection, id))
+      .map((change) => redactChange(change, current));
+  }
+
+  /**
+   * Replace committed changes by the same sequence
+   */
+  private replaceChanges(changes: readonly ChangeEvent[]): void {
+    for (const change of changes) {
+      this.changeLog[change.sequence - this.prunedChanges - 1] = change;
+    }
+  }
+
+  /**
+   * Number of committed changes with a sequence lower than `sequence`
+   */
+  private prunableChanges(sequence: number): number {
+    return Math.min(Math.max(sequence - this.prunedChanges - 1, 0), this.changeLog.length);
+  }
+
+  /**
+   * Writes removing the committed changes with a sequence lower than `sequence`
+   */
+  private prunedOperations(sequence: number): LogOperation[] {
+    const count = this.prunableChanges(sequence);
+    if (count === 0) {
+      return [];
+    }
+    const operations: LogOperation[] = this.changeLog
+      .slice(0, count)
+      .map((change) => ({ collection: CHANGES_TABLE, id: String(change.sequence), record: null }));
+    operations.push(prunedOperation(this.prunedChanges + count));
+    return operations;
+  }
+
+  /**
+   * Drop committed changes with a sequence lower than `sequence`
+   */
+  private pruneLog(sequence: number): number {
+    const pruned = this.prunableChanges(sequence);
+    this.changeLog.splice(0, pruned);
+    this.prunedChanges += pruned;
+    return pruned;
+  }
+
+  /**
+   * Records of a collection matching criteria and the temporal filter
+   */
+  private select<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria,
+    options?: Pick<QueryOptions, 'temporal'>
+  ): T[] {
+    const matches = createCriteriaMatcher(criteria);
+    const col = this.visible().get(collection);
+    if (col === undefined) {
+      return [];
+    }
+
+    const start = options?.temporal?.start;
+    const end = options?.temporal?.end;
+    const records: T[] = [];
+    for (const record of col.values()) {
+      if (!matches(record)) continue;
+      if (start !== undefined && record.createdAt < start) continue;
+      if (end !== undefined && record.createdAt > end) continue;
+      records.push(record as T);
+    }
+    return records;
+  }
+
+  /**
+   * Collections as seen from the current async context
+   */
+  private visible(): Collections {
+    return this.scope.current?.collections ?? this.collections;
+  }
+
+  /**
+   * Get a collection that may be modified, copying it into the active
+   * transaction frame on first write
+   */
+  private writable(collections: Collections, collection: string): Map<string, StorageRecord> {
+    const frame = this.scope.current;
+    let col = collections.get(collection);
+
+    if (frame !== undefined && collections === frame.collections && !frame.owned.has(collection)) {
+      col = new Map(col);
+      collections.set(collection, col);
+      frame.owned.add(collection);
+    } else if (col === undefined) {
+      col = new Map();
+      collections.set(collection, col);
+    }
+    return col;
+  }
+
+  private reset(): void {
+    this.log = null;
+    this.collections = new Map();
+    this.changeLog = [];
+    this.prunedChanges = 0;
+    this.locations.clear();
+    this.removals.clear();
+    this.initialized = false;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new StorageError('Storage not initialized', 'CONNECTION_FAILED');
+    }
+  }
+}
@@ -213,15 +213,34 @@ export class LRUCache<K, V> {
   }
 }
 
+/**
+ * Serialize a value with object keys sorted at every level
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
 /**
  * Create a cache key from query parameters
+ *
+ * Criteria are serialized canonically so nested operator objects
+ * (`{ age: { $gt: 1 } }`, `$or` lists) produce distinct, order-independent keys.
  */
 export function createCacheKey(
   collection: string,
-  criteria: Record<string, unknown>,
+  criteria: Readonly<Record<string, unknown>>,
   options?: {
     limit?: number;
     offset?: number;
+    cursor?: string;
     orderBy?: string;
     orderDirection?: string;
     temporal?: { start?: number; end?: number };
@@ -229,12 +248,13 @@ export function createCacheKey(
 ): string {
   const parts = [
     collection,
-    JSON.stringify(criteria, Object.keys(criteria).sort()),
+    stableStringify(criteria),
   ];
 
   if (options !== undefined) {
     if (options.limit !== undefined) parts.push(`l:${options.limit}`);
     if (options.offset !== undefined) parts.push(`o:${options.offset}`);
+    if (options.cursor !== undefined) parts.push(`c:${options.cursor}`);
     if (options.orderBy !== undefined) parts.push(`ob:${options.orderBy}`);
     if (options.orderDirection !== undefined) parts.push(`od:${options.orderDirection}`);
     if (options.temporal !== undefined) {
@@ -2,6 +2,8 @@
  * Cached Storage Interface
  *
  * Wraps a storage implementation with LRU caching for improved query performance.
+ * Entries are also invalidated from the wrapped storage's change feed, so
+ * writes that bypass the wrapper do not leave stale results behind.
  */
 
 import { ok, type Result } from '@contextgraph/core';
@@ -9,10 +11,22 @@ import {
   StorageInterface,
   StorageError,
   type QueryOptions,
+  type StreamOptions,
   type PaginatedResult,
   type StorageRecord,
 } from './interface.js';
 import { LRUCache, createCacheKey, type CacheConfig, type CacheStats } from './cache.js';
+import type { QueryCriteria } from './criteria.js';
+import type { AggregateGroup, AggregateQuery } from './aggregate.js';
+import type { Migration, MigrationStatus, MigrationStep } from './migrations.js';
+import type { CollectionOptions, RecordVersion, WriteMode } from './collections.js';
+import type {
+  ChangeEvent,
+  ChangeListener,
+  ChangeQueryOptions,
+  ChangeSubscription,
+  SubscribeOptions,
+} from './changes.js';
 
 /**
  * Cached storage configuration
@@ -58,6 +72,7 @@ export class CachedStorage extends StorageInterface {
   private readonly _countCache: LRUCache<string, number>;
   private readonly _cachedCollections: Set<string> | null;
   private readonly _excludedCollections: Set<string>;
+  private _activeTransactions = 0;
 
   constructor(storage: StorageInterface, config: CachedStorageConfig = {}) {
     super();
@@ -69,12 +84,19 @@ export class CachedStorage extends StorageInterface {
       ? new Set(config.cachedCollections)
       : null;
     this._excludedCollections = new Set(config.excludedCollections ?? []);
+
+    this._storage.subscribe((change) => {
+      this.invalidateCollection(change.collection);
+      this._entityCache.delete(this.getEntityKey(change.collection, change.id));
+    });
   }
 
   /**
    * Check if collection should be cached
    */
   private shouldCache(collection: string): boolean {
+    // Reads inside a transaction may see uncommitted data
+    if (this._activeTransactions > 0) return false;
     if (this._excludedCollections.has(collection)) return false;
     if (this._cachedCollections === null) return true;
     return this._cachedCollections.has(collection);
@@ -194,7 +216,7 @@ export class CachedStorage extends StorageInterface {
    */
   async find<T extends StorageRecord>(
     collection: string,
-    criteria: Record<string, unknown>,
+    criteria: QueryCriteria,
     options?: QueryOptions
   ): Promise<Result<PaginatedResult<T>, StorageError>> {
     if (this.shouldCache(collection)) {
@@ -221,12 +243,23 @@ export class CachedStorage extends StorageInterface {
     return result;
   }
 
+  /**
+   * Stream records (not cached)
+   */
+  override stream<T extends StorageRecord>(
+    collection: string,
+    criteria?: QueryCriteria,
+    options?: StreamOptions
+  ): AsyncIterableIterator<T> {
+    return this._storage.stream<T>(collection, criteria, options);
+  }
+
   /**
    * Count records (cached)
    */
   async count(
     collection: string,
-    criteria?: Record<string, unknown>
+    criteria?: QueryCriteria
   ): Promise<Result<number, StorageError>> {
     if (this.shouldCache(collection)) {
       const cacheKey = createCacheKey(collection, criteria ?? {});
@@ -247,6 +280,16 @@ export class CachedStorage extends StorageInterface {
     return result;
   }
 
+  /**
+   * Aggregate in the wrapped storage (not cached)
+   */
+  override async aggregate(
+    collection: string,
+    query: AggregateQuery
+  ): Promise<Result<readonly AggregateGroup[], StorageError>> {
+    return this._storage.aggregate(collection, query);
+  }
+
   /**
    * Upsert record (invalidates cache)
    */
@@ -279,21 +322,123 @@ export class CachedStorage extends StorageInterface {
   }
 
   /**
-   * Transaction (invalidates all caches on success)
+   * Transaction (bypasses the cache while open, invalidates all caches afterwards)
    */
   async transaction<T>(
     fn: () => Promise<Result<T, StorageError>>
   ): Promise<Result<T, StorageError>> {
-    const result = await this._storage.transaction(fn);
-
-    if (result.ok) {
-      // Conservatively invalidate all caches after transaction
+    this._activeTransactions++;
+    try {
+      return await this._storage.transaction(fn);
+    } finally {
+      this._activeTransactions--;
+      // Conservatively invalidate all caches, a rollback may have undone cached writes
       this.clearCache();
     }
+  }
 
+  /**
+   * Register and apply migrations (not cached)
+   */
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    return this._storage.registerMigrations(migrations);
+  }
+
+  /**
+   * Migration status (not cached)
+   */
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    return this._storage.migrationStatus();
+  }
+
+  /**
+   * Migration plan (not cached)
+   */
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    return this._storage.planMigrations(version, module);
+  }
+
+  /**
+   * Migrate to a version (invalidates all caches)
+   */
+  async migrateTo(version: number, module?: string): Promise<Result<number, StorageError>> {
+    const result = await this._storage.migrateTo(version, module);
+    if (result.ok && result.value > 0) {
+      this.clearCache();
+    }
     return result;
   }
 
+  /**
+   * Declare a collection's write mode on the wrapped storage, which enforces it
+   */
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this._storage.registerCollection(collection, options);
+  }
+
+  /**
+   * Get a collection's write mode from the wrapped storage
+   */
+  writeMode(collection: string): WriteMode {
+    return this._storage.writeMode(collection);
+  }
+
+  /**
+   * Get every version of a record (not cached)
+   */
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
+    return this._storage.findVersions<T>(collection, id);
+  }
+
+  /**
+   * Discard the prior versions of a record in the wrapped storage
+   */
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    return this._storage.eraseHistory(collection, id);
+  }
+
+  /**
+   * Read the change log of the wrapped storage
+   */
+  async changesSince(
+    sequence: number,
+    options?: ChangeQueryOptions
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    return this._storage.changesSince(sequence, options);
+  }
+
+  /**
+   * Drop changes of the wrapped storage before a sequence
+   */
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    return this._storage.pruneChanges(sequence);
+  }
+
+  /**
+   * Sequence of the last change of the wrapped storage
+   */
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    return this._storage.latestSequence();
+  }
+
+  /**
+   * Subscribe to changes of the wrapped storage
+   */
+  subscribe(listener: ChangeListener, options?: SubscribeOptions): ChangeSubscription {
+    return this._storage.subscribe(listener, options);
+  }
+
   /**
    * Get storage stats
    */
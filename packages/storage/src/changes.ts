@@ -0,0 +1,224 @@
+/**
+ * Change data capture
+ *
+ * Every committed insert and upsert is appended to a change log with a
+ * monotonically increasing sequence number, in the same transaction as the
+ * write itself. Consumers read the log with `changesSince()` and resume from
+ * the last sequence they processed, or `subscribe()` to be told about new
+ * changes as they commit.
+ *
+ * The log is kept until `pruneChanges()` drops the changes every consumer
+ * has processed. Erasing a record's history also redacts its changes, so
+ * the log never holds data erased from the record itself.
+ */
+
+import type { Result, Timestamp } from '@contextgraph/core';
+import { StorageError, type StorageRecord } from './interface.js';
+
+/** Table holding the change log */
+export const CHANGES_TABLE = '_changes';
+
+/** Default number of changes returned by changesSince() */
+export const DEFAULT_CHANGE_BATCH_SIZE = 1000;
+
+export type ChangeOperation = 'insert' | 'update';
+
+/**
+ * A committed write
+ */
+export interface ChangeEvent<T extends StorageRecord = StorageRecord> {
+  /** Position in the change log, increasing with every committed write */
+  readonly sequence: number;
+  readonly collection: string;
+  /** Id of the written record */
+  readonly id: string;
+  readonly operation: ChangeOperation;
+  /** Record before the write (null for inserts) */
+  readonly before: T | null;
+  /** Record after the write */
+  readonly after: T | null;
+  readonly timestamp: Timestamp;
+}
+
+/**
+ * Options for reading the change log
+ */
+export interface ChangeQueryOptions {
+  /** Maximum number of changes returned (default: 1000) */
+  limit?: number;
+  /** Only include changes to these collections */
+  collections?: readonly string[];
+}
+
+/**
+ * Options for subscribing to changes
+ */
+export interface SubscribeOptions {
+  /** Replay logged changes after this sequence before delivering new ones */
+  since?: number;
+  /** Only deliver changes to these collections */
+  collections?: readonly string[];
+  /** Called when replaying fails or a listener throws */
+  onError?: (error: StorageError) => void;
+}
+
+export type ChangeListener = (change: ChangeEvent) => void;
+
+/**
+ * Handle returned by subscribe()
+ */
+export interface ChangeSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * Reads changes after a sequence, as implemented by the backend
+ */
+export type ChangeReader = (
+  sequence: number,
+  options: ChangeQueryOptions
+) => Promise<Result<readonly ChangeEvent[], StorageError>>;
+
+interface Subscriber {
+  readonly listener: ChangeListener;
+  readonly options: SubscribeOptions;
+  /** Sequence of the last change delivered */
+  last: number;
+  /** Live changes held back while logged changes are replayed */
+  buffer: ChangeEvent[] | null;
+  active: boolean;
+}
+
+/**
+ * Build a change event, deriving the operation from `before`
+ */
+export function createChange(
+  sequence: number,
+  collection: string,
+  before: StorageRecord | null,
+  after: StorageRecord,
+  timestamp: Timestamp
+): ChangeEvent {
+  return {
+    sequence,
+    collection,
+    id: after.id,
+    operation: before === null ? 'insert' : 'update',
+    before,
+    after,
+    timestamp,
+  };
+}
+
+/**
+ * Strip the earlier states of an erased record from a change to it,
+ * leaving its current state (null when the record is gone)
+ */
+export function redactChange(change: ChangeEvent, current: StorageRecord | null): ChangeEvent {
+  return { ...change, before: null, after: current };
+}
+
+/**
+ * Check whether a change is to the given record
+ */
+export function isChangeOf(change: ChangeEvent, collection: string, id: string): boolean {
+  return change.collection === collection && change.id === id;
+}
+
+/**
+ * Check whether a change passes a collection filter
+ */
+export function matchesCollections(change: ChangeEvent, collections: readonly string[] | undefined): boolean {
+  return collections === undefined || collections.includes(change.collection);
+}
+
+/**
+ * Delivers committed changes to subscribers, in sequence order
+ */
+export class ChangeFeed {
+  private readonly subscribers = new Set<Subscriber>();
+
+  /**
+   * Deliver committed changes to every subscriber
+   */
+  publish(changes: readonly ChangeEvent[]): void {
+    for (const subscriber of this.subscribers) {
+      if (subscriber.buffer !== null) {
+        subscriber.buffer.push(...changes);
+      } else {
+        this.deliver(subscriber, changes);
+      }
+    }
+  }
+
+  /**
+   * Register a listener. With `since`, logged changes after that sequence
+   * are replayed through `read` first; changes committed meanwhile are
+   * delivered right after the replay, without duplicates.
+   */
+  subscribe(listener: ChangeListener, options: SubscribeOptions, read: ChangeReader): ChangeSubscription {
+    const subscriber: Subscriber = {
+      listener,
+      options,
+      last: options.since ?? 0,
+      buffer: options.since !== undefined ? [] : null,
+      active: true,
+    };
+    this.subscribers.add(subscriber);
+
+    if (options.since !== undefined) {
+      void this.replay(subscriber, read);
+    }
+
+    return {
+      unsubscribe: (): void => {
+        subscriber.active = false;
+        this.subscribers.delete(subscriber);
+      },
+    };
+  }
+
+  private async replay(subscriber: Subscriber, read: ChangeReader): Promise<void> {
+    const queryOptions: ChangeQueryOptions = {
+      limit: DEFAULT_CHANGE_BATCH_SIZE,
+      ...(subscriber.options.collections !== undefined ? { collections: subscriber.options.collections } : {}),
+    };
+
+    for (;;) {
+      const page = await read(subscriber.last, queryOptions);
+      if (!subscriber.active) return;
+      if (!page.ok) {
+        subscriber.options.onError?.(page.error);
+        break;
+      }
+      if (page.value.length === 0) break;
+      this.deliver(subscriber, page.value);
+    }
+
+    const buffered = subscriber.buffer ?? [];
+    subscriber.buffer = null;
+    this.deliver(subscriber, buffered);
+  }
+
+  private deliver(subscriber: Subscriber, changes: readonly ChangeEvent[]): void {
+    for (const change of changes) {
+      if (!subscriber.active) return;
+      if (change.sequence <= subscriber.last) continue;
+      subscriber.last = change.sequence;
+      if (!matchesCollections(change, subscriber.options.collections)) continue;
+
+      try {
+        subscriber.listener(change);
+      } catch (error) {
+        subscriber.options.onError?.(
+          new StorageError(
+            `Change listener failed: ${error instanceof Error ? error.message : String(error)}`,
+            'QUERY_FAILED',
+            error instanceof Error ? error : undefined
+          )
+        );
+      }
+    }
+  }
+}
+
@@ -0,0 +1,100 @@
+/**
+ * Collection write modes
+ *
+ * Each collection is written in one of three modes:
+ * - `mutable`: `upsert` replaces the stored record
+ * - `append_only`: records can be inserted but never replaced
+ * - `versioned`: `upsert` keeps the replaced record as a numbered prior version
+ *
+ * Core collections ship with the modes in `DEFAULT_WRITE_MODES`; anything
+ * else is mutable until registered otherwise. Append-only core collections
+ * such as `provenance` keep their mode.
+ */
+
+import { ok, err, type Result, type Timestamp } from '@contextgraph/core';
+import { StorageError, type StorageRecord } from './interface.js';
+
+export type WriteMode = 'append_only' | 'mutable' | 'versioned';
+
+/**
+ * Options declared when registering a collection
+ */
+export interface CollectionOptions {
+  readonly writeMode: WriteMode;
+}
+
+/**
+ * One version of a record in a versioned collection
+ */
+export interface RecordVersion<T extends StorageRecord = StorageRecord> {
+  /** Version number, starting at 1 */
+  readonly version: number;
+  readonly record: T;
+  /** When this version was replaced (absent for the current version) */
+  readonly supersededAt?: Timestamp;
+}
+
+/** Table holding prior versions of records in versioned collections */
+export const RECORD_VERSIONS_TABLE = '_record_versions';
+
+/**
+ * Write modes of the core collections
+ */
+export const DEFAULT_WRITE_MODES: Readonly<Record<string, WriteMode>> = {
+  provenance: 'append_only',
+  actor_keys: 'versioned',
+  entities: 'versioned',
+  claims: 'versioned',
+  decisions: 'versioned',
+};
+
+/**
+ * Write modes declared for the collections of one storage backend
+ */
+export class CollectionRegistry {
+  private readonly modes = new Map<string, WriteMode>(Object.entries(DEFAULT_WRITE_MODES));
+  private readonly registered = new Set<string>();
+
+  /**
+   * Declare a collection's write mode. The core defaults may be overridden
+   * once, except for append-only ones; after that the mode can only be
+   * re-declared unchanged.
+   */
+  register(collection: string, options: CollectionOptions): Result<void, StorageError> {
+    const current = this.modes.get(collection);
+    if (DEFAULT_WRITE_MODES[collection] === 'append_only' && options.writeMode !== 'append_only') {
+      return err(
+        new StorageError(`Core collection ${collection} is append-only and cannot be made ${options.writeMode}`, 'INVALID_DATA')
+      );
+    }
+    if (this.registered.has(collection) && current !== options.writeMode) {
+      return err(
+        new StorageError(
+          `Collection ${collection} is already registered as ${current ?? 'mutable'}`,
+          'INVALID_DATA'
+        )
+      );
+    }
+
+    this.modes.set(collection, options.writeMode);
+    this.registered.add(collection);
+    return ok(undefined);
+  }
+
+  /**
+   * Write mode of a collection
+   */
+  writeMode(collection: string): WriteMode {
+    return this.modes.get(collection) ?? 'mutable';
+  }
+}
+
+/**
+ * Error returned when an upsert would replace a record of an append-only collection
+ */
+export function appendOnlyViolation(collection: string, id: string): StorageError {
+  return new StorageError(
+    `Collection ${collection} is append-only: record ${id} cannot be replaced`,
+    'CONSTRAINT_VIOLATION'
+  );
+}
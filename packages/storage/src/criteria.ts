@@ -0,0 +1,440 @@
+/**
+ * Query criteria language
+ *
+ * A small, typed filter language shared by every storage backend.
+ * SQLite compiles criteria to a WHERE clause; other backends evaluate
+ * them in memory with identical semantics.
+ *
+ * Semantics follow SQL two-valued filtering:
+ * - A missing field is treated as NULL, including a column the table lacks
+ * - Comparison, `$in` and `$like` operators never match NULL
+ * - `$ne` and `$nin` match NULL (the value is "not equal")
+ * - Booleans compare as 1/0, objects and arrays as their JSON text
+ * - Dotted field names (`context.jurisdiction`) read from JSON columns
+ */
+
+import { StorageError } from './interface.js';
+
+/**
+ * Scalar value usable with ordering operators
+ */
+export type ComparableValue = string | number | boolean;
+
+/**
+ * Operators applicable to a single field
+ */
+export interface FieldOperators {
+  readonly $eq?: unknown;
+  readonly $ne?: unknown;
+  readonly $gt?: ComparableValue;
+  readonly $gte?: ComparableValue;
+  readonly $lt?: ComparableValue;
+  readonly $lte?: ComparableValue;
+  readonly $in?: readonly unknown[];
+  readonly $nin?: readonly unknown[];
+  /** SQL LIKE pattern (`%` any run, `_` any character, ASCII case-insensitive) */
+  readonly $like?: string;
+  readonly $exists?: boolean;
+}
+
+/**
+ * Query criteria
+ *
+ * Each field maps to a literal (equality) or a `FieldOperators` object.
+ * Fields are combined with AND; `$or`, `$and` and `$not` nest criteria.
+ */
+export interface QueryCriteria {
+  readonly $or?: readonly QueryCriteria[];
+  readonly $and?: readonly QueryCriteria[];
+  readonly $not?: QueryCriteria;
+  readonly [field: string]: unknown;
+}
+
+/**
+ * Field operator names
+ */
+export type FieldOperator = keyof FieldOperators;
+
+/**
+ * Reference to a column, optionally with a JSON path into it
+ */
+export interface FieldRef {
+  readonly column: string;
+  readonly path: readonly (string | number)[];
+}
+
+/**
+ * Parsed criteria tree
+ */
+export type CriteriaNode =
+  | { readonly kind: 'and'; readonly children: readonly CriteriaNode[] }
+  | { readonly kind: 'or'; readonly children: readonly CriteriaNode[] }
+  | { readonly kind: 'not'; readonly child: CriteriaNode }
+  | { readonly kind: 'field'; readonly field: FieldRef; readonly op: FieldOperator; readonly value: unknown };
+
+/**
+ * Compiled SQL condition
+ */
+export interface SqlCondition {
+  readonly sql: string;
+  readonly params: readonly (string | number | null)[];
+}
+
+const FIELD_OPERATORS: ReadonlySet<string> = new Set<FieldOperator>([
+  '$eq',
+  '$ne',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$in',
+  '$nin',
+  '$like',
+  '$exists',
+]);
+
+const PATH_SEGMENT = /^(?:[A-Za-z_][A-Za-z0-9_]*|\d+)$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse criteria into a tree, validating operators and field names
+ */
+export function parseCriteria(criteria: QueryCriteria): CriteriaNode {
+  const children: CriteriaNode[] = [];
+
+  for (const [key, value] of Object.entries(criteria)) {
+    if (value === undefined) continue;
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value)) {
+        throw new StorageError(`${key} expects an array of criteria`, 'INVALID_DATA');
+      }
+      children.push({
+        kind: key === '$and' ? 'and' : 'or',
+        children: (value as QueryCriteria[]).map((c) => parseCriteria(c)),
+      });
+      continue;
+    }
+
+    if (key === '$not') {
+      if (!isPlainObject(value)) {
+        throw new StorageError('$not expects criteria', 'INVALID_DATA');
+      }
+      children.push({ kind: 'not', child: parseCriteria(value as QueryCriteria) });
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      throw new StorageError(`Unknown logical operator: ${key}`, 'INVALID_DATA');
+    }
+
+    const field = parseFieldRef(key);
+    if (isOperatorObject(value)) {
+      for (const [op, operand] of Object.entries(value)) {
+        if (!FIELD_OPERATORS.has(op)) {
+          throw new StorageError(`Unknown operator ${op} on field ${key}`, 'INVALID_DATA');
+        }
+        if (operand === undefined) continue;
+        validateOperand(key, op as FieldOperator, operand);
+        children.push({ kind: 'field', field, op: op as FieldOperator, value: operand });
+      }
+    } else {
+      children.push({ kind: 'field', field, op: '$eq', value });
+    }
+  }
+
+  return children.length === 1 ? children[0]! : { kind: 'and', children };
+}
+
+/**
+ * Parse a field name, with an optional dotted JSON path
+ */
+export function parseFieldRef(name: string): FieldRef {
+  const [column, ...segments] = name.split('.');
+  if (column === undefined || column === '') {
+    throw new StorageError(`Invalid field name: ${name}`, 'INVALID_DATA');
+  }
+  const path = segments.map((segment) => {
+    if (!PATH_SEGMENT.test(segment)) {
+      throw new StorageError(`Invalid path segment "${segment}" in field ${name}`, 'INVALID_DATA');
+    }
+    return /^\d+$/.test(segment) ? Number(segment) : segment;
+  });
+  return { column, path };
+}
+
+function validateOperand(field: string, op: FieldOperator, operand: unknown): void {
+  switch (op) {
+    case '$in':
+    case '$nin':
+      if (!Array.isArray(operand)) {
+        throw new StorageError(`${op} on field ${field} expects an array`, 'INVALID_DATA');
+      }
+      return;
+    case '$like':
+      if (typeof operand !== 'string') {
+        throw new StorageError(`$like on field ${field} expects a string pattern`, 'INVALID_DATA');
+      }
+      return;
+    case '$exists':
+      if (typeof operand !== 'boolean') {
+        throw new StorageError(`$exists on field ${field} expects a boolean`, 'INVALID_DATA');
+      }
+      return;
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte':
+      if (typeof operand !== 'string' && typeof operand !== 'number' && typeof operand !== 'boolean') {
+        throw new StorageError(`${op} on field ${field} expects a string, number or boolean`, 'INVALID_DATA');
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((k) => k.startsWith('$'));
+}
+
+/**
+ * Normalize a value to the scalar form used for comparison
+ */
+export function normalizeValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return JSON.stringify(value);
+}
+
+// ============================================================================
+// SQL compilation
+// ============================================================================
+
+/**
+ * Compile criteria to a SQL condition (without the WHERE keyword)
+ *
+ * When the table's `columns` are given, fields naming any other column
+ * read as NULL instead of failing the query.
+ */
+export function criteriaToSql(criteria: QueryCriteria, columns?: ReadonlySet<string>): SqlCondition {
+  return compileNode(parseCriteria(criteria), columns);
+}
+
+function compileNode(node: CriteriaNode, columns: ReadonlySet<string> | undefined): SqlCondition {
+  switch (node.kind) {
+    case 'and':
+    case 'or': {
+      if (node.children.length === 0) {
+        return { sql: node.kind === 'and' ? '1' : '0', params: [] };
+      }
+      const compiled = node.children.map((child) => compileNode(child, columns));
+      if (compiled.length === 1) return compiled[0]!;
+      return {
+        sql: `(${compiled.map((c) => c.sql).join(node.kind === 'and' ? ' AND ' : ' OR ')})`,
+        params: compiled.flatMap((c) => c.params),
+      };
+    }
+    case 'not': {
+      // COALESCE keeps NOT two-valued so NULL never flips to a match
+      const inner = compileNode(node.child, columns);
+      return { sql: `NOT COALESCE(${inner.sql}, 0)`, params: inner.params };
+    }
+    case 'field': {
+      const known = columns === undefined || columns.has(node.field.column);
+      return compileField(known ? fieldToSql(node.field) : 'NULL', node.op, node.value);
+    }
+  }
+}
+
+/**
+ * SQL expression reading a field (NULL where a JSON path does not resolve)
+ */
+export function fieldToSql(field: FieldRef): string {
+  const column = `"${field.column.replace(/"/g, '""')}"`;
+  if (field.path.length === 0) {
+    return column;
+  }
+  // Path segments are restricted to identifiers and indexes, so inlining is safe
+  const jsonPath = '$' + field.path.map((s) => (typeof s === 'number' ? `[${s}]` : `.${s}`)).join('');
+  return `(CASE WHEN json_valid(${column}) THEN json_extract(${column}, '${jsonPath}') END)`;
+}
+
+function compileField(target: string, op: FieldOperator, value: unknown): SqlCondition {
+  // Expand each {t} placeholder to the target expression
+  const withTarget = (sql: string, params: readonly (string | number | null)[] = []): SqlCondition => ({
+    sql: sql.split('{t}').join(target),
+    params,
+  });
+
+  const normalized = normalizeValue(value);
+
+  switch (op) {
+    case '$eq':
+      return normalized === null ? withTarget('{t} IS NULL') : withTarget('{t} = ?', [normalized]);
+    case '$ne':
+      return normalized === null ? withTarget('{t} IS NOT NULL') : withTarget('{t} IS NOT ?', [normalized]);
+    case '$gt':
+      return withTarget('{t} > ?', [normalized]);
+    case '$gte':
+      return withTarget('{t} >= ?', [normalized]);
+    case '$lt':
+      return withTarget('{t} < ?', [normalized]);
+    case '$lte':
+      return withTarget('{t} <= ?', [normalized]);
+    case '$like':
+      return withTarget('{t} LIKE ?', [normalized]);
+    case '$exists':
+      return withTarget(value === true ? '{t} IS NOT NULL' : '{t} IS NULL');
+    case '$in':
+    case '$nin': {
+      const list = (value as readonly unknown[]).map((v) => normalizeValue(v));
+      const values = list.filter((v): v is string | number => v !== null);
+      const hasNull = values.length !== list.length;
+      const placeholders = values.map(() => '?').join(', ');
+      if (op === '$in') {
+        if (values.length === 0) return hasNull ? withTarget('{t} IS NULL') : { sql: '0', params: [] };
+        return hasNull
+          ? withTarget(`({t} IN (${placeholders}) OR {t} IS NULL)`, values)
+          : withTarget(`{t} IN (${placeholders})`, values);
+      }
+      if (values.length === 0) return hasNull ? withTarget('{t} IS NOT NULL') : { sql: '1', params: [] };
+      return hasNull
+        ? withTarget(`({t} IS NOT NULL AND {t} NOT IN (${placeholders}))`, values)
+        : withTarget(`({t} IS NULL OR {t} NOT IN (${placeholders}))`, values);
+    }
+  }
+}
+
+// ============================================================================
+// In-memory evaluation
+// ============================================================================
+
+/**
+ * Check whether a record matches criteria
+ */
+export function matchesCriteria(record: Readonly<Record<string, unknown>>, criteria: QueryCriteria): boolean {
+  return evaluateNode(record, parseCriteria(criteria));
+}
+
+/**
+ * Create a reusable predicate for criteria (parses once)
+ */
+export function createCriteriaMatcher(
+  criteria: QueryCriteria
+): (record: Readonly<Record<string, unknown>>) => boolean {
+  const node = parseCriteria(criteria);
+  return (record) => evaluateNode(record, node);
+}
+
+function evaluateNode(record: Readonly<Record<string, unknown>>, node: CriteriaNode): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.children.every((child) => evaluateNode(record, child));
+    case 'or':
+      return node.children.some((child) => evaluateNode(record, child));
+    case 'not':
+      return !evaluateNode(record, node.child);
+    case 'field':
+      return evaluateField(resolveField(record, node.field), node.op, node.value);
+  }
+}
+
+/**
+ * Read a field of a record in its normalized form (null where it does not resolve)
+ */
+export function resolveField(record: Readonly<Record<string, unknown>>, field: FieldRef): string | number | null {
+  let value: unknown = record[field.column];
+  if (field.path.length === 0) {
+    return normalizeValue(value);
+  }
+
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  for (const segment of field.path) {
+    if (value === null || typeof value !== 'object') return null;
+    if (Array.isArray(value)) {
+      if (typeof segment !== 'number') return null;
+      value = value[segment];
+    } else {
+      if (typeof segment === 'number') return null;
+      value = (value as Record<string, unknown>)[segment];
+    }
+  }
+
+  return normalizeValue(value);
+}
+
+function evaluateField(actual: string | number | null, op: FieldOperator, operand: unknown): boolean {
+  const expected = normalizeValue(operand);
+
+  switch (op) {
+    case '$eq':
+      return actual === expected;
+    case '$ne':
+      return actual !== expected;
+    case '$gt':
+      return actual !== null && expected !== null && compareValues(actual, expected) > 0;
+    case '$gte':
+      return actual !== null && expected !== null && compareValues(actual, expected) >= 0;
+    case '$lt':
+      return actual !== null && expected !== null && compareValues(actual, expected) < 0;
+    case '$lte':
+      return actual !== null && expected !== null && compareValues(actual, expected) <= 0;
+    case '$like':
+      return actual !== null && likeToRegExp(operand as string).test(asciiLower(String(actual)));
+    case '$exists':
+      return operand === true ? actual !== null : actual === null;
+    case '$in':
+      return (operand as readonly unknown[]).some((v) => normalizeValue(v) === actual);
+    case '$nin':
+      return !(operand as readonly unknown[]).some((v) => normalizeValue(v) === actual);
+  }
+}
+
+/**
+ * Compare two non-null values using SQLite ordering (numbers before text)
+ */
+export function compareValues(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a === b ? 0 : a < b ? -1 : 1;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function asciiLower(value: string): string {
+  return value.replace(/[A-Z]/g, (c) => c.toLowerCase());
+}
+
+const likeCache = new Map<string, RegExp>();
+
+function likeToRegExp(pattern: string): RegExp {
+  let regex = likeCache.get(pattern);
+  if (regex === undefined) {
+    const source = asciiLower(pattern)
+      .split('')
+      .map((c) => (c === '%' ? '.*' : c === '_' ? '.' : c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    regex = new RegExp(`^${source}$`, 's');
+    if (likeCache.size > 256) likeCache.clear();
+    likeCache.set(pattern, regex);
+  }
+  return regex;
+}
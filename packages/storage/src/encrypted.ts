@@ -0,0 +1,913 @@
+/**
+ * Encrypted Storage Interface
+ *
+ * Wraps a storage implementation with field-level encryption at rest.
+ * Every record of a configured collection gets its own AES-256-GCM data key,
+ * stored wrapped by a master key from a keyring, so rotating the master key
+ * only re-wraps data keys and never rewrites records. Encrypted fields can be
+ * matched for equality through blind indexes (keyed HMACs of the value).
+ *
+ * Values that are not encrypted envelopes (written before a field was
+ * configured) are returned as stored. Raw `query()` calls see ciphertext.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'node:crypto';
+import { ok, err, createTimestamp, type Result, type Timestamp } from '@contextgraph/core';
+import {
+  StorageInterface,
+  StorageError,
+  type QueryOptions,
+  type StreamOptions,
+  type PaginatedResult,
+  type StorageRecord,
+} from './interface.js';
+import { LRUCache } from './cache.js';
+import { normalizeValue, type QueryCriteria } from './criteria.js';
+import type { AggregateGroup, AggregateQuery } from './aggregate.js';
+import { KEY_LENGTH, type Keyring } from './keyring.js';
+import type { Migration, MigrationStatus, MigrationStep } from './migrations.js';
+import type { CollectionOptions, RecordVersion, WriteMode } from './collections.js';
+import type {
+  ChangeEvent,
+  ChangeListener,
+  ChangeQueryOptions,
+  ChangeSubscription,
+  SubscribeOptions,
+} from './changes.js';
+import type { RestoreOptions, RestoreResult, SnapshotOptions, StorageSnapshot } from './snapshot.js';
+
+/** Table holding wrapped per-record data keys */
+export const DATA_KEYS_TABLE = '_data_keys';
+
+/** Table holding blind index digests */
+export const BLIND_INDEX_TABLE = '_blind_indexes';
+
+/** Prefix marking an encrypted field value */
+export const ENVELOPE_PREFIX = 'enc:v1:';
+
+const ENCRYPTION_MIGRATION_MODULE = 'encryption';
+
+/**
+ * Tables used by EncryptedStorage, registered on the wrapped storage
+ */
+export const encryptionMigrations: readonly Migration[] = [
+  {
+    module: ENCRYPTION_MIGRATION_MODULE,
+    version: 1,
+    name: 'create_encryption_tables',
+    up: `
+      CREATE TABLE IF NOT EXISTS ${DATA_KEYS_TABLE} (
+        id TEXT PRIMARY KEY,
+        collection TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        keyId TEXT NOT NULL,
+        wrappedKey TEXT NOT NULL,
+        rotatedAt INTEGER,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_data_keys_keyId ON ${DATA_KEYS_TABLE}(keyId);
+      CREATE TABLE IF NOT EXISTS ${BLIND_INDEX_TABLE} (
+        id TEXT PRIMARY KEY,
+        collection TEXT NOT NULL,
+        field TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        digest TEXT,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_blind_indexes_digest ON ${BLIND_INDEX_TABLE}(collection, field, digest);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_blind_indexes_digest;
+      DROP TABLE IF EXISTS ${BLIND_INDEX_TABLE};
+      DROP INDEX IF EXISTS idx_data_keys_keyId;
+      DROP TABLE IF EXISTS ${DATA_KEYS_TABLE};
+    `,
+  },
+];
+
+/**
+ * Encryption settings of a collection
+ */
+export interface EncryptedCollectionConfig {
+  /** Top-level fields stored encrypted */
+  readonly fields: readonly string[];
+  /** Encrypted fields that support equality lookups ($eq, $in, $ne, $nin) */
+  readonly blindIndexes?: readonly string[];
+}
+
+/**
+ * Encrypted storage configuration
+ */
+export interface EncryptedStorageConfig {
+  /** Source of master and blind index keys */
+  keyring: Keyring;
+  /** Collections to encrypt, by name */
+  collections: Readonly<Record<string, EncryptedCollectionConfig>>;
+  /** Unwrapped data keys kept in memory (default: 1000) */
+  dataKeyCacheSize?: number;
+}
+
+/**
+ * Outcome of a key rotation
+ */
+export interface KeyRotationResult {
+  /** Master key now wrapping every data key */
+  readonly activeKeyId: string;
+  /** Number of data keys re-wrapped */
+  readonly rewrapped: number;
+}
+
+/**
+ * Wrapped data key as stored
+ */
+interface DataKeyRecord extends StorageRecord {
+  readonly collection: string;
+  readonly recordId: string;
+  readonly keyId: string;
+  readonly wrappedKey: string;
+  readonly rotatedAt: Timestamp | null;
+}
+
+const BLIND_INDEX_OPERATORS = new Set(['$eq', '$in', '$ne', '$nin']);
+
+/**
+ * Encrypt with AES-256-GCM, binding the ciphertext to `aad`
+ */
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a value produced by seal(), throwing if it was tampered with
+ */
+function unseal(key: Buffer, sealed: string, aad: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (iv === undefined || tag === undefined || ciphertext === undefined) {
+    throw new Error('malformed ciphertext');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function isEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((k) => k.startsWith('$'));
+}
+
+/**
+ * Unambiguous key from its parts, also used as authenticated data
+ */
+function recordKey(...parts: string[]): string {
+  return parts.map((part) => encodeURIComponent(part)).join(':');
+}
+
+function toStorageError(error: unknown, message: string): StorageError {
+  if (error instanceof StorageError) return error;
+  return new StorageError(
+    `${message}: ${error instanceof Error ? error.message : String(error)}`,
+    'INVALID_DATA',
+    error instanceof Error ? error : undefined
+  );
+}
+
+/**
+ * Encrypted storage wrapper
+ */
+export class EncryptedStorage extends StorageInterface {
+  private readonly _storage: StorageInterface;
+  private readonly _keyring: Keyring;
+  private readonly _collections: Map<string, EncryptedCollectionConfig>;
+  private readonly _dataKeys: LRUCache<string, Buffer>;
+
+  constructor(storage: StorageInterface, config: EncryptedStorageConfig) {
+    super();
+    this._storage = storage;
+    this._keyring = config.keyring;
+    this._collections = new Map(Object.entries(config.collections));
+    this._dataKeys = new LRUCache({ maxSize: config.dataKeyCacheSize ?? 1000, ttl: 0 });
+  }
+
+  /**
+   * Initialize storage and the encryption tables
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    for (const [collection, config] of this._collections) {
+      for (const field of config.fields) {
+        if (field === 'id' || field === 'createdAt') {
+          return err(new StorageError(`Field ${field} of ${collection} cannot be encrypted`, 'INVALID_DATA'));
+        }
+      }
+      for (const field of config.blindIndexes ?? []) {
+        if (!config.fields.includes(field)) {
+          return err(new StorageError(`Blind index on ${collection}.${field} requires the field to be encrypted`, 'INVALID_DATA'));
+        }
+      }
+    }
+
+    const initialized = await this._storage.initialize();
+    if (!initialized.ok) {
+      return initialized;
+    }
+    const migrated = await this._storage.registerMigrations(encryptionMigrations);
+    return migrated.ok ? ok(undefined) : err(migrated.error);
+  }
+
+  /**
+   * Close storage and forget unwrapped data keys
+   */
+  async close(): Promise<Result<void, StorageError>> {
+    this._dataKeys.clear();
+    return this._storage.close();
+  }
+
+  /**
+   * Health check
+   */
+  async healthCheck(): Promise<Result<boolean, StorageError>> {
+    return this._storage.healthCheck();
+  }
+
+  /**
+   * Insert record (encrypts configured fields)
+   */
+  async insert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    const config = this._collections.get(collection);
+    if (config === undefined) {
+      return this._storage.insert(collection, record);
+    }
+
+    return this._storage.transaction(async () => {
+      try {
+        const sealed = await this.encryptRecord(collection, config, record);
+        const result = await this._storage.insert(collection, sealed);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
+        }
+        await this.writeBlindIndexes(collection, config, record);
+        return ok({ ...record, createdAt: result.value.createdAt });
+      } catch (error) {
+        return err(toStorageError(error, 'Encryption failed'));
+      }
+    });
+  }
+
+  /**
+   * Insert many records in a transaction (encrypts configured fields)
+   */
+  async insertMany<T extends StorageRecord>(
+    collection: string,
+    records: readonly T[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    if (!this._collections.has(collection)) {
+      return this._storage.insertMany(collection, records);
+    }
+
+    return this._storage.transaction(async () => {
+      const results: T[] = [];
+      for (const record of records) {
+        const result = await this.insert(collection, record);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
+        }
+        results.push(result.value);
+      }
+      return ok(results);
+    });
+  }
+
+  /**
+   * Find by ID (decrypts)
+   */
+  async findById<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<T | null, StorageError>> {
+    const result = await this._storage.findById<T>(collection, id);
+    if (!result.ok || result.value === null) {
+      return result;
+    }
+    return this.decrypted(() => this.decryptRecord(collection, result.value!));
+  }
+
+  /**
+   * Find records (equality on blind indexed fields, decrypts)
+   */
+  async find<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria,
+    options?: QueryOptions
+  ): Promise<Result<PaginatedResult<T>, StorageError>> {
+    const config = this._collections.get(collection);
+    if (config === undefined) {
+      return this._storage.find<T>(collection, criteria, options);
+    }
+
+    let rewritten: QueryCriteria;
+    try {
+      this.assertOrderable(collection, config, options?.orderBy);
+      rewritten = await this.rewriteCriteria(collection, config, criteria);
+    } catch (error) {
+      return err(toStorageError(error, 'Invalid criteria'));
+    }
+
+    const result = await this._storage.find<T>(collection, rewritten, options);
+    if (!result.ok) {
+      return result;
+    }
+    return this.decrypted(async () => {
+      const items: T[] = [];
+      for (const item of result.value.items) {
+        items.push(await this.decryptRecord(collection, item));
+      }
+      return { ...result.value, items };
+    });
+  }
+
+  /**
+   * Stream records (equality on blind indexed fields, decrypts)
+   */
+  override async *stream<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria = {},
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    const config = this._collections.get(collection);
+    if (config === undefined) {
+      yield* this._storage.stream<T>(collection, criteria, options);
+      return;
+    }
+
+    let rewritten: QueryCriteria;
+    try {
+      this.assertOrderable(collection, config, options.orderBy);
+      rewritten = await this.rewriteCriteria(collection, config, criteria);
+    } catch (error) {
+      throw toStorageError(error, 'Invalid criteria');
+    }
+
+    for await (const record of this._storage.stream<T>(collection, rewritten, options)) {
+      try {
+        yield await this.decryptRecord(collection, record);
+      } catch (error) {
+        throw toStorageError(error, 'Decryption failed');
+      }
+    }
+  }
+
+  /**
+   * Count records (equality on blind indexed fields)
+   */
+  async count(
+    collection: string,
+    criteria?: QueryCriteria
+  ): Promise<Result<number, StorageError>> {
+    const config = this._collections.get(collection);
+    if (config === undefined || criteria === undefined) {
+      return this._storage.count(collection, criteria);
+    }
+
+    try {
+      return await this._storage.count(collection, await this.rewriteCriteria(collection, config, criteria));
+    } catch (error) {
+      return err(toStorageError(error, 'Invalid criteria'));
+    }
+  }
+
+  /**
+   * Aggregate in the wrapped storage, or over decrypted records for
+   * encrypted collections
+   */
+  override async aggregate(
+    collection: string,
+    query: AggregateQuery
+  ): Promise<Result<readonly AggregateGroup[], StorageError>> {
+    if (!this._collections.has(collection)) {
+      return this._storage.aggregate(collection, query);
+    }
+    return super.aggregate(collection, query);
+  }
+
+  /**
+   * Upsert record (encrypts configured fields, keeping the record's data key)
+   */
+  async upsert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    const config = this._collections.get(collection);
+    if (config === undefined) {
+      return this._storage.upsert(collection, record);
+    }
+
+    return this._storage.transaction(async () => {
+      try {
+        const sealed = await this.encryptRecord(collection, config, record);
+        const result = await this._storage.upsert(collection, sealed);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
+        }
+        await this.writeBlindIndexes(collection, config, record);
+        return ok({ ...record, createdAt: result.value.createdAt });
+      } catch (error) {
+        return err(toStorageError(error, 'Encryption failed'));
+      }
+    });
+  }
+
+  /**
+   * Execute raw query (returns stored ciphertext)
+   */
+  async query<T>(
+    sql: string,
+    params?: readonly unknown[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    return this._storage.query<T>(sql, params);
+  }
+
+  /**
+   * Transaction
+   */
+  async transaction<T>(
+    fn: () => Promise<Result<T, StorageError>>
+  ): Promise<Result<T, StorageError>> {
+    return this._storage.transaction(fn);
+  }
+
+  /**
+   * Register and apply migrations
+   */
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    return this._storage.registerMigrations(migrations);
+  }
+
+  /**
+   * Migration status
+   */
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    return this._storage.migrationStatus();
+  }
+
+  /**
+   * Migration plan
+   */
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    return this._storage.planMigrations(version, module);
+  }
+
+  /**
+   * Migrate to a version
+   */
+  async migrateTo(version: number, module?: string): Promise<Result<number, StorageError>> {
+    return this._storage.migrateTo(version, module);
+  }
+
+  /**
+   * Declare a collection's write mode on the wrapped storage, which enforces it
+   */
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this._storage.registerCollection(collection, options);
+  }
+
+  /**
+   * Get a collection's write mode from the wrapped storage
+   */
+  writeMode(collection: string): WriteMode {
+    return this._storage.writeMode(collection);
+  }
+
+  /**
+   * Get every version of a record (decrypts)
+   */
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
+    const result = await this._storage.findVersions<T>(collection, id);
+    if (!result.ok) {
+      return result;
+    }
+    return this.decrypted(async () => {
+      const versions: RecordVersion<T>[] = [];
+      for (const version of result.value) {
+        versions.push({ ...version, record: await this.decryptRecord(collection, version.record) });
+      }
+      return versions;
+    });
+  }
+
+  /**
+   * Discard the prior versions of a record in the wrapped storage
+   */
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    return this._storage.eraseHistory(collection, id);
+  }
+
+  /**
+   * Read the change log of the wrapped storage (decrypts)
+   */
+  async changesSince(
+    sequence: number,
+    options?: ChangeQueryOptions
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    const result = await this._storage.changesSince(sequence, options);
+    if (!result.ok) {
+      return result;
+    }
+    return this.decrypted(async () => {
+      const changes: ChangeEvent[] = [];
+      for (const change of result.value) {
+        changes.push(await this.decryptChange(change));
+      }
+      return changes;
+    });
+  }
+
+  /**
+   * Drop changes of the wrapped storage before a sequence
+   */
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    return this._storage.pruneChanges(sequence);
+  }
+
+  /**
+   * Sequence of the last change of the wrapped storage
+   */
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    return this._storage.latestSequence();
+  }
+
+  /**
+   * Snapshot the wrapped storage. Fields stay encrypted and the wrapped
+   * data keys are included, so restoring requires the same master keys.
+   */
+  override async snapshot(options?: SnapshotOptions): Promise<Result<StorageSnapshot, StorageError>> {
+    return this._storage.snapshot(options);
+  }
+
+  /**
+   * Restore a snapshot taken through an EncryptedStorage into the wrapped storage
+   */
+  override async restore(
+    snapshot: StorageSnapshot,
+    options?: RestoreOptions
+  ): Promise<Result<RestoreResult, StorageError>> {
+    this._dataKeys.clear();
+    return this._storage.restore(snapshot, options);
+  }
+
+  /**
+   * Subscribe to changes of the wrapped storage (decrypts, preserving order)
+   */
+  subscribe(listener: ChangeListener, options: SubscribeOptions = {}): ChangeSubscription {
+    let delivered = Promise.resolve();
+    return this._storage.subscribe((change) => {
+      delivered = delivered.then(async () => {
+        try {
+          listener(await this.decryptChange(change));
+        } catch (error) {
+          options.onError?.(toStorageError(error, 'Change listener failed'));
+        }
+      });
+    }, options);
+  }
+
+  /**
+   * Get storage stats, without the encryption tables
+   */
+  async stats(): Promise<
+    Result<{ collections: Record<string, number>; totalSize: number }, StorageError>
+  > {
+    const result = await this._storage.stats();
+    if (!result.ok) {
+      return result;
+    }
+    const collections = { ...result.value.collections };
+    delete collections[DATA_KEYS_TABLE];
+    delete collections[BLIND_INDEX_TABLE];
+    return ok({ ...result.value, collections });
+  }
+
+  /**
+   * Re-wrap every data key with the keyring's active master key.
+   *
+   * Data keys are re-wrapped one at a time while reads and writes continue;
+   * records are not rewritten. Each re-wrap also erases the key's history,
+   * so the change log no longer holds it wrapped with a retired master key.
+   * Keep retired master keys in the keyring until rotation has completed.
+   */
+  async rotateKeys(): Promise<Result<KeyRotationResult, StorageError>> {
+    const activeKeyId = this._keyring.activeKeyId;
+    let rewrapped = 0;
+
+    try {
+      const master = this.masterKey(activeKeyId);
+      const stale = this._storage.stream<DataKeyRecord>(
+        DATA_KEYS_TABLE,
+        { keyId: { $ne: activeKeyId } },
+        { orderBy: 'createdAt', orderDirection: 'asc' }
+      );
+      for await (const row of stale) {
+        const dataKey = this.unwrapDataKey(row);
+        const updated = await this._storage.transaction(async () => {
+          const written = await this._storage.upsert<DataKeyRecord>(DATA_KEYS_TABLE, {
+            ...row,
+            keyId: activeKeyId,
+            wrappedKey: seal(master, dataKey, recordKey(row.collection, row.recordId)),
+            rotatedAt: createTimestamp(),
+          });
+          if (!written.ok) {
+            return written;
+          }
+          return this._storage.eraseHistory(DATA_KEYS_TABLE, row.id);
+        });
+        if (!updated.ok) {
+          return err(updated.error);
+        }
+        rewrapped++;
+      }
+    } catch (error) {
+      return err(toStorageError(error, 'Key rotation failed'));
+    }
+
+    return ok({ activeKeyId, rewrapped });
+  }
+
+  /**
+   * Get underlying storage
+   */
+  get underlying(): StorageInterface {
+    return this._storage;
+  }
+
+  /**
+   * Run a decryption step, converting failures to a result
+   */
+  private async decrypted<T>(fn: () => Promise<T>): Promise<Result<T, StorageError>> {
+    try {
+      return ok(await fn());
+    } catch (error) {
+      return err(toStorageError(error, 'Decryption failed'));
+    }
+  }
+
+  private async encryptRecord<T extends StorageRecord>(
+    collection: string,
+    config: EncryptedCollectionConfig,
+    record: T
+  ): Promise<T> {
+    const fields = config.fields.filter((field) => record[field] !== undefined);
+    if (fields.length === 0) {
+      return record;
+    }
+
+    const dataKey = await this.writeDataKey(collection, record.id);
+    const sealed: Record<string, unknown> = { ...record };
+    for (const field of fields) {
+      const plaintext = Buffer.from(JSON.stringify(record[field]), 'utf8');
+      sealed[field] = ENVELOPE_PREFIX + seal(dataKey, plaintext, recordKey(collection, record.id, field));
+    }
+    return sealed as T;
+  }
+
+  private async decryptRecord<T extends StorageRecord>(collection: string, record: T): Promise<T> {
+    const config = this._collections.get(collection);
+    const fields = config?.fields.filter((field) => isEnvelope(record[field])) ?? [];
+    if (fields.length === 0) {
+      return record;
+    }
+
+    const dataKey = await this.readDataKey(collection, record.id);
+    const plain: Record<string, unknown> = { ...record };
+    for (const field of fields) {
+      const envelope = (record[field] as string).slice(ENVELOPE_PREFIX.length);
+      try {
+        plain[field] = JSON.parse(unseal(dataKey, envelope, recordKey(collection, record.id, field)).toString('utf8'));
+      } catch (error) {
+        throw new StorageError(
+          `Cannot decrypt ${collection}.${field} of ${record.id}`,
+          'INVALID_DATA',
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return plain as T;
+  }
+
+  private async decryptChange(change: ChangeEvent): Promise<ChangeEvent> {
+    if (!this._collections.has(change.collection)) {
+      return change;
+    }
+    return {
+      ...change,
+      before: change.before === null ? null : await this.decryptRecord(change.collection, change.before),
+      after: change.after === null ? null : await this.decryptRecord(change.collection, change.after),
+    };
+  }
+
+  /**
+   * Get the data key of a record for reading, from the cache when possible
+   */
+  private async readDataKey(collection: string, id: string): Promise<Buffer> {
+    const key = recordKey(collection, id);
+    const cached = this._dataKeys.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const row = await this._storage.findById<DataKeyRecord>(DATA_KEYS_TABLE, key);
+    if (!row.ok) {
+      throw row.error;
+    }
+    if (row.value === null) {
+      throw new StorageError(`No data key for ${collection} record ${id}`, 'NOT_FOUND');
+    }
+    const dataKey = this.unwrapDataKey(row.value);
+    this._dataKeys.set(key, dataKey);
+    return dataKey;
+  }
+
+  /**
+   * Get the data key of a record for writing, creating it on first write.
+   * Always read from storage: a cached key may belong to a rolled back write.
+   */
+  private async writeDataKey(collection: string, id: string): Promise<Buffer> {
+    const key = recordKey(collection, id);
+    const row = await this._storage.findById<DataKeyRecord>(DATA_KEYS_TABLE, key);
+    if (!row.ok) {
+      throw row.error;
+    }
+    if (row.value !== null) {
+      return this.unwrapDataKey(row.value);
+    }
+
+    const keyId = this._keyring.activeKeyId;
+    const dataKey = randomBytes(KEY_LENGTH);
+    const inserted = await this._storage.insert<DataKeyRecord>(DATA_KEYS_TABLE, {
+      id: key,
+      collection,
+      recordId: id,
+      keyId,
+      wrappedKey: seal(this.masterKey(keyId), dataKey, key),
+      rotatedAt: null,
+      createdAt: createTimestamp(),
+    });
+    if (!inserted.ok) {
+      throw inserted.error;
+    }
+    return dataKey;
+  }
+
+  private unwrapDataKey(row: DataKeyRecord): Buffer {
+    try {
+      return unseal(this.masterKey(row.keyId), row.wrappedKey, recordKey(row.collection, row.recordId));
+    } catch (error) {
+      throw toStorageError(error, `Cannot unwrap data key of ${row.collection} record ${row.recordId}`);
+    }
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const key = this._keyring.getKey(keyId);
+    if (key === undefined) {
+      throw new StorageError(`Master key not in keyring: ${keyId}`, 'NOT_FOUND');
+    }
+    return key;
+  }
+
+  private blindIndex(collection: string, field: string, value: unknown): string | null {
+    const normalized = normalizeValue(value);
+    if (normalized === null) {
+      return null;
+    }
+    return createHmac('sha256', this._keyring.indexKey)
+      .update(recordKey(collection, field, JSON.stringify(normalized)))
+      .digest('base64url');
+  }
+
+  private async writeBlindIndexes(
+    collection: string,
+    config: EncryptedCollectionConfig,
+    record: StorageRecord
+  ): Promise<void> {
+    for (const field of config.blindIndexes ?? []) {
+      const result = await this._storage.upsert(BLIND_INDEX_TABLE, {
+        id: recordKey(collection, field, record.id),
+        collection,
+        field,
+        recordId: record.id,
+        digest: this.blindIndex(collection, field, record[field]),
+        createdAt: createTimestamp(),
+      });
+      if (!result.ok) {
+        throw result.error;
+      }
+    }
+  }
+
+  /**
+   * Ids of records whose field equals one of the values
+   */
+  private async lookupIds(collection: string, field: string, values: readonly unknown[]): Promise<string[]> {
+    const digests = values.map((value) => this.blindIndex(collection, field, value));
+    const ids: string[] = [];
+    for await (const row of this._storage.stream(BLIND_INDEX_TABLE, { collection, field, digest: { $in: digests } })) {
+      ids.push(row['recordId'] as string);
+    }
+    return ids;
+  }
+
+  /**
+   * Replace conditions on encrypted fields with id lookups through their
+   * blind indexes. Other conditions on encrypted fields are rejected.
+   */
+  private async rewriteCriteria(
+    collection: string,
+    config: EncryptedCollectionConfig,
+    criteria: QueryCriteria
+  ): Promise<QueryCriteria> {
+    const rewritten: Record<string, unknown> = {};
+    const lookups: QueryCriteria[] = [];
+
+    for (const [key, value] of Object.entries(criteria)) {
+      if (value === undefined) continue;
+
+      if ((key === '$and' || key === '$or') && Array.isArray(value)) {
+        const children: QueryCriteria[] = [];
+        for (const child of value as QueryCriteria[]) {
+          children.push(await this.rewriteCriteria(collection, config, child));
+        }
+        rewritten[key] = children;
+        continue;
+      }
+      if (key === '$not' && typeof value === 'object' && value !== null) {
+        rewritten[key] = await this.rewriteCriteria(collection, config, value as QueryCriteria);
+        continue;
+      }
+
+      const column = key.split('.')[0]!;
+      if (!config.fields.includes(column)) {
+        rewritten[key] = value;
+        continue;
+      }
+      if (!(config.blindIndexes ?? []).includes(key)) {
+        throw new StorageError(`Field ${collection}.${key} is encrypted and has no blind index`, 'INVALID_DATA');
+      }
+
+      const conditions = isOperatorObject(value) ? Object.entries(value) : [['$eq', value] as const];
+      for (const [op, operand] of conditions) {
+        if (operand === undefined) continue;
+        if (!BLIND_INDEX_OPERATORS.has(op)) {
+          throw new StorageError(`Operator ${op} is not supported on encrypted field ${collection}.${key}`, 'INVALID_DATA');
+        }
+        const list = op === '$in' || op === '$nin';
+        if (list && !Array.isArray(operand)) {
+          throw new StorageError(`${op} on field ${key} expects an array`, 'INVALID_DATA');
+        }
+        const ids = await this.lookupIds(collection, key, list ? (operand as unknown[]) : [operand]);
+        lookups.push({ id: op === '$eq' || op === '$in' ? { $in: ids } : { $nin: ids } });
+      }
+    }
+
+    if (lookups.length > 0) {
+      rewritten['$and'] = [...((rewritten['$and'] as QueryCriteria[] | undefined) ?? []), ...lookups];
+    }
+    return rewritten;
+  }
+
+  private assertOrderable(collection: string, config: EncryptedCollectionConfig, orderBy: string | undefined): void {
+    if (orderBy !== undefined && config.fields.includes(orderBy.split('.')[0]!)) {
+      throw new StorageError(`Cannot order by encrypted field ${collection}.${orderBy}`, 'INVALID_DATA');
+    }
+  }
+}
+
+/**
+ * Create encrypted storage wrapper
+ */
+export function createEncryptedStorage(
+  storage: StorageInterface,
+  config: EncryptedStorageConfig
+): EncryptedStorage {
+  return new EncryptedStorage(storage, config);
+}
@@ -0,0 +1,33 @@
+/**
+ * Storage backend selection
+ *
+ * Lets configuration pick a backend by name instead of constructing it,
+ * e.g. `{ type: 'append-log', directory: './data' }`.
+ */
+
+import type { StorageInterface } from './interface.js';
+import { InMemoryStorage } from './memory.js';
+import { SQLiteStorage, type SQLiteStorageOptions } from './sqlite.js';
+import { AppendLogStorage, type AppendLogStorageOptions } from './applog.js';
+
+/**
+ * Backend and its options
+ */
+export type StorageConfig =
+  | { readonly type: 'memory' }
+  | ({ readonly type: 'sqlite' } & SQLiteStorageOptions)
+  | ({ readonly type: 'append-log' } & AppendLogStorageOptions);
+
+/**
+ * Create an (uninitialized) storage backend from its configuration
+ */
+export function createStorage(config: StorageConfig): StorageInterface {
+  switch (config.type) {
+    case 'memory':
+      return new InMemoryStorage();
+    case 'sqlite':
+      return new SQLiteStorage(config);
+    case 'append-log':
+      return new AppendLogStorage(config);
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { createEntityId, createTimestamp, type Timestamp } from '@contextgraph/core';
+import { createEntityId, createTimestamp, ok, type Timestamp } from '@contextgraph/core';
 import { SQLiteStorage, InMemoryStorage, type StorageRecord } from './index.js';
 
 interface TestEntity extends StorageRecord {
@@ -117,6 +117,28 @@ describe('InMemoryStorage', () => {
       expect(result.value.collections['entities']).toBe(1);
     }
   });
+
+  it('should hide uncommitted transaction writes from other readers', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const tx = storage.transaction(async () => {
+      await storage.insert('entities', { id: 'tx-1', type: 'Person', name: 'Pending', createdAt: createTimestamp() });
+      await gate;
+      return ok(undefined);
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const during = await storage.findById('entities', 'tx-1');
+    expect(during.ok && during.value).toBeNull();
+
+    release();
+    await tx;
+    const after = await storage.findById('entities', 'tx-1');
+    expect(after.ok && after.value?.id).toBe('tx-1');
+  });
 });
 
 describe('SQLiteStorage', () => {
@@ -5,9 +5,114 @@
  * Provides interfaces and SQLite implementation for claims, provenance, and decisions.
  */
 
-export { StorageInterface, StorageError, type QueryOptions, type PaginatedResult, type StorageRecord, type StorageErrorCode } from './interface.js';
+export {
+  StorageInterface,
+  StorageError,
+  DEFAULT_STREAM_BATCH_SIZE,
+  type QueryOptions,
+  type StreamOptions,
+  type PaginatedResult,
+  type StorageRecord,
+  type StorageErrorCode,
+} from './interface.js';
+export {
+  parseCriteria,
+  criteriaToSql,
+  matchesCriteria,
+  createCriteriaMatcher,
+  compareValues,
+  type QueryCriteria,
+  type FieldOperators,
+  type FieldOperator,
+  type ComparableValue,
+  type CriteriaNode,
+  type FieldRef,
+  type SqlCondition,
+} from './criteria.js';
+export {
+  Aggregation,
+  type AggregateQuery,
+  type AggregateGroup,
+  type GroupBy,
+  type GroupKey,
+  type TimeBucket,
+} from './aggregate.js';
+export {
+  encodeCursor,
+  decodeCursor,
+  positionAfter,
+  createRecordComparator,
+  createPositionFilter,
+  keysetToSql,
+  keysetOrderSql,
+  type CursorPosition,
+} from './pagination.js';
 export { SQLiteStorage, type SQLiteStorageOptions } from './sqlite.js';
 export { InMemoryStorage } from './memory.js';
-export { MigrationRunner, type Migration } from './migrations.js';
+export { AppendLogStorage, type AppendLogStorageOptions, type CompactionResult } from './applog.js';
+export { createStorage, type StorageConfig } from './factory.js';
+export { SegmentLog, type FsyncPolicy, type LogOperation, type SegmentLogOptions, type SegmentReplayResult } from './segments.js';
+export {
+  MigrationRunner,
+  SqlJsSchemaRegistry,
+  InMemorySchemaRegistry,
+  migrationChecksum,
+  coreMigrations,
+  CORE_MIGRATION_MODULE,
+  type Migration,
+  type AppliedMigration,
+  type MigrationState,
+  type MigrationStatus,
+  type MigrationStep,
+  type SchemaRegistry,
+} from './migrations.js';
+export {
+  CollectionRegistry,
+  DEFAULT_WRITE_MODES,
+  RECORD_VERSIONS_TABLE,
+  type WriteMode,
+  type CollectionOptions,
+  type RecordVersion,
+} from './collections.js';
+export {
+  ChangeFeed,
+  CHANGES_TABLE,
+  DEFAULT_CHANGE_BATCH_SIZE,
+  createChange,
+  matchesCollections,
+  isChangeOf,
+  redactChange,
+  type ChangeEvent,
+  type ChangeOperation,
+  type ChangeQueryOptions,
+  type SubscribeOptions,
+  type ChangeListener,
+  type ChangeSubscription,
+  type ChangeReader,
+} from './changes.js';
+export {
+  SNAPSHOT_FORMAT_VERSION,
+  appliedMigrationVersions,
+  sameRecord,
+  type StorageSnapshot,
+  type SnapshotOptions,
+  type RestoreOptions,
+  type RestoreResult,
+} from './snapshot.js';
+export { TransactionScope, type TransactionHooks } from './transaction.js';
+export { WriteAheadJournal, type JournalEntry, type JournalStatement, type JournalReplayResult } from './journal.js';
 export { LRUCache, createCacheKey, type CacheConfig, type CacheStats } from './cache.js';
 export { CachedStorage, createCachedStorage, type CachedStorageConfig } from './cached.js';
+export { OverlayStorage, createOverlayStorage, type OverlayChange } from './overlay.js';
+export { LocalKeyring, KEY_LENGTH, type Keyring, type LocalKeyringOptions } from './keyring.js';
+export {
+  EncryptedStorage,
+  createEncryptedStorage,
+  encryptionMigrations,
+  DATA_KEYS_TABLE,
+  BLIND_INDEX_TABLE,
+  ENVELOPE_PREFIX,
+  type EncryptedStorageConfig,
+  type EncryptedCollectionConfig,
+  type KeyRotationResult,
+} from './encrypted.js';
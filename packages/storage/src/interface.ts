@@ -2,10 +2,31 @@
  * Storage interface abstraction
  *
  * Defines the contract for all storage backends.
- * Implementations must be append-only for provenance data.
+ * Implementations must enforce the write mode of each collection
+ * (append-only for provenance data).
  */
 
-import type { Result, Timestamp } from '@contextgraph/core';
+import { ok, err, createTimestamp, type Result, type Timestamp } from '@contextgraph/core';
+import type { QueryCriteria } from './criteria.js';
+import { Aggregation, type AggregateGroup, type AggregateQuery } from './aggregate.js';
+import type { Migration, MigrationStatus, MigrationStep } from './migrations.js';
+import type { CollectionOptions, RecordVersion, WriteMode } from './collections.js';
+import type {
+  ChangeEvent,
+  ChangeListener,
+  ChangeQueryOptions,
+  ChangeSubscription,
+  SubscribeOptions,
+} from './changes.js';
+import {
+  SNAPSHOT_FORMAT_VERSION,
+  appliedMigrationVersions,
+  sameRecord,
+  type RestoreOptions,
+  type RestoreResult,
+  type SnapshotOptions,
+  type StorageSnapshot,
+} from './snapshot.js';
 
 /**
  * Query options for filtering and pagination
@@ -18,14 +39,24 @@ export interface QueryOptions {
   };
   /** Pagination limit */
   limit?: number;
-  /** Pagination offset */
+  /** Pagination offset (ignored when a cursor is given) */
   offset?: number;
+  /** Continue after the page that returned this cursor (keyset pagination) */
+  cursor?: string;
   /** Order by field */
   orderBy?: string;
   /** Order direction */
   orderDirection?: 'asc' | 'desc';
 }
 
+/**
+ * Options for streaming reads
+ */
+export interface StreamOptions extends Omit<QueryOptions, 'limit' | 'offset'> {
+  /** Records fetched per round trip (default: 500) */
+  batchSize?: number;
+}
+
 /**
  * Paginated result wrapper
  */
@@ -35,8 +66,13 @@ export interface PaginatedResult<T> {
   readonly limit: number;
   readonly offset: number;
   readonly hasMore: boolean;
+  /** Opaque cursor for the next page, present when hasMore is true and the page is not empty */
+  readonly nextCursor?: string;
 }
 
+/** Default number of records fetched per round trip by stream() */
+export const DEFAULT_STREAM_BATCH_SIZE = 500;
+
 /**
  * Storage error types
  */
@@ -74,7 +110,7 @@ export interface StorageRecord {
  * Storage interface contract
  *
  * All implementations must:
- * 1. Be append-only for provenance-tracked data
+ * 1. Enforce collection write modes (append-only, mutable, versioned)
  * 2. Support transactional operations
  * 3. Provide deterministic query results
  */
@@ -120,23 +156,91 @@ export abstract class StorageInterface {
 
   /**
    * Find records matching criteria
+   *
+   * Criteria support equality, field operators ($gt, $in, $like, ...),
+   * logical combinators ($or, $and, $not) and dotted JSON paths.
    */
   abstract find<T extends StorageRecord>(
     collection: string,
-    criteria: Record<string, unknown>,
+    criteria: QueryCriteria,
     options?: QueryOptions
   ): Promise<Result<PaginatedResult<T>, StorageError>>;
 
+  /**
+   * Iterate over all records matching criteria in bounded memory.
+   *
+   * Records are fetched in batches using keyset pagination, so the stream
+   * is stable under concurrent inserts. Failures are thrown as StorageError.
+   */
+  async *stream<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria = {},
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    const { batchSize = DEFAULT_STREAM_BATCH_SIZE, ...queryOptions } = options;
+    let cursor = options.cursor;
+
+    for (;;) {
+      const page = await this.find<T>(collection, criteria, {
+        ...queryOptions,
+        limit: batchSize,
+        ...(cursor !== undefined ? { cursor } : {}),
+      });
+      if (!page.ok) {
+        throw page.error;
+      }
+
+      yield* page.value.items;
+
+      if (page.value.nextCursor === undefined) {
+        return;
+      }
+      cursor = page.value.nextCursor;
+    }
+  }
+
   /**
    * Count records matching criteria
    */
   abstract count(
     collection: string,
-    criteria?: Record<string, unknown>
+    criteria?: QueryCriteria
   ): Promise<Result<number, StorageError>>;
 
   /**
-   * Upsert a record (insert or update if exists)
+   * Count the records matching criteria by group, largest group first.
+   * Backends that can aggregate natively override this scan.
+   */
+  async aggregate(
+    collection: string,
+    query: AggregateQuery
+  ): Promise<Result<readonly AggregateGroup[], StorageError>> {
+    try {
+      const aggregation = new Aggregation(query);
+      for await (const record of this.stream(collection, query.criteria ?? {})) {
+        aggregation.add(record);
+      }
+      return ok(aggregation.groups());
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return err(error);
+      }
+      return err(
+        new StorageError(
+          `Aggregate failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED',
+          error instanceof Error ? error : undefined
+        )
+      );
+    }
+  }
+
+  /**
+   * Upsert a record (insert or update if exists).
+   *
+   * Replacing a record fails with CONSTRAINT_VIOLATION in append-only
+   * collections and keeps the previous record as a prior version in
+   * versioned ones.
    */
   abstract upsert<T extends StorageRecord>(
     collection: string,
@@ -158,6 +262,275 @@ export abstract class StorageInterface {
     fn: () => Promise<Result<T, StorageError>>
   ): Promise<Result<T, StorageError>>;
 
+  /**
+   * Register migrations (typically owned by a package) and apply the
+   * pending ones. Returns the number of migrations applied.
+   */
+  abstract registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>>;
+
+  /**
+   * Get the state of every registered or applied migration
+   */
+  abstract migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>>;
+
+  /**
+   * Compute the steps that would bring a module to a version, without running them
+   */
+  abstract planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>>;
+
+  /**
+   * Migrate a module up or down to a version. Returns the number of steps executed.
+   */
+  abstract migrateTo(version: number, module?: string): Promise<Result<number, StorageError>>;
+
+  /**
+   * Declare the write mode of a collection
+   */
+  abstract registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>>;
+
+  /**
+   * Get the write mode of a collection (`mutable` unless registered otherwise)
+   */
+  abstract writeMode(collection: string): WriteMode;
+
+  /**
+   * Get every version of a record, oldest first with the current record last.
+   * Collections that are not versioned return at most the current record.
+   */
+  abstract findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>>;
+
+  /**
+   * Discard every prior version of a record, keeping only the current one,
+   * so data removed from a record does not live on in its history. Logged
+   * changes to the record keep their sequence and operation but are left
+   * with its current state only. Returns the number of versions discarded.
+   */
+  abstract eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>>;
+
+  /**
+   * Read committed changes with a sequence greater than `sequence`, in
+   * sequence order. Writes made through raw `query()` are not logged.
+   */
+  abstract changesSince(
+    sequence: number,
+    options?: ChangeQueryOptions
+  ): Promise<Result<readonly ChangeEvent[], StorageError>>;
+
+  /**
+   * Drop logged changes with a sequence lower than `sequence`, once every
+   * consumer has read them. Later changes keep their sequence and new ones
+   * continue after the latest. Returns the number of changes dropped.
+   */
+  abstract pruneChanges(sequence: number): Promise<Result<number, StorageError>>;
+
+  /**
+   * Be notified of changes as they commit. With `since`, logged changes
+   * after that sequence are replayed first, so a consumer can resume from
+   * its last checkpoint without gaps.
+   */
+  abstract subscribe(listener: ChangeListener, options?: SubscribeOptions): ChangeSubscription;
+
+  /**
+   * Sequence of the last committed change (0 when nothing was logged).
+   * Backends that know it directly override this scan of the change log.
+   */
+  async latestSequence(): Promise<Result<number, StorageError>> {
+    let sequence = 0;
+    for (;;) {
+      const page = await this.changesSince(sequence);
+      if (!page.ok) {
+        return page;
+      }
+      const last = page.value[page.value.length - 1];
+      if (last === undefined) {
+        return ok(sequence);
+      }
+      sequence = last.sequence;
+    }
+  }
+
+  /**
+   * Capture every collection and the migration versions consistently.
+   *
+   * The snapshot is read in a transaction, so writes from other callers
+   * wait until it has been taken. With `sinceSequence` or `since` only
+   * the changes after an earlier snapshot are captured.
+   */
+  async snapshot(options: SnapshotOptions = {}): Promise<Result<StorageSnapshot, StorageError>> {
+    return this.transaction(async () => {
+      const sequence = await this.latestSequence();
+      if (!sequence.ok) {
+        return sequence;
+      }
+      const statuses = await this.migrationStatus();
+      if (!statuses.ok) {
+        return statuses;
+      }
+
+      const collections: Record<string, StorageRecord[]> = {};
+      if (options.sinceSequence !== undefined) {
+        // Replay every logged write, keeping intermediate versions
+        const query = options.collections !== undefined ? { collections: options.collections } : {};
+        for (let after = options.sinceSequence; after < sequence.value; ) {
+          const page = await this.changesSince(after, query);
+          if (!page.ok) {
+            return page;
+          }
+          const last = page.value[page.value.length - 1];
+          if (last === undefined) break;
+          for (const change of page.value) {
+            if (change.after !== null && change.sequence <= sequence.value) {
+              (collections[change.collection] ??= []).push(change.after);
+            }
+          }
+          after = last.sequence;
+        }
+      } else {
+        let names = options.collections;
+        if (names === undefined) {
+          const stats = await this.stats();
+          if (!stats.ok) {
+            return stats;
+          }
+          names = Object.keys(stats.value.collections);
+        }
+
+        for (const collection of names) {
+          const withVersions = options.since === undefined && this.writeMode(collection) === 'versioned';
+          const records: StorageRecord[] = [];
+          const stream = this.stream(collection, {}, {
+            orderBy: 'createdAt',
+            orderDirection: 'asc',
+            ...(options.since !== undefined ? { temporal: { start: options.since } } : {}),
+          });
+          try {
+            for await (const record of stream) {
+              if (!withVersions) {
+                records.push(record);
+                continue;
+              }
+              const versions = await this.findVersions(collection, record.id);
+              if (!versions.ok) {
+                return versions;
+              }
+              records.push(...versions.value.map((version) => version.record));
+            }
+          } catch (error) {
+            return err(
+              error instanceof StorageError
+                ? error
+                : new StorageError(`Snapshot of ${collection} failed: ${String(error)}`, 'QUERY_FAILED')
+            );
+          }
+          collections[collection] = records;
+        }
+      }
+
+      const incremental = options.sinceSequence !== undefined || options.since !== undefined;
+      return ok({
+        format: SNAPSHOT_FORMAT_VERSION,
+        takenAt: createTimestamp(),
+        sequence: sequence.value,
+        migrations: appliedMigrationVersions(statuses.value),
+        incremental,
+        ...(options.sinceSequence !== undefined ? { sinceSequence: options.sinceSequence } : {}),
+        ...(options.since !== undefined ? { since: options.since } : {}),
+        collections,
+      });
+    });
+  }
+
+  /**
+   * Write a snapshot back in a single transaction.
+   *
+   * Full snapshots must be restored into empty collections; incremental
+   * ones are applied on top, replacing changed records according to each
+   * collection's write mode. The storage must have applied at least the
+   * snapshot's migration versions.
+   */
+  async restore(
+    snapshot: StorageSnapshot,
+    options: RestoreOptions = {}
+  ): Promise<Result<RestoreResult, StorageError>> {
+    if (snapshot.format !== SNAPSHOT_FORMAT_VERSION) {
+      return err(new StorageError(`Unsupported snapshot format: ${String(snapshot.format)}`, 'INVALID_DATA'));
+    }
+
+    return this.transaction(async () => {
+      const statuses = await this.migrationStatus();
+      if (!statuses.ok) {
+        return statuses;
+      }
+      const applied = appliedMigrationVersions(statuses.value);
+      for (const [module, version] of Object.entries(snapshot.migrations)) {
+        if ((applied[module] ?? 0) < version) {
+          return err(
+            new StorageError(
+              `Snapshot requires ${module} migrations up to version ${version}, storage is at ${applied[module] ?? 0}`,
+              'MIGRATION_FAILED'
+            )
+          );
+        }
+      }
+
+      let restored = 0;
+      let skipped = 0;
+      let touched = 0;
+      for (const [collection, records] of Object.entries(snapshot.collections)) {
+        if (records.length === 0) continue;
+        touched++;
+        if (!snapshot.incremental) {
+          const existing = await this.count(collection);
+          if (!existing.ok) {
+            return existing;
+          }
+          if (existing.value > 0) {
+            return err(
+              new StorageError(`Cannot restore a full snapshot into non-empty collection ${collection}`, 'CONSTRAINT_VIOLATION')
+            );
+          }
+        }
+
+        for (const record of records) {
+          const existing = await this.findById(collection, record.id);
+          if (!existing.ok) {
+            return existing;
+          }
+          if (existing.value !== null && sameRecord(existing.value, record)) {
+            skipped++;
+            continue;
+          }
+          const written = existing.value === null
+            ? await this.insert(collection, record)
+            : await this.upsert(collection, record);
+          if (!written.ok) {
+            return written;
+          }
+          restored++;
+        }
+      }
+
+      if (options.verify !== undefined) {
+        const verified = await options.verify();
+        if (!verified.ok) {
+          return verified;
+        }
+      }
+      return ok({ restored, skipped, collections: touched });
+    });
+  }
+
   /**
    * Get storage statistics
    */
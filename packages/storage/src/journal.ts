@@ -0,0 +1,244 @@
+/**
+ * Write-ahead journal for SQLite storage
+ *
+ * Records committed write statements as newline-delimited JSON so that
+ * a sql.js database can be rebuilt from its last checkpoint plus the
+ * journal tail. Appends are O(change) and survive a process kill.
+ */
+
+import {
+  openSync,
+  closeSync,
+  writeSync,
+  fsyncSync,
+  ftruncateSync,
+  fstatSync,
+  readFileSync,
+  mkdirSync,
+} from 'node:fs';
+import { dirname } from 'node:path';
+import type { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+import { StorageError } from './interface.js';
+
+/**
+ * A single write statement captured by the journal
+ */
+export interface JournalStatement {
+  readonly sql: string;
+  readonly params: readonly SqlValue[];
+}
+
+/**
+ * A committed unit of work (one statement or one transaction)
+ */
+export interface JournalEntry {
+  readonly seq: number;
+  readonly statements: readonly JournalStatement[];
+}
+
+/**
+ * Result of replaying a journal onto a database
+ */
+export interface JournalReplayResult {
+  /** Number of entries applied */
+  readonly applied: number;
+  /** Number of entries skipped because the checkpoint already contains them */
+  readonly skipped: number;
+  /** Bytes discarded from a torn (partially written) tail */
+  readonly truncatedBytes: number;
+}
+
+/**
+ * Serialized form of a statement parameter (binary values are base64 encoded)
+ */
+type EncodedParam = string | number | null | { readonly $bytes: string };
+
+/**
+ * Append-only journal of committed statements
+ */
+export class WriteAheadJournal {
+  private fd: number | null = null;
+  private _sequence = 0;
+  private _size = 0;
+
+  constructor(
+    private readonly path: string,
+    private readonly fsync: boolean = false
+  ) {}
+
+  /**
+   * Sequence number of the last committed entry
+   */
+  get sequence(): number {
+    return this._sequence;
+  }
+
+  /**
+   * Current journal size in bytes
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Open the journal file for appending, creating it if necessary
+   */
+  open(): void {
+    if (this.fd !== null) return;
+    mkdirSync(dirname(this.path), { recursive: true });
+    this.fd = openSync(this.path, 'a+');
+    this._size = fstatSync(this.fd).size;
+  }
+
+  /**
+   * Replay all entries newer than `checkpointSeq` onto the database.
+   *
+   * A torn final line (left behind by a crash mid-append) is discarded and
+   * truncated from the file; corruption anywhere else is an error.
+   */
+  replay(db: SqlJsDatabase, checkpointSeq: number): JournalReplayResult {
+    this.ensureOpen();
+    const content = readFileSync(this.path);
+    let applied = 0;
+    let skipped = 0;
+    let offset = 0;
+    let lastSeq = checkpointSeq;
+
+    while (offset < content.length) {
+      const newline = content.indexOf(0x0a, offset);
+      if (newline === -1) {
+        // Torn tail: the final append never completed
+        break;
+      }
+
+      const line = content.toString('utf8', offset, newline);
+      let entry: JournalEntry;
+      try {
+        entry = this.decode(line);
+      } catch (error) {
+        if (newline === content.length - 1) {
+          // Last line is unreadable, treat as torn
+          break;
+        }
+        throw new StorageError(
+          `Corrupt journal entry at byte ${offset}: ${error instanceof Error ? error.message : String(error)}`,
+          'INVALID_DATA',
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      if (entry.seq <= checkpointSeq) {
+        skipped++;
+      } else {
+        db.run('BEGIN TRANSACTION');
+        try {
+          for (const statement of entry.statements) {
+            db.run(statement.sql, statement.params as SqlValue[]);
+          }
+          db.run('COMMIT');
+        } catch (error) {
+          db.run('ROLLBACK');
+          throw new StorageError(
+            `Failed to replay journal entry ${entry.seq}: ${error instanceof Error ? error.message : String(error)}`,
+            'INVALID_DATA',
+            error instanceof Error ? error : undefined
+          );
+        }
+        applied++;
+      }
+
+      lastSeq = Math.max(lastSeq, entry.seq);
+      offset = newline + 1;
+    }
+
+    const truncatedBytes = content.length - offset;
+    if (truncatedBytes > 0) {
+      ftruncateSync(this.fd!, offset);
+    }
+    this._size = offset;
+
+    this._sequence = lastSeq;
+    return { applied, skipped, truncatedBytes };
+  }
+
+  /**
+   * Append a committed unit of work and return its sequence number
+   */
+  append(statements: readonly JournalStatement[]): number {
+    this.ensureOpen();
+    const seq = this._sequence + 1;
+    const line = this.encode({ seq, statements }) + '\n';
+    const buffer = Buffer.from(line, 'utf8');
+
+    let written = 0;
+    while (written < buffer.length) {
+      written += writeSync(this.fd!, buffer, written, buffer.length - written);
+    }
+    if (this.fsync) {
+      fsyncSync(this.fd!);
+    }
+
+    this._sequence = seq;
+    this._size += buffer.length;
+    return seq;
+  }
+
+  /**
+   * Discard all entries (after they have been checkpointed)
+   */
+  reset(): void {
+    this.ensureOpen();
+    ftruncateSync(this.fd!, 0);
+    if (this.fsync) {
+      fsyncSync(this.fd!);
+    }
+    this._size = 0;
+  }
+
+  /**
+   * Close the journal file
+   */
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private ensureOpen(): void {
+    if (this.fd === null) {
+      throw new StorageError('Journal not open', 'CONNECTION_FAILED');
+    }
+  }
+
+  private encode(entry: JournalEntry): string {
+    return JSON.stringify({
+      seq: entry.seq,
+      statements: entry.statements.map((s) => ({
+        sql: s.sql,
+        params: s.params.map((p): EncodedParam =>
+          p instanceof Uint8Array ? { $bytes: Buffer.from(p).toString('base64') } : p
+        ),
+      })),
+    });
+  }
+
+  private decode(line: string): JournalEntry {
+    const raw = JSON.parse(line) as {
+      seq: unknown;
+      statements: { sql: string; params: EncodedParam[] }[];
+    };
+    if (typeof raw.seq !== 'number' || !Array.isArray(raw.statements)) {
+      throw new Error('Malformed journal entry');
+    }
+    return {
+      seq: raw.seq,
+      statements: raw.statements.map((s) => ({
+        sql: s.sql,
+        params: s.params.map((p): SqlValue =>
+          p !== null && typeof p === 'object' ? new Uint8Array(Buffer.from(p.$bytes, 'base64')) : p
+        ),
+      })),
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Keyrings for encryption at rest
+ *
+ * A keyring holds the master keys that wrap per-record data keys, and the
+ * key used to compute blind indexes. Master keys are addressed by id so
+ * that data keys wrapped by a retired key can still be unwrapped until
+ * they have been rotated.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { StorageError } from './interface.js';
+
+/** Length in bytes of master and index keys (AES-256 / HMAC-SHA-256) */
+export const KEY_LENGTH = 32;
+
+/**
+ * Source of encryption keys
+ */
+export interface Keyring {
+  /** Id of the master key used to wrap new data keys */
+  readonly activeKeyId: string;
+  /** Get a master key by id */
+  getKey(keyId: string): Buffer | undefined;
+  /** Key for blind indexes. Changing it invalidates every existing index. */
+  readonly indexKey: Buffer;
+}
+
+/**
+ * Local keyring configuration. Keys are raw bytes or base64 strings.
+ */
+export interface LocalKeyringOptions {
+  keys: Readonly<Record<string, Buffer | string>>;
+  activeKeyId: string;
+  indexKey: Buffer | string;
+}
+
+/**
+ * Keyring holding its keys in process memory
+ */
+export class LocalKeyring implements Keyring {
+  private readonly _keys = new Map<string, Buffer>();
+  private _activeKeyId: string;
+  readonly indexKey: Buffer;
+
+  constructor(options: LocalKeyringOptions) {
+    for (const [keyId, key] of Object.entries(options.keys)) {
+      this._keys.set(keyId, toKey(key, `master key ${keyId}`));
+    }
+    this.indexKey = toKey(options.indexKey, 'index key');
+    if (!this._keys.has(options.activeKeyId)) {
+      throw new StorageError(`Unknown active key: ${options.activeKeyId}`, 'INVALID_DATA');
+    }
+    this._activeKeyId = options.activeKeyId;
+  }
+
+  /**
+   * Generate a random key, base64 encoded
+   */
+  static generateKey(): string {
+    return randomBytes(KEY_LENGTH).toString('base64');
+  }
+
+  get activeKeyId(): string {
+    return this._activeKeyId;
+  }
+
+  getKey(keyId: string): Buffer | undefined {
+    return this._keys.get(keyId);
+  }
+
+  /**
+   * Add a master key, optionally making it the active one
+   */
+  addKey(keyId: string, key: Buffer | string, activate = false): void {
+    if (this._keys.has(keyId)) {
+      throw new StorageError(`Key already exists: ${keyId}`, 'DUPLICATE_KEY');
+    }
+    this._keys.set(keyId, toKey(key, `master key ${keyId}`));
+    if (activate) {
+      this._activeKeyId = keyId;
+    }
+  }
+
+  /**
+   * Remove a master key once no data key is wrapped by it any more
+   */
+  removeKey(keyId: string): void {
+    if (keyId === this._activeKeyId) {
+      throw new StorageError('Cannot remove the active key', 'CONSTRAINT_VIOLATION');
+    }
+    this._keys.delete(keyId);
+  }
+}
+
+function toKey(key: Buffer | string, label: string): Buffer {
+  const bytes = typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+  if (bytes.length !== KEY_LENGTH) {
+    throw new StorageError(`Invalid ${label}: expected ${KEY_LENGTH} bytes, got ${bytes.length}`, 'INVALID_DATA');
+  }
+  return bytes;
+}
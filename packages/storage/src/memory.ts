@@ -3,23 +3,146 @@
  *
  * Useful for testing and prototyping.
  * Not suitable for production use.
+ *
+ * Transactions work on a copy-on-write view of the committed collections:
+ * a collection is copied the first time a transaction writes to it, readers
+ * outside the transaction keep seeing the committed snapshot, and rollback
+ * simply discards the view. Changes logged by a transaction are appended
+ * to the change log when it commits.
  */
 
-import { ok, err, type Result, createTimestamp } from '@contextgraph/core';
+import { ok, err, type Result, type Timestamp, createTimestamp } from '@contextgraph/core';
 import {
   StorageInterface,
   StorageError,
   type QueryOptions,
+  type StreamOptions,
   type PaginatedResult,
   type StorageRecord,
 } from './interface.js';
+import { createCriteriaMatcher, type QueryCriteria } from './criteria.js';
+import {
+  createPositionFilter,
+  createRecordComparator,
+  decodeCursor,
+  encodeCursor,
+  positionAfter,
+  type CursorPosition,
+} from './pagination.js';
+import { TransactionScope, type TransactionHooks } from './transaction.js';
+import {
+  CollectionRegistry,
+  RECORD_VERSIONS_TABLE,
+  appendOnlyViolation,
+  type CollectionOptions,
+  type RecordVersion,
+  type WriteMode,
+} from './collections.js';
+import {
+  DEFAULT_CHANGE_BATCH_SIZE,
+  ChangeFeed,
+  createChange,
+  isChangeOf,
+  matchesCollections,
+  redactChange,
+  type ChangeEvent,
+  type ChangeListener,
+  type ChangeQueryOptions,
+  type ChangeSubscription,
+  type SubscribeOptions,
+} from './changes.js';
+import {
+  MigrationRunner,
+  InMemorySchemaRegistry,
+  coreMigrations,
+  type Migration,
+  type MigrationStatus,
+  type MigrationStep,
+} from './migrations.js';
+
+type Collections = Map<string, Map<string, StorageRecord>>;
+
+function versionKey(collection: string, id: string, version: number): string {
+  return `${collection}\u0000${id}\u0000${version}`;
+}
+
+/**
+ * Copy-on-write view of the collections inside a transaction or savepoint
+ */
+interface MemoryTransactionFrame {
+  readonly parent: MemoryTransactionFrame | undefined;
+  collections: Collections;
+  /** Collections already copied by this frame and safe to mutate */
+  readonly owned: Set<string>;
+  /** Changes logged by this frame, not yet visible in the change log */
+  readonly changes: ChangeEvent[];
+  /** Records whose history this frame erased, to be redacted from the change log */
+  readonly erased: ErasedRecord[];
+  /** Changes before this sequence are dropped from the log on commit */
+  pruneBefore: number;
+}
+
+interface ErasedRecord {
+  readonly collection: string;
+  readonly id: string;
+}
 
 export class InMemoryStorage extends StorageInterface {
-  private collections: Map<string, Map<string, StorageRecord>> = new Map();
+  private collections: Collections = new Map();
+  /** Committed changes; the change with sequence n is at index n - prunedChanges - 1 */
+  private changeLog: ChangeEvent[] = [];
+  /** Number of changes dropped from the start of the log */
+  private prunedChanges = 0;
+  private readonly changeFeed = new ChangeFeed();
   private initialized = false;
+  private readonly schema = new InMemorySchemaRegistry();
+  private readonly migrationRunner = new MigrationRunner(this.schema);
+  private readonly collectionRegistry = new CollectionRegistry();
+  private readonly scope = new TransactionScope<MemoryTransactionFrame>();
+  private readonly transactionHooks: TransactionHooks<MemoryTransactionFrame> = {
+    begin: (parent) => ({
+      parent,
+      collections: new Map(parent?.collections ?? this.collections),
+      owned: new Set(),
+      changes: [],
+      erased: [],
+      pruneBefore: 0,
+    }),
+    commit: (frame) => {
+      if (frame.parent === undefined) {
+        this.collections = frame.collections;
+        let changes = frame.changes;
+        for (const { collection, id } of frame.erased) {
+          changes = this.redactChanges(changes, collection, id);
+          this.changeLog = this.redactChanges(this.changeLog, collection, id);
+        }
+        this.pruneLog(frame.pruneBefore);
+        this.changeLog.push(...changes);
+        this.changeFeed.publish(changes);
+        return;
+      }
+      frame.parent.collections = frame.collections;
+      frame.parent.changes.push(...frame.changes);
+      frame.parent.erased.push(...frame.erased);
+      frame.parent.pruneBefore = Math.max(frame.parent.pruneBefore, frame.pruneBefore);
+      for (const name of frame.owned) {
+        frame.parent.owned.add(name);
+      }
+    },
+    rollback: () => {
+      // Nothing to undo: the frame's copies are simply dropped
+    },
+  };
 
   async initialize(): Promise<Result<void, StorageError>> {
     this.collections.clear();
+    this.changeLog = [];
+    this.prunedChanges = 0;
+    this.schema.clear();
+    const migrated = this.migrationRunner.run(coreMigrations);
+    if (!migrated.ok) {
+      return migrated;
+    }
     this.initialized = true;
     return ok(undefined);
   }
@@ -39,12 +162,9 @@ export class InMemoryStorage extends StorageInterface {
     record: T
   ): Promise<Result<T, StorageError>> {
     this.ensureInitialized();
+    await this.scope.idle();
 
-    if (!this.collections.has(collection)) {
-      this.collections.set(collection, new Map());
-    }
-
-    const col = this.collections.get(collection)!;
+    const col = this.writable(collection);
     if (col.has(record.id)) {
       return err(new StorageError(`Duplicate key: ${record.id}`, 'DUPLICATE_KEY'));
     }
@@ -52,6 +172,7 @@ export class InMemoryStorage extends StorageInterface {
     const now = createTimestamp();
     const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now } as T;
     col.set(record.id, recordWithTimestamp);
+    this.logChange(collection, null, recordWithTimestamp);
     return ok(recordWithTimestamp);
   }
 
@@ -59,22 +180,17 @@ export class InMemoryStorage extends StorageInterface {
     collection: string,
     records: readonly T[]
   ): Promise<Result<readonly T[], StorageError>> {
-    const results: T[] = [];
-    for (const record of records) {
-      const result = await this.insert(collection, record);
-      if (!result.ok) {
-        // Rollback: remove all inserted records
-        const col = this.collections.get(collection);
-        if (col !== undefined) {
-          for (const inserted of results) {
-            col.delete(inserted.id);
-          }
+    return this.transaction(async () => {
+      const results: T[] = [];
+      for (const record of records) {
+        const result = await this.insert(collection, record);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
         }
-        return result as Result<never, StorageError>;
+        results.push(result.value);
       }
-      results.push(result.value);
-    }
-    return ok(results);
+      return ok(results);
+    });
   }
 
   async findById<T extends StorageRecord>(
@@ -82,7 +198,7 @@ export class InMemoryStorage extends StorageInterface {
     id: string
   ): Promise<Result<T | null, StorageError>> {
     this.ensureInitialized();
-    const col = this.collections.get(collection);
+    const col = this.visible().get(collection);
     if (col === undefined) {
       return ok(null);
     }
@@ -92,76 +208,71 @@ export class InMemoryStorage extends StorageInterface {
 
   async find<T extends StorageRecord>(
     collection: string,
-    criteria: Record<string, unknown>,
+    criteria: QueryCriteria,
     options?: QueryOptions
   ): Promise<Result<PaginatedResult<T>, StorageError>> {
     this.ensureInitialized();
 
-    const col = this.collections.get(collection);
-    if (col === undefined) {
-      return ok({ items: [], total: 0, limit: options?.limit ?? 100, offset: options?.offset ?? 0, hasMore: false });
-    }
-
-    let records = Array.from(col.values()) as T[];
-
-    // Apply criteria filter
-    records = records.filter((record) => {
-      for (const [key, value] of Object.entries(criteria)) {
-        if (value === undefined) continue;
-        const recordValue = record[key as keyof T];
-        if (JSON.stringify(recordValue) !== JSON.stringify(value)) {
-          return false;
-        }
-      }
-      return true;
-    });
-
-    // Apply temporal filter
-    if (options?.temporal !== undefined) {
-      records = records.filter((record) => {
-        const createdAt = record.createdAt;
-        if (options.temporal?.start !== undefined && createdAt < options.temporal.start) {
-          return false;
-        }
-        if (options.temporal?.end !== undefined && createdAt > options.temporal.end) {
-          return false;
-        }
-        return true;
-      });
+    const orderBy = options?.orderBy ?? 'createdAt';
+    const orderDir = options?.orderDirection ?? 'desc';
+    let records: T[];
+    let position: CursorPosition | undefined;
+    try {
+      records = this.select<T>(collection, criteria, options);
+      position = options?.cursor !== undefined ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+    } catch (error) {
+      return err(error instanceof StorageError ? error : new StorageError(String(error), 'INVALID_DATA'));
     }
 
     const total = records.length;
 
     // Apply sorting
-    const orderBy = options?.orderBy ?? 'createdAt';
-    const orderDir = options?.orderDirection ?? 'desc';
-    records.sort((a, b) => {
-      const aVal = a[orderBy as keyof T];
-      const bVal = b[orderBy as keyof T];
-      if (aVal === bVal) return 0;
-      if (aVal === undefined || aVal === null) return 1;
-      if (bVal === undefined || bVal === null) return -1;
-      const comparison = aVal < bVal ? -1 : 1;
-      return orderDir === 'asc' ? comparison : -comparison;
-    });
+    records.sort(createRecordComparator(orderBy, orderDir));
 
     // Apply pagination
     const limit = options?.limit ?? 100;
-    const offset = options?.offset ?? 0;
+    const offset = position !== undefined ? 0 : options?.offset ?? 0;
+    if (position !== undefined) {
+      records = records.filter(createPositionFilter(position));
+    }
+    const hasMore = offset + limit < records.length;
     records = records.slice(offset, offset + limit);
+    const last = records[records.length - 1];
 
     return ok({
       items: records,
       total,
       limit,
       offset,
-      hasMore: offset + records.length < total,
+      hasMore,
+      ...(hasMore && last !== undefined ? { nextCursor: encodeCursor(positionAfter(last, orderBy, orderDir)) } : {}),
     });
   }
 
+  /**
+   * Stream matching records from a snapshot of the collection
+   */
+  override async *stream<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria = {},
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    this.ensureInitialized();
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDirection ?? 'desc';
+
+    let records = this.select<T>(collection, criteria, options);
+    records.sort(createRecordComparator(orderBy, orderDir));
+    if (options.cursor !== undefined) {
+      records = records.filter(createPositionFilter(decodeCursor(options.cursor, orderBy, orderDir)));
+    }
+
+    yield* records;
+  }
+
   async count(
     collection: string,
-    criteria?: Record<string, unknown>
+    criteria?: QueryCriteria
   ): Promise<Result<number, StorageError>> {
     const result = await this.find(collection, criteria ?? {}, { limit: 0 });
     if (!result.ok) {
@@ -175,15 +286,24 @@ export class InMemoryStorage extends StorageInterface {
     record: T
   ): Promise<Result<T, StorageError>> {
     this.ensureInitialized();
+    await this.scope.idle();
 
-    if (!this.collections.has(collection)) {
-      this.collections.set(collection, new Map());
+    const col = this.writable(collection);
+    const existing = col.get(record.id);
+    if (existing !== undefined) {
+      const mode = this.collectionRegistry.writeMode(collection);
+      if (mode === 'append_only') {
+        return err(appendOnlyViolation(collection, record.id));
+      }
+      if (mode === 'versioned') {
+        this.archiveVersion(collection, existing);
+      }
     }
 
-    const col = this.collections.get(collection)!;
     const now = createTimestamp();
     const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now } as T;
     col.set(record.id, recordWithTimestamp);
+    this.logChange(collection, existing ?? null, recordWithTimestamp);
     return ok(recordWithTimestamp);
   }
 
@@ -194,11 +314,131 @@ export class InMemoryStorage extends StorageInterface {
     return err(new StorageError('Raw queries not supported in memory storage', 'QUERY_FAILED'));
   }
 
+  /**
+   * Run operations in a transaction. Nested calls act as savepoints, and
+   * top-level transactions from concurrent callers run one at a time.
+   */
   async transaction<T>(
     fn: () => Promise<Result<T, StorageError>>
   ): Promise<Result<T, StorageError>> {
-    // Simple implementation - no real transaction support
-    return fn();
+    this.ensureInitialized();
+    return this.scope.run(this.transactionHooks, fn);
+  }
+
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.run(migrations);
+  }
+
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.status();
+  }
+
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.plan(version, module);
+  }
+
+  async migrateTo(version: number, module?: string): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return this.migrationRunner.migrateTo(version, module);
+  }
+
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this.collectionRegistry.register(collection, options);
+  }
+
+  writeMode(collection: string): WriteMode {
+    return this.collectionRegistry.writeMode(collection);
+  }
+
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
+    this.ensureInitialized();
+    const archived = this.visible().get(RECORD_VERSIONS_TABLE);
+    const versions: RecordVersion<T>[] = [];
+
+    for (let version = 1; ; version++) {
+      const row = archived?.get(versionKey(collection, id, version));
+      if (row === undefined) break;
+      versions.push({ version, record: row['data'] as T, supersededAt: row['supersededAt'] as Timestamp });
+    }
+
+    const current = this.visible().get(collection)?.get(id);
+    if (current !== undefined) {
+      versions.push({ version: versions.length + 1, record: current as T });
+    }
+    return ok(versions);
+  }
+
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    const archived = this.writable(RECORD_VERSIONS_TABLE);
+    let erased = 0;
+    while (archived.delete(versionKey(collection, id, erased + 1))) {
+      erased++;
+    }
+
+    const frame = this.scope.current;
+    if (frame !== undefined) {
+      frame.erased.push({ collection, id });
+    } else {
+      this.changeLog = this.redactChanges(this.changeLog, collection, id);
+    }
+    return ok(erased);
+  }
+
+  async changesSince(
+    sequence: number,
+    options: ChangeQueryOptions = {}
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    this.ensureInitialized();
+    const limit = options.limit ?? DEFAULT_CHANGE_BATCH_SIZE;
+    const changes: ChangeEvent[] = [];
+    for (let i = Math.max(sequence - this.prunedChanges, 0); i < this.changeLog.length && changes.length < limit; i++) {
+      const change = this.changeLog[i]!;
+      if (matchesCollections(change, options.collections)) {
+        changes.push(change);
+      }
+    }
+    return ok(changes);
+  }
+
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    return ok(this.prunedChanges + this.changeLog.length);
+  }
+
+  /**
+   * Drop changes before a sequence, when the enclosing transaction commits
+   */
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    this.ensureInitialized();
+    await this.scope.idle();
+
+    const frame = this.scope.current;
+    if (frame !== undefined) {
+      frame.pruneBefore = Math.max(frame.pruneBefore, sequence);
+      return ok(this.prunableChanges(sequence));
+    }
+    return ok(this.pruneLog(sequence));
+  }
+
+  subscribe(listener: ChangeListener, options: SubscribeOptions = {}): ChangeSubscription {
+    return this.changeFeed.subscribe(listener, options, (sequence, query) => this.changesSince(sequence, query));
   }
 
   async stats(): Promise<
@@ -207,7 +447,8 @@ export class InMemoryStorage extends StorageInterface {
     const collections: Record<string, number> = {};
     let totalSize = 0;
 
-    for (const [name, col] of this.collections) {
+    for (const [name, col] of this.visible()) {
+      if (name === RECORD_VERSIONS_TABLE) continue;
       collections[name] = col.size;
       totalSize += col.size;
     }
@@ -220,6 +461,120 @@ export class InMemoryStorage extends StorageInterface {
    */
   async clear(): Promise<void> {
     this.collections.clear();
+    this.changeLog = [];
+    this.prunedChanges = 0;
+  }
+
+  /**
+   * Records of a collection matching criteria and the temporal filter
+   */
+  private select<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria,
+    options?: Pick<QueryOptions, 'temporal'>
+  ): T[] {
+    const matches = createCriteriaMatcher(criteria);
+    const col = this.visible().get(collection);
+    if (col === undefined) {
+      return [];
+    }
+
+    const start = options?.temporal?.start;
+    const end = options?.temporal?.end;
+    const records: T[] = [];
+    for (const record of col.values()) {
+      if (!matches(record)) continue;
+      if (start !== undefined && record.createdAt < start) continue;
+      if (end !== undefined && record.createdAt > end) continue;
+      records.push(record as T);
+    }
+    return records;
+  }
+
+  /**
+   * Keep a record about to be replaced as the next prior version
+   */
+  private archiveVersion(collection: string, record: StorageRecord): void {
+    const archived = this.writable(RECORD_VERSIONS_TABLE);
+    let version = 1;
+    while (archived.has(versionKey(collection, record.id, version))) {
+      version++;
+    }
+
+    const now = createTimestamp();
+    const key = versionKey(collection, record.id, version);
+    archived.set(key, { id: key, collection, recordId: record.id, version, data: record, supersededAt: now, createdAt: now });
+  }
+
+  /**
+   * Log a write, publishing it at once outside a transaction
+   */
+  private logChange(collection: string, before: StorageRecord | null, after: StorageRecord): void {
+    const frame = this.scope.current;
+    let sequence = this.prunedChanges + this.changeLog.length + 1;
+    for (let f = frame; f !== undefined; f = f.parent) {
+      sequence += f.changes.length;
+    }
+
+    const change = createChange(sequence, collection, before, after, createTimestamp());
+    if (frame !== undefined) {
+      frame.changes.push(change);
+      return;
+    }
+    this.changeLog.push(change);
+    this.changeFeed.publish([change]);
+  }
+
+  /**
+   * Redact the changes to a record, leaving its committed state
+   */
+  private redactChanges(changes: readonly ChangeEvent[], collection: string, id: string): ChangeEvent[] {
+    const current = this.collections.get(collection)?.get(id) ?? null;
+    return changes.map((change) => (isChangeOf(change, collection, id) ? redactChange(change, current) : change));
+  }
+
+  /**
+   * Number of committed changes with a sequence lower than `sequence`
+   */
+  private prunableChanges(sequence: number): number {
+    return Math.min(Math.max(sequence - this.prunedChanges - 1, 0), this.changeLog.length);
+  }
+
+  /**
+   * Drop committed changes with a sequence lower than `sequence`
+   */
+  private pruneLog(sequence: number): number {
+    const pruned = this.prunableChanges(sequence);
+    this.changeLog.splice(0, pruned);
+    this.prunedChanges += pruned;
+    return pruned;
+  }
+
+  /**
+   * Collections as seen from the current async context
+   */
+  private visible(): Collections {
+    return this.scope.current?.collections ?? this.collections;
+  }
+
+  /**
+   * Get a collection that may be modified in the current context, copying
+   * it into the active transaction frame on first write
+   */
+  private writable(collection: string): Map<string, StorageRecord> {
+    const frame = this.scope.current;
+    const collections = frame?.collections ?? this.collections;
+    let col = collections.get(collection);
+
+    if (frame !== undefined && !frame.owned.has(collection)) {
+      col = new Map(col);
+      collections.set(collection, col);
+      frame.owned.add(collection);
+    } else if (col === undefined) {
+      col = new Map();
+      collections.set(collection, col);
+    }
+    return col;
   }
 
   private ensureInitialized(): void {
@@ -2,86 +2,385 @@
  * Database migrations system
  *
  * Manages schema evolution with versioned, ordered migrations.
- * Migrations are append-only and cannot be modified once applied.
+ * Migrations are append-only and cannot be modified once applied:
+ * every applied migration is stored with a checksum of its `up` script,
+ * and a changed script is reported instead of silently diverging.
+ *
+ * Versions are sequenced per module, so packages can own migrations for
+ * their collections (`module: 'webhooks'`) next to the core schema.
  */
 
+import { createHash } from 'node:crypto';
 import type { Database as SqlJsDatabase } from 'sql.js';
 import { ok, err, type Result } from '@contextgraph/core';
 import { StorageError } from './interface.js';
 
+/** Module of migrations that do not declare one */
+export const CORE_MIGRATION_MODULE = 'core';
+
 export interface Migration {
   readonly version: number;
   readonly name: string;
   readonly up: string;
+  /** Script reverting `up`; migrations without it cannot be rolled back */
+  readonly down?: string;
+  /** Owning module, versions are ordered within a module (default: 'core') */
+  readonly module?: string;
 }
 
-export class MigrationRunner {
+/**
+ * A migration recorded as applied in a schema registry
+ */
+export interface AppliedMigration {
+  readonly module: string;
+  readonly version: number;
+  readonly name: string;
+  /** Checksum of the `up` script when applied (null for rows predating checksums) */
+  readonly checksum: string | null;
+  readonly appliedAt: number;
+}
+
+/**
+ * State of a migration relative to the registry:
+ * - applied: recorded and unchanged
+ * - pending: known but not applied
+ * - modified: applied, but its script has changed since
+ * - unknown: applied, but no longer registered
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'unknown';
+
+export interface MigrationStatus {
+  readonly module: string;
+  readonly version: number;
+  readonly name: string;
+  readonly state: MigrationState;
+  /** Whether the migration has a down script */
+  readonly reversible: boolean;
+  readonly checksum: string | null;
+  readonly appliedChecksum?: string | null;
+  readonly appliedAt?: number;
+}
+
+/**
+ * A single step of a migration plan
+ */
+export interface MigrationStep {
+  readonly direction: 'up' | 'down';
+  readonly module: string;
+  readonly version: number;
+  readonly name: string;
+  readonly sql: string;
+}
+
+/**
+ * Where a backend keeps track of applied migrations
+ */
+export interface SchemaRegistry {
+  /** All applied migrations */
+  list(): readonly AppliedMigration[];
+  /** Run a step and record (up) or forget (down) it, atomically */
+  apply(step: MigrationStep, checksum: string): void;
+  /** Store the checksum of a migration applied before checksums existed */
+  recordChecksum(module: string, version: number, checksum: string): void;
+}
+
+/**
+ * Compute the checksum of a migration's `up` script
+ */
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function moduleOf(migration: Migration | AppliedMigration): string {
+  return migration.module ?? CORE_MIGRATION_MODULE;
+}
+
+function keyOf(module: string, version: number): string {
+  return `${module}#${version}`;
+}
+
+/**
+ * Schema registry stored in the `_migrations` table of a sql.js database
+ */
+export class SqlJsSchemaRegistry implements SchemaRegistry {
+  private ready = false;
+
   constructor(private readonly db: SqlJsDatabase) {}
 
+  list(): readonly AppliedMigration[] {
+    this.ensureTable();
+    const result = this.db.exec(
+      'SELECT module, version, name, checksum, applied_at FROM _migrations ORDER BY module, version'
+    );
+    if (result.length === 0) return [];
+    return result[0]!.values.map((row) => ({
+      module: row[0] as string,
+      version: row[1] as number,
+      name: row[2] as string,
+      checksum: row[3] as string | null,
+      appliedAt: row[4] as number,
+    }));
+  }
+
+  apply(step: MigrationStep, checksum: string): void {
+    this.ensureTable();
+    this.db.run('SAVEPOINT migration_step');
+    try {
+      this.db.run(step.sql);
+      if (step.direction === 'up') {
+        this.db.run(
+          'INSERT INTO _migrations (module, version, name, checksum, applied_at) VALUES (?, ?, ?, ?, ?)',
+          [step.module, step.version, step.name, checksum, Date.now()]
+        );
+      } else {
+        this.db.run('DELETE FROM _migrations WHERE module = ? AND version = ?', [step.module, step.version]);
+      }
+      this.db.run('RELEASE migration_step');
+    } catch (error) {
+      this.db.run('ROLLBACK TO migration_step');
+      this.db.run('RELEASE migration_step');
+      throw error;
+    }
+  }
+
+  recordChecksum(module: string, version: number, checksum: string): void {
+    this.ensureTable();
+    this.db.run('UPDATE _migrations SET checksum = ? WHERE module = ? AND version = ?', [checksum, module, version]);
+  }
+
   /**
-   * Run all pending migrations
+   * Create the registry table, upgrading the original single-module layout
    */
-  run(migrations: readonly Migration[]): Result<number, StorageError> {
-    try {
-      // Ensure migrations table exists
+  private ensureTable(): void {
+    if (this.ready) return;
+
+    const columns = this.db.exec('PRAGMA table_info(_migrations)');
+    const names = columns.length > 0 ? columns[0]!.values.map((row) => row[1] as string) : [];
+    if (names.length > 0 && !names.includes('module')) {
+      this.db.run('ALTER TABLE _migrations RENAME TO _migrations_legacy');
+    }
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS _migrations (
+        module TEXT NOT NULL DEFAULT '${CORE_MIGRATION_MODULE}',
+        version INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        checksum TEXT,
+        applied_at INTEGER NOT NULL,
+        PRIMARY KEY (module, version)
+      )
+    `);
+
+    if (names.length > 0 && !names.includes('module')) {
       this.db.run(`
-        CREATE TABLE IF NOT EXISTS _migrations (
-          version INTEGER PRIMARY KEY,
-          name TEXT NOT NULL,
-          applied_at INTEGER NOT NULL
-        )
+        INSERT INTO _migrations (module, version, name, checksum, applied_at)
+        SELECT '${CORE_MIGRATION_MODULE}', version, name, NULL, applied_at FROM _migrations_legacy
       `);
+      this.db.run('DROP TABLE _migrations_legacy');
+    }
+    this.ready = true;
+  }
+}
 
-      // Get applied migrations
-      const appliedResult = this.db.exec('SELECT version FROM _migrations ORDER BY version');
-      const appliedVersions = new Set<number>();
-      if (appliedResult.length > 0) {
-        for (const row of appliedResult[0]!.values) {
-          appliedVersions.add(row[0] as number);
-        }
+/**
+ * Schema registry for backends without a physical schema.
+ *
+ * Steps are recorded but their scripts are not executed, which keeps
+ * schema versions comparable across backends.
+ */
+export class InMemorySchemaRegistry implements SchemaRegistry {
+  private readonly applied = new Map<string, AppliedMigration>();
+
+  list(): readonly AppliedMigration[] {
+    return [...this.applied.values()].sort((a, b) =>
+      a.module === b.module ? a.version - b.version : a.module < b.module ? -1 : 1
+    );
+  }
+
+  apply(step: MigrationStep, checksum: string): void {
+    const key = keyOf(step.module, step.version);
+    if (step.direction === 'up') {
+      this.applied.set(key, { module: step.module, version: step.version, name: step.name, checksum, appliedAt: Date.now() });
+    } else {
+      this.applied.delete(key);
+    }
+  }
+
+  recordChecksum(module: string, version: number, checksum: string): void {
+    const key = keyOf(module, version);
+    const existing = this.applied.get(key);
+    if (existing !== undefined) {
+      this.applied.set(key, { ...existing, checksum });
+    }
+  }
+
+  /**
+   * Forget all applied migrations
+   */
+  clear(): void {
+    this.applied.clear();
+  }
+}
+
+export class MigrationRunner {
+  private readonly registry: SchemaRegistry;
+  private readonly known = new Map<string, Migration>();
+
+  constructor(target: SqlJsDatabase | SchemaRegistry) {
+    this.registry = 'exec' in target ? new SqlJsSchemaRegistry(target) : target;
+  }
+
+  /**
+   * Make migrations known to the runner without applying them.
+   *
+   * Registering the same migration twice is a no-op; registering a
+   * different script under an existing module and version is an error.
+   */
+  register(migrations: readonly Migration[]): Result<void, StorageError> {
+    for (const migration of migrations) {
+      if (!Number.isInteger(migration.version) || migration.version < 1) {
+        return err(
+          new StorageError(`Invalid migration version ${migration.version} for ${migration.name}`, 'MIGRATION_FAILED')
+        );
+      }
+      const key = keyOf(moduleOf(migration), migration.version);
+      const existing = this.known.get(key);
+      if (existing !== undefined && migrationChecksum(existing) !== migrationChecksum(migration)) {
+        return err(
+          new StorageError(`Conflicting migrations registered for ${key}`, 'MIGRATION_FAILED')
+        );
       }
+      this.known.set(key, migration);
+    }
+    return ok(undefined);
+  }
 
-      // Sort migrations by version
-      const sortedMigrations = [...migrations].sort((a, b) => a.version - b.version);
+  /**
+   * Run all pending migrations
+   */
+  run(migrations: readonly Migration[] = []): Result<number, StorageError> {
+    const registered = this.register(migrations);
+    if (!registered.ok) {
+      return registered;
+    }
+
+    const modules = new Set([...this.known.values()].map(moduleOf));
+    let count = 0;
+    for (const module of modules) {
+      const result = this.migrateTo(this.defaultTarget(module), module);
+      if (!result.ok) {
+        return result;
+      }
+      count += result.value;
+    }
+    return ok(count);
+  }
+
+  /**
+   * Status of every known or applied migration, ordered by module and version
+   */
+  status(): Result<readonly MigrationStatus[], StorageError> {
+    return this.guard(() => {
+      const applied = new Map(this.registry.list().map((m) => [keyOf(m.module, m.version), m]));
+      const keys = new Set([...this.known.keys(), ...applied.keys()]);
+      const statuses: MigrationStatus[] = [];
+
+      for (const key of keys) {
+        const migration = this.known.get(key);
+        const record = applied.get(key);
+        const checksum = migration !== undefined ? migrationChecksum(migration) : null;
 
-      // Run pending migrations
-      let count = 0;
-      for (const migration of sortedMigrations) {
-        if (appliedVersions.has(migration.version)) {
-          continue;
+        let state: MigrationState;
+        if (record === undefined) {
+          state = 'pending';
+        } else if (migration === undefined) {
+          state = 'unknown';
+        } else if (record.checksum !== null && record.checksum !== checksum) {
+          state = 'modified';
+        } else {
+          state = 'applied';
         }
 
-        this.db.run(migration.up);
-        this.db.run(
-          'INSERT INTO _migrations (version, name, applied_at) VALUES (?, ?, ?)',
-          [migration.version, migration.name, Date.now()]
-        );
-        count++;
+        statuses.push({
+          module: migration !== undefined ? moduleOf(migration) : record!.module,
+          version: migration?.version ?? record!.version,
+          name: migration?.name ?? record!.name,
+          state,
+          reversible: migration?.down !== undefined,
+          checksum,
+          ...(record !== undefined ? { appliedChecksum: record.checksum, appliedAt: record.appliedAt } : {}),
+        });
       }
 
-      return ok(count);
-    } catch (error) {
-      return err(
-        new StorageError(
-          `Migration failed: ${error instanceof Error ? error.message : String(error)}`,
-          'MIGRATION_FAILED',
-          error instanceof Error ? error : undefined
-        )
+      return statuses.sort((a, b) =>
+        a.module === b.module ? a.version - b.version : a.module < b.module ? -1 : 1
       );
+    });
+  }
+
+  /**
+   * Compute the steps that would bring a module to `version` without
+   * running them (a dry run). Without a version, plans all pending core
+   * migrations.
+   */
+  plan(version?: number, module: string = CORE_MIGRATION_MODULE): Result<readonly MigrationStep[], StorageError> {
+    const target = version ?? this.defaultTarget(module);
+    return this.guard(() => {
+      this.verify(module);
+      const applied = this.registry.list().filter((m) => m.module === module);
+      const appliedVersions = new Set(applied.map((m) => m.version));
+      const steps: MigrationStep[] = [];
+
+      // Roll back newest first
+      for (const record of [...applied].reverse()) {
+        if (record.version <= target) continue;
+        const migration = this.known.get(keyOf(module, record.version));
+        if (migration?.down === undefined) {
+          throw new StorageError(
+            `Migration ${keyOf(module, record.version)} (${record.name}) cannot be rolled back: no down script`,
+            'MIGRATION_FAILED'
+          );
+        }
+        steps.push({ direction: 'down', module, version: record.version, name: record.name, sql: migration.down });
+      }
+
+      const pending = [...this.known.values()]
+        .filter((m) => moduleOf(m) === module && m.version <= target && !appliedVersions.has(m.version))
+        .sort((a, b) => a.version - b.version);
+      for (const migration of pending) {
+        steps.push({ direction: 'up', module, version: migration.version, name: migration.name, sql: migration.up });
+      }
+
+      return steps;
+    });
+  }
+
+  /**
+   * Apply or roll back migrations until a module is at `version`.
+   * Returns the number of steps executed.
+   */
+  migrateTo(version: number, module: string = CORE_MIGRATION_MODULE): Result<number, StorageError> {
+    const plan = this.plan(version, module);
+    if (!plan.ok) {
+      return plan;
     }
+
+    return this.guard(() => {
+      for (const step of plan.value) {
+        const migration = this.known.get(keyOf(step.module, step.version));
+        this.registry.apply(step, migration !== undefined ? migrationChecksum(migration) : '');
+      }
+      return plan.value.length;
+    });
   }
 
   /**
-   * Get current migration version
+   * Get current migration version of a module
    */
-  getCurrentVersion(): Result<number, StorageError> {
+  getCurrentVersion(module: string = CORE_MIGRATION_MODULE): Result<number, StorageError> {
     try {
-      const result = this.db.exec('SELECT MAX(version) as version FROM _migrations');
-      if (result.length > 0 && result[0]!.values.length > 0) {
-        const version = result[0]!.values[0]![0];
-        return ok(typeof version === 'number' ? version : 0);
-      }
-      return ok(0);
+      const versions = this.registry.list().filter((m) => m.module === module).map((m) => m.version);
+      return ok(versions.length > 0 ? Math.max(...versions) : 0);
     } catch {
       return ok(0);
     }
@@ -90,26 +389,71 @@ export class MigrationRunner {
   /**
    * Get all applied migrations
    */
-  getAppliedMigrations(): Result<readonly { version: number; name: string; appliedAt: number }[], StorageError> {
+  getAppliedMigrations(): Result<readonly AppliedMigration[], StorageError> {
     try {
-      const result = this.db.exec(
-        'SELECT version, name, applied_at as appliedAt FROM _migrations ORDER BY version'
-      );
-      const migrations: { version: number; name: string; appliedAt: number }[] = [];
-      if (result.length > 0) {
-        for (const row of result[0]!.values) {
-          migrations.push({
-            version: row[0] as number,
-            name: row[1] as string,
-            appliedAt: row[2] as number,
-          });
-        }
-      }
-      return ok(migrations);
+      return ok(this.registry.list());
     } catch {
       return ok([]);
     }
   }
+
+  /**
+   * Fail if an applied migration of the module was edited afterwards,
+   * adopting the current checksum for rows that predate checksums
+   */
+  private verify(module: string): void {
+    for (const record of this.registry.list()) {
+      if (record.module !== module) continue;
+      const migration = this.known.get(keyOf(record.module, record.version));
+      if (migration === undefined) continue;
+
+      const checksum = migrationChecksum(migration);
+      if (record.checksum === null) {
+        this.registry.recordChecksum(record.module, record.version, checksum);
+      } else if (record.checksum !== checksum) {
+        throw new StorageError(
+          `Migration ${keyOf(record.module, record.version)} (${record.name}) was modified after it was applied`,
+          'MIGRATION_FAILED'
+        );
+      }
+    }
+  }
+
+  /**
+   * Version that applies every pending migration without rolling back
+   * migrations applied by newer code
+   */
+  private defaultTarget(module: string): number {
+    const current = this.getCurrentVersion(module);
+    return Math.max(this.latestVersion(module), current.ok ? current.value : 0);
+  }
+
+  private latestVersion(module: string): number {
+    let latest = 0;
+    for (const migration of this.known.values()) {
+      if (moduleOf(migration) === module) {
+        latest = Math.max(latest, migration.version);
+      }
+    }
+    return latest;
+  }
+
+  private guard<T>(fn: () => T): Result<T, StorageError> {
+    try {
+      return ok(fn());
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return err(error);
+      }
+      return err(
+        new StorageError(
+          `Migration failed: ${error instanceof Error ? error.message : String(error)}`,
+          'MIGRATION_FAILED',
+          error instanceof Error ? error : undefined
+        )
+      );
+    }
+  }
 }
 
 /**
@@ -131,6 +475,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type);
       CREATE INDEX IF NOT EXISTS idx_entities_createdAt ON entities(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS entities;
+    `,
   },
   {
     version: 2,
@@ -154,6 +501,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_claims_provenanceId ON claims(provenanceId);
       CREATE INDEX IF NOT EXISTS idx_claims_createdAt ON claims(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS claims;
+    `,
   },
   {
     version: 3,
@@ -179,6 +529,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_provenance_timestamp ON provenance(timestamp);
       CREATE INDEX IF NOT EXISTS idx_provenance_createdAt ON provenance(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS provenance;
+    `,
   },
   {
     version: 4,
@@ -208,6 +561,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_decisions_proposedAt ON decisions(proposedAt);
       CREATE INDEX IF NOT EXISTS idx_decisions_createdAt ON decisions(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS decisions;
+    `,
   },
   {
     version: 5,
@@ -231,6 +587,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_policies_priority ON policies(priority);
       CREATE INDEX IF NOT EXISTS idx_policies_createdAt ON policies(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS policies;
+    `,
   },
   {
     version: 6,
@@ -257,6 +616,9 @@ export const coreMigrations: readonly Migration[] = [
       CREATE INDEX IF NOT EXISTS idx_exceptions_riskLevel ON exceptions(riskLevel);
       CREATE INDEX IF NOT EXISTS idx_exceptions_createdAt ON exceptions(createdAt);
     `,
+    down: `
+      DROP TABLE IF EXISTS exceptions;
+    `,
   },
   {
     version: 7,
@@ -270,6 +632,9 @@ export const coreMigrations: readonly Migration[] = [
         createdAt INTEGER NOT NULL
       );
     `,
+    down: `
+      DROP TABLE IF EXISTS ontology_versions;
+    `,
   },
   {
     version: 8,
@@ -299,5 +664,132 @@ export const coreMigrations: readonly Migration[] = [
       -- Exceptions: optimize status queries with risk level
       CREATE INDEX IF NOT EXISTS idx_exceptions_status_riskLevel ON exceptions(status, riskLevel);
     `,
+    down: `
+      DROP INDEX IF EXISTS idx_claims_subject_predicate;
+      DROP INDEX IF EXISTS idx_claims_subject_createdAt;
+      DROP INDEX IF EXISTS idx_decisions_status_proposedAt;
+      DROP INDEX IF EXISTS idx_decisions_type_createdAt;
+      DROP INDEX IF EXISTS idx_policies_enabled_priority;
+      DROP INDEX IF EXISTS idx_entities_type_createdAt;
+      DROP INDEX IF EXISTS idx_provenance_actor_timestamp;
+      DROP INDEX IF EXISTS idx_provenance_sourceType_timestamp;
+      DROP INDEX IF EXISTS idx_exceptions_status_riskLevel;
+    `,
+  },
+  {
+    version: 9,
+    name: 'create_record_versions_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS _record_versions (
+        collection TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        supersededAt INTEGER NOT NULL,
+        PRIMARY KEY (collection, recordId, version)
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS _record_versions;
+    `,
+  },
+  {
+    version: 10,
+    name: 'create_changes_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS _changes (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        collection TEXT NOT NULL,
+        recordId TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        before TEXT,
+        after TEXT,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_changes_collection ON _changes(collection, sequence);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_changes_collection;
+      DROP TABLE IF EXISTS _changes;
+    `,
+  },
+  {
+    version: 11,
+    name: 'add_claim_status_columns',
+    up: `
+      ALTER TABLE claims ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+      ALTER TABLE claims ADD COLUMN supersedes TEXT;
+      ALTER TABLE claims ADD COLUMN supersededBy TEXT;
+      ALTER TABLE claims ADD COLUMN statusReason TEXT;
+      ALTER TABLE claims ADD COLUMN statusProvenanceId TEXT;
+      ALTER TABLE claims ADD COLUMN statusChangedAt INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_claims_status ON claims(status);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_claims_status;
+      ALTER TABLE claims DROP COLUMN statusChangedAt;
+      ALTER TABLE claims DROP COLUMN statusProvenanceId;
+      ALTER TABLE claims DROP COLUMN statusReason;
+      ALTER TABLE claims DROP COLUMN supersededBy;
+      ALTER TABLE claims DROP COLUMN supersedes;
+      ALTER TABLE claims DROP COLUMN status;
+    `,
+  },
+  {
+    version: 12,
+    name: 'add_entity_tombstone_columns',
+    up: `
+      ALTER TABLE entities ADD COLUMN updatedAt INTEGER;
+      ALTER TABLE entities ADD COLUMN deletedAt INTEGER;
+      ALTER TABLE entities ADD COLUMN mergedInto TEXT;
+      CREATE INDEX IF NOT EXISTS idx_entities_mergedInto ON entities(mergedInto);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_entities_mergedInto;
+      ALTER TABLE entities DROP COLUMN mergedInto;
+      ALTER TABLE entities DROP COLUMN deletedAt;
+      ALTER TABLE entities DROP COLUMN updatedAt;
+    `,
+  },
+  {
+    version: 13,
+    name: 'add_provenance_hash_columns',
+    up: `
+      ALTER TABLE provenance ADD COLUMN hashVersion INTEGER;
+      ALTER TABLE provenance ADD COLUMN hashAlgorithm TEXT;
+    `,
+    down: `
+      ALTER TABLE provenance DROP COLUMN hashAlgorithm;
+      ALTER TABLE provenance DROP COLUMN hashVersion;
+    `,
+  },
+  {
+    version: 14,
+    name: 'add_provenance_signatures',
+    up: `
+      ALTER TABLE provenance ADD COLUMN signature TEXT;
+      ALTER TABLE provenance ADD COLUMN signatureKeyId TEXT;
+      CREATE TABLE IF NOT EXISTS actor_keys (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        actorType TEXT NOT NULL,
+        algorithm TEXT NOT NULL,
+        publicKey TEXT NOT NULL,
+        status TEXT NOT NULL,
+        validFrom INTEGER NOT NULL,
+        rotatedAt INTEGER,
+        replacedBy TEXT,
+        revokedAt INTEGER,
+        revocationReason TEXT,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_actor_keys_actor ON actor_keys(actor);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_actor_keys_actor;
+      DROP TABLE IF EXISTS actor_keys;
+      ALTER TABLE provenance DROP COLUMN signatureKeyId;
+      ALTER TABLE provenance DROP COLUMN signature;
+    `,
   },
 ];
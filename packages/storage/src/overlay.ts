@@ -0,0 +1,544 @@
+/**
+ * Overlay Storage
+ *
+ * Copy-on-write layer over another storage. Reads see the base storage as
+ * it is now, except for the records written through the overlay; writes
+ * go to an in-memory layer and never reach the base. The base record a
+ * write replaced is kept as its origin, so the overlay can list what it
+ * changed and tell which of those records have since changed in the base.
+ */
+
+import { ok, err, createTimestamp, type Result, type Timestamp } from '@contextgraph/core';
+import {
+  StorageInterface,
+  StorageError,
+  type QueryOptions,
+  type PaginatedResult,
+  type StorageRecord,
+} from './interface.js';
+import { InMemoryStorage } from './memory.js';
+import type { QueryCriteria } from './criteria.js';
+import { createRecordComparator, encodeCursor, positionAfter } from './pagination.js';
+import { appendOnlyViolation, type CollectionOptions, type RecordVersion, type WriteMode } from './collections.js';
+import { sameRecord } from './snapshot.js';
+import type { Migration, MigrationStatus, MigrationStep } from './migrations.js';
+import type {
+  ChangeEvent,
+  ChangeListener,
+  ChangeQueryOptions,
+  ChangeSubscription,
+  SubscribeOptions,
+} from './changes.js';
+
+/**
+ * Record written through an overlay
+ */
+export interface OverlayChange<T extends StorageRecord = StorageRecord> {
+  readonly collection: string;
+  readonly id: string;
+  /** Record as written through the overlay */
+  readonly record: T;
+  /** Base record it replaced when first written (null when the overlay created it) */
+  readonly origin: T | null;
+  /** Base record now, when it is no longer the origin */
+  readonly current?: T | null;
+  /** Whether the base record changed after the overlay first wrote it */
+  readonly conflict: boolean;
+}
+
+interface Origin {
+  readonly record: StorageRecord | null;
+  /** When the overlay first wrote the record */
+  readonly at: Timestamp;
+}
+
+/**
+ * Storage writing to an in-memory layer on top of a read-only base
+ */
+export class OverlayStorage extends StorageInterface {
+  private readonly _base: StorageInterface;
+  private readonly _layer = new InMemoryStorage();
+  /** Base record replaced by each record of the layer, in order of first write */
+  private readonly _origins = new Map<string, Origin>();
+
+  constructor(base: StorageInterface) {
+    super();
+    this._base = base;
+  }
+
+  /**
+   * Initialize the overlay; the base must already be initialized
+   */
+  async initialize(): Promise<Result<void, StorageError>> {
+    this._origins.clear();
+    return this._layer.initialize();
+  }
+
+  /**
+   * Drop the overlay's writes, leaving the base open
+   */
+  async close(): Promise<Result<void, StorageError>> {
+    this._origins.clear();
+    return this._layer.close();
+  }
+
+  /**
+   * Health check of both layers
+   */
+  async healthCheck(): Promise<Result<boolean, StorageError>> {
+    const layer = await this._layer.healthCheck();
+    if (!layer.ok || !layer.value) {
+      return layer;
+    }
+    return this._base.healthCheck();
+  }
+
+  /**
+   * Insert a record into the overlay, unless the id exists in either layer
+   */
+  async insert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    const existing = await this._base.findById(collection, record.id);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (existing.value !== null) {
+      return err(new StorageError(`Duplicate key: ${record.id}`, 'DUPLICATE_KEY'));
+    }
+
+    const mode = await this.syncWriteMode(collection);
+    if (!mode.ok) {
+      return mode;
+    }
+    const inserted = await this._layer.insert(collection, record);
+    if (inserted.ok) {
+      this.trackOrigin(collection, record.id, null);
+    }
+    return inserted;
+  }
+
+  /**
+   * Insert multiple records in a transaction
+   */
+  async insertMany<T extends StorageRecord>(
+    collection: string,
+    records: readonly T[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    return this.transaction(async () => {
+      const results: T[] = [];
+      for (const record of records) {
+        const result = await this.insert(collection, record);
+        if (!result.ok) {
+          return result as Result<never, StorageError>;
+        }
+        results.push(result.value);
+      }
+      return ok(results);
+    });
+  }
+
+  /**
+   * Find a record in the overlay, then in the base
+   */
+  async findById<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<T | null, StorageError>> {
+    const written = await this._layer.findById<T>(collection, id);
+    if (!written.ok || written.value !== null) {
+      return written;
+    }
+    return this._base.findById<T>(collection, id);
+  }
+
+  /**
+   * Find records in both layers, base records replaced by the overlay
+   * being left out, merged in the requested order
+   */
+  async find<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria,
+    options: QueryOptions = {}
+  ): Promise<Result<PaginatedResult<T>, StorageError>> {
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDirection ?? 'desc';
+    const limit = options.limit ?? 100;
+    const offset = options.cursor !== undefined ? 0 : options.offset ?? 0;
+    const shadowed = await this.writtenIds(collection);
+    if (!shadowed.ok) {
+      return shadowed;
+    }
+
+    // One record past the page tells whether there are more
+    const wanted = offset + limit + 1;
+    const temporal = options.temporal !== undefined ? { temporal: options.temporal } : {};
+    const ordering: QueryOptions = {
+      ...temporal,
+      orderBy,
+      orderDirection: orderDir,
+      ...(options.cursor !== undefined ? { cursor: options.cursor } : {}),
+    };
+    const written = await this._layer.find<T>(collection, criteria, { ...ordering, limit: wanted });
+    if (!written.ok) {
+      return written;
+    }
+    const base = await this._base.find<T>(collection, criteria, { ...ordering, limit: wanted + shadowed.value.length });
+    if (!base.ok) {
+      return base;
+    }
+
+    let hidden = 0;
+    if (shadowed.value.length > 0) {
+      const replaced = await this._base.find(
+        collection,
+        { $and: [criteria, { id: { $in: shadowed.value } }] },
+        { ...temporal, limit: 0 }
+      );
+      if (!replaced.ok) {
+        return replaced;
+      }
+      hidden = replaced.value.total;
+    }
+
+    const excluded = new Set(shadowed.value);
+    const merged = [...written.value.items, ...base.value.items.filter((record) => !excluded.has(record.id))]
+      .sort(createRecordComparator(orderBy, orderDir));
+    const hasMore = merged.length > offset + limit;
+    const items = merged.slice(offset, offset + limit);
+    const last = items[items.length - 1];
+
+    return ok({
+      items,
+      total: base.value.total - hidden + written.value.total,
+      limit,
+      offset,
+      hasMore,
+      ...(hasMore && last !== undefined ? { nextCursor: encodeCursor(positionAfter(last, orderBy, orderDir)) } : {}),
+    });
+  }
+
+  /**
+   * Count records in both layers
+   */
+  async count(
+    collection: string,
+    criteria?: QueryCriteria
+  ): Promise<Result<number, StorageError>> {
+    const result = await this.find(collection, criteria ?? {}, { limit: 0 });
+    if (!result.ok) {
+      return result as Result<never, StorageError>;
+    }
+    return ok(result.value.total);
+  }
+
+  /**
+   * Write a record to the overlay, checking the collection's write mode
+   * against the record it replaces in either layer
+   */
+  async upsert<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Promise<Result<T, StorageError>> {
+    const mode = await this.syncWriteMode(collection);
+    if (!mode.ok) {
+      return mode;
+    }
+
+    const written = await this._layer.findById(collection, record.id);
+    if (!written.ok) {
+      return written;
+    }
+    if (written.value !== null) {
+      return this._layer.upsert(collection, record);
+    }
+
+    const existing = await this._base.findById(collection, record.id);
+    if (!existing.ok) {
+      return existing;
+    }
+    if (existing.value !== null && mode.value === 'append_only') {
+      return err(appendOnlyViolation(collection, record.id));
+    }
+    const upserted = await this._layer.upsert(collection, record);
+    if (upserted.ok) {
+      this.trackOrigin(collection, record.id, existing.value);
+    }
+    return upserted;
+  }
+
+  /**
+   * Raw queries would bypass the overlay
+   */
+  async query<T>(
+    _sql: string,
+    _params?: readonly unknown[]
+  ): Promise<Result<readonly T[], StorageError>> {
+    return err(new StorageError('Raw queries not supported in overlay storage', 'QUERY_FAILED'));
+  }
+
+  /**
+   * Run operations in a transaction of the overlay
+   */
+  async transaction<T>(
+    fn: () => Promise<Result<T, StorageError>>
+  ): Promise<Result<T, StorageError>> {
+    return this._layer.transaction(fn);
+  }
+
+  /**
+   * Register migrations with the base, whose schema the overlay shares
+   */
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    return this._base.registerMigrations(migrations);
+  }
+
+  /**
+   * Get migration status from the base
+   */
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    return this._base.migrationStatus();
+  }
+
+  /**
+   * Plan migrations of the base
+   */
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    return this._base.planMigrations(version, module);
+  }
+
+  /**
+   * Migrating down could drop data the base still holds
+   */
+  async migrateTo(_version: number, _module?: string): Promise<Result<number, StorageError>> {
+    return err(new StorageError('Cannot migrate through overlay storage', 'MIGRATION_FAILED'));
+  }
+
+  /**
+   * Declare a collection's write mode with the base
+   */
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this._base.registerCollection(collection, options);
+  }
+
+  /**
+   * Get a collection's write mode from the base
+   */
+  writeMode(collection: string): WriteMode {
+    return this._base.writeMode(collection);
+  }
+
+  /**
+   * Get every version of a record: the base versions up to the one the
+   * overlay replaced, followed by the versions written through the overlay
+   */
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
+    const written = await this._layer.findVersions<T>(collection, id);
+    if (!written.ok) {
+      return written;
+    }
+    if (written.value.length === 0) {
+      return this._base.findVersions<T>(collection, id);
+    }
+    const origin = this._origins.get(originKey(collection, id));
+    const originRecord = origin?.record;
+    if (origin === undefined || originRecord === null || originRecord === undefined) {
+      return written;
+    }
+
+    const base = await this._base.findVersions<T>(collection, id);
+    if (!base.ok) {
+      return base;
+    }
+    const replaced = base.value.findIndex((version) => sameRecord(version.record, originRecord));
+    const prior: RecordVersion<T>[] = replaced < 0
+      // The base no longer has the origin among its versions
+      ? [{ version: 1, record: originRecord as T, supersededAt: origin.at }]
+      : base.value
+        .slice(0, replaced + 1)
+        .map((version, i) => (i === replaced ? { version: version.version, record: version.record, supersededAt: origin.at } : version));
+    return ok([
+      ...prior,
+      ...written.value.map((version) => ({ ...version, version: prior.length + version.version })),
+    ]);
+  }
+
+  /**
+   * Discard the prior versions written through the overlay. The base is
+   * never written, so versions it holds must be erased through the base.
+   */
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    return this._layer.eraseHistory(collection, id);
+  }
+
+  /**
+   * Read the changes made through the overlay
+   */
+  async changesSince(
+    sequence: number,
+    options?: ChangeQueryOptions
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    return this._layer.changesSince(sequence, options);
+  }
+
+  /**
+   * Sequence of the last change made through the overlay
+   */
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    return this._layer.latestSequence();
+  }
+
+  /**
+   * Drop changes made through the overlay before a sequence
+   */
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    return this._layer.pruneChanges(sequence);
+  }
+
+  /**
+   * Subscribe to the changes made through the overlay
+   */
+  subscribe(listener: ChangeListener, options?: SubscribeOptions): ChangeSubscription {
+    return this._layer.subscribe(listener, options);
+  }
+
+  /**
+   * Count the records of every collection of either layer
+   */
+  async stats(): Promise<
+    Result<{ collections: Record<string, number>; totalSize: number }, StorageError>
+  > {
+    const base = await this._base.stats();
+    if (!base.ok) {
+      return base;
+    }
+    const layer = await this._layer.stats();
+    if (!layer.ok) {
+      return layer;
+    }
+
+    const collections: Record<string, number> = {};
+    let totalSize = 0;
+    for (const name of new Set([...Object.keys(base.value.collections), ...Object.keys(layer.value.collections)])) {
+      const count = await this.count(name);
+      if (!count.ok) {
+        return count;
+      }
+      collections[name] = count.value;
+      totalSize += count.value;
+    }
+    return ok({ collections, totalSize });
+  }
+
+  /**
+   * Records written through the overlay, in order of first write, each
+   * with the base record it replaced
+   */
+  async changes(collections?: readonly string[]): Promise<Result<readonly OverlayChange[], StorageError>> {
+    const changes: OverlayChange[] = [];
+    for (const [key, origin] of this._origins) {
+      const [collection, id] = splitOriginKey(key);
+      if (collections !== undefined && !collections.includes(collection)) continue;
+
+      const record = await this._layer.findById(collection, id);
+      if (!record.ok) {
+        return record;
+      }
+      // Writes rolled back with a transaction leave no record
+      if (record.value === null) continue;
+
+      const current = await this._base.findById(collection, id);
+      if (!current.ok) {
+        return current;
+      }
+      const conflict = current.value === null || origin.record === null
+        ? current.value !== origin.record
+        : !sameRecord(current.value, origin.record);
+      changes.push({
+        collection,
+        id,
+        record: record.value,
+        origin: origin.record,
+        ...(conflict ? { current: current.value } : {}),
+        conflict,
+      });
+    }
+    return ok(changes);
+  }
+
+  /**
+   * Get the base storage
+   */
+  get underlying(): StorageInterface {
+    return this._base;
+  }
+
+  /**
+   * Keep the base record replaced by the first write of a record. A record
+   * missing from the overlay is written for the first time, even when an
+   * earlier write of it was rolled back.
+   */
+  private trackOrigin(collection: string, id: string, record: StorageRecord | null): void {
+    const key = originKey(collection, id);
+    this._origins.delete(key);
+    this._origins.set(key, { record, at: createTimestamp() });
+  }
+
+  /**
+   * Ids of the records of a collection written through the overlay
+   */
+  private async writtenIds(collection: string): Promise<Result<string[], StorageError>> {
+    const ids: string[] = [];
+    try {
+      for await (const record of this._layer.stream(collection)) {
+        ids.push(record.id);
+      }
+    } catch (error) {
+      return err(error instanceof StorageError ? error : new StorageError(String(error), 'QUERY_FAILED'));
+    }
+    return ok(ids);
+  }
+
+  /**
+   * Give the collection the base's write mode in the overlay, so the
+   * overlay versions its own replacements the same way
+   */
+  private async syncWriteMode(collection: string): Promise<Result<WriteMode, StorageError>> {
+    const mode = this._base.writeMode(collection);
+    if (this._layer.writeMode(collection) !== mode) {
+      const registered = await this._layer.registerCollection(collection, { writeMode: mode });
+      if (!registered.ok) {
+        return registered;
+      }
+    }
+    return ok(mode);
+  }
+}
+
+function originKey(collection: string, id: string): string {
+  return `${collection}\u0000${id}`;
+}
+
+function splitOriginKey(key: string): [string, string] {
+  const separator = key.indexOf('\u0000');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+/**
+ * Create an overlay on top of a storage
+ */
+export function createOverlayStorage(base: StorageInterface): OverlayStorage {
+  return new OverlayStorage(base);
+}
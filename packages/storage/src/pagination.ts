@@ -0,0 +1,128 @@
+/**
+ * Keyset pagination
+ *
+ * Cursors capture the sort key and id of the last record of a page, so
+ * the next page starts right after it regardless of how many records
+ * precede it. Records are ordered by the sort field with nulls last and
+ * ties broken by id, identically in every backend.
+ */
+
+import { StorageError, type StorageRecord } from './interface.js';
+import { compareValues, normalizeValue, type SqlCondition } from './criteria.js';
+
+/**
+ * Position of the last record returned, as carried by a cursor
+ */
+export interface CursorPosition {
+  readonly orderBy: string;
+  readonly direction: 'asc' | 'desc';
+  readonly value: string | number | null;
+  readonly id: string;
+}
+
+interface EncodedCursor {
+  readonly o: string;
+  readonly d: 'asc' | 'desc';
+  readonly v: string | number | null;
+  readonly i: string;
+}
+
+/**
+ * Position right after `record` in the given ordering
+ */
+export function positionAfter(
+  record: Readonly<Record<string, unknown>>,
+  orderBy: string,
+  direction: 'asc' | 'desc'
+): CursorPosition {
+  return { orderBy, direction, value: normalizeValue(record[orderBy]), id: String(record['id']) };
+}
+
+/**
+ * Encode a position as an opaque cursor
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const payload: EncodedCursor = { o: position.orderBy, d: position.direction, v: position.value, i: position.id };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking that it belongs to a query with the same ordering
+ */
+export function decodeCursor(cursor: string, orderBy: string, direction: 'asc' | 'desc'): CursorPosition {
+  let payload: EncodedCursor;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as EncodedCursor;
+  } catch {
+    throw new StorageError('Invalid cursor', 'INVALID_DATA');
+  }
+
+  if (
+    payload === null ||
+    typeof payload !== 'object' ||
+    typeof payload.i !== 'string' ||
+    (payload.v !== null && typeof payload.v !== 'string' && typeof payload.v !== 'number')
+  ) {
+    throw new StorageError('Invalid cursor', 'INVALID_DATA');
+  }
+  if (payload.o !== orderBy || payload.d !== direction) {
+    throw new StorageError(
+      `Cursor was created for ordering by ${payload.o} ${payload.d}, not ${orderBy} ${direction}`,
+      'INVALID_DATA'
+    );
+  }
+
+  return { orderBy, direction, value: payload.v, id: payload.i };
+}
+
+/**
+ * Compile the "after this position" condition for SQL backends
+ */
+export function keysetToSql(position: CursorPosition, column: string): SqlCondition {
+  const op = position.direction === 'asc' ? '>' : '<';
+  if (position.value === null) {
+    return { sql: `(${column} IS NULL AND "id" ${op} ?)`, params: [position.id] };
+  }
+  return {
+    sql: `(${column} IS NULL OR ${column} ${op} ? OR (${column} = ? AND "id" ${op} ?))`,
+    params: [position.value, position.value, position.id],
+  };
+}
+
+/**
+ * ORDER BY clause matching the keyset ordering
+ */
+export function keysetOrderSql(column: string, direction: 'asc' | 'desc'): string {
+  const dir = direction.toUpperCase();
+  return `ORDER BY ${column} IS NULL, ${column} ${dir}, "id" ${dir}`;
+}
+
+/**
+ * Create a comparator implementing the keyset ordering in memory
+ */
+export function createRecordComparator(
+  orderBy: string,
+  direction: 'asc' | 'desc'
+): (a: StorageRecord, b: StorageRecord) => number {
+  const sign = direction === 'asc' ? 1 : -1;
+  return (a, b) => {
+    const aVal = normalizeValue(a[orderBy]);
+    const bVal = normalizeValue(b[orderBy]);
+    if (aVal === null || bVal === null) {
+      if (aVal !== bVal) return aVal === null ? 1 : -1;
+    } else {
+      const comparison = compareValues(aVal, bVal);
+      if (comparison !== 0) return sign * comparison;
+    }
+    return sign * compareValues(a.id, b.id);
+  };
+}
+
+/**
+ * Create a predicate selecting records that sort after a cursor position
+ */
+export function createPositionFilter(position: CursorPosition): (record: StorageRecord) => boolean {
+  const compare = createRecordComparator(position.orderBy, position.direction);
+  const pivot = { createdAt: 0, [position.orderBy]: position.value, id: position.id } as unknown as StorageRecord;
+  return (record) => compare(record, pivot) > 0;
+}
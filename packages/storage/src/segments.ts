@@ -0,0 +1,352 @@
+/**
+ * Segment files for log-structured storage
+ *
+ * Committed writes are appended as newline-delimited JSON to the active
+ * segment of a directory. Once the active segment grows past a size limit
+ * it is sealed and a new one is started. Sealed segments are immutable until
+ * compaction rewrites them into a single segment holding only live records.
+ *
+ * Every line is one committed unit of work with a checksum, so a torn final
+ * line left behind by a crash is detected and truncated on open.
+ */
+
+import {
+  openSync,
+  closeSync,
+  writeSync,
+  fsyncSync,
+  ftruncateSync,
+  fstatSync,
+  readFileSync,
+  readdirSync,
+  unlinkSync,
+  mkdirSync,
+} from 'node:fs';
+import { open, rename, unlink } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { StorageError, type StorageRecord } from './interface.js';
+
+/**
+ * When appended writes are flushed to disk:
+ * - `always`: after every commit, surviving power loss
+ * - `interval`: periodically, losing at most one interval on power loss
+ * - `never`: left to the operating system (still survives a process kill)
+ */
+export type FsyncPolicy = 'always' | 'interval' | 'never';
+
+/**
+ * A single write captured in a segment
+ */
+export interface LogOperation {
+  readonly collection: string;
+  readonly id: string;
+  /** Record written, or null when the record was removed */
+  readonly record: StorageRecord | null;
+}
+
+export interface SegmentLogOptions {
+  /** Directory holding the segment files */
+  readonly directory: string;
+  /** Size in bytes after which the active segment is sealed */
+  readonly maxSegmentSize: number;
+  readonly fsync: FsyncPolicy;
+  /** Milliseconds between flushes with the `interval` policy */
+  readonly fsyncInterval: number;
+}
+
+/**
+ * Result of replaying the segments of a directory
+ */
+export interface SegmentReplayResult {
+  /** Number of segments read */
+  readonly segments: number;
+  /** Number of committed units replayed */
+  readonly entries: number;
+  /** Bytes discarded from a torn (partially written) tail */
+  readonly truncatedBytes: number;
+}
+
+/** Operations per line when writing a compacted segment */
+const COMPACTION_BATCH_SIZE = 500;
+
+const SEGMENT_FILE = /^segment-(\d+)\.ndjson$/;
+
+function segmentFile(segment: number): string {
+  return `segment-${String(segment).padStart(8, '0')}.ndjson`;
+}
+
+function checksum(payload: string): string {
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+function encode(operations: readonly LogOperation[]): string {
+  const payload = JSON.stringify(operations);
+  return `{"sum":"${checksum(payload)}","ops":${payload}}\n`;
+}
+
+function decode(line: string): LogOperation[] {
+  const raw = JSON.parse(line) as { sum?: unknown; ops?: unknown };
+  if (typeof raw.sum !== 'string' || !Array.isArray(raw.ops)) {
+    throw new Error('Malformed segment entry');
+  }
+  if (checksum(JSON.stringify(raw.ops)) !== raw.sum) {
+    throw new Error('Checksum mismatch');
+  }
+  return raw.ops as LogOperation[];
+}
+
+/**
+ * Directory of append-only segment files
+ */
+export class SegmentLog {
+  /** Segment numbers in ascending order; the last one is active */
+  private segments: number[] = [];
+  private readonly sizes = new Map<number, number>();
+  private fd: number | null = null;
+  private unsynced = false;
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: SegmentLogOptions) {}
+
+  /**
+   * Number of the segment receiving appends
+   */
+  get activeSegment(): number {
+    return this.segments[this.segments.length - 1] ?? 0;
+  }
+
+  /**
+   * Numbers of the sealed segments, oldest first
+   */
+  get sealedSegments(): readonly number[] {
+    return this.segments.slice(0, -1);
+  }
+
+  /**
+   * Total size of all segments in bytes
+   */
+  get size(): number {
+    let size = 0;
+    for (const bytes of this.sizes.values()) {
+      size += bytes;
+    }
+    return size;
+  }
+
+  /**
+   * Open the directory and replay every segment in order through `apply`.
+   *
+   * Leftovers of an interrupted compaction are removed. A torn final line
+   * of the active segment is discarded and truncated from the file;
+   * corruption anywhere else is an error.
+   */
+  open(apply: (operations: readonly LogOperation[], segment: number) => void): SegmentReplayResult {
+    if (this.fd !== null) {
+      throw new StorageError('Segment log already open', 'CONNECTION_FAILED');
+    }
+    mkdirSync(this.options.directory, { recursive: true });
+
+    const segments: number[] = [];
+    for (const name of readdirSync(this.options.directory)) {
+      if (name.endsWith('.tmp')) {
+        unlinkSync(join(this.options.directory, name));
+        continue;
+      }
+      const match = SEGMENT_FILE.exec(name);
+      if (match !== null) {
+        segments.push(Number(match[1]));
+      }
+    }
+    segments.sort((a, b) => a - b);
+
+    let entries = 0;
+    let truncatedBytes = 0;
+    this.sizes.clear();
+    for (const [index, segment] of segments.entries()) {
+      const content = readFileSync(this.path(segment));
+      const active = index === segments.length - 1;
+      let offset = 0;
+
+      while (offset < content.length) {
+        const newline = content.indexOf(0x0a, offset);
+        if (newline === -1 && active) {
+          // Torn tail: the final append never completed
+          break;
+        }
+
+        const end = newline === -1 ? content.length : newline;
+        let operations: LogOperation[];
+        try {
+          operations = decode(content.toString('utf8', offset, end));
+        } catch (error) {
+          if (active && end >= content.length - 1) {
+            // Last line is unreadable, treat as torn
+            break;
+          }
+          throw new StorageError(
+            `Corrupt entry in ${segmentFile(segment)} at byte ${offset}: ${error instanceof Error ? error.message : String(error)}`,
+            'INVALID_DATA',
+            error instanceof Error ? error : undefined
+          );
+        }
+
+        apply(operations, segment);
+        entries++;
+        offset = end + 1;
+      }
+
+      if (offset < content.length) {
+        truncatedBytes = content.length - offset;
+        const fd = openSync(this.path(segment), 'r+');
+        try {
+          ftruncateSync(fd, offset);
+          fsyncSync(fd);
+        } finally {
+          closeSync(fd);
+        }
+      }
+      this.sizes.set(segment, Math.min(offset, content.length));
+    }
+
+    this.segments = segments.length > 0 ? segments : [1];
+    this.openActive();
+
+    if (this.options.fsync === 'interval') {
+      this.syncTimer = setInterval(() => this.sync(), this.options.fsyncInterval);
+      this.syncTimer.unref();
+    }
+
+    return { segments: segments.length, entries, truncatedBytes };
+  }
+
+  /**
+   * Append a committed unit of work and return the segment holding it.
+   * The active segment is sealed afterwards if it has outgrown its limit.
+   */
+  append(operations: readonly LogOperation[]): number {
+    this.ensureOpen();
+    const segment = this.activeSegment;
+    const buffer = Buffer.from(encode(operations), 'utf8');
+
+    let written = 0;
+    while (written < buffer.length) {
+      written += writeSync(this.fd!, buffer, written, buffer.length - written);
+    }
+    this.sizes.set(segment, (this.sizes.get(segment) ?? 0) + buffer.length);
+    if (this.options.fsync === 'always') {
+      fsyncSync(this.fd!);
+    } else {
+      this.unsynced = true;
+    }
+
+    if ((this.sizes.get(segment) ?? 0) >= this.options.maxSegmentSize) {
+      this.seal();
+    }
+    return segment;
+  }
+
+  /**
+   * Seal the active segment and start a new one (no-op when it is empty)
+   */
+  seal(): void {
+    this.ensureOpen();
+    if ((this.sizes.get(this.activeSegment) ?? 0) === 0) {
+      return;
+    }
+    this.closeActive();
+    this.segments.push(this.activeSegment + 1);
+    this.openActive();
+  }
+
+  /**
+   * Replace segments up to and including `target` with one segment holding
+   * `operations`, which must be every live record of those segments plus a
+   * removal for each record removed in them that an older segment may hold.
+   *
+   * The new content is written to a temporary file and renamed over
+   * `target` before the older segments are deleted; replaying the removals
+   * after those segments means a crash at any point leaves a directory that
+   * replays to the same state.
+   */
+  async replace(target: number, operations: readonly LogOperation[]): Promise<number> {
+    this.ensureOpen();
+    if (target >= this.activeSegment) {
+      throw new StorageError('Cannot compact the active segment', 'QUERY_FAILED');
+    }
+
+    const temporary = `${this.path(target)}.tmp`;
+    const handle = await open(temporary, 'w');
+    let size = 0;
+    try {
+      for (let i = 0; i < operations.length; i += COMPACTION_BATCH_SIZE) {
+        const buffer = Buffer.from(encode(operations.slice(i, i + COMPACTION_BATCH_SIZE)), 'utf8');
+        await handle.write(buffer);
+        size += buffer.length;
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(temporary, this.path(target));
+
+    const replaced = this.segments.filter((segment) => segment <= target);
+    let reclaimed = 0;
+    for (const segment of replaced) {
+      reclaimed += this.sizes.get(segment) ?? 0;
+      if (segment !== target) {
+        await unlink(this.path(segment));
+        this.sizes.delete(segment);
+      }
+    }
+    this.sizes.set(target, size);
+    this.segments = this.segments.filter((segment) => segment >= target);
+    return reclaimed - size;
+  }
+
+  /**
+   * Flush appended writes to disk
+   */
+  sync(): void {
+    if (this.fd !== null && this.unsynced) {
+      fsyncSync(this.fd);
+      this.unsynced = false;
+    }
+  }
+
+  /**
+   * Flush and close the active segment
+   */
+  close(): void {
+    if (this.syncTimer !== null) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.fd !== null) {
+      this.sync();
+      this.closeActive();
+    }
+  }
+
+  private path(segment: number): string {
+    return join(this.options.directory, segmentFile(segment));
+  }
+
+  private openActive(): void {
+    const segment = this.activeSegment;
+    this.fd = openSync(this.path(segment), 'a');
+    this.sizes.set(segment, fstatSync(this.fd).size);
+  }
+
+  private closeActive(): void {
+    this.sync();
+    closeSync(this.fd!);
+    this.fd = null;
+  }
+
+  private ensureOpen(): void {
+    if (this.fd === null) {
+      throw new StorageError('Segment log not open', 'CONNECTION_FAILED');
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Storage snapshots
+ *
+ * A snapshot holds the records of every collection as of one change
+ * sequence, together with the migration version of each module, so it can
+ * be restored into any backend at the same schema. Incremental snapshots
+ * hold only what changed after an earlier snapshot's sequence (or what was
+ * created after a point in time) and are restored on top of it, in order.
+ */
+
+import type { Result, Timestamp } from '@contextgraph/core';
+import type { StorageError, StorageRecord } from './interface.js';
+import type { MigrationStatus } from './migrations.js';
+
+/** Version of the snapshot format */
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+/**
+ * Options for taking a snapshot
+ */
+export interface SnapshotOptions {
+  /** Only include changes logged after this sequence (incremental) */
+  sinceSequence?: number;
+  /** Only include records created at or after this time (incremental) */
+  since?: Timestamp;
+  /** Only include these collections (default: every collection) */
+  collections?: readonly string[];
+}
+
+/**
+ * Records of every collection at one point of the change log
+ */
+export interface StorageSnapshot {
+  readonly format: typeof SNAPSHOT_FORMAT_VERSION;
+  readonly takenAt: Timestamp;
+  /** Sequence of the last change included; pass it as `sinceSequence` for the next increment */
+  readonly sequence: number;
+  /** Applied migration version of each module */
+  readonly migrations: Readonly<Record<string, number>>;
+  /** Whether the snapshot only holds changes on top of an earlier one */
+  readonly incremental: boolean;
+  readonly sinceSequence?: number;
+  readonly since?: Timestamp;
+  /**
+   * Records by collection, in the order they are to be written. A record
+   * appears once per version, oldest first, in versioned collections and
+   * in sequence-based increments.
+   */
+  readonly collections: Readonly<Record<string, readonly StorageRecord[]>>;
+}
+
+/**
+ * Options for restoring a snapshot
+ */
+export interface RestoreOptions {
+  /**
+   * Check run inside the restore transaction once every record has been
+   * written; an error rolls the whole restore back. Used to verify the
+   * provenance hash chain before the restore becomes visible.
+   */
+  verify?: () => Promise<Result<void, StorageError>>;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  /** Records written */
+  readonly restored: number;
+  /** Records already present with identical content */
+  readonly skipped: number;
+  /** Collections that held records in the snapshot */
+  readonly collections: number;
+}
+
+/**
+ * Applied version of each module, from a migration status report
+ */
+export function appliedMigrationVersions(statuses: readonly MigrationStatus[]): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const status of statuses) {
+    if (status.appliedAt === undefined) continue;
+    versions[status.module] = Math.max(versions[status.module] ?? 0, status.version);
+  }
+  return versions;
+}
+
+/**
+ * Compare two records by content, ignoring key order
+ */
+export function sameRecord(a: StorageRecord, b: StorageRecord): boolean {
+  return canonicalize(a) === canonicalize(b);
+}
+
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
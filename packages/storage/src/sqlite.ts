@@ -5,6 +5,9 @@
  * - Append-only semantics
  * - JSON field support
  * - Pure JavaScript (no native dependencies)
+ * - Write-ahead journal for file-backed databases, so a write costs
+ *   O(change) and committed transactions survive a process kill
+ * - A change log written in the same transaction as each insert and upsert
  */
 
 import initSqlJs, { type Database as SqlJsDatabase, type SqlValue } from 'sql.js';
@@ -12,14 +15,63 @@ import { ok, err, type Result, createTimestamp, type Timestamp } from '@contextg
 import {
   StorageInterface,
   StorageError,
+  DEFAULT_STREAM_BATCH_SIZE,
   type QueryOptions,
+  type StreamOptions,
   type PaginatedResult,
   type StorageRecord,
 } from './interface.js';
-import { MigrationRunner, coreMigrations } from './migrations.js';
+import {
+  MigrationRunner,
+  CORE_MIGRATION_MODULE,
+  coreMigrations,
+  type Migration,
+  type MigrationStatus,
+  type MigrationStep,
+} from './migrations.js';
+import { criteriaToSql, type QueryCriteria, type SqlCondition } from './criteria.js';
+import { groupingToSql, parseGroupBy, type AggregateGroup, type AggregateQuery } from './aggregate.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  keysetOrderSql,
+  keysetToSql,
+  positionAfter,
+  type CursorPosition,
+} from './pagination.js';
+import { WriteAheadJournal, type JournalStatement } from './journal.js';
+import { TransactionScope, type TransactionHooks } from './transaction.js';
+import {
+  CollectionRegistry,
+  RECORD_VERSIONS_TABLE,
+  appendOnlyViolation,
+  type CollectionOptions,
+  type RecordVersion,
+  type WriteMode,
+} from './collections.js';
+import {
+  CHANGES_TABLE,
+  DEFAULT_CHANGE_BATCH_SIZE,
+  ChangeFeed,
+  createChange,
+  isChangeOf,
+  redactChange,
+  type ChangeEvent,
+  type ChangeListener,
+  type ChangeQueryOptions,
+  type ChangeSubscription,
+  type SubscribeOptions,
+} from './changes.js';
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { writeFileSync, renameSync, mkdirSync } from 'node:fs';
 import { dirname } from 'node:path';
 
+/** Table holding the journal sequence number included in the base file */
+const JOURNAL_STATE_TABLE = '_journal_state';
+
+/** Statements that never modify the database and are not journaled */
+const READ_ONLY_STATEMENT = /^\s*(SELECT|WITH|EXPLAIN|PRAGMA)\b/i;
+
 export interface SQLiteStorageOptions {
   /** Path to SQLite database file (use ':memory:' for in-memory) */
   path: string;
@@ -27,6 +79,25 @@ export interface SQLiteStorageOptions {
   runMigrations?: boolean;
   /** Auto-save interval in milliseconds (0 to disable) */
   autoSaveInterval?: number;
+  /** Append committed writes to a write-ahead journal instead of rewriting the file (default: true) */
+  journal?: boolean;
+  /** Journal file location (default: `<path>-wal`) */
+  journalPath?: string;
+  /** fsync the journal after every commit, surviving power loss as well as process kills (default: false) */
+  journalFsync?: boolean;
+  /** Journal size in bytes that triggers compaction into the base file (default: 64 MiB) */
+  compactThreshold?: number;
+}
+
+/**
+ * An open transaction (depth 0) or savepoint (depth > 0)
+ */
+interface SQLiteTransactionFrame {
+  readonly depth: number;
+  /** Number of journal statements recorded before the frame opened */
+  readonly journalMark: number;
+  /** Number of changes logged before the frame opened */
+  readonly changeMark: number;
 }
 
 export class SQLiteStorage extends StorageInterface {
@@ -35,6 +106,54 @@ export class SQLiteStorage extends StorageInterface {
   private readonly options: Required<SQLiteStorageOptions>;
   private autoSaveTimer: NodeJS.Timeout | null = null;
   private isDirty = false;
+  private journal: WriteAheadJournal | null = null;
+  private pendingStatements: JournalStatement[] | null = null;
+  private pendingChanges: ChangeEvent[] | null = null;
+  private readonly changeFeed = new ChangeFeed();
+  private migrationRunner: MigrationRunner | null = null;
+  private readonly registeredMigrations = new Map<string, Migration>();
+  private readonly collectionRegistry = new CollectionRegistry();
+  private readonly scope = new TransactionScope<SQLiteTransactionFrame>();
+  private readonly transactionHooks: TransactionHooks<SQLiteTransactionFrame> = {
+    begin: (parent) => {
+      if (parent === undefined) {
+        this.db!.run('BEGIN TRANSACTION');
+        this.pendingStatements = [];
+        this.pendingChanges = [];
+        return { depth: 0, journalMark: 0, changeMark: 0 };
+      }
+      const depth = parent.depth + 1;
+      this.db!.run(`SAVEPOINT sp_${depth}`);
+      return {
+        depth,
+        journalMark: this.pendingStatements?.length ?? 0,
+        changeMark: this.pendingChanges?.length ?? 0,
+      };
+    },
+    commit: (frame) => {
+      if (frame.depth === 0) {
+        this.db!.run('COMMIT');
+        this.commitPending();
+        const changes = this.pendingChanges ?? [];
+        this.pendingChanges = null;
+        this.changeFeed.publish(changes);
+      } else {
+        this.db!.run(`RELEASE sp_${frame.depth}`);
+      }
+    },
+    rollback: (frame) => {
+      if (frame.depth === 0) {
+        this.db!.run('ROLLBACK');
+        this.pendingStatements = null;
+        this.pendingChanges = null;
+      } else {
+        this.db!.run(`ROLLBACK TO sp_${frame.depth}`);
+        this.db!.run(`RELEASE sp_${frame.depth}`);
+        this.pendingStatements?.splice(frame.journalMark);
+        this.pendingChanges?.splice(frame.changeMark);
+      }
+    },
+  };
 
   constructor(options: SQLiteStorageOptions) {
     super();
@@ -42,6 +161,10 @@ export class SQLiteStorage extends StorageInterface {
       path: options.path,
       runMigrations: options.runMigrations ?? true,
       autoSaveInterval: options.autoSaveInterval ?? 0,
+      journal: options.journal ?? true,
+      journalPath: options.journalPath ?? `${options.path}-wal`,
+      journalFsync: options.journalFsync ?? false,
+      compactThreshold: options.compactThreshold ?? 64 * 1024 * 1024,
     };
   }
 
@@ -62,20 +185,45 @@ export class SQLiteStorage extends StorageInterface {
         this.db = new this.SQL.Database();
       }
 
+      // Bring the base file up to date with committed writes since the last checkpoint
+      if (this.options.journal && this.options.path !== ':memory:') {
+        this.journal = new WriteAheadJournal(this.options.journalPath, this.options.journalFsync);
+        this.journal.open();
+        this.journal.replay(this.db, this.readCheckpointSequence());
+      }
+
+      this.migrationRunner = new MigrationRunner(this.db);
+      const registered = this.migrationRunner.register(
+        this.options.runMigrations
+          ? [...coreMigrations, ...this.registeredMigrations.values()]
+          : [...this.registeredMigrations.values()]
+      );
+      if (!registered.ok) {
+        return err(registered.error);
+      }
+
       // Run migrations if enabled
       if (this.options.runMigrations) {
-        const migrationRunner = new MigrationRunner(this.db);
-        const migrationResult = migrationRunner.run(coreMigrations);
+        const migrationResult = this.migrationRunner.run();
         if (!migrationResult.ok) {
           return err(migrationResult.error);
         }
         this.isDirty = true;
+
+        // Schema changes are not journaled; checkpoint them into the base file
+        if (this.journal !== null && migrationResult.value > 0) {
+          this.checkpoint();
+        }
       }
 
       // Setup auto-save if configured
       if (this.options.autoSaveInterval > 0 && this.options.path !== ':memory:') {
         this.autoSaveTimer = setInterval(() => {
-          void this.save();
+          if (this.journal !== null) {
+            this.maybeCompact();
+          } else {
+            void this.save();
+          }
         }, this.options.autoSaveInterval);
       }
 
@@ -92,14 +240,20 @@ export class SQLiteStorage extends StorageInterface {
   }
 
   async close(): Promise<Result<void, StorageError>> {
+    await this.scope.idle();
     try {
       if (this.autoSaveTimer !== null) {
         clearInterval(this.autoSaveTimer);
         this.autoSaveTimer = null;
       }
 
-      // Save before closing
-      if (this.isDirty) {
+      if (this.journal !== null) {
+        // Journaled writes are already durable; only compact an oversized journal
+        this.maybeCompact();
+        this.journal.close();
+        this.journal = null;
+      } else if (this.isDirty) {
+        // Save before closing
         await this.save();
       }
 
@@ -121,11 +275,33 @@ export class SQLiteStorage extends StorageInterface {
 
   /**
    * Save the database to disk
+   *
+   * With journaling enabled this checkpoints the database into the base
+   * file and truncates the journal.
    */
   async save(): Promise<Result<void, StorageError>> {
     if (this.options.path === ':memory:' || this.db === null) {
       return ok(undefined);
     }
+    await this.scope.idle();
+
+    if (this.journal !== null) {
+      if (this.pendingStatements !== null) {
+        return err(new StorageError('Cannot checkpoint inside a transaction', 'QUERY_FAILED'));
+      }
+      try {
+        this.checkpoint();
+        return ok(undefined);
+      } catch (error) {
+        return err(
+          new StorageError(
+            `Failed to checkpoint database: ${error instanceof Error ? error.message : String(error)}`,
+            'QUERY_FAILED',
+            error instanceof Error ? error : undefined
+          )
+        );
+      }
+    }
 
     try {
       const data = this.db.export();
@@ -167,32 +343,9 @@ export class SQLiteStorage extends StorageInterface {
     collection: string,
     record: T
   ): Promise<Result<T, StorageError>> {
-    try {
-      this.ensureConnected();
-      const now = createTimestamp();
-      const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now };
-
-      const columns = Object.keys(recordWithTimestamp);
-      const placeholders = columns.map(() => '?').join(', ');
-      const values: SqlValue[] = columns.map((col) => {
-        const value = recordWithTimestamp[col as keyof typeof recordWithTimestamp];
-        return (typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as SqlValue;
-      });
-
-      const sql = `INSERT INTO ${this.escapeIdentifier(collection)} (${columns.map((c) => this.escapeIdentifier(c)).join(', ')}) VALUES (${placeholders})`;
-      this.db!.run(sql, values);
-      this.isDirty = true;
-
-      return ok(recordWithTimestamp as T);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      if (message.includes('UNIQUE constraint')) {
-        return err(new StorageError(`Duplicate key in ${collection}`, 'DUPLICATE_KEY'));
-      }
-      return err(new StorageError(`Insert failed: ${message}`, 'QUERY_FAILED'));
-    }
+    // The record and its change log entry must succeed or fail together
+    return this.transaction(async () => this.insertRecord(collection, record));
   }
-
   async insertMany<T extends StorageRecord>(
     collection: string,
     records: readonly T[]
@@ -216,18 +369,7 @@ export class SQLiteStorage extends StorageInterface {
   ): Promise<Result<T | null, StorageError>> {
     try {
       this.ensureConnected();
-      const sql = `SELECT * FROM ${this.escapeIdentifier(collection)} WHERE id = ?`;
-      const result = this.db!.exec(sql, [id]);
-
-      if (result.length === 0 || result[0]!.values.length === 0) {
-        return ok(null);
-      }
-
-      const columns = result[0]!.columns;
-      const values = result[0]!.values[0]!;
-      const row = this.rowToObject(columns, values);
-
-      return ok(this.deserializeRow<T>(row));
+      return ok(this.selectById<T>(collection, id));
     } catch (error) {
       return err(
         new StorageError(
@@ -240,19 +382,19 @@ export class SQLiteStorage extends StorageInterface {
 
   async find<T extends StorageRecord>(
     collection: string,
-    criteria: Record<string, unknown>,
+    criteria: QueryCriteria,
     options?: QueryOptions
   ): Promise<Result<PaginatedResult<T>, StorageError>> {
     try {
       this.ensureConnected();
-      const { whereClause, params } = this.buildWhereClause(criteria, options);
-
       const limit = options?.limit ?? 100;
-      const offset = options?.offset ?? 0;
       const orderBy = options?.orderBy ?? 'createdAt';
       const orderDir = options?.orderDirection ?? 'desc';
+      const position = options?.cursor !== undefined ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+      const offset = position !== undefined ? 0 : options?.offset ?? 0;
 
       // Get total count
+      const { whereClause, params } = this.buildWhereClause(collection, criteria, options);
       const countSql = `SELECT COUNT(*) as count FROM ${this.escapeIdentifier(collection)} ${whereClause}`;
       const countResult = this.db!.exec(countSql, params);
       const total = countResult.length > 0 && countResult[0]!.values.length > 0
@@ -260,26 +402,20 @@ export class SQLiteStorage extends StorageInterface {
         : 0;
 
       // Get paginated results
-      const sql = `SELECT * FROM ${this.escapeIdentifier(collection)} ${whereClause} ORDER BY ${this.escapeIdentifier(orderBy)} ${orderDir.toUpperCase()} LIMIT ? OFFSET ?`;
-      const result = this.db!.exec(sql, [...params, limit as SqlValue, offset as SqlValue]);
-
-      const items: T[] = [];
-      if (result.length > 0) {
-        const columns = result[0]!.columns;
-        for (const values of result[0]!.values) {
-          const row = this.rowToObject(columns, values);
-          items.push(this.deserializeRow<T>(row));
-        }
-      }
+      const page = this.selectPage<T>(collection, criteria, options, { limit, offset, orderBy, orderDir, position });
 
       return ok({
-        items,
+        items: page.items,
         total,
         limit,
         offset,
-        hasMore: offset + items.length < total,
+        hasMore: page.hasMore,
+        ...(page.next !== undefined ? { nextCursor: encodeCursor(page.next) } : {}),
       });
     } catch (error) {
+      if (error instanceof StorageError) {
+        return err(error);
+      }
       return err(
         new StorageError(
           `Find failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -289,13 +425,90 @@ export class SQLiteStorage extends StorageInterface {
     }
   }
 
+  /**
+   * Stream matching records page by page without counting them
+   */
+  override async *stream<T extends StorageRecord>(
+    collection: string,
+    criteria: QueryCriteria = {},
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    const limit = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDirection ?? 'desc';
+    let position = options.cursor !== undefined ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+
+    for (;;) {
+      let page: { items: T[]; next: CursorPosition | undefined };
+      try {
+        this.ensureConnected();
+        page = this.selectPage<T>(collection, criteria, options, { limit, offset: 0, orderBy, orderDir, position });
+      } catch (error) {
+        if (error instanceof StorageError) {
+          throw error;
+        }
+        throw new StorageError(
+          `Stream failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED',
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      yield* page.items;
+
+      if (page.next === undefined) {
+        return;
+      }
+      position = page.next;
+    }
+  }
+
+  override async aggregate(
+    collection: string,
+    query: AggregateQuery
+  ): Promise<Result<readonly AggregateGroup[], StorageError>> {
+    try {
+      this.ensureConnected();
+      const groupings = parseGroupBy(query.groupBy);
+      const keys = groupings.map((grouping, i) => `${groupingToSql(grouping)} AS "k${i}"`);
+      const aliases = groupings.map((_, i) => `"k${i}"`);
+      const { whereClause, params } = this.buildWhereClause(collection, query.criteria ?? {});
+
+      let sql = `SELECT ${[...keys, 'COUNT(*) AS "count"'].join(', ')} FROM ${this.escapeIdentifier(collection)} ${whereClause}`;
+      if (aliases.length > 0) {
+        sql += ` GROUP BY ${aliases.join(', ')} ORDER BY "count" DESC, ${aliases.join(', ')}`;
+      }
+      if (query.limit !== undefined) {
+        sql += ' LIMIT ?';
+        params.push(query.limit);
+      }
+
+      const result = this.db!.exec(sql, params);
+      const rows = result[0]?.values ?? [];
+      return ok(rows.map((row) => ({
+        key: Object.fromEntries(groupings.map((grouping, i) => [grouping.name, row[i] as string | number | null])),
+        count: row[groupings.length] as number,
+      })));
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return err(error);
+      }
+      return err(
+        new StorageError(
+          `Aggregate failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
   async count(
     collection: string,
-    criteria?: Record<string, unknown>
+    criteria?: QueryCriteria
   ): Promise<Result<number, StorageError>> {
     try {
       this.ensureConnected();
-      const { whereClause, params } = this.buildWhereClause(criteria ?? {});
+      const { whereClause, params } = this.buildWhereClause(collection, criteria ?? {});
       const sql = `SELECT COUNT(*) as count FROM ${this.escapeIdentifier(collection)} ${whereClause}`;
       const result = this.db!.exec(sql, params);
       const count = result.length > 0 && result[0]!.values.length > 0
@@ -303,6 +516,9 @@ export class SQLiteStorage extends StorageInterface {
         : 0;
       return ok(count);
     } catch (error) {
+      if (error instanceof StorageError) {
+        return err(error);
+      }
       return err(
         new StorageError(
           `Count failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -316,44 +532,24 @@ export class SQLiteStorage extends StorageInterface {
     collection: string,
     record: T
   ): Promise<Result<T, StorageError>> {
-    try {
-      this.ensureConnected();
-      const now = createTimestamp();
-      const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now };
-
-      const columns = Object.keys(recordWithTimestamp);
-      const placeholders = columns.map(() => '?').join(', ');
-      const updateSets = columns
-        .filter((c) => c !== 'id')
-        .map((c) => `${this.escapeIdentifier(c)} = excluded.${this.escapeIdentifier(c)}`)
-        .join(', ');
-      const values: SqlValue[] = columns.map((col) => {
-        const value = recordWithTimestamp[col as keyof typeof recordWithTimestamp];
-        return (typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as SqlValue;
-      });
-
-      const sql = `INSERT INTO ${this.escapeIdentifier(collection)} (${columns.map((c) => this.escapeIdentifier(c)).join(', ')}) VALUES (${placeholders}) ON CONFLICT(id) DO UPDATE SET ${updateSets}`;
-      this.db!.run(sql, values);
-      this.isDirty = true;
-
-      return ok(recordWithTimestamp as T);
-    } catch (error) {
-      return err(
-        new StorageError(
-          `Upsert failed: ${error instanceof Error ? error.message : String(error)}`,
-          'QUERY_FAILED'
-        )
-      );
-    }
+    // Archiving the old row, replacing it and logging the change must
+    // succeed or fail together
+    return this.transaction(async () => this.replaceRecord(collection, record));
   }
 
   async query<T>(
     sql: string,
     params?: readonly unknown[]
   ): Promise<Result<readonly T[], StorageError>> {
+    if (!READ_ONLY_STATEMENT.test(sql)) {
+      await this.scope.idle();
+    }
     try {
       this.ensureConnected();
       const result = this.db!.exec(sql, params as SqlValue[] | undefined);
+      if (!READ_ONLY_STATEMENT.test(sql)) {
+        this.recordWrite(sql, (params ?? []) as readonly SqlValue[]);
+      }
 
       const items: T[] = [];
       if (result.length > 0) {
@@ -375,30 +571,172 @@ export class SQLiteStorage extends StorageInterface {
     }
   }
 
+  async registerMigrations(
+    migrations: readonly Migration[]
+  ): Promise<Result<number, StorageError>> {
+    return this.changeSchema((runner) => {
+      const registered = runner.register(migrations);
+      if (!registered.ok) {
+        return registered;
+      }
+      for (const migration of migrations) {
+        this.registeredMigrations.set(`${migration.module ?? CORE_MIGRATION_MODULE}#${migration.version}`, migration);
+      }
+      return runner.run();
+    });
+  }
+
+  async migrationStatus(): Promise<Result<readonly MigrationStatus[], StorageError>> {
+    try {
+      this.ensureConnected();
+      return this.migrationRunner!.status();
+    } catch (error) {
+      return err(error instanceof StorageError ? error : new StorageError(String(error), 'MIGRATION_FAILED'));
+    }
+  }
+
+  async planMigrations(
+    version?: number,
+    module?: string
+  ): Promise<Result<readonly MigrationStep[], StorageError>> {
+    try {
+      this.ensureConnected();
+      return this.migrationRunner!.plan(version, module);
+    } catch (error) {
+      return err(error instanceof StorageError ? error : new StorageError(String(error), 'MIGRATION_FAILED'));
+    }
+  }
+
+  async migrateTo(version: number, module?: string): Promise<Result<number, StorageError>> {
+    return this.changeSchema((runner) => runner.migrateTo(version, module));
+  }
+
+  /**
+   * Run operations in a transaction. Nested calls use savepoints, and
+   * top-level transactions from concurrent callers run one at a time.
+   */
   async transaction<T>(
     fn: () => Promise<Result<T, StorageError>>
   ): Promise<Result<T, StorageError>> {
     this.ensureConnected();
+    return this.scope.run(this.transactionHooks, fn);
+  }
+
+  async registerCollection(
+    collection: string,
+    options: CollectionOptions
+  ): Promise<Result<void, StorageError>> {
+    return this.collectionRegistry.register(collection, options);
+  }
+
+  writeMode(collection: string): WriteMode {
+    return this.collectionRegistry.writeMode(collection);
+  }
+
+  async findVersions<T extends StorageRecord>(
+    collection: string,
+    id: string
+  ): Promise<Result<readonly RecordVersion<T>[], StorageError>> {
     try {
-      this.db!.run('BEGIN TRANSACTION');
-      const result = await fn();
-      if (result.ok) {
-        this.db!.run('COMMIT');
-      } else {
-        this.db!.run('ROLLBACK');
+      this.ensureConnected();
+      const versions: RecordVersion<T>[] = [];
+      const archived = this.db!.exec(
+        `SELECT version, data, supersededAt FROM ${RECORD_VERSIONS_TABLE} WHERE collection = ? AND recordId = ? ORDER BY version`,
+        [collection, id]
+      );
+      for (const [version, data, supersededAt] of archived[0]?.values ?? []) {
+        versions.push({
+          version: version as number,
+          record: JSON.parse(data as string) as T,
+          supersededAt: supersededAt as Timestamp,
+        });
       }
-      return result;
+
+      const current = this.selectById<T>(collection, id);
+      if (current !== null) {
+        versions.push({ version: versions.length + 1, record: current });
+      }
+      return ok(versions);
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Find versions failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
+  /**
+   * Delete the prior versions of a record and redact its changes. With
+   * journaling, the erased data leaves the journal at the next `save()`.
+   */
+  async eraseHistory(collection: string, id: string): Promise<Result<number, StorageError>> {
+    return this.transaction(() => Promise.resolve(this.deleteVersions(collection, id)));
+  }
+
+  async changesSince(
+    sequence: number,
+    options: ChangeQueryOptions = {}
+  ): Promise<Result<readonly ChangeEvent[], StorageError>> {
+    try {
+      this.ensureConnected();
+      const params: SqlValue[] = [sequence];
+      let sql = `SELECT sequence, collection, recordId, operation, before, after, timestamp FROM ${CHANGES_TABLE} WHERE sequence > ?`;
+      if (options.collections !== undefined) {
+        sql += ` AND collection IN (${options.collections.map(() => '?').join(', ')})`;
+        params.push(...options.collections);
+      }
+      sql += ' ORDER BY sequence LIMIT ?';
+      params.push(options.limit ?? DEFAULT_CHANGE_BATCH_SIZE);
+
+      const result = this.db!.exec(sql, params);
+      const changes = (result[0]?.values ?? []).map(
+        ([seq, collection, id, operation, before, after, timestamp]): ChangeEvent => ({
+          sequence: seq as number,
+          collection: collection as string,
+          id: id as string,
+          operation: operation as ChangeEvent['operation'],
+          before: before === null ? null : (JSON.parse(before as string) as StorageRecord),
+          after: after === null ? null : (JSON.parse(after as string) as StorageRecord),
+          timestamp: timestamp as Timestamp,
+        })
+      );
+      return ok(changes);
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Changes query failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
+  override async latestSequence(): Promise<Result<number, StorageError>> {
+    try {
+      this.ensureConnected();
+      // The AUTOINCREMENT counter survives pruning the latest changes
+      const result = this.db!.exec('SELECT COALESCE(MAX(seq), 0) FROM sqlite_sequence WHERE name = ?', [CHANGES_TABLE]);
+      return ok((result[0]?.values[0]?.[0] as number | undefined) ?? 0);
     } catch (error) {
-      this.db!.run('ROLLBACK');
       return err(
         new StorageError(
-          `Transaction failed: ${error instanceof Error ? error.message : String(error)}`,
+          `Changes query failed: ${error instanceof Error ? error.message : String(error)}`,
           'QUERY_FAILED'
         )
       );
     }
   }
 
+  async pruneChanges(sequence: number): Promise<Result<number, StorageError>> {
+    return this.transaction(() => Promise.resolve(this.deleteChanges(sequence)));
+  }
+
+  subscribe(listener: ChangeListener, options: SubscribeOptions = {}): ChangeSubscription {
+    return this.changeFeed.subscribe(listener, options, (sequence, query) => this.changesSince(sequence, query));
+  }
+
   async stats(): Promise<
     Result<{ collections: Record<string, number>; totalSize: number }, StorageError>
   > {
@@ -407,7 +745,7 @@ export class SQLiteStorage extends StorageInterface {
 
       // Get all table names
       const tablesResult = this.db!.exec(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name != '_migrations'"
+        `SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name != '_migrations' AND name != '${JOURNAL_STATE_TABLE}' AND name != '${RECORD_VERSIONS_TABLE}' AND name != '${CHANGES_TABLE}'`
       );
 
       const collections: Record<string, number> = {};
@@ -423,9 +761,11 @@ export class SQLiteStorage extends StorageInterface {
         }
       }
 
-      // Estimate size
-      const data = this.db!.export();
-      const totalSize = data.length;
+      // Estimate size from the page count; export() would end an open transaction
+      const sizeResult = this.db!.exec(
+        'SELECT page_count * page_size FROM pragma_page_count(), pragma_page_size()'
+      );
+      const totalSize = (sizeResult[0]?.values[0]?.[0] as number | undefined) ?? 0;
 
       return ok({ collections, totalSize });
     } catch (error) {
@@ -446,12 +786,149 @@ export class SQLiteStorage extends StorageInterface {
     return this.db!;
   }
 
+  /**
+   * Get the current journal size in bytes (0 when journaling is disabled)
+   */
+  getJournalSize(): number {
+    return this.journal?.size ?? 0;
+  }
+
+  /**
+   * Run a schema change outside any transaction and checkpoint it, since
+   * DDL is not journaled
+   */
+  private async changeSchema(
+    fn: (runner: MigrationRunner) => Result<number, StorageError>
+  ): Promise<Result<number, StorageError>> {
+    if (this.scope.current !== undefined) {
+      return err(new StorageError('Migrations cannot run inside a transaction', 'MIGRATION_FAILED'));
+    }
+    await this.scope.idle();
+
+    try {
+      this.ensureConnected();
+      const result = fn(this.migrationRunner!);
+      if (result.ok && result.value > 0) {
+        this.isDirty = true;
+        if (this.journal !== null) {
+          this.checkpoint();
+        }
+      }
+      return result;
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Migration failed: ${error instanceof Error ? error.message : String(error)}`,
+          'MIGRATION_FAILED',
+          error instanceof Error ? error : undefined
+        )
+      );
+    }
+  }
+
+  /**
+   * Run a write statement and record it in the journal
+   */
+  private runWrite(sql: string, params: SqlValue[]): void {
+    this.db!.run(sql, params);
+    this.recordWrite(sql, params);
+  }
+
+  /**
+   * Record an executed write, deferring it until commit inside a transaction
+   */
+  private recordWrite(sql: string, params: readonly SqlValue[]): void {
+    this.isDirty = true;
+    if (this.journal === null) return;
+
+    const statement: JournalStatement = { sql, params: [...params] };
+    if (this.pendingStatements !== null) {
+      this.pendingStatements.push(statement);
+      return;
+    }
+
+    this.journal.append([statement]);
+    this.maybeCompact();
+  }
+
+  /**
+   * Append the statements of a committed transaction as a single journal entry
+   */
+  private commitPending(): void {
+    const statements = this.pendingStatements;
+    this.pendingStatements = null;
+    if (this.journal === null || statements === null || statements.length === 0) return;
+
+    this.journal.append(statements);
+    this.maybeCompact();
+  }
+
+  /**
+   * Compact the journal into the base file once it outgrows the threshold
+   */
+  private maybeCompact(): void {
+    if (this.journal === null || this.pendingStatements !== null) return;
+    if (this.options.compactThreshold > 0 && this.journal.size >= this.options.compactThreshold) {
+      this.checkpoint();
+    }
+  }
+
+  /**
+   * Write the full database to the base file and truncate the journal.
+   *
+   * The journal sequence is stored inside the snapshot so that a crash
+   * between the rename and the truncate does not replay entries twice.
+   */
+  private checkpoint(): void {
+    const db = this.db!;
+    if (this.journal !== null) {
+      db.run(
+        `CREATE TABLE IF NOT EXISTS ${JOURNAL_STATE_TABLE} (id INTEGER PRIMARY KEY CHECK (id = 1), sequence INTEGER NOT NULL)`
+      );
+      db.run(
+        `INSERT INTO ${JOURNAL_STATE_TABLE} (id, sequence) VALUES (1, ?) ON CONFLICT(id) DO UPDATE SET sequence = excluded.sequence`,
+        [this.journal.sequence]
+      );
+    }
+
+    const data = db.export();
+    const tempPath = `${this.options.path}.tmp`;
+    mkdirSync(dirname(this.options.path), { recursive: true });
+    writeFileSync(tempPath, Buffer.from(data));
+    renameSync(tempPath, this.options.path);
+
+    this.journal?.reset();
+    this.isDirty = false;
+  }
+
+  /**
+   * Read the journal sequence number recorded by the last checkpoint
+   */
+  private readCheckpointSequence(): number {
+    try {
+      const result = this.db!.exec(`SELECT sequence FROM ${JOURNAL_STATE_TABLE} WHERE id = 1`);
+      const value = result[0]?.values[0]?.[0];
+      return typeof value === 'number' ? value : 0;
+    } catch {
+      return 0;
+    }
+  }
+
   private ensureConnected(): void {
     if (this.db === null) {
       throw new StorageError('Database not initialized', 'CONNECTION_FAILED');
     }
   }
 
+  /**
+   * Columns of a collection's table, read on each query since migrations may alter it
+   */
+  private tableColumns(collection: string): ReadonlySet<string> {
+    const result = this.db!.exec(`PRAGMA table_info(${this.escapeIdentifier(collection)})`);
+    const name = result[0]?.columns.indexOf('name') ?? -1;
+    return new Set((result[0]?.values ?? []).map((row) => String(row[name])));
+  }
+
   private escapeIdentifier(name: string): string {
     return `"${name.replace(/"/g, '""')}"`;
   }
@@ -464,17 +941,236 @@ export class SQLiteStorage extends StorageInterface {
     return obj;
   }
 
+  /**
+   * Read a single row by id
+   */
+  private selectById<T>(collection: string, id: string): T | null {
+    const sql = `SELECT * FROM ${this.escapeIdentifier(collection)} WHERE id = ?`;
+    const result = this.db!.exec(sql, [id]);
+
+    if (result.length === 0 || result[0]!.values.length === 0) {
+      return null;
+    }
+
+    const columns = result[0]!.columns;
+    const values = result[0]!.values[0]!;
+    return this.deserializeRow<T>(this.rowToObject(columns, values));
+  }
+
+  /**
+   * Insert a record and log the change
+   */
+  private insertRecord<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Result<T, StorageError> {
+    try {
+      this.ensureConnected();
+      const now = createTimestamp();
+      const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now };
+
+      const columns = Object.keys(recordWithTimestamp);
+      const placeholders = columns.map(() => '?').join(', ');
+      const values: SqlValue[] = columns.map((col) => {
+        const value = recordWithTimestamp[col as keyof typeof recordWithTimestamp];
+        return (typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as SqlValue;
+      });
+
+      const sql = `INSERT INTO ${this.escapeIdentifier(collection)} (${columns.map((c) => this.escapeIdentifier(c)).join(', ')}) VALUES (${placeholders})`;
+      this.runWrite(sql, values);
+      this.logChange(collection, null, recordWithTimestamp);
+
+      return ok(recordWithTimestamp as T);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('UNIQUE constraint')) {
+        return err(new StorageError(`Duplicate key in ${collection}`, 'DUPLICATE_KEY'));
+      }
+      return err(new StorageError(`Insert failed: ${message}`, 'QUERY_FAILED'));
+    }
+  }
+
+  /**
+   * Insert or replace a record, honouring the collection's write mode
+   */
+  private replaceRecord<T extends StorageRecord>(
+    collection: string,
+    record: T
+  ): Result<T, StorageError> {
+    try {
+      this.ensureConnected();
+      const mode = this.collectionRegistry.writeMode(collection);
+      const existing = this.selectById<StorageRecord>(collection, record.id);
+      if (existing !== null && mode === 'append_only') {
+        return err(appendOnlyViolation(collection, record.id));
+      }
+      if (existing !== null && mode === 'versioned') {
+        this.archiveVersion(collection, existing);
+      }
+
+      const now = createTimestamp();
+      const recordWithTimestamp = { ...record, createdAt: record.createdAt ?? now };
+
+      const columns = Object.keys(recordWithTimestamp);
+      const placeholders = columns.map(() => '?').join(', ');
+      const updateSets = columns
+        .filter((c) => c !== 'id')
+        .map((c) => `${this.escapeIdentifier(c)} = excluded.${this.escapeIdentifier(c)}`)
+        .join(', ');
+      const values: SqlValue[] = columns.map((col) => {
+        const value = recordWithTimestamp[col as keyof typeof recordWithTimestamp];
+        return (typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as SqlValue;
+      });
+
+      const sql = `INSERT INTO ${this.escapeIdentifier(collection)} (${columns.map((c) => this.escapeIdentifier(c)).join(', ')}) VALUES (${placeholders}) ON CONFLICT(id) DO UPDATE SET ${updateSets}`;
+      this.runWrite(sql, values);
+      this.logChange(collection, existing, recordWithTimestamp);
+
+      return ok(recordWithTimestamp as T);
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Upsert failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
+  /**
+   * Keep a record about to be replaced as the next prior version
+   */
+  private archiveVersion(collection: string, record: StorageRecord): void {
+    const latest = this.db!.exec(
+      `SELECT COALESCE(MAX(version), 0) FROM ${RECORD_VERSIONS_TABLE} WHERE collection = ? AND recordId = ?`,
+      [collection, record.id]
+    );
+    const version = ((latest[0]?.values[0]?.[0] as number | undefined) ?? 0) + 1;
+    this.runWrite(
+      `INSERT INTO ${RECORD_VERSIONS_TABLE} (collection, recordId, version, data, supersededAt) VALUES (?, ?, ?, ?, ?)`,
+      [collection, record.id, version, JSON.stringify(record), createTimestamp()]
+    );
+  }
+
+  /**
+   * Delete every prior version of a record and redact its changes
+   */
+  private deleteVersions(collection: string, id: string): Result<number, StorageError> {
+    try {
+      this.ensureConnected();
+      this.runWrite(`DELETE FROM ${RECORD_VERSIONS_TABLE} WHERE collection = ? AND recordId = ?`, [collection, id]);
+      const erased = this.db!.getRowsModified();
+
+      const current = this.selectById<StorageRecord>(collection, id);
+      this.runWrite(
+        `UPDATE ${CHANGES_TABLE} SET before = NULL, after = ? WHERE collection = ? AND recordId = ?`,
+        [current === null ? null : JSON.stringify(current), collection, id]
+      );
+      this.pendingChanges = this.pendingChanges?.map((change) =>
+        isChangeOf(change, collection, id) ? redactChange(change, current) : change
+      ) ?? null;
+      return ok(erased);
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Erase history failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
+  /**
+   * Delete the changes with a sequence lower than `sequence`
+   */
+  private deleteChanges(sequence: number): Result<number, StorageError> {
+    try {
+      this.ensureConnected();
+      this.runWrite(`DELETE FROM ${CHANGES_TABLE} WHERE sequence < ?`, [sequence]);
+      return ok(this.db!.getRowsModified());
+    } catch (error) {
+      return err(
+        new StorageError(
+          `Prune changes failed: ${error instanceof Error ? error.message : String(error)}`,
+          'QUERY_FAILED'
+        )
+      );
+    }
+  }
+
+  /**
+   * Append a write to the change log, to be published when the transaction commits
+   */
+  private logChange(collection: string, before: StorageRecord | null, after: StorageRecord): void {
+    const timestamp = createTimestamp();
+    this.runWrite(
+      `INSERT INTO ${CHANGES_TABLE} (collection, recordId, operation, before, after, timestamp) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        collection,
+        after.id,
+        before === null ? 'insert' : 'update',
+        before === null ? null : JSON.stringify(before),
+        JSON.stringify(after),
+        timestamp,
+      ]
+    );
+    const sequence = this.db!.exec('SELECT last_insert_rowid()')[0]!.values[0]![0] as number;
+    this.pendingChanges?.push(createChange(sequence, collection, before, after, timestamp));
+  }
+
+  /**
+   * Select one page in keyset order, fetching one extra row to detect more
+   */
+  private selectPage<T>(
+    collection: string,
+    criteria: QueryCriteria,
+    options: Pick<QueryOptions, 'temporal'> | undefined,
+    page: {
+      limit: number;
+      offset: number;
+      orderBy: string;
+      orderDir: 'asc' | 'desc';
+      position: CursorPosition | undefined;
+    }
+  ): { items: T[]; hasMore: boolean; next: CursorPosition | undefined } {
+    const column = this.escapeIdentifier(page.orderBy);
+    const keyset = page.position !== undefined ? keysetToSql(page.position, column) : undefined;
+    const { whereClause, params } = this.buildWhereClause(collection, criteria, options, keyset);
+
+    const sql = `SELECT * FROM ${this.escapeIdentifier(collection)} ${whereClause} ${keysetOrderSql(column, page.orderDir)} LIMIT ? OFFSET ?`;
+    const result = this.db!.exec(sql, [...params, (page.limit + 1) as SqlValue, page.offset as SqlValue]);
+
+    const rows: Record<string, unknown>[] = [];
+    if (result.length > 0) {
+      const columns = result[0]!.columns;
+      for (const values of result[0]!.values) {
+        rows.push(this.rowToObject(columns, values));
+      }
+    }
+
+    const hasMore = rows.length > page.limit;
+    const pageRows = rows.slice(0, page.limit);
+    const last = pageRows[pageRows.length - 1];
+    return {
+      items: pageRows.map((row) => this.deserializeRow<T>(row)),
+      hasMore,
+      next: hasMore && last !== undefined ? positionAfter(last, page.orderBy, page.orderDir) : undefined,
+    };
+  }
+
   private buildWhereClause(
-    criteria: Record<string, unknown>,
-    options?: QueryOptions
+    collection: string,
+    criteria: QueryCriteria,
+    options?: Pick<QueryOptions, 'temporal'>,
+    extra?: SqlCondition
   ): { whereClause: string; params: SqlValue[] } {
     const conditions: string[] = [];
     const params: SqlValue[] = [];
 
-    for (const [key, value] of Object.entries(criteria)) {
-      if (value === undefined) continue;
-      conditions.push(`${this.escapeIdentifier(key)} = ?`);
-      params.push((typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as SqlValue);
+    const compiled = criteriaToSql(criteria, this.tableColumns(collection));
+    if (compiled.sql !== '1') {
+      conditions.push(compiled.sql);
+      params.push(...compiled.params);
     }
 
     if (options?.temporal !== undefined) {
@@ -488,6 +1184,11 @@ export class SQLiteStorage extends StorageInterface {
       }
     }
 
+    if (extra !== undefined) {
+      conditions.push(extra.sql);
+      params.push(...(extra.params as SqlValue[]));
+    }
+
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     return { whereClause, params };
   }
@@ -0,0 +1,118 @@
+/**
+ * Transaction scoping shared by storage backends
+ *
+ * Tracks which async context owns the running transaction so that a
+ * `transaction()` call made from inside another one becomes a savepoint,
+ * while calls from unrelated contexts wait their turn.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { err, type Result } from '@contextgraph/core';
+import { StorageError } from './interface.js';
+
+/**
+ * Backend callbacks that open, commit and roll back a transaction frame
+ */
+export interface TransactionHooks<F> {
+  /** Open a frame: a transaction when `parent` is undefined, otherwise a savepoint */
+  begin(parent: F | undefined): F;
+  /** Commit a transaction or release a savepoint */
+  commit(frame: F): void;
+  /** Roll back a transaction or roll back to a savepoint */
+  rollback(frame: F): void;
+}
+
+/**
+ * Serializes top-level transactions and maps nested calls onto savepoints
+ */
+export class TransactionScope<F> {
+  private readonly context = new AsyncLocalStorage<F>();
+  private tail: Promise<void> = Promise.resolve();
+  private holders = 0;
+
+  /**
+   * Frame of the transaction owning the current async context, if any
+   */
+  get current(): F | undefined {
+    return this.context.getStore();
+  }
+
+  /**
+   * Wait until no transaction from another async context is running.
+   *
+   * Writes issued outside a transaction call this so they never interleave
+   * with (and get rolled back by) someone else's transaction.
+   */
+  async idle(): Promise<void> {
+    while (this.holders > 0 && this.context.getStore() === undefined) {
+      await this.tail;
+    }
+  }
+
+  /**
+   * Run `fn` in a new frame, committing on an ok result and rolling back on
+   * an error result or a thrown exception
+   */
+  async run<T>(
+    hooks: TransactionHooks<F>,
+    fn: () => Promise<Result<T, StorageError>>
+  ): Promise<Result<T, StorageError>> {
+    const parent = this.context.getStore();
+    const release = parent === undefined ? await this.acquire() : undefined;
+
+    try {
+      let frame: F;
+      try {
+        frame = hooks.begin(parent);
+      } catch (error) {
+        return err(toStorageError('Transaction failed to start', error));
+      }
+
+      let result: Result<T, StorageError>;
+      try {
+        result = await this.context.run(frame, fn);
+      } catch (error) {
+        hooks.rollback(frame);
+        return err(toStorageError('Transaction failed', error));
+      }
+
+      if (!result.ok) {
+        hooks.rollback(frame);
+        return result;
+      }
+
+      try {
+        hooks.commit(frame);
+      } catch (error) {
+        hooks.rollback(frame);
+        return err(toStorageError('Transaction failed to commit', error));
+      }
+      return result;
+    } finally {
+      release?.();
+    }
+  }
+
+  private async acquire(): Promise<() => void> {
+    let release!: () => void;
+    const next = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const previous = this.tail;
+    this.tail = previous.then(() => next);
+    this.holders++;
+    await previous;
+    return () => {
+      this.holders--;
+      release();
+    };
+  }
+}
+
+function toStorageError(message: string, error: unknown): StorageError {
+  return new StorageError(
+    `${message}: ${error instanceof Error ? error.message : String(error)}`,
+    'QUERY_FAILED',
+    error instanceof Error ? error : undefined
+  );
+}
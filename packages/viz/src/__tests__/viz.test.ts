@@ -11,8 +11,17 @@ import {
   renderSvg,
   visualizeGraph,
   visualizeTimeline,
+  visualizeDiff,
   getSupportedFormats,
 } from '../index.js';
+import { Claim, type GraphDiff } from '@contextgraph/ckg';
+import {
+  createEntityId,
+  createProvenanceId,
+  createTimeInterval,
+  createTimestamp,
+  type Timestamp,
+} from '@contextgraph/core';
 import type { GraphData, VizOptions, TimelineEvent } from '../types.js';
 
 describe('Renderers', () => {
@@ -307,6 +316,54 @@ describe('Visualizer', () => {
     });
   });
 
+  describe('visualizeDiff', () => {
+    const claim = (predicate: string, object: { objectId: string } | { objectValue: unknown }): Claim => {
+      const result = Claim.create({
+        subjectId: createEntityId('alice'),
+        subjectType: 'Person',
+        predicate,
+        ...('objectId' in object ? { objectId: createEntityId(object.objectId) } : object),
+        context: { temporal: createTimeInterval(createTimestamp(0)) },
+        provenanceId: createProvenanceId('prov-1'),
+      });
+      if (!result.ok) throw result.error;
+      return result.value;
+    };
+    const employment = claim('worksAt', { objectId: 'acme' });
+    const diff: GraphDiff = {
+      from: 0 as Timestamp,
+      to: 1000 as Timestamp,
+      added: [{ claim: employment, reason: 'recorded', at: 500 as Timestamp }],
+      removed: [{ claim: claim('title', { objectValue: 'Engineer' }), reason: 'expired', at: 800 as Timestamp }],
+      recorded: [employment],
+      entityIds: [createEntityId('alice'), createEntityId('acme')],
+    };
+
+    it('should highlight added and removed edges', () => {
+      const result = visualizeDiff(diff, { format: 'dot' }, { alice: 'Alice' });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toContain('label="Alice"');
+        expect(result.value).toContain('"alice" -> "acme" [label="worksAt", color="#2e7d32", style=solid');
+        expect(result.value).toMatch(/"alice" -> "value_[^"]+" \[label="title", color="#c62828", style=dashed/);
+        expect(result.value).toContain('label="\\"Engineer\\""');
+      }
+    });
+
+    it('should style links in Mermaid', () => {
+      const result = visualizeDiff(diff, { format: 'mermaid' });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toContain('alice -->|"worksAt"| acme');
+        expect(result.value).toContain('linkStyle 0 stroke:#2e7d32,stroke-width:2px');
+        expect(result.value).toContain('linkStyle 1 stroke:#c62828,stroke-width:2px');
+        expect(result.value).toMatch(/alice -\.->\|"title"\| value_/);
+      }
+    });
+  });
+
   describe('getSupportedFormats', () => {
     it('should return all supported formats', () => {
       const formats = getSupportedFormats();
@@ -35,6 +35,7 @@ export {
   visualizeEntities,
   visualizeDecisions,
   visualizeTimeline,
+  visualizeDiff,
   visualizeGraph,
   getSupportedFormats,
 } from './visualizer.js';
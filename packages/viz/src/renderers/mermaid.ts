@@ -2,7 +2,7 @@
  * Mermaid Diagram Renderer
  */
 
-import type { GraphData, VizOptions } from '../types.js';
+import type { GraphData, VizOptions, EdgeStyle } from '../types.js';
 
 /**
  * Escape string for Mermaid format
@@ -42,9 +42,12 @@ function getNodeShape(
 }
 
 /**
- * Get edge arrow style for Mermaid
+ * Get edge arrow style for Mermaid; a custom dashed or dotted style wins
  */
-function getEdgeArrow(type: string): string {
+function getEdgeArrow(type: string, style?: EdgeStyle): string {
+  if (style?.style === 'dashed' || style?.style === 'dotted') {
+    return '-.->';
+  }
   switch (type) {
     case 'derives':
       return '-.->'; // dotted
@@ -59,6 +62,20 @@ function getEdgeArrow(type: string): string {
   }
 }
 
+/**
+ * Get link style declarations for a custom edge style
+ */
+function getLinkStyle(style: EdgeStyle): string {
+  const declarations: string[] = [];
+  if (style.color !== undefined) {
+    declarations.push(`stroke:${style.color}`);
+  }
+  if (style.width !== undefined) {
+    declarations.push(`stroke-width:${style.width}px`);
+  }
+  return declarations.join(',');
+}
+
 /**
  * Render graph data to Mermaid format
  */
@@ -102,7 +119,7 @@ export function renderMermaid(data: GraphData, options: VizOptions): string {
 
   // Render edges
   for (const edge of data.edges) {
-    const arrow = getEdgeArrow(edge.type);
+    const arrow = getEdgeArrow(edge.type, options.edgeStyles?.[edge.type]);
     if (edge.label !== undefined && options.showLabels !== false) {
       const escapedLabel = escapeLabel(edge.label);
       lines.push(`  ${edge.from} ${arrow}|"${escapedLabel}"| ${edge.to}`);
@@ -139,5 +156,14 @@ export function renderMermaid(data: GraphData, options: VizOptions): string {
     lines.push(`  class ${ids} ${type}`);
   }
 
+  // Links are styled by their position in the diagram
+  data.edges.forEach((edge, index) => {
+    const style = options.edgeStyles?.[edge.type];
+    const linkStyle = style !== undefined ? getLinkStyle(style) : '';
+    if (linkStyle !== '') {
+      lines.push(`  linkStyle ${index} ${linkStyle}`);
+    }
+  });
+
   return lines.join('\n');
 }
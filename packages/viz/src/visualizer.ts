@@ -6,13 +6,14 @@
 
 import type { Result } from '@contextgraph/core';
 import type { ProvenanceLedger } from '@contextgraph/provenance';
-import type { CKG, Claim } from '@contextgraph/ckg';
+import type { CKG, Claim, GraphDiff, ClaimChange } from '@contextgraph/ckg';
 import type { DecisionTraceGraph } from '@contextgraph/dtg';
 import type {
   GraphData,
   GraphNode,
   GraphEdge,
   VizOptions,
+  EdgeStyle,
   OutputFormat,
   TimelineEvent,
 } from './types.js';
@@ -331,6 +332,80 @@ export function visualizeTimeline(
   }
 }
 
+/**
+ * Edge styles highlighting claims added and removed by a diff
+ */
+const DIFF_EDGE_STYLES: Record<string, EdgeStyle> = {
+  added: { color: '#2e7d32', style: 'solid', width: 2 },
+  removed: { color: '#c62828', style: 'dashed', width: 2 },
+};
+
+/**
+ * Visualize the changes between two points in time: claims that started
+ * holding as `added` edges, claims that stopped as `removed` edges, and
+ * literal values as nodes of their own
+ */
+export function visualizeDiff(
+  diff: GraphDiff,
+  options: Partial<VizOptions> = {},
+  entityNames: Readonly<Record<string, string>> = {}
+): Result<string> {
+  const opts: VizOptions = {
+    ...DEFAULT_OPTIONS,
+    direction: 'LR',
+    ...options,
+    edgeStyles: { ...DIFF_EDGE_STYLES, ...options.edgeStyles },
+  };
+
+  try {
+    const nodes = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+
+    const addChange = (change: ClaimChange, type: 'added' | 'removed'): void => {
+      const { id, subjectId, predicate, objectId, objectValue } = change.claim.data;
+      for (const entityId of objectId !== undefined ? [subjectId, objectId] : [subjectId]) {
+        nodes.set(entityId, {
+          id: entityId,
+          label: entityNames[entityId] ?? entityId.substring(0, 8),
+          type: 'entity',
+        });
+      }
+      const to = objectId ?? `value_${id}`;
+      if (objectId === undefined) {
+        nodes.set(to, { id: to, label: JSON.stringify(objectValue), type: 'value' });
+      }
+      edges.push({
+        from: subjectId,
+        to,
+        type,
+        label: predicate,
+        metadata: { claimId: id, reason: change.reason, at: change.at },
+      });
+    };
+
+    for (const change of diff.added) {
+      addChange(change, 'added');
+    }
+    for (const change of diff.removed) {
+      addChange(change, 'removed');
+    }
+
+    const graphData: GraphData = {
+      nodes: [...nodes.values()],
+      edges,
+      title: `Changes ${formatTimestamp(diff.from, true)} to ${formatTimestamp(diff.to, true)}`,
+      metadata: { from: diff.from, to: diff.to },
+    };
+
+    return { ok: true, value: renderGraph(graphData, opts) };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+}
+
 /**
  * Visualize custom graph data
  */
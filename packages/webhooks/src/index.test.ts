@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { InMemoryStorage } from '@contextgraph/storage';
+import { InMemoryStorage, SQLiteStorage } from '@contextgraph/storage';
 import {
   WebhookManager,
   WebhookDeliveryService,
@@ -634,3 +634,22 @@ describe('WebhookDeliveryService', () => {
     });
   });
 });
+
+describe('webhookMigrations', () => {
+  it('creates the webhook tables in SQLite storage', async () => {
+    const storage = new SQLiteStorage({ path: ':memory:' });
+    const manager = new WebhookManager(storage);
+    expect((await manager.initialize()).ok).toBe(true);
+
+    const created = await manager.create({ url: 'https://example.com/hook', events: ['entity.created'] });
+    expect(created.ok).toBe(true);
+    if (created.ok) {
+      const found = await manager.get(created.value.id);
+      expect(found.ok && found.value?.events).toEqual(['entity.created']);
+    }
+
+    const status = await storage.migrationStatus();
+    expect(status.ok && status.value.filter((m) => m.module === 'webhooks' && m.state === 'applied')).toHaveLength(2);
+    await storage.close();
+  });
+});
@@ -6,6 +6,7 @@
 
 export { WebhookManager } from './manager.js';
 export { WebhookDeliveryService } from './delivery.js';
+export { webhookMigrations } from './migrations.js';
 export {
   generateSecret,
   generateSignature,
@@ -16,6 +16,7 @@ import type {
   WebhookStatus,
 } from './types.js';
 import { generateSecret } from './utils.js';
+import { webhookMigrations } from './migrations.js';
 
 /**
  * Webhook record in storage
@@ -46,10 +47,16 @@ export class WebhookManager {
   }
 
   /**
-   * Initialize webhook storage
+   * Initialize webhook storage and apply the package migrations
    */
   async initialize(): Promise<Result<void, Error>> {
-    return this.storage.initialize();
+    const initResult = await this.storage.initialize();
+    if (!initResult.ok) {
+      return initResult;
+    }
+
+    const migrationResult = await this.storage.registerMigrations(webhookMigrations);
+    return migrationResult.ok ? ok(undefined) : err(migrationResult.error);
   }
 
   /**
@@ -340,13 +347,15 @@ export class WebhookManager {
       id: record.id,
       url: record.url,
       secret: record.secret,
-      events: JSON.parse(record.events) as WebhookEventType[],
+      events: (typeof record.events === 'string' ? JSON.parse(record.events) : record.events) as WebhookEventType[],
       status: record.status,
       createdAt: record.createdAt,
       updatedAt: record.updatedAt,
       failureCount: record.failureCount,
       ...(record.description !== undefined ? { description: record.description } : {}),
-      ...(record.metadata !== undefined ? { metadata: JSON.parse(record.metadata) } : {}),
+      ...(record.metadata !== undefined && record.metadata !== null
+        ? { metadata: typeof record.metadata === 'string' ? JSON.parse(record.metadata) : record.metadata }
+        : {}),
       ...(record.lastDeliveryAt !== undefined ? { lastDeliveryAt: record.lastDeliveryAt } : {}),
     };
 
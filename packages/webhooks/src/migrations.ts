@@ -0,0 +1,76 @@
+/**
+ * Webhook storage migrations
+ *
+ * Schema for the collections owned by the webhooks package, registered
+ * with the storage backend by WebhookManager.initialize().
+ */
+
+import type { Migration } from '@contextgraph/storage';
+
+export const webhookMigrations: readonly Migration[] = [
+  {
+    module: 'webhooks',
+    version: 1,
+    name: 'create_webhooks_table',
+    up: `
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        status TEXT NOT NULL,
+        description TEXT,
+        metadata TEXT,
+        lastDeliveryAt INTEGER,
+        failureCount INTEGER NOT NULL DEFAULT 0,
+        createdAt INTEGER NOT NULL,
+        updatedAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhooks_status ON webhooks(status);
+    `,
+    down: `
+      DROP TABLE IF EXISTS webhooks;
+    `,
+  },
+  {
+    module: 'webhooks',
+    version: 2,
+    name: 'create_webhook_deliveries_tables',
+    up: `
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhookId TEXT NOT NULL,
+        eventId TEXT NOT NULL,
+        eventType TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        statusCode INTEGER,
+        responseBody TEXT,
+        errorMessage TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        nextRetryAt INTEGER,
+        deliveredAt INTEGER,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhookId ON webhook_deliveries(webhookId);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+
+      CREATE TABLE IF NOT EXISTS webhook_attempts (
+        id TEXT PRIMARY KEY,
+        deliveryId TEXT NOT NULL,
+        attemptNumber INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        statusCode INTEGER,
+        responseBody TEXT,
+        errorMessage TEXT,
+        durationMs INTEGER NOT NULL,
+        createdAt INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_attempts_deliveryId ON webhook_attempts(deliveryId);
+    `,
+    down: `
+      DROP TABLE IF EXISTS webhook_attempts;
+      DROP TABLE IF EXISTS webhook_deliveries;
+    `,
+  },
+];
@@ -13,8 +13,10 @@ export type WebhookEventType =
   | 'entity.created'
   | 'entity.updated'
   | 'entity.deleted'
+  | 'entity.merged'
   | 'claim.added'
   | 'claim.revoked'
+  | 'claim.superseded'
   | 'agent.created'
   | 'agent.updated'
   | 'agent.suspended'